@@ -45,18 +45,46 @@ const PUBLIC_TABLES = [
   'projects',
   'employees',
   'pay_rate_history',
+  'pay_rate_adjustments',
+  'leave_policies',
+  'overtime_rules',
+  'pay_schedules',
+  'stat_holidays',
+  'pay_period_closures',
+  'payroll_registers',
+  'project_cost_codes',
   'project_user_assignments',
+  'project_budget_alerts',
+  'project_billing_milestones',
+  'project_billing_claims',
+  'rate_cards',
   'customer_user_assignments',
+  'time_entry_imports',
   'time_entries',
+  'timers',
+  'time_entry_templates',
+  'crew_assignments',
   'forms',
+  'leave_days',
+  'form_approvals',
   'service_tickets',
   'service_ticket_expenses',
   'user_expenses',
   'service_tickets_demo',
   'bug_reports',
   'qbo_tokens',
+  'qbo_invoice_pushes',
   'invoiced_batch_invoices',
   'invoiced_batch_marks',
+  'customer_email_templates',
+  'invoiced_batch_emails',
+  'approval_portal_links',
+  'approval_portal_decisions',
+  'customer_invoices',
+  'customer_invoice_payments',
+  'invoice_numbering',
+  'tax_codes',
+  'expense_type_tax_codes',
 ];
 
 function escape(val) {
@@ -0,0 +1,165 @@
+/**
+ * Local SMTP catcher for testing outbound email without a real mail server.
+ * Usage: node scripts/mail-catcher.js   (or: npm run mail:catch)
+ *
+ * Point the backend at it with:
+ *   SMTP_HOST=localhost
+ *   SMTP_PORT=1025
+ *   MAIL_FROM="IONEX Billing <billing@ionex.local>"
+ *
+ * Accepts every message (any AUTH succeeds, no TLS) and keeps it in memory; each one is also
+ * written to MAIL_CATCHER_DIR as an .eml file you can open in a mail client. Messages are listed
+ * at GET http://localhost:1080/__messages and the raw source is at /__messages/<id>.eml.
+ *
+ * To try the failure paths, send to an address starting with "bounce" (refused with 550, which
+ * the backend records as bounced) or "defer" (refused with 451, recorded as failed).
+ */
+
+const net = require('net');
+const http = require('http');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const SMTP_PORT = Number(process.env.MAIL_CATCHER_SMTP_PORT || 1025);
+const HTTP_PORT = Number(process.env.MAIL_CATCHER_HTTP_PORT || 1080);
+const DIR = process.env.MAIL_CATCHER_DIR || path.join(os.tmpdir(), 'ionex-mail-catcher');
+
+fs.mkdirSync(DIR, { recursive: true });
+
+const messages = [];
+
+function header(source, name) {
+  const m = source.match(new RegExp(`^${name}:\\s*(.*)$`, 'im'));
+  return m ? m[1].trim() : '';
+}
+
+function decodeHeader(value) {
+  return value
+    .replace(/=\?UTF-8\?B\?([^?]+)\?=/gi, (_, b64) => Buffer.from(b64, 'base64').toString('utf8'))
+    .replace(/=\?UTF-8\?Q\?([^?]+)\?=/gi, (_, q) =>
+      Buffer.from(q.replace(/_/g, ' ').replace(/=([0-9A-F]{2})/gi, (__, hex) => String.fromCharCode(parseInt(hex, 16))), 'latin1').toString('utf8')
+    );
+}
+
+function store(envelope, source) {
+  const id = String(messages.length + 1);
+  const file = path.join(DIR, `${Date.now()}-${id}.eml`);
+  fs.writeFileSync(file, source);
+  const message = {
+    id,
+    receivedAt: new Date().toISOString(),
+    from: envelope.from,
+    to: envelope.to,
+    subject: decodeHeader(header(source, 'Subject')),
+    messageId: header(source, 'Message-ID'),
+    attachments: [...source.matchAll(/filename\*?=(?:UTF-8'')?"?([^";\r\n]+)"?/gi)].map((m) => decodeURIComponent(m[1])),
+    size: Buffer.byteLength(source),
+    file,
+    source,
+  };
+  messages.push(message);
+  console.log(`Message ${id}: "${message.subject}" to ${envelope.to.join(', ')} (${message.attachments.length} attachment(s), ${message.size} bytes)`);
+}
+
+const smtp = net.createServer((socket) => {
+  let buffer = '';
+  let envelope = { from: '', to: [] };
+  let data = null; // message lines while in DATA
+  let authStep = null; // 'user' | 'pass' during AUTH LOGIN
+
+  const reply = (line) => socket.write(`${line}\r\n`);
+  reply('220 ionex-mail-catcher ESMTP ready');
+
+  const handle = (line) => {
+    if (data !== null) {
+      if (line === '.') {
+        store(envelope, data.join('\r\n') + '\r\n');
+        data = null;
+        envelope = { from: '', to: [] };
+        return reply('250 OK: queued');
+      }
+      return data.push(line.startsWith('..') ? line.slice(1) : line);
+    }
+    if (authStep) {
+      authStep = authStep === 'user' ? 'pass' : null;
+      return reply(authStep ? '334 UGFzc3dvcmQ6' : '235 Authentication successful');
+    }
+
+    const [verb] = line.split(' ');
+    switch (verb.toUpperCase()) {
+      case 'EHLO':
+        socket.write('250-ionex-mail-catcher\r\n250-AUTH PLAIN LOGIN\r\n250-8BITMIME\r\n250 SIZE 52428800\r\n');
+        return;
+      case 'HELO':
+        return reply('250 ionex-mail-catcher');
+      case 'AUTH':
+        if (/^AUTH LOGIN\s*$/i.test(line)) {
+          authStep = 'user';
+          return reply('334 VXNlcm5hbWU6');
+        }
+        return reply('235 Authentication successful');
+      case 'MAIL': {
+        const m = line.match(/<([^>]*)>/);
+        envelope = { from: m ? m[1] : '', to: [] };
+        return reply('250 OK');
+      }
+      case 'RCPT': {
+        const m = line.match(/<([^>]*)>/);
+        const address = m ? m[1] : '';
+        if (/^bounce/i.test(address)) return reply(`550 5.1.1 <${address}>: mailbox does not exist`);
+        if (/^defer/i.test(address)) return reply(`451 4.3.0 <${address}>: try again later`);
+        envelope.to.push(address);
+        return reply('250 OK');
+      }
+      case 'DATA':
+        if (envelope.to.length === 0) return reply('554 No valid recipients');
+        data = [];
+        return reply('354 End data with <CR><LF>.<CR><LF>');
+      case 'RSET':
+        envelope = { from: '', to: [] };
+        return reply('250 OK');
+      case 'NOOP':
+        return reply('250 OK');
+      case 'QUIT':
+        reply('221 Bye');
+        return socket.end();
+      default:
+        return reply('502 Command not implemented');
+    }
+  };
+
+  socket.on('data', (chunk) => {
+    buffer += chunk.toString('utf8');
+    let newline;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      handle(line);
+    }
+  });
+  socket.on('error', () => {});
+});
+
+const web = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${HTTP_PORT}`);
+  if (req.method === 'GET' && url.pathname === '/__messages') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    return res.end(JSON.stringify(messages.map(({ source, ...summary }) => summary), null, 2));
+  }
+  const raw = url.pathname.match(/^\/__messages\/(\d+)\.eml$/);
+  const message = raw && messages.find((m) => m.id === raw[1]);
+  if (req.method === 'GET' && message) {
+    res.writeHead(200, { 'Content-Type': 'message/rfc822' });
+    return res.end(message.source);
+  }
+  res.writeHead(404, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: 'Not found' }));
+});
+
+smtp.listen(SMTP_PORT, () => {
+  console.log(`Mail catcher SMTP on localhost:${SMTP_PORT}, saving .eml files to ${DIR}`);
+});
+web.listen(HTTP_PORT, () => {
+  console.log(`Caught messages listed at http://localhost:${HTTP_PORT}/__messages`);
+});
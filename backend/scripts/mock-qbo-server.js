@@ -0,0 +1,141 @@
+/**
+ * Local stand-in for Intuit's OAuth + QuickBooks Online accounting API.
+ * Usage: node scripts/mock-qbo-server.js   (or: npm run qbo:mock)
+ *
+ * Point the backend at it with:
+ *   QBO_AUTH_URL=http://localhost:4010/connect/oauth2
+ *   QBO_TOKEN_URL=http://localhost:4010/oauth2/v1/tokens/bearer
+ *   QBO_API_BASE_URL=http://localhost:4010
+ *
+ * Implements only what backend/src/services/quickbooks.ts calls: authorize (auto-approves and
+ * redirects back with a code), token exchange/refresh, Customer/Item/TaxCode queries and Invoice create.
+ * Created invoices are kept in memory and listed at GET /__invoices for inspection.
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = Number(process.env.MOCK_QBO_PORT || 4010);
+const REALM_ID = process.env.MOCK_QBO_REALM_ID || '9130000000000001';
+
+const customers = [
+  { Id: '1', DisplayName: 'Acme Energy' },
+  { Id: '2', DisplayName: 'IONEX Test Customer' },
+];
+// Extra customer names can be seeded: MOCK_QBO_CUSTOMERS="Customer A,Customer B"
+for (const name of (process.env.MOCK_QBO_CUSTOMERS || '').split(',').map((s) => s.trim()).filter(Boolean)) {
+  customers.push({ Id: String(customers.length + 1), DisplayName: name });
+}
+const items = [{ Id: '1', Name: 'Services' }];
+const taxCodes = ['GST', 'HST ON', 'HST NS', 'GST/PST BC', 'GST/PST SK', 'GST/RST MB', 'Exempt'].map((Name, i) => ({ Id: String(i + 1), Name }));
+const invoices = [];
+// requestid → invoice, so a resent create returns the same invoice, as QBO does.
+const invoicesByRequestId = new Map();
+const accessTokens = new Set();
+const refreshTokens = new Set();
+let nextDocNumber = 1001;
+
+function issueTokens() {
+  const access = crypto.randomBytes(16).toString('hex');
+  const refresh = crypto.randomBytes(16).toString('hex');
+  accessTokens.add(access);
+  refreshTokens.add(refresh);
+  return { token_type: 'bearer', access_token: access, refresh_token: refresh, expires_in: 3600, x_refresh_token_expires_in: 8726400 };
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    let data = '';
+    req.on('data', (chunk) => { data += chunk; });
+    req.on('end', () => resolve(data));
+  });
+}
+
+/** Parses the tiny subset of QBO query language the backend sends: select * from X where F = 'v' */
+function runQuery(query) {
+  const m = query.match(/^select \* from (\w+) where (\w+) = '((?:[^'\\]|\\.)*)'$/i);
+  if (!m) return null;
+  const [, entity, field, raw] = m;
+  const value = raw.replace(/\\(.)/g, '$1');
+  const source = entity === 'Customer' ? customers : entity === 'Item' ? items : entity === 'TaxCode' ? taxCodes : [];
+  return { [entity]: source.filter((row) => row[field] === value) };
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === 'GET' && url.pathname === '/connect/oauth2') {
+    const redirect = new URL(url.searchParams.get('redirect_uri'));
+    redirect.searchParams.set('code', crypto.randomBytes(8).toString('hex'));
+    redirect.searchParams.set('state', url.searchParams.get('state') || '');
+    redirect.searchParams.set('realmId', REALM_ID);
+    res.writeHead(302, { Location: redirect.toString() });
+    return res.end();
+  }
+
+  if (req.method === 'POST' && url.pathname === '/oauth2/v1/tokens/bearer') {
+    const form = new URLSearchParams(await readBody(req));
+    if (!(req.headers.authorization || '').startsWith('Basic ')) return sendJson(res, 401, { error: 'invalid_client' });
+    if (form.get('grant_type') === 'authorization_code' && form.get('code')) return sendJson(res, 200, issueTokens());
+    if (form.get('grant_type') === 'refresh_token' && refreshTokens.delete(form.get('refresh_token'))) {
+      return sendJson(res, 200, issueTokens());
+    }
+    return sendJson(res, 400, { error: 'invalid_grant' });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/__invoices') return sendJson(res, 200, invoices);
+
+  const api = url.pathname.match(/^\/v3\/company\/([^/]+)\/(query|invoice)$/);
+  if (api) {
+    const token = (req.headers.authorization || '').replace('Bearer ', '');
+    if (!accessTokens.has(token)) return sendJson(res, 401, { Fault: { type: 'AUTHENTICATION' } });
+    if (api[1] !== REALM_ID) return sendJson(res, 403, { Fault: { type: 'AUTHORIZATION' } });
+
+    if (api[2] === 'query' && req.method === 'GET') {
+      const result = runQuery(url.searchParams.get('query') || '');
+      if (!result) return sendJson(res, 400, { Fault: { type: 'ValidationFault', Error: [{ Message: 'Unsupported query' }] } });
+      return sendJson(res, 200, { QueryResponse: result, time: new Date().toISOString() });
+    }
+
+    if (api[2] === 'invoice' && req.method === 'POST') {
+      const requestId = url.searchParams.get('requestid');
+      if (requestId && invoicesByRequestId.has(requestId)) {
+        return sendJson(res, 200, { Invoice: invoicesByRequestId.get(requestId), time: new Date().toISOString() });
+      }
+      const invoice = JSON.parse((await readBody(req)) || '{}');
+      if (!invoice.CustomerRef?.value || !Array.isArray(invoice.Line) || invoice.Line.length === 0) {
+        return sendJson(res, 400, { Fault: { type: 'ValidationFault', Error: [{ Message: 'CustomerRef and Line are required' }] } });
+      }
+      // Like QBO: Amount must equal Qty * UnitPrice and every line needs a TaxCodeRef (Canadian companies).
+      const badLine = invoice.Line.find((l) => {
+        const d = l.SalesItemLineDetail || {};
+        return !d.TaxCodeRef?.value || Math.round(d.Qty * d.UnitPrice * 100) !== Math.round(l.Amount * 100);
+      });
+      if (badLine) {
+        return sendJson(res, 400, { Fault: { type: 'ValidationFault', Error: [{ Message: `Invalid line: ${badLine.Description}` }] } });
+      }
+      const created = {
+        ...invoice,
+        Id: String(invoices.length + 1),
+        DocNumber: invoice.DocNumber || String(nextDocNumber++),
+        TxnDate: invoice.TxnDate || new Date().toISOString().slice(0, 10),
+        TotalAmt: Math.round(invoice.Line.reduce((sum, l) => sum + (Number(l.Amount) || 0), 0) * 100) / 100,
+      };
+      invoices.push(created);
+      if (requestId) invoicesByRequestId.set(requestId, created);
+      console.log(`Invoice ${created.DocNumber}: ${created.Line.length} line(s), total ${created.TotalAmt}`);
+      return sendJson(res, 200, { Invoice: created, time: new Date().toISOString() });
+    }
+  }
+
+  sendJson(res, 404, { error: 'Not found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock QuickBooks Online listening on http://localhost:${PORT} (realm ${REALM_ID})`);
+});
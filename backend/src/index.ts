@@ -8,6 +8,10 @@ import projectRoutes from './routes/projects';
 import customerRoutes from './routes/customers';
 import timeEntryRoutes from './routes/timeEntries';
 import formRoutes from './routes/forms';
+import quickbooksRoutes from './routes/quickbooks';
+import serviceTicketRoutes from './routes/serviceTickets';
+import mailRoutes from './routes/mail';
+import approvalPortalRoutes from './routes/approvalPortal';
 
 dotenv.config();
 
@@ -25,6 +29,10 @@ app.use('/api/projects', projectRoutes);
 app.use('/api/customers', customerRoutes);
 app.use('/api/time-entries', timeEntryRoutes);
 app.use('/api/forms', formRoutes);
+app.use('/api/quickbooks', quickbooksRoutes);
+app.use('/api/service-tickets', serviceTicketRoutes);
+app.use('/api/mail', mailRoutes);
+app.use('/api/approval-portal', approvalPortalRoutes);
 
 app.get('/api/health', (req, res) => {
   res.json({ status: 'ok', message: 'IONEX Time Tracking API' });
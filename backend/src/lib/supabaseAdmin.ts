@@ -0,0 +1,20 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+let client: SupabaseClient | null = null;
+
+/**
+ * Service-role Supabase client for tables the browser cannot touch (qbo_tokens etc.).
+ * Created lazily so routes that never need it still boot without SUPABASE_* env vars.
+ */
+export function getSupabaseAdmin(): SupabaseClient {
+  if (client) return client;
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_KEY;
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('SUPABASE_URL and SUPABASE_SERVICE_KEY must be set');
+  }
+  client = createClient(supabaseUrl, supabaseKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  return client;
+}
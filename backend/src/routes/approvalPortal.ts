@@ -0,0 +1,133 @@
+import express, { Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import {
+  ApprovalPortalError,
+  createPortalLink,
+  emailPortalLink,
+  getPortalLinkDetail,
+  listPortalLinks,
+  openPortalSession,
+  revokePortalLink,
+  submitPortalApproval,
+} from '../services/approvalPortal';
+import { MailError } from '../services/mailer';
+import { PORTAL_DEFAULT_EXPIRY_DAYS } from '../../../shared/approvalPortal';
+
+const router = express.Router();
+
+function sendError(res: Response, error: unknown, context: string) {
+  if (error instanceof ApprovalPortalError || error instanceof MailError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${context}:`, error);
+  return res.status(500).json({ error: 'Server error' });
+}
+
+// Links for the Invoices page, newest first; ?groupId= limits it to one batch (Admin only)
+router.get('/links', authenticate, authorize('ADMIN'), async (req, res) => {
+  try {
+    res.json(await listPortalLinks(typeof req.query.groupId === 'string' && req.query.groupId ? req.query.groupId : undefined));
+  } catch (error) {
+    sendError(res, error, 'Approver link list error');
+  }
+});
+
+// Create a link for a batch that has been marked sent for approval (Admin only). The URL with the
+// token is only returned here; it can't be looked up again, so a lost link is revoked and replaced.
+router.post(
+  '/links',
+  authenticate,
+  authorize('ADMIN'),
+  [
+    body('groupId').trim().notEmpty(),
+    body('snapshot.tickets').isArray({ min: 1 }),
+    body('approverEmail').optional({ values: 'falsy' }).isEmail(),
+    body('expiresInDays').optional().isInt({ min: 1, max: 90 }),
+    body('notify').optional().isBoolean(),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+      const { groupId, customerName, projectNumber, workflowId, approverName, approverEmail, snapshot } = req.body;
+      const { link, url } = await createPortalLink(
+        {
+          groupId,
+          customerName,
+          projectNumber,
+          workflowId,
+          approverName,
+          approverEmail,
+          expiresInDays: Number(req.body.expiresInDays) || PORTAL_DEFAULT_EXPIRY_DAYS,
+          snapshot,
+        },
+        req.user!.id
+      );
+      const email = req.body.notify ? await emailPortalLink(link, url, { id: req.user!.id, email: req.user!.email }) : null;
+      res.status(201).json({ link, url, email });
+    } catch (error) {
+      sendError(res, error, 'Approver link create error');
+    }
+  }
+);
+
+// One link with the approver's decisions and signature (Admin only)
+router.get('/links/:id', authenticate, authorize('ADMIN'), async (req, res) => {
+  try {
+    res.json(await getPortalLinkDetail(req.params.id));
+  } catch (error) {
+    sendError(res, error, 'Approver link detail error');
+  }
+});
+
+// Withdraw an unused link (Admin only)
+router.delete('/links/:id', authenticate, authorize('ADMIN'), async (req, res) => {
+  try {
+    await revokePortalLink(req.params.id);
+    res.json({ message: 'Link revoked' });
+  } catch (error) {
+    sendError(res, error, 'Approver link revoke error');
+  }
+});
+
+// Public: the approver opens the link. The token in the URL is the only credential.
+router.get('/session/:token', async (req: Request, res: Response) => {
+  try {
+    res.json(await openPortalSession(req.params.token));
+  } catch (error) {
+    sendError(res, error, 'Approver portal open error');
+  }
+});
+
+// Public: decisions and signature only; the signed batch PDF is built on the Invoices page.
+router.post(
+  '/session/:token/submit',
+  [
+    body('decisions').isArray({ min: 1 }),
+    body('signature.kind').isIn(['drawn', 'typed']),
+    body('signature.data').isString(),
+    body('signature.signerName').trim().notEmpty(),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+      const { decisions, signature } = req.body;
+      const result = await submitPortalApproval(
+        req.params.token,
+        { decisions, signature },
+        { ip: req.ip || null, userAgent: req.header('User-Agent') || null }
+      );
+      res.json(result);
+    } catch (error) {
+      sendError(res, error, 'Approver portal submit error');
+    }
+  }
+);
+
+export default router;
@@ -1,115 +1,176 @@
 import express, { Response } from 'express';
-import { PrismaClient } from '@prisma/client';
 import { authenticate, authorize, AuthRequest } from '../middleware/auth';
 import { body, validationResult } from 'express-validator';
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+import { FORM_DECISIONS, FORM_DEFINITIONS, FORM_STATUSES, getFormDefinition } from '../../../shared/forms';
+import {
+  getEmployeeById,
+  getEmployeeForUser,
+  getLeaveBalances,
+  LeaveError,
+} from '../services/leave';
+import {
+  decideForm,
+  FormError,
+  getFormRow,
+  listInboxFormIds,
+  prepareSubmission,
+  reopenForm,
+} from '../services/forms';
 
 const router = express.Router();
-const prisma = new PrismaClient();
+
+const FORM_SELECT = `
+  *,
+  employee:employees(
+    id,
+    supervisor_user_id,
+    user:users!employees_user_id_fkey(id, first_name, last_name, email)
+  ),
+  approvals:form_approvals(
+    id,
+    step,
+    role,
+    decision,
+    decided_at,
+    notes,
+    decider:users(id, first_name, last_name, email)
+  )
+`;
+
+function sendError(res: Response, error: unknown, context: string) {
+  if (error instanceof FormError) {
+    return res.status(error.status).json(error.fields ? { error: error.message, fields: error.fields } : { error: error.message });
+  }
+  if (error instanceof LeaveError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${context}:`, error);
+  return res.status(500).json({ error: 'Server error' });
+}
+
+async function fetchForm(id: string) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('forms')
+    .select(FORM_SELECT)
+    .eq('id', id)
+    .order('decided_at', { referencedTable: 'form_approvals', ascending: true })
+    .single();
+  if (error) throw error;
+  return data;
+}
 
 // Get all forms (filtered by user role)
 router.get('/', authenticate, async (req: AuthRequest, res) => {
   try {
-    const where: any = {};
+    let query = getSupabaseAdmin()
+      .from('forms')
+      .select(FORM_SELECT)
+      .order('submitted_at', { ascending: false });
 
     // Regular users can only see forms for their employee record
     if (req.user?.role !== 'ADMIN') {
-      const employee = await prisma.employee.findUnique({
-        where: { userId: req.user!.id },
-      });
-      if (employee) {
-        where.employeeId = employee.id;
-      } else {
-        return res.json([]);
-      }
+      const employee = await getEmployeeForUser(req.user!.id);
+      if (!employee) return res.json([]);
+      query = query.eq('employee_id', employee.id);
     }
 
     // Optional filters
     if (req.query.employeeId && req.user?.role === 'ADMIN') {
-      where.employeeId = req.query.employeeId as string;
+      query = query.eq('employee_id', req.query.employeeId as string);
     }
     if (req.query.status) {
-      where.status = req.query.status as string;
+      query = query.eq('status', req.query.status as string);
     }
     if (req.query.formType) {
-      where.formType = req.query.formType as string;
+      query = query.eq('form_type', req.query.formType as string);
     }
 
-    const forms = await prisma.form.findMany({
-      where,
-      include: {
-        employee: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                firstName: true,
-                lastName: true,
-                email: true,
-              },
-            },
-          },
-        },
-      },
-      orderBy: {
-        submittedAt: 'desc',
-      },
-    });
-
-    res.json(forms);
+    const { data, error } = await query;
+    if (error) throw error;
+    res.json(data ?? []);
+  } catch (error) {
+    sendError(res, error, 'List forms error');
+  }
+});
+
+// Form types, their fields and approval chains
+router.get('/definitions', authenticate, (_req: AuthRequest, res) => {
+  res.json(FORM_DEFINITIONS);
+});
+
+// Pending forms waiting on the caller: every pending form for admins, their reports' forms at the
+// supervisor step for supervisors
+router.get('/inbox', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const ids = await listInboxFormIds(req.user!);
+    if (ids && ids.length === 0) return res.json([]);
+
+    let query = getSupabaseAdmin()
+      .from('forms')
+      .select(FORM_SELECT)
+      .eq('status', 'pending')
+      .order('submitted_at', { ascending: true });
+    if (ids) query = query.in('id', ids);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    res.json(data ?? []);
   } catch (error) {
-    res.status(500).json({ error: 'Server error' });
+    sendError(res, error, 'Forms inbox error');
   }
 });
 
-// Get form by ID
+// Leave balances for the caller's employee record (admins may pass ?employeeId=)
+router.get('/leave-balances', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const employee =
+      req.query.employeeId && req.user?.role === 'ADMIN'
+        ? await getEmployeeById(req.query.employeeId as string)
+        : await getEmployeeForUser(req.user!.id);
+    if (!employee) return res.json([]);
+    res.json(await getLeaveBalances(employee));
+  } catch (error) {
+    sendError(res, error, 'Leave balances error');
+  }
+});
+
+// Get form by ID (the submitter, their supervisor, or an admin)
 router.get('/:id', authenticate, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const form = await prisma.form.findUnique({
-      where: { id },
-      include: {
-        employee: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                firstName: true,
-                lastName: true,
-                email: true,
-              },
-            },
-          },
-        },
-      },
-    });
+    const { data: form, error } = await getSupabaseAdmin()
+      .from('forms')
+      .select(FORM_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw error;
 
     if (!form) {
       return res.status(404).json({ error: 'Form not found' });
     }
 
-    // Users can only view forms for their employee record unless admin
     if (req.user?.role !== 'ADMIN') {
-      const employee = await prisma.employee.findUnique({
-        where: { userId: req.user!.id },
-      });
-      if (!employee || form.employeeId !== employee.id) {
+      const employee = await getEmployeeById(form.employee_id);
+      if (!employee || (employee.user_id !== req.user!.id && employee.supervisor_user_id !== req.user!.id)) {
         return res.status(403).json({ error: 'Forbidden' });
       }
     }
 
     res.json(form);
   } catch (error) {
-    res.status(500).json({ error: 'Server error' });
+    sendError(res, error, 'Get form error');
   }
 });
 
-// Create form
+// Create form. Content is validated against the form type's definition; time-off forms must also
+// fit the leave balance.
 router.post(
   '/',
   authenticate,
   [
     body('formType').trim().notEmpty(),
-    body('title').trim().notEmpty(),
+    body('title').optional().trim(),
     body('content').notEmpty(),
   ],
   async (req: AuthRequest, res: Response) => {
@@ -120,119 +181,137 @@ router.post(
       }
 
       // Find employee record for user
-      const employee = await prisma.employee.findUnique({
-        where: { userId: req.user!.id },
-      });
+      const employee = await getEmployeeForUser(req.user!.id);
 
       if (!employee) {
         return res.status(400).json({ error: 'Employee record not found' });
       }
 
       const { formType, title, content, notes } = req.body;
+      const storedContent = await prepareSubmission(employee, formType, content);
 
-      const form = await prisma.form.create({
-        data: {
-          employeeId: employee.id,
-          formType,
-          title,
-          content: typeof content === 'object' ? JSON.stringify(content) : content,
+      const { data: form, error } = await getSupabaseAdmin()
+        .from('forms')
+        .insert({
+          employee_id: employee.id,
+          form_type: formType,
+          title: title || getFormDefinition(formType)!.title,
+          content: storedContent,
           notes,
-        },
-        include: {
-          employee: {
-            include: {
-              user: {
-                select: {
-                  id: true,
-                  firstName: true,
-                  lastName: true,
-                  email: true,
-                },
-              },
-            },
-          },
-        },
-      });
+          current_step: 0,
+        })
+        .select(FORM_SELECT)
+        .single();
+      if (error) throw error;
 
       res.status(201).json(form);
     } catch (error) {
-      console.error('Create form error:', error);
-      res.status(500).json({ error: 'Server error' });
+      sendError(res, error, 'Create form error');
     }
   }
 );
 
-// Update form status (Admin only)
-router.put('/:id', authenticate, authorize('ADMIN'), async (req, res) => {
-  try {
-    const { id } = req.params;
-    const { status, notes } = req.body;
+// Approve or reject the current step of a pending form (its supervisor or an admin)
+router.post(
+  '/:id/decision',
+  authenticate,
+  [body('decision').isIn(FORM_DECISIONS), body('notes').optional().trim()],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
 
-    const updateData: any = {};
-    if (status !== undefined) updateData.status = status;
-    if (notes !== undefined) updateData.notes = notes;
+      const existing = await getFormRow(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Form not found' });
+      }
 
-    if (status === 'approved' || status === 'rejected') {
-      updateData.reviewedAt = new Date();
+      await decideForm(existing, req.user!, req.body.decision, req.body.notes);
+      res.json(await fetchForm(existing.id));
+    } catch (error) {
+      sendError(res, error, 'Form decision error');
     }
+  }
+);
 
-    const form = await prisma.form.update({
-      where: { id },
-      data: updateData,
-      include: {
-        employee: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                firstName: true,
-                lastName: true,
-                email: true,
-              },
-            },
-          },
-        },
-      },
-    });
+// Update form status (Admin only). Setting a status on a decided form reopens it first, so an
+// approved time-off form can be reversed; 'pending' just reopens it.
+router.put(
+  '/:id',
+  authenticate,
+  authorize('ADMIN'),
+  [body('status').optional().isIn(FORM_STATUSES)],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
 
-    res.json(form);
-  } catch (error) {
-    res.status(500).json({ error: 'Server error' });
+      const { id } = req.params;
+      const { status, notes } = req.body;
+
+      const existing = await getFormRow(id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Form not found' });
+      }
+
+      if (status !== undefined && status !== existing.status) {
+        if (status === 'pending') await reopenForm(existing, req.user!);
+        else await decideForm(existing, req.user!, status, notes, { reopen: true });
+      } else if (notes !== undefined) {
+        const { error } = await getSupabaseAdmin().from('forms').update({ notes }).eq('id', id);
+        if (error) throw error;
+      }
+
+      res.json(await fetchForm(id));
+    } catch (error) {
+      sendError(res, error, 'Update form error');
+    }
   }
-});
+);
 
 // Delete form
 router.delete('/:id', authenticate, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
+    const supabase = getSupabaseAdmin();
 
-    const existingForm = await prisma.form.findUnique({
-      where: { id },
-    });
+    const { data: existingForm, error: fetchError } = await supabase
+      .from('forms')
+      .select('id, employee_id, form_type, status, current_step')
+      .eq('id', id)
+      .maybeSingle();
+    if (fetchError) throw fetchError;
 
     if (!existingForm) {
       return res.status(404).json({ error: 'Form not found' });
     }
 
-    // Users can only delete their own forms unless admin
+    // Users can only delete their own forms unless admin, and only before anyone has approved a step
     if (req.user?.role !== 'ADMIN') {
-      const employee = await prisma.employee.findUnique({
-        where: { userId: req.user!.id },
-      });
-      if (!employee || existingForm.employeeId !== employee.id) {
+      const employee = await getEmployeeForUser(req.user!.id);
+      if (!employee || existingForm.employee_id !== employee.id) {
         return res.status(403).json({ error: 'Forbidden' });
       }
+      if (existingForm.status !== 'pending' || existingForm.current_step > 0) {
+        return res.status(403).json({ error: 'Only pending forms that no one has approved yet can be withdrawn' });
+      }
     }
 
-    await prisma.form.delete({
-      where: { id },
-    });
+    // leave_days and form_approvals cascade with the form; the closed-pay-period lock still applies
+    const { error } = await supabase.from('forms').delete().eq('id', id);
+    if (error) {
+      if (error.code === '23514') throw new LeaveError(error.message, 409);
+      throw error;
+    }
 
     res.json({ message: 'Form deleted successfully' });
   } catch (error) {
-    res.status(500).json({ error: 'Server error' });
+    sendError(res, error, 'Delete form error');
   }
 });
 
 export default router;
-
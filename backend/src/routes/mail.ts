@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import express, { Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+import { MailError, getMailConfig, isMailConfigured, isValidEmail, sendMail } from '../services/mailer';
+
+const router = express.Router();
+
+/** Gmail and most relays cap a message near 25 MB; base64 adds a third on top of the PDF. */
+const MAX_ATTACHMENT_BYTES = 18 * 1024 * 1024;
+
+function sendError(res: Response, error: unknown, context: string) {
+  if (error instanceof MailError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${context}:`, error);
+  return res.status(500).json({ error: 'Server error' });
+}
+
+const normalizeAddresses = (list: unknown): string[] =>
+  Array.isArray(list) ? [...new Set(list.map((a) => String(a).trim()).filter(Boolean))] : [];
+
+// Whether outbound email is configured (Admin only) - never returns credentials
+router.get('/status', authenticate, authorize('ADMIN'), (req, res) => {
+  if (!isMailConfigured()) return res.json({ configured: false, host: null, from: null });
+  const config = getMailConfig();
+  res.json({ configured: true, host: `${config.host}:${config.port}`, from: config.from });
+});
+
+// Send history, newest first; ?groupId= limits it to one batch (Admin only)
+router.get('/batch-emails', authenticate, authorize('ADMIN'), async (req, res) => {
+  try {
+    let query = getSupabaseAdmin()
+      .from('invoiced_batch_emails')
+      .select('*')
+      .order('sent_at', { ascending: false });
+    if (typeof req.query.groupId === 'string' && req.query.groupId) query = query.eq('group_id', req.query.groupId);
+    const { data, error } = await query;
+    if (error) throw error;
+    res.json(data || []);
+  } catch (error) {
+    sendError(res, error, 'Batch email list error');
+  }
+});
+
+// Email a batch PDF (Admin only). The merged PDF is built in the browser and arrives base64-encoded.
+// Every attempt is recorded, including failures, so the batch shows what happened.
+router.post(
+  '/batch-emails',
+  authenticate,
+  authorize('ADMIN'),
+  [
+    body('groupId').trim().notEmpty(),
+    body('kind').optional().isIn(['approval', 'invoice']),
+    body('to').isArray({ min: 1 }),
+    body('cc').optional().isArray(),
+    body('subject').trim().notEmpty(),
+    body('body').isString(),
+    body('attachment.filename').trim().notEmpty(),
+    body('attachment.contentBase64').isString().notEmpty(),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { groupId, customerName, kind = 'approval', subject, attachment } = req.body;
+      const to = normalizeAddresses(req.body.to);
+      const cc = normalizeAddresses(req.body.cc).filter((a) => !to.includes(a));
+      const invalid = [...to, ...cc].filter((a) => !isValidEmail(a));
+      if (invalid.length > 0) {
+        return res.status(400).json({ error: `Not a valid email address: ${invalid.join(', ')}` });
+      }
+      const content = Buffer.from(attachment.contentBase64, 'base64');
+      if (content.length > MAX_ATTACHMENT_BYTES) {
+        return res.status(413).json({ error: `The PDF is ${(content.length / 1024 / 1024).toFixed(1)} MB; email attachments are limited to ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB.` });
+      }
+
+      const config = getMailConfig();
+      const record = {
+        group_id: groupId,
+        customer_name: customerName || null,
+        kind,
+        to_addresses: to,
+        cc_addresses: cc,
+        subject,
+        attachment_name: attachment.filename,
+        attachment_bytes: content.length,
+        sent_by: req.user!.id,
+        sent_at: new Date().toISOString(),
+      };
+
+      let outcome: { status: 'sent' | 'failed' | 'bounced'; error: string | null; rejected_addresses: string[]; message_id: string | null; bounced_at: string | null };
+      try {
+        const sent = await sendMail(
+          {
+            to,
+            cc,
+            replyTo: req.user!.email || undefined,
+            subject,
+            text: req.body.body,
+            attachments: [{ filename: attachment.filename, contentType: 'application/pdf', content }],
+          },
+          config
+        );
+        const bounced = sent.rejected.filter((r) => r.code >= 500);
+        outcome = {
+          status: bounced.length > 0 ? 'bounced' : 'sent',
+          error: sent.rejected.length > 0 ? sent.rejected.map((r) => r.message).join('; ') : null,
+          rejected_addresses: sent.rejected.map((r) => r.address),
+          message_id: sent.messageId,
+          bounced_at: bounced.length > 0 ? new Date().toISOString() : null,
+        };
+      } catch (err) {
+        if (!(err instanceof MailError) || err.status === 503) throw err;
+        outcome = {
+          status: err.permanent ? 'bounced' : 'failed',
+          error: err.message,
+          rejected_addresses: err.permanent ? [...to, ...cc] : [],
+          message_id: null,
+          bounced_at: err.permanent ? new Date().toISOString() : null,
+        };
+      }
+
+      const { data: send, error: insertError } = await getSupabaseAdmin()
+        .from('invoiced_batch_emails')
+        .insert({ ...record, ...outcome })
+        .select()
+        .single();
+      if (insertError) throw insertError;
+
+      if (outcome.status === 'failed' || (outcome.status === 'bounced' && outcome.rejected_addresses.length === to.length + cc.length)) {
+        return res.status(502).json({ error: outcome.error, send });
+      }
+      res.status(201).json({ send });
+    } catch (error) {
+      sendError(res, error, 'Batch email send error');
+    }
+  }
+);
+
+/**
+ * Delayed bounces reported by the mail provider (most relays can POST a webhook on a bounce).
+ * Called by the provider, so no bearer token - it must send MAIL_WEBHOOK_SECRET in X-Webhook-Secret.
+ */
+router.post(
+  '/bounces',
+  [body('messageId').trim().notEmpty(), body('recipient').optional().isString(), body('reason').optional().isString()],
+  async (req: Request, res: Response) => {
+    try {
+      const secret = process.env.MAIL_WEBHOOK_SECRET;
+      const given = Buffer.from(req.header('X-Webhook-Secret') || '');
+      if (!secret || given.length !== Buffer.byteLength(secret) || !crypto.timingSafeEqual(given, Buffer.from(secret))) {
+        return res.status(401).json({ error: 'Invalid webhook secret' });
+      }
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const supabase = getSupabaseAdmin();
+      const raw = String(req.body.messageId).trim();
+      const messageId = raw.startsWith('<') ? raw : `<${raw}>`;
+      const { data: existing, error: findError } = await supabase
+        .from('invoiced_batch_emails')
+        .select('id, rejected_addresses, error')
+        .eq('message_id', messageId)
+        .maybeSingle();
+      if (findError) throw findError;
+      if (!existing) return res.status(404).json({ error: 'No email with that message id' });
+
+      const recipient = typeof req.body.recipient === 'string' ? req.body.recipient.trim() : '';
+      const reason = (typeof req.body.reason === 'string' && req.body.reason.trim()) || 'Bounced';
+      const { error: updateError } = await supabase
+        .from('invoiced_batch_emails')
+        .update({
+          status: 'bounced',
+          bounced_at: new Date().toISOString(),
+          error: [existing.error, recipient ? `${recipient}: ${reason}` : reason].filter(Boolean).join('; '),
+          rejected_addresses: recipient && !existing.rejected_addresses.includes(recipient) ? [...existing.rejected_addresses, recipient] : existing.rejected_addresses,
+        })
+        .eq('id', existing.id);
+      if (updateError) throw updateError;
+      res.json({ message: 'Bounce recorded' });
+    } catch (error) {
+      sendError(res, error, 'Bounce webhook error');
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,212 @@
+import express, { Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { body, validationResult } from 'express-validator';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+import {
+  QboInvoice,
+  QuickBooksError,
+  buildAuthorizeUrl,
+  createInvoice,
+  deleteStoredTokens,
+  exchangeAuthorizationCode,
+  getStoredTokens,
+  refreshTokens,
+} from '../services/quickbooks';
+
+const router = express.Router();
+
+const STATE_TTL = '10m';
+
+function stateSecret(): string {
+  return process.env.JWT_SECRET || 'fallback-secret';
+}
+
+function frontendUrl(path: string): string {
+  const base = (process.env.FRONTEND_URL || 'http://localhost:5173').replace(/\/$/, '');
+  return `${base}${path}`;
+}
+
+function sendError(res: Response, error: unknown, context: string) {
+  if (error instanceof QuickBooksError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${context}:`, error);
+  return res.status(500).json({ error: 'Server error' });
+}
+
+// Connection status (Admin only) - never returns the tokens themselves
+router.get('/status', authenticate, authorize('ADMIN'), async (req, res) => {
+  try {
+    const tokens = await getStoredTokens();
+    res.json({
+      connected: !!tokens,
+      realmId: tokens?.realm_id ?? null,
+      expiresAt: tokens?.expires_at ?? null,
+      updatedAt: tokens?.updated_at ?? null,
+    });
+  } catch (error) {
+    sendError(res, error, 'QuickBooks status error');
+  }
+});
+
+// Start OAuth (Admin only). Returns the Intuit URL; the browser navigates there itself
+// because it cannot attach the Authorization header to a redirect.
+router.get('/connect', authenticate, authorize('ADMIN'), async (req: AuthRequest, res) => {
+  try {
+    const state = jwt.sign({ sub: req.user!.id, purpose: 'qbo-connect' }, stateSecret(), { expiresIn: STATE_TTL });
+    res.json({ url: buildAuthorizeUrl(state) });
+  } catch (error) {
+    sendError(res, error, 'QuickBooks connect error');
+  }
+});
+
+// OAuth redirect target (QBO_REDIRECT_URI). Called by Intuit, so no bearer token - the signed state proves origin.
+router.get('/callback', async (req, res) => {
+  const { code, state, realmId, error: oauthError } = req.query as Record<string, string | undefined>;
+  try {
+    if (oauthError) throw new QuickBooksError(`QuickBooks authorization failed: ${oauthError}`, 400);
+    if (!code || !state || !realmId) throw new QuickBooksError('Missing code, state or realmId', 400);
+    try {
+      const decoded = jwt.verify(state, stateSecret()) as { purpose?: string };
+      if (decoded.purpose !== 'qbo-connect') throw new Error('wrong purpose');
+    } catch {
+      throw new QuickBooksError('Invalid or expired OAuth state. Start the connection again.', 400);
+    }
+    await exchangeAuthorizationCode(code, realmId);
+    res.redirect(frontendUrl('/profile?qbo=connected'));
+  } catch (error) {
+    console.error('QuickBooks callback error:', error);
+    const message = error instanceof Error ? error.message : 'QuickBooks connection failed';
+    res.redirect(frontendUrl(`/profile?qbo=error&message=${encodeURIComponent(message)}`));
+  }
+});
+
+// Force a token refresh (Admin only). Normal API calls refresh automatically.
+router.post('/refresh', authenticate, authorize('ADMIN'), async (req, res) => {
+  try {
+    const tokens = await refreshTokens();
+    res.json({ connected: true, realmId: tokens.realm_id, expiresAt: tokens.expires_at });
+  } catch (error) {
+    sendError(res, error, 'QuickBooks refresh error');
+  }
+});
+
+// Disconnect (Admin only)
+router.delete('/connection', authenticate, authorize('ADMIN'), async (req, res) => {
+  try {
+    await deleteStoredTokens();
+    res.json({ message: 'QuickBooks disconnected' });
+  } catch (error) {
+    sendError(res, error, 'QuickBooks disconnect error');
+  }
+});
+
+// Invoices already pushed, keyed by Invoices page group id (Admin only)
+router.get('/invoices', authenticate, authorize('ADMIN'), async (req, res) => {
+  try {
+    const { data, error } = await getSupabaseAdmin()
+      .from('qbo_invoice_pushes')
+      .select('*')
+      .order('pushed_at', { ascending: false });
+    if (error) throw error;
+    res.json(data || []);
+  } catch (error) {
+    sendError(res, error, 'QuickBooks invoice list error');
+  }
+});
+
+// Push an invoiced batch as a QBO Invoice (Admin only). force pushes a batch again; the invoice it
+// replaces is kept in qbo_invoice_push_history.
+// Lines arrive pre-built from the Invoices page: one per rate code + rate + tax code, one per expense,
+// each with the QBO tax code its tax code maps to.
+router.post(
+  '/invoices',
+  authenticate,
+  authorize('ADMIN'),
+  [
+    body('groupId').trim().notEmpty(),
+    body('customerName').trim().notEmpty(),
+    body('lines').isArray({ min: 1 }),
+    body('lines.*.kind').isIn(['labour', 'expense']),
+    body('lines.*.description').isString(),
+    body('lines.*.quantity').isFloat(),
+    body('lines.*.unitPrice').isFloat(),
+    body('lines.*.amount').isFloat(),
+    body('lines.*.taxCode').trim().notEmpty(),
+    body('txnDate').optional().isISO8601(),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { groupId, customerName, lines, txnDate, docNumber, privateNote, customerMemo, force } = req.body;
+      const supabase = getSupabaseAdmin();
+
+      // Claim the batch before creating anything in QuickBooks, so two pushes can't both create an invoice.
+      const { data: claim, error: claimError } = await supabase.rpc('claim_qbo_invoice_push', {
+        p_group_id: groupId,
+        p_force: !!force,
+        p_claimed_by: req.user!.id,
+      });
+      if (claimError) throw claimError;
+      const { claimed, claim_id: claimId, resumed, push: existing } = claim as {
+        claimed: boolean;
+        claim_id?: string;
+        resumed?: boolean;
+        push?: { status: string; qbo_invoice_id: string | null; qbo_doc_number: string | null };
+      };
+      if (!claimed) {
+        return res.status(409).json({
+          error:
+            existing?.status === 'pending'
+              ? force
+                ? 'This batch is being pushed to QuickBooks right now. Try again in a few minutes.'
+                : "An earlier push of this batch to QuickBooks didn't finish. Check QuickBooks for the invoice before pushing again."
+              : `This batch was already pushed as QuickBooks invoice ${existing?.qbo_doc_number || existing?.qbo_invoice_id}`,
+          push: existing,
+        });
+      }
+
+      let invoice: QboInvoice;
+      try {
+        invoice = await createInvoice({ customerName, lines, txnDate, docNumber, privateNote, customerMemo, requestId: claimId });
+      } catch (err) {
+        // QuickBooks answered with an error, so nothing was created: give the claim back. A resumed push
+        // may already have an invoice from its first attempt, and anything else may have reached
+        // QuickBooks, so those stay pending.
+        if (err instanceof QuickBooksError && !resumed) {
+          await supabase.from('qbo_invoice_pushes').delete().eq('claim_id', claimId).is('qbo_invoice_id', null);
+          await supabase.from('qbo_invoice_pushes').update({ status: 'pushed' }).eq('claim_id', claimId).not('qbo_invoice_id', 'is', null);
+        }
+        throw err;
+      }
+
+      const { data: push, error: pushError } = await supabase
+        .from('qbo_invoice_pushes')
+        .update({
+          status: 'pushed',
+          qbo_invoice_id: invoice.Id,
+          qbo_doc_number: invoice.DocNumber ?? null,
+          total_amount: invoice.TotalAmt ?? null,
+          line_count: lines.length,
+          pushed_by: req.user!.id,
+          pushed_at: new Date().toISOString(),
+        })
+        .eq('group_id', groupId)
+        .eq('claim_id', claimId)
+        .select()
+        .single();
+      if (pushError) throw pushError;
+
+      res.status(201).json({ invoice, push });
+    } catch (error) {
+      sendError(res, error, 'QuickBooks invoice push error');
+    }
+  }
+);
+
+export default router;
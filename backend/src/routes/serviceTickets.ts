@@ -0,0 +1,59 @@
+import express, { Response } from 'express';
+import { query, validationResult } from 'express-validator';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { getPricedServiceTickets } from '../services/serviceTickets';
+
+const router = express.Router();
+
+// Grouped + priced service tickets for a date range (filtered by user role).
+// Same grouping and totals as the ServiceTickets page (shared/serviceTickets.ts).
+router.get(
+  '/',
+  authenticate,
+  [
+    query('start').isISO8601(),
+    query('end').isISO8601(),
+    query('userId').optional().isString().trim().notEmpty(),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const startDate = String(req.query.start).slice(0, 10);
+      const endDate = String(req.query.end).slice(0, 10);
+      if (startDate > endDate) {
+        return res.status(400).json({ error: 'start must be on or before end' });
+      }
+
+      // Regular users can only see their own tickets
+      let userId = req.query.userId as string | undefined;
+      if (req.user?.role !== 'ADMIN') {
+        if (userId && userId !== req.user?.id) {
+          return res.status(403).json({ error: 'Forbidden' });
+        }
+        userId = req.user?.id;
+      }
+
+      const tickets = await getPricedServiceTickets({ startDate, endDate, userId });
+      res.json({
+        start: startDate,
+        end: endDate,
+        userId: userId ?? null,
+        totals: {
+          tickets: tickets.length,
+          hours: tickets.reduce((sum, t) => sum + t.totalHours, 0),
+          amount: Math.round(tickets.reduce((sum, t) => sum + t.totalAmount, 0) * 100) / 100,
+        },
+        tickets,
+      });
+    } catch (error) {
+      console.error('Service tickets error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+export default router;
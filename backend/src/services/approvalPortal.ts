@@ -0,0 +1,415 @@
+import crypto from 'crypto';
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+import { MailError, isMailConfigured, isValidEmail, sendMail } from './mailer';
+import {
+  PortalBatchSnapshot,
+  PortalLink,
+  PortalOutcome,
+  PortalSignature,
+  PortalTicketDecision,
+  portalLinkStatus,
+  portalOutcome,
+  portalRejectionNote,
+  portalTicketKey,
+  validatePortalSubmission,
+} from '../../../shared/approvalPortal';
+
+/**
+ * Approver portal links: created by an admin for one Portal Approval batch, opened by the
+ * customer's approver without logging in. Completing a link records the per-ticket decisions and
+ * the signature, writes rejection notes to the tickets and moves the batch from submitted_approval
+ * to approved or needs_adjustment, the same transitions the Invoices page makes by hand. Nothing
+ * the approver's browser renders is stored: the Invoices page builds the signed batch PDF from the
+ * link's snapshot and signature.
+ */
+
+export class ApprovalPortalError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'ApprovalPortalError';
+    this.status = status;
+  }
+}
+
+/** Columns the Invoices page sees; never the token hash, snapshot or signature. */
+export const PORTAL_LINK_FIELDS =
+  'id, group_id, customer_name, project_number, batch_label, approver_name, approver_email, created_at, expires_at, revoked_at, opened_at, completed_at, outcome, signer_name, signed_at, status_advanced';
+
+// Same ids/labels as the Invoices page (NEEDS_ADJUSTMENT_STATUS_ID, the Portal Approval workflow).
+const SUBMITTED_STATUS_ID = 'submitted_approval';
+const APPROVED_STATUS_ID = 'approved';
+const NEEDS_ADJUSTMENT_STATUS_ID = 'needs_adjustment';
+const NEEDS_ADJUSTMENT_STATUS_LABEL = 'Needs adjustment';
+
+export function hashPortalToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function portalUrl(token: string): string {
+  const base = (process.env.FRONTEND_URL || 'http://localhost:5173').replace(/\/$/, '');
+  return `${base}/approve/${token}`;
+}
+
+export async function createPortalLink(
+  input: {
+    groupId: string;
+    customerName?: string | null;
+    projectNumber?: string | null;
+    workflowId?: string | null;
+    approverName?: string | null;
+    approverEmail?: string | null;
+    expiresInDays: number;
+    snapshot: PortalBatchSnapshot;
+  },
+  createdBy: string
+): Promise<{ link: PortalLink; token: string; url: string }> {
+  if (!Array.isArray(input.snapshot?.tickets) || input.snapshot.tickets.length === 0) {
+    throw new ApprovalPortalError('The batch has no tickets to approve.');
+  }
+  const supabase = getSupabaseAdmin();
+  const { data: mark, error: markError } = await supabase
+    .from('invoiced_batch_marks')
+    .select('group_id')
+    .eq('group_id', input.groupId)
+    .maybeSingle();
+  if (markError) throw markError;
+  if (!mark) throw new ApprovalPortalError('Mark the batch as sent for approval before creating an approver link.', 409);
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  const { data, error } = await supabase
+    .from('approval_portal_links')
+    .insert({
+      token_hash: hashPortalToken(token),
+      group_id: input.groupId,
+      customer_name: input.customerName || null,
+      project_number: input.projectNumber || null,
+      workflow_id: input.workflowId || null,
+      batch_label: input.snapshot.batchLabel || null,
+      batch_snapshot: input.snapshot,
+      approver_name: input.approverName?.trim() || null,
+      approver_email: input.approverEmail?.trim() || null,
+      created_by: createdBy,
+      expires_at: new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+    })
+    .select(PORTAL_LINK_FIELDS)
+    .single();
+  if (error) throw error;
+  return { link: data as PortalLink, token, url: portalUrl(token) };
+}
+
+/**
+ * Email the link to the approver. Recorded in invoiced_batch_emails like any other approval email
+ * so the batch card shows it; a failed send is recorded and returned rather than thrown, since the
+ * link itself was created and can still be copied.
+ */
+export async function emailPortalLink(
+  link: PortalLink,
+  url: string,
+  sender: { id: string; email?: string | null }
+): Promise<{ status: 'sent' | 'failed' | 'bounced'; error: string | null }> {
+  const to = link.approver_email?.trim();
+  if (!to || !isValidEmail(to)) throw new ApprovalPortalError('Enter a valid approver email to send the link.');
+  if (!isMailConfigured()) throw new ApprovalPortalError('Email is not configured (SMTP_HOST, MAIL_FROM)', 503);
+
+  const subject = `Approval requested: ${link.customer_name || 'service tickets'}${link.batch_label ? ` - ${link.batch_label}` : ''}`;
+  const expires = new Date(link.expires_at).toLocaleDateString('en-CA', { year: 'numeric', month: 'long', day: 'numeric' });
+  const text = [
+    `Hello${link.approver_name ? ` ${link.approver_name}` : ''},`,
+    '',
+    'Please review the service tickets for this batch at the link below, approve or reject each one and sign. No login is needed.',
+    '',
+    url,
+    '',
+    `The link works until ${expires}. If anything on a ticket needs to change, reject it with a note and we will send a corrected batch.`,
+    '',
+    'Thank you,',
+    'IONEX',
+  ].join('\n');
+
+  let outcome: { status: 'sent' | 'failed' | 'bounced'; error: string | null; rejected_addresses: string[]; message_id: string | null };
+  try {
+    const sent = await sendMail({ to: [to], replyTo: sender.email || undefined, subject, text });
+    outcome = {
+      status: sent.rejected.some((r) => r.code >= 500) ? 'bounced' : 'sent',
+      error: sent.rejected.length > 0 ? sent.rejected.map((r) => r.message).join('; ') : null,
+      rejected_addresses: sent.rejected.map((r) => r.address),
+      message_id: sent.messageId,
+    };
+  } catch (err) {
+    if (!(err instanceof MailError) || err.status === 503) throw err;
+    outcome = { status: err.permanent ? 'bounced' : 'failed', error: err.message, rejected_addresses: err.permanent ? [to] : [], message_id: null };
+  }
+
+  const { error } = await getSupabaseAdmin().from('invoiced_batch_emails').insert({
+    group_id: link.group_id,
+    customer_name: link.customer_name,
+    kind: 'approval',
+    to_addresses: [to],
+    subject,
+    sent_by: sender.id,
+    bounced_at: outcome.status === 'bounced' ? new Date().toISOString() : null,
+    ...outcome,
+  });
+  if (error) console.warn('Approver link email history insert failed (non-blocking):', error);
+  return { status: outcome.status, error: outcome.error };
+}
+
+export async function listPortalLinks(groupId?: string): Promise<PortalLink[]> {
+  let query = getSupabaseAdmin()
+    .from('approval_portal_links')
+    .select(PORTAL_LINK_FIELDS)
+    .order('created_at', { ascending: false });
+  if (groupId) query = query.eq('group_id', groupId);
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as PortalLink[];
+}
+
+/** One link with its decisions, signature and snapshot, for the Invoices page and the admin-side PDFs. */
+export async function getPortalLinkDetail(id: string): Promise<
+  PortalLink & {
+    signature: PortalSignature | null;
+    snapshot: PortalBatchSnapshot;
+    decisions: Array<PortalTicketDecision & { ticket_number: string | null; decided_at: string }>;
+  }
+> {
+  const supabase = getSupabaseAdmin();
+  const { data: link, error } = await supabase
+    .from('approval_portal_links')
+    .select(`${PORTAL_LINK_FIELDS}, signature_kind, signature_data, batch_snapshot`)
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!link) throw new ApprovalPortalError('Approver link not found', 404);
+  const { data: decisions, error: decisionsError } = await supabase
+    .from('approval_portal_decisions')
+    .select('ticket_key, ticket_number, decision, note, decided_at')
+    .eq('link_id', id);
+  if (decisionsError) throw decisionsError;
+  const { signature_kind, signature_data, batch_snapshot, ...fields } = link as PortalLink & {
+    signature_kind: string | null;
+    signature_data: string | null;
+    batch_snapshot: PortalBatchSnapshot;
+  };
+  return {
+    ...fields,
+    snapshot: batch_snapshot,
+    signature:
+      signature_kind && signature_data && fields.signer_name && fields.signed_at
+        ? { kind: signature_kind as PortalSignature['kind'], data: signature_data, signerName: fields.signer_name, signedAt: fields.signed_at }
+        : null,
+    decisions: (decisions || []).map((d) => ({ ticketKey: d.ticket_key, ticket_number: d.ticket_number, decision: d.decision, note: d.note, decided_at: d.decided_at })),
+  };
+}
+
+export async function revokePortalLink(id: string): Promise<void> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('approval_portal_links')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('completed_at', null)
+    .is('revoked_at', null)
+    .select('id');
+  if (error) throw error;
+  if (!data || data.length === 0) throw new ApprovalPortalError('The link was already used or revoked.', 409);
+}
+
+interface PortalLinkRow extends PortalLink {
+  workflow_id: string | null;
+  batch_snapshot: PortalBatchSnapshot;
+}
+
+async function findLinkByToken(token: string): Promise<PortalLinkRow> {
+  if (!/^[A-Za-z0-9_-]{20,100}$/.test(token)) throw new ApprovalPortalError('This approval link is not valid.', 404);
+  const { data, error } = await getSupabaseAdmin()
+    .from('approval_portal_links')
+    .select(`${PORTAL_LINK_FIELDS}, workflow_id, batch_snapshot`)
+    .eq('token_hash', hashPortalToken(token))
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new ApprovalPortalError('This approval link is not valid.', 404);
+  return data as PortalLinkRow;
+}
+
+function assertUsable(link: PortalLinkRow) {
+  const status = portalLinkStatus(link);
+  if (status === 'revoked') throw new ApprovalPortalError('This approval link has been withdrawn. Contact IONEX for a new one.', 410);
+  if (status === 'expired') throw new ApprovalPortalError('This approval link has expired. Contact IONEX for a new one.', 410);
+}
+
+/**
+ * What the portal page shows for a token: the batch snapshot, and for a completed link the
+ * decisions made. Stamps opened_at the first time.
+ */
+export async function openPortalSession(token: string) {
+  const link = await findLinkByToken(token);
+  if (!link.completed_at) assertUsable(link);
+  if (!link.opened_at) {
+    const openedAt = new Date().toISOString();
+    await getSupabaseAdmin().from('approval_portal_links').update({ opened_at: openedAt }).eq('id', link.id).is('opened_at', null);
+    link.opened_at = openedAt;
+  }
+  const { data: decisions, error } = link.completed_at
+    ? await getSupabaseAdmin().from('approval_portal_decisions').select('ticket_key, decision, note').eq('link_id', link.id)
+    : { data: [], error: null };
+  if (error) throw error;
+  return {
+    customerName: link.customer_name,
+    projectNumber: link.project_number,
+    approverName: link.approver_name,
+    expiresAt: link.expires_at,
+    completedAt: link.completed_at,
+    outcome: link.outcome,
+    signerName: link.signer_name,
+    signedAt: link.signed_at,
+    snapshot: link.batch_snapshot,
+    decisions: (decisions || []).map((d) => ({ ticketKey: d.ticket_key, decision: d.decision, note: d.note })) as PortalTicketDecision[],
+  };
+}
+
+/**
+ * submitted_approval → approved (or needs_adjustment with the rejection notes), with the status
+ * history entries the Invoices page writes. Returns false when the batch isn't waiting for approval
+ * any more, in which case it is left alone.
+ */
+async function advanceBatchStatus(link: PortalLinkRow, outcome: PortalOutcome, rejectionNote: string): Promise<boolean> {
+  const supabase = getSupabaseAdmin();
+  const { data: mark, error } = await supabase
+    .from('invoiced_batch_marks')
+    .select('group_id, key_snapshot')
+    .eq('group_id', link.group_id)
+    .maybeSingle();
+  if (error) throw error;
+  const snap = (mark?.key_snapshot ?? null) as
+    | { statusId?: string; rejection?: { attempt?: number }; [key: string]: unknown }
+    | null;
+  if (!snap || snap.statusId !== SUBMITTED_STATUS_ID) return false;
+
+  let statusId = NEEDS_ADJUSTMENT_STATUS_ID;
+  let statusLabel = NEEDS_ADJUSTMENT_STATUS_LABEL;
+  if (outcome === 'approved') {
+    let statuses: Array<{ id: string; label: string }> = [];
+    if (link.workflow_id) {
+      const { data: wf, error: wfError } = await supabase.from('invoice_workflows').select('statuses').eq('id', link.workflow_id).maybeSingle();
+      if (wfError) throw wfError;
+      statuses = (wf?.statuses ?? []) as Array<{ id: string; label: string }>;
+    }
+    statusId = APPROVED_STATUS_ID;
+    statusLabel = statuses.find((s) => s.id === APPROVED_STATUS_ID)?.label ?? 'Approved';
+  }
+
+  const now = new Date().toISOString();
+  const next = {
+    ...snap,
+    statusId,
+    statusChangedAt: now,
+    ...(outcome === 'changes_requested'
+      ? { rejection: { note: rejectionNote, rejected_at: now, rejected_by: null, attempt: (snap.rejection?.attempt || 0) + 1, active: true } }
+      : {}),
+  };
+  const { error: updateError } = await supabase
+    .from('invoiced_batch_marks')
+    .update({ key_snapshot: next, updated_at: now })
+    .eq('group_id', link.group_id);
+  if (updateError) throw updateError;
+
+  // Status history is best-effort, as on the Invoices page.
+  const { data: open } = await supabase
+    .from('invoice_status_history')
+    .select('id, entered_at')
+    .eq('group_id', link.group_id)
+    .eq('status_id', SUBMITTED_STATUS_ID)
+    .is('exited_at', null)
+    .order('entered_at', { ascending: false })
+    .limit(1);
+  if (open && open[0]) {
+    const days = Math.round(((Date.parse(now) - Date.parse(open[0].entered_at)) / (1000 * 60 * 60 * 24)) * 100) / 100;
+    await supabase.from('invoice_status_history').update({ exited_at: now, days_in_status: days }).eq('id', open[0].id);
+  }
+  const { error: historyError } = await supabase.from('invoice_status_history').insert({
+    group_id: link.group_id,
+    customer_name: link.customer_name,
+    project_number: link.project_number,
+    workflow_id: link.workflow_id,
+    status_id: statusId,
+    status_label: statusLabel,
+    entered_at: now,
+    changed_by: null,
+  });
+  if (historyError) console.warn('Approver portal status history insert failed (non-blocking):', historyError);
+  return true;
+}
+
+const CHECK_VIOLATION = '23514';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function submitPortalApproval(
+  token: string,
+  submission: {
+    decisions: PortalTicketDecision[];
+    signature: { kind: PortalSignature['kind']; data: string; signerName: string };
+  },
+  meta: { ip: string | null; userAgent: string | null }
+): Promise<{ outcome: PortalOutcome; statusAdvanced: boolean }> {
+  const supabase = getSupabaseAdmin();
+  const link = await findLinkByToken(token);
+  if (link.completed_at) throw new ApprovalPortalError('This batch has already been submitted.', 409);
+  assertUsable(link);
+
+  const snapshot = link.batch_snapshot;
+  const problems = validatePortalSubmission(snapshot, submission);
+  if (problems.length > 0) throw new ApprovalPortalError(problems.join(' '), 400);
+
+  const outcome = portalOutcome(submission.decisions);
+  const signerName = submission.signature.signerName.trim();
+  const signedAt = new Date().toISOString();
+
+  // Claim the link and record the decisions together, so a failure leaves the link open and a
+  // double submit can't record two sets of decisions.
+  const ticketNumbers = new Map(snapshot.tickets.map((t) => [portalTicketKey(t.ticket), t.ticket.ticketNumber ?? null]));
+  const { data: completed, error: completeError } = await supabase.rpc('complete_approval_portal_link', {
+    p_link_id: link.id,
+    p_outcome: outcome,
+    p_signer_name: signerName,
+    p_signature_kind: submission.signature.kind,
+    p_signature_data: submission.signature.kind === 'typed' ? submission.signature.data.trim() : submission.signature.data,
+    p_signed_at: signedAt,
+    p_signer_ip: meta.ip,
+    p_signer_user_agent: meta.userAgent?.slice(0, 500) ?? null,
+    p_decisions: submission.decisions.map((d) => ({
+      ticket_key: d.ticketKey,
+      ticket_number: ticketNumbers.get(d.ticketKey) ?? null,
+      decision: d.decision,
+      note: d.note?.trim() || null,
+    })),
+  });
+  // Revoked or expired after the lookup above: the same 410 as assertUsable.
+  if (completeError?.code === CHECK_VIOLATION) throw new ApprovalPortalError(completeError.message, 410);
+  if (completeError) throw completeError;
+  if (!completed) throw new ApprovalPortalError('This batch has already been submitted.', 409);
+
+  for (const d of submission.decisions) {
+    if (d.decision !== 'rejected' || !UUID_PATTERN.test(d.ticketKey)) continue;
+    const { error } = await supabase
+      .from('service_tickets')
+      .update({ rejection_notes: `${signerName} (customer approver): ${d.note!.trim()}`, rejected_at: signedAt })
+      .eq('id', d.ticketKey);
+    if (error) console.warn(`Approver portal: could not save the rejection note on ticket ${d.ticketKey}:`, error);
+  }
+
+  // A full approval settles notes left by an earlier rejection of this batch.
+  const approvedIds = submission.decisions.map((d) => d.ticketKey).filter((k) => UUID_PATTERN.test(k));
+  if (outcome === 'approved' && approvedIds.length > 0) {
+    const { error } = await supabase.from('service_tickets').update({ rejection_notes: null }).in('id', approvedIds).not('rejection_notes', 'is', null);
+    if (error) console.warn('Approver portal: could not clear earlier rejection notes:', error);
+  }
+
+  const statusAdvanced = await advanceBatchStatus(link, outcome, portalRejectionNote(snapshot, submission.decisions, signerName));
+  if (statusAdvanced) {
+    await supabase.from('approval_portal_links').update({ status_advanced: true }).eq('id', link.id);
+  }
+  return { outcome, statusAdvanced };
+}
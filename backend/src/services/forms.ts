@@ -0,0 +1,209 @@
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+import {
+  ApprovalRole,
+  FormDecision,
+  getFormDefinition,
+  validateFormContent,
+} from '../../../shared/forms';
+import { TIME_OFF_FORM_TYPE } from '../../../shared/leave';
+import { buildLeaveDays, checkTimeOffRequest, EmployeeRecord, getEmployeeById, rethrowLockError } from './leave';
+
+/**
+ * Typed forms and their approval chains. Submissions are validated against the form type's
+ * definition (shared/forms.ts); each decision is recorded in form_approvals and moves
+ * forms.current_step along the chain. A time-off form books its leave days when the last step
+ * approves it. Each decision is applied by the apply_form_decision function, so the approval row,
+ * leave days and form status change in one transaction.
+ */
+
+export class FormError extends Error {
+  status: number;
+  /** Per-field validation messages, keyed by field name. */
+  fields?: Record<string, string>;
+
+  constructor(message: string, status = 400, fields?: Record<string, string>) {
+    super(message);
+    this.name = 'FormError';
+    this.status = status;
+    this.fields = fields;
+  }
+}
+
+export interface Actor {
+  id: string;
+  role: string;
+}
+
+export interface FormRow {
+  id: string;
+  employee_id: string;
+  form_type: string;
+  content: string | null;
+  status: string;
+  current_step: number;
+}
+
+/** Chain for a stored form; legacy free-text types go straight to admins. */
+export function approvalChainFor(formType: string): ApprovalRole[] {
+  return getFormDefinition(formType)?.approvalChain ?? ['admin'];
+}
+
+const isAdmin = (actor: Actor) => actor.role === 'ADMIN';
+
+/** Whether `actor` can decide the form's current step. */
+export function canDecide(actor: Actor, form: Pick<FormRow, 'form_type' | 'current_step'>, employee: EmployeeRecord): boolean {
+  if (isAdmin(actor)) return true;
+  if (employee.user_id === actor.id) return false;
+  const chain = approvalChainFor(form.form_type);
+  return chain[form.current_step] === 'supervisor' && employee.supervisor_user_id === actor.id;
+}
+
+/** Validate a submission; returns the JSON content to store. */
+export async function prepareSubmission(employee: EmployeeRecord, formType: string, content: unknown): Promise<string> {
+  const definition = getFormDefinition(formType);
+  if (!definition) throw new FormError(`Unknown form type "${formType}".`);
+
+  const { values, errors } = validateFormContent(definition, content);
+  if (Object.keys(errors).length > 0) {
+    throw new FormError(`${definition.title}: ${Object.values(errors).join(' ')}`, 400, errors);
+  }
+  if (formType === TIME_OFF_FORM_TYPE) {
+    return JSON.stringify(await checkTimeOffRequest(employee, values));
+  }
+  return JSON.stringify(values);
+}
+
+const SERIALIZATION_FAILURE = '40001';
+
+/** Run apply_form_decision; a concurrent change → 409, a closed pay period → 409 (LeaveError). */
+async function applyDecision(
+  form: FormRow,
+  actor: Actor,
+  change: {
+    reopen: boolean;
+    role: ApprovalRole;
+    decision: FormDecision | null;
+    notes?: string;
+    status: string;
+    currentStep: number;
+    leaveDays: Awaited<ReturnType<typeof buildLeaveDays>> | null;
+  }
+): Promise<void> {
+  const { error } = await getSupabaseAdmin().rpc('apply_form_decision', {
+    p_form_id: form.id,
+    p_expected_status: form.status,
+    p_expected_step: form.current_step,
+    p_reopen: change.reopen,
+    p_role: change.role,
+    p_decision: change.decision,
+    p_decided_by: actor.id,
+    p_notes: change.notes || null,
+    p_status: change.status,
+    p_current_step: change.currentStep,
+    p_leave_days: change.leaveDays,
+  });
+  if (!error) return;
+  if (error.code === SERIALIZATION_FAILURE) throw new FormError(error.message, 409);
+  rethrowLockError(error);
+}
+
+export async function getFormRow(id: string): Promise<FormRow | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('forms')
+    .select('id, employee_id, form_type, content, status, current_step')
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw error;
+  return data as FormRow | null;
+}
+
+async function employeeForForm(form: FormRow): Promise<EmployeeRecord> {
+  const employee = await getEmployeeById(form.employee_id);
+  if (!employee) throw new FormError('Employee record not found', 404);
+  return employee;
+}
+
+/**
+ * Approve or reject the form's current step. Approval moves to the next step, or completes the
+ * form on the last step or when an admin approves; rejection at any step ends it. With `reopen`
+ * (admin status change on a decided form) the form goes back to the first step and is decided
+ * again in the same transaction.
+ */
+export async function decideForm(
+  form: FormRow,
+  actor: Actor,
+  decision: FormDecision,
+  notes?: string,
+  { reopen = false }: { reopen?: boolean } = {}
+): Promise<void> {
+  const reopening = reopen && form.status !== 'pending';
+  if (reopening && !isAdmin(actor)) {
+    throw new FormError('Only admins can reopen a decided form.', 403);
+  }
+  if (form.status !== 'pending' && !reopening) {
+    throw new FormError(`This form has already been ${form.status}.`, 409);
+  }
+  const step = reopening ? 0 : form.current_step;
+  const employee = await employeeForForm(form);
+  if (!canDecide(actor, { ...form, current_step: step }, employee)) {
+    throw new FormError('You are not the approver for this step.', 403);
+  }
+
+  const chain = approvalChainFor(form.form_type);
+  const nextStep = decision === 'approved' ? (isAdmin(actor) ? chain.length : step + 1) : step;
+  const completes = decision === 'rejected' || nextStep >= chain.length;
+  const status = decision === 'rejected' ? 'rejected' : completes ? 'approved' : 'pending';
+
+  let leaveDays: Awaited<ReturnType<typeof buildLeaveDays>> | null = null;
+  if (form.form_type === TIME_OFF_FORM_TYPE && status === 'approved') {
+    await checkTimeOffRequest(employee, form.content, form.id);
+    leaveDays = await buildLeaveDays(form, employee);
+  }
+
+  await applyDecision(form, actor, {
+    reopen: reopening,
+    role: isAdmin(actor) ? 'admin' : 'supervisor',
+    decision,
+    notes,
+    status,
+    currentStep: nextStep,
+    leaveDays,
+  });
+}
+
+/** Admin: send a decided form back to the first step (removes a time-off form's leave days). */
+export async function reopenForm(form: FormRow, actor: Actor): Promise<FormRow> {
+  if (form.status === 'pending') return form;
+  await applyDecision(form, actor, {
+    reopen: true,
+    role: 'admin',
+    decision: null,
+    status: 'pending',
+    currentStep: 0,
+    leaveDays: null,
+  });
+  return { ...form, status: 'pending', current_step: 0 };
+}
+
+/** Ids of pending forms whose current step the actor can decide; null for admins, who can decide any. */
+export async function listInboxFormIds(actor: Actor): Promise<string[] | null> {
+  if (isAdmin(actor)) return null;
+  const supabase = getSupabaseAdmin();
+  const { data: reports, error: reportsError } = await supabase
+    .from('employees')
+    .select('id')
+    .eq('supervisor_user_id', actor.id)
+    .neq('user_id', actor.id);
+  if (reportsError) throw reportsError;
+  if (!reports || reports.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('forms')
+    .select('id, form_type, current_step')
+    .eq('status', 'pending')
+    .in('employee_id', reports.map((r) => r.id));
+  if (error) throw error;
+  return (data ?? [])
+    .filter((f) => approvalChainFor(f.form_type)[f.current_step] === 'supervisor')
+    .map((f) => f.id);
+}
@@ -0,0 +1,205 @@
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+import {
+  computeLeaveBalance,
+  expandLeaveDays,
+  LEAVE_TYPE_LABELS,
+  LeaveBalance,
+  LeaveDay,
+  LeavePolicy,
+  parseTimeOffContent,
+  requestedLeaveHours,
+  TIME_OFF_FORM_TYPE,
+  TimeOffRequest,
+  validateTimeOffRequest,
+} from '../../../shared/leave';
+
+/**
+ * Time-off requests on top of /api/forms. Balances are computed with the shared leave module from
+ * leave_policies, hours worked (time_entries) and approved leave_days; approving a 'time-off' form
+ * books the leave_days built here (in the same transaction as the decision, see forms.ts),
+ * reopening or deleting it removes them.
+ */
+
+export class LeaveError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'LeaveError';
+    this.status = status;
+  }
+}
+
+export interface EmployeeRecord {
+  id: string;
+  user_id: string | null;
+  /** Approver at the supervisor step of form approval chains. */
+  supervisor_user_id: string | null;
+}
+
+export interface LeaveBalanceWithPending extends LeaveBalance {
+  /** Hours in pending time-off requests of this type. */
+  pending: number;
+}
+
+const PAGE_SIZE = 1000;
+const CHECK_VIOLATION = '23514';
+
+/** Closed-pay-period lock (check_violation) → 409 with the trigger's message; anything else is rethrown. */
+export function rethrowLockError(error: { code?: string; message?: string }): never {
+  if (error.code === CHECK_VIOLATION) throw new LeaveError(error.message || 'That pay period is closed.', 409);
+  throw error;
+}
+
+export async function getEmployeeForUser(userId: string): Promise<EmployeeRecord | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('employees')
+    .select('id, user_id, supervisor_user_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as EmployeeRecord | null;
+}
+
+export async function getEmployeeById(employeeId: string): Promise<EmployeeRecord | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('employees')
+    .select('id, user_id, supervisor_user_id')
+    .eq('id', employeeId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as EmployeeRecord | null;
+}
+
+/** Hours worked per date since `fromDate` (demo entries excluded), paged past the 1000-row limit. */
+async function hoursWorkedByDate(userId: string, fromDate: string): Promise<Map<string, number>> {
+  const supabase = getSupabaseAdmin();
+  const byDate = new Map<string, number>();
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('time_entries')
+      .select('date, hours')
+      .eq('user_id', userId)
+      .eq('is_demo', false)
+      .gte('date', fromDate)
+      .order('date', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    for (const row of data ?? []) {
+      const date = String(row.date).slice(0, 10);
+      byDate.set(date, (byDate.get(date) || 0) + (Number(row.hours) || 0));
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return byDate;
+}
+
+async function pendingTimeOff(employeeId: string, excludeFormId?: string): Promise<TimeOffRequest[]> {
+  let query = getSupabaseAdmin()
+    .from('forms')
+    .select('id, content')
+    .eq('employee_id', employeeId)
+    .eq('form_type', TIME_OFF_FORM_TYPE)
+    .eq('status', 'pending');
+  if (excludeFormId) query = query.neq('id', excludeFormId);
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? [])
+    .map((f) => parseTimeOffContent(f.content))
+    .filter((r): r is TimeOffRequest => !!r);
+}
+
+/** Balance per leave policy, plus hours tied up in pending requests. */
+export async function getLeaveBalances(
+  employee: EmployeeRecord,
+  excludePendingFormId?: string
+): Promise<LeaveBalanceWithPending[]> {
+  const supabase = getSupabaseAdmin();
+  const { data: policyRows, error: policyError } = await supabase
+    .from('leave_policies')
+    .select('*')
+    .eq('employee_id', employee.id)
+    .order('leave_type');
+  if (policyError) throw policyError;
+  const policies = (policyRows ?? []) as LeavePolicy[];
+  if (policies.length === 0) return [];
+
+  const earliest = policies.map((p) => String(p.balance_as_of).slice(0, 10)).sort()[0];
+  const [worked, daysResult, pending] = await Promise.all([
+    employee.user_id ? hoursWorkedByDate(employee.user_id, earliest) : Promise.resolve(new Map<string, number>()),
+    supabase.from('leave_days').select('leave_type, date, hours').eq('employee_id', employee.id).gte('date', earliest),
+    pendingTimeOff(employee.id, excludePendingFormId),
+  ]);
+  if (daysResult.error) throw daysResult.error;
+  const days = (daysResult.data ?? []) as Pick<LeaveDay, 'leave_type' | 'date' | 'hours'>[];
+
+  return policies.map((policy) => ({
+    ...computeLeaveBalance(
+      policy,
+      worked,
+      days.filter((d) => d.leave_type === policy.leave_type)
+    ),
+    pending: pending
+      .filter((r) => r.leaveType === policy.leave_type)
+      .reduce((sum, r) => sum + requestedLeaveHours(r), 0),
+  }));
+}
+
+/**
+ * Parse and validate a time-off form's content and check it fits the balance (available hours
+ * less other pending requests). Unpaid leave needs no policy or balance.
+ */
+export async function checkTimeOffRequest(
+  employee: EmployeeRecord,
+  content: unknown,
+  excludeFormId?: string
+): Promise<TimeOffRequest> {
+  const request = parseTimeOffContent(content);
+  if (!request) {
+    throw new LeaveError('Time-off content needs leaveType, startDate and endDate (YYYY-MM-DD) and hoursPerDay.');
+  }
+  const problems = validateTimeOffRequest(request);
+  if (problems.length > 0) throw new LeaveError(problems.join(' '));
+  if (request.leaveType === 'unpaid') return request;
+
+  const label = LEAVE_TYPE_LABELS[request.leaveType];
+  const balance = (await getLeaveBalances(employee, excludeFormId)).find((b) => b.leave_type === request.leaveType);
+  if (!balance) throw new LeaveError(`No ${label.toLowerCase()} leave policy is set up for this employee.`);
+  const requested = requestedLeaveHours(request);
+  const free = balance.available - balance.pending;
+  if (requested > free + 0.005) {
+    throw new LeaveError(
+      `Not enough ${label.toLowerCase()} leave: ${requested.toFixed(2)}h requested, ${Math.max(0, free).toFixed(2)}h available` +
+        (balance.pending > 0 ? ` after ${balance.pending.toFixed(2)}h pending.` : '.')
+    );
+  }
+  return request;
+}
+
+/** leave_days rows an approved time-off form books: one per weekday of the request. */
+export async function buildLeaveDays(
+  form: { id: string; employee_id: string; content: unknown },
+  employee: EmployeeRecord
+): Promise<Omit<LeaveDay, 'id'>[]> {
+  const request = parseTimeOffContent(form.content);
+  if (!request) throw new LeaveError('This time-off form has no valid dates to approve.');
+
+  const { data: policy, error: policyError } = await getSupabaseAdmin()
+    .from('leave_policies')
+    .select('is_paid')
+    .eq('employee_id', employee.id)
+    .eq('leave_type', request.leaveType)
+    .maybeSingle();
+  if (policyError) throw policyError;
+  const isPaid = request.leaveType !== 'unpaid' && (policy?.is_paid ?? true);
+
+  return expandLeaveDays(request.startDate, request.endDate).map((date) => ({
+    form_id: form.id,
+    employee_id: employee.id,
+    user_id: employee.user_id,
+    leave_type: request.leaveType,
+    date,
+    hours: request.hoursPerDay,
+    is_paid: isPaid,
+  }));
+}
@@ -0,0 +1,206 @@
+import crypto from 'crypto';
+import os from 'os';
+import nodemailer from 'nodemailer';
+import type SMTPConnection from 'nodemailer/lib/smtp-connection';
+import type SMTPTransport from 'nodemailer/lib/smtp-transport';
+
+/**
+ * Outbound email over SMTP (nodemailer): one message with attachments per send.
+ *
+ * Configured through env (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, MAIL_FROM) so it
+ * can run against any relay or, locally, `scripts/mail-catcher.js`. With SMTP_USER / SMTP_PASS set,
+ * credentials only go over an encrypted connection (implicit TLS or STARTTLS) unless
+ * SMTP_ALLOW_INSECURE_AUTH is set.
+ */
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+export class MailError extends Error {
+  status: number;
+  /** SMTP reply code, when the server refused something. */
+  smtpCode?: number;
+
+  constructor(message: string, status = 502, smtpCode?: number) {
+    super(message);
+    this.name = 'MailError';
+    this.status = status;
+    this.smtpCode = smtpCode;
+  }
+
+  /** 5xx replies are permanent: retrying the same message won't help (a bounce). */
+  get permanent(): boolean {
+    return this.smtpCode != null && this.smtpCode >= 500;
+  }
+}
+
+export interface MailConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS from the first byte (usually port 465). Otherwise STARTTLS is used when offered. */
+  secure: boolean;
+  /** Refuse to send when the server doesn't offer STARTTLS. Always on when logging in, unless allowInsecureAuth. */
+  requireTls: boolean;
+  /** Let SMTP_USER / SMTP_PASS go over a plain connection (local relays without TLS only). */
+  allowInsecureAuth: boolean;
+  user: string | null;
+  pass: string | null;
+  from: string;
+  timeoutMs: number;
+}
+
+export function getMailConfig(): MailConfig {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.MAIL_FROM;
+  if (!host || !from) {
+    throw new MailError('Email is not configured (SMTP_HOST, MAIL_FROM)', 503);
+  }
+  const secure = process.env.SMTP_SECURE === 'true';
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    requireTls: process.env.SMTP_REQUIRE_TLS === 'true',
+    allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+    user: process.env.SMTP_USER || null,
+    pass: process.env.SMTP_PASS || null,
+    from,
+    timeoutMs: Number(process.env.SMTP_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS,
+  };
+}
+
+export function isMailConfigured(): boolean {
+  return !!process.env.SMTP_HOST && !!process.env.MAIL_FROM;
+}
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface OutgoingMail {
+  to: string[];
+  cc?: string[];
+  replyTo?: string;
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+export interface RejectedRecipient {
+  address: string;
+  code: number;
+  message: string;
+}
+
+export interface SentMail {
+  messageId: string;
+  accepted: string[];
+  rejected: RejectedRecipient[];
+}
+
+const EMAIL_PATTERN = /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[^\s@<>(),;:"]+$/;
+
+export function isValidEmail(address: string): boolean {
+  return EMAIL_PATTERN.test(address.trim());
+}
+
+function messageDomain(from: string): string {
+  return from.split('@')[1]?.replace(/>.*$/, '') || os.hostname();
+}
+
+/** Bare lower-case address from `Name <address>` or `address`, for matching the server's replies. */
+function envelopeAddress(address: string): string {
+  const m = address.match(/<([^>]+)>/);
+  return (m ? m[1] : address).trim().toLowerCase();
+}
+
+/** Recipients refused at RCPT, with the server's code for each. */
+function rejectedRecipients(recipients: string[], errors: SMTPConnection.SMTPError[] | undefined): RejectedRecipient[] {
+  return (errors ?? []).map((err) => {
+    const refused = String((err as { recipient?: string }).recipient ?? '');
+    const address = recipients.find((r) => envelopeAddress(r) === envelopeAddress(refused)) ?? refused;
+    return { address, code: err.responseCode ?? 550, message: `SMTP RCPT TO refused: ${err.response ?? err.message}` };
+  });
+}
+
+/** nodemailer's error as a MailError: the server's reply code when there was one, and a readable message. */
+function toMailError(err: unknown, config: MailConfig, recipients: string[]): MailError {
+  if (err instanceof MailError) return err;
+  const e = err as SMTPConnection.SMTPError & { rejectedErrors?: SMTPConnection.SMTPError[] };
+  switch (e.code) {
+    case 'EENVELOPE': {
+      const rejected = rejectedRecipients(recipients, e.rejectedErrors);
+      if (rejected.length === 0) break;
+      const codes = rejected.map((r) => r.code);
+      return new MailError(
+        `Every recipient was refused: ${rejected.map((r) => `${r.address} (${r.code})`).join(', ')}`,
+        502,
+        codes.every((c) => c >= 500) ? codes[0] : Math.min(...codes)
+      );
+    }
+    case 'ETLS':
+      return new MailError(
+        config.user && !config.secure && !config.requireTls
+          ? 'SMTP server does not offer STARTTLS, so the login was not sent (set SMTP_SECURE for implicit TLS, or SMTP_ALLOW_INSECURE_AUTH for a local relay)'
+          : 'SMTP server does not offer STARTTLS and SMTP_REQUIRE_TLS is set',
+        502
+      );
+    case 'ECONNECTION':
+    case 'EDNS':
+    case 'ESOCKET':
+      if (e.responseCode == null) return new MailError(`Cannot reach SMTP server ${config.host}:${config.port}: ${e.message}`);
+      break;
+    case 'ETIMEDOUT':
+      return new MailError(`SMTP server ${config.host}:${config.port} timed out`);
+  }
+  const command = e.command ? `SMTP ${e.command.split(' ')[0]} refused: ` : '';
+  return new MailError(`${command}${e.response ?? e.message ?? 'Unknown SMTP error'}`, 502, e.responseCode);
+}
+
+/**
+ * Sends one message. Recipients the server refuses at RCPT are returned in `rejected` as long as
+ * at least one was accepted; when none are, the send throws (a 5xx MailError is a bounce).
+ */
+export async function sendMail(mail: OutgoingMail, config: MailConfig = getMailConfig()): Promise<SentMail> {
+  const recipients = [...mail.to, ...(mail.cc ?? [])];
+  if (recipients.length === 0) throw new MailError('No recipients', 400);
+  const messageId = `<${crypto.randomUUID()}@${messageDomain(config.from)}>`;
+  const login = config.user && config.pass ? { user: config.user, pass: config.pass } : undefined;
+
+  const transport = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    // STARTTLS is used whenever offered; with a login it is required so credentials never go out in clear
+    requireTLS: config.requireTls || (!!login && !config.secure && !config.allowInsecureAuth),
+    auth: login,
+    name: os.hostname(),
+    connectionTimeout: config.timeoutMs,
+    greetingTimeout: config.timeoutMs,
+    socketTimeout: config.timeoutMs,
+  });
+  try {
+    const info = (await transport.sendMail({
+      from: config.from,
+      to: mail.to,
+      cc: mail.cc && mail.cc.length > 0 ? mail.cc : undefined,
+      replyTo: mail.replyTo,
+      subject: mail.subject,
+      text: mail.text,
+      messageId,
+      attachments: (mail.attachments ?? []).map((a) => ({ filename: a.filename, contentType: a.contentType, content: a.content })),
+    })) as SMTPTransport.SentMessageInfo & { rejectedErrors?: SMTPConnection.SMTPError[] };
+    const rejected = rejectedRecipients(recipients, info.rejectedErrors);
+    const refused = new Set(rejected.map((r) => envelopeAddress(r.address)));
+    return {
+      messageId: info.messageId || messageId,
+      accepted: recipients.filter((r) => !refused.has(envelopeAddress(r))),
+      rejected,
+    };
+  } catch (err) {
+    throw toMailError(err, config, recipients);
+  } finally {
+    transport.close();
+  }
+}
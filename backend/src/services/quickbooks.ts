@@ -0,0 +1,300 @@
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+
+/**
+ * QuickBooks Online OAuth2 + accounting API client.
+ *
+ * Every Intuit URL can be overridden through env (QBO_AUTH_URL, QBO_TOKEN_URL, QBO_API_BASE_URL)
+ * so the whole flow can run against `scripts/mock-qbo-server.js` locally.
+ */
+
+const QBO_SCOPE = 'com.intuit.quickbooks.accounting';
+const QBO_MINOR_VERSION = '65';
+const TOKEN_ROW_ID = 'primary';
+/** Refresh a little before Intuit's 60-minute expiry so a request never starts with a dead token. */
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export class QuickBooksError extends Error {
+  status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = 'QuickBooksError';
+    this.status = status;
+  }
+}
+
+export interface QboConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  authUrl: string;
+  tokenUrl: string;
+  apiBaseUrl: string;
+}
+
+export function getQboConfig(): QboConfig {
+  const clientId = process.env.QBO_CLIENT_ID;
+  const clientSecret = process.env.QBO_CLIENT_SECRET;
+  const redirectUri = process.env.QBO_REDIRECT_URI;
+  if (!clientId || !clientSecret || !redirectUri) {
+    throw new QuickBooksError('QuickBooks is not configured (QBO_CLIENT_ID, QBO_CLIENT_SECRET, QBO_REDIRECT_URI)', 503);
+  }
+  const sandbox = (process.env.QBO_ENVIRONMENT || 'sandbox') !== 'production';
+  return {
+    clientId,
+    clientSecret,
+    redirectUri,
+    authUrl: process.env.QBO_AUTH_URL || 'https://appcenter.intuit.com/connect/oauth2',
+    tokenUrl: process.env.QBO_TOKEN_URL || 'https://oauth.platform.intuit.com/oauth2/v1/tokens/bearer',
+    apiBaseUrl:
+      process.env.QBO_API_BASE_URL ||
+      (sandbox ? 'https://sandbox-quickbooks.api.intuit.com' : 'https://quickbooks.api.intuit.com'),
+  };
+}
+
+export interface QboTokenRow {
+  id: string;
+  access_token: string;
+  refresh_token: string;
+  realm_id: string;
+  expires_at: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+interface IntuitTokenResponse {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+}
+
+export function buildAuthorizeUrl(state: string): string {
+  const config = getQboConfig();
+  const params = new URLSearchParams({
+    client_id: config.clientId,
+    response_type: 'code',
+    scope: QBO_SCOPE,
+    redirect_uri: config.redirectUri,
+    state,
+  });
+  return `${config.authUrl}?${params.toString()}`;
+}
+
+async function requestTokens(body: Record<string, string>): Promise<IntuitTokenResponse> {
+  const config = getQboConfig();
+  const basic = Buffer.from(`${config.clientId}:${config.clientSecret}`).toString('base64');
+  const res = await fetch(config.tokenUrl, {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${basic}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    },
+    body: new URLSearchParams(body).toString(),
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    throw new QuickBooksError(`QuickBooks token request failed (${res.status}): ${text}`, 502);
+  }
+  return (await res.json()) as IntuitTokenResponse;
+}
+
+async function saveTokens(tokens: IntuitTokenResponse, realmId: string): Promise<QboTokenRow> {
+  const row = {
+    id: TOKEN_ROW_ID,
+    access_token: tokens.access_token,
+    refresh_token: tokens.refresh_token,
+    realm_id: realmId,
+    expires_at: new Date(Date.now() + tokens.expires_in * 1000).toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+  const { data, error } = await getSupabaseAdmin()
+    .from('qbo_tokens')
+    .upsert(row, { onConflict: 'id' })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as QboTokenRow;
+}
+
+export async function getStoredTokens(): Promise<QboTokenRow | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('qbo_tokens')
+    .select('*')
+    .eq('id', TOKEN_ROW_ID)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as QboTokenRow) ?? null;
+}
+
+export async function deleteStoredTokens(): Promise<void> {
+  const { error } = await getSupabaseAdmin().from('qbo_tokens').delete().eq('id', TOKEN_ROW_ID);
+  if (error) throw error;
+}
+
+/** Exchange the authorization code from the OAuth callback and persist the token pair. */
+export async function exchangeAuthorizationCode(code: string, realmId: string): Promise<QboTokenRow> {
+  const tokens = await requestTokens({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: getQboConfig().redirectUri,
+  });
+  return saveTokens(tokens, realmId);
+}
+
+export async function refreshTokens(): Promise<QboTokenRow> {
+  const stored = await getStoredTokens();
+  if (!stored) throw new QuickBooksError('QuickBooks is not connected', 409);
+  const tokens = await requestTokens({
+    grant_type: 'refresh_token',
+    refresh_token: stored.refresh_token,
+  });
+  return saveTokens(tokens, stored.realm_id);
+}
+
+async function getValidTokens(): Promise<QboTokenRow> {
+  const stored = await getStoredTokens();
+  if (!stored) throw new QuickBooksError('QuickBooks is not connected', 409);
+  if (new Date(stored.expires_at).getTime() - Date.now() < REFRESH_MARGIN_MS) {
+    return refreshTokens();
+  }
+  return stored;
+}
+
+/** Authenticated accounting API call. Retries once after a refresh when Intuit answers 401. */
+async function qboRequest<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+  const config = getQboConfig();
+  let tokens = await getValidTokens();
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const sep = path.includes('?') ? '&' : '?';
+    const url = `${config.apiBaseUrl}/v3/company/${tokens.realm_id}/${path}${sep}minorversion=${QBO_MINOR_VERSION}`;
+    const res = await fetch(url, {
+      method,
+      headers: {
+        Authorization: `Bearer ${tokens.access_token}`,
+        Accept: 'application/json',
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    if (res.status === 401 && attempt === 0) {
+      tokens = await refreshTokens();
+      continue;
+    }
+    if (!res.ok) {
+      const text = await res.text();
+      throw new QuickBooksError(`QuickBooks API ${method} ${path.split('?')[0]} failed (${res.status}): ${text}`, 502);
+    }
+    return (await res.json()) as T;
+  }
+  throw new QuickBooksError('QuickBooks rejected the refreshed access token', 502);
+}
+
+/** QBO query language uses single-quoted strings; backslash-escape embedded quotes. */
+function qboQuoted(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+async function queryOne<T>(entity: 'Customer' | 'Item' | 'TaxCode', field: string, value: string): Promise<T | null> {
+  const query = `select * from ${entity} where ${field} = ${qboQuoted(value)}`;
+  const result = await qboRequest<{ QueryResponse: Record<string, T[] | undefined> }>(
+    'GET',
+    `query?query=${encodeURIComponent(query)}`
+  );
+  return result.QueryResponse?.[entity]?.[0] ?? null;
+}
+
+export async function findCustomerByName(displayName: string): Promise<{ Id: string; DisplayName: string } | null> {
+  return queryOne('Customer', 'DisplayName', displayName);
+}
+
+export async function findItemByName(name: string): Promise<{ Id: string; Name: string } | null> {
+  return queryOne('Item', 'Name', name);
+}
+
+export async function findTaxCodeByName(name: string): Promise<{ Id: string; Name: string } | null> {
+  return queryOne('TaxCode', 'Name', name);
+}
+
+/** One invoice line as built by Invoices.tsx (one per rate code + rate + tax code, one per expense). */
+export interface QboInvoiceLineInput {
+  kind: 'labour' | 'expense';
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  /** QBO TaxCode name (looked up) or Id. */
+  taxCode: string;
+  serviceDate?: string;
+}
+
+export interface CreateQboInvoiceInput {
+  customerName: string;
+  lines: QboInvoiceLineInput[];
+  txnDate?: string;
+  docNumber?: string;
+  privateNote?: string;
+  customerMemo?: string;
+  /** QBO requestid: resending the same id returns the invoice already created instead of a second one. */
+  requestId?: string;
+}
+
+export interface QboInvoice {
+  Id: string;
+  DocNumber?: string;
+  TotalAmt?: number;
+  TxnDate?: string;
+}
+
+export async function createInvoice(input: CreateQboInvoiceInput): Promise<QboInvoice> {
+  const customer = await findCustomerByName(input.customerName);
+  if (!customer) {
+    throw new QuickBooksError(`No QuickBooks customer named "${input.customerName}". Create it in QuickBooks first.`, 422);
+  }
+
+  const labourItemName = process.env.QBO_LABOUR_ITEM_NAME || 'Services';
+  const expenseItemName = process.env.QBO_EXPENSE_ITEM_NAME || labourItemName;
+  const itemIds = new Map<string, string>();
+  for (const name of new Set([labourItemName, expenseItemName])) {
+    const item = await findItemByName(name);
+    if (!item) throw new QuickBooksError(`No QuickBooks product/service named "${name}"`, 422);
+    itemIds.set(name, item.Id);
+  }
+
+  const taxCodeIds = new Map<string, string>();
+  for (const name of new Set(input.lines.map((line) => line.taxCode))) {
+    const taxCode = await findTaxCodeByName(name);
+    if (taxCode) taxCodeIds.set(name, taxCode.Id);
+    else if (/^\d+$/.test(name)) taxCodeIds.set(name, name);
+    else throw new QuickBooksError(`No QuickBooks tax code named "${name}". Map the tax code under Invoices → Settings → Tax codes.`, 422);
+  }
+
+  // QBO rejects a line whose Amount isn't Qty × UnitPrice, so the amount is derived here from the rounded parts.
+  const Line = input.lines.map((line) => {
+    const qty = Math.round(line.quantity * 100) / 100;
+    const unitPrice = Math.round(line.unitPrice * 100) / 100;
+    return {
+      DetailType: 'SalesItemLineDetail',
+      Amount: Math.round(qty * unitPrice * 100) / 100,
+      Description: line.description,
+      SalesItemLineDetail: {
+        ItemRef: { value: itemIds.get(line.kind === 'expense' ? expenseItemName : labourItemName) },
+        Qty: qty,
+        UnitPrice: unitPrice,
+        TaxCodeRef: { value: taxCodeIds.get(line.taxCode) },
+        ...(line.serviceDate ? { ServiceDate: line.serviceDate } : {}),
+      },
+    };
+  });
+
+  const path = input.requestId ? `invoice?requestid=${encodeURIComponent(input.requestId)}` : 'invoice';
+  const result = await qboRequest<{ Invoice: QboInvoice }>('POST', path, {
+    CustomerRef: { value: customer.Id },
+    Line,
+    ...(input.txnDate ? { TxnDate: input.txnDate } : {}),
+    ...(input.docNumber ? { DocNumber: input.docNumber } : {}),
+    ...(input.privateNote ? { PrivateNote: input.privateNote } : {}),
+    ...(input.customerMemo ? { CustomerMemo: { value: input.customerMemo } } : {}),
+  });
+  return result.Invoice;
+}
@@ -0,0 +1,207 @@
+import { getSupabaseAdmin } from '../lib/supabaseAdmin';
+import {
+  applyHeaderOverridesToTicket,
+  calculateTicketTotalAmount,
+  EmployeeWithRates,
+  groupEntriesIntoTickets,
+  HeaderOverrides,
+  ServiceTicket,
+  TimeEntryWithRelations,
+} from '../../../shared/serviceTickets';
+import type { RateCard } from '../../../shared/rateCards';
+
+/**
+ * Server-side equivalent of the ServiceTickets page: the same billable-entry query, grouped and
+ * priced by the shared module, then matched to saved service_tickets rows so frozen rates
+ * (header_overrides) and ticket expenses are reflected in the totals.
+ */
+
+/** Same select as frontend serviceTicketsService.getBillableEntries. */
+const BILLABLE_ENTRY_SELECT = `
+  *,
+  user:users!time_entries_user_id_fkey(id, email, first_name, last_name),
+  cost_code:project_cost_codes(id, code, name),
+  project:projects!time_entries_project_id_fkey(
+    id,
+    name,
+    project_number,
+    shop_junior_rate,
+    shop_senior_rate,
+    ft_junior_rate,
+    ft_senior_rate,
+    travel_rate,
+    location,
+    approver,
+    po_afe,
+    cc,
+    other,
+    customer:customers!projects_customer_id_fkey(*)
+  )
+`;
+
+interface ServiceTicketRecord {
+  id: string;
+  date: string;
+  user_id: string;
+  customer_id: string | null;
+  project_id: string | null;
+  location: string | null;
+  ticket_number: string | null;
+  workflow_status: string | null;
+  header_overrides: HeaderOverrides | null;
+  is_discarded: boolean | null;
+}
+
+interface TicketExpense {
+  service_ticket_id: string;
+  expense_type: string;
+  description: string | null;
+  quantity: number;
+  rate: number;
+}
+
+export interface PricedServiceTicket {
+  id: string;
+  recordId: string | null;
+  ticketNumber: string | null;
+  workflowStatus: string | null;
+  date: string;
+  customerId: string;
+  customerName: string;
+  userId: string;
+  userName: string;
+  projectId?: string;
+  projectName?: string;
+  projectNumber?: string;
+  location?: string;
+  entryCount: number;
+  totalHours: number;
+  hoursByRateType: ServiceTicket['hoursByRateType'];
+  rates: ServiceTicket['rates'];
+  /** True when rates come from the approved ticket's frozen header_overrides. */
+  ratesFrozen: boolean;
+  labourTotal: number;
+  expenses: Array<{ expenseType: string; description: string; quantity: number; rate: number; amount: number }>;
+  expensesTotal: number;
+  totalAmount: number;
+}
+
+const r2 = (x: number) => Math.round(x * 100) / 100;
+const normLocation = (loc: string | null | undefined) => (loc ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Saved row for a computed ticket: same date/user/customer/project and location, skipping discarded rows.
+ * Mirrors the primary match in ServiceTickets.tsx findMatchingTicketRecord (records without a project match any project).
+ */
+function findRecord(ticket: ServiceTicket, records: ServiceTicketRecord[]): ServiceTicketRecord | null {
+  const ticketLoc = normLocation(ticket.location ?? ticket.entryLocation);
+  return (
+    records.find(
+      (r) =>
+        !r.is_discarded &&
+        r.date === ticket.date &&
+        r.user_id === ticket.userId &&
+        r.customer_id === ticket.customerId &&
+        (!r.project_id || r.project_id === (ticket.projectId || '')) &&
+        normLocation(r.location) === ticketLoc
+    ) ?? null
+  );
+}
+
+export async function getPricedServiceTickets(filters: {
+  startDate: string;
+  endDate: string;
+  userId?: string;
+}): Promise<PricedServiceTicket[]> {
+  const supabase = getSupabaseAdmin();
+
+  let entryQuery = supabase
+    .from('time_entries')
+    .select(BILLABLE_ENTRY_SELECT)
+    .eq('billable', true)
+    .eq('is_demo', false)
+    .not('project_id', 'is', null)
+    .gte('date', filters.startDate)
+    .lte('date', filters.endDate)
+    .order('date', { ascending: false })
+    .order('created_at', { ascending: true });
+  if (filters.userId) entryQuery = entryQuery.eq('user_id', filters.userId);
+
+  let recordQuery = supabase
+    .from('service_tickets')
+    .select('id, date, user_id, customer_id, project_id, location, ticket_number, workflow_status, header_overrides, is_discarded')
+    .gte('date', filters.startDate)
+    .lte('date', filters.endDate);
+  if (filters.userId) recordQuery = recordQuery.eq('user_id', filters.userId);
+
+  const [entriesResult, employeesResult, recordsResult, rateCardsResult] = await Promise.all([
+    entryQuery,
+    supabase.from('employees').select('*'),
+    recordQuery,
+    supabase.from('rate_cards').select('*'),
+  ]);
+  if (entriesResult.error) throw entriesResult.error;
+  if (employeesResult.error) throw employeesResult.error;
+  if (recordsResult.error) throw recordsResult.error;
+  if (rateCardsResult.error) throw rateCardsResult.error;
+
+  const tickets = groupEntriesIntoTickets(
+    (entriesResult.data ?? []) as unknown as TimeEntryWithRelations[],
+    (employeesResult.data ?? []) as EmployeeWithRates[],
+    (rateCardsResult.data ?? []) as RateCard[]
+  );
+  const records = (recordsResult.data ?? []) as ServiceTicketRecord[];
+  const matched = tickets.map((ticket) => ({ ticket, record: findRecord(ticket, records) }));
+
+  const recordIds = matched.map((m) => m.record?.id).filter((id): id is string => !!id);
+  const expensesByRecordId = new Map<string, TicketExpense[]>();
+  if (recordIds.length > 0) {
+    const { data, error } = await supabase
+      .from('service_ticket_expenses')
+      .select('service_ticket_id, expense_type, description, quantity, rate')
+      .in('service_ticket_id', recordIds);
+    if (error) throw error;
+    for (const row of (data ?? []) as TicketExpense[]) {
+      const list = expensesByRecordId.get(row.service_ticket_id) ?? [];
+      list.push({ ...row, quantity: Number(row.quantity) || 0, rate: Number(row.rate) || 0 });
+      expensesByRecordId.set(row.service_ticket_id, list);
+    }
+  }
+
+  return matched.map(({ ticket: raw, record }) => {
+    const ticket = record?.header_overrides ? applyHeaderOverridesToTicket(raw, record.header_overrides) : raw;
+    const expenses = record ? expensesByRecordId.get(record.id) ?? [] : [];
+    const labourTotal = calculateTicketTotalAmount(ticket);
+    const totalAmount = calculateTicketTotalAmount(ticket, expenses);
+    return {
+      id: ticket.id,
+      recordId: record?.id ?? null,
+      ticketNumber: record?.ticket_number ?? null,
+      workflowStatus: record?.workflow_status ?? null,
+      date: ticket.date,
+      customerId: ticket.customerId,
+      customerName: ticket.customerName,
+      userId: ticket.userId,
+      userName: ticket.userName,
+      projectId: ticket.projectId,
+      projectName: ticket.projectName,
+      projectNumber: ticket.projectNumber,
+      location: ticket.location,
+      entryCount: ticket.entries.length,
+      totalHours: ticket.totalHours,
+      hoursByRateType: ticket.hoursByRateType,
+      rates: ticket.rates,
+      ratesFrozen: ticket.rates !== raw.rates,
+      labourTotal: r2(labourTotal),
+      expenses: expenses.map((e) => ({
+        expenseType: e.expense_type,
+        description: e.description ?? '',
+        quantity: e.quantity,
+        rate: e.rate,
+        amount: r2(e.quantity * e.rate),
+      })),
+      expensesTotal: r2(totalAmount - labourTotal),
+      totalAmount: r2(totalAmount),
+    };
+  });
+}
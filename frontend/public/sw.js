@@ -0,0 +1,78 @@
+// Offline mode: caches the app shell (index.html and the built assets) so the app opens with no
+// signal. Data comes from Supabase and is cached by the app itself in IndexedDB (src/lib/offlineDb.ts);
+// API, Supabase and other cross-origin requests are never cached here.
+// v2 drops shells cached from error or captive-portal pages by v1.
+const CACHE = 'ionex-shell-v2';
+const SHELL = ['/', '/index.html', '/favicon.png', '/ionex-logo.png'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  // Pages: network first so deploys show up, cached shell when offline. Only a real page of the
+  // app replaces the shell, never a 404/500 or a captive portal's login page.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const isHtml = (response.headers.get('Content-Type') || '').includes('text/html');
+          if (response.ok && !response.redirected && isHtml) {
+            const copy = response.clone();
+            caches.open(CACHE).then((cache) => cache.put('/index.html', copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
+  // Built assets have hashed names, so a cached copy never goes stale
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(
+      caches.match(request).then(
+        (hit) =>
+          hit ||
+          fetch(request).then((response) => {
+            if (response.ok) {
+              const copy = response.clone();
+              caches.open(CACHE).then((cache) => cache.put(request, copy));
+            }
+            return response;
+          })
+      )
+    );
+    return;
+  }
+
+  // Other same-origin files (images, templates): cached copy while refreshing in the background
+  event.respondWith(
+    caches.match(request).then((hit) => {
+      const network = fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE).then((cache) => cache.put(request, copy));
+          }
+          return response;
+        })
+        .catch(() => hit || Response.error());
+      return hit || network;
+    })
+  );
+});
@@ -7,6 +7,7 @@ import { DemoModeProvider } from './context/DemoModeContext';
 import Login from './pages/Login';
 import AuthCallback from './pages/AuthCallback';
 import Maintenance from './pages/Maintenance';
+import ApproverPortal from './pages/ApproverPortal';
 import WeekView from './pages/WeekView';
 import TimeEntries from './pages/TimeEntries';
 import DayDetail from './pages/DayDetail';
@@ -21,9 +22,12 @@ import EmployeeReports from './pages/EmployeeReports';
 import UserManagement from './pages/UserManagement';
 import Changelog from './pages/Changelog';
 import Expenses from './pages/Expenses';
+import Forms from './pages/Forms';
 import Profitability from './pages/Profitability';
 import Dashboard from './pages/Dashboard';
 import InvoiceWorkflows from './pages/InvoiceWorkflows';
+import TimeImport from './pages/TimeImport';
+import Dispatch from './pages/Dispatch';
 import Layout from './components/Layout';
 import AppErrorBoundary from './components/ErrorBoundary';
 // Avoid refetch-on-focus racing token refresh on some browsers (entries briefly OK then empty).
@@ -31,6 +35,12 @@ const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       refetchOnWindowFocus: false,
+      // Offline mode: still run queries and mutations with no connection; the field pages fall back
+      // to the IndexedDB copy and queue their writes (services/offlineQueue.ts).
+      networkMode: 'offlineFirst',
+    },
+    mutations: {
+      networkMode: 'offlineFirst',
     },
   },
 });
@@ -134,6 +144,7 @@ function AppRoutes() {
       <Route path="/login" element={<Login />} />
       <Route path="/auth/callback" element={<AuthCallback />} />
       <Route path="/maintenance" element={<Maintenance />} />
+      <Route path="/approve/:token" element={<ApproverPortal />} />
       <Route
         path="/"
         element={
@@ -155,6 +166,7 @@ function AppRoutes() {
         <Route path="calendar/:date" element={<DayDetail />} />
         <Route path="time-entries" element={<TimeEntries />} />
         <Route path="expenses" element={<Expenses />} />
+        <Route path="forms" element={<Forms />} />
         <Route path="manage" element={<Navigate to="/projects" replace />} />
         <Route path="projects" element={<Projects />} />
         <Route path="payroll" element={<Payroll />} />
@@ -176,6 +188,22 @@ function AppRoutes() {
             </AdminRoute>
           }
         />
+        <Route
+          path="time-import"
+          element={
+            <AdminRoute>
+              <TimeImport />
+            </AdminRoute>
+          }
+        />
+        <Route
+          path="dispatch"
+          element={
+            <AdminRoute>
+              <Dispatch />
+            </AdminRoute>
+          }
+        />
         <Route path="service-tickets" element={<ServiceTickets />} />
         <Route
           path="invoices"
@@ -0,0 +1,258 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { approvalPortalService, mailService } from '../services/backendServices';
+import { useBackdropClose } from '../hooks/useBackdropClose';
+import {
+  PORTAL_DEFAULT_EXPIRY_DAYS,
+  PORTAL_LINK_STATUS_LABELS,
+  PortalBatchSnapshot,
+  PortalLink,
+  PortalLinkStatus,
+  portalLinkStatus,
+} from '../utils/approvalPortal';
+import { isValidEmail } from '../utils/batchEmail';
+
+const fieldLabel: React.CSSProperties = { display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '12px', color: 'var(--text-secondary)' };
+
+const STATUS_COLORS: Record<PortalLinkStatus, string> = {
+  open: 'var(--primary-color)',
+  expired: 'var(--text-tertiary)',
+  revoked: 'var(--text-tertiary)',
+  approved: 'var(--success-color)',
+  changes_requested: 'var(--warning-color)',
+};
+
+const shortDate = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+/** One-line summary of an approver link for batch cards and the link list. */
+export function describePortalLink(link: PortalLink): string {
+  const status = portalLinkStatus(link);
+  const who = link.approver_name || link.approver_email || 'approver';
+  if (status === 'approved' || status === 'changes_requested') {
+    return `${PORTAL_LINK_STATUS_LABELS[status]} by ${link.signer_name ?? who} ${link.signed_at ? shortDate(link.signed_at) : ''}`.trim();
+  }
+  if (status === 'open') return `Approver link for ${who}${link.opened_at ? `, opened ${shortDate(link.opened_at)}` : ', not opened yet'}`;
+  return `Approver link for ${who} ${status}`;
+}
+
+export function portalLinkStatusColor(link: PortalLink): string {
+  return STATUS_COLORS[portalLinkStatus(link)];
+}
+
+/**
+ * Create a login-free approver link for a batch that was sent for approval, optionally emailing it,
+ * and manage the batch's earlier links. The link's URL is shown once, right after it is created;
+ * only a hash of the token is kept, so a lost URL is revoked and replaced.
+ */
+export default function ApproverLinkModal({
+  groupId,
+  title,
+  defaultApproverName,
+  defaultApproverEmail,
+  links,
+  buildSnapshot,
+  createPayload,
+  onCreated,
+  onClose,
+}: {
+  groupId: string;
+  /** Customer · project · period line under the heading. */
+  title: string;
+  defaultApproverName?: string;
+  defaultApproverEmail?: string;
+  /** Earlier links for this batch, newest first. */
+  links: PortalLink[];
+  /** The batch as the approver will see it; built when Create is clicked. */
+  buildSnapshot: () => Promise<PortalBatchSnapshot>;
+  createPayload: { customerName: string; projectNumber?: string | null; workflowId?: string | null };
+  onCreated?: (link: PortalLink) => void;
+  onClose: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const backdropClose = useBackdropClose(onClose);
+  const { data: mailStatus } = useQuery({
+    queryKey: ['mailStatus'],
+    queryFn: () => mailService.getStatus(),
+    retry: false,
+  });
+
+  const lastLink = links[0];
+  const [approverName, setApproverName] = useState(lastLink?.approver_name ?? defaultApproverName ?? '');
+  const [approverEmail, setApproverEmail] = useState(lastLink?.approver_email ?? defaultApproverEmail ?? '');
+  const [expiresInDays, setExpiresInDays] = useState(PORTAL_DEFAULT_EXPIRY_DAYS);
+  const [notify, setNotify] = useState<boolean | null>(null);
+  const [created, setCreated] = useState<{ url: string; emailNote: string | null } | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const mailConfigured = !!mailStatus?.configured;
+  const sendEmail = (notify ?? mailConfigured) && mailConfigured;
+  const openLinks = links.filter((l) => portalLinkStatus(l) === 'open');
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const email = approverEmail.trim();
+      if (email && !isValidEmail(email)) throw new Error(`Not a valid email address: ${email}`);
+      if (sendEmail && !email) throw new Error('Enter the approver’s email to send them the link.');
+      return approvalPortalService.createLink({
+        groupId,
+        ...createPayload,
+        approverName: approverName.trim() || undefined,
+        approverEmail: email || undefined,
+        expiresInDays,
+        notify: sendEmail,
+        snapshot: await buildSnapshot(),
+      });
+    },
+    onSuccess: ({ link, url, email }) => {
+      queryClient.invalidateQueries({ queryKey: ['approvalPortalLinks'] });
+      queryClient.invalidateQueries({ queryKey: ['batchEmails'] });
+      setCreated({
+        url,
+        emailNote: !email
+          ? null
+          : email.status === 'sent'
+            ? `Emailed to ${link.approver_email}.`
+            : `The email to ${link.approver_email} ${email.status === 'bounced' ? 'bounced' : 'failed'}${email.error ? `: ${email.error}` : ''}. Copy the link and send it another way.`,
+      });
+      onCreated?.(link);
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => approvalPortalService.revokeLink(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['approvalPortalLinks'] }),
+  });
+
+  const copy = async () => {
+    if (!created) return;
+    await navigator.clipboard.writeText(created.url);
+    setCopied(true);
+  };
+
+  const error = createMutation.error ?? revokeMutation.error;
+
+  return (
+    <div
+      {...backdropClose}
+      className="ionex-modal-backdrop"
+      style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(0,0,0,0.5)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 9999 }}
+    >
+      <div
+        className="ionex-modal-card"
+        style={{ backgroundColor: 'var(--bg-primary)', borderRadius: '12px', padding: '24px', maxWidth: '620px', width: '92%', maxHeight: '85vh', overflowY: 'auto', boxShadow: '0 20px 60px rgba(0,0,0,0.3)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="payroll-modal-header">
+          <div>
+            <h3 className="payroll-modal-title">Approver link</h3>
+            <div className="payroll-modal-subtitle">{title}</div>
+          </div>
+          <button className="payroll-modal-close" onClick={onClose} aria-label="Close">×</button>
+        </div>
+
+        {created ? (
+          <div style={{ display: 'grid', gap: '10px' }}>
+            <div style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>
+              Send this link to the approver. No login is needed; it works once and expires in {expiresInDays} day{expiresInDays === 1 ? '' : 's'}. It isn't shown again.
+            </div>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <input className="input" readOnly value={created.url} onFocus={(e) => e.target.select()} style={{ flex: 1 }} />
+              <button type="button" className="payroll-action-btn is-primary" onClick={copy}>
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+            {created.emailNote && <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>{created.emailNote}</div>}
+          </div>
+        ) : (
+          <div style={{ display: 'grid', gap: '10px' }}>
+            <div style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>
+              The approver reviews the tickets as they are now, approves or rejects each one and signs. Approving moves the batch to Approved with the signed PDF attached; a rejection moves it to Needs adjustment with their notes.
+            </div>
+            <label style={fieldLabel}>
+              Approver name
+              <input className="input" value={approverName} onChange={(e) => setApproverName(e.target.value)} />
+            </label>
+            <label style={fieldLabel}>
+              Approver email
+              <input className="input" value={approverEmail} onChange={(e) => setApproverEmail(e.target.value)} />
+            </label>
+            <label style={fieldLabel}>
+              Expires after (days)
+              <input
+                className="input"
+                type="number"
+                min={1}
+                max={90}
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(Math.min(90, Math.max(1, Number(e.target.value) || PORTAL_DEFAULT_EXPIRY_DAYS)))}
+                style={{ maxWidth: '120px' }}
+              />
+            </label>
+            <label style={{ display: 'flex', gap: '8px', alignItems: 'center', fontSize: '13px', color: mailConfigured ? 'var(--text-primary)' : 'var(--text-tertiary)' }}>
+              <input type="checkbox" checked={sendEmail} disabled={!mailConfigured} onChange={(e) => setNotify(e.target.checked)} />
+              Email the link to the approver{mailConfigured ? '' : ' (email isn’t set up on the backend)'}
+            </label>
+            {openLinks.length > 0 && (
+              <div style={{ fontSize: '12px', color: 'var(--warning-color)' }}>
+                This batch already has an open link. Revoke it below if the approver shouldn't use it any more.
+              </div>
+            )}
+          </div>
+        )}
+
+        {links.length > 0 && (
+          <div style={{ marginTop: '16px' }}>
+            <div style={{ fontSize: '12px', fontWeight: 600, color: 'var(--text-secondary)', marginBottom: '6px' }}>Links for this batch</div>
+            {links.map((l) => (
+              <div key={l.id} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px', fontSize: '12px', marginBottom: '4px' }}>
+                <span>
+                  <span style={{ color: portalLinkStatusColor(l), fontWeight: 600 }}>{PORTAL_LINK_STATUS_LABELS[portalLinkStatus(l)]}</span>{' '}
+                  <span style={{ color: 'var(--text-secondary)' }}>
+                    {describePortalLink(l)} · created {shortDate(l.created_at)}
+                    {l.completed_at && !l.status_advanced ? ' · batch status was not changed (it had already moved on)' : ''}
+                  </span>
+                </span>
+                {portalLinkStatus(l) === 'open' && (
+                  <button
+                    type="button"
+                    className="payroll-action-btn"
+                    disabled={revokeMutation.isPending}
+                    onClick={() => revokeMutation.mutate(l.id)}
+                  >
+                    Revoke
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="payroll-modal-footer">
+          <div />
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button type="button" className="payroll-action-btn" onClick={onClose} disabled={createMutation.isPending}>
+              {created ? 'Done' : 'Cancel'}
+            </button>
+            {!created && (
+              <button
+                type="button"
+                className="payroll-action-btn is-primary"
+                disabled={createMutation.isPending}
+                onClick={() => createMutation.mutate()}
+              >
+                {createMutation.isPending ? 'Creating…' : sendEmail ? 'Create and email link' : 'Create link'}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <div style={{ marginTop: '12px', padding: '10px', borderRadius: '6px', backgroundColor: 'rgba(220,53,69,0.10)', color: 'var(--error-color)', fontSize: '12px' }}>
+            {error.message}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
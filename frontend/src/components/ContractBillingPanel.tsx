@@ -0,0 +1,337 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../context/AuthContext';
+import { useDemoMode } from '../context/DemoModeContext';
+import { projectBillingService, projectsService } from '../services/supabaseServices';
+import {
+  BILLING_TYPE_LABELS,
+  BillingClaim,
+  billedMilestoneIds,
+  billingTypeOf,
+  fixedPriceStatus,
+  formatBillingMonth,
+  labourBilledByContract,
+  retainerMonths,
+} from '../utils/projectBilling';
+import { formatYmd } from '../utils/payPeriod';
+
+const fmt = (n: number) => n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+function projectLabel(project: any): string {
+  return project.project_number ? `${project.project_number} – ${project.name}` : project.name;
+}
+
+/**
+ * Invoices → Contracts: billing for fixed-price and retainer projects, whose labour is not billed
+ * per ticket. Fixed price bills milestones and percent-complete progress claims; retainers bill
+ * each month's retainer plus overage. Every bill is recorded as a project_billing_claims row.
+ */
+export default function ContractBillingPanel({ projectId }: { projectId?: string }) {
+  const { user } = useAuth();
+  const { isDemoMode } = useDemoMode();
+  const queryClient = useQueryClient();
+  const [percentDrafts, setPercentDrafts] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: projects = [] } = useQuery({
+    queryKey: ['projects'],
+    queryFn: () => projectsService.getAll(),
+  });
+  const contractProjects = (projects as any[]).filter((p) => labourBilledByContract(p) && (!projectId || p.id === projectId));
+  const retainerIds = contractProjects.filter((p) => billingTypeOf(p) === 'retainer').map((p) => p.id as string);
+
+  const { data: milestones = [] } = useQuery({
+    queryKey: ['projectBillingMilestones'],
+    queryFn: () => projectBillingService.getMilestones(),
+  });
+  const { data: claims = [] } = useQuery({
+    queryKey: ['projectBillingClaims'],
+    queryFn: () => projectBillingService.getClaims(),
+  });
+  const { data: retainerTickets = [] } = useQuery({
+    queryKey: ['contractBillingTickets', isDemoMode, retainerIds],
+    queryFn: () => projectBillingService.getContractTickets(retainerIds, isDemoMode),
+    enabled: retainerIds.length > 0,
+  });
+
+  const onFailed = (err: unknown) => setError(err instanceof Error ? err.message : String((err as any)?.message ?? 'Unknown error'));
+
+  const billMutation = useMutation({
+    mutationFn: async ({ claim, percentComplete }: { claim: BillingClaim; percentComplete?: number }) => {
+      if (percentComplete !== undefined) await projectsService.update(claim.project_id, { percent_complete: percentComplete });
+      await projectBillingService.createClaim(claim);
+    },
+    onSuccess: (_data, { percentComplete }) => {
+      setError(null);
+      queryClient.invalidateQueries({ queryKey: ['projectBillingClaims'] });
+      if (percentComplete !== undefined) queryClient.invalidateQueries({ queryKey: ['projects'] });
+    },
+    onError: onFailed,
+  });
+  const percentMutation = useMutation({
+    mutationFn: ({ id, percent }: { id: string; percent: number }) => projectsService.update(id, { percent_complete: percent }),
+    onSuccess: (_data, { id }) => {
+      setError(null);
+      setPercentDrafts((prev) => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+    },
+    onError: onFailed,
+  });
+  const undoMutation = useMutation({
+    mutationFn: (id: string) => projectBillingService.deleteClaim(id),
+    onSuccess: () => {
+      setError(null);
+      queryClient.invalidateQueries({ queryKey: ['projectBillingClaims'] });
+    },
+    onError: onFailed,
+  });
+
+  const busy = billMutation.isPending || percentMutation.isPending || undoMutation.isPending;
+  const today = formatYmd(new Date());
+
+  const newClaim = (project: any, fields: Pick<BillingClaim, 'kind' | 'description' | 'amount'> & Partial<BillingClaim>): BillingClaim => ({
+    project_id: project.id,
+    milestone_id: null,
+    period_month: null,
+    percent_complete: null,
+    claim_date: today,
+    created_by: user?.id ?? null,
+    ...fields,
+  });
+
+  const undo = (claim: BillingClaim) => {
+    if (claim.id && window.confirm(`Remove the ${claim.description || claim.kind} bill of $${fmt(claim.amount)}? Mark it again if it was invoiced.`)) {
+      undoMutation.mutate(claim.id);
+    }
+  };
+
+  if (contractProjects.length === 0) {
+    return (
+      <div className="ionex-empty">
+        <span className="glyph" aria-hidden>📑</span>
+        <h3 className="title">No fixed-price or retainer projects</h3>
+        <p className="body">Set a project's billing to Fixed price or Monthly retainer under Projects → Edit to bill it from here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <p style={{ color: 'var(--text-secondary)', fontSize: '13px', marginBottom: '16px' }}>
+        Labour on these projects is billed here instead of per ticket; their ticket batches carry expenses only. Amounts are
+        before GST. Marking something billed records it for Profitability and the project's billing history.
+      </p>
+      {error && <div style={{ marginBottom: '12px', fontSize: '13px', color: 'var(--error-color)' }}>{error}</div>}
+
+      {contractProjects.map((project) => {
+        const type = billingTypeOf(project);
+        const projectClaims = claims.filter((c) => c.project_id === project.id);
+        return (
+          <div key={project.id} className="card" style={{ marginBottom: '16px' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: '10px', flexWrap: 'wrap', marginBottom: '10px' }}>
+              <div>
+                <h3 style={{ margin: 0 }}>{projectLabel(project)}</h3>
+                <div style={{ color: 'var(--text-secondary)', fontSize: '13px' }}>{project.customer?.name || 'No customer'}</div>
+              </div>
+              <span style={{ fontSize: '12px', fontWeight: 600, color: 'var(--text-secondary)' }}>{BILLING_TYPE_LABELS[type]}</span>
+            </div>
+
+            {type === 'fixed' && (() => {
+              const status = fixedPriceStatus(project, projectClaims);
+              const projectMilestones = milestones.filter((m) => m.project_id === project.id);
+              const billed = billedMilestoneIds(projectClaims);
+              const percentDraft = percentDrafts[project.id] ?? String(status.percentComplete);
+              const draftPercent = Math.min(100, Math.max(0, parseFloat(percentDraft) || 0));
+              const progressAmount = Math.max(0, Math.round((status.contract * draftPercent) / 100 * 100) / 100 - status.billed);
+              return (
+                <>
+                  <div style={{ display: 'flex', gap: '20px', flexWrap: 'wrap', fontSize: '13px', marginBottom: '12px' }}>
+                    <span>Contract <strong>${fmt(status.contract)}</strong></span>
+                    <span>Earned <strong>${fmt(status.earned)}</strong></span>
+                    <span>Billed <strong>${fmt(status.billed)}</strong></span>
+                    <span>Left to bill <strong>${fmt(status.remaining)}</strong></span>
+                  </div>
+                  {status.contract <= 0 && (
+                    <div style={{ fontSize: '12px', color: 'var(--warning-color)', marginBottom: '10px' }}>Set the contract amount under Projects → Edit.</div>
+                  )}
+
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap', marginBottom: '14px' }}>
+                    <label className="label" style={{ margin: 0 }}>Percent complete</label>
+                    <input
+                      className="input"
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="1"
+                      value={percentDraft}
+                      onChange={(e) => setPercentDrafts((prev) => ({ ...prev, [project.id]: e.target.value }))}
+                      style={{ width: '90px' }}
+                    />
+                    <button
+                      type="button"
+                      className="payroll-action-btn"
+                      disabled={busy || draftPercent === status.percentComplete}
+                      onClick={() => percentMutation.mutate({ id: project.id, percent: draftPercent })}
+                    >
+                      Save
+                    </button>
+                    <button
+                      type="button"
+                      className="payroll-action-btn"
+                      disabled={busy || progressAmount <= 0}
+                      title="Record a progress bill for the contract earned up to this percent, less what has been billed"
+                      onClick={() =>
+                        billMutation.mutate({
+                          claim: newClaim(project, {
+                            kind: 'progress',
+                            percent_complete: draftPercent,
+                            description: `Progress to ${draftPercent}%`,
+                            amount: Math.round(progressAmount * 100) / 100,
+                          }),
+                          percentComplete: draftPercent === status.percentComplete ? undefined : draftPercent,
+                        })
+                      }
+                    >
+                      Bill progress ${fmt(progressAmount)}
+                    </button>
+                  </div>
+
+                  {projectMilestones.length > 0 && (
+                    <table className="payroll-mini-table" style={{ marginBottom: '12px' }}>
+                      <thead>
+                        <tr>
+                          <th>Milestone</th>
+                          <th>Due</th>
+                          <th>Amount</th>
+                          <th />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {projectMilestones.map((m) => {
+                          const claim = billed.has(m.id!) ? projectClaims.find((c) => c.milestone_id === m.id) : undefined;
+                          const overdue = !claim && m.due_date && m.due_date < today;
+                          return (
+                            <tr key={m.id}>
+                              <td>{m.name}</td>
+                              <td style={overdue ? { color: 'var(--warning-color)', fontWeight: 600 } : undefined}>{m.due_date ?? '—'}</td>
+                              <td>${fmt(m.amount)}</td>
+                              <td style={{ textAlign: 'right' }}>
+                                {claim ? (
+                                  <span className="payroll-muted">Billed {claim.claim_date}</span>
+                                ) : (
+                                  <button
+                                    type="button"
+                                    className="payroll-action-btn"
+                                    disabled={busy || m.amount <= 0}
+                                    onClick={() =>
+                                      billMutation.mutate({
+                                        claim: newClaim(project, { kind: 'milestone', milestone_id: m.id!, description: m.name, amount: m.amount }),
+                                      })
+                                    }
+                                  >
+                                    Mark billed
+                                  </button>
+                                )}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  )}
+                </>
+              );
+            })()}
+
+            {type === 'retainer' && (() => {
+              const months = retainerMonths(project, retainerTickets, projectClaims);
+              if (!(Number(project.retainer_amount) > 0)) {
+                return <div style={{ fontSize: '12px', color: 'var(--warning-color)', marginBottom: '10px' }}>Set the monthly retainer under Projects → Edit.</div>;
+              }
+              if (months.length === 0) {
+                return <div className="payroll-muted" style={{ fontStyle: 'italic', marginBottom: '10px' }}>No start date or approved tickets yet.</div>;
+              }
+              return (
+                <table className="payroll-mini-table" style={{ marginBottom: '12px' }}>
+                  <thead>
+                    <tr>
+                      <th>Month</th>
+                      <th>Hours</th>
+                      <th>Labour at rates</th>
+                      <th>Retainer</th>
+                      <th>Overage</th>
+                      <th>To bill</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...months].reverse().map((m) => (
+                      <tr key={m.month}>
+                        <td>{formatBillingMonth(m.month)}</td>
+                        <td>{m.hours.toFixed(2)}</td>
+                        <td>${fmt(m.labourValue)}</td>
+                        <td>${fmt(m.retainer)}</td>
+                        <td style={m.overage > 0 ? { color: 'var(--warning-color)', fontWeight: 600 } : undefined}>${fmt(m.overage)}</td>
+                        <td style={{ fontWeight: 600 }}>${fmt(m.amount)}</td>
+                        <td style={{ textAlign: 'right' }}>
+                          {m.claim ? (
+                            <span className="payroll-muted">Billed {m.claim.claim_date}</span>
+                          ) : (
+                            <button
+                              type="button"
+                              className="payroll-action-btn"
+                              disabled={busy}
+                              title={m.month.slice(0, 7) === today.slice(0, 7) ? 'This month is still open; overage so far is included' : undefined}
+                              onClick={() =>
+                                billMutation.mutate({
+                                  claim: newClaim(project, {
+                                    kind: 'retainer',
+                                    period_month: m.month,
+                                    description: m.overage > 0 ? `Retainer ${formatBillingMonth(m.month)} + overage` : `Retainer ${formatBillingMonth(m.month)}`,
+                                    amount: m.amount,
+                                  }),
+                                })
+                              }
+                            >
+                              Mark billed
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              );
+            })()}
+
+            {projectClaims.length > 0 && (
+              <details>
+                <summary style={{ cursor: 'pointer', fontSize: '13px', color: 'var(--text-secondary)' }}>
+                  Billing history ({projectClaims.length})
+                </summary>
+                <table className="payroll-mini-table" style={{ marginTop: '8px' }}>
+                  <tbody>
+                    {projectClaims.map((c) => (
+                      <tr key={c.id}>
+                        <td>{c.claim_date}</td>
+                        <td>{c.description || c.kind}</td>
+                        <td>${fmt(c.amount)}</td>
+                        <td style={{ textAlign: 'right' }}>
+                          <button type="button" className="payroll-action-btn" disabled={busy} onClick={() => undo(c)}>Undo</button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </details>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
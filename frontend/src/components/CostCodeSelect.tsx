@@ -0,0 +1,51 @@
+import { CostCode, costCodeLabel, costCodeTree } from '../utils/costCodes';
+
+/**
+ * Cost code picker for a time entry or ticket expense. Renders nothing when the project has no
+ * codes. Inactive codes are hidden unless already picked, so old entries still show theirs.
+ */
+export default function CostCodeSelect({
+  codes,
+  projectId,
+  value,
+  onChange,
+  required,
+  style,
+}: {
+  /** All loaded codes; filtered to the project here. */
+  codes: CostCode[];
+  projectId: string | null | undefined;
+  value: string | null | undefined;
+  onChange: (costCodeId: string | null) => void;
+  required?: boolean;
+  style?: React.CSSProperties;
+}) {
+  const options = costCodeTree(codes.filter((c) => c.project_id === projectId)).filter(
+    ({ costCode }) => costCode.active || costCode.id === value
+  );
+  if (!projectId || options.length === 0) return null;
+
+  return (
+    <div className="form-group" style={{ marginBottom: '20px', ...style }}>
+      <label className="label">
+        Phase / cost code
+        {required && <span style={{ color: 'var(--error-color)' }}> *</span>}
+      </label>
+      <select
+        className="input"
+        value={value || ''}
+        onChange={(e) => onChange(e.target.value || null)}
+        style={{ width: '100%', borderColor: required && !value ? 'var(--warning-color)' : undefined }}
+      >
+        <option value="">{required ? 'Select a cost code' : '— None —'}</option>
+        {options.map(({ costCode, depth }) => (
+          <option key={costCode.id} value={costCode.id}>
+            {'\u00a0\u00a0\u00a0'.repeat(depth)}
+            {costCodeLabel(costCode)}
+            {costCode.active ? '' : ' (inactive)'}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { crewAssignmentsService } from '../services/supabaseServices';
+import { useBackdropClose } from '../hooks/useBackdropClose';
+import CostCodeSelect from './CostCodeSelect';
+import { CostCode, costCodeRequired } from '../utils/costCodes';
+import { CrewAssignment, DISPATCH_RATE_TYPES, findAssignmentConflicts } from '../utils/dispatch';
+import type { LeaveDay } from '../utils/leave';
+
+const fieldLabel: React.CSSProperties = { display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '12px', color: 'var(--text-secondary)' };
+
+export function employeeDisplayName(employee: any): string {
+  const name = `${employee?.user?.first_name ?? ''} ${employee?.user?.last_name ?? ''}`.trim();
+  return name || employee?.user?.email || 'Unknown';
+}
+
+/**
+ * Add or edit one dispatch board assignment. New assignments can be copied to other days of the
+ * same week. Conflicts (leave, stat holidays, overlaps, long days) are shown as the form changes
+ * but don't block saving; sometimes a crew is called in anyway.
+ */
+export default function CrewAssignmentModal({
+  assignment,
+  weekDates,
+  employees,
+  projects,
+  customers,
+  costCodes,
+  weekAssignments,
+  leaveDays,
+  jurisdictionByUser,
+  onClose,
+}: {
+  assignment: CrewAssignment;
+  /** The seven dates (YYYY-MM-DD) of the board's week. */
+  weekDates: string[];
+  employees: any[];
+  projects: any[];
+  customers: any[];
+  costCodes: CostCode[];
+  weekAssignments: CrewAssignment[];
+  leaveDays: LeaveDay[];
+  jurisdictionByUser: Map<string, string | null>;
+  onClose: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const backdropClose = useBackdropClose(onClose);
+  const [draft, setDraft] = useState<CrewAssignment>({ ...assignment, start_time: assignment.start_time.slice(0, 5) });
+  const [extraDates, setExtraDates] = useState<Set<string>>(new Set());
+
+  const set = (updates: Partial<CrewAssignment>) => setDraft((d) => ({ ...d, ...updates }));
+  const toggleDate = (date: string) =>
+    setExtraDates((prev) => {
+      const next = new Set(prev);
+      if (next.has(date)) next.delete(date);
+      else next.add(date);
+      return next;
+    });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['crewAssignments'] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const saved = await crewAssignmentsService.upsert(draft);
+      const others = [...extraDates].filter((d) => d !== draft.date);
+      if (!draft.id && others.length > 0) await crewAssignmentsService.createForDates(draft, others);
+      return saved;
+    },
+    onSuccess: () => {
+      invalidate();
+      onClose();
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => crewAssignmentsService.delete(id),
+    onSuccess: () => {
+      invalidate();
+      onClose();
+    },
+  });
+
+  const draftProjects = draft.customer_id ? projects.filter((p) => p.customer_id === draft.customer_id) : projects;
+  const previewDates = draft.id ? [draft.date] : [draft.date, ...[...extraDates].filter((d) => d !== draft.date)];
+  const previewConflicts = findAssignmentConflicts(
+    [
+      ...weekAssignments.filter((a) => a.id !== draft.id),
+      ...previewDates.map((date) => ({ ...draft, id: `draft:${date}`, date })),
+    ],
+    leaveDays,
+    jurisdictionByUser
+  );
+  const warnings = previewDates.flatMap((date) => (previewConflicts.get(`draft:${date}`) ?? []).map((m) => `${date}: ${m}`));
+  // The time entry made from this assignment needs a code on projects that require one.
+  const costCodeIsRequired = costCodeRequired(projects.find((p) => p.id === draft.project_id), costCodes.filter((c) => c.project_id === draft.project_id));
+  const canSave = !!draft.user_id && !!draft.date && draft.hours > 0 && draft.hours <= 24 && !(costCodeIsRequired && !draft.cost_code_id);
+  const error = (saveMutation.error || deleteMutation.error) as Error | null;
+
+  return (
+    <div
+      {...backdropClose}
+      className="ionex-modal-backdrop"
+      style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(0,0,0,0.5)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 9999 }}
+    >
+      <div
+        className="ionex-modal-card"
+        style={{ backgroundColor: 'var(--bg-primary)', borderRadius: '12px', padding: '24px', maxWidth: '720px', width: '92%', maxHeight: '85vh', overflowY: 'auto', boxShadow: '0 20px 60px rgba(0,0,0,0.3)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="payroll-modal-header">
+          <div>
+            <h3 className="payroll-modal-title">{draft.id ? 'Edit assignment' : 'Assign crew'}</h3>
+            <div className="payroll-modal-subtitle">The employee sees this on their calendar and can turn it into a time entry.</div>
+          </div>
+          <button className="payroll-modal-close" onClick={onClose} aria-label="Close">×</button>
+        </div>
+
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '10px' }}>
+          <label style={fieldLabel}>
+            Employee
+            <select className="input" value={draft.user_id} onChange={(e) => set({ user_id: e.target.value })}>
+              <option value="">— Choose —</option>
+              {employees
+                .filter((emp) => emp.user_id)
+                .map((emp) => (
+                  <option key={emp.id} value={emp.user_id}>{employeeDisplayName(emp)}</option>
+                ))}
+            </select>
+          </label>
+          <label style={fieldLabel}>
+            Date
+            <input className="input" type="date" value={draft.date} onChange={(e) => set({ date: e.target.value })} />
+          </label>
+          <label style={fieldLabel}>
+            Rate type
+            <select className="input" value={draft.rate_type} onChange={(e) => set({ rate_type: e.target.value })}>
+              {DISPATCH_RATE_TYPES.map((r) => (
+                <option key={r} value={r}>{r}</option>
+              ))}
+            </select>
+          </label>
+          <label style={fieldLabel}>
+            Customer
+            <select className="input" value={draft.customer_id || ''} onChange={(e) => set({ customer_id: e.target.value || null, project_id: null, cost_code_id: null })}>
+              <option value="">— None —</option>
+              {customers.map((c) => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+          </label>
+          <label style={{ ...fieldLabel, gridColumn: 'span 2' }}>
+            Project
+            <select
+              className="input"
+              value={draft.project_id || ''}
+              onChange={(e) => {
+                const project = projects.find((p) => p.id === e.target.value);
+                set({
+                  project_id: e.target.value || null,
+                  cost_code_id: null,
+                  customer_id: project?.customer_id ?? draft.customer_id,
+                  location: draft.location || project?.location || null,
+                });
+              }}
+            >
+              <option value="">— None (shop / internal) —</option>
+              {draftProjects.map((p) => (
+                <option key={p.id} value={p.id}>{p.project_number ? `${p.project_number} – ${p.name}` : p.name}</option>
+              ))}
+            </select>
+          </label>
+          <CostCodeSelect
+            codes={costCodes}
+            projectId={draft.project_id}
+            value={draft.cost_code_id}
+            onChange={(costCodeId) => set({ cost_code_id: costCodeId })}
+            required={costCodeIsRequired}
+            style={{ gridColumn: 'span 3', marginBottom: 0 }}
+          />
+          <label style={fieldLabel}>
+            Starts at
+            <input className="input" type="time" value={draft.start_time} onChange={(e) => set({ start_time: e.target.value })} />
+          </label>
+          <label style={fieldLabel}>
+            Hours
+            <input
+              type="number"
+              step="0.25"
+              min={0.25}
+              max={24}
+              className="payroll-input-num"
+              value={draft.hours}
+              onChange={(e) => set({ hours: Number(e.target.value) })}
+            />
+          </label>
+          <label style={fieldLabel}>
+            Location
+            <input className="input" value={draft.location || ''} onChange={(e) => set({ location: e.target.value || null })} />
+          </label>
+          <label style={{ ...fieldLabel, gridColumn: 'span 3' }}>
+            Notes for the crew
+            <input className="input" value={draft.notes || ''} placeholder="Meet point, equipment, contact…" onChange={(e) => set({ notes: e.target.value || null })} />
+          </label>
+        </div>
+
+        {!draft.id && (
+          <div style={{ ...fieldLabel, marginTop: '14px' }}>
+            Also on
+            <div style={{ display: 'flex', gap: '4px', flexWrap: 'wrap' }}>
+              {weekDates.map((date) => {
+                const isDraftDate = date === draft.date;
+                const on = isDraftDate || extraDates.has(date);
+                return (
+                  <button
+                    key={date}
+                    type="button"
+                    className={`payroll-action-btn${on ? ' is-primary' : ''}`}
+                    aria-pressed={on}
+                    disabled={isDraftDate}
+                    onClick={() => toggleDate(date)}
+                  >
+                    {new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' })}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {warnings.length > 0 && (
+          <div style={{ marginTop: '12px', padding: '10px', borderRadius: '6px', backgroundColor: 'rgba(255,193,7,0.12)', color: 'var(--warning-color)', fontSize: '12px' }}>
+            {warnings.map((w) => (
+              <div key={w}>⚠ {w}</div>
+            ))}
+          </div>
+        )}
+
+        <div className="payroll-modal-footer">
+          <div>
+            {draft.id && (
+              <button
+                type="button"
+                className="payroll-action-btn"
+                disabled={deleteMutation.isPending}
+                onClick={() => {
+                  if (window.confirm('Remove this assignment?')) deleteMutation.mutate(draft.id!);
+                }}
+              >
+                Remove
+              </button>
+            )}
+          </div>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button type="button" className="payroll-action-btn" onClick={onClose} disabled={saveMutation.isPending}>
+              Cancel
+            </button>
+            <button type="button" className="payroll-action-btn is-primary" disabled={saveMutation.isPending || !canSave} onClick={() => saveMutation.mutate()}>
+              {saveMutation.isPending ? 'Saving…' : previewDates.length > 1 ? `Assign ${previewDates.length} days` : 'Save'}
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div style={{ marginTop: '12px', padding: '10px', borderRadius: '6px', backgroundColor: 'rgba(220,53,69,0.10)', color: 'var(--error-color)', fontSize: '12px' }}>
+            {error.message}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { customerEmailTemplatesService } from '../services/supabaseServices';
+import {
+  DEFAULT_EMAIL_BODIES,
+  DEFAULT_EMAIL_SUBJECTS,
+  EMAIL_TEMPLATE_PLACEHOLDERS,
+  isValidEmail,
+  parseAddressList,
+} from '../utils/batchEmail';
+
+/**
+ * Customers → Edit: who batches for this customer are emailed to, who is copied, and the subject
+ * and body used (Invoices → batch card → Email). Saves on its own like the rate card editor.
+ */
+export default function CustomerEmailTemplateEditor({ customerId, customerEmail }: { customerId: string; customerEmail?: string | null }) {
+  const queryClient = useQueryClient();
+  const [to, setTo] = useState('');
+  const [cc, setCc] = useState('');
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const { data: templates = [], isLoading } = useQuery({
+    queryKey: ['customerEmailTemplates'],
+    queryFn: () => customerEmailTemplatesService.getAll(),
+  });
+  const template = templates.find((t) => t.customer_id === customerId);
+
+  useEffect(() => {
+    setTo((template?.to_addresses ?? []).join(', '));
+    setCc((template?.cc_addresses ?? []).join(', '));
+    setSubject(template?.subject ?? '');
+    setBody(template?.body ?? '');
+  }, [template]);
+
+  const saveMutation = useMutation({
+    mutationFn: customerEmailTemplatesService.upsert,
+    onSuccess: () => {
+      setError(null);
+      setSaved(true);
+      queryClient.invalidateQueries({ queryKey: ['customerEmailTemplates'] });
+    },
+    onError: (err: unknown) => setError(err instanceof Error ? err.message : String((err as any)?.message ?? 'Unknown error')),
+  });
+
+  const handleSave = () => {
+    const toAddresses = parseAddressList(to);
+    const ccAddresses = parseAddressList(cc);
+    const invalid = [...toAddresses, ...ccAddresses].filter((a) => !isValidEmail(a));
+    if (invalid.length > 0) {
+      setError(`Not a valid email address: ${invalid.join(', ')}`);
+      return;
+    }
+    setSaved(false);
+    saveMutation.mutate({ customer_id: customerId, to_addresses: toAddresses, cc_addresses: ccAddresses, subject, body });
+  };
+
+  const fieldLabel = { display: 'block', fontSize: '12px', color: 'var(--text-secondary)', marginBottom: '4px' } as const;
+
+  return (
+    <div style={{ marginTop: '20px', paddingTop: '20px', borderTop: '1px solid var(--border-color)' }}>
+      <h4 style={{ marginBottom: '8px', fontSize: '14px', color: 'var(--text-secondary)' }}>Batch Emails</h4>
+      <p style={{ fontSize: '12px', color: 'var(--text-tertiary)', marginBottom: '12px' }}>
+        Used when a batch is emailed from Invoices. Leave the recipients empty to send to the customer's email
+        {customerEmail ? ` (${customerEmail})` : ''}, and the subject or body empty for the standard wording. Placeholders:{' '}
+        {EMAIL_TEMPLATE_PLACEHOLDERS.map((p) => `{${p}}`).join(', ')}. Everything can still be changed before each send.
+      </p>
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px', marginBottom: '12px' }}>
+        <div>
+          <label style={fieldLabel}>To</label>
+          <input className="input" placeholder={customerEmail || 'approver@customer.com'} value={to} disabled={isLoading} onChange={(e) => { setTo(e.target.value); setSaved(false); }} />
+        </div>
+        <div>
+          <label style={fieldLabel}>CC</label>
+          <input className="input" placeholder="Comma-separated" value={cc} disabled={isLoading} onChange={(e) => { setCc(e.target.value); setSaved(false); }} />
+        </div>
+      </div>
+      <div style={{ marginBottom: '12px' }}>
+        <label style={fieldLabel}>Subject</label>
+        <input className="input" placeholder={DEFAULT_EMAIL_SUBJECTS.approval} value={subject} disabled={isLoading} onChange={(e) => { setSubject(e.target.value); setSaved(false); }} />
+      </div>
+      <div style={{ marginBottom: '12px' }}>
+        <label style={fieldLabel}>Body</label>
+        <textarea
+          className="input"
+          rows={6}
+          placeholder={DEFAULT_EMAIL_BODIES.approval}
+          value={body}
+          disabled={isLoading}
+          onChange={(e) => { setBody(e.target.value); setSaved(false); }}
+          style={{ fontFamily: 'inherit', resize: 'vertical' }}
+        />
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+        <button type="button" className="payroll-action-btn" disabled={isLoading || saveMutation.isPending} onClick={handleSave}>
+          {saveMutation.isPending ? 'Saving…' : 'Save email settings'}
+        </button>
+        {saved && <span style={{ fontSize: '12px', color: 'var(--success-color)' }}>Saved</span>}
+      </div>
+      {error && <div style={{ marginTop: '6px', fontSize: '12px', color: 'var(--error-color)' }}>{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../context/AuthContext';
+import { customersService, receivablesService } from '../services/supabaseServices';
+import { useBackdropClose } from '../hooks/useBackdropClose';
+import { CustomerInvoice, customerTermsDays, dueDateFromTerms } from '../utils/receivables';
+import { formatYmd } from '../utils/payPeriod';
+import { formatTaxLineLabel } from '../utils/taxCodes';
+
+const fieldLabel: React.CSSProperties = { display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '12px', color: 'var(--text-secondary)' };
+
+export type CustomerInvoiceDraft = Partial<Omit<CustomerInvoice, 'payments'>>;
+
+/**
+ * Record (or edit) an issued invoice for receivables. From an invoiced batch the customer, amounts
+ * and batch link come filled in; the invoice number, date and terms are confirmed here. The due
+ * date follows the terms unless it is changed by hand.
+ */
+export default function CustomerInvoiceModal({
+  initial,
+  subtitle,
+  onSaved,
+  onClose,
+}: {
+  initial: CustomerInvoiceDraft;
+  subtitle?: string;
+  onSaved?: () => void;
+  onClose: () => void;
+}) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const backdropClose = useBackdropClose(onClose);
+  const { data: customers = [] } = useQuery({
+    queryKey: ['customers'],
+    queryFn: () => customersService.getAll(),
+  });
+
+  const today = formatYmd(new Date());
+  const customerFor = (id: string | null | undefined) => (customers as any[]).find((c) => c.id === id);
+  const initialTerms = initial.terms_days ?? customerTermsDays(customerFor(initial.customer_id));
+  const [form, setForm] = useState({
+    customer_id: initial.customer_id ?? '',
+    invoice_number: initial.invoice_number ?? '',
+    invoice_date: initial.invoice_date ?? today,
+    terms_days: String(initial.terms_days ?? ''),
+    due_date: initial.due_date ?? '',
+    subtotal: initial.subtotal != null ? initial.subtotal.toFixed(2) : '',
+    tax_amount: initial.tax_amount != null ? initial.tax_amount.toFixed(2) : '',
+    notes: initial.notes ?? '',
+  });
+  const set = (updates: Partial<typeof form>) => setForm((prev) => ({ ...prev, ...updates }));
+
+  // Terms come from the customer until typed in; the due date from the terms until typed in.
+  const terms = form.terms_days.trim() !== '' ? Math.max(0, Math.round(Number(form.terms_days) || 0)) : form.customer_id ? customerTermsDays(customerFor(form.customer_id)) : initialTerms;
+  const dueDate = form.due_date || (/^\d{4}-\d{2}-\d{2}$/.test(form.invoice_date) ? dueDateFromTerms(form.invoice_date, terms) : '');
+  const subtotal = Number(form.subtotal) || 0;
+  const tax = Number(form.tax_amount) || 0;
+  const total = Math.round((subtotal + tax) * 100) / 100;
+  // The per-component split only holds while the tax is what it was computed as.
+  const taxLines = initial.tax_lines && initial.tax_amount != null && Math.abs(initial.tax_amount - tax) < 0.005 ? initial.tax_lines : null;
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const customer = customerFor(form.customer_id);
+      const customerName = customer?.name ?? initial.customer_name ?? '';
+      if (!customerName) throw new Error('Choose the customer.');
+      if (!form.invoice_number.trim()) throw new Error('Enter the invoice number.');
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(form.invoice_date)) throw new Error('Enter the invoice date.');
+      if (dueDate < form.invoice_date) throw new Error('The due date is before the invoice date.');
+      if (!(total > 0)) throw new Error('Enter the invoice amount.');
+      await receivablesService.upsertInvoice({
+        id: initial.id,
+        group_id: initial.group_id ?? null,
+        customer_id: customer?.id ?? initial.customer_id ?? null,
+        customer_name: customerName,
+        project_number: initial.project_number ?? null,
+        invoice_number: form.invoice_number,
+        invoice_date: form.invoice_date,
+        terms_days: terms,
+        due_date: dueDate,
+        subtotal: Math.round(subtotal * 100) / 100,
+        tax_amount: Math.round(tax * 100) / 100,
+        tax_lines: taxLines,
+        total,
+        notes: form.notes.trim() || null,
+        ...(initial.id ? {} : { created_by: user?.id ?? null }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customerInvoices'] });
+      onSaved?.();
+      onClose();
+    },
+  });
+
+  return (
+    <div
+      {...backdropClose}
+      className="ionex-modal-backdrop"
+      style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(0,0,0,0.5)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 9999 }}
+    >
+      <div
+        className="ionex-modal-card"
+        style={{ backgroundColor: 'var(--bg-primary)', borderRadius: '12px', padding: '24px', maxWidth: '560px', width: '92%', maxHeight: '85vh', overflowY: 'auto', boxShadow: '0 20px 60px rgba(0,0,0,0.3)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="payroll-modal-header">
+          <div>
+            <h3 className="payroll-modal-title">{initial.id ? 'Edit invoice' : 'Record invoice'}</h3>
+            {subtitle && <div className="payroll-modal-subtitle">{subtitle}</div>}
+          </div>
+          <button className="payroll-modal-close" onClick={onClose} aria-label="Close">×</button>
+        </div>
+
+        <div style={{ display: 'grid', gap: '10px', gridTemplateColumns: '1fr 1fr' }}>
+          <label style={{ ...fieldLabel, gridColumn: '1 / -1' }}>
+            Customer
+            {initial.group_id ? (
+              <input className="input" value={customerFor(form.customer_id)?.name ?? initial.customer_name ?? ''} disabled />
+            ) : (
+              <select className="input" value={form.customer_id} onChange={(e) => set({ customer_id: e.target.value })}>
+                <option value="">Choose…</option>
+                {(customers as any[]).map((c) => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+            )}
+          </label>
+          <label style={fieldLabel}>
+            Invoice number
+            <input className="input" value={form.invoice_number} onChange={(e) => set({ invoice_number: e.target.value })} />
+          </label>
+          <label style={fieldLabel}>
+            Invoice date
+            <input className="input" type="date" value={form.invoice_date} onChange={(e) => set({ invoice_date: e.target.value })} />
+          </label>
+          <label style={fieldLabel}>
+            Terms (days)
+            <input className="input" type="number" min={0} placeholder={String(terms)} value={form.terms_days} onChange={(e) => set({ terms_days: e.target.value, due_date: '' })} />
+          </label>
+          <label style={fieldLabel}>
+            Due date
+            <input className="input" type="date" value={dueDate} onChange={(e) => set({ due_date: e.target.value })} />
+          </label>
+          <label style={fieldLabel}>
+            Subtotal (pre-tax)
+            <input className="input" type="number" step="0.01" value={form.subtotal} onChange={(e) => set({ subtotal: e.target.value })} />
+          </label>
+          <label style={fieldLabel}>
+            Tax
+            <input className="input" type="number" step="0.01" value={form.tax_amount} onChange={(e) => set({ tax_amount: e.target.value })} />
+            {taxLines && taxLines.length > 0 && (
+              <span style={{ fontSize: '11px', color: 'var(--text-tertiary)' }}>
+                {taxLines.map((l) => `${formatTaxLineLabel(l)} $${l.amount.toFixed(2)}`).join(' · ')}
+              </span>
+            )}
+          </label>
+          <div style={{ gridColumn: '1 / -1', fontSize: '13px', fontWeight: 600 }}>
+            Total ${total.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+          </div>
+          <label style={{ ...fieldLabel, gridColumn: '1 / -1' }}>
+            Notes
+            <textarea className="input" rows={2} value={form.notes} onChange={(e) => set({ notes: e.target.value })} style={{ fontFamily: 'inherit', resize: 'vertical' }} />
+          </label>
+        </div>
+
+        <div className="payroll-modal-footer">
+          <div />
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button type="button" className="payroll-action-btn" onClick={onClose} disabled={saveMutation.isPending}>
+              Cancel
+            </button>
+            <button type="button" className="payroll-action-btn is-primary" disabled={saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+              {saveMutation.isPending ? 'Saving…' : 'Save'}
+            </button>
+          </div>
+        </div>
+
+        {saveMutation.error && (
+          <div style={{ marginTop: '12px', padding: '10px', borderRadius: '6px', backgroundColor: 'rgba(220,53,69,0.10)', color: 'var(--error-color)', fontSize: '12px' }}>
+            {saveMutation.error.message}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,361 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { entryTemplatesService } from '../services/supabaseServices';
+import { useBackdropClose } from '../hooks/useBackdropClose';
+import { describeRecurrence, EntryTemplate, WEEKDAY_LABELS } from '../utils/entryTemplates';
+import { CostCode, costCodeLabel, costCodeRequired, costCodeTree } from '../utils/costCodes';
+
+const RATE_TYPES = ['Internal', 'Shop Time', 'Shop Overtime', 'Travel Time', 'Field Time', 'Field Overtime'];
+
+const fieldLabel: React.CSSProperties = { display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '12px', color: 'var(--text-secondary)' };
+
+export function emptyEntryTemplate(userId: string, isDemo: boolean): EntryTemplate {
+  return {
+    user_id: userId,
+    name: '',
+    description: '',
+    customer_id: null,
+    project_id: null,
+    cost_code_id: null,
+    rate_type: 'Shop Time',
+    start_time: '08:00',
+    hours: 1,
+    location: null,
+    approver: null,
+    po_afe: null,
+    cc: null,
+    other: null,
+    repeat_weekdays: [],
+    repeat_dates: [],
+    repeat_until: null,
+    is_demo: isDemo,
+  };
+}
+
+/**
+ * Editor for the user's `time_entry_templates` (week view → Templates). `initialDraft` opens the
+ * form straight away, e.g. for "Save as template" on an existing entry.
+ */
+export default function EntryTemplatesModal({
+  userId,
+  isDemo,
+  templates,
+  projects,
+  customers,
+  costCodes,
+  isPanelShop,
+  initialDraft,
+  onClose,
+}: {
+  userId: string;
+  isDemo: boolean;
+  templates: EntryTemplate[];
+  projects: any[];
+  customers: any[];
+  costCodes: CostCode[];
+  isPanelShop: boolean;
+  initialDraft?: EntryTemplate | null;
+  onClose: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const backdropClose = useBackdropClose(onClose);
+  const [draft, setDraft] = useState<EntryTemplate | null>(initialDraft ?? null);
+  const [newDate, setNewDate] = useState('');
+
+  const saveMutation = useMutation({
+    mutationFn: (template: EntryTemplate) => entryTemplatesService.upsert(template),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['entryTemplates'] });
+      setDraft(null);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => entryTemplatesService.delete(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['entryTemplates'] }),
+  });
+
+  const error = (saveMutation.error || deleteMutation.error) as Error | null;
+  const projectName = (id: string | null) => (id ? projects.find((p) => p.id === id)?.name ?? 'Removed project' : 'No project');
+  const draftProjects = draft?.customer_id ? projects.filter((p) => p.customer_id === draft.customer_id) : projects;
+
+  const set = (updates: Partial<EntryTemplate>) => setDraft((d) => (d ? { ...d, ...updates } : d));
+  const toggleWeekday = (day: number) => {
+    if (!draft) return;
+    const days = draft.repeat_weekdays.includes(day) ? draft.repeat_weekdays.filter((d) => d !== day) : [...draft.repeat_weekdays, day];
+    set({ repeat_weekdays: days.sort((a, b) => a - b) });
+  };
+
+  const hoursValid = !!draft && draft.hours > 0 && draft.hours <= 24;
+  const draftCostCodes = draft?.project_id ? costCodes.filter((c) => c.project_id === draft.project_id) : [];
+  const costCodeOptions = costCodeTree(draftCostCodes).filter(({ costCode }) => costCode.active || costCode.id === draft?.cost_code_id);
+  const costCodeMissing =
+    !!draft && !draft.cost_code_id && costCodeRequired(projects.find((p) => p.id === draft.project_id), draftCostCodes);
+  const canSave = !!draft && !!draft.name.trim() && hoursValid && !costCodeMissing;
+
+  const save = () => {
+    if (!draft) return;
+    saveMutation.mutate({
+      ...draft,
+      name: draft.name.trim(),
+      rate_type: isPanelShop ? 'Shop Time' : draft.project_id ? draft.rate_type : 'Internal',
+      cost_code_id: (draft.project_id && draft.cost_code_id) || null,
+      start_time: draft.start_time.slice(0, 5),
+    });
+  };
+
+  return (
+    <div
+      {...backdropClose}
+      className="ionex-modal-backdrop"
+      style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(0,0,0,0.5)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 9999 }}
+    >
+      <div
+        className="ionex-modal-card"
+        style={{ backgroundColor: 'var(--bg-primary)', borderRadius: '12px', padding: '24px', maxWidth: '820px', width: '92%', maxHeight: '85vh', overflowY: 'auto', boxShadow: '0 20px 60px rgba(0,0,0,0.3)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="payroll-modal-header">
+          <div>
+            <h3 className="payroll-modal-title">Entry templates</h3>
+            <div className="payroll-modal-subtitle">
+              Save blocks of time you log often. Templates with repeat days are proposed by <strong>Apply templates</strong> on
+              the week view; you review the entries before they're added.
+            </div>
+          </div>
+          <button className="payroll-modal-close" onClick={onClose} aria-label="Close">×</button>
+        </div>
+
+        <table className="payroll-mini-table">
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Project</th>
+              <th>Time</th>
+              <th>Repeats</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {templates.length === 0 && (
+              <tr>
+                <td colSpan={5} className="payroll-muted" style={{ fontStyle: 'italic' }}>No templates saved yet.</td>
+              </tr>
+            )}
+            {templates.map((t) => (
+              <tr key={t.id}>
+                <td>{t.name}</td>
+                <td className="payroll-muted">
+                  {projectName(t.project_id)} · {t.rate_type}
+                </td>
+                <td className="payroll-muted">
+                  {t.start_time.slice(0, 5)} · {t.hours}h
+                </td>
+                <td className="payroll-muted" style={{ fontSize: '11px' }}>{describeRecurrence(t)}</td>
+                <td style={{ whiteSpace: 'nowrap', textAlign: 'right' }}>
+                  <button type="button" className="payroll-action-btn" onClick={() => setDraft({ ...t, start_time: t.start_time.slice(0, 5) })}>Edit</button>{' '}
+                  <button
+                    type="button"
+                    className="payroll-action-btn"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => {
+                      if (t.id && window.confirm(`Delete template "${t.name}"?`)) deleteMutation.mutate(t.id);
+                    }}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {draft ? (
+          <div style={{ marginTop: '16px', padding: '12px', border: '1px solid var(--border-color)', borderRadius: '8px' }}>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '10px' }}>
+              <label style={fieldLabel}>
+                Name
+                <input className="input" value={draft.name} placeholder="e.g. Shop maintenance" onChange={(e) => set({ name: e.target.value })} />
+              </label>
+              <label style={fieldLabel}>
+                Customer
+                <select
+                  className="input"
+                  value={draft.customer_id || ''}
+                  onChange={(e) => set({ customer_id: e.target.value || null, project_id: null, cost_code_id: null })}
+                >
+                  <option value="">— None —</option>
+                  {customers.map((c) => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </select>
+              </label>
+              <label style={fieldLabel}>
+                Project
+                <select
+                  className="input"
+                  value={draft.project_id || ''}
+                  onChange={(e) => {
+                    const project = projects.find((p) => p.id === e.target.value);
+                    set({ project_id: e.target.value || null, cost_code_id: null, customer_id: project?.customer_id ?? draft.customer_id });
+                  }}
+                >
+                  <option value="">— None (internal) —</option>
+                  {draftProjects.map((p) => (
+                    <option key={p.id} value={p.id}>{p.project_number ? `${p.project_number} – ${p.name}` : p.name}</option>
+                  ))}
+                </select>
+              </label>
+              {costCodeOptions.length > 0 && (
+                <label style={fieldLabel}>
+                  Phase / cost code{costCodeMissing && <span style={{ color: 'var(--error-color)' }}> *</span>}
+                  <select className="input" value={draft.cost_code_id || ''} onChange={(e) => set({ cost_code_id: e.target.value || null })}>
+                    <option value="">{costCodeMissing ? 'Select a cost code' : '— None —'}</option>
+                    {costCodeOptions.map(({ costCode, depth }) => (
+                      <option key={costCode.id} value={costCode.id}>
+                        {'\u00a0\u00a0\u00a0'.repeat(depth)}
+                        {costCodeLabel(costCode)}
+                        {costCode.active ? '' : ' (inactive)'}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              {!isPanelShop && (
+                <label style={fieldLabel}>
+                  Rate type
+                  <select className="input" value={draft.project_id ? draft.rate_type : 'Internal'} disabled={!draft.project_id} onChange={(e) => set({ rate_type: e.target.value })}>
+                    {RATE_TYPES.map((r) => (
+                      <option key={r} value={r}>{r}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <label style={fieldLabel}>
+                Starts at
+                <input className="input" type="time" value={draft.start_time.slice(0, 5)} onChange={(e) => set({ start_time: e.target.value })} />
+              </label>
+              <label style={fieldLabel}>
+                Hours
+                <input
+                  type="number"
+                  step="0.25"
+                  min={0.25}
+                  max={24}
+                  className="payroll-input-num"
+                  value={draft.hours}
+                  onChange={(e) => set({ hours: Number(e.target.value) })}
+                />
+              </label>
+              <label style={{ ...fieldLabel, gridColumn: 'span 3' }}>
+                Description
+                <input className="input" value={draft.description} onChange={(e) => set({ description: e.target.value })} />
+              </label>
+              <label style={fieldLabel}>
+                Location
+                <input className="input" value={draft.location || ''} onChange={(e) => set({ location: e.target.value || null })} />
+              </label>
+              <label style={fieldLabel}>
+                Approver
+                <input className="input" value={draft.approver || ''} onChange={(e) => set({ approver: e.target.value || null })} />
+              </label>
+              <label style={fieldLabel}>
+                PO/AFE
+                <input className="input" value={draft.po_afe || ''} onChange={(e) => set({ po_afe: e.target.value || null })} />
+              </label>
+              <label style={fieldLabel}>
+                CC
+                <input className="input" value={draft.cc || ''} onChange={(e) => set({ cc: e.target.value || null })} />
+              </label>
+              <label style={fieldLabel}>
+                Other
+                <input className="input" value={draft.other || ''} onChange={(e) => set({ other: e.target.value || null })} />
+              </label>
+            </div>
+
+            <div style={{ marginTop: '14px', display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '10px' }}>
+              <div style={fieldLabel}>
+                Repeats on
+                <div style={{ display: 'flex', gap: '4px', flexWrap: 'wrap' }}>
+                  {WEEKDAY_LABELS.map((label, i) => {
+                    const on = draft.repeat_weekdays.includes(i + 1);
+                    return (
+                      <button
+                        key={label}
+                        type="button"
+                        className={`payroll-action-btn${on ? ' is-primary' : ''}`}
+                        aria-pressed={on}
+                        onClick={() => toggleWeekday(i + 1)}
+                      >
+                        {label}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+              <label style={fieldLabel}>
+                Until (blank = no end)
+                <input className="input" type="date" value={draft.repeat_until || ''} onChange={(e) => set({ repeat_until: e.target.value || null })} />
+              </label>
+              <div style={{ ...fieldLabel, gridColumn: 'span 2' }}>
+                Also on these dates
+                <div style={{ display: 'flex', gap: '6px', alignItems: 'center', flexWrap: 'wrap' }}>
+                  {draft.repeat_dates.map((d) => (
+                    <span key={d} className="payroll-action-btn" style={{ cursor: 'default' }}>
+                      {d}{' '}
+                      <button
+                        type="button"
+                        onClick={() => set({ repeat_dates: draft.repeat_dates.filter((x) => x !== d) })}
+                        style={{ background: 'none', border: 'none', cursor: 'pointer', color: 'inherit', padding: 0 }}
+                        aria-label={`Remove ${d}`}
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                  <input className="input" type="date" value={newDate} onChange={(e) => setNewDate(e.target.value)} style={{ width: 'auto' }} />
+                  <button
+                    type="button"
+                    className="payroll-action-btn"
+                    disabled={!newDate || draft.repeat_dates.includes(newDate)}
+                    onClick={() => {
+                      set({ repeat_dates: [...draft.repeat_dates, newDate].sort() });
+                      setNewDate('');
+                    }}
+                  >
+                    Add date
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            <div className="payroll-modal-footer">
+              <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>{describeRecurrence(draft)}</div>
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <button type="button" className="payroll-action-btn" onClick={() => setDraft(null)} disabled={saveMutation.isPending}>
+                  Cancel
+                </button>
+                <button type="button" className="payroll-action-btn is-primary" disabled={saveMutation.isPending || !canSave} onClick={save}>
+                  {saveMutation.isPending ? 'Saving…' : 'Save template'}
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="payroll-modal-footer">
+            <span />
+            <button type="button" className="payroll-action-btn is-primary" onClick={() => setDraft(emptyEntryTemplate(userId, isDemo))}>
+              + Add template
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <div style={{ marginTop: '12px', padding: '10px', borderRadius: '6px', backgroundColor: 'rgba(220,53,69,0.10)', color: 'var(--error-color)', fontSize: '12px' }}>
+            {error.message || 'Failed to save template.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import {
+  CHECKLIST_RESULT_LABELS,
+  CHECKLIST_RESULTS,
+  ChecklistResult,
+  FormDefinition,
+  FormField,
+} from '../utils/forms';
+
+const errorStyle: React.CSSProperties = { marginTop: '4px', fontSize: '12px', color: 'var(--error-color)' };
+const helpStyle: React.CSSProperties = { marginTop: '4px', fontSize: '12px', color: 'var(--text-tertiary)' };
+
+function FieldInput({ field, value, onChange }: { field: FormField; value: unknown; onChange: (v: unknown) => void }) {
+  switch (field.type) {
+    case 'textarea':
+      return <textarea className="input" rows={4} value={String(value ?? '')} maxLength={field.maxLength} onChange={(e) => onChange(e.target.value)} />;
+    case 'number':
+      return (
+        <input
+          type="number"
+          className="input"
+          step="any"
+          min={field.min}
+          max={field.max}
+          value={value === undefined || value === null ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value)}
+        />
+      );
+    case 'date':
+      return <input type="date" className="input" value={String(value ?? '')} onChange={(e) => onChange(e.target.value)} />;
+    case 'select':
+      return (
+        <select className="input" value={String(value ?? '')} onChange={(e) => onChange(e.target.value)}>
+          <option value="">Select…</option>
+          {(field.options ?? []).map((o) => (
+            <option key={o.value} value={o.value}>{o.label}</option>
+          ))}
+        </select>
+      );
+    case 'multiselect': {
+      const selected = new Set(Array.isArray(value) ? (value as string[]) : []);
+      return (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px 16px' }}>
+          {(field.options ?? []).map((o) => (
+            <label key={o.value} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '14px', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={selected.has(o.value)}
+                onChange={(e) => {
+                  const next = new Set(selected);
+                  if (e.target.checked) next.add(o.value); else next.delete(o.value);
+                  onChange(Array.from(next));
+                }}
+              />
+              {o.label}
+            </label>
+          ))}
+        </div>
+      );
+    }
+    case 'checkbox':
+      return (
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '14px', cursor: 'pointer' }}>
+          <input type="checkbox" checked={value === true} onChange={(e) => onChange(e.target.checked)} style={{ width: '18px', height: '18px', accentColor: '#4ecdc4' }} />
+          Yes
+        </label>
+      );
+    case 'checklist': {
+      const answers = (value && typeof value === 'object' ? value : {}) as Record<string, ChecklistResult>;
+      return (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+          <tbody>
+            {(field.options ?? []).map((item) => (
+              <tr key={item.value} style={{ borderBottom: '1px solid var(--border-color)' }}>
+                <td style={{ padding: '6px 4px' }}>{item.label}</td>
+                {CHECKLIST_RESULTS.map((r) => (
+                  <td key={r} style={{ padding: '6px 4px', whiteSpace: 'nowrap', width: '80px' }}>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '4px', cursor: 'pointer', color: r === 'defect' && answers[item.value] === r ? 'var(--error-color)' : undefined }}>
+                      <input
+                        type="radio"
+                        name={`${field.name}-${item.value}`}
+                        checked={answers[item.value] === r}
+                        onChange={() => onChange({ ...answers, [item.value]: r })}
+                      />
+                      {CHECKLIST_RESULT_LABELS[r]}
+                    </label>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      );
+    }
+    default:
+      return <input type="text" className="input" value={String(value ?? '')} maxLength={field.maxLength} onChange={(e) => onChange(e.target.value)} />;
+  }
+}
+
+/** Inputs for every field of a form definition (Forms page → New form). */
+export default function FormFieldInputs({
+  definition,
+  values,
+  errors,
+  onChange,
+}: {
+  definition: FormDefinition;
+  values: Record<string, unknown>;
+  errors: Record<string, string>;
+  onChange: (name: string, value: unknown) => void;
+}) {
+  return (
+    <>
+      {definition.fields.map((field) => (
+        <div key={field.name} className="form-group">
+          <label className="label">{field.label}{field.required ? ' *' : ''}</label>
+          <FieldInput field={field} value={values[field.name]} onChange={(v) => onChange(field.name, v)} />
+          {field.help && <div style={helpStyle}>{field.help}</div>}
+          {errors[field.name] && <div style={errorStyle}>{errors[field.name]}</div>}
+        </div>
+      ))}
+    </>
+  );
+}
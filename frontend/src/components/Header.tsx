@@ -1,30 +1,53 @@
 import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '../context/AuthContext';
-import { useDemoMode } from '../context/DemoModeContext';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { projectsService, customersService, timeEntriesService } from '../services/supabaseServices';
+import { useTimer } from '../context/TimerContext';
+import { useQuery } from '@tanstack/react-query';
+import { projectsService, customersService, costCodesService } from '../services/supabaseServices';
 import { useNavigate } from 'react-router-dom';
 import SearchableSelect, { SearchableSelectRef } from './SearchableSelect';
 import { getProjectHeaderFields } from '../utils/serviceTickets';
 import WhatsNewModal from './WhatsNewModal';
-
-interface HeaderProps {
-  onTimerStart: (description: string, projectId?: string) => void;
-  onTimerStop: () => void;
-  timerRunning: boolean;
-  timerDisplay: string;
-  currentEntry: { description: string; projectId?: string; projectName?: string } | null;
-  timerStartTime: number | null;
-}
-
-export default function Header({ onTimerStart, onTimerStop, timerRunning, timerDisplay, currentEntry, timerStartTime }: HeaderProps) {
+import { formatTimerDisplay, timerElapsedMs } from '../utils/timers';
+import { costCodeLabel, costCodeRequired, costCodeTree } from '../utils/costCodes';
+
+const timerIconButtonStyle: React.CSSProperties = {
+  backgroundColor: 'var(--bg-secondary)',
+  color: 'var(--text-primary)',
+  border: '1px solid var(--border-color)',
+  borderRadius: '50%',
+  width: '32px',
+  height: '32px',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  cursor: 'pointer',
+  fontSize: '13px',
+  flexShrink: 0,
+};
+
+export default function Header() {
   const { user, isDeveloper, effectiveRole, setEffectiveRole } = useAuth();
-  const { isDemoMode } = useDemoMode();
+  const {
+    timers,
+    activeTimerId,
+    selectTimer,
+    now,
+    timerRunning,
+    timerDisplay,
+    currentEntry,
+    startTimer,
+    stopTimer,
+    pauseTimer,
+    resumeTimer,
+    updateTimerDetails,
+  } = useTimer();
+  // The header shows the active timer, running or paused
+  const hasTimer = !!currentEntry;
   const navigate = useNavigate();
-  const queryClient = useQueryClient();
   const [description, setDescription] = useState('');
   const [selectedCustomerId, setSelectedCustomerId] = useState<string>('');
   const [selectedProjectId, setSelectedProjectId] = useState<string>('');
+  const [costCodeId, setCostCodeId] = useState('');
   const [location, setLocation] = useState(''); // Work location for service tickets
   const [approver, setApprover] = useState('');
   const [poAfe, setPoAfe] = useState('');
@@ -44,83 +67,41 @@ export default function Header({ onTimerStart, onTimerStop, timerRunning, timerD
     queryFn: () => customersService.getAll(),
   });
 
-  // Filter projects based on selected customer (or current entry's project when timer running)
-  const effectiveCustomerId = selectedCustomerId || (timerRunning && currentEntry?.projectId && projects?.find((p: any) => p.id === currentEntry.projectId)?.customer_id);
+  const { data: costCodes = [] } = useQuery({
+    queryKey: ['projectCostCodes'],
+    queryFn: () => costCodesService.getAll(),
+  });
+
+  // Filter projects based on selected customer (or current entry's project when a timer is shown)
+  const effectiveCustomerId = selectedCustomerId || (hasTimer && currentEntry?.projectId && projects?.find((p: any) => p.id === currentEntry.projectId)?.customer_id);
   const filteredProjects = projects?.filter((project: any) => {
     return !effectiveCustomerId || project.customer_id === effectiveCustomerId;
   }) || [];
 
-  // When timer is running and we have a project but our state is empty (e.g. started from WeekView), populate from project
+  // Load the active timer's details into row 2 when it changes (started on another device, or picked
+  // from the timer list). Timers without details (moved from the old local timer) use the project's.
   useEffect(() => {
-    if (timerRunning && currentEntry?.projectId && projects && (!location && !poAfe && !approver)) {
-      const project = projects.find((p: any) => p.id === currentEntry.projectId);
-      if (project) {
-        const fields = getProjectHeaderFields(project);
-        setLocation(project.location || '');
-        setApprover(fields.approver);
-        setPoAfe(fields.poAfe);
-        setCc(fields.cc);
-        setOther(fields.other);
-      }
+    if (!currentEntry) {
+      resetForm();
+      return;
     }
-  }, [timerRunning, currentEntry?.projectId, projects]);
-
-  const createTimeEntryMutation = useMutation({
-    mutationFn: async (data: any) => {
-      const { timeEntriesService } = await import('../services/supabaseServices');
-      if (!user) throw new Error('Not authenticated');
-      const customerId = data.projectId && projects
-        ? projects.find((p: any) => p.id === data.projectId)?.customer_id ?? null
-        : null;
-      const entryData = {
-        user_id: user.id,
-        project_id: data.projectId || null,
-        customer_id: customerId,
-        date: data.date,
-        start_time: data.startTime || null,
-        end_time: data.endTime || null,
-        hours: parseFloat(data.hours),
-        rate: parseFloat(data.rate || 0),
-        billable: data.billable !== undefined ? data.billable : true,
-        rate_type: data.rateType || 'Shop Time',
-        description: data.description || null,
-        location: data.location || null, // Work location for service tickets
-        approver: data.approver?.trim() || null,
-        po_afe: data.po_afe?.trim() || null,
-        cc: data.cc?.trim() || null,
-        other: data.other?.trim() || null,
-        is_demo: isDemoMode, // Mark as demo entry if in demo mode
-      };
-      
-      return await timeEntriesService.create(entryData);
-    },
-    onSuccess: async (data) => {
-      const { serviceTicketsService } = await import('../services/supabaseServices');
-      if (data?.customer_id) {
-        await serviceTicketsService.syncTicketHeaderFromTimeEntry({
-          date: data.date,
-          userId: data.user_id,
-          customerId: data.customer_id,
-          projectId: data.project_id,
-          location: data.location,
-          approver: data.approver,
-          po_afe: data.po_afe,
-          cc: data.cc,
-          other: data.other,
-          isDemo: isDemoMode,
-        });
-      }
-      queryClient.invalidateQueries({ queryKey: ['timeEntries'] });
-      queryClient.invalidateQueries({ queryKey: ['existingServiceTickets'] });
-    },
-  });
-
-
-
-  const handleStart = () => {
-    if (timerRunning) {
-      // Stop timer
-      onTimerStop();
+    const project = currentEntry.projectId ? projects?.find((p: any) => p.id === currentEntry.projectId) : undefined;
+    const hasDetails = currentEntry.location || currentEntry.approver || currentEntry.poAfe || currentEntry.cc || currentEntry.other;
+    const fields = hasDetails
+      ? { approver: currentEntry.approver || '', poAfe: currentEntry.poAfe || '', cc: currentEntry.cc || '', other: currentEntry.other || '' }
+      : getProjectHeaderFields(project);
+    setCostCodeId(currentEntry.costCodeId || '');
+    setLocation((hasDetails ? currentEntry.location : project?.location) || '');
+    setApprover(fields.approver);
+    setPoAfe(fields.poAfe);
+    setCc(fields.cc);
+    setOther(fields.other);
+    setRateType(currentEntry.rateType || 'Shop Time');
+  }, [activeTimerId, !!projects]);
+
+  const handleStart = async () => {
+    if (hasTimer) {
+      handleStop();
       return;
     }
 
@@ -137,14 +118,27 @@ export default function Header({ onTimerStart, onTimerStop, timerRunning, timerD
       alert('Please select a project');
       return;
     }
+    if (!costCodeId && costCodeRequired(projects?.find((p: any) => p.id === selectedProjectId), projectCostCodes)) {
+      alert('This project requires a phase / cost code');
+      return;
+    }
 
-    onTimerStart(description.trim(), selectedProjectId || undefined);
+    try {
+      await startTimer(description.trim(), selectedProjectId || undefined, { costCodeId, rateType, location, approver, poAfe, cc, other });
+      setDescription('');
+      setSelectedCustomerId('');
+      setSelectedProjectId('');
+    } catch (error: any) {
+      console.error('Error starting timer:', error);
+      alert(error instanceof Error ? error.message : 'Failed to start timer');
+    }
   };
 
   const handleCustomerChange = (customerId: string) => {
     setSelectedCustomerId(customerId);
     // Clear project selection when customer changes
     setSelectedProjectId('');
+    setCostCodeId('');
     setLocation('');
     setApprover('');
     setPoAfe('');
@@ -159,6 +153,7 @@ export default function Header({ onTimerStart, onTimerStop, timerRunning, timerD
 
   const handleProjectChange = async (projectId: string) => {
     setSelectedProjectId(projectId);
+    setCostCodeId('');
     
     if (!projectId) {
     setLocation('');
@@ -179,122 +174,46 @@ export default function Header({ onTimerStart, onTimerStop, timerRunning, timerD
   setOther(fields.other);
   };
 
-  const handleStop = async () => {
-    if (!currentEntry) {
-      onTimerStop();
-      return;
-    }
-    
-    // Get elapsed time from display (format: H:MM:SS)
-    const parts = timerDisplay.split(':');
-    const hours = parseFloat(parts[0]) + parseFloat(parts[1]) / 60 + parseFloat(parts[2]) / 3600;
-    
-    if (hours === 0) {
-      onTimerStop();
-      return;
-    }
-    
-    // Get project rate - fetch if not already loaded
-    let projectRate = 0;
-    let projectName = '';
-    
-    if (currentEntry.projectId && projects) {
-      const project = projects.find((p: any) => p.id === currentEntry.projectId);
-      if (project) {
-        projectRate = project.rate || 0;
-        projectName = project.name;
-      }
-    }
-
-    // Get project data if needed
-    if (!projects && currentEntry.projectId) {
-      try {
-        const project = await projectsService.getById(currentEntry.projectId);
-        projectRate = project.rate || 0;
-        projectName = project.name;
-      } catch (e) {
-        // Project not found, use default rate
-      }
-    }
-
-    // Create time entry using actual timer start time
-    const now = new Date();
-    let startTime: Date;
-    let endTime = new Date();
-    
-    if (timerStartTime) {
-      // Use the actual start time from when timer began
-      startTime = new Date(timerStartTime);
-      // End time is now
-      endTime = new Date();
-    } else {
-      // Fallback: calculate backwards from current time
-      startTime = new Date();
-      startTime.setHours(startTime.getHours() - Math.floor(hours));
-      startTime.setMinutes(startTime.getMinutes() - Math.round((hours % 1) * 60));
-      startTime.setSeconds(0, 0);
-    }
-
-    // Format date in local timezone (YYYY-MM-DD) to match calendar display
-    const year = startTime.getFullYear();
-    const month = String(startTime.getMonth() + 1).padStart(2, '0');
-    const day = String(startTime.getDate()).padStart(2, '0');
-    const dateStr = `${year}-${month}-${day}`;
+  const resetForm = () => {
+    setDescription('');
+    setSelectedCustomerId('');
+    setSelectedProjectId('');
+    setCostCodeId('');
+    setLocation('');
+    setApprover('');
+    setPoAfe('');
+    setCc('');
+    setOther('');
+    setRateType('Shop Time');
+  };
 
-    // No project = internal time, not billable
-    const isBillable = currentEntry.projectId ? true : false;
-    
+  const handleStop = async () => {
     try {
-      await createTimeEntryMutation.mutateAsync({
-        projectId: currentEntry.projectId || null,
-        date: dateStr, // Use date from startTime to ensure correct day
-        startTime: startTime.toISOString(),
-        endTime: endTime.toISOString(),
-        hours: hours,
-        rate: projectRate,
-        billable: isBillable,
-        rateType: isBillable ? rateType : 'Internal',
-        description: currentEntry.description,
-        location: location || null, // Include location for service tickets
-        approver: approver?.trim() || null,
-        po_afe: poAfe?.trim() || null,
-        cc: cc?.trim() || null,
-        other: other?.trim() || null,
-      });
-
-      // Stop timer after saving
-      onTimerStop();
-
-      // Reset form
-      setDescription('');
-      setSelectedCustomerId('');
-      setSelectedProjectId('');
-      setLocation('');
-      setApprover('');
-      setPoAfe('');
-      setCc('');
-      setOther('');
-      setRateType('Shop Time');
-      
+      // Saves the time from the timer's start to now (paused time left out, one entry per day) and removes the timer
+      const entries = await stopTimer();
+      resetForm();
       // Navigate to week view (which will show today's week)
-      // The entry will appear in the correct time slot
-      navigate('/calendar');
+      // The entries will appear in the correct time slots
+      if (entries.length > 0) navigate('/calendar');
     } catch (error: any) {
-      console.error('Error creating time entry:', error);
+      console.error('Error saving timer:', error);
       alert(error instanceof Error ? error.message : 'Failed to save time entry');
-      // Still stop the timer
-      onTimerStop();
     }
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && !e.shiftKey && !timerRunning) {
+    if (e.key === 'Enter' && !e.shiftKey && !hasTimer) {
       e.preventDefault();
       handleStart();
     }
   };
 
-  const showSecondRow = selectedCustomerId || (timerRunning && currentEntry?.projectId);
+  const showSecondRow = selectedCustomerId || (hasTimer && currentEntry?.projectId);
+  const detailsProjectId = hasTimer ? currentEntry?.projectId : selectedProjectId;
+  const projectCostCodes = costCodes.filter((c) => c.project_id === detailsProjectId);
+  const costCodeOptions = costCodeTree(projectCostCodes).filter(({ costCode }) => costCode.active || costCode.id === costCodeId);
+  const costCodeIsRequired = costCodeRequired(projects?.find((p: any) => p.id === detailsProjectId), projectCostCodes);
+  const otherTimers = timers.filter((t) => t.id !== activeTimerId);
 
   return (
     <div style={{
@@ -313,7 +232,7 @@ export default function Header({ onTimerStart, onTimerStop, timerRunning, timerD
       }}>
         {/* Center - Timer Input: grows to fill space on larger windows */}
         <div style={{ flex: 1, minWidth: 0, position: 'relative', marginRight: '20px' }}>
-          {timerRunning && currentEntry ? (
+          {currentEntry ? (
             <div style={{
               padding: '10px 15px',
               borderRadius: '6px',
@@ -322,7 +241,10 @@ export default function Header({ onTimerStart, onTimerStop, timerRunning, timerD
               fontSize: '14px',
               color: 'var(--text-primary)',
             }}>
-              <div style={{ fontWeight: '500' }}>{currentEntry.description}</div>
+              <div style={{ fontWeight: '500' }}>
+                {currentEntry.description}
+                {!timerRunning && <span style={{ marginLeft: '8px', fontSize: '12px', fontWeight: 400, color: 'var(--text-tertiary)' }}>Paused</span>}
+              </div>
               {currentEntry.projectName && (
                 <div style={{ fontSize: '12px', color: 'var(--text-secondary)', marginTop: '2px' }}>
                   {currentEntry.projectName}
@@ -353,7 +275,7 @@ export default function Header({ onTimerStart, onTimerStop, timerRunning, timerD
         {/* Right side - Customer selector, timer display, start/stop, user */}
         <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginLeft: '20px' }}>
           {/* Customer Selector */}
-          {!timerRunning && (
+          {!hasTimer && (
             <SearchableSelect
               options={customers?.map((customer: any) => ({
                 value: customer.id,
@@ -384,20 +306,30 @@ export default function Header({ onTimerStart, onTimerStop, timerRunning, timerD
             {timerDisplay}
           </div>
 
+          {hasTimer && (
+            <button
+              onClick={() => (timerRunning ? pauseTimer() : resumeTimer()).catch((error) => alert(error instanceof Error ? error.message : 'Failed to update timer'))}
+              style={timerIconButtonStyle}
+              title={timerRunning ? 'Pause timer' : 'Resume timer'}
+            >
+              {timerRunning ? '⏸' : '▶'}
+            </button>
+          )}
+
           {(() => {
-            const canStart = !timerRunning && description.trim() && selectedCustomerId && selectedProjectId;
+            const canStart = !hasTimer && description.trim() && selectedCustomerId && selectedProjectId;
             return (
           <button
             onClick={() => {
-              if (timerRunning) {
+              if (hasTimer) {
                 handleStop();
               } else {
                 handleStart();
               }
             }}
-            disabled={!timerRunning && !canStart}
+            disabled={!hasTimer && !canStart}
             style={{
-              backgroundColor: timerRunning ? 'var(--error-color)' : 'var(--primary-color)',
+              backgroundColor: hasTimer ? 'var(--error-color)' : 'var(--primary-color)',
               color: 'white',
               border: 'none',
               borderRadius: '50%',
@@ -406,14 +338,14 @@ export default function Header({ onTimerStart, onTimerStop, timerRunning, timerD
               display: 'flex',
               alignItems: 'center',
               justifyContent: 'center',
-              cursor: (!timerRunning && !canStart) ? 'not-allowed' : 'pointer',
+              cursor: (!hasTimer && !canStart) ? 'not-allowed' : 'pointer',
               fontSize: '18px',
               transition: 'all 0.2s ease',
-              opacity: (!timerRunning && !canStart) ? 0.5 : 1,
+              opacity: (!hasTimer && !canStart) ? 0.5 : 1,
               boxShadow: 'var(--shadow-sm)',
             }}
             onMouseEnter={(e) => {
-              if (timerRunning || canStart) {
+              if (hasTimer || canStart) {
                 e.currentTarget.style.boxShadow = 'var(--shadow-md)';
                 e.currentTarget.style.transform = 'translateY(-2px)';
               }
@@ -422,13 +354,19 @@ export default function Header({ onTimerStart, onTimerStop, timerRunning, timerD
               e.currentTarget.style.boxShadow = 'var(--shadow-sm)';
               e.currentTarget.style.transform = 'translateY(0)';
             }}
-            title={timerRunning ? 'Stop timer' : !canStart ? 'Select customer and project to start' : 'Start timer'}
+            title={hasTimer ? 'Stop timer and save the time entry' : !canStart ? 'Select customer and project to start' : 'Start timer'}
           >
-            {timerRunning ? '⏹' : '▶'}
+            {hasTimer ? '⏹' : '▶'}
           </button>
             );
           })()}
 
+          {hasTimer && (
+            <button onClick={() => selectTimer(null)} style={timerIconButtonStyle} title="Start another timer (this one keeps going)">
+              +
+            </button>
+          )}
+
           <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
           {/* Developer Role Switcher */}
           {isDeveloper && (
@@ -538,6 +476,55 @@ export default function Header({ onTimerStart, onTimerStop, timerRunning, timerD
         </div>
       </div>
 
+      {/* Other running and paused timers - click one to show it above */}
+      {otherTimers.length > 0 && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '0 24px 10px 24px', flexWrap: 'wrap' }}>
+          <span style={{ fontSize: '12px', color: 'var(--text-secondary)', fontWeight: '500', minWidth: '50px' }}>
+            Timers:
+          </span>
+          {otherTimers.map((timer) => {
+            const running = timer.status === 'running';
+            const project = timer.project_id ? projects?.find((p: any) => p.id === timer.project_id) : undefined;
+            return (
+              <div
+                key={timer.id}
+                onClick={() => selectTimer(timer.id)}
+                title={project ? `${timer.description} · ${project.name}` : timer.description}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px',
+                  padding: '4px 6px 4px 10px',
+                  borderRadius: '6px',
+                  border: running ? '1px solid rgba(239, 68, 68, 0.2)' : '1px solid var(--border-color)',
+                  backgroundColor: running ? 'rgba(239, 68, 68, 0.06)' : 'var(--bg-secondary)',
+                  fontSize: '12px',
+                  cursor: 'pointer',
+                  maxWidth: '280px',
+                }}
+              >
+                <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', color: 'var(--text-primary)' }}>
+                  {timer.description || project?.name || 'Timer'}
+                </span>
+                <span style={{ fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace', fontWeight: 600, color: running ? 'var(--error-color)' : 'var(--text-tertiary)' }}>
+                  {formatTimerDisplay(timerElapsedMs(timer, now))}
+                </span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    (running ? pauseTimer(timer.id) : resumeTimer(timer.id)).catch((error) => alert(error instanceof Error ? error.message : 'Failed to update timer'));
+                  }}
+                  style={{ ...timerIconButtonStyle, width: '24px', height: '24px', fontSize: '11px' }}
+                  title={running ? 'Pause' : 'Resume'}
+                >
+                  {running ? '⏸' : '▶'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Row 2: Project, Location, PO/AFE/CC (Cost Center) - only when customer is selected */}
       {showSecondRow && (
         <div style={{
@@ -558,20 +545,50 @@ export default function Header({ onTimerStart, onTimerStop, timerRunning, timerD
               value: project.id,
               label: project.project_number ? `${project.project_number} - ${project.name}` : project.name,
             }))}
-            value={timerRunning && currentEntry?.projectId ? currentEntry.projectId : selectedProjectId}
-            onChange={timerRunning ? () => {} : handleProjectChange}
+            value={hasTimer && currentEntry?.projectId ? currentEntry.projectId : selectedProjectId}
+            onChange={hasTimer ? () => {} : handleProjectChange}
             placeholder="Search projects..."
             emptyOption={{ value: '', label: 'Select Project' }}
             style={{ width: '220px' }}
           />
 
+          {/* Phase / cost code - when the project has codes */}
+          {detailsProjectId && costCodeOptions.length > 0 && (
+            <select
+              value={costCodeId}
+              onChange={(e) => {
+                setCostCodeId(e.target.value);
+                if (hasTimer) updateTimerDetails({ costCodeId: e.target.value || null });
+              }}
+              title="Phase / cost code"
+              style={{
+                width: '180px',
+                padding: '8px 10px',
+                border: `1px solid ${costCodeIsRequired && !costCodeId ? 'var(--warning-color)' : 'var(--border-color)'}`,
+                borderRadius: '6px',
+                fontSize: '13px',
+                backgroundColor: 'var(--bg-secondary)',
+                color: 'var(--text-primary)',
+              }}
+            >
+              <option value="">{costCodeIsRequired ? 'Select a cost code' : 'No cost code'}</option>
+              {costCodeOptions.map(({ costCode, depth }) => (
+                <option key={costCode.id} value={costCode.id}>
+                  {'\u00a0\u00a0'.repeat(depth)}
+                  {costCodeLabel(costCode)}
+                </option>
+              ))}
+            </select>
+          )}
+
           {/* Location input */}
-          {(selectedProjectId || (timerRunning && currentEntry?.projectId)) && (
+          {(selectedProjectId || (hasTimer && currentEntry?.projectId)) && (
             <input
               type="text"
               placeholder="Work Location..."
               value={location}
               onChange={(e) => setLocation(e.target.value)}
+              onBlur={() => hasTimer && updateTimerDetails({ location })}
               style={{
                 width: '160px',
                 padding: '8px 10px',
@@ -585,13 +602,14 @@ export default function Header({ onTimerStart, onTimerStop, timerRunning, timerD
           )}
 
           {/* PO/AFE/CC (Cost Center), Approver, Coding, Other (separate fields) - when project selected or timer running */}
-          {(selectedProjectId || (timerRunning && currentEntry?.projectId)) && (
+          {(selectedProjectId || (hasTimer && currentEntry?.projectId)) && (
             <>
               <input
                 type="text"
                 placeholder="PO/AFE/CC..."
                 value={poAfe}
                 onChange={(e) => setPoAfe(e.target.value)}
+                onBlur={() => hasTimer && updateTimerDetails({ poAfe })}
                 style={{ width: '140px', padding: '8px 10px', border: '1px solid var(--border-color)', borderRadius: '6px', fontSize: '13px', backgroundColor: 'var(--bg-secondary)', color: 'var(--text-primary)' }}
               />
               <input
@@ -599,6 +617,7 @@ export default function Header({ onTimerStart, onTimerStop, timerRunning, timerD
                 placeholder="Approver..."
                 value={approver}
                 onChange={(e) => setApprover(e.target.value)}
+                onBlur={() => hasTimer && updateTimerDetails({ approver })}
                 style={{ width: '100px', padding: '8px 10px', border: '1px solid var(--border-color)', borderRadius: '6px', fontSize: '13px', backgroundColor: 'var(--bg-secondary)', color: 'var(--text-primary)' }}
               />
               <input
@@ -606,6 +625,7 @@ export default function Header({ onTimerStart, onTimerStop, timerRunning, timerD
                 placeholder="CC..."
                 value={cc}
                 onChange={(e) => setCc(e.target.value)}
+                onBlur={() => hasTimer && updateTimerDetails({ cc })}
                 style={{ width: '90px', padding: '8px 10px', border: '1px solid var(--border-color)', borderRadius: '6px', fontSize: '13px', backgroundColor: 'var(--bg-secondary)', color: 'var(--text-primary)' }}
               />
               <input
@@ -613,11 +633,15 @@ export default function Header({ onTimerStart, onTimerStop, timerRunning, timerD
                 placeholder="Other..."
                 value={other}
                 onChange={(e) => setOther(e.target.value)}
+                onBlur={() => hasTimer && updateTimerDetails({ other })}
                 style={{ width: '100px', padding: '8px 10px', border: '1px solid var(--border-color)', borderRadius: '6px', fontSize: '13px', backgroundColor: 'var(--bg-secondary)', color: 'var(--text-primary)' }}
               />
               <select
                 value={rateType}
-                onChange={(e) => setRateType(e.target.value)}
+                onChange={(e) => {
+                  setRateType(e.target.value);
+                  if (hasTimer) updateTimerDetails({ rateType: e.target.value });
+                }}
                 style={{ width: '130px', padding: '8px 10px', border: '1px solid var(--border-color)', borderRadius: '6px', fontSize: '13px', backgroundColor: 'var(--bg-secondary)', color: 'var(--text-primary)' }}
               >
                 <option value="Shop Time">Shop Time</option>
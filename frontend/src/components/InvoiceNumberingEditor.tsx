@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { invoiceNumberingService } from '../services/supabaseServices';
+import { DEFAULT_INVOICE_NUMBERING, formatInvoiceNumber } from '../utils/invoiceDocument';
+
+const fieldLabel: React.CSSProperties = { display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '12px', color: 'var(--text-secondary)' };
+
+/**
+ * Invoices → Settings → Invoice numbers: the format and next number for invoices generated in the
+ * app, plus the GST number and footer printed on them. Lowering the next number is allowed (e.g.
+ * to line up with QuickBooks); numbers already given to a batch are skipped when invoices are generated.
+ */
+export default function InvoiceNumberingEditor() {
+  const queryClient = useQueryClient();
+  const { data: saved, isLoading } = useQuery({
+    queryKey: ['invoiceNumbering'],
+    queryFn: () => invoiceNumberingService.get(),
+  });
+
+  const [form, setForm] = useState({ prefix: '', next_number: '', min_digits: '', gst_registration: '', footer_note: '' });
+  const [savedNote, setSavedNote] = useState(false);
+  useEffect(() => {
+    const s = saved ?? DEFAULT_INVOICE_NUMBERING;
+    setForm({
+      prefix: s.prefix,
+      next_number: String(s.next_number),
+      min_digits: String(s.min_digits),
+      gst_registration: s.gst_registration ?? '',
+      footer_note: s.footer_note ?? '',
+    });
+  }, [saved]);
+  const set = (updates: Partial<typeof form>) => {
+    setSavedNote(false);
+    setForm((prev) => ({ ...prev, ...updates }));
+  };
+
+  const nextNumber = Math.floor(Number(form.next_number));
+  const minDigits = Math.floor(Number(form.min_digits));
+  const valid = nextNumber >= 1 && minDigits >= 1 && minDigits <= 10;
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      if (!valid) throw new Error('The next number must be 1 or more, and digits between 1 and 10.');
+      return invoiceNumberingService.save({
+        prefix: form.prefix,
+        next_number: nextNumber,
+        min_digits: minDigits,
+        gst_registration: form.gst_registration,
+        footer_note: form.footer_note,
+      });
+    },
+    onSuccess: () => {
+      setSavedNote(true);
+      queryClient.invalidateQueries({ queryKey: ['invoiceNumbering'] });
+    },
+  });
+
+  if (isLoading) return <div className="payroll-muted">Loading…</div>;
+
+  return (
+    <div className="ionex-settings-card" style={{ padding: '16px', maxWidth: '640px' }}>
+      <p style={{ margin: '0 0 12px', fontSize: '13px', color: 'var(--text-secondary)' }}>
+        Numbers for invoices made with <strong>Generate invoice</strong> on the Invoiced tab. Each new invoice takes the next
+        number not already given to a batch; regenerating a batch's invoice keeps its number.
+      </p>
+      <div style={{ display: 'grid', gap: '10px', gridTemplateColumns: '1fr 1fr 1fr' }}>
+        <label style={fieldLabel}>
+          Prefix
+          <input className="input" value={form.prefix} onChange={(e) => set({ prefix: e.target.value })} placeholder="INV-" />
+        </label>
+        <label style={fieldLabel}>
+          Next number
+          <input className="input" type="number" min={1} value={form.next_number} onChange={(e) => set({ next_number: e.target.value })} />
+        </label>
+        <label style={fieldLabel}>
+          Minimum digits
+          <input className="input" type="number" min={1} max={10} value={form.min_digits} onChange={(e) => set({ min_digits: e.target.value })} />
+        </label>
+        <div style={{ gridColumn: '1 / -1', fontSize: '13px' }}>
+          Next invoice: <strong>{valid ? formatInvoiceNumber(form.prefix, nextNumber, minDigits) : '—'}</strong>
+        </div>
+        <label style={{ ...fieldLabel, gridColumn: '1 / -1' }}>
+          GST/HST registration number
+          <input className="input" value={form.gst_registration} onChange={(e) => set({ gst_registration: e.target.value })} placeholder="123456789 RT0001" />
+        </label>
+        <label style={{ ...fieldLabel, gridColumn: '1 / -1' }}>
+          Footer (payment instructions)
+          <textarea
+            className="input"
+            rows={3}
+            value={form.footer_note}
+            onChange={(e) => set({ footer_note: e.target.value })}
+            style={{ fontFamily: 'inherit', resize: 'vertical' }}
+          />
+        </label>
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginTop: '12px' }}>
+        <button type="button" className="payroll-action-btn is-primary" disabled={saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+          {saveMutation.isPending ? 'Saving…' : 'Save'}
+        </button>
+        {savedNote && <span style={{ fontSize: '12px', color: 'var(--success-color)' }}>Saved.</span>}
+        {saveMutation.error && <span style={{ fontSize: '12px', color: 'var(--error-color)' }}>{saveMutation.error.message}</span>}
+      </div>
+    </div>
+  );
+}
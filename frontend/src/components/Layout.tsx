@@ -1,14 +1,19 @@
 import { Outlet, useLocation } from 'react-router-dom';
 import Sidebar from './Sidebar';
 import Header from './Header';
-import { useTimer } from '../context/TimerContext';
+import OfflineStatus from './OfflineStatus';
+import TimerReviewModal from './TimerReviewModal';
 import { useAuth } from '../context/AuthContext';
+import { usePaySchedules } from '../hooks/usePaySchedules';
+import { useStatHolidays } from '../hooks/useStatHolidays';
 
 export default function Layout() {
-  const { timerRunning, timerDisplay, timerStartTime, currentEntry, startTimer, stopTimer } = useTimer();
   const { isAdmin, displayRole } = useAuth();
   const location = useLocation();
   const isCalendar = location.pathname === '/calendar' || location.pathname.startsWith('/calendar/');
+  // Pages compute pay periods (and stat holidays) on first render, so hold them until the stored rows are registered.
+  const { isLoading: isLoadingPaySchedules } = usePaySchedules();
+  const { isLoading: isLoadingStatHolidays } = useStatHolidays();
 
   return (
     <div
@@ -28,21 +33,16 @@ export default function Layout() {
         display: 'flex',
         flexDirection: 'column',
       }}>
-        <Header 
-          onTimerStart={startTimer}
-          onTimerStop={stopTimer}
-          timerRunning={timerRunning}
-          timerDisplay={timerDisplay}
-          currentEntry={currentEntry}
-          timerStartTime={timerStartTime}
-        />
+        <Header />
+        <OfflineStatus />
+        <TimerReviewModal />
         <div style={{
           flex: 1,
           minHeight: 0,
           overflow: isCalendar ? 'hidden' : 'auto',
           padding: isCalendar ? 0 : '20px',
         }}>
-          <Outlet />
+          {isLoadingPaySchedules || isLoadingStatHolidays ? null : <Outlet />}
         </div>
       </div>
     </div>
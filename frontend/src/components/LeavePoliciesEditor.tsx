@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { leavePoliciesService } from '../services/supabaseServices';
+import { formsApi } from '../services/backendServices';
+import { formatYmd } from '../utils/payPeriod';
+import { LEAVE_TYPE_LABELS, LEAVE_TYPES, LeaveType } from '../utils/leave';
+
+type PolicyDraft = {
+  enabled: boolean;
+  /** Accrual as a percentage of hours worked (UI); stored as accrual_per_hour = pct / 100. */
+  accrualPct: string;
+  maxBalance: string;
+  openingBalance: string;
+  balanceAsOf: string;
+  isPaid: boolean;
+};
+
+const emptyDraft = (leaveType: LeaveType): PolicyDraft => ({
+  enabled: false,
+  accrualPct: '0',
+  maxBalance: '',
+  openingBalance: '0',
+  balanceAsOf: formatYmd(new Date()),
+  isPaid: leaveType !== 'unpaid',
+});
+
+/**
+ * Employees → Edit: one accrual policy per leave type (Profile balances and time-off checks read
+ * these). Saved separately from the employee form since each row is its own leave_policies record.
+ */
+export default function LeavePoliciesEditor({ employeeId }: { employeeId: string }) {
+  const queryClient = useQueryClient();
+  const [drafts, setDrafts] = useState<Record<LeaveType, PolicyDraft>>(
+    () => Object.fromEntries(LEAVE_TYPES.map((t) => [t, emptyDraft(t)])) as Record<LeaveType, PolicyDraft>
+  );
+
+  const { data: policies } = useQuery({
+    queryKey: ['leavePolicies', employeeId],
+    queryFn: () => leavePoliciesService.getForEmployee(employeeId),
+  });
+  const { data: balances = [], error: balancesError } = useQuery({
+    queryKey: ['leaveBalances', employeeId],
+    queryFn: () => formsApi.getLeaveBalances(employeeId),
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (!policies) return;
+    setDrafts(Object.fromEntries(LEAVE_TYPES.map((t) => {
+      const p = policies.find((x) => x.leave_type === t);
+      return [t, p
+        ? {
+            enabled: true,
+            accrualPct: String(Math.round(Number(p.accrual_per_hour) * 100 * 1000) / 1000),
+            maxBalance: p.max_balance === null ? '' : String(p.max_balance),
+            openingBalance: String(p.opening_balance),
+            balanceAsOf: String(p.balance_as_of).slice(0, 10),
+            isPaid: p.is_paid,
+          }
+        : emptyDraft(t)];
+    })) as Record<LeaveType, PolicyDraft>);
+  }, [policies]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      for (const t of LEAVE_TYPES) {
+        const d = drafts[t];
+        const existing = policies?.some((p) => p.leave_type === t);
+        if (!d.enabled) {
+          if (existing) await leavePoliciesService.remove(employeeId, t);
+          continue;
+        }
+        await leavePoliciesService.upsert({
+          employee_id: employeeId,
+          leave_type: t,
+          accrual_per_hour: (parseFloat(d.accrualPct) || 0) / 100,
+          max_balance: d.maxBalance.trim() === '' ? null : parseFloat(d.maxBalance) || 0,
+          opening_balance: parseFloat(d.openingBalance) || 0,
+          balance_as_of: d.balanceAsOf || formatYmd(new Date()),
+          is_paid: t !== 'unpaid' && d.isPaid,
+        });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leavePolicies', employeeId] });
+      queryClient.invalidateQueries({ queryKey: ['leaveBalances'] });
+    },
+  });
+
+  const update = (t: LeaveType, patch: Partial<PolicyDraft>) =>
+    setDrafts((prev) => ({ ...prev, [t]: { ...prev[t], ...patch } }));
+
+  return (
+    <div style={{ marginTop: '24px', paddingTop: '16px', borderTop: '1px solid var(--border-color)' }}>
+      <h4 style={{ marginBottom: '8px', color: 'var(--text-secondary)', fontSize: '14px', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
+        Leave Policies
+      </h4>
+      <p style={{ fontSize: '12px', color: 'var(--text-tertiary)', marginBottom: '12px' }}>
+        Hours accrue as a percentage of hours worked after the "as of" date (4% ≈ two weeks a year full time). Accrual pauses while
+        the balance is at the cap. Approved time-off requests draw the balance down; paid leave is paid at the shop rate in Payroll.
+      </p>
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+        <thead>
+          <tr style={{ color: 'var(--text-secondary)', textAlign: 'left' }}>
+            <th style={{ padding: '4px' }}>Leave</th>
+            <th style={{ padding: '4px' }}>Accrual (%)</th>
+            <th style={{ padding: '4px' }}>Cap (h)</th>
+            <th style={{ padding: '4px' }}>Opening (h)</th>
+            <th style={{ padding: '4px' }}>As of</th>
+            <th style={{ padding: '4px' }}>Paid</th>
+            <th style={{ padding: '4px', textAlign: 'right' }}>Available</th>
+          </tr>
+        </thead>
+        <tbody>
+          {LEAVE_TYPES.map((t) => {
+            const d = drafts[t];
+            const balance = balances.find((b) => b.leave_type === t);
+            return (
+              <tr key={t} style={{ opacity: d.enabled ? 1 : 0.6 }}>
+                <td style={{ padding: '4px', whiteSpace: 'nowrap' }}>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '6px', margin: 0 }}>
+                    <input type="checkbox" checked={d.enabled} onChange={(e) => update(t, { enabled: e.target.checked })} />
+                    {LEAVE_TYPE_LABELS[t]}
+                  </label>
+                </td>
+                <td style={{ padding: '4px' }}>
+                  <input className="input" type="number" step="0.01" min="0" disabled={!d.enabled} value={d.accrualPct} onChange={(e) => update(t, { accrualPct: e.target.value })} />
+                </td>
+                <td style={{ padding: '4px' }}>
+                  <input className="input" type="number" step="0.5" min="0" disabled={!d.enabled} value={d.maxBalance} placeholder="No cap" onChange={(e) => update(t, { maxBalance: e.target.value })} />
+                </td>
+                <td style={{ padding: '4px' }}>
+                  <input className="input" type="number" step="0.5" disabled={!d.enabled} value={d.openingBalance} onChange={(e) => update(t, { openingBalance: e.target.value })} />
+                </td>
+                <td style={{ padding: '4px' }}>
+                  <input className="input" type="date" disabled={!d.enabled} value={d.balanceAsOf} onChange={(e) => update(t, { balanceAsOf: e.target.value })} />
+                </td>
+                <td style={{ padding: '4px', textAlign: 'center' }}>
+                  <input type="checkbox" disabled={!d.enabled || t === 'unpaid'} checked={t !== 'unpaid' && d.isPaid} onChange={(e) => update(t, { isPaid: e.target.checked })} />
+                </td>
+                <td style={{ padding: '4px', textAlign: 'right', whiteSpace: 'nowrap' }}>
+                  {balance ? `${balance.available.toFixed(2)}h` : '—'}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {balancesError && (
+        <div style={{ marginTop: '6px', fontSize: '12px', color: 'var(--text-tertiary)' }}>
+          Balances unavailable: {balancesError instanceof Error ? balancesError.message : 'backend not reachable'}
+        </div>
+      )}
+      {saveMutation.error && (
+        <div style={{ marginTop: '8px', padding: '10px', borderRadius: '6px', backgroundColor: 'rgba(220,53,69,0.10)', color: 'var(--error-color)', fontSize: '12px' }}>
+          {(saveMutation.error as Error).message || 'Failed to save leave policies.'}
+        </div>
+      )}
+      <button
+        type="button"
+        className="button button-secondary"
+        style={{ marginTop: '12px' }}
+        disabled={saveMutation.isPending}
+        onClick={() => saveMutation.mutate()}
+      >
+        {saveMutation.isPending ? 'Saving...' : 'Save Leave Policies'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { useOfflineSync } from '../hooks/useOfflineSync';
+import { useBackdropClose } from '../hooks/useBackdropClose';
+import type { QueuedChange } from '../services/offlineQueue';
+
+const TABLE_LABELS: Record<QueuedChange['table'], string> = {
+  time_entries: 'Time entry',
+  user_expenses: 'Expense',
+};
+
+const OP_LABELS: Record<QueuedChange['op'], string> = {
+  create: 'added',
+  update: 'edited',
+  delete: 'deleted',
+};
+
+/** Fields shown side by side in the conflict dialog, when the change touched them. */
+const COMPARE_FIELDS = ['date', 'start_time', 'end_time', 'hours', 'description', 'rate_type', 'billable', 'location', 'po_afe', 'amount', 'gst', 'quantity', 'expense_date', 'notes', 'is_billable'];
+
+function describe(change: QueuedChange): string {
+  const row = { ...(change.snapshot ?? {}), ...change.payload };
+  const when = row.date || row.expense_date || '';
+  const what = row.description || '';
+  return [when, what].filter(Boolean).join(' · ') || change.recordId.slice(0, 8);
+}
+
+function problemText(change: QueuedChange): string {
+  if (change.status === 'failed') return `The server rejected it: ${change.error || 'unknown error'}`;
+  if (!change.serverRow) return 'It was deleted on the server while you were offline.';
+  return 'Someone changed it on the server while you were offline.';
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  const text = String(value);
+  return /^\d{4}-\d{2}-\d{2}T/.test(text) ? new Date(text).toLocaleString() : text;
+}
+
+function ProblemsModal({
+  problems,
+  onResolve,
+  onClose,
+}: {
+  problems: QueuedChange[];
+  onResolve: (change: QueuedChange, keep: 'mine' | 'theirs') => Promise<void>;
+  onClose: () => void;
+}) {
+  const backdropClose = useBackdropClose(onClose);
+  const [busySeq, setBusySeq] = useState<number | null>(null);
+
+  const act = async (change: QueuedChange, keep: 'mine' | 'theirs') => {
+    setBusySeq(change.seq ?? null);
+    try {
+      await onResolve(change, keep);
+    } finally {
+      setBusySeq(null);
+    }
+  };
+
+  return (
+    <div
+      {...backdropClose}
+      className="ionex-modal-backdrop"
+      style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(0,0,0,0.5)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 9999 }}
+    >
+      <div
+        className="ionex-modal-card"
+        style={{ backgroundColor: 'var(--bg-primary)', borderRadius: '12px', padding: '24px', maxWidth: '720px', width: '92%', maxHeight: '85vh', overflowY: 'auto', boxShadow: '0 20px 60px rgba(0,0,0,0.3)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="payroll-modal-header">
+          <div>
+            <h3 className="payroll-modal-title">Offline changes that didn't sync</h3>
+            <div className="payroll-modal-subtitle">
+              Keep your version to send it again over the server copy, or drop it and keep what's on the server.
+            </div>
+          </div>
+          <button className="payroll-modal-close" onClick={onClose} aria-label="Close">×</button>
+        </div>
+
+        {problems.length === 0 && <div className="payroll-muted">Nothing left to resolve.</div>}
+
+        {problems.map((change) => {
+          const server = change.serverRow;
+          const fields = server ? COMPARE_FIELDS.filter((f) => f in change.payload && formatValue(change.payload[f]) !== formatValue(server[f])) : [];
+          const canKeepMine = change.status === 'failed' || !!server || change.op === 'create';
+          return (
+            <div key={change.seq} style={{ borderTop: '1px solid var(--border-color)', padding: '12px 0' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: '12px', alignItems: 'flex-start' }}>
+                <div>
+                  <div style={{ fontWeight: 600 }}>
+                    {TABLE_LABELS[change.table]} {OP_LABELS[change.op]} offline
+                  </div>
+                  <div style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>{describe(change)}</div>
+                  <div style={{ fontSize: '13px', color: 'var(--error-color)', marginTop: '4px' }}>{problemText(change)}</div>
+                </div>
+                <div style={{ display: 'flex', gap: '6px', flexShrink: 0 }}>
+                  {canKeepMine && (
+                    <button className="payroll-action-btn is-primary" disabled={busySeq !== null} onClick={() => act(change, 'mine')}>
+                      {change.status === 'failed' ? 'Retry' : 'Keep mine'}
+                    </button>
+                  )}
+                  <button className="payroll-action-btn" disabled={busySeq !== null} onClick={() => act(change, 'theirs')}>
+                    {change.status === 'failed' ? 'Discard' : 'Use server copy'}
+                  </button>
+                </div>
+              </div>
+              {fields.length > 0 && (
+                <table className="payroll-mini-table" style={{ marginTop: '8px' }}>
+                  <thead>
+                    <tr>
+                      <th>Field</th>
+                      <th>Yours</th>
+                      <th>Server</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {fields.map((f) => (
+                      <tr key={f}>
+                        <td>{f.replace(/_/g, ' ')}</td>
+                        <td>{formatValue(change.payload[f])}</td>
+                        <td>{formatValue(server![f])}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Bar above the page content while offline or while offline changes are waiting, with a dialog
+ * for changes that hit a conflict or were rejected on sync.
+ */
+export default function OfflineStatus() {
+  const { online, syncing, pending, problems, syncNow, resolve } = useOfflineSync();
+  const [showProblems, setShowProblems] = useState(false);
+
+  if (online && pending.length === 0 && problems.length === 0 && !showProblems) return null;
+
+  const waiting = pending.length === 1 ? '1 change' : `${pending.length} changes`;
+  let message: string;
+  if (!online) {
+    message = pending.length > 0
+      ? `You're offline. ${waiting} saved on this device will be sent when you reconnect.`
+      : "You're offline. Time entries and expenses you add are saved on this device and sent when you reconnect.";
+  } else if (pending.length > 0) {
+    message = syncing ? `Sending ${waiting} made offline…` : `${waiting} made offline waiting to be sent.`;
+  } else {
+    message = '';
+  }
+
+  return (
+    <>
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '12px',
+          padding: '8px 24px',
+          fontSize: '13px',
+          backgroundColor: online ? 'rgba(59, 130, 246, 0.10)' : 'rgba(245, 158, 11, 0.15)',
+          borderBottom: '1px solid var(--border-color)',
+          color: 'var(--text-primary)',
+          flexShrink: 0,
+        }}
+      >
+        {message && <span>{message}</span>}
+        {online && pending.length > 0 && !syncing && (
+          <button className="payroll-action-btn" onClick={() => void syncNow()}>
+            Sync now
+          </button>
+        )}
+        {problems.length > 0 && (
+          <button className="payroll-action-btn is-primary" onClick={() => setShowProblems(true)}>
+            {problems.length === 1 ? '1 offline change needs attention' : `${problems.length} offline changes need attention`}
+          </button>
+        )}
+      </div>
+      {showProblems && <ProblemsModal problems={problems} onResolve={resolve} onClose={() => setShowProblems(false)} />}
+    </>
+  );
+}
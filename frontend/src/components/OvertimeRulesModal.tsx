@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { overtimeRulesService } from '../services/supabaseServices';
+import { useBackdropClose } from '../hooks/useBackdropClose';
+import { DEFAULT_OVERTIME_RULE, describeOvertimeRule, OVERTIME_JURISDICTIONS, OvertimeRule } from '../utils/overtimeRules';
+
+/** Admin editor for `overtime_rules` (Payroll → Overtime rules). */
+export default function OvertimeRulesModal({ rules, onClose }: { rules: OvertimeRule[]; onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const backdropClose = useBackdropClose(onClose);
+  const [draft, setDraft] = useState<OvertimeRule | null>(null);
+
+  const saveMutation = useMutation({
+    mutationFn: (rule: OvertimeRule) => overtimeRulesService.upsert(rule),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['overtimeRules'] });
+      setDraft(null);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => overtimeRulesService.delete(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['overtimeRules'] }),
+  });
+
+  const numberField = (key: keyof OvertimeRule, label: string, step = '0.25') => (
+    <label style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '12px', color: 'var(--text-secondary)' }}>
+      {label}
+      <input
+        type="number"
+        step={step}
+        min={0}
+        className="payroll-input-num"
+        value={draft?.[key] == null ? '' : String(draft[key])}
+        placeholder="off"
+        onChange={(e) => setDraft((d) => (d ? { ...d, [key]: e.target.value === '' ? null : Number(e.target.value) } : d))}
+      />
+    </label>
+  );
+
+  const error = (saveMutation.error || deleteMutation.error) as Error | null;
+
+  return (
+    <div
+      {...backdropClose}
+      className="ionex-modal-backdrop"
+      style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(0,0,0,0.5)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 9999 }}
+    >
+      <div
+        className="ionex-modal-card"
+        style={{ backgroundColor: 'var(--bg-primary)', borderRadius: '12px', padding: '24px', maxWidth: '820px', width: '92%', maxHeight: '85vh', overflowY: 'auto', boxShadow: '0 20px 60px rgba(0,0,0,0.3)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="payroll-modal-header">
+          <div>
+            <h3 className="payroll-modal-title">Overtime rules</h3>
+            <div className="payroll-modal-subtitle">
+              Employees use the rule for their jurisdiction and class (set on the Employees page). With no matching rule,
+              BC defaults apply: {describeOvertimeRule(DEFAULT_OVERTIME_RULE)}.
+            </div>
+          </div>
+          <button className="payroll-modal-close" onClick={onClose} aria-label="Close">×</button>
+        </div>
+
+        <table className="payroll-mini-table">
+          <thead>
+            <tr>
+              <th>Jurisdiction</th>
+              <th>Class</th>
+              <th>Name</th>
+              <th>Rule</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {rules.length === 0 && (
+              <tr>
+                <td colSpan={5} className="payroll-muted" style={{ fontStyle: 'italic' }}>No rules saved yet.</td>
+              </tr>
+            )}
+            {rules.map((r) => (
+              <tr key={r.id} style={r.is_active === false ? { opacity: 0.5 } : undefined}>
+                <td>{r.jurisdiction}</td>
+                <td className="payroll-muted">{r.employee_class || 'All'}</td>
+                <td>{r.name}</td>
+                <td className="payroll-muted" style={{ fontSize: '11px' }}>{describeOvertimeRule(r)}</td>
+                <td style={{ whiteSpace: 'nowrap', textAlign: 'right' }}>
+                  <button type="button" className="payroll-action-btn" onClick={() => setDraft({ ...r })}>Edit</button>{' '}
+                  <button
+                    type="button"
+                    className="payroll-action-btn"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => {
+                      if (r.id && window.confirm(`Delete overtime rule "${r.name}"?`)) deleteMutation.mutate(r.id);
+                    }}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {draft ? (
+          <div style={{ marginTop: '16px', padding: '12px', border: '1px solid var(--border-color)', borderRadius: '8px' }}>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '10px' }}>
+              <label style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '12px', color: 'var(--text-secondary)' }}>
+                Name
+                <input className="input" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+              </label>
+              <label style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '12px', color: 'var(--text-secondary)' }}>
+                Jurisdiction
+                <input
+                  className="input"
+                  list="overtime-jurisdictions"
+                  value={draft.jurisdiction}
+                  onChange={(e) => setDraft({ ...draft, jurisdiction: e.target.value })}
+                />
+                <datalist id="overtime-jurisdictions">
+                  {OVERTIME_JURISDICTIONS.map((j) => <option key={j} value={j} />)}
+                </datalist>
+              </label>
+              <label style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '12px', color: 'var(--text-secondary)' }}>
+                Employee class (blank = all)
+                <input
+                  className="input"
+                  value={draft.employee_class || ''}
+                  onChange={(e) => setDraft({ ...draft, employee_class: e.target.value || null })}
+                />
+              </label>
+              {numberField('daily_ot_after', 'OT after (h/day)')}
+              {numberField('daily_dt_after', 'Double time after (h/day)')}
+              {numberField('weekly_ot_after', 'OT after (h/week)')}
+              {numberField('consecutive_day_ot_from', 'All OT from consecutive day #', '1')}
+              {numberField('consecutive_day_dt_after', 'Consecutive day: DT after (h)')}
+              <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', color: 'var(--text-secondary)', marginTop: '18px' }}>
+                <input
+                  type="checkbox"
+                  checked={draft.is_active !== false}
+                  onChange={(e) => setDraft({ ...draft, is_active: e.target.checked })}
+                />
+                Active
+              </label>
+            </div>
+            <div className="payroll-modal-footer">
+              <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>{describeOvertimeRule(draft)}</div>
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <button type="button" className="payroll-action-btn" onClick={() => setDraft(null)} disabled={saveMutation.isPending}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  className="payroll-action-btn is-primary"
+                  disabled={saveMutation.isPending || !draft.name.trim() || !draft.jurisdiction.trim()}
+                  onClick={() => saveMutation.mutate(draft)}
+                >
+                  {saveMutation.isPending ? 'Saving…' : 'Save rule'}
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="payroll-modal-footer">
+            <span />
+            <button
+              type="button"
+              className="payroll-action-btn is-primary"
+              onClick={() => setDraft({ ...DEFAULT_OVERTIME_RULE, name: '', jurisdiction: '', is_active: true })}
+            >
+              + Add rule
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <div style={{ marginTop: '12px', padding: '10px', borderRadius: '6px', backgroundColor: 'rgba(220,53,69,0.10)', color: 'var(--error-color)', fontSize: '12px' }}>
+            {error.message || 'Failed to save overtime rule.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,10 +8,10 @@ import {
 } from '../utils/payPeriod';
 
 /**
- * Pay-period-aware calendar popup. Shades alternating 14-day pay-period stripes
+ * Pay-period-aware calendar popup. Shades alternating pay-period stripes
  * so the user can see period boundaries at a glance, then click any day to select
- * its full pay period (start + end auto-filled). Anchored on the same reference
- * date the rest of the payroll system uses.
+ * its full pay period (start + end auto-filled). Periods come from the same stored
+ * pay schedules the rest of the payroll system uses.
  */
 
 const parseYmd = (s: string): Date => parseYmdAtNoon(s);
@@ -25,7 +25,7 @@ interface Props {
   onClose: () => void;
   /** Optional label shown above the calendar grid. */
   title?: string;
-  /** Default selection mode. Defaults to 'period' (snap to 14-day pay period). */
+  /** Default selection mode. Defaults to 'period' (snap to the pay period). */
   initialMode?: 'period' | 'custom';
   /** Hide the Pay Period / Custom Range toggle and the payroll stripe shading. Use on pages where pay periods are irrelevant (e.g. Invoices). */
   hideModeToggle?: boolean;
@@ -40,7 +40,7 @@ export default function PayPeriodCalendar({ value, onChange, onClose, title, ini
 
   const [viewMonth, setViewMonth] = useState<Date>(initialMonth);
   const [hoverIndex, setHoverIndex] = useState<number | null>(null);
-  /** 'period' = click any day → that day's full 14-day period. 'custom' = two-click arbitrary range. */
+  /** 'period' = click any day → that day's full pay period. 'custom' = two-click arbitrary range. */
   const [mode, setMode] = useState<'period' | 'custom'>(initialMode);
   /** Custom-mode: first click sets pendingStart; second click finalizes start/end. */
   const [pendingStart, setPendingStart] = useState<string | null>(null);
@@ -202,7 +202,7 @@ export default function PayPeriodCalendar({ value, onChange, onClose, title, ini
           const dYmd = formatYmd(d);
           const isToday = sameDay(d, today);
 
-          // Period mode: hover highlights the entire 14-day stripe.
+          // Period mode: hover highlights the entire period stripe.
           const isHoveredPeriod = mode === 'period' && hoverIndex === idx;
 
           // Selected (already-applied) range — only relevant in pay-period mode display.
@@ -264,7 +264,7 @@ export default function PayPeriodCalendar({ value, onChange, onClose, title, ini
       {/* Footer hint */}
       <div style={{ marginTop: '10px', paddingTop: '8px', borderTop: '1px solid var(--border-color)', fontSize: '11px', color: 'var(--text-tertiary)', textAlign: 'center', lineHeight: 1.4 }}>
         {mode === 'period' ? (
-          <>Click any day to select its full 14-day pay period.<br />Stripes show consecutive periods.</>
+          <>Click any day to select its full pay period.<br />Stripes show consecutive periods.</>
         ) : pendingStart ? (
           <>Click an end date to finish the range.<br />Started: {pendingStart}</>
         ) : (
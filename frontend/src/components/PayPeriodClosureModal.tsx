@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { PayPeriodClosure, payPeriodClosuresService } from '../services/supabaseServices';
+import { useBackdropClose } from '../hooks/useBackdropClose';
+import { formatPayPeriodRangeLabel, parseYmdAtNoon } from '../utils/payPeriod';
+
+const personName = (p?: PayPeriodClosure['closer']): string =>
+  p ? [p.first_name, p.last_name].filter(Boolean).join(' ') || p.email : 'Unknown';
+
+const formatStamp = (iso: string | null): string =>
+  iso ? new Date(iso).toLocaleString('en-AU', { day: 'numeric', month: 'short', year: 'numeric', hour: 'numeric', minute: '2-digit' }) : '';
+
+/**
+ * Close or reopen one pay period (Payroll → Close period). Closing stores the current payroll CSV
+ * as a snapshot and makes the period's time entries and expenses read-only in the database;
+ * reopening needs a reason, which stays on the closure history below.
+ */
+export default function PayPeriodClosureModal({
+  periodStart,
+  periodEnd,
+  closures,
+  buildCsv,
+  onDownloadSnapshot,
+  onClose,
+}: {
+  periodStart: string;
+  periodEnd: string;
+  /** Closures overlapping the period, newest first. */
+  closures: PayPeriodClosure[];
+  /** Current payroll export for the period; captured at close. */
+  buildCsv: () => string;
+  onDownloadSnapshot: (closure: PayPeriodClosure) => void;
+  onClose: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const backdropClose = useBackdropClose(onClose);
+  const [reason, setReason] = useState('');
+
+  const history = closures.filter((c) => c.period_start === periodStart && c.period_end === periodEnd);
+  const active = history.find((c) => c.status === 'closed') || null;
+  // A closure over a different range (e.g. before a schedule change) still locks these dates.
+  const overlapping = closures.find((c) => c.status === 'closed' && c !== active) || null;
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['payPeriodClosures'] });
+
+  const closeMutation = useMutation({
+    mutationFn: () => payPeriodClosuresService.close(periodStart, periodEnd, buildCsv()),
+    onSuccess: invalidate,
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: (id: string) => payPeriodClosuresService.reopen(id, reason),
+    onSuccess: () => {
+      invalidate();
+      setReason('');
+    },
+  });
+
+  const error = (closeMutation.error || reopenMutation.error) as Error | null;
+  const rangeLabel = formatPayPeriodRangeLabel(parseYmdAtNoon(periodStart), parseYmdAtNoon(periodEnd));
+
+  return (
+    <div
+      {...backdropClose}
+      className="ionex-modal-backdrop"
+      style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(0,0,0,0.5)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 9999 }}
+    >
+      <div
+        className="ionex-modal-card"
+        style={{ backgroundColor: 'var(--bg-primary)', borderRadius: '12px', padding: '24px', maxWidth: '680px', width: '92%', maxHeight: '85vh', overflowY: 'auto', boxShadow: '0 20px 60px rgba(0,0,0,0.3)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="payroll-modal-header">
+          <div>
+            <h3 className="payroll-modal-title">{active ? 'Reopen pay period' : 'Close pay period'}</h3>
+            <div className="payroll-modal-subtitle">{rangeLabel}</div>
+          </div>
+          <button className="payroll-modal-close" onClick={onClose} aria-label="Close">×</button>
+        </div>
+
+        {active ? (
+          <>
+            <div style={{ fontSize: '13px', color: 'var(--text-secondary)', lineHeight: 1.5 }}>
+              Closed by <strong>{personName(active.closer)}</strong> on {formatStamp(active.closed_at)}. Reopening lets everyone edit
+              time entries and expenses in this period again; the snapshot taken at close is kept.
+            </div>
+            <label style={{ display: 'flex', flexDirection: 'column', gap: '4px', marginTop: '12px', fontSize: '12px', color: 'var(--text-secondary)' }}>
+              Reason for reopening (required)
+              <textarea
+                className="input"
+                rows={3}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Missed Friday field hours for one employee"
+              />
+            </label>
+            <div className="payroll-modal-footer">
+              <button type="button" className="payroll-action-btn" onClick={() => onDownloadSnapshot(active)}>
+                <span aria-hidden>⬇</span> Snapshot CSV
+              </button>
+              <button
+                type="button"
+                className="payroll-action-btn is-primary"
+                disabled={!reason.trim() || reopenMutation.isPending}
+                onClick={() => reopenMutation.mutate(active.id)}
+              >
+                {reopenMutation.isPending ? 'Reopening…' : 'Reopen period'}
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div style={{ fontSize: '13px', color: 'var(--text-secondary)', lineHeight: 1.5 }}>
+              Closing saves the payroll CSV as it is now and locks every time entry and expense dated in this period —
+              for admins too. Mark employees paid and convert overtime <em>before</em> closing; receipts can still be approved and marked paid afterwards.
+            </div>
+            {overlapping && (
+              <div style={{ marginTop: '10px', fontSize: '12px', color: 'var(--warning-color)' }}>
+                Part of this range is already closed ({formatPayPeriodRangeLabel(parseYmdAtNoon(overlapping.period_start), parseYmdAtNoon(overlapping.period_end))}).
+              </div>
+            )}
+            <div className="payroll-modal-footer">
+              <span />
+              <button
+                type="button"
+                className="payroll-action-btn is-primary"
+                disabled={closeMutation.isPending}
+                onClick={() => closeMutation.mutate()}
+              >
+                {closeMutation.isPending ? 'Closing…' : 'Close period'}
+              </button>
+            </div>
+          </>
+        )}
+
+        {history.length > 0 && (
+          <>
+            <div className="payroll-breakdown-eyebrow" style={{ marginTop: '16px' }}>History</div>
+            <table className="payroll-mini-table">
+              <tbody>
+                {history.map((c) => (
+                  <tr key={c.id}>
+                    <td>
+                      Closed {formatStamp(c.closed_at)}
+                      <div className="payroll-muted" style={{ fontSize: '11px' }}>by {personName(c.closer)}</div>
+                    </td>
+                    <td>
+                      {c.status === 'reopened' ? (
+                        <>
+                          <span className="payroll-pill is-muted">Reopened</span> {formatStamp(c.reopened_at)} by {personName(c.reopener)}
+                          <div className="payroll-muted" style={{ fontSize: '11px' }}>{c.reopen_reason}</div>
+                        </>
+                      ) : (
+                        <span className="payroll-pill is-paid">Closed</span>
+                      )}
+                    </td>
+                    <td style={{ textAlign: 'right' }}>
+                      <button type="button" className="payroll-action-btn" onClick={() => onDownloadSnapshot(c)}>
+                        Snapshot
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        {error && (
+          <div style={{ marginTop: '12px', padding: '10px', borderRadius: '6px', backgroundColor: 'rgba(220,53,69,0.10)', color: 'var(--error-color)', fontSize: '12px' }}>
+            {error.message || 'Failed to update the pay period.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { paySchedulesService } from '../services/supabaseServices';
+import { useBackdropClose } from '../hooks/useBackdropClose';
+import {
+  describePaySchedule,
+  formatPayPeriodRangeLabel,
+  formatYmd,
+  PAY_FREQUENCY_LABELS,
+  PayFrequency,
+  PaySchedule,
+  payPeriodBoundsForIndex,
+  payPeriodIndexFor,
+  parseYmdAtNoon,
+} from '../utils/payPeriod';
+
+/**
+ * Admin editor for `pay_schedules` (Payroll → Pay schedule). Schedules are append-only by
+ * effective date so past periods never move; the latest row drives upcoming periods.
+ */
+export default function PaySchedulesModal({ schedules, onClose }: { schedules: PaySchedule[]; onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const backdropClose = useBackdropClose(onClose);
+  const today = formatYmd(new Date());
+  const [draft, setDraft] = useState<PaySchedule | null>(null);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['paySchedules'] });
+
+  const createMutation = useMutation({
+    mutationFn: (schedule: PaySchedule) => paySchedulesService.create(schedule),
+    onSuccess: () => {
+      invalidate();
+      setDraft(null);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => paySchedulesService.delete(id),
+    onSuccess: invalidate,
+  });
+
+  // Next few periods under the registered schedules, so admins can sanity-check paydays.
+  const upcoming = (() => {
+    const first = payPeriodIndexFor(new Date());
+    return [0, 1, 2, 3].map((i) => payPeriodBoundsForIndex(first + i));
+  })();
+
+  const fieldLabel = { display: 'flex', flexDirection: 'column' as const, gap: '4px', fontSize: '12px', color: 'var(--text-secondary)' };
+  const error = (createMutation.error || deleteMutation.error) as Error | null;
+
+  return (
+    <div
+      {...backdropClose}
+      className="ionex-modal-backdrop"
+      style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(0,0,0,0.5)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 9999 }}
+    >
+      <div
+        className="ionex-modal-card"
+        style={{ backgroundColor: 'var(--bg-primary)', borderRadius: '12px', padding: '24px', maxWidth: '760px', width: '92%', maxHeight: '85vh', overflowY: 'auto', boxShadow: '0 20px 60px rgba(0,0,0,0.3)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="payroll-modal-header">
+          <div>
+            <h3 className="payroll-modal-title">Pay schedule</h3>
+            <div className="payroll-modal-subtitle">
+              Each schedule applies from its effective date until the next one. Adding a schedule never changes earlier periods.
+            </div>
+          </div>
+          <button className="payroll-modal-close" onClick={onClose} aria-label="Close">×</button>
+        </div>
+
+        <table className="payroll-mini-table">
+          <thead>
+            <tr>
+              <th>Effective from</th>
+              <th>Schedule</th>
+              <th>Anchor</th>
+              <th>Notes</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {schedules.length === 0 && (
+              <tr>
+                <td colSpan={5} className="payroll-muted" style={{ fontStyle: 'italic' }}>
+                  No schedules saved — using the built-in bi-weekly schedule.
+                </td>
+              </tr>
+            )}
+            {schedules.map((s) => (
+              <tr key={s.id || s.effective_from}>
+                <td>{s.effective_from}</td>
+                <td>{describePaySchedule(s)}</td>
+                <td className="payroll-muted">{s.frequency === 'weekly' || s.frequency === 'biweekly' ? s.anchor_date : '—'}</td>
+                <td className="payroll-muted" style={{ fontSize: '11px' }}>{s.notes || ''}</td>
+                <td style={{ textAlign: 'right' }}>
+                  {s.id && s.effective_from > today && (
+                    <button
+                      type="button"
+                      className="payroll-action-btn"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => {
+                        if (window.confirm(`Remove the schedule starting ${s.effective_from}?`)) deleteMutation.mutate(s.id!);
+                      }}
+                      title="Only schedules that haven't started yet can be removed"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="payroll-breakdown-eyebrow" style={{ marginTop: '16px' }}>Upcoming periods</div>
+        <table className="payroll-mini-table">
+          <tbody>
+            {upcoming.map((p) => (
+              <tr key={p.index}>
+                <td>{formatPayPeriodRangeLabel(p.start, p.end)}</td>
+                <td className="payroll-muted">
+                  Payday {p.payday.toLocaleDateString('en-AU', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {draft ? (
+          <div style={{ marginTop: '16px', padding: '12px', border: '1px solid var(--border-color)', borderRadius: '8px' }}>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '10px' }}>
+              <label style={fieldLabel}>
+                Frequency
+                <select
+                  className="input"
+                  value={draft.frequency}
+                  onChange={(e) => setDraft({ ...draft, frequency: e.target.value as PayFrequency })}
+                >
+                  {(Object.keys(PAY_FREQUENCY_LABELS) as PayFrequency[]).map((f) => (
+                    <option key={f} value={f}>{PAY_FREQUENCY_LABELS[f]}</option>
+                  ))}
+                </select>
+              </label>
+              <label style={fieldLabel}>
+                Effective from
+                <input
+                  type="date"
+                  className="input"
+                  value={draft.effective_from}
+                  onChange={(e) => setDraft({ ...draft, effective_from: e.target.value })}
+                />
+              </label>
+              <label style={fieldLabel}>
+                Payday (days after period end)
+                <input
+                  type="number"
+                  step="1"
+                  className="payroll-input-num"
+                  value={draft.payday_offset_days}
+                  onChange={(e) => setDraft({ ...draft, payday_offset_days: Number(e.target.value) || 0 })}
+                />
+              </label>
+              {(draft.frequency === 'weekly' || draft.frequency === 'biweekly') && (
+                <label style={fieldLabel}>
+                  First day of a period
+                  <input
+                    type="date"
+                    className="input"
+                    value={draft.anchor_date}
+                    onChange={(e) => setDraft({ ...draft, anchor_date: e.target.value })}
+                  />
+                </label>
+              )}
+              {draft.frequency === 'semimonthly' && (
+                <label style={fieldLabel}>
+                  First half ends on day
+                  <input
+                    type="number"
+                    min={1}
+                    max={27}
+                    className="payroll-input-num"
+                    value={draft.semimonthly_split_day ?? 15}
+                    onChange={(e) => setDraft({ ...draft, semimonthly_split_day: Number(e.target.value) || 15 })}
+                  />
+                </label>
+              )}
+              <label style={{ ...fieldLabel, gridColumn: 'span 2' }}>
+                Notes
+                <input className="input" value={draft.notes || ''} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} />
+              </label>
+            </div>
+            <div className="payroll-modal-footer">
+              <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+                {describePaySchedule(draft)}
+                {draft.effective_from && draft.effective_from <= today && (
+                  <div style={{ color: 'var(--warning-color)' }}>Starts in the past — periods from {draft.effective_from} will be recalculated.</div>
+                )}
+              </div>
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <button type="button" className="payroll-action-btn" onClick={() => setDraft(null)} disabled={createMutation.isPending}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  className="payroll-action-btn is-primary"
+                  disabled={
+                    createMutation.isPending ||
+                    !draft.effective_from ||
+                    !parseYmdAtNoon(draft.anchor_date || draft.effective_from).getTime() ||
+                    schedules.some((s) => s.effective_from === draft.effective_from)
+                  }
+                  onClick={() => createMutation.mutate({ ...draft, anchor_date: draft.anchor_date || draft.effective_from })}
+                >
+                  {createMutation.isPending ? 'Saving…' : 'Add schedule'}
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="payroll-modal-footer">
+            <span />
+            <button
+              type="button"
+              className="payroll-action-btn is-primary"
+              onClick={() => {
+                // Default the new schedule to start right after the current period ends.
+                const next = payPeriodBoundsForIndex(payPeriodIndexFor(new Date()) + 1).start;
+                setDraft({ frequency: 'biweekly', anchor_date: formatYmd(next), payday_offset_days: 5, effective_from: formatYmd(next), notes: '' });
+              }}
+            >
+              + Change schedule
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <div style={{ marginTop: '12px', padding: '10px', borderRadius: '6px', backgroundColor: 'rgba(220,53,69,0.10)', color: 'var(--error-color)', fontSize: '12px' }}>
+            {error.message || 'Failed to save pay schedule.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
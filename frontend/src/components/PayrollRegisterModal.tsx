@@ -0,0 +1,207 @@
+import { useMemo, useState } from 'react';
+import { useBackdropClose } from '../hooks/useBackdropClose';
+import {
+  diffPayrollRegisters,
+  PayrollRegister,
+  PayrollRegisterData,
+  REGISTER_AMOUNT_LABELS,
+  REGISTER_HOUR_LABELS,
+  RegisterAmountKey,
+  RegisterChangeKind,
+  RegisterEntry,
+  RegisterHourKey,
+  registerTotals,
+} from '../utils/payrollRegister';
+
+const LIVE = 'live';
+
+const personName = (p?: PayrollRegister['exporter']): string =>
+  p ? [p.first_name, p.last_name].filter(Boolean).join(' ') || p.email : 'Unknown';
+
+const formatStamp = (iso: string): string =>
+  new Date(iso).toLocaleString('en-AU', { day: 'numeric', month: 'short', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const signed = (n: number, money: boolean): string => {
+  const abs = Math.abs(n).toFixed(2);
+  return `${n > 0 ? '+' : '−'}${money ? '$' : ''}${abs}${money ? '' : 'h'}`;
+};
+
+const describeEntry = (e: RegisterEntry): string =>
+  `${e.date} · ${e.hours.toFixed(2)}h ${e.billable ? e.rateType : `Internal (${e.rateType})`} · ${e.project}`;
+
+const KIND_PILL: Record<RegisterChangeKind, { label: string; className: string }> = {
+  added: { label: 'Added', className: 'payroll-pill is-owed' },
+  removed: { label: 'Removed', className: 'payroll-pill is-muted' },
+  changed: { label: 'Changed', className: 'payroll-pill is-owed' },
+};
+
+/**
+ * Saved payroll registers for the selected range (one per Export CSV) and a diff between any
+ * version and either an older version or the live numbers — the basis for next-run adjustments.
+ */
+export default function PayrollRegisterModal({
+  registers,
+  buildLiveRegister,
+  onDownload,
+  onClose,
+}: {
+  /** Latest version first. */
+  registers: PayrollRegister[];
+  buildLiveRegister: (excludeContractors: boolean) => PayrollRegisterData;
+  onDownload: (register: PayrollRegister) => void;
+  onClose: () => void;
+}) {
+  const backdropClose = useBackdropClose(onClose);
+  const [baseId, setBaseId] = useState<string>(registers[0]?.id || '');
+  const [targetId, setTargetId] = useState<string>(LIVE);
+
+  const base = registers.find((r) => r.id === baseId) || registers[0];
+  const target = targetId === LIVE ? null : registers.find((r) => r.id === targetId) || null;
+
+  const diff = useMemo(() => {
+    if (!base) return [];
+    const after = target ? target.register : buildLiveRegister(base.register.excludesContractors);
+    return diffPayrollRegisters(base.register, after);
+  }, [base, target, buildLiveRegister]);
+
+  const netPayoutDelta = diff.reduce((s, d) => s + (d.amountDeltas.totalPayout || 0), 0);
+
+  return (
+    <div
+      {...backdropClose}
+      className="ionex-modal-backdrop"
+      style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(0,0,0,0.5)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 9999 }}
+    >
+      <div
+        className="ionex-modal-card"
+        style={{ backgroundColor: 'var(--bg-primary)', borderRadius: '12px', padding: '24px', maxWidth: '900px', width: '94%', maxHeight: '85vh', overflowY: 'auto', boxShadow: '0 20px 60px rgba(0,0,0,0.3)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="payroll-modal-header">
+          <div>
+            <h3 className="payroll-modal-title">Payroll register</h3>
+            <div className="payroll-modal-subtitle">
+              {base ? `${base.period_start} – ${base.period_end}` : ''} · every export is saved as a new version.
+            </div>
+          </div>
+          <button className="payroll-modal-close" onClick={onClose} aria-label="Close">×</button>
+        </div>
+
+        <table className="payroll-mini-table">
+          <thead>
+            <tr>
+              <th>Version</th>
+              <th>Exported</th>
+              <th style={{ textAlign: 'right' }}>Employees</th>
+              <th style={{ textAlign: 'right' }}>Hours</th>
+              <th style={{ textAlign: 'right' }}>Total payout</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {registers.map((r) => {
+              const totals = registerTotals(r.register);
+              return (
+                <tr key={r.id}>
+                  <td>v{r.version}</td>
+                  <td>
+                    {formatStamp(r.exported_at)}
+                    <div className="payroll-muted" style={{ fontSize: '11px' }}>by {personName(r.exporter)}</div>
+                  </td>
+                  <td style={{ textAlign: 'right' }}>{r.register.employees.length}</td>
+                  <td style={{ textAlign: 'right' }}>{totals.hours.toFixed(2)}</td>
+                  <td style={{ textAlign: 'right' }}>${totals.totalPayout.toFixed(2)}</td>
+                  <td style={{ textAlign: 'right' }}>
+                    <button type="button" className="payroll-action-btn" onClick={() => onDownload(r)}>
+                      <span aria-hidden>⬇</span> CSV
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '16px', fontSize: '12px', color: 'var(--text-secondary)', flexWrap: 'wrap' }}>
+          <span className="payroll-breakdown-eyebrow" style={{ margin: 0 }}>Compare</span>
+          <select className="input" value={base?.id || ''} onChange={(e) => setBaseId(e.target.value)} style={{ width: 'auto' }}>
+            {registers.map((r) => (
+              <option key={r.id} value={r.id}>v{r.version}</option>
+            ))}
+          </select>
+          <span>→</span>
+          <select className="input" value={targetId} onChange={(e) => setTargetId(e.target.value)} style={{ width: 'auto' }}>
+            <option value={LIVE}>Now (not exported)</option>
+            {registers
+              .filter((r) => base && r.version > base.version)
+              .map((r) => (
+                <option key={r.id} value={r.id}>v{r.version}</option>
+              ))}
+          </select>
+          {diff.length > 0 && (
+            <span style={{ marginLeft: 'auto' }}>
+              Net payout change <strong>{signed(netPayoutDelta, true)}</strong>
+            </span>
+          )}
+        </div>
+
+        {diff.length === 0 ? (
+          <div className="payroll-muted" style={{ marginTop: '12px', fontStyle: 'italic', fontSize: '13px' }}>
+            No differences — nothing to adjust.
+          </div>
+        ) : (
+          <table className="payroll-mini-table" style={{ marginTop: '10px' }}>
+            <thead>
+              <tr>
+                <th>Employee</th>
+                <th>Hours</th>
+                <th>Pay</th>
+                <th>Entries &amp; reimbursements</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.map((d) => (
+                <tr key={d.userId} style={{ verticalAlign: 'top' }}>
+                  <td>
+                    {d.name}
+                    <div><span className={KIND_PILL[d.kind].className}>{KIND_PILL[d.kind].label}</span></div>
+                  </td>
+                  <td style={{ whiteSpace: 'nowrap' }}>
+                    {(Object.keys(d.hourDeltas) as RegisterHourKey[]).map((k) => (
+                      <div key={k}>{REGISTER_HOUR_LABELS[k]} {signed(d.hourDeltas[k]!, false)}</div>
+                    ))}
+                  </td>
+                  <td style={{ whiteSpace: 'nowrap' }}>
+                    {(Object.keys(d.amountDeltas) as RegisterAmountKey[]).map((k) => (
+                      <div key={k}>{REGISTER_AMOUNT_LABELS[k]} {signed(d.amountDeltas[k]!, true)}</div>
+                    ))}
+                  </td>
+                  <td style={{ fontSize: '11px' }}>
+                    {d.entries.map((c) => (
+                      <div key={c.id}>
+                        {c.kind === 'added' && <>+ {describeEntry(c.after!)}</>}
+                        {c.kind === 'removed' && <span className="payroll-muted" style={{ textDecoration: 'line-through' }}>{describeEntry(c.before!)}</span>}
+                        {c.kind === 'changed' && <>{describeEntry(c.before!)} → {describeEntry(c.after!)}</>}
+                      </div>
+                    ))}
+                    {d.reimbursements.map((c) => {
+                      const line = (c.after || c.before)!;
+                      const label = `${line.category}: ${line.description}${line.ticketNumber ? ` (${line.ticketNumber})` : ''}`;
+                      return (
+                        <div key={c.key}>
+                          {c.kind === 'added' && <>+ {label} ${c.after!.amount.toFixed(2)}</>}
+                          {c.kind === 'removed' && <span className="payroll-muted" style={{ textDecoration: 'line-through' }}>{label} ${c.before!.amount.toFixed(2)}</span>}
+                          {c.kind === 'changed' && <>{label} ${c.before!.amount.toFixed(2)} → ${c.after!.amount.toFixed(2)}</>}
+                        </div>
+                      );
+                    })}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
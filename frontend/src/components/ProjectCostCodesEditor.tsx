@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { costCodesService } from '../services/supabaseServices';
+import { CostCode, costCodeLabel, costCodeTree } from '../utils/costCodes';
+
+type CodeDraft = { code: string; name: string; parent_id: string; sort_order: string };
+
+const emptyDraft: CodeDraft = { code: '', name: '', parent_id: '', sort_order: '0' };
+
+/**
+ * Projects → Edit: the project's phase / task / cost code tree. Each row saves on its own, like
+ * the leave policies editor, since codes are separate project_cost_codes records.
+ */
+export default function ProjectCostCodesEditor({ projectId }: { projectId: string }) {
+  const queryClient = useQueryClient();
+  const [newCode, setNewCode] = useState<CodeDraft>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<CodeDraft>(emptyDraft);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: allCodes = [] } = useQuery({
+    queryKey: ['projectCostCodes'],
+    queryFn: () => costCodesService.getAll(),
+  });
+  const codes = allCodes.filter((c) => c.project_id === projectId);
+  const tree = costCodeTree(codes);
+
+  const onSaved = () => {
+    setError(null);
+    queryClient.invalidateQueries({ queryKey: ['projectCostCodes'] });
+  };
+  const onFailed = (err: unknown) => {
+    const message = err instanceof Error ? err.message : String((err as any)?.message ?? 'Unknown error');
+    setError(message.includes('project_cost_codes_project_code_key') ? 'That code is already used on this project.' : message);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (costCode: CostCode) => costCodesService.upsert(costCode),
+    onSuccess: onSaved,
+    onError: onFailed,
+  });
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => costCodesService.delete(id),
+    onSuccess: onSaved,
+    onError: onFailed,
+  });
+
+  /** Ids of a code and everything under it; none of them can become its parent. */
+  const subtreeIds = (id: string): Set<string> => {
+    const ids = new Set([id]);
+    let grew = true;
+    while (grew) {
+      grew = false;
+      for (const c of codes) {
+        if (c.id && c.parent_id && ids.has(c.parent_id) && !ids.has(c.id)) {
+          ids.add(c.id);
+          grew = true;
+        }
+      }
+    }
+    return ids;
+  };
+
+  const fromDraft = (d: CodeDraft, base?: CostCode): CostCode | null => {
+    if (!d.code.trim() || !d.name.trim()) {
+      setError('Code and name are required.');
+      return null;
+    }
+    return {
+      ...base,
+      project_id: projectId,
+      active: base?.active ?? true,
+      code: d.code,
+      name: d.name,
+      parent_id: d.parent_id || null,
+      sort_order: parseInt(d.sort_order, 10) || 0,
+    };
+  };
+
+  const handleAdd = () => {
+    const costCode = fromDraft(newCode);
+    if (!costCode) return;
+    saveMutation.mutate(costCode, { onSuccess: () => setNewCode({ ...emptyDraft, parent_id: newCode.parent_id }) });
+  };
+
+  const handleSaveEdit = (base: CostCode) => {
+    const costCode = fromDraft(editDraft, base);
+    if (!costCode) return;
+    saveMutation.mutate(costCode, { onSuccess: () => setEditingId(null) });
+  };
+
+  const handleDelete = (c: CostCode) => {
+    const children = subtreeIds(c.id!).size - 1;
+    const message = children > 0
+      ? `Delete ${costCodeLabel(c)} and the ${children} code${children === 1 ? '' : 's'} under it? Entries using them keep their hours with no cost code.`
+      : `Delete ${costCodeLabel(c)}? Entries using it keep their hours with no cost code. Deactivate it instead to keep it on old entries.`;
+    if (window.confirm(message)) deleteMutation.mutate(c.id!);
+  };
+
+  const parentOptions = (excluded: Set<string>) =>
+    tree
+      .filter(({ costCode }) => costCode.id && !excluded.has(costCode.id))
+      .map(({ costCode, depth }) => (
+        <option key={costCode.id} value={costCode.id}>
+          {'\u00a0\u00a0\u00a0'.repeat(depth)}
+          {costCodeLabel(costCode)}
+        </option>
+      ));
+
+  const busy = saveMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <div style={{ marginTop: '20px', paddingTop: '20px', borderTop: '1px solid var(--border-color)' }}>
+      <h4 style={{ marginBottom: '8px', fontSize: '14px', color: 'var(--text-secondary)' }}>Phases / Cost Codes</h4>
+      <p style={{ fontSize: '12px', color: 'var(--text-tertiary)', marginBottom: '12px' }}>
+        A code with no parent is a phase. Time entries and ticket expenses pick one code; Profitability totals them by phase.
+        Changes here save immediately.
+      </p>
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+        <thead>
+          <tr style={{ color: 'var(--text-secondary)', textAlign: 'left' }}>
+            <th style={{ padding: '4px', width: '110px' }}>Code</th>
+            <th style={{ padding: '4px' }}>Name</th>
+            <th style={{ padding: '4px' }}>Under</th>
+            <th style={{ padding: '4px', width: '70px' }}>Order</th>
+            <th style={{ padding: '4px', textAlign: 'center' }}>Active</th>
+            <th style={{ padding: '4px' }} />
+          </tr>
+        </thead>
+        <tbody>
+          {tree.length === 0 && (
+            <tr>
+              <td colSpan={6} style={{ padding: '4px', fontStyle: 'italic', color: 'var(--text-tertiary)' }}>No cost codes yet.</td>
+            </tr>
+          )}
+          {tree.map(({ costCode: c, depth }) =>
+            editingId === c.id ? (
+              <tr key={c.id}>
+                <td style={{ padding: '4px' }}>
+                  <input className="input" value={editDraft.code} onChange={(e) => setEditDraft({ ...editDraft, code: e.target.value })} />
+                </td>
+                <td style={{ padding: '4px' }}>
+                  <input className="input" value={editDraft.name} onChange={(e) => setEditDraft({ ...editDraft, name: e.target.value })} />
+                </td>
+                <td style={{ padding: '4px' }}>
+                  <select className="input" value={editDraft.parent_id} onChange={(e) => setEditDraft({ ...editDraft, parent_id: e.target.value })}>
+                    <option value="">— Phase —</option>
+                    {parentOptions(subtreeIds(c.id!))}
+                  </select>
+                </td>
+                <td style={{ padding: '4px' }}>
+                  <input className="input" type="number" step="1" value={editDraft.sort_order} onChange={(e) => setEditDraft({ ...editDraft, sort_order: e.target.value })} />
+                </td>
+                <td style={{ padding: '4px', textAlign: 'center' }}>{c.active ? 'Yes' : 'No'}</td>
+                <td style={{ padding: '4px', whiteSpace: 'nowrap', textAlign: 'right' }}>
+                  <button type="button" className="payroll-action-btn" disabled={busy} onClick={() => handleSaveEdit(c)}>Save</button>{' '}
+                  <button type="button" className="payroll-action-btn" onClick={() => { setEditingId(null); setError(null); }}>Cancel</button>
+                </td>
+              </tr>
+            ) : (
+              <tr key={c.id} style={{ opacity: c.active ? 1 : 0.6 }}>
+                <td style={{ padding: '4px', paddingLeft: `${4 + depth * 16}px`, fontWeight: depth === 0 ? 600 : undefined }}>{c.code}</td>
+                <td style={{ padding: '4px' }}>{c.name}</td>
+                <td style={{ padding: '4px', color: 'var(--text-secondary)' }}>
+                  {c.parent_id ? costCodeLabel(codes.find((p) => p.id === c.parent_id) ?? { code: '—', name: '' }) : 'Phase'}
+                </td>
+                <td style={{ padding: '4px' }}>{c.sort_order}</td>
+                <td style={{ padding: '4px', textAlign: 'center' }}>
+                  <input
+                    type="checkbox"
+                    checked={c.active}
+                    disabled={busy}
+                    onChange={(e) => saveMutation.mutate({ ...c, active: e.target.checked })}
+                    aria-label={`${costCodeLabel(c)} active`}
+                  />
+                </td>
+                <td style={{ padding: '4px', whiteSpace: 'nowrap', textAlign: 'right' }}>
+                  <button
+                    type="button"
+                    className="payroll-action-btn"
+                    onClick={() => {
+                      setEditingId(c.id!);
+                      setEditDraft({ code: c.code, name: c.name, parent_id: c.parent_id || '', sort_order: String(c.sort_order) });
+                      setError(null);
+                    }}
+                  >
+                    Edit
+                  </button>{' '}
+                  <button type="button" className="payroll-action-btn" disabled={busy} onClick={() => handleDelete(c)}>Delete</button>
+                </td>
+              </tr>
+            )
+          )}
+          <tr>
+            <td style={{ padding: '4px' }}>
+              <input className="input" placeholder="100.10" value={newCode.code} onChange={(e) => setNewCode({ ...newCode, code: e.target.value })} />
+            </td>
+            <td style={{ padding: '4px' }}>
+              <input className="input" placeholder="Cable pull" value={newCode.name} onChange={(e) => setNewCode({ ...newCode, name: e.target.value })} />
+            </td>
+            <td style={{ padding: '4px' }}>
+              <select className="input" value={newCode.parent_id} onChange={(e) => setNewCode({ ...newCode, parent_id: e.target.value })}>
+                <option value="">— Phase —</option>
+                {parentOptions(new Set())}
+              </select>
+            </td>
+            <td style={{ padding: '4px' }}>
+              <input className="input" type="number" step="1" value={newCode.sort_order} onChange={(e) => setNewCode({ ...newCode, sort_order: e.target.value })} />
+            </td>
+            <td />
+            <td style={{ padding: '4px', textAlign: 'right' }}>
+              <button type="button" className="payroll-action-btn" disabled={busy} onClick={handleAdd}>Add</button>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+      {error && <div style={{ marginTop: '6px', fontSize: '12px', color: 'var(--error-color)' }}>{error}</div>}
+    </div>
+  );
+}
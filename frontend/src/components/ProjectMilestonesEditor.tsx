@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { projectBillingService } from '../services/supabaseServices';
+import { BillingMilestone, billedMilestoneIds } from '../utils/projectBilling';
+
+type MilestoneDraft = { name: string; amount: string; due_date: string; sort_order: string };
+
+const emptyDraft: MilestoneDraft = { name: '', amount: '', due_date: '', sort_order: '0' };
+
+const fmt = (n: number) => n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Projects → Edit on a fixed-price project: its milestone billing schedule. Milestones are billed
+ * from Invoices → Contracts; rows save on their own like the cost code editor.
+ */
+export default function ProjectMilestonesEditor({ projectId, contractAmount }: { projectId: string; contractAmount?: number }) {
+  const queryClient = useQueryClient();
+  const [newMilestone, setNewMilestone] = useState<MilestoneDraft>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<MilestoneDraft>(emptyDraft);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: allMilestones = [] } = useQuery({
+    queryKey: ['projectBillingMilestones'],
+    queryFn: () => projectBillingService.getMilestones(),
+  });
+  const { data: claims = [] } = useQuery({
+    queryKey: ['projectBillingClaims'],
+    queryFn: () => projectBillingService.getClaims(),
+  });
+  const milestones = allMilestones.filter((m) => m.project_id === projectId);
+  const billed = billedMilestoneIds(claims);
+  const scheduled = milestones.reduce((s, m) => s + m.amount, 0);
+
+  const onSaved = () => {
+    setError(null);
+    queryClient.invalidateQueries({ queryKey: ['projectBillingMilestones'] });
+  };
+  const onFailed = (err: unknown) => setError(err instanceof Error ? err.message : String((err as any)?.message ?? 'Unknown error'));
+
+  const saveMutation = useMutation({
+    mutationFn: (milestone: BillingMilestone) => projectBillingService.upsertMilestone(milestone),
+    onSuccess: onSaved,
+    onError: onFailed,
+  });
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => projectBillingService.deleteMilestone(id),
+    onSuccess: onSaved,
+    onError: onFailed,
+  });
+
+  const fromDraft = (d: MilestoneDraft, id?: string): BillingMilestone | null => {
+    const amount = parseFloat(d.amount);
+    if (!d.name.trim() || !(amount >= 0)) {
+      setError('Name and amount are required.');
+      return null;
+    }
+    return {
+      id,
+      project_id: projectId,
+      name: d.name,
+      amount,
+      due_date: d.due_date || null,
+      sort_order: parseInt(d.sort_order, 10) || 0,
+    };
+  };
+
+  const handleAdd = () => {
+    const milestone = fromDraft(newMilestone);
+    if (!milestone) return;
+    saveMutation.mutate(milestone, { onSuccess: () => setNewMilestone(emptyDraft) });
+  };
+
+  const handleSaveEdit = (id: string) => {
+    const milestone = fromDraft(editDraft, id);
+    if (!milestone) return;
+    saveMutation.mutate(milestone, { onSuccess: () => setEditingId(null) });
+  };
+
+  const handleDelete = (m: BillingMilestone) => {
+    const message = billed.has(m.id!)
+      ? `${m.name} has been billed. Delete it from the schedule anyway? The bill stays in the project's billing history.`
+      : `Delete milestone ${m.name}?`;
+    if (window.confirm(message)) deleteMutation.mutate(m.id!);
+  };
+
+  const busy = saveMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <div style={{ marginTop: '20px', paddingTop: '20px', borderTop: '1px solid var(--border-color)' }}>
+      <h4 style={{ marginBottom: '8px', fontSize: '14px', color: 'var(--text-secondary)' }}>Billing Milestones</h4>
+      <p style={{ fontSize: '12px', color: 'var(--text-tertiary)', marginBottom: '12px' }}>
+        Bill these from Invoices → Contracts as they are reached. Changes here save immediately.
+        {contractAmount != null && contractAmount > 0 && (
+          <> Scheduled ${fmt(scheduled)} of the ${fmt(contractAmount)} contract{Math.abs(scheduled - contractAmount) >= 0.01 ? '; the rest can be billed by percent complete.' : '.'}</>
+        )}
+      </p>
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+        <thead>
+          <tr style={{ color: 'var(--text-secondary)', textAlign: 'left' }}>
+            <th style={{ padding: '4px' }}>Milestone</th>
+            <th style={{ padding: '4px', width: '120px' }}>Amount ($)</th>
+            <th style={{ padding: '4px', width: '150px' }}>Due</th>
+            <th style={{ padding: '4px', width: '70px' }}>Order</th>
+            <th style={{ padding: '4px' }} />
+          </tr>
+        </thead>
+        <tbody>
+          {milestones.length === 0 && (
+            <tr>
+              <td colSpan={5} style={{ padding: '4px', fontStyle: 'italic', color: 'var(--text-tertiary)' }}>No milestones yet.</td>
+            </tr>
+          )}
+          {milestones.map((m) =>
+            editingId === m.id ? (
+              <tr key={m.id}>
+                <td style={{ padding: '4px' }}>
+                  <input className="input" value={editDraft.name} onChange={(e) => setEditDraft({ ...editDraft, name: e.target.value })} />
+                </td>
+                <td style={{ padding: '4px' }}>
+                  <input className="input" type="number" step="0.01" min="0" value={editDraft.amount} onChange={(e) => setEditDraft({ ...editDraft, amount: e.target.value })} />
+                </td>
+                <td style={{ padding: '4px' }}>
+                  <input className="input" type="date" value={editDraft.due_date} onChange={(e) => setEditDraft({ ...editDraft, due_date: e.target.value })} />
+                </td>
+                <td style={{ padding: '4px' }}>
+                  <input className="input" type="number" step="1" value={editDraft.sort_order} onChange={(e) => setEditDraft({ ...editDraft, sort_order: e.target.value })} />
+                </td>
+                <td style={{ padding: '4px', whiteSpace: 'nowrap', textAlign: 'right' }}>
+                  <button type="button" className="payroll-action-btn" disabled={busy} onClick={() => handleSaveEdit(m.id!)}>Save</button>{' '}
+                  <button type="button" className="payroll-action-btn" onClick={() => { setEditingId(null); setError(null); }}>Cancel</button>
+                </td>
+              </tr>
+            ) : (
+              <tr key={m.id}>
+                <td style={{ padding: '4px' }}>
+                  {m.name}
+                  {billed.has(m.id!) && <span style={{ marginLeft: '6px', fontSize: '11px', color: 'var(--success-color)' }}>✓ Billed</span>}
+                </td>
+                <td style={{ padding: '4px' }}>${fmt(m.amount)}</td>
+                <td style={{ padding: '4px' }}>{m.due_date ?? '—'}</td>
+                <td style={{ padding: '4px' }}>{m.sort_order}</td>
+                <td style={{ padding: '4px', whiteSpace: 'nowrap', textAlign: 'right' }}>
+                  <button
+                    type="button"
+                    className="payroll-action-btn"
+                    onClick={() => {
+                      setEditingId(m.id!);
+                      setEditDraft({ name: m.name, amount: String(m.amount), due_date: m.due_date ?? '', sort_order: String(m.sort_order) });
+                      setError(null);
+                    }}
+                  >
+                    Edit
+                  </button>{' '}
+                  <button type="button" className="payroll-action-btn" disabled={busy} onClick={() => handleDelete(m)}>Delete</button>
+                </td>
+              </tr>
+            )
+          )}
+          <tr>
+            <td style={{ padding: '4px' }}>
+              <input className="input" placeholder="Design complete" value={newMilestone.name} onChange={(e) => setNewMilestone({ ...newMilestone, name: e.target.value })} />
+            </td>
+            <td style={{ padding: '4px' }}>
+              <input className="input" type="number" step="0.01" min="0" value={newMilestone.amount} onChange={(e) => setNewMilestone({ ...newMilestone, amount: e.target.value })} />
+            </td>
+            <td style={{ padding: '4px' }}>
+              <input className="input" type="date" value={newMilestone.due_date} onChange={(e) => setNewMilestone({ ...newMilestone, due_date: e.target.value })} />
+            </td>
+            <td style={{ padding: '4px' }}>
+              <input className="input" type="number" step="1" value={newMilestone.sort_order} onChange={(e) => setNewMilestone({ ...newMilestone, sort_order: e.target.value })} />
+            </td>
+            <td style={{ padding: '4px', textAlign: 'right' }}>
+              <button type="button" className="payroll-action-btn" disabled={busy} onClick={handleAdd}>Add</button>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+      {error && <div style={{ marginTop: '6px', fontSize: '12px', color: 'var(--error-color)' }}>{error}</div>}
+    </div>
+  );
+}
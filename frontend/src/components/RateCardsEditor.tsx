@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { rateCardsService } from '../services/supabaseServices';
+import { RATE_KEY_LABELS, RATE_KEYS, RateCard, RateKey, rateCardAppliesOn } from '../utils/rateCards';
+import { formatYmd } from '../utils/payPeriod';
+
+type CardDraft = {
+  position: string;
+  effective_from: string;
+  effective_to: string;
+  notes: string;
+} & Record<RateKey, string>;
+
+const emptyDraft: CardDraft = { position: '', effective_from: '', effective_to: '', notes: '', rt: '', tt: '', ft: '', shop_ot: '', field_ot: '' };
+
+const RATE_COLUMNS: Record<RateKey, keyof RateCard> = {
+  rt: 'rt_rate',
+  tt: 'tt_rate',
+  ft: 'ft_rate',
+  shop_ot: 'shop_ot_rate',
+  field_ot: 'field_ot_rate',
+};
+
+/**
+ * Customers → Edit and Projects → Edit: dated rate cards for the customer or project. Cards beat
+ * the special rates above them on tickets dated inside their range; rows save on their own like
+ * the cost code editor.
+ */
+export default function RateCardsEditor({ customerId, projectId }: { customerId?: string; projectId?: string }) {
+  const queryClient = useQueryClient();
+  const [newCard, setNewCard] = useState<CardDraft>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<CardDraft>(emptyDraft);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: allCards = [] } = useQuery({
+    queryKey: ['rateCards'],
+    queryFn: () => rateCardsService.getAll(),
+  });
+  const cards = allCards.filter((c) => (projectId ? c.project_id === projectId : c.customer_id === customerId && !c.project_id));
+  const today = formatYmd(new Date());
+
+  const onSaved = () => {
+    setError(null);
+    queryClient.invalidateQueries({ queryKey: ['rateCards'] });
+  };
+  const onFailed = (err: unknown) => {
+    const message = err instanceof Error ? err.message : String((err as any)?.message ?? 'Unknown error');
+    setError(message.includes('rate_cards_dates_check') ? 'The end date must be on or after the start date.' : message);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (card: RateCard) => rateCardsService.upsert(card),
+    onSuccess: onSaved,
+    onError: onFailed,
+  });
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => rateCardsService.delete(id),
+    onSuccess: onSaved,
+    onError: onFailed,
+  });
+
+  const fromDraft = (d: CardDraft, id?: string): RateCard | null => {
+    if (!d.effective_from) {
+      setError('An effective-from date is required.');
+      return null;
+    }
+    if (d.effective_to && d.effective_to < d.effective_from) {
+      setError('The end date must be on or after the start date.');
+      return null;
+    }
+    const rate = (v: string) => (v.trim() === '' ? null : Math.max(0, parseFloat(v) || 0));
+    if (RATE_KEYS.every((key) => rate(d[key]) == null)) {
+      setError('Set at least one rate.');
+      return null;
+    }
+    return {
+      id,
+      customer_id: projectId ? null : customerId ?? null,
+      project_id: projectId ?? null,
+      position: d.position.trim() || null,
+      effective_from: d.effective_from,
+      effective_to: d.effective_to || null,
+      rt_rate: rate(d.rt),
+      tt_rate: rate(d.tt),
+      ft_rate: rate(d.ft),
+      shop_ot_rate: rate(d.shop_ot),
+      field_ot_rate: rate(d.field_ot),
+      notes: d.notes,
+    };
+  };
+
+  const toDraft = (c: RateCard): CardDraft => ({
+    position: c.position ?? '',
+    effective_from: c.effective_from,
+    effective_to: c.effective_to ?? '',
+    notes: c.notes ?? '',
+    ...(Object.fromEntries(RATE_KEYS.map((key) => [key, c[RATE_COLUMNS[key]] == null ? '' : String(c[RATE_COLUMNS[key]])])) as Record<RateKey, string>),
+  });
+
+  const handleAdd = () => {
+    const card = fromDraft(newCard);
+    if (!card) return;
+    saveMutation.mutate(card, { onSuccess: () => setNewCard(emptyDraft) });
+  };
+
+  const handleSaveEdit = (id: string) => {
+    const card = fromDraft(editDraft, id);
+    if (!card) return;
+    saveMutation.mutate(card, { onSuccess: () => setEditingId(null) });
+  };
+
+  const handleDelete = (c: RateCard) => {
+    if (window.confirm(`Delete the rate card from ${c.effective_from}? Approved tickets keep the rates frozen on them.`)) deleteMutation.mutate(c.id!);
+  };
+
+  const busy = saveMutation.isPending || deleteMutation.isPending;
+
+  const draftInputs = (d: CardDraft, set: (d: CardDraft) => void) => (
+    <>
+      <td style={{ padding: '4px' }}>
+        <input className="input" placeholder="All" value={d.position} onChange={(e) => set({ ...d, position: e.target.value })} />
+      </td>
+      <td style={{ padding: '4px' }}>
+        <input className="input" type="date" value={d.effective_from} onChange={(e) => set({ ...d, effective_from: e.target.value })} />
+      </td>
+      <td style={{ padding: '4px' }}>
+        <input className="input" type="date" value={d.effective_to} onChange={(e) => set({ ...d, effective_to: e.target.value })} />
+      </td>
+      {RATE_KEYS.map((key) => (
+        <td key={key} style={{ padding: '4px' }}>
+          <input
+            className="input"
+            type="number"
+            step="0.01"
+            min="0"
+            placeholder={key === 'shop_ot' || key === 'field_ot' ? '1.5×' : ''}
+            value={d[key]}
+            onChange={(e) => set({ ...d, [key]: e.target.value })}
+          />
+        </td>
+      ))}
+    </>
+  );
+
+  return (
+    <div style={{ marginTop: '20px', paddingTop: '20px', borderTop: '1px solid var(--border-color)' }}>
+      <h4 style={{ marginBottom: '8px', fontSize: '14px', color: 'var(--text-secondary)' }}>Rate Cards</h4>
+      <p style={{ fontSize: '12px', color: 'var(--text-tertiary)', marginBottom: '12px' }}>
+        Rates for tickets dated inside each card's range; leave the end open for a card that runs until replaced. A card for a
+        position (e.g. Senior) beats one for all positions{projectId ? ', and project cards beat customer cards' : '; project cards beat these'}.
+        Blank rates fall through to the next card, then the special rates, then the employee's rates. Blank overtime bills 1.5× the
+        card's base rate. Changes here save immediately.
+      </p>
+      <div style={{ overflowX: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+          <thead>
+            <tr style={{ color: 'var(--text-secondary)', textAlign: 'left' }}>
+              <th style={{ padding: '4px', minWidth: '90px' }}>Position</th>
+              <th style={{ padding: '4px', minWidth: '130px' }}>From</th>
+              <th style={{ padding: '4px', minWidth: '130px' }}>To</th>
+              {RATE_KEYS.map((key) => (
+                <th key={key} style={{ padding: '4px', minWidth: '80px' }}>{RATE_KEY_LABELS[key]} ($)</th>
+              ))}
+              <th style={{ padding: '4px' }} />
+            </tr>
+          </thead>
+          <tbody>
+            {cards.length === 0 && (
+              <tr>
+                <td colSpan={RATE_KEYS.length + 4} style={{ padding: '4px', fontStyle: 'italic', color: 'var(--text-tertiary)' }}>No rate cards yet.</td>
+              </tr>
+            )}
+            {cards.map((c) =>
+              editingId === c.id ? (
+                <tr key={c.id}>
+                  {draftInputs(editDraft, setEditDraft)}
+                  <td style={{ padding: '4px', whiteSpace: 'nowrap', textAlign: 'right' }}>
+                    <button type="button" className="payroll-action-btn" disabled={busy} onClick={() => handleSaveEdit(c.id!)}>Save</button>{' '}
+                    <button type="button" className="payroll-action-btn" onClick={() => { setEditingId(null); setError(null); }}>Cancel</button>
+                  </td>
+                </tr>
+              ) : (
+                <tr key={c.id} style={{ opacity: c.effective_to && c.effective_to < today ? 0.6 : 1 }}>
+                  <td style={{ padding: '4px' }}>{c.position ?? 'All'}</td>
+                  <td style={{ padding: '4px' }}>
+                    {c.effective_from}
+                    {rateCardAppliesOn(c, today) && <span style={{ marginLeft: '6px', fontSize: '11px', color: 'var(--success-color)' }}>Current</span>}
+                  </td>
+                  <td style={{ padding: '4px' }}>{c.effective_to ?? '—'}</td>
+                  {RATE_KEYS.map((key) => {
+                    const value = c[RATE_COLUMNS[key]] as number | null;
+                    return (
+                      <td key={key} style={{ padding: '4px', color: value == null ? 'var(--text-tertiary)' : undefined }}>
+                        {value == null ? '—' : `$${value.toFixed(2)}`}
+                      </td>
+                    );
+                  })}
+                  <td style={{ padding: '4px', whiteSpace: 'nowrap', textAlign: 'right' }}>
+                    <button
+                      type="button"
+                      className="payroll-action-btn"
+                      onClick={() => {
+                        setEditingId(c.id!);
+                        setEditDraft(toDraft(c));
+                        setError(null);
+                      }}
+                    >
+                      Edit
+                    </button>{' '}
+                    <button type="button" className="payroll-action-btn" disabled={busy} onClick={() => handleDelete(c)}>Delete</button>
+                  </td>
+                </tr>
+              )
+            )}
+            <tr>
+              {draftInputs(newCard, setNewCard)}
+              <td style={{ padding: '4px', textAlign: 'right' }}>
+                <button type="button" className="payroll-action-btn" disabled={busy} onClick={handleAdd}>Add</button>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      {error && <div style={{ marginTop: '6px', fontSize: '12px', color: 'var(--error-color)' }}>{error}</div>}
+    </div>
+  );
+}
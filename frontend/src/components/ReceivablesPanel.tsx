@@ -0,0 +1,445 @@
+import { Fragment, useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../context/AuthContext';
+import { receivablesService } from '../services/supabaseServices';
+import CustomerInvoiceModal, { CustomerInvoiceDraft } from './CustomerInvoiceModal';
+import {
+  AGING_BUCKETS,
+  AGING_BUCKET_LABELS,
+  CustomerInvoice,
+  INVOICE_STATUS_LABELS,
+  InvoiceStatus,
+  RECEIVABLE_ENTRY_LABELS,
+  ReceivableEntryKind,
+  TaxPeriodGrouping,
+  amountPaid,
+  buildAgingReport,
+  buildTaxCollectedReport,
+  daysPastDue,
+  invoiceBalance,
+  invoiceStatus,
+  validateReceivableEntry,
+} from '../utils/receivables';
+import { formatYmd } from '../utils/payPeriod';
+
+const fmt = (n: number) => n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const STATUS_COLORS: Record<InvoiceStatus, string> = {
+  open: 'var(--text-secondary)',
+  partial: 'var(--primary-color)',
+  overdue: 'var(--error-color)',
+  paid: 'var(--success-color)',
+  credited: 'var(--text-tertiary)',
+};
+
+type EntryDraft = { invoiceId: string; kind: ReceivableEntryKind; amount: string; received_on: string; reference: string };
+
+/**
+ * Invoices → Receivables: invoices that have gone out, what has been paid or credited against
+ * them and what is still owed. The aging table buckets open balances by days past due as of the
+ * chosen date; payments and credit notes are recorded per invoice. Tax collected totals each tax
+ * (GST, HST, PST, …) on invoices dated in each month or quarter, for filing.
+ */
+export default function ReceivablesPanel({ customerId }: { customerId?: string }) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const today = formatYmd(new Date());
+  const [asOf, setAsOf] = useState(today);
+  const [showPaid, setShowPaid] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [entry, setEntry] = useState<EntryDraft | null>(null);
+  const [editing, setEditing] = useState<CustomerInvoiceDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [taxYear, setTaxYear] = useState(() => new Date().getFullYear());
+  const [taxGrouping, setTaxGrouping] = useState<TaxPeriodGrouping>('quarter');
+
+  const { data: allInvoices = [], isLoading } = useQuery({
+    queryKey: ['customerInvoices'],
+    queryFn: () => receivablesService.getInvoices(),
+  });
+  const invoices = useMemo(
+    () => (customerId ? allInvoices.filter((i) => i.customer_id === customerId) : allInvoices),
+    [allInvoices, customerId]
+  );
+  const aging = useMemo(() => buildAgingReport(invoices, /^\d{4}-\d{2}-\d{2}$/.test(asOf) ? asOf : today), [invoices, asOf, today]);
+  const listed = showPaid ? invoices : invoices.filter((i) => invoiceBalance(i) > 0);
+  const taxYears = useMemo(() => {
+    const years = new Set(invoices.map((i) => Number(i.invoice_date.slice(0, 4))).filter((y) => y > 0));
+    years.add(new Date().getFullYear());
+    return [...years].sort((a, b) => b - a);
+  }, [invoices]);
+  const taxCollected = useMemo(() => buildTaxCollectedReport(invoices, taxYear, taxGrouping), [invoices, taxYear, taxGrouping]);
+  const showNotBrokenOut = taxCollected.totals.notBrokenOut !== 0;
+
+  const onFailed = (err: unknown) => setError(err instanceof Error ? err.message : String((err as any)?.message ?? 'Unknown error'));
+  const onDone = () => {
+    setError(null);
+    queryClient.invalidateQueries({ queryKey: ['customerInvoices'] });
+    queryClient.invalidateQueries({ queryKey: ['dash-receivables'] });
+  };
+
+  const addEntryMutation = useMutation({
+    mutationFn: async ({ invoice, draft }: { invoice: CustomerInvoice; draft: EntryDraft }) => {
+      const amount = Math.round((Number(draft.amount) || 0) * 100) / 100;
+      const problems = validateReceivableEntry(invoice, { kind: draft.kind, amount, received_on: draft.received_on });
+      if (problems.length > 0) throw new Error(problems.join(' '));
+      await receivablesService.addPayment({
+        invoice_id: invoice.id!,
+        kind: draft.kind,
+        amount,
+        received_on: draft.received_on,
+        reference: draft.reference,
+        notes: null,
+        created_by: user?.id ?? null,
+      });
+    },
+    onSuccess: () => {
+      setEntry(null);
+      onDone();
+    },
+    onError: onFailed,
+  });
+  const deleteEntryMutation = useMutation({
+    mutationFn: (id: string) => receivablesService.deletePayment(id),
+    onSuccess: onDone,
+    onError: onFailed,
+  });
+  const deleteInvoiceMutation = useMutation({
+    mutationFn: (id: string) => receivablesService.deleteInvoice(id),
+    onSuccess: onDone,
+    onError: onFailed,
+  });
+  const busy = addEntryMutation.isPending || deleteEntryMutation.isPending || deleteInvoiceMutation.isPending;
+
+  const startEntry = (invoice: CustomerInvoice, kind: ReceivableEntryKind) => {
+    setExpandedId(invoice.id!);
+    setEntry({ invoiceId: invoice.id!, kind, amount: invoiceBalance(invoice).toFixed(2), received_on: today, reference: '' });
+  };
+
+  const removeInvoice = (invoice: CustomerInvoice) => {
+    const note = invoice.payments.length > 0 ? ` Its ${invoice.payments.length} payment/credit entr${invoice.payments.length === 1 ? 'y goes' : 'ies go'} with it.` : '';
+    if (window.confirm(`Remove invoice ${invoice.invoice_number} from receivables?${note}`)) deleteInvoiceMutation.mutate(invoice.id!);
+  };
+
+  return (
+    <div>
+      <p style={{ color: 'var(--text-secondary)', fontSize: '13px', marginBottom: '16px' }}>
+        Record an invoice from its card on the Invoiced tab (or add one here), then record payments and credit notes as they come
+        in. Amounts include tax. Terms default to the customer's payment terms under Customers.
+      </p>
+      {error && <div style={{ marginBottom: '12px', fontSize: '13px', color: 'var(--error-color)' }}>{error}</div>}
+
+      <div className="card" style={{ marginBottom: '16px' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '10px', flexWrap: 'wrap', marginBottom: '10px' }}>
+          <h3 style={{ margin: 0 }}>Aging</h3>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px', color: 'var(--text-secondary)' }}>
+            As of
+            <input className="input" type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} style={{ width: 'auto' }} />
+          </label>
+        </div>
+        {aging.rows.length === 0 ? (
+          <div className="payroll-muted" style={{ fontStyle: 'italic' }}>Nothing owed as of {asOf}.</div>
+        ) : (
+          <table className="payroll-mini-table">
+            <thead>
+              <tr>
+                <th>Customer</th>
+                {AGING_BUCKETS.map((b) => (
+                  <th key={b} style={{ textAlign: 'right' }}>{AGING_BUCKET_LABELS[b]}</th>
+                ))}
+                <th style={{ textAlign: 'right' }}>Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...aging.rows, aging.totals].map((row, idx) => {
+                const isTotal = idx === aging.rows.length;
+                return (
+                  <tr key={row.customerName + idx} style={isTotal ? { fontWeight: 600, borderTop: '2px solid var(--border-color)' } : undefined}>
+                    <td>
+                      {row.customerName}
+                      {!isTotal && <span className="payroll-muted"> ({row.invoiceCount})</span>}
+                    </td>
+                    {AGING_BUCKETS.map((b) => (
+                      <td
+                        key={b}
+                        style={{ textAlign: 'right', color: b !== 'current' && row.buckets[b] > 0 ? (b === 'days_1_30' ? 'var(--warning-color)' : 'var(--error-color)') : undefined }}
+                      >
+                        {row.buckets[b] > 0 ? `$${fmt(row.buckets[b])}` : '—'}
+                      </td>
+                    ))}
+                    <td style={{ textAlign: 'right', fontWeight: 600 }}>${fmt(row.total)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="card" style={{ marginBottom: '16px' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '10px', flexWrap: 'wrap', marginBottom: '10px' }}>
+          <h3 style={{ margin: 0 }}>Tax collected</h3>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+            <select className="input" value={taxYear} onChange={(e) => setTaxYear(Number(e.target.value))} style={{ width: 'auto' }}>
+              {taxYears.map((y) => (
+                <option key={y} value={y}>{y}</option>
+              ))}
+            </select>
+            <div className="ionex-toggle-rail" role="group" aria-label="Tax period">
+              {(['month', 'quarter'] as const).map((g) => (
+                <button key={g} type="button" className={`ionex-toggle-button${taxGrouping === g ? ' is-active' : ''}`} onClick={() => setTaxGrouping(g)}>
+                  {g === 'month' ? 'Monthly' : 'Quarterly'}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+        {taxCollected.rows.length === 0 ? (
+          <div className="payroll-muted" style={{ fontStyle: 'italic' }}>No invoices dated in {taxYear}.</div>
+        ) : (
+          <>
+            <table className="payroll-mini-table">
+              <thead>
+                <tr>
+                  <th>Period</th>
+                  <th style={{ textAlign: 'right' }}>Invoiced (pre-tax)</th>
+                  {taxCollected.columns.map((c) => (
+                    <th key={c} style={{ textAlign: 'right' }}>{c}</th>
+                  ))}
+                  {showNotBrokenOut && <th style={{ textAlign: 'right' }}>Tax (not broken out)</th>}
+                  <th style={{ textAlign: 'right' }}>Total tax</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...taxCollected.rows, taxCollected.totals].map((row, idx) => {
+                  const isTotal = idx === taxCollected.rows.length;
+                  return (
+                    <tr key={row.period + idx} style={isTotal ? { fontWeight: 600, borderTop: '2px solid var(--border-color)' } : undefined}>
+                      <td>
+                        {isTotal ? `Total ${taxYear}` : row.period}
+                        {!isTotal && <span className="payroll-muted"> ({row.invoiceCount})</span>}
+                      </td>
+                      <td style={{ textAlign: 'right' }}>${fmt(row.subtotal)}</td>
+                      {taxCollected.columns.map((c) => (
+                        <td key={c} style={{ textAlign: 'right' }}>{row.byComponent[c] ? `$${fmt(row.byComponent[c])}` : '—'}</td>
+                      ))}
+                      {showNotBrokenOut && <td style={{ textAlign: 'right' }}>{row.notBrokenOut ? `$${fmt(row.notBrokenOut)}` : '—'}</td>}
+                      <td style={{ textAlign: 'right', fontWeight: 600 }}>${fmt(row.total)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <div className="payroll-muted" style={{ fontSize: '12px', marginTop: '8px' }}>
+              By invoice date. Credit notes aren't netted off; tax on invoices entered by hand shows as not broken out.
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="card">
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '10px', flexWrap: 'wrap', marginBottom: '10px' }}>
+          <h3 style={{ margin: 0 }}>Invoices</h3>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: 'var(--text-secondary)' }}>
+              <input type="checkbox" checked={showPaid} onChange={(e) => setShowPaid(e.target.checked)} />
+              Show paid
+            </label>
+            <button type="button" className="payroll-action-btn" onClick={() => setEditing({ customer_id: customerId ?? null })}>
+              Add invoice
+            </button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="payroll-muted">Loading…</div>
+        ) : listed.length === 0 ? (
+          <div className="payroll-muted" style={{ fontStyle: 'italic' }}>
+            {invoices.length === 0 ? 'No invoices recorded yet.' : 'Every invoice is paid. Tick Show paid to see them.'}
+          </div>
+        ) : (
+          <table className="payroll-mini-table">
+            <thead>
+              <tr>
+                <th>Invoice</th>
+                <th>Customer</th>
+                <th>Date</th>
+                <th>Due</th>
+                <th style={{ textAlign: 'right' }}>Total</th>
+                <th style={{ textAlign: 'right' }}>Paid / credited</th>
+                <th style={{ textAlign: 'right' }}>Balance</th>
+                <th>Status</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {listed.map((invoice) => {
+                const status = invoiceStatus(invoice, today);
+                const balance = invoiceBalance(invoice);
+                const late = daysPastDue(invoice, today);
+                const expanded = expandedId === invoice.id;
+                const draft = entry?.invoiceId === invoice.id ? entry : null;
+                return (
+                  <Fragment key={invoice.id}>
+                    <tr>
+                      <td>
+                        <button
+                          type="button"
+                          onClick={() => setExpandedId(expanded ? null : invoice.id!)}
+                          style={{ background: 'none', border: 'none', padding: 0, color: 'var(--primary-color)', cursor: 'pointer', fontWeight: 600 }}
+                        >
+                          {expanded ? '▾' : '▸'} {invoice.invoice_number}
+                        </button>
+                        {invoice.project_number && <div className="payroll-muted" style={{ fontSize: '11px' }}>{invoice.project_number}</div>}
+                      </td>
+                      <td>{invoice.customer_name}</td>
+                      <td>{invoice.invoice_date}</td>
+                      <td>
+                        {invoice.due_date}
+                        <div className="payroll-muted" style={{ fontSize: '11px' }}>Net {invoice.terms_days}</div>
+                      </td>
+                      <td style={{ textAlign: 'right' }}>${fmt(invoice.total)}</td>
+                      <td style={{ textAlign: 'right' }}>${fmt(amountPaid(invoice))}</td>
+                      <td style={{ textAlign: 'right', fontWeight: 600 }}>${fmt(balance)}</td>
+                      <td style={{ color: STATUS_COLORS[status], fontWeight: 600 }}>
+                        {INVOICE_STATUS_LABELS[status]}
+                        {status === 'overdue' && <div style={{ fontSize: '11px', fontWeight: 400 }}>{late} day{late === 1 ? '' : 's'}</div>}
+                      </td>
+                      <td style={{ textAlign: 'right', whiteSpace: 'nowrap' }}>
+                        {balance > 0 && (
+                          <button type="button" className="payroll-action-btn" disabled={busy} onClick={() => startEntry(invoice, 'payment')}>
+                            Record payment
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {expanded && (
+                      <tr>
+                        <td colSpan={9} style={{ backgroundColor: 'var(--bg-secondary)' }}>
+                          {invoice.payments.length === 0 ? (
+                            <div className="payroll-muted" style={{ fontStyle: 'italic', marginBottom: '8px' }}>No payments or credit notes yet.</div>
+                          ) : (
+                            <table className="payroll-mini-table" style={{ marginBottom: '8px' }}>
+                              <tbody>
+                                {invoice.payments.map((p) => (
+                                  <tr key={p.id}>
+                                    <td>{p.received_on}</td>
+                                    <td>{RECEIVABLE_ENTRY_LABELS[p.kind]}</td>
+                                    <td>{p.reference || '—'}</td>
+                                    <td style={{ textAlign: 'right' }}>${fmt(p.amount)}</td>
+                                    <td style={{ textAlign: 'right' }}>
+                                      <button
+                                        type="button"
+                                        className="payroll-action-btn"
+                                        disabled={busy}
+                                        onClick={() => {
+                                          if (window.confirm(`Remove this ${RECEIVABLE_ENTRY_LABELS[p.kind].toLowerCase()} of $${fmt(p.amount)}?`)) deleteEntryMutation.mutate(p.id!);
+                                        }}
+                                      >
+                                        Remove
+                                      </button>
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+
+                          {draft ? (
+                            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap', marginBottom: '8px' }}>
+                              <select
+                                className="input"
+                                value={draft.kind}
+                                onChange={(e) => setEntry({ ...draft, kind: e.target.value as ReceivableEntryKind })}
+                                style={{ width: 'auto' }}
+                              >
+                                <option value="payment">Payment</option>
+                                <option value="credit_note">Credit note</option>
+                              </select>
+                              <input
+                                className="input"
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                value={draft.amount}
+                                onChange={(e) => setEntry({ ...draft, amount: e.target.value })}
+                                style={{ width: '120px' }}
+                                aria-label="Amount"
+                              />
+                              <input
+                                className="input"
+                                type="date"
+                                value={draft.received_on}
+                                onChange={(e) => setEntry({ ...draft, received_on: e.target.value })}
+                                style={{ width: 'auto' }}
+                                aria-label={draft.kind === 'payment' ? 'Date received' : 'Date issued'}
+                              />
+                              <input
+                                className="input"
+                                placeholder={draft.kind === 'payment' ? 'Cheque / EFT #' : 'Credit note #'}
+                                value={draft.reference}
+                                onChange={(e) => setEntry({ ...draft, reference: e.target.value })}
+                                style={{ width: '160px' }}
+                              />
+                              <button
+                                type="button"
+                                className="payroll-action-btn is-primary"
+                                disabled={busy}
+                                onClick={() => addEntryMutation.mutate({ invoice, draft })}
+                              >
+                                {addEntryMutation.isPending ? 'Saving…' : 'Save'}
+                              </button>
+                              <button type="button" className="payroll-action-btn" disabled={busy} onClick={() => setEntry(null)}>
+                                Cancel
+                              </button>
+                            </div>
+                          ) : (
+                            <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+                              {balance > 0 && (
+                                <>
+                                  <button type="button" className="payroll-action-btn" disabled={busy} onClick={() => startEntry(invoice, 'payment')}>
+                                    Record payment
+                                  </button>
+                                  <button type="button" className="payroll-action-btn" disabled={busy} onClick={() => startEntry(invoice, 'credit_note')}>
+                                    Credit note
+                                  </button>
+                                </>
+                              )}
+                              <button
+                                type="button"
+                                className="payroll-action-btn"
+                                disabled={busy}
+                                onClick={() => {
+                                  const { payments: _p, ...fields } = invoice;
+                                  setEditing(fields);
+                                }}
+                              >
+                                Edit invoice
+                              </button>
+                              <button type="button" className="payroll-action-btn" disabled={busy} onClick={() => removeInvoice(invoice)}>
+                                Remove invoice
+                              </button>
+                              {invoice.notes && <span className="payroll-muted" style={{ alignSelf: 'center' }}>{invoice.notes}</span>}
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {editing && (
+        <CustomerInvoiceModal
+          initial={editing}
+          subtitle={editing.id ? `${editing.customer_name} · ${editing.invoice_number}` : undefined}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -108,6 +108,11 @@ function ProfitabilityBody() {
           <code style={{ fontSize: '12px' }}>total_amount</code> for tickets on that project. Plus customer-billed ticket expense lines (qty × rate) on those tickets.{' '}
           <strong>Include GST</strong> adds 5% to those combined billable amounts.
         </li>
+        <li style={liStyle}>
+          <strong style={{ color: 'var(--text-primary)' }}>Fixed-price &amp; retainer revenue</strong> — Labor revenue replaces ticket{' '}
+          <code style={{ fontSize: '12px' }}>total_amount</code>: fixed price earns contract × percent complete (or what has been billed, if more);
+          a retainer earns its monthly amount for each month plus overage where approved ticket labour at the usual rates went over it.
+        </li>
         <li style={liStyle}>
           <strong style={{ color: 'var(--text-primary)' }}>Labor cost</strong> — Only time entries with this <em>project</em> selected: hours × loaded pay rate (with burden) by rate type. Entries with no project do not roll into any project row.
         </li>
@@ -117,6 +122,9 @@ function ProfitabilityBody() {
         <li style={liStyle}>
           <strong style={{ color: 'var(--text-primary)' }}>Profit &amp; margin</strong> — Project revenue − project total cost; margin is profit ÷ revenue.
         </li>
+        <li style={liStyle}>
+          <strong style={{ color: 'var(--text-primary)' }}>Hour budget</strong> — Hours on the project&apos;s time entries against its hour budget (set per Field / Travel / Shop on Projects). Field and Shop overtime count toward Field and Shop. The forecast uses the average weekly hours over the last 4 weeks.
+        </li>
         <li style={liStyle}>
           Tickets in <strong>draft, submitted, or rejected</strong> are excluded from these revenue and cost totals (they may appear marked in detail for reference). Discarded tickets are excluded from expense rollups.
         </li>
@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { BatchEmail, mailService } from '../services/backendServices';
+import { customerEmailTemplatesService } from '../services/supabaseServices';
+import { useBackdropClose } from '../hooks/useBackdropClose';
+import {
+  BatchEmailKind,
+  DEFAULT_EMAIL_BODIES,
+  DEFAULT_EMAIL_SUBJECTS,
+  EmailTemplateValues,
+  blobToBase64,
+  isValidEmail,
+  parseAddressList,
+  renderEmailTemplate,
+} from '../utils/batchEmail';
+
+const fieldLabel: React.CSSProperties = { display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '12px', color: 'var(--text-secondary)' };
+
+const STATUS_COLORS: Record<BatchEmail['status'], string> = {
+  sent: 'var(--success-color)',
+  failed: 'var(--warning-color)',
+  bounced: 'var(--error-color)',
+};
+
+/** One-line summary of a send attempt for batch cards and the history list. */
+export function describeBatchEmail(send: BatchEmail): string {
+  const when = new Date(send.sent_at).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+  const what = send.kind === 'invoice' ? 'Invoice' : 'Approval bundle';
+  if (send.status === 'failed') return `${what} email failed ${when}`;
+  if (send.status === 'bounced' && send.rejected_addresses.length >= send.to_addresses.length + send.cc_addresses.length) {
+    return `${what} email bounced ${when}`;
+  }
+  const partial = send.rejected_addresses.length > 0 ? ` (bounced: ${send.rejected_addresses.join(', ')})` : '';
+  return `${what} emailed to ${send.to_addresses.join(', ')} ${when}${partial}`;
+}
+
+export function batchEmailStatusColor(send: BatchEmail): string {
+  return send.status === 'bounced' && send.rejected_addresses.length < send.to_addresses.length + send.cc_addresses.length
+    ? STATUS_COLORS.failed
+    : STATUS_COLORS[send.status];
+}
+
+/**
+ * Email a batch's merged PDF (approval bundle or invoice with tickets) to the customer's approver.
+ * Recipients, CC, subject and body start from the customer's template (Customers → Edit) and can be
+ * changed for this send. The PDF is only built once Send is clicked.
+ */
+export default function SendBatchEmailModal({
+  groupId,
+  kind,
+  customerId,
+  customerEmail,
+  values,
+  history,
+  buildPdf,
+  onSent,
+  onClose,
+}: {
+  groupId: string;
+  kind: BatchEmailKind;
+  customerId?: string | null;
+  customerEmail?: string | null;
+  values: EmailTemplateValues;
+  /** Earlier attempts for this batch, newest first. */
+  history: BatchEmail[];
+  buildPdf: () => Promise<{ blob: Blob; filename: string }>;
+  onSent?: (send: BatchEmail) => void;
+  onClose: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const backdropClose = useBackdropClose(onClose);
+
+  const { data: mailStatus } = useQuery({
+    queryKey: ['mailStatus'],
+    queryFn: () => mailService.getStatus(),
+    retry: false,
+  });
+  const { data: templates = [], isLoading: templatesLoading } = useQuery({
+    queryKey: ['customerEmailTemplates'],
+    queryFn: () => customerEmailTemplatesService.getAll(),
+  });
+
+  const template = customerId ? templates.find((t) => t.customer_id === customerId) : undefined;
+  const lastSend = history.find((h) => h.kind === kind && h.status !== 'failed');
+  const [draft, setDraft] = useState<{ to: string; cc: string; subject: string; body: string } | null>(null);
+
+  // Filled from the template once it has loaded; earlier recipients of this batch win so a resend goes to the same people.
+  const initial = {
+    to: (lastSend?.to_addresses ?? (template?.to_addresses.length ? template.to_addresses : customerEmail ? [customerEmail] : [])).join(', '),
+    cc: (lastSend?.cc_addresses ?? template?.cc_addresses ?? []).join(', '),
+    subject: renderEmailTemplate(template?.subject || DEFAULT_EMAIL_SUBJECTS[kind], values),
+    body: renderEmailTemplate(template?.body || DEFAULT_EMAIL_BODIES[kind], values),
+  };
+  const form = draft ?? initial;
+  const set = (updates: Partial<typeof form>) => setDraft({ ...form, ...updates });
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const to = parseAddressList(form.to);
+      const cc = parseAddressList(form.cc);
+      if (to.length === 0) throw new Error('Add at least one recipient.');
+      const invalid = [...to, ...cc].filter((a) => !isValidEmail(a));
+      if (invalid.length > 0) throw new Error(`Not a valid email address: ${invalid.join(', ')}`);
+      const { blob, filename } = await buildPdf();
+      return mailService.sendBatch({
+        groupId,
+        customerName: values.customer,
+        kind,
+        to,
+        cc,
+        subject: form.subject,
+        body: form.body,
+        attachment: { filename, contentBase64: await blobToBase64(blob) },
+      });
+    },
+    onSuccess: ({ send }) => {
+      queryClient.invalidateQueries({ queryKey: ['batchEmails'] });
+      onSent?.(send);
+      onClose();
+    },
+    // Failed attempts are recorded too; refresh so the history below shows it.
+    onError: () => queryClient.invalidateQueries({ queryKey: ['batchEmails'] }),
+  });
+
+  const notConfigured = mailStatus != null && !mailStatus.configured;
+
+  return (
+    <div
+      {...backdropClose}
+      className="ionex-modal-backdrop"
+      style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(0,0,0,0.5)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 9999 }}
+    >
+      <div
+        className="ionex-modal-card"
+        style={{ backgroundColor: 'var(--bg-primary)', borderRadius: '12px', padding: '24px', maxWidth: '680px', width: '92%', maxHeight: '85vh', overflowY: 'auto', boxShadow: '0 20px 60px rgba(0,0,0,0.3)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="payroll-modal-header">
+          <div>
+            <h3 className="payroll-modal-title">{kind === 'invoice' ? 'Email invoice' : 'Email for approval'}</h3>
+            <div className="payroll-modal-subtitle">
+              {values.customer} · {values.project} · {values.period}
+              {mailStatus?.from ? ` · from ${mailStatus.from}` : ''}
+            </div>
+          </div>
+          <button className="payroll-modal-close" onClick={onClose} aria-label="Close">×</button>
+        </div>
+
+        {notConfigured && (
+          <div style={{ marginBottom: '12px', padding: '10px', borderRadius: '6px', backgroundColor: 'rgba(255,193,7,0.12)', color: 'var(--warning-color)', fontSize: '12px' }}>
+            Outbound email isn't set up on the backend (SMTP_HOST / MAIL_FROM). See EMAIL_DELIVERY_SETUP.md.
+          </div>
+        )}
+
+        <div style={{ display: 'grid', gap: '10px' }}>
+          <label style={fieldLabel}>
+            To
+            <input className="input" value={form.to} disabled={templatesLoading} onChange={(e) => set({ to: e.target.value })} />
+          </label>
+          <label style={fieldLabel}>
+            CC
+            <input className="input" placeholder="Comma-separated" value={form.cc} disabled={templatesLoading} onChange={(e) => set({ cc: e.target.value })} />
+          </label>
+          <label style={fieldLabel}>
+            Subject
+            <input className="input" value={form.subject} disabled={templatesLoading} onChange={(e) => set({ subject: e.target.value })} />
+          </label>
+          <label style={fieldLabel}>
+            Message
+            <textarea
+              className="input"
+              rows={8}
+              value={form.body}
+              disabled={templatesLoading}
+              onChange={(e) => set({ body: e.target.value })}
+              style={{ fontFamily: 'inherit', resize: 'vertical' }}
+            />
+          </label>
+          <div style={{ fontSize: '12px', color: 'var(--text-tertiary)' }}>
+            The merged batch PDF is attached{kind === 'invoice' ? ' with the invoice first' : ''}. Replies go to your email address.
+          </div>
+        </div>
+
+        {history.length > 0 && (
+          <div style={{ marginTop: '16px' }}>
+            <div style={{ fontSize: '12px', fontWeight: 600, color: 'var(--text-secondary)', marginBottom: '6px' }}>Sent from this batch</div>
+            {history.map((h) => (
+              <div key={h.id} style={{ fontSize: '12px', marginBottom: '4px' }}>
+                <span style={{ color: batchEmailStatusColor(h), fontWeight: 600, textTransform: 'capitalize' }}>{h.status}</span>{' '}
+                <span style={{ color: 'var(--text-secondary)' }}>{describeBatchEmail(h)}</span>
+                {h.cc_addresses.length > 0 && <span style={{ color: 'var(--text-tertiary)' }}> · cc {h.cc_addresses.join(', ')}</span>}
+                {h.error && <div style={{ color: 'var(--text-tertiary)', marginLeft: '12px' }}>{h.error}</div>}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="payroll-modal-footer">
+          <div />
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button type="button" className="payroll-action-btn" onClick={onClose} disabled={sendMutation.isPending}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="payroll-action-btn is-primary"
+              disabled={sendMutation.isPending || templatesLoading || notConfigured}
+              onClick={() => sendMutation.mutate()}
+            >
+              {sendMutation.isPending ? 'Sending…' : lastSend ? 'Send again' : 'Send'}
+            </button>
+          </div>
+        </div>
+
+        {sendMutation.error && (
+          <div style={{ marginTop: '12px', padding: '10px', borderRadius: '6px', backgroundColor: 'rgba(220,53,69,0.10)', color: 'var(--error-color)', fontSize: '12px' }}>
+            {sendMutation.error.message}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
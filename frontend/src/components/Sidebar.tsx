@@ -3,7 +3,9 @@ import { useQuery } from '@tanstack/react-query';
 import { useAuth, canAccessInvoices, canAccessExpenses } from '../context/AuthContext';
 import { useDemoMode } from '../context/DemoModeContext';
 import { useTheme } from '../context/ThemeContext';
-import { serviceTicketsService, projectsService } from '../services/supabaseServices';
+import { serviceTicketsService, projectsService, projectBudgetAlertsService } from '../services/supabaseServices';
+import { pendingHourBudgetAlerts } from '../utils/hourBudgets';
+import { formsApi } from '../services/backendServices';
 
 export default function Sidebar() {
   const location = useLocation();
@@ -34,6 +36,31 @@ export default function Sidebar() {
   });
   const showResubmittedBadge = isAdmin && resubmittedTicketsCount > 0;
 
+  // Active projects past 75/90/100% of their hour budget that no admin has dismissed yet.
+  const { data: projectHoursUsed } = useQuery({
+    queryKey: ['projectHoursUsed', isDemoMode],
+    queryFn: () => projectBudgetAlertsService.getHoursUsed(isDemoMode),
+    enabled: !!isAdmin,
+    staleTime: 60_000,
+  });
+  const { data: acknowledgedBudgetAlerts = [] } = useQuery({
+    queryKey: ['projectBudgetAlerts'],
+    queryFn: () => projectBudgetAlertsService.getAcknowledged(),
+    enabled: !!isAdmin,
+  });
+  const hourBudgetAlertCount = projectHoursUsed
+    ? pendingHourBudgetAlerts(projectsForMissingCount || [], projectHoursUsed, acknowledgedBudgetAlerts).length
+    : 0;
+
+  // Forms waiting on this user's approval (supervisor step, or any pending form for admins).
+  const { data: formsInbox = [] } = useQuery({
+    queryKey: ['formsInbox', user?.id],
+    queryFn: () => formsApi.inbox(),
+    enabled: !!user?.id && !isDemoMode,
+    staleTime: 30_000,
+    retry: false,
+  });
+
   const { theme, toggleTheme } = useTheme();
   const navigate = useNavigate();
   const isActive = (path: string) => location.pathname === path || location.pathname.startsWith(path);
@@ -104,6 +131,16 @@ export default function Sidebar() {
             <SidebarLink to="/calendar" active={isActive('/calendar')}>
               Timer
             </SidebarLink>
+            {!isDemoMode && (
+              <SidebarLink to="/forms" active={isActive('/forms')}>
+                <span style={{ display: 'flex', alignItems: 'center', gap: '6px', color: isActive('/forms') ? 'var(--logo-red)' : 'inherit' }}>
+                  Forms
+                  {formsInbox.length > 0 && (
+                    <NumericBadge count={formsInbox.length} tooltip={`${formsInbox.length} form(s) awaiting your approval`} bg="#eab308" />
+                  )}
+                </span>
+              </SidebarLink>
+            )}
           </div>
 
         {!isAdmin && (
@@ -181,6 +218,9 @@ export default function Sidebar() {
                   )}
                 </span>
               </SidebarLink>
+              <SidebarLink to="/dispatch" active={isActive('/dispatch')}>
+                Dispatch
+              </SidebarLink>
               {canAccessExpenses(user) && (
                 <SidebarLink to="/expenses" active={isActive('/expenses')}>
                   Expenses
@@ -213,6 +253,9 @@ export default function Sidebar() {
               <SidebarLink to="/employees" active={isActive('/employees')}>
                 Employees
               </SidebarLink>
+              <SidebarLink to="/time-import" active={isActive('/time-import')}>
+                Import Hours
+              </SidebarLink>
             </div>
           </>
         )}
@@ -239,7 +282,16 @@ export default function Sidebar() {
           )}
           {isAdmin && (
             <SidebarLink to="/profitability" active={isActive('/profitability')}>
-              Profitability
+              <span style={{ display: 'flex', alignItems: 'center', gap: '6px', color: isActive('/profitability') ? 'var(--logo-red)' : 'inherit' }}>
+                Profitability
+                {hourBudgetAlertCount > 0 && (
+                  <NumericBadge
+                    count={hourBudgetAlertCount}
+                    tooltip={`${hourBudgetAlertCount} project(s) past an hour budget threshold`}
+                    bg="#f59e0b"
+                  />
+                )}
+              </span>
             </SidebarLink>
           )}
         </div>
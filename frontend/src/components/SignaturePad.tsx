@@ -0,0 +1,118 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Draw-a-signature box for the approver portal. Reports a PNG data URL after every stroke
+ * (null once cleared). Works with mouse, pen and touch through pointer events.
+ */
+export default function SignaturePad({
+  onChange,
+  disabled,
+  height = 140,
+}: {
+  onChange: (dataUrl: string | null) => void;
+  disabled?: boolean;
+  height?: number;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const drawing = useRef(false);
+  const hasInk = useRef(false);
+
+  // Size the bitmap to the element so strokes aren't stretched; a resize clears the pad.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const fit = () => {
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = canvas.offsetWidth * ratio;
+      canvas.height = height * ratio;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.scale(ratio, ratio);
+      ctx.lineWidth = 2.2;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.strokeStyle = '#10204a';
+      if (hasInk.current) {
+        hasInk.current = false;
+        onChange(null);
+      }
+    };
+    fit();
+    window.addEventListener('resize', fit);
+    return () => window.removeEventListener('resize', fit);
+  }, [height, onChange]);
+
+  const point = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const start = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const { x, y } = point(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x + 0.1, y + 0.1);
+    ctx.stroke();
+  };
+
+  const move = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const { x, y } = point(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const end = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    hasInk.current = true;
+    onChange(e.currentTarget.toDataURL('image/png'));
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.restore();
+    hasInk.current = false;
+    onChange(null);
+  };
+
+  return (
+    <div>
+      <canvas
+        ref={canvasRef}
+        onPointerDown={start}
+        onPointerMove={move}
+        onPointerUp={end}
+        onPointerCancel={end}
+        style={{
+          display: 'block',
+          width: '100%',
+          height: `${height}px`,
+          border: '1px dashed var(--border-color)',
+          borderRadius: '6px',
+          backgroundColor: '#fff',
+          touchAction: 'none',
+          cursor: disabled ? 'not-allowed' : 'crosshair',
+        }}
+      />
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '4px', fontSize: '12px', color: 'var(--text-tertiary)' }}>
+        <span>Sign above with your mouse, pen or finger.</span>
+        <button type="button" className="payroll-action-btn" onClick={clear} disabled={disabled}>
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { statHolidaysService } from '../services/supabaseServices';
+import { useBackdropClose } from '../hooks/useBackdropClose';
+import {
+  defaultStatHolidays,
+  STAT_HOLIDAY_JURISDICTIONS,
+  statHolidaysAreCustom,
+  statHolidaysForYear,
+  statPayRuleFor,
+} from '../utils/statHolidays';
+
+type HolidayDraft = { date: string; name: string };
+
+const toDrafts = (jurisdiction: string, year: number): HolidayDraft[] =>
+  statHolidaysForYear(jurisdiction, year).map((h) => ({ date: h.date, name: h.name }));
+
+/**
+ * Admin editor for `stat_holidays` (Payroll → Stat holidays). One province and year at a time;
+ * saving replaces that year's rows, and "Use defaults" drops them so the built-in calendar applies.
+ */
+export default function StatHolidaysModal({ onClose }: { onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const backdropClose = useBackdropClose(onClose);
+  const [jurisdiction, setJurisdiction] = useState<string>(STAT_HOLIDAY_JURISDICTIONS[0]);
+  const [year, setYear] = useState<number>(() => new Date().getFullYear());
+  const [drafts, setDrafts] = useState<HolidayDraft[]>(() => toDrafts(STAT_HOLIDAY_JURISDICTIONS[0], new Date().getFullYear()));
+
+  const select = (j: string, y: number) => {
+    setJurisdiction(j);
+    setYear(y);
+    setDrafts(toDrafts(j, y));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (holidays: HolidayDraft[]) => statHolidaysService.saveYear(jurisdiction, year, holidays),
+    onSuccess: async () => {
+      // Refetch (and re-register) before re-reading the year so the table shows what was saved.
+      await queryClient.refetchQueries({ queryKey: ['statHolidays'] });
+      setDrafts(toDrafts(jurisdiction, year));
+    },
+  });
+
+  const rule = statPayRuleFor(jurisdiction);
+  const isCustom = statHolidaysAreCustom(jurisdiction, year);
+  const sorted = [...drafts].sort((a, b) => a.date.localeCompare(b.date));
+  const invalid = drafts.some((d) => !d.date || !d.name.trim() || !d.date.startsWith(`${year}-`));
+  const duplicate = new Set(drafts.map((d) => d.date)).size !== drafts.length;
+  const fieldLabel = { display: 'flex', flexDirection: 'column' as const, gap: '4px', fontSize: '12px', color: 'var(--text-secondary)' };
+
+  return (
+    <div
+      {...backdropClose}
+      className="ionex-modal-backdrop"
+      style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(0,0,0,0.5)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 9999 }}
+    >
+      <div
+        className="ionex-modal-card"
+        style={{ backgroundColor: 'var(--bg-primary)', borderRadius: '12px', padding: '24px', maxWidth: '680px', width: '92%', maxHeight: '85vh', overflowY: 'auto', boxShadow: '0 20px 60px rgba(0,0,0,0.3)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="payroll-modal-header">
+          <div>
+            <h3 className="payroll-modal-title">Stat holidays</h3>
+            <div className="payroll-modal-subtitle">
+              Employees get an average day's pay for each holiday they qualify for (wages over the {rule.lookbackDays} days before ÷ days
+              worked), and {rule.premiumMultiplier}x for hours worked on it. Employees follow the province set on their employee record.
+            </div>
+          </div>
+          <button className="payroll-modal-close" onClick={onClose} aria-label="Close">×</button>
+        </div>
+
+        <div style={{ display: 'flex', gap: '10px', marginBottom: '12px' }}>
+          <label style={fieldLabel}>
+            Province
+            <select className="input" value={jurisdiction} onChange={(e) => select(e.target.value, year)}>
+              {STAT_HOLIDAY_JURISDICTIONS.map((j) => (
+                <option key={j} value={j}>{j}</option>
+              ))}
+            </select>
+          </label>
+          <label style={fieldLabel}>
+            Year
+            <input
+              type="number"
+              step="1"
+              className="payroll-input-num"
+              value={year}
+              onChange={(e) => {
+                const y = Number(e.target.value);
+                if (y >= 2000 && y <= 2100) select(jurisdiction, y);
+              }}
+            />
+          </label>
+          <div style={{ alignSelf: 'flex-end', paddingBottom: '6px' }}>
+            <span className={isCustom ? 'payroll-pill is-owed' : 'payroll-pill is-muted'}>{isCustom ? 'Edited' : 'Built-in calendar'}</span>
+          </div>
+        </div>
+
+        <table className="payroll-mini-table">
+          <thead>
+            <tr>
+              <th>Date</th>
+              <th>Holiday</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.length === 0 && (
+              <tr>
+                <td colSpan={3} className="payroll-muted" style={{ fontStyle: 'italic' }}>No holidays.</td>
+              </tr>
+            )}
+            {sorted.map((d) => {
+              const index = drafts.indexOf(d);
+              const update = (patch: Partial<HolidayDraft>) =>
+                setDrafts((prev) => prev.map((x, i) => (i === index ? { ...x, ...patch } : x)));
+              return (
+                <tr key={index}>
+                  <td>
+                    <input type="date" className="input" value={d.date} onChange={(e) => update({ date: e.target.value })} />
+                  </td>
+                  <td>
+                    <input className="input" value={d.name} onChange={(e) => update({ name: e.target.value })} />
+                  </td>
+                  <td style={{ textAlign: 'right' }}>
+                    <button
+                      type="button"
+                      className="payroll-action-btn"
+                      onClick={() => setDrafts((prev) => prev.filter((_, i) => i !== index))}
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <div className="payroll-modal-footer">
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button type="button" className="payroll-action-btn" onClick={() => setDrafts((prev) => [...prev, { date: `${year}-01-01`, name: '' }])}>
+              + Add holiday
+            </button>
+            <button
+              type="button"
+              className="payroll-action-btn"
+              disabled={saveMutation.isPending || !isCustom}
+              title="Drop this year's edits and use the built-in calendar"
+              onClick={() => {
+                if (window.confirm(`Revert ${jurisdiction} ${year} to the built-in ${defaultStatHolidays(jurisdiction, year).length} holidays?`)) {
+                  saveMutation.mutate([]);
+                }
+              }}
+            >
+              Use defaults
+            </button>
+          </div>
+          <button
+            type="button"
+            className="payroll-action-btn is-primary"
+            disabled={saveMutation.isPending || invalid || duplicate || drafts.length === 0}
+            onClick={() => saveMutation.mutate(drafts)}
+          >
+            {saveMutation.isPending ? 'Saving…' : `Save ${jurisdiction} ${year}`}
+          </button>
+        </div>
+
+        {(invalid || duplicate) && drafts.length > 0 && (
+          <div style={{ marginTop: '8px', fontSize: '12px', color: 'var(--warning-color)' }}>
+            {duplicate ? 'Two holidays share a date.' : `Every holiday needs a name and a date in ${year}.`}
+          </div>
+        )}
+        {saveMutation.error && (
+          <div style={{ marginTop: '12px', padding: '10px', borderRadius: '6px', backgroundColor: 'rgba(220,53,69,0.10)', color: 'var(--error-color)', fontSize: '12px' }}>
+            {(saveMutation.error as Error).message || 'Failed to save stat holidays.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { taxCodesService } from '../services/supabaseServices';
+import {
+  describeTaxCode,
+  EMPTY_TAX_SETTINGS,
+  parseTaxComponents,
+  TAXABLE_EXPENSE_TYPES,
+  TaxCode,
+  taxCodeRate,
+} from '../utils/taxCodes';
+
+const fieldLabel: React.CSSProperties = { display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '12px', color: 'var(--text-secondary)' };
+
+type CodeForm = {
+  id?: string;
+  code: string;
+  name: string;
+  components: { name: string; percent: string }[];
+  is_exempt: boolean;
+  exempt_note: string;
+  is_default: boolean;
+  active: boolean;
+  sort_order: string;
+  qbo_tax_code: string;
+};
+
+const toForm = (c: TaxCode): CodeForm => ({
+  id: c.id,
+  code: c.code,
+  name: c.name,
+  components: c.components.map((x) => ({ name: x.name, percent: String(Math.round(x.rate * 100000) / 1000) })),
+  is_exempt: c.is_exempt,
+  exempt_note: c.exempt_note ?? '',
+  is_default: c.is_default,
+  active: c.active,
+  sort_order: String(c.sort_order),
+  qbo_tax_code: c.qbo_tax_code ?? '',
+});
+
+const NEW_CODE: CodeForm = {
+  code: '',
+  name: '',
+  components: [{ name: 'GST', percent: '5' }],
+  is_exempt: false,
+  exempt_note: '',
+  is_default: false,
+  active: true,
+  sort_order: '100',
+  qbo_tax_code: '',
+};
+
+/**
+ * Invoices → Settings → Tax codes: the codes customers and projects are assigned (GST, HST, GST +
+ * PST, exempt), which one applies when none is, and per-expense-type overrides.
+ */
+export default function TaxCodesEditor() {
+  const queryClient = useQueryClient();
+  const { data: settings = EMPTY_TAX_SETTINGS, isLoading } = useQuery({
+    queryKey: ['taxSettings'],
+    queryFn: () => taxCodesService.getSettings(),
+  });
+  const [editing, setEditing] = useState<CodeForm | null>(null);
+  const set = (updates: Partial<CodeForm>) => setEditing((prev) => (prev ? { ...prev, ...updates } : prev));
+  const setComponent = (i: number, updates: Partial<CodeForm['components'][number]>) =>
+    setEditing((prev) => (prev ? { ...prev, components: prev.components.map((c, j) => (j === i ? { ...c, ...updates } : c)) } : prev));
+
+  const saveMutation = useMutation({
+    mutationFn: async (form: CodeForm) => {
+      if (!form.code.trim()) throw new Error('Enter a code, e.g. HST-ON.');
+      if (!form.name.trim()) throw new Error('Enter a name.');
+      const components = parseTaxComponents(form.components);
+      if (!form.is_exempt && components.length === 0) throw new Error('Add at least one tax with a rate, or mark the code exempt.');
+      if (form.is_default && !form.active) throw new Error('The default code has to be active.');
+      await taxCodesService.upsert({
+        id: form.id,
+        code: form.code,
+        name: form.name,
+        components,
+        is_exempt: form.is_exempt,
+        exempt_note: form.is_exempt ? form.exempt_note : null,
+        is_default: form.is_default,
+        active: form.active,
+        sort_order: Math.round(Number(form.sort_order) || 0),
+        qbo_tax_code: form.qbo_tax_code,
+      });
+    },
+    onSuccess: () => {
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey: ['taxSettings'] });
+    },
+  });
+
+  const expenseTypeMutation = useMutation({
+    mutationFn: ({ expenseType, taxCodeId }: { expenseType: string; taxCodeId: string | null }) =>
+      taxCodesService.setExpenseTypeCode(expenseType, taxCodeId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['taxSettings'] }),
+  });
+
+  if (isLoading) return <div className="payroll-muted">Loading…</div>;
+
+  const activeCodes = settings.codes.filter((c) => c.active);
+  const error = saveMutation.error ?? expenseTypeMutation.error;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+      <div className="ionex-settings-card">
+        <table className="ionex-settings-table">
+          <thead>
+            <tr>
+              <th>Code</th>
+              <th>Name</th>
+              <th>Tax</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {settings.codes.length === 0 ? (
+              <tr>
+                <td colSpan={4} style={{ padding: '24px', textAlign: 'center', color: 'var(--text-tertiary)', fontStyle: 'italic' }}>
+                  No tax codes yet; invoices use 5% GST until one is added.
+                </td>
+              </tr>
+            ) : (
+              settings.codes.map((c) => (
+                <tr key={c.id} style={c.active ? undefined : { opacity: 0.55 }}>
+                  <td className="name-cell">
+                    {c.code}
+                    {c.is_default && <span style={{ marginLeft: '6px', fontSize: '11px', color: 'var(--primary-color)' }}>default</span>}
+                    {!c.active && <span style={{ marginLeft: '6px', fontSize: '11px', color: 'var(--text-tertiary)' }}>inactive</span>}
+                  </td>
+                  <td>{c.name}</td>
+                  <td style={{ color: 'var(--text-secondary)' }}>
+                    {describeTaxCode(c)}
+                    {!c.is_exempt && c.components.length > 1 && ` = ${Math.round(taxCodeRate(c) * 100000) / 1000}%`}
+                  </td>
+                  <td style={{ textAlign: 'right' }}>
+                    <button type="button" className="payroll-action-btn" onClick={() => setEditing(toForm(c))}>
+                      Edit
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+        {!editing && (
+          <div style={{ padding: '12px' }}>
+            <button type="button" className="payroll-action-btn is-primary" onClick={() => setEditing({ ...NEW_CODE, components: [...NEW_CODE.components] })}>
+              Add tax code
+            </button>
+          </div>
+        )}
+      </div>
+
+      {editing && (
+        <div className="ionex-settings-card" style={{ padding: '16px', maxWidth: '640px' }}>
+          <div style={{ display: 'grid', gap: '10px', gridTemplateColumns: '1fr 2fr 1fr' }}>
+            <label style={fieldLabel}>
+              Code
+              <input className="input" value={editing.code} onChange={(e) => set({ code: e.target.value })} placeholder="HST-ON" />
+            </label>
+            <label style={fieldLabel}>
+              Name
+              <input className="input" value={editing.name} onChange={(e) => set({ name: e.target.value })} placeholder="HST 13% (ON)" />
+            </label>
+            <label style={fieldLabel}>
+              Sort order
+              <input className="input" type="number" value={editing.sort_order} onChange={(e) => set({ sort_order: e.target.value })} />
+            </label>
+            <label style={{ ...fieldLabel, gridColumn: '1 / -1' }}>
+              QuickBooks tax code (name or Id)
+              <input
+                className="input"
+                value={editing.qbo_tax_code}
+                onChange={(e) => set({ qbo_tax_code: e.target.value })}
+                placeholder={editing.code.trim().toUpperCase() || 'HST ON'}
+              />
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', gridColumn: '1 / -1' }}>
+              <input type="checkbox" checked={editing.is_exempt} onChange={(e) => set({ is_exempt: e.target.checked })} />
+              Exempt (no tax charged)
+            </label>
+            {editing.is_exempt ? (
+              <label style={{ ...fieldLabel, gridColumn: '1 / -1' }}>
+                Note printed on invoices instead of tax
+                <input
+                  className="input"
+                  value={editing.exempt_note}
+                  onChange={(e) => set({ exempt_note: e.target.value })}
+                  placeholder="Tax exempt: services delivered on reserve (Indian Act s.87)"
+                />
+              </label>
+            ) : (
+              <div style={{ gridColumn: '1 / -1', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                <span style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>Taxes (each is its own line on invoices)</span>
+                {editing.components.map((c, i) => (
+                  <div key={i} style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                    <input className="input" style={{ width: '120px' }} value={c.name} onChange={(e) => setComponent(i, { name: e.target.value })} placeholder="PST" />
+                    <input
+                      className="input"
+                      style={{ width: '90px' }}
+                      type="number"
+                      step="0.001"
+                      min={0}
+                      value={c.percent}
+                      onChange={(e) => setComponent(i, { percent: e.target.value })}
+                    />
+                    <span style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>%</span>
+                    <button
+                      type="button"
+                      className="payroll-action-btn"
+                      onClick={() => set({ components: editing.components.filter((_, j) => j !== i) })}
+                      disabled={editing.components.length === 1}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+                <div>
+                  <button type="button" className="payroll-action-btn" onClick={() => set({ components: [...editing.components, { name: '', percent: '' }] })}>
+                    Add tax
+                  </button>
+                </div>
+              </div>
+            )}
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px' }}>
+              <input type="checkbox" checked={editing.is_default} onChange={(e) => set({ is_default: e.target.checked })} />
+              Default
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px' }}>
+              <input type="checkbox" checked={editing.active} onChange={(e) => set({ active: e.target.checked })} />
+              Active
+            </label>
+          </div>
+          <p style={{ margin: '10px 0 0', fontSize: '12px', color: 'var(--text-tertiary)' }}>
+            The default applies to customers and projects without a code. Inactive codes stay on whoever already has them.
+          </p>
+          <div style={{ display: 'flex', gap: '8px', marginTop: '12px' }}>
+            <button type="button" className="payroll-action-btn is-primary" disabled={saveMutation.isPending} onClick={() => saveMutation.mutate(editing)}>
+              {saveMutation.isPending ? 'Saving…' : 'Save'}
+            </button>
+            <button type="button" className="payroll-action-btn" disabled={saveMutation.isPending} onClick={() => { setEditing(null); saveMutation.reset(); }}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="ionex-settings-card">
+        <table className="ionex-settings-table">
+          <thead>
+            <tr>
+              <th>Expense type</th>
+              <th>Tax code</th>
+            </tr>
+          </thead>
+          <tbody>
+            {TAXABLE_EXPENSE_TYPES.map((type) => (
+              <tr key={type}>
+                <td className="name-cell">{type}</td>
+                <td>
+                  <select
+                    value={settings.expenseTypeCodes[type] ?? ''}
+                    disabled={expenseTypeMutation.isPending}
+                    onChange={(e) => expenseTypeMutation.mutate({ expenseType: type, taxCodeId: e.target.value || null })}
+                  >
+                    <option value="">Same as the ticket</option>
+                    {activeCodes.map((c) => (
+                      <option key={c.id} value={c.id}>{c.code} – {describeTaxCode(c)}</option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p style={{ margin: 0, padding: '8px 12px 12px', fontSize: '12px', color: 'var(--text-tertiary)' }}>
+          Tickets for an exempt customer or project stay exempt whatever the expense type.
+        </p>
+      </div>
+
+      {error && (
+        <div style={{ padding: '10px', borderRadius: '6px', backgroundColor: 'rgba(220,53,69,0.10)', color: 'var(--error-color)', fontSize: '12px' }}>
+          {error.message}
+        </div>
+      )}
+    </div>
+  );
+}
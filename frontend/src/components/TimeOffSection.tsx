@@ -0,0 +1,353 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { FormRecord, formsApi } from '../services/backendServices';
+import { FormDecision } from '../utils/forms';
+import {
+  DEFAULT_LEAVE_HOURS_PER_DAY,
+  expandLeaveDays,
+  LEAVE_TYPE_LABELS,
+  LEAVE_TYPES,
+  LeaveType,
+  parseTimeOffContent,
+  TIME_OFF_FORM_TYPE,
+  TimeOffRequest,
+} from '../utils/leave';
+
+const todayYmd = (): string => {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const STATUS_STYLE: Record<FormRecord['status'], { bg: string; color: string }> = {
+  pending: { bg: 'rgba(255, 193, 7, 0.15)', color: '#f0ad4e' },
+  approved: { bg: 'rgba(78, 205, 196, 0.15)', color: '#4ecdc4' },
+  rejected: { bg: 'rgba(255, 71, 87, 0.15)', color: '#ff4757' },
+};
+
+const personName = (form: FormRecord): string => {
+  const u = form.employee?.user;
+  return u ? [u.first_name, u.last_name].filter(Boolean).join(' ') || u.email : 'Unknown';
+};
+
+const describeRequest = (r: TimeOffRequest): string => {
+  const days = expandLeaveDays(r.startDate, r.endDate).length;
+  const range = r.startDate === r.endDate ? r.startDate : `${r.startDate} → ${r.endDate}`;
+  return `${LEAVE_TYPE_LABELS[r.leaveType]} · ${range} · ${days} day${days === 1 ? '' : 's'} × ${r.hoursPerDay}h`;
+};
+
+const tableStyle: React.CSSProperties = { width: '100%', borderCollapse: 'collapse', fontSize: '13px' };
+const thStyle: React.CSSProperties = { textAlign: 'left', padding: '6px 8px', color: 'var(--text-secondary)', fontWeight: 600, borderBottom: '1px solid var(--border-color)' };
+const tdStyle: React.CSSProperties = { padding: '6px 8px', borderBottom: '1px solid var(--border-color)', color: 'var(--text-primary)' };
+const numStyle: React.CSSProperties = { ...tdStyle, textAlign: 'right' };
+
+function StatusPill({ status }: { status: FormRecord['status'] }) {
+  const s = STATUS_STYLE[status];
+  return (
+    <span style={{ padding: '2px 8px', borderRadius: '10px', fontSize: '11px', fontWeight: 600, backgroundColor: s.bg, color: s.color, textTransform: 'capitalize' }}>
+      {status}
+    </span>
+  );
+}
+
+/**
+ * Profile → Time off: leave balances, a time-off request form and the user's own requests; admins
+ * also get the queue of pending requests to approve or reject. Everything goes through /api/forms
+ * so balances are checked server-side and approvals book leave days.
+ */
+export default function TimeOffSection({
+  isAdmin,
+  cardStyle,
+  sectionTitleStyle,
+  labelStyle,
+  inputStyle,
+}: {
+  isAdmin: boolean;
+  cardStyle: React.CSSProperties;
+  sectionTitleStyle: React.CSSProperties;
+  labelStyle: React.CSSProperties;
+  inputStyle: React.CSSProperties;
+}) {
+  const queryClient = useQueryClient();
+  const [request, setRequest] = useState<TimeOffRequest>(() => ({
+    leaveType: 'vacation',
+    startDate: todayYmd(),
+    endDate: todayYmd(),
+    hoursPerDay: DEFAULT_LEAVE_HOURS_PER_DAY,
+    reason: '',
+  }));
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const { data: balances = [], error: balancesError } = useQuery({
+    queryKey: ['leaveBalances', 'me'],
+    queryFn: () => formsApi.getLeaveBalances(),
+    retry: false,
+  });
+  const { data: forms = [] } = useQuery({
+    queryKey: ['timeOffForms'],
+    queryFn: () => formsApi.list({ formType: TIME_OFF_FORM_TYPE }),
+    retry: false,
+  });
+
+  // Only types with a policy (plus unpaid) can be requested; fall back when the default has none.
+  const availableTypes = LEAVE_TYPES.filter((t) => t === 'unpaid' || balances.some((b) => b.leave_type === t));
+  const leaveType: LeaveType = availableTypes.includes(request.leaveType) ? request.leaveType : availableTypes[0];
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['leaveBalances'] });
+    queryClient.invalidateQueries({ queryKey: ['timeOffForms'] });
+    queryClient.invalidateQueries({ queryKey: ['leaveDays'] });
+    queryClient.invalidateQueries({ queryKey: ['formsInbox'] });
+    queryClient.invalidateQueries({ queryKey: ['forms'] });
+  };
+
+  const requestMutation = useMutation({
+    mutationFn: () => formsApi.requestTimeOff({ ...request, leaveType, reason: request.reason?.trim() || undefined }),
+    onSuccess: () => {
+      setMessage({ type: 'success', text: 'Time-off request submitted for approval.' });
+      invalidate();
+    },
+    onError: (err: Error) => setMessage({ type: 'error', text: err.message || 'Failed to submit the request.' }),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ id, decision }: { id: string; decision: FormDecision }) => formsApi.decide(id, decision),
+    onSuccess: invalidate,
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: (id: string) => formsApi.remove(id),
+    onSuccess: invalidate,
+  });
+
+  const requestDays = request.endDate >= request.startDate ? expandLeaveDays(request.startDate, request.endDate).length : 0;
+  const requestHours = requestDays * (Number(request.hoursPerDay) || 0);
+  const selectedBalance = balances.find((b) => b.leave_type === leaveType);
+
+  const parsed = forms
+    .map((form) => ({ form, request: parseTimeOffContent(form.content) }))
+    .filter((f): f is { form: FormRecord; request: TimeOffRequest } => !!f.request);
+  const pendingQueue = isAdmin ? parsed.filter((f) => f.form.status === 'pending') : [];
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    if (requestDays === 0) {
+      setMessage({ type: 'error', text: 'Pick a range that includes at least one weekday.' });
+      return;
+    }
+    requestMutation.mutate();
+  };
+
+  return (
+    <div style={cardStyle}>
+      <h3 style={sectionTitleStyle}>
+        <span style={{ fontSize: '20px' }}>🌴</span>
+        Time Off
+      </h3>
+
+      {balancesError ? (
+        <div style={{ color: '#ff4757', fontSize: '14px', marginBottom: '16px' }}>
+          {balancesError instanceof Error ? balancesError.message : 'Cannot load leave balances.'}
+        </div>
+      ) : balances.length === 0 ? (
+        <p style={{ color: 'var(--text-secondary)', fontSize: '14px', marginBottom: '16px' }}>
+          No leave policies are set up for you yet — an admin can add them on the Employees page. Unpaid leave can still be requested.
+        </p>
+      ) : (
+        <table style={{ ...tableStyle, marginBottom: '20px' }}>
+          <thead>
+            <tr>
+              <th style={thStyle}>Leave</th>
+              <th style={{ ...thStyle, textAlign: 'right' }}>Earned</th>
+              <th style={{ ...thStyle, textAlign: 'right' }}>Used</th>
+              <th style={{ ...thStyle, textAlign: 'right' }}>Pending</th>
+              <th style={{ ...thStyle, textAlign: 'right' }}>Available</th>
+            </tr>
+          </thead>
+          <tbody>
+            {balances.map((b) => (
+              <tr key={b.leave_type}>
+                <td style={tdStyle}>
+                  {LEAVE_TYPE_LABELS[b.leave_type]}
+                  {!b.is_paid && <span style={{ color: 'var(--text-secondary)' }}> (unpaid)</span>}
+                </td>
+                <td style={numStyle}>{b.earned.toFixed(2)}h</td>
+                <td style={numStyle}>{b.used.toFixed(2)}h</td>
+                <td style={numStyle}>{b.pending > 0 ? `${b.pending.toFixed(2)}h` : '—'}</td>
+                <td style={{ ...numStyle, fontWeight: 600 }}>
+                  {b.available.toFixed(2)}h
+                  {b.max_balance !== null && <div style={{ fontSize: '11px', fontWeight: 400, color: 'var(--text-secondary)' }}>cap {b.max_balance}h</div>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <form onSubmit={handleSubmit}>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '16px', marginBottom: '16px' }}>
+          <div>
+            <label style={labelStyle}>Type</label>
+            <select
+              value={leaveType}
+              onChange={(e) => setRequest({ ...request, leaveType: e.target.value as LeaveType })}
+              style={inputStyle}
+            >
+              {availableTypes.map((t) => (
+                <option key={t} value={t}>{LEAVE_TYPE_LABELS[t]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label style={labelStyle}>From</label>
+            <input
+              type="date"
+              value={request.startDate}
+              onChange={(e) => setRequest({ ...request, startDate: e.target.value, endDate: request.endDate < e.target.value ? e.target.value : request.endDate })}
+              style={inputStyle}
+            />
+          </div>
+          <div>
+            <label style={labelStyle}>To</label>
+            <input
+              type="date"
+              value={request.endDate}
+              min={request.startDate}
+              onChange={(e) => setRequest({ ...request, endDate: e.target.value })}
+              style={inputStyle}
+            />
+          </div>
+          <div>
+            <label style={labelStyle}>Hours per day</label>
+            <input
+              type="number"
+              min={0.5}
+              max={24}
+              step={0.5}
+              value={request.hoursPerDay}
+              onChange={(e) => setRequest({ ...request, hoursPerDay: Number(e.target.value) })}
+              style={inputStyle}
+            />
+          </div>
+        </div>
+        <div style={{ marginBottom: '16px' }}>
+          <label style={labelStyle}>Reason (optional)</label>
+          <input
+            type="text"
+            value={request.reason || ''}
+            onChange={(e) => setRequest({ ...request, reason: e.target.value })}
+            style={inputStyle}
+            placeholder="e.g. Family trip"
+          />
+        </div>
+
+        {message && (
+          <div style={{
+            padding: '12px 16px',
+            borderRadius: '8px',
+            marginBottom: '16px',
+            backgroundColor: message.type === 'success' ? 'rgba(78, 205, 196, 0.1)' : 'rgba(255, 71, 87, 0.1)',
+            border: `1px solid ${message.type === 'success' ? '#4ecdc4' : '#ff4757'}`,
+            color: message.type === 'success' ? '#4ecdc4' : '#ff4757',
+          }}>
+            {message.text}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '16px', flexWrap: 'wrap' }}>
+          <button type="submit" className="button button-primary" disabled={requestMutation.isPending}>
+            {requestMutation.isPending ? 'Submitting...' : 'Request Time Off'}
+          </button>
+          <span style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>
+            {requestDays} weekday{requestDays === 1 ? '' : 's'} · {requestHours.toFixed(2)}h
+            {selectedBalance && leaveType !== 'unpaid' && (
+              <> · {Math.max(0, selectedBalance.available - selectedBalance.pending).toFixed(2)}h available</>
+            )}
+          </span>
+        </div>
+      </form>
+
+      {pendingQueue.length > 0 && (
+        <div style={{ marginTop: '24px' }}>
+          <div style={{ ...labelStyle, marginBottom: '8px' }}>Awaiting your approval</div>
+          {(reviewMutation.error as Error | null) && (
+            <div style={{ marginBottom: '8px', padding: '10px', borderRadius: '6px', backgroundColor: 'rgba(220,53,69,0.10)', color: 'var(--error-color)', fontSize: '12px' }}>
+              {(reviewMutation.error as Error).message}
+            </div>
+          )}
+          <table style={tableStyle}>
+            <tbody>
+              {pendingQueue.map(({ form, request: r }) => (
+                <tr key={form.id}>
+                  <td style={tdStyle}>{personName(form)}</td>
+                  <td style={tdStyle}>
+                    {describeRequest(r)}
+                    {r.reason && <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>{r.reason}</div>}
+                  </td>
+                  <td style={{ ...tdStyle, textAlign: 'right', whiteSpace: 'nowrap' }}>
+                    <button
+                      type="button"
+                      className="button button-primary"
+                      disabled={reviewMutation.isPending}
+                      onClick={() => reviewMutation.mutate({ id: form.id, decision: 'approved' })}
+                      style={{ marginRight: '8px' }}
+                    >
+                      Approve
+                    </button>
+                    <button
+                      type="button"
+                      className="button button-secondary"
+                      disabled={reviewMutation.isPending}
+                      onClick={() => reviewMutation.mutate({ id: form.id, decision: 'rejected' })}
+                    >
+                      Reject
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {parsed.length > 0 && (
+        <div style={{ marginTop: '24px' }}>
+          <div style={{ ...labelStyle, marginBottom: '8px' }}>{isAdmin ? 'All time-off requests' : 'Your requests'}</div>
+          {(withdrawMutation.error as Error | null) && (
+            <div style={{ marginBottom: '8px', padding: '10px', borderRadius: '6px', backgroundColor: 'rgba(220,53,69,0.10)', color: 'var(--error-color)', fontSize: '12px' }}>
+              {(withdrawMutation.error as Error).message}
+            </div>
+          )}
+          <table style={tableStyle}>
+            <tbody>
+              {parsed.map(({ form, request: r }) => (
+                <tr key={form.id}>
+                  {isAdmin && <td style={tdStyle}>{personName(form)}</td>}
+                  <td style={tdStyle}>{describeRequest(r)}</td>
+                  <td style={tdStyle}><StatusPill status={form.status} /></td>
+                  <td style={{ ...tdStyle, textAlign: 'right' }}>
+                    {((form.status === 'pending' && form.current_step === 0) || isAdmin) && (
+                      <button
+                        type="button"
+                        className="button button-secondary"
+                        disabled={withdrawMutation.isPending}
+                        onClick={() => {
+                          const prompt = form.status === 'approved'
+                            ? 'Delete this approved request? Its leave days are removed from the calendar and payroll.'
+                            : 'Withdraw this time-off request?';
+                          if (window.confirm(prompt)) withdrawMutation.mutate(form.id);
+                        }}
+                      >
+                        {form.status === 'pending' ? 'Withdraw' : 'Delete'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
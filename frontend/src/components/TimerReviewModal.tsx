@@ -0,0 +1,169 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTimer } from '../context/TimerContext';
+import { useBackdropClose } from '../hooks/useBackdropClose';
+import { formatYmd } from '../utils/payPeriod';
+import { formatTimerDisplay, splitEntryByDay, startOfLocalDay, timerElapsedMs } from '../utils/timers';
+
+/** `YYYY-MM-DDTHH:mm` in local time, for datetime-local inputs. */
+function toLocalInputValue(d: Date): string {
+  return `${formatYmd(d)}T${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+}
+
+function formatDay(ymd: string): string {
+  return new Date(`${ymd}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+/**
+ * Prompt for a running timer that looks forgotten (over the user's hour limit, or still running
+ * after midnight). The user can stop it at the time they actually finished, save the earlier days
+ * and keep today running, or leave it running. Entries are split per day. Mounted once in Layout.
+ */
+export default function TimerReviewModal() {
+  const { flaggedTimers, timerLimits, now, stopTimer, splitTimerAtMidnight, dismissTimerAlert } = useTimer();
+  const navigate = useNavigate();
+  const flagged = flaggedTimers[0];
+  const timer = flagged?.timer;
+  const [endValue, setEndValue] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startMs = timer ? new Date(timer.started_at).getTime() : 0;
+
+  // Default end: the limit after the start, or now if that's sooner
+  useEffect(() => {
+    if (!timer) return;
+    const limitMs = (timerLimits.maxHours ?? 8) * 60 * 60 * 1000;
+    setEndValue(toLocalInputValue(new Date(Math.min(Date.now(), startMs + limitMs))));
+    setError(null);
+    // Only when a different timer comes up
+  }, [timer?.id]);
+
+  const close = () => {
+    if (timer) dismissTimerAlert(timer.id);
+  };
+  const backdropClose = useBackdropClose(close);
+
+  const endedAt = endValue ? new Date(endValue) : null;
+  const endError = !endedAt || Number.isNaN(endedAt.getTime())
+    ? 'Pick the time you finished.'
+    : endedAt.getTime() <= startMs
+      ? 'The end has to be after the timer started.'
+      : endedAt.getTime() > now
+        ? "The end can't be in the future."
+        : null;
+
+  const preview = useMemo(() => {
+    if (!timer || endError || !endedAt) return [];
+    return splitEntryByDay({
+      date: formatYmd(new Date(startMs)),
+      start_time: new Date(startMs).toISOString(),
+      end_time: endedAt.toISOString(),
+      hours: (endedAt.getTime() - startMs) / (60 * 60 * 1000),
+    });
+  }, [timer, endError, endValue, startMs]);
+
+  if (!flagged || !timer) return null;
+
+  const startedBeforeToday = startMs < startOfLocalDay(new Date(now)).getTime();
+  const run = async (action: () => Promise<any[]>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const entries = await action();
+      if (entries.length > 0) navigate(`/calendar/${entries[0].date}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the timer');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startedLabel = new Date(startMs).toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+  const reason = flagged.alert === 'over_limit'
+    ? `It has been running for ${formatTimerDisplay(timerElapsedMs(timer, now))}, longer than your ${timerLimits.maxHours} hour limit.`
+    : `It started ${startedLabel} and is still running after midnight.`;
+
+  return (
+    <div
+      {...backdropClose}
+      className="ionex-modal-backdrop"
+      style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(0,0,0,0.5)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 9999 }}
+    >
+      <div
+        className="ionex-modal-card"
+        style={{ backgroundColor: 'var(--bg-primary)', borderRadius: '12px', padding: '24px', maxWidth: '520px', width: '92%', maxHeight: '85vh', overflowY: 'auto', boxShadow: '0 20px 60px rgba(0,0,0,0.3)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="payroll-modal-header">
+          <div>
+            <h3 className="payroll-modal-title">Is this timer still going?</h3>
+            <div className="payroll-modal-subtitle">
+              {timer.description || 'Untitled timer'} · started {startedLabel}
+            </div>
+          </div>
+          <button className="payroll-modal-close" onClick={close} aria-label="Close">×</button>
+        </div>
+
+        <p style={{ fontSize: '14px', margin: '0 0 16px' }}>{reason}</p>
+
+        <label style={{ display: 'block', fontSize: '13px', fontWeight: 600, marginBottom: '6px' }}>I finished at</label>
+        <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+          <input
+            type="datetime-local"
+            value={endValue}
+            min={toLocalInputValue(new Date(startMs))}
+            max={toLocalInputValue(new Date(now))}
+            onChange={(e) => setEndValue(e.target.value)}
+            style={{ padding: '8px 10px', borderRadius: '6px', border: '1px solid var(--border-color)', backgroundColor: 'var(--bg-secondary)', color: 'var(--text-primary)' }}
+          />
+          <button
+            className="payroll-action-btn is-primary"
+            disabled={busy || !!endError}
+            onClick={() => run(() => stopTimer(timer.id, endedAt!))}
+          >
+            Save and stop
+          </button>
+        </div>
+        {endError ? (
+          <div style={{ fontSize: '12px', color: 'var(--error-color)', marginTop: '6px' }}>{endError}</div>
+        ) : (
+          <table className="payroll-mini-table" style={{ marginTop: '10px' }}>
+            <thead>
+              <tr>
+                <th>Day</th>
+                <th>Hours</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.map((p) => (
+                <tr key={p.date}>
+                  <td>{formatDay(p.date)}</td>
+                  <td>{p.hours.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end', flexWrap: 'wrap', marginTop: '20px' }}>
+          {startedBeforeToday && (
+            <button
+              className="payroll-action-btn"
+              disabled={busy}
+              onClick={() => run(() => splitTimerAtMidnight(timer.id))}
+              title="Save the time up to midnight as entries for the earlier days; the timer keeps running from 12:00 AM today"
+            >
+              Save earlier days, keep today running
+            </button>
+          )}
+          <button className="payroll-action-btn" disabled={busy} onClick={close}>
+            Keep running
+          </button>
+        </div>
+
+        {error && <div style={{ fontSize: '13px', color: 'var(--error-color)', marginTop: '12px' }}>{error}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { offlineTimeEntriesService } from '../services/offlineQueue';
+import { serviceTicketsService } from '../services/supabaseServices';
+import { useBackdropClose } from '../hooks/useBackdropClose';
+import type { DraftEntry } from '../utils/entryTemplates';
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+}
+
+/**
+ * Review step for entries proposed by "Apply templates" or "Copy last week". Drafts that overlap
+ * time already logged start unticked. Ticked drafts are saved one by one (queued when offline).
+ */
+export default function WeekFillModal({
+  title,
+  drafts,
+  projects,
+  onSaved,
+  onClose,
+}: {
+  title: string;
+  drafts: DraftEntry[];
+  projects: any[];
+  onSaved: () => void;
+  onClose: () => void;
+}) {
+  const backdropClose = useBackdropClose(onClose);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(drafts.filter((d) => !d.overlaps).map((d) => d.key)));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (key: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  const chosen = drafts.filter((d) => selected.has(d.key));
+  const totalHours = chosen.reduce((sum, d) => sum + (Number(d.entry.hours) || 0), 0);
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    let saved = 0;
+    try {
+      for (const draft of chosen) {
+        const row = await offlineTimeEntriesService.create(draft.entry);
+        saved++;
+        if (row?.customer_id && row.billable !== false && !row._offline) {
+          await serviceTicketsService.syncTicketHeaderFromTimeEntry({
+            date: row.date,
+            userId: row.user_id,
+            customerId: row.customer_id,
+            projectId: row.project_id,
+            location: row.location,
+            approver: row.approver,
+            po_afe: row.po_afe,
+            cc: row.cc,
+            other: row.other,
+            isDemo: !!row.is_demo,
+          });
+        }
+      }
+      onSaved();
+      onClose();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(saved > 0 ? `Saved ${saved} of ${chosen.length} entries, then failed: ${message}` : `Failed to save entries: ${message}`);
+      // Drop the ones already saved so a retry doesn't duplicate them
+      setSelected(new Set(chosen.slice(saved).map((d) => d.key)));
+      if (saved > 0) onSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      {...backdropClose}
+      className="ionex-modal-backdrop"
+      style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(0,0,0,0.5)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 9999 }}
+    >
+      <div
+        className="ionex-modal-card"
+        style={{ backgroundColor: 'var(--bg-primary)', borderRadius: '12px', padding: '24px', maxWidth: '760px', width: '92%', maxHeight: '85vh', overflowY: 'auto', boxShadow: '0 20px 60px rgba(0,0,0,0.3)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="payroll-modal-header">
+          <div>
+            <h3 className="payroll-modal-title">{title}</h3>
+            <div className="payroll-modal-subtitle">
+              Check the entries to add. Ones that overlap time you've already logged are left unticked.
+            </div>
+          </div>
+          <button className="payroll-modal-close" onClick={onClose} aria-label="Close">×</button>
+        </div>
+
+        {drafts.length === 0 ? (
+          <div className="payroll-muted" style={{ fontStyle: 'italic' }}>Nothing to add for this week.</div>
+        ) : (
+          <table className="payroll-mini-table">
+            <thead>
+              <tr>
+                <th />
+                <th>Day</th>
+                <th>Time</th>
+                <th>Project</th>
+                <th>Description</th>
+                <th>From</th>
+              </tr>
+            </thead>
+            <tbody>
+              {drafts.map((d) => {
+                const project = projects.find((p) => p.id === d.entry.project_id);
+                return (
+                  <tr key={d.key} style={d.overlaps && !selected.has(d.key) ? { opacity: 0.6 } : undefined}>
+                    <td>
+                      <input type="checkbox" checked={selected.has(d.key)} onChange={() => toggle(d.key)} aria-label="Add this entry" />
+                    </td>
+                    <td>{new Date(`${d.entry.date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}</td>
+                    <td style={{ whiteSpace: 'nowrap' }}>
+                      {formatTime(d.entry.start_time)}–{formatTime(d.entry.end_time)} · {Number(d.entry.hours).toFixed(2)}h
+                    </td>
+                    <td className="payroll-muted">{project?.name ?? 'Internal'} · {d.entry.rate_type}</td>
+                    <td className="payroll-muted">{d.entry.description || '—'}</td>
+                    <td className="payroll-muted">
+                      {d.source}
+                      {d.overlaps && <span style={{ color: 'var(--warning-color)' }}> · overlaps</span>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        <div className="payroll-modal-footer">
+          <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+            {chosen.length} {chosen.length === 1 ? 'entry' : 'entries'} · {totalHours.toFixed(2)}h
+          </div>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button type="button" className="payroll-action-btn" onClick={onClose} disabled={saving}>
+              Cancel
+            </button>
+            <button type="button" className="payroll-action-btn is-primary" disabled={saving || chosen.length === 0} onClick={save}>
+              {saving ? 'Adding…' : `Add ${chosen.length} ${chosen.length === 1 ? 'entry' : 'entries'}`}
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div style={{ marginTop: '12px', padding: '10px', borderRadius: '6px', backgroundColor: 'rgba(220,53,69,0.10)', color: 'var(--error-color)', fontSize: '12px' }}>
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useEffect, useState, useRef, ReactNode } from 'react';
 import { User as SupabaseUser, Session, AuthChangeEvent } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabaseClient';
+import { clearOfflineCache } from '../lib/offlineDb';
 
 interface User {
   id: string;
@@ -381,6 +382,9 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
 
     await supabase.auth.signOut();
+    // Cached lists are this user's. Queued offline changes stay, tagged with this user, and sync
+    // when they sign in again; nobody else signing in on this device sees or replays them.
+    await clearOfflineCache();
     setUser(null);
     setSession(null);
   };
@@ -1,15 +1,66 @@
-import { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useMemo, useRef, ReactNode } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from './AuthContext';
+import { useDemoMode } from './DemoModeContext';
+import { supabase } from '../lib/supabaseClient';
+import { projectsService, timersService, usersService } from '../services/supabaseServices';
+import {
+  formatTimerDisplay,
+  TimerAlert,
+  timerAlert,
+  TimerDetails,
+  timerElapsedMs,
+  TimerLimits,
+  timerLimitsFromProfile,
+  TimerRow,
+} from '../utils/timers';
+
+export interface TimerEntry {
+  description: string;
+  projectId?: string;
+  projectName?: string;
+  costCodeId: string | null;
+  rateType: string;
+  location: string | null;
+  approver: string | null;
+  poAfe: string | null;
+  cc: string | null;
+  other: string | null;
+}
 
 interface TimerContextType {
+  /** Every running or paused timer for the signed-in user (in the current demo/live mode), oldest first. */
+  timers: TimerRow[];
+  activeTimerId: string | null;
+  /** Make a timer the one shown in the header; null clears the header so another can be started. */
+  selectTimer: (id: string | null) => void;
+  /** Ticks every half second while any timer runs, for elapsed displays. */
+  now: number;
+  /** The remaining fields describe the active timer. */
   timerRunning: boolean;
   timerDisplay: string;
   timerStartTime: number | null;
-  currentEntry: { description: string; projectId?: string; projectName?: string } | null;
-  startTimer: (description: string, projectId?: string) => void;
-  stopTimer: () => void;
+  currentEntry: TimerEntry | null;
+  startTimer: (description: string, projectId?: string, details?: TimerDetails) => Promise<void>;
+  pauseTimer: (id?: string) => Promise<void>;
+  resumeTimer: (id?: string) => Promise<void>;
+  /**
+   * Save the timer as time entries (one per day it ran on) and remove it. `endedAt` trims a timer
+   * that was left running. Resolves to the new entries ([] when under a second).
+   */
+  stopTimer: (id?: string, endedAt?: Date) => Promise<any[]>;
+  /** Save the earlier days of a timer left running overnight; it keeps running from midnight. */
+  splitTimerAtMidnight: (id: string) => Promise<any[]>;
+  timerLimits: TimerLimits;
+  /** Running timers past the user's limits that haven't been answered yet, oldest first. */
+  flaggedTimers: { timer: TimerRow; alert: TimerAlert }[];
+  /** Keep a flagged timer running; asks again after another full limit or the next midnight. */
+  dismissTimerAlert: (id: string) => void;
+  /** Remove the timer without saving. */
+  discardTimer: (id?: string) => Promise<void>;
   updateStartTime: (newStartTime: number) => void;
   updateTimerEntry: (description: string, projectId?: string, projectName?: string) => void;
+  updateTimerDetails: (details: TimerDetails) => void;
 }
 
 const TimerContext = createContext<TimerContextType | undefined>(undefined);
@@ -22,162 +73,301 @@ export const useTimer = () => {
   return context;
 };
 
+/** Key for one answered prompt, so the same timer is asked again only once a new limit is crossed. */
+function alertKey(timer: TimerRow, alert: TimerAlert, limits: TimerLimits, now: number) {
+  if (alert === 'past_midnight') return `${timer.id}:${alert}:${new Date(now).toDateString()}`;
+  const periods = Math.floor(timerElapsedMs(timer, now) / ((limits.maxHours ?? 1) * 60 * 60 * 1000));
+  return `${timer.id}:${alert}:${periods}`;
+}
+
+/** Move a timer left in localStorage by the pre-sync version onto the server, once. */
+async function migrateLocalTimer(userId: string, isDemo: boolean) {
+  const storageKey = `timerState_${userId}`;
+  const saved = localStorage.getItem(storageKey);
+  if (!saved) return;
+  localStorage.removeItem(storageKey);
+  try {
+    const { startTime, description, projectId, elapsed } = JSON.parse(saved);
+    if (!startTime) return;
+    await timersService.create({
+      user_id: userId,
+      description: description || '',
+      project_id: projectId || null,
+      started_at: new Date(startTime - (elapsed || 0)).toISOString(),
+      is_demo: isDemo,
+    });
+    console.log('✅ TimerContext: Moved local timer to the server for user', userId);
+  } catch (error) {
+    console.error('❌ TimerContext: Error moving local timer to the server', error);
+  }
+}
+
 export const TimerProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const { user } = useAuth();
-  const [timerRunning, setTimerRunning] = useState(false);
-  const [timerDisplay, setTimerDisplay] = useState('0:00:00');
-  const [currentEntry, setCurrentEntry] = useState<{ description: string; projectId?: string; projectName?: string } | null>(null);
-  const timerStartTimeRef = useRef<number | null>(null);
-  const timerElapsedRef = useRef<number>(0);
-  const timerIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const currentUserIdRef = useRef<string | null>(null);
-
-  // Get user-specific localStorage key
-  const getTimerStorageKey = (userId: string | null) => {
-    if (!userId) return null;
-    return `timerState_${userId}`;
-  };
+  const { isDemoMode } = useDemoMode();
+  const queryClient = useQueryClient();
+  const userId = user?.id ?? null;
+  const queryKey = useMemo(() => ['timers', userId], [userId]);
+  // undefined = follow the most recent running timer; null = none selected
+  const [selectedId, setSelectedId] = useState<string | null | undefined>(undefined);
+  const [now, setNow] = useState(() => Date.now());
+  const migratedRef = useRef<string | null>(null);
 
-  // Update timer display every 100ms when running
-  useEffect(() => {
-    if (timerRunning && timerStartTimeRef.current) {
-      timerIntervalRef.current = setInterval(() => {
-        const currentElapsed = timerElapsedRef.current + (Date.now() - timerStartTimeRef.current!);
-        const totalSeconds = Math.floor(currentElapsed / 1000);
-        const hours = Math.floor(totalSeconds / 3600);
-        const minutes = Math.floor((totalSeconds % 3600) / 60);
-        const seconds = totalSeconds % 60;
-        setTimerDisplay(`${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`);
-      }, 100);
-    } else {
-      if (timerIntervalRef.current) {
-        clearInterval(timerIntervalRef.current);
-        timerIntervalRef.current = null;
+  const { data: allTimers = [] } = useQuery({
+    queryKey,
+    enabled: !!userId,
+    queryFn: async () => {
+      if (migratedRef.current !== userId) {
+        migratedRef.current = userId;
+        await migrateLocalTimer(userId!, isDemoMode);
       }
+      return timersService.getForUser(userId!);
+    },
+    // Realtime delivers changes from other devices; polling covers a dropped subscription.
+    refetchInterval: 60 * 1000,
+  });
+
+  const { data: projects } = useQuery({
+    queryKey: ['projects'],
+    queryFn: () => projectsService.getAll(),
+    enabled: !!userId,
+  });
+
+  const { data: profile } = useQuery({
+    queryKey: ['userProfile', userId],
+    queryFn: () => usersService.getUserProfile(userId!),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+  });
+  const timerLimits = useMemo(() => timerLimitsFromProfile(profile), [profile]);
+
+  const timers = useMemo(() => allTimers.filter((t) => !!t.is_demo === isDemoMode), [allTimers, isDemoMode]);
+
+  // Prompts answered with "keep running", per user so a shared browser doesn't mix them up
+  const dismissedKey = `timerAlertsDismissed_${userId}`;
+  const [dismissedAlerts, setDismissedAlerts] = useState<string[]>([]);
+  useEffect(() => {
+    try {
+      setDismissedAlerts(JSON.parse(localStorage.getItem(dismissedKey) || '[]'));
+    } catch {
+      setDismissedAlerts([]);
     }
+  }, [dismissedKey]);
 
+  // Starts, pauses and stops made on another device
+  useEffect(() => {
+    if (!userId) return;
+    const channel = supabase
+      .channel(`timers-${userId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'timers', filter: `user_id=eq.${userId}` }, () => {
+        queryClient.invalidateQueries({ queryKey: ['timers', userId] });
+      })
+      .subscribe();
     return () => {
-      if (timerIntervalRef.current) {
-        clearInterval(timerIntervalRef.current);
-      }
+      void supabase.removeChannel(channel);
     };
-  }, [timerRunning]);
+  }, [userId, queryClient]);
 
-  // Clear timer state when user changes
+  // Clear the selection when the user changes
   useEffect(() => {
-    // If user changed, clear the timer state
-    if (currentUserIdRef.current !== null && currentUserIdRef.current !== user?.id) {
-      console.log('🔄 TimerContext: User changed, clearing timer state');
-      setTimerRunning(false);
-      setTimerDisplay('0:00:00');
-      setCurrentEntry(null);
-      timerStartTimeRef.current = null;
-      timerElapsedRef.current = 0;
-    }
-    currentUserIdRef.current = user?.id || null;
-  }, [user?.id]);
+    setSelectedId(undefined);
+  }, [userId]);
 
-  // Load timer state from localStorage for current user
+  const anyRunning = timers.some((t) => t.status === 'running');
   useEffect(() => {
-    if (!user?.id) {
-      // No user logged in, clear timer
-      setTimerRunning(false);
-      setCurrentEntry(null);
-      timerStartTimeRef.current = null;
-      timerElapsedRef.current = 0;
-      return;
+    if (!anyRunning) return;
+    const interval = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(interval);
+  }, [anyRunning]);
+
+  // `now` only ticks while a timer runs, which is the only time a timer can be flagged
+  const flaggedTimers = useMemo(() => {
+    const flagged: { timer: TimerRow; alert: TimerAlert }[] = [];
+    for (const timer of timers) {
+      const alert = timerAlert(timer, timerLimits, now);
+      if (alert && !dismissedAlerts.includes(alertKey(timer, alert, timerLimits, now))) flagged.push({ timer, alert });
     }
+    return flagged;
+  }, [timers, timerLimits, now, dismissedAlerts]);
 
-    const storageKey = getTimerStorageKey(user.id);
-    if (!storageKey) return;
-
-    const saved = localStorage.getItem(storageKey);
-    if (saved) {
-      try {
-        const { startTime, description, projectId, projectName, elapsed } = JSON.parse(saved);
-        timerStartTimeRef.current = startTime;
-        timerElapsedRef.current = elapsed || 0;
-        setCurrentEntry({ description, projectId, projectName });
-        setTimerRunning(true);
-        console.log('✅ TimerContext: Loaded timer state for user', user.id);
-      } catch (error) {
-        console.error('❌ TimerContext: Error loading timer state', error);
-        localStorage.removeItem(storageKey);
-      }
+  const activeTimer = useMemo(() => {
+    if (selectedId === null) return null;
+    const selected = selectedId ? timers.find((t) => t.id === selectedId) : undefined;
+    if (selected) return selected;
+    const running = timers.filter((t) => t.status === 'running');
+    const candidates = running.length > 0 ? running : timers;
+    return candidates[candidates.length - 1] ?? null;
+  }, [timers, selectedId]);
+
+  const currentEntry = useMemo<TimerEntry | null>(() => {
+    if (!activeTimer) return null;
+    const project = activeTimer.project_id ? projects?.find((p: any) => p.id === activeTimer.project_id) : undefined;
+    return {
+      description: activeTimer.description,
+      projectId: activeTimer.project_id || undefined,
+      projectName: project?.name,
+      costCodeId: activeTimer.cost_code_id ?? null,
+      rateType: activeTimer.rate_type,
+      location: activeTimer.location,
+      approver: activeTimer.approver,
+      poAfe: activeTimer.po_afe,
+      cc: activeTimer.cc,
+      other: activeTimer.other,
+    };
+  }, [activeTimer, projects]);
+
+  const setTimers = (update: (prev: TimerRow[]) => TimerRow[]) => {
+    queryClient.setQueryData<TimerRow[]>(queryKey, (prev) => update(prev ?? []));
+  };
+  const replaceTimer = (row: TimerRow) => setTimers((prev) => prev.map((t) => (t.id === row.id ? row : t)));
+  const removeTimer = (id: string) => setTimers((prev) => prev.filter((t) => t.id !== id));
+  const timerById = (id?: string) => (id ? timers.find((t) => t.id === id) : activeTimer) ?? null;
+
+  /** Optimistic edit of the active timer, written through to the server. */
+  const patchActiveTimer = (updates: Parameters<typeof timersService.update>[1]) => {
+    if (!activeTimer) return;
+    const id = activeTimer.id;
+    setTimers((prev) => prev.map((t) => (t.id === id ? { ...t, ...updates } : t)));
+    timersService.update(id, updates).then(replaceTimer, (error) => {
+      console.error('❌ TimerContext: Error updating timer', error);
+      queryClient.invalidateQueries({ queryKey });
+    });
+  };
+
+  const startTimer = async (description: string, projectId?: string, details: TimerDetails = {}) => {
+    if (!userId) return;
+    const row = await timersService.create({
+      user_id: userId,
+      description,
+      project_id: projectId || null,
+      cost_code_id: (projectId && details.costCodeId) || null,
+      rate_type: details.rateType || 'Shop Time',
+      location: details.location || null,
+      approver: details.approver?.trim() || null,
+      po_afe: details.poAfe?.trim() || null,
+      cc: details.cc?.trim() || null,
+      other: details.other?.trim() || null,
+      is_demo: isDemoMode,
+    });
+    setTimers((prev) => [...prev.filter((t) => t.id !== row.id), row]);
+    setSelectedId(row.id);
+    setNow(Date.now());
+  };
+
+  const pauseTimer = async (id?: string) => {
+    const timer = timerById(id);
+    if (timer) replaceTimer(await timersService.pause(timer));
+  };
+
+  const resumeTimer = async (id?: string) => {
+    const timer = timerById(id);
+    if (!timer) return;
+    replaceTimer(await timersService.resume(timer));
+    setNow(Date.now());
+  };
+
+  const stopTimer = async (id?: string, endedAt?: Date) => {
+    const timer = timerById(id);
+    if (!timer) return [];
+    try {
+      const entries = await timersService.stop(timer.id, endedAt);
+      queryClient.invalidateQueries({ queryKey: ['timeEntries'] });
+      queryClient.invalidateQueries({ queryKey: ['existingServiceTickets'] });
+      return entries;
+    } finally {
+      removeTimer(timer.id);
+      if (selectedId === timer.id) setSelectedId(undefined);
+      queryClient.invalidateQueries({ queryKey });
     }
-  }, [user?.id]);
+  };
 
-  // Save timer state to localStorage when it changes (user-specific)
-  useEffect(() => {
-    if (!user?.id) return;
-
-    const storageKey = getTimerStorageKey(user.id);
-    if (!storageKey) return;
-
-    if (timerRunning && currentEntry) {
-      localStorage.setItem(storageKey, JSON.stringify({
-        startTime: timerStartTimeRef.current,
-        description: currentEntry.description,
-        projectId: currentEntry.projectId,
-        projectName: currentEntry.projectName,
-        elapsed: timerElapsedRef.current,
-      }));
-    } else {
-      localStorage.removeItem(storageKey);
+  const splitTimerAtMidnight = async (id: string) => {
+    const timer = timerById(id);
+    if (!timer) return [];
+    try {
+      const { timer: updated, entries } = await timersService.splitAtMidnight(timer);
+      replaceTimer(updated);
+      queryClient.invalidateQueries({ queryKey: ['timeEntries'] });
+      queryClient.invalidateQueries({ queryKey: ['existingServiceTickets'] });
+      return entries;
+    } catch (error) {
+      queryClient.invalidateQueries({ queryKey });
+      throw error;
     }
-  }, [timerRunning, currentEntry, user?.id]);
-
-  const startTimer = (description: string, projectId?: string) => {
-    timerStartTimeRef.current = Date.now();
-    timerElapsedRef.current = 0;
-    setCurrentEntry({ description, projectId });
-    setTimerRunning(true);
-    setTimerDisplay('0:00:00');
   };
 
-  const stopTimer = () => {
-    setTimerRunning(false);
-    setTimerDisplay('0:00:00');
-    setCurrentEntry(null);
-    timerStartTimeRef.current = null;
-    timerElapsedRef.current = 0;
+  const dismissTimerAlert = (id: string) => {
+    const timer = timers.find((t) => t.id === id);
+    const alert = timer ? timerAlert(timer, timerLimits, Date.now()) : null;
+    if (!timer || !alert) return;
+    // Keys for timers that are gone are dropped along the way
+    const next = [
+      ...dismissedAlerts.filter((key) => timers.some((t) => key.startsWith(`${t.id}:`))),
+      alertKey(timer, alert, timerLimits, Date.now()),
+    ];
+    setDismissedAlerts(next);
+    localStorage.setItem(dismissedKey, JSON.stringify(next));
+  };
+
+  const discardTimer = async (id?: string) => {
+    const timer = timerById(id);
+    if (!timer) return;
+    await timersService.discard(timer.id);
+    removeTimer(timer.id);
+    if (selectedId === timer.id) setSelectedId(undefined);
   };
 
   const updateStartTime = (newStartTime: number) => {
-    if (timerRunning && timerStartTimeRef.current) {
-      // When adjusting start time by dragging, we're changing when the current session started
-      // Reset elapsed to 0 so the timer calculates from the new start time
-      timerElapsedRef.current = 0;
-      timerStartTimeRef.current = newStartTime;
+    // When adjusting start time by dragging, we're changing when the current session started
+    if (activeTimer?.status === 'running') {
+      patchActiveTimer({ started_at: new Date(newStartTime).toISOString() });
     }
   };
 
-  const updateTimerEntry = (description: string, projectId?: string, projectName?: string) => {
-    if (timerRunning && currentEntry) {
-      setCurrentEntry({ description, projectId, projectName });
-    }
+  const updateTimerEntry = (description: string, projectId?: string, _projectName?: string) => {
+    patchActiveTimer({ description, project_id: projectId || null });
+  };
+
+  const updateTimerDetails = (details: TimerDetails) => {
+    const updates: Parameters<typeof timersService.update>[1] = {};
+    if (details.costCodeId !== undefined) updates.cost_code_id = details.costCodeId || null;
+    if (details.rateType !== undefined) updates.rate_type = details.rateType;
+    if (details.location !== undefined) updates.location = details.location || null;
+    if (details.approver !== undefined) updates.approver = details.approver?.trim() || null;
+    if (details.poAfe !== undefined) updates.po_afe = details.poAfe?.trim() || null;
+    if (details.cc !== undefined) updates.cc = details.cc?.trim() || null;
+    if (details.other !== undefined) updates.other = details.other?.trim() || null;
+    if (Object.keys(updates).length > 0) patchActiveTimer(updates);
   };
 
+  const timerRunning = activeTimer?.status === 'running';
+
   return (
     <TimerContext.Provider
       value={{
+        timers,
+        activeTimerId: activeTimer?.id ?? null,
+        selectTimer: setSelectedId,
+        now,
         timerRunning,
-        timerDisplay,
-        timerStartTime: timerStartTimeRef.current,
+        timerDisplay: activeTimer ? formatTimerDisplay(timerElapsedMs(activeTimer, now)) : '0:00:00',
+        timerStartTime: timerRunning ? new Date(activeTimer!.started_at).getTime() : null,
         currentEntry,
         startTimer,
+        pauseTimer,
+        resumeTimer,
         stopTimer,
+        splitTimerAtMidnight,
+        timerLimits,
+        flaggedTimers,
+        dismissTimerAlert,
+        discardTimer,
         updateStartTime,
         updateTimerEntry,
+        updateTimerDetails,
       }}
     >
       {children}
     </TimerContext.Provider>
   );
 };
-
-
-
-
-
-
@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabaseClient';
+import {
+  listMyQueuedChanges,
+  QueuedChange,
+  resolveQueuedChange,
+  subscribeOfflineQueue,
+  syncQueuedChanges,
+} from '../services/offlineQueue';
+
+/**
+ * Connection state and the signed-in user's offline change queue. Replays queued changes when the
+ * browser comes back online, on mount and when a user signs in (for changes left from an earlier
+ * session). Mounted once in Layout through OfflineStatus.
+ */
+export function useOfflineSync() {
+  const queryClient = useQueryClient();
+  const [online, setOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine !== false);
+  const [changes, setChanges] = useState<QueuedChange[]>([]);
+  const [syncing, setSyncing] = useState(false);
+
+  const refresh = useCallback(() => {
+    void listMyQueuedChanges().then(setChanges);
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    setSyncing(true);
+    try {
+      const { synced } = await syncQueuedChanges();
+      if (synced > 0) {
+        queryClient.invalidateQueries({ queryKey: ['timeEntries'] });
+        queryClient.invalidateQueries({ queryKey: ['userExpenses'] });
+        queryClient.invalidateQueries({ queryKey: ['billableEntries'] });
+        queryClient.invalidateQueries({ queryKey: ['existingServiceTickets'] });
+      }
+    } catch (error) {
+      console.error('Offline sync failed:', error);
+    } finally {
+      setSyncing(false);
+    }
+  }, [queryClient]);
+
+  useEffect(() => {
+    refresh();
+    const unsubscribe = subscribeOfflineQueue(refresh);
+    const goOnline = () => {
+      setOnline(true);
+      void syncNow();
+    };
+    const goOffline = () => setOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    if (navigator.onLine !== false) void syncNow();
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event !== 'SIGNED_IN' && event !== 'SIGNED_OUT') return;
+      refresh();
+      if (event === 'SIGNED_IN' && navigator.onLine !== false) void syncNow();
+    });
+    return () => {
+      unsubscribe();
+      subscription.unsubscribe();
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, [refresh, syncNow]);
+
+  const resolve = useCallback(
+    async (change: QueuedChange, keep: 'mine' | 'theirs') => {
+      await resolveQueuedChange(change, keep);
+      if (keep === 'mine') await syncNow();
+      else {
+        queryClient.invalidateQueries({ queryKey: ['timeEntries'] });
+        queryClient.invalidateQueries({ queryKey: ['userExpenses'] });
+      }
+    },
+    [syncNow, queryClient]
+  );
+
+  return {
+    online,
+    syncing,
+    pending: changes.filter((c) => c.status === 'pending'),
+    problems: changes.filter((c) => c.status !== 'pending'),
+    syncNow,
+    resolve,
+  };
+}
@@ -0,0 +1,14 @@
+import { useQuery } from '@tanstack/react-query';
+import { paySchedulesService } from '../services/supabaseServices';
+
+/**
+ * Loads `pay_schedules` and registers them with utils/payPeriod, so every pay-period helper
+ * resolves against stored data. Mounted once in Layout; pages read periods synchronously.
+ */
+export function usePaySchedules() {
+  return useQuery({
+    queryKey: ['paySchedules'],
+    queryFn: () => paySchedulesService.load(),
+    staleTime: 5 * 60 * 1000,
+  });
+}
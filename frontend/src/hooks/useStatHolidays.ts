@@ -0,0 +1,14 @@
+import { useQuery } from '@tanstack/react-query';
+import { statHolidaysService } from '../services/supabaseServices';
+
+/**
+ * Loads `stat_holidays` and registers them with utils/statHolidays so calendars, Payroll and
+ * burden calculations read the edited calendar. Mounted once in Layout, next to usePaySchedules.
+ */
+export function useStatHolidays() {
+  return useQuery({
+    queryKey: ['statHolidays'],
+    queryFn: () => statHolidaysService.load(),
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -0,0 +1,35 @@
+import { supabase } from './supabaseClient';
+
+/** Base URL of the Express backend (QuickBooks, etc.). See env.example / QUICKBOOKS_SETUP.md. */
+export const apiBaseUrl = ((import.meta.env.VITE_API_URL as string) || 'http://localhost:3001').replace(/\/$/, '');
+
+/**
+ * fetch() against the backend with the current Supabase access token as Bearer auth
+ * (backend/src/middleware/auth.ts accepts Supabase JWTs). Throws with the backend's
+ * `error` message on non-2xx responses.
+ */
+export async function apiFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const { data: { session } } = await supabase.auth.getSession();
+  let res: Response;
+  try {
+    res = await fetch(`${apiBaseUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {}),
+        ...(init.headers || {}),
+      },
+    });
+  } catch {
+    throw new Error(`Cannot reach the backend at ${apiBaseUrl}. Is it running? See QUICKBOOKS_SETUP.md.`);
+  }
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    const message =
+      (body && typeof body.error === 'string' && body.error) ||
+      (body && Array.isArray(body.errors) && body.errors.map((e: { msg?: string; path?: string }) => `${e.path ?? ''} ${e.msg ?? ''}`.trim()).join('; ')) ||
+      `Request failed (${res.status})`;
+    throw new Error(message);
+  }
+  return body as T;
+}
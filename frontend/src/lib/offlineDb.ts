@@ -0,0 +1,186 @@
+/**
+ * IndexedDB storage for offline mode: the last copy of lists the field pages need (projects,
+ * customers, the user's time entries and expenses) and the queue of changes made without a
+ * connection. The queue is replayed by services/offlineQueue.ts when the browser is back online.
+ * Each queued change belongs to the user who made it; only that user's session lists or replays it.
+ */
+
+const DB_NAME = 'ionex-offline';
+const DB_VERSION = 1;
+const CACHE_STORE = 'cache';
+const QUEUE_STORE = 'queue';
+
+export type QueuedTable = 'time_entries' | 'user_expenses';
+
+export type QueuedChange = {
+  /** Assigned by IndexedDB; replay goes in this order. */
+  seq?: number;
+  /** User who made the change (see queuedChangeOwner for changes queued before this was recorded). */
+  userId?: string | null;
+  table: QueuedTable;
+  op: 'create' | 'update' | 'delete';
+  /** Row id. Creates get a client-generated UUID so later edits can refer to it. */
+  recordId: string;
+  /** Insert row, or the changed columns for an update. */
+  payload: Record<string, any>;
+  /** `updated_at` of the row this device last saw; a different value on the server is a conflict. Null for rows created offline. */
+  baseUpdatedAt: string | null;
+  /** Receipt image to upload before inserting an offline expense. */
+  receipt?: Blob | null;
+  receiptName?: string;
+  /** Row as this device last saw it (for delete clean-up and the conflict dialog). */
+  snapshot?: Record<string, any> | null;
+  queuedAt: string;
+  status: 'pending' | 'conflict' | 'failed';
+  /** Server row when status is conflict; error text when failed. */
+  serverRow?: Record<string, any> | null;
+  error?: string;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CACHE_STORE)) db.createObjectStore(CACHE_STORE);
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) db.createObjectStore(QUEUE_STORE, { keyPath: 'seq', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function run<T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const request = action(db.transaction(storeName, mode).objectStore(storeName));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      })
+  );
+}
+
+/** True when a failed request looks like a lost connection rather than a rejected one. */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  const message = error instanceof Error ? error.message : String((error as any)?.message ?? error ?? '');
+  return /failed to fetch|networkerror|load failed|network request failed|fetch failed/i.test(message);
+}
+
+export async function cacheGet<T>(key: string): Promise<T | undefined> {
+  try {
+    const hit = await run<{ data: T } | undefined>(CACHE_STORE, 'readonly', (s) => s.get(key));
+    return hit?.data;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function cacheSet(key: string, data: unknown): Promise<void> {
+  try {
+    await run(CACHE_STORE, 'readwrite', (s) => s.put({ data, savedAt: new Date().toISOString() }, key));
+  } catch (error) {
+    console.warn('Offline cache write failed:', error);
+  }
+}
+
+/**
+ * Run a list query and keep its result for offline use. When the request fails because there is
+ * no connection, the last saved copy is returned instead (the original error if there is none).
+ */
+export async function withOfflineCache<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+  try {
+    const data = await fetcher();
+    void cacheSet(key, data);
+    return data;
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    const cached = await cacheGet<T>(key);
+    if (cached === undefined) throw error;
+    return cached;
+  }
+}
+
+/** Drop cached lists (on sign-out). */
+export async function clearOfflineCache(): Promise<void> {
+  try {
+    await run(CACHE_STORE, 'readwrite', (s) => s.clear());
+  } catch (error) {
+    console.warn('Offline cache clear failed:', error);
+  }
+}
+
+/** Who a queued change belongs to; older changes fall back to the row's user_id. Null = unknown, never replayed. */
+export function queuedChangeOwner(change: QueuedChange): string | null {
+  return change.userId ?? change.payload?.user_id ?? change.snapshot?.user_id ?? null;
+}
+
+/** Changes queued by `userId` (signed-out or unknown → none). */
+export async function listQueuedChanges(userId: string | null | undefined): Promise<QueuedChange[]> {
+  if (!userId) return [];
+  try {
+    const all = await run<QueuedChange[]>(QUEUE_STORE, 'readonly', (s) => s.getAll());
+    return all.filter((c) => queuedChangeOwner(c) === userId);
+  } catch {
+    return [];
+  }
+}
+
+export async function addQueuedChange(change: Omit<QueuedChange, 'seq' | 'queuedAt' | 'status'> & { userId: string }): Promise<void> {
+  await run(QUEUE_STORE, 'readwrite', (s) => s.add({ ...change, queuedAt: new Date().toISOString(), status: 'pending' }));
+}
+
+export async function putQueuedChange(change: QueuedChange): Promise<void> {
+  await run(QUEUE_STORE, 'readwrite', (s) => s.put(change));
+}
+
+export async function removeQueuedChange(seq: number): Promise<void> {
+  await run(QUEUE_STORE, 'readwrite', (s) => s.delete(seq));
+}
+
+/**
+ * Apply `userId`'s changes still waiting in the queue to a list of rows, so pages show what the user
+ * entered offline until it reaches the server. Rows created offline carry `_offline: true`.
+ */
+export async function overlayQueuedChanges<T extends { id: string }>(table: QueuedTable, rows: T[], userId: string | null | undefined): Promise<T[]> {
+  const changes = (await listQueuedChanges(userId)).filter((c) => c.table === table && c.status !== 'failed');
+  if (changes.length === 0) return rows;
+  let result = [...rows];
+  for (const change of changes) {
+    if (change.op === 'create') {
+      if (!result.some((r) => r.id === change.recordId)) {
+        result = [{ ...change.payload, id: change.recordId, _offline: true } as unknown as T, ...result];
+      }
+    } else if (change.op === 'update') {
+      result = result.map((r) => (r.id === change.recordId ? { ...r, ...change.payload, _offline: true } : r));
+    } else {
+      result = result.filter((r) => r.id !== change.recordId);
+    }
+  }
+  return result;
+}
+
+/** Row from the offline cache lists, used for an edit's base `updated_at` and delete clean-up. */
+export async function findCachedRow(table: QueuedTable, id: string): Promise<Record<string, any> | null> {
+  const keys = await run<IDBValidKey[]>(CACHE_STORE, 'readonly', (s) => s.getAllKeys()).catch(() => [] as IDBValidKey[]);
+  for (const key of keys) {
+    if (!String(key).startsWith(`${table}:`)) continue;
+    const rows = await cacheGet<any[]>(String(key));
+    const row = Array.isArray(rows) ? rows.find((r) => r?.id === id) : undefined;
+    if (row) return row;
+  }
+  return null;
+}
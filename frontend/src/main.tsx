@@ -14,6 +14,13 @@ if (!rootElement) {
   throw new Error('Root element not found!');
 }
 
+// Offline mode: the service worker keeps the app shell so the app opens without a connection.
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((err) => console.warn('Service worker registration failed:', err));
+  });
+}
+
 ReactDOM.createRoot(rootElement).render(
   <React.StrictMode>
     <App />
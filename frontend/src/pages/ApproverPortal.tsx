@@ -0,0 +1,302 @@
+import { useMemo, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import SignaturePad from '../components/SignaturePad';
+import { approvalPortalService } from '../services/backendServices';
+import {
+  PORTAL_DECISION_LABELS,
+  PortalDecision,
+  PortalSignatureKind,
+  PortalTicketDecision,
+  portalTicketKey,
+  validatePortalSubmission,
+} from '../utils/approvalPortal';
+import { generateAndStorePdf } from '../utils/pdfFromHtml';
+
+const fieldLabel: React.CSSProperties = { display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '12px', color: 'var(--text-secondary)' };
+
+const DECISION_COLORS: Record<PortalDecision, string> = {
+  approved: 'var(--success-color)',
+  rejected: 'var(--error-color)',
+};
+
+const formatDay = (date: string) =>
+  new Date(`${date}T12:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * Public page behind an approver link (/approve/<token>, no login). The customer's approver
+ * reviews the batch as it was sent, approves or rejects each ticket (a rejection needs a note),
+ * signs by drawing or typing their name and submits. The backend records the decisions and the
+ * signature and moves the batch; the signed batch PDF is built from them on the Invoices page.
+ */
+export default function ApproverPortal() {
+  const { token = '' } = useParams<{ token: string }>();
+  const { data: session, isLoading, error: loadError } = useQuery({
+    queryKey: ['approverPortal', token],
+    queryFn: () => approvalPortalService.openSession(token),
+    retry: false,
+  });
+
+  const [decisions, setDecisions] = useState<Record<string, { decision?: PortalDecision; note: string }>>({});
+  const [signerName, setSignerName] = useState<string | null>(null);
+  const [signatureKind, setSignatureKind] = useState<PortalSignatureKind>('drawn');
+  const [drawnSignature, setDrawnSignature] = useState<string | null>(null);
+  const [typedSignature, setTypedSignature] = useState('');
+  const [agreed, setAgreed] = useState(false);
+  const [viewingKey, setViewingKey] = useState<string | null>(null);
+  const [problems, setProblems] = useState<string[]>([]);
+
+  const tickets = session?.snapshot.tickets ?? [];
+  const name = signerName ?? session?.approverName ?? '';
+
+  const decisionList: PortalTicketDecision[] = useMemo(
+    () =>
+      tickets.flatMap(({ ticket }) => {
+        const d = decisions[portalTicketKey(ticket)];
+        return d?.decision ? [{ ticketKey: portalTicketKey(ticket), decision: d.decision, note: d.note.trim() || null }] : [];
+      }),
+    [tickets, decisions]
+  );
+  const rejectedCount = decisionList.filter((d) => d.decision === 'rejected').length;
+
+  const setDecision = (key: string, updates: Partial<{ decision: PortalDecision; note: string }>) =>
+    setDecisions((prev) => ({ ...prev, [key]: { ...prev[key], note: prev[key]?.note ?? '', ...updates } }));
+
+  const viewTicketPdf = async (index: number) => {
+    const entry = tickets[index];
+    if (!entry) return;
+    const key = portalTicketKey(entry.ticket);
+    setViewingKey(key);
+    try {
+      const { blob } = await generateAndStorePdf(entry.ticket, entry.expenses, { uploadToStorage: false, downloadLocally: false });
+      window.open(URL.createObjectURL(blob), '_blank', 'noopener');
+    } catch (err) {
+      console.warn('Could not build the ticket PDF:', err);
+    } finally {
+      setViewingKey(null);
+    }
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      if (!session) throw new Error('The batch has not loaded.');
+      const signature = {
+        kind: signatureKind,
+        data: signatureKind === 'drawn' ? drawnSignature ?? '' : typedSignature.trim(),
+        signerName: name.trim(),
+      };
+      const found = validatePortalSubmission(session.snapshot, { decisions: decisionList, signature });
+      if (!agreed) found.push('Tick the box to confirm your electronic signature.');
+      setProblems(found);
+      if (found.length > 0) throw new Error('Please fix the items above.');
+      return approvalPortalService.submit(token, { decisions: decisionList, signature });
+    },
+  });
+
+  const page = (children: React.ReactNode) => (
+    <div style={{ minHeight: '100vh', backgroundColor: 'var(--bg-primary)', color: 'var(--text-primary)', padding: '24px 16px' }}>
+      <div style={{ maxWidth: '860px', margin: '0 auto' }}>
+        <div style={{ fontSize: '13px', fontWeight: 700, letterSpacing: '0.08em', color: 'var(--primary-color)', marginBottom: '8px' }}>IONEX SYSTEMS</div>
+        {children}
+      </div>
+    </div>
+  );
+
+  if (isLoading) return page(<div style={{ color: 'var(--text-secondary)' }}>Loading…</div>);
+
+  if (loadError || !session) {
+    return page(
+      <div className="card" style={{ padding: '24px' }}>
+        <h2 style={{ marginTop: 0 }}>This link can't be used</h2>
+        <p style={{ color: 'var(--text-secondary)' }}>{loadError instanceof Error ? loadError.message : 'The approval link was not found.'}</p>
+      </div>
+    );
+  }
+
+  const { snapshot } = session;
+  const header = (
+    <div style={{ marginBottom: '16px' }}>
+      <h1 style={{ fontSize: '24px', margin: '0 0 4px' }}>Service ticket approval</h1>
+      <div style={{ color: 'var(--text-secondary)', fontSize: '14px' }}>
+        {snapshot.customerName} · {snapshot.projectLabel} · {snapshot.periodLabel} · {tickets.length} ticket{tickets.length === 1 ? '' : 's'}
+      </div>
+    </div>
+  );
+
+  const submitted = submitMutation.data;
+  if (session.completedAt || submitted) {
+    const outcome = submitted?.outcome ?? session.outcome;
+    const byKey = new Map(session.decisions.map((d) => [d.ticketKey, d]));
+    return page(
+      <>
+        {header}
+        <div className="card" style={{ padding: '24px' }}>
+          <h2 style={{ marginTop: 0, color: outcome === 'approved' ? 'var(--success-color)' : 'var(--warning-color)' }}>
+            {outcome === 'approved' ? 'Approved and signed' : 'Changes requested'}
+          </h2>
+          <p style={{ color: 'var(--text-secondary)' }}>
+            {submitted
+              ? outcome === 'approved'
+                ? 'Thank you. IONEX has your signed approval; there is nothing else to do.'
+                : 'Thank you. IONEX will correct the rejected tickets and send the batch again.'
+              : `Submitted by ${session.signerName ?? 'the approver'}${session.signedAt ? ` on ${new Date(session.signedAt).toLocaleString()}` : ''}. This link can't be used again.`}
+          </p>
+          {!submitted && byKey.size > 0 && (
+            <div style={{ display: 'grid', gap: '4px', fontSize: '13px' }}>
+              {tickets.map(({ ticket }) => {
+                const d = byKey.get(portalTicketKey(ticket));
+                return (
+                  <div key={portalTicketKey(ticket)}>
+                    <strong>{ticket.ticketNumber || ticket.id.slice(0, 8).toUpperCase()}</strong>{' '}
+                    {d && <span style={{ color: DECISION_COLORS[d.decision] }}>{PORTAL_DECISION_LABELS[d.decision]}</span>}
+                    {d?.note && <span style={{ color: 'var(--text-secondary)' }}> — {d.note}</span>}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </>
+    );
+  }
+
+  const busy = submitMutation.isPending;
+
+  return page(
+    <>
+      {header}
+      <div style={{ fontSize: '13px', color: 'var(--text-secondary)', marginBottom: '16px' }}>
+        Approve or reject each ticket. If something is wrong, reject that ticket with a note saying what needs to change. This link expires{' '}
+        {new Date(session.expiresAt).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}.
+      </div>
+
+      <div style={{ display: 'grid', gap: '10px', marginBottom: '20px' }}>
+        {tickets.map(({ ticket, expenses }, index) => {
+          const key = portalTicketKey(ticket);
+          const current = decisions[key];
+          const description = [...new Set(ticket.entries.map((e) => (e.description || '').trim()).filter(Boolean))].join('; ');
+          return (
+            <div key={key} className="card" style={{ padding: '14px 16px', borderLeft: `4px solid ${current?.decision ? DECISION_COLORS[current.decision] : 'var(--border-color)'}` }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: '12px', flexWrap: 'wrap' }}>
+                <div>
+                  <div style={{ fontWeight: 600 }}>
+                    {ticket.ticketNumber || ticket.id.slice(0, 8).toUpperCase()} · {formatDay(ticket.date)}
+                  </div>
+                  <div style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>
+                    {ticket.userName} · {ticket.totalHours.toFixed(2)} h{expenses.length > 0 ? ` · ${expenses.length} expense${expenses.length === 1 ? '' : 's'}` : ''}
+                    {ticket.location ? ` · ${ticket.location}` : ''}
+                  </div>
+                  {description && <div style={{ fontSize: '12px', color: 'var(--text-tertiary)', marginTop: '4px', maxWidth: '560px' }}>{description}</div>}
+                </div>
+                <div style={{ display: 'flex', gap: '6px', alignItems: 'flex-start' }}>
+                  <button type="button" className="payroll-action-btn" disabled={viewingKey != null} onClick={() => viewTicketPdf(index)}>
+                    {viewingKey === key ? 'Opening…' : 'View PDF'}
+                  </button>
+                  {(['approved', 'rejected'] as const).map((decision) => (
+                    <button
+                      key={decision}
+                      type="button"
+                      className={`payroll-action-btn${current?.decision === decision ? ' is-primary' : ''}`}
+                      style={current?.decision === decision ? { backgroundColor: DECISION_COLORS[decision], borderColor: DECISION_COLORS[decision] } : undefined}
+                      disabled={busy}
+                      onClick={() => setDecision(key, { decision })}
+                    >
+                      {decision === 'approved' ? 'Approve' : 'Reject'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {current?.decision === 'rejected' && (
+                <label style={{ ...fieldLabel, marginTop: '10px' }}>
+                  What needs to change?
+                  <textarea
+                    className="input"
+                    rows={2}
+                    value={current.note}
+                    disabled={busy}
+                    onChange={(e) => setDecision(key, { note: e.target.value })}
+                    style={{ fontFamily: 'inherit', resize: 'vertical' }}
+                  />
+                </label>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div style={{ display: 'flex', gap: '8px', marginBottom: '20px' }}>
+        <button
+          type="button"
+          className="payroll-action-btn"
+          disabled={busy}
+          onClick={() => setDecisions((prev) => Object.fromEntries(tickets.map(({ ticket }) => {
+            const key = portalTicketKey(ticket);
+            return [key, prev[key]?.decision ? prev[key] : { decision: 'approved' as const, note: '' }];
+          })))}
+        >
+          Approve all remaining
+        </button>
+      </div>
+
+      <div className="card" style={{ padding: '16px', display: 'grid', gap: '12px' }}>
+        <h3 style={{ margin: 0 }}>Sign</h3>
+        <label style={fieldLabel}>
+          Your name
+          <input className="input" value={name} disabled={busy} onChange={(e) => setSignerName(e.target.value)} />
+        </label>
+        <div style={{ display: 'flex', gap: '6px' }}>
+          {(['drawn', 'typed'] as const).map((kind) => (
+            <button
+              key={kind}
+              type="button"
+              className={`payroll-action-btn${signatureKind === kind ? ' is-primary' : ''}`}
+              disabled={busy}
+              onClick={() => setSignatureKind(kind)}
+            >
+              {kind === 'drawn' ? 'Draw signature' : 'Type signature'}
+            </button>
+          ))}
+        </div>
+        {signatureKind === 'drawn' ? (
+          <SignaturePad onChange={setDrawnSignature} disabled={busy} />
+        ) : (
+          <label style={fieldLabel}>
+            Type your full name as your signature
+            <input
+              className="input"
+              value={typedSignature}
+              disabled={busy}
+              maxLength={100}
+              onChange={(e) => setTypedSignature(e.target.value)}
+              style={{ fontFamily: "'Brush Script MT', 'Segoe Script', cursive", fontSize: '22px' }}
+            />
+          </label>
+        )}
+        <label style={{ display: 'flex', gap: '8px', alignItems: 'flex-start', fontSize: '13px' }}>
+          <input type="checkbox" checked={agreed} disabled={busy} onChange={(e) => setAgreed(e.target.checked)} />
+          <span>
+            I have reviewed these service tickets and agree that my electronic signature is as binding as a handwritten one.
+            {rejectedCount > 0 ? ` ${rejectedCount} ticket${rejectedCount === 1 ? ' is' : 's are'} rejected; the batch will go back to IONEX for correction.` : ''}
+          </span>
+        </label>
+
+        {problems.length > 0 && (
+          <div style={{ padding: '10px', borderRadius: '6px', backgroundColor: 'rgba(220,53,69,0.10)', color: 'var(--error-color)', fontSize: '12px' }}>
+            {problems.map((p) => <div key={p}>{p}</div>)}
+          </div>
+        )}
+        {submitMutation.error && problems.length === 0 && (
+          <div style={{ padding: '10px', borderRadius: '6px', backgroundColor: 'rgba(220,53,69,0.10)', color: 'var(--error-color)', fontSize: '12px' }}>
+            {submitMutation.error.message}
+          </div>
+        )}
+
+        <div>
+          <button type="button" className="button button-primary" disabled={busy} onClick={() => submitMutation.mutate()}>
+            {busy ? 'Submitting…' : rejectedCount > 0 ? 'Submit and request changes' : 'Approve and sign'}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,8 +1,11 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
-import { projectsService, timeEntriesService } from '../services/supabaseServices';
+import { employeesService, leaveDaysService, projectsService, timeEntriesService } from '../services/supabaseServices';
 import { getEntryHoursOnDate } from '../utils/timeEntryUtils';
+import { formatYmd } from '../utils/payPeriod';
+import { LEAVE_TYPE_LABELS, LeaveDay } from '../utils/leave';
+import { statHolidayOn } from '../utils/statHolidays';
 import { useAuth } from '../context/AuthContext';
 import { useDemoMode } from '../context/DemoModeContext';
 
@@ -46,6 +49,26 @@ export default function Calendar() {
     queryFn: () => timeEntriesService.getAll(isDemoMode, user?.id),
   });
 
+  // Approved time off in the visible month (leave_days).
+  const monthStart = formatYmd(new Date(currentDate.getFullYear(), currentDate.getMonth(), 1));
+  const monthEnd = formatYmd(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0));
+  const { data: leaveDays = [] } = useQuery({
+    queryKey: ['leaveDays', 'calendar', monthStart, user?.id],
+    enabled: !!user?.id && !isDemoMode,
+    queryFn: () => leaveDaysService.getForRange(monthStart, monthEnd, user?.id),
+  });
+  const leaveByDate = useMemo(
+    () => new Map<string, LeaveDay>(leaveDays.map((d) => [String(d.date).slice(0, 10), d])),
+    [leaveDays]
+  );
+
+  // Stat holidays follow the user's province (BC when unset).
+  const { data: statJurisdiction = null } = useQuery({
+    queryKey: ['statJurisdiction', user?.id],
+    queryFn: () => employeesService.getJurisdictionForUser(user!.id),
+    enabled: !!user?.id,
+  });
+
 
   // Timer logic
   useEffect(() => {
@@ -257,6 +280,8 @@ export default function Calendar() {
             const dateStr = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
             const totalHours = entries.reduce((sum: number, entry: any) => sum + getEntryHoursOnDate(entry, dateStr), 0);
             const isToday = date.toDateString() === new Date().toDateString();
+            const leave = leaveByDate.get(dateStr);
+            const holiday = statHolidayOn(statJurisdiction, dateStr);
             
             return (
               <div
@@ -281,12 +306,25 @@ export default function Calendar() {
                 <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>
                   {date.getDate()}
                 </div>
+                {holiday && (
+                  <div style={{ marginBottom: '4px', fontSize: '11px', fontWeight: 600, color: '#f59e0b' }} title="Stat holiday">
+                    🎉 {holiday.name}
+                  </div>
+                )}
                 {entries.length > 0 && (
                   <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
                     <div>{totalHours.toFixed(1)}h</div>
                     <div>{entries.length} {entries.length === 1 ? 'entry' : 'entries'}</div>
                   </div>
                 )}
+                {leave && (
+                  <div
+                    style={{ marginTop: '4px', fontSize: '11px', fontWeight: 600, color: '#4ecdc4' }}
+                    title={`${LEAVE_TYPE_LABELS[leave.leave_type]} leave (${leave.is_paid ? 'paid' : 'unpaid'})`}
+                  >
+                    🌴 {LEAVE_TYPE_LABELS[leave.leave_type]} {leave.hours}h
+                  </div>
+                )}
               </div>
             );
           })}
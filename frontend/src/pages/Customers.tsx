@@ -3,6 +3,9 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '../context/AuthContext';
 import { useDemoMode } from '../context/DemoModeContext';
 import { customersService, invoiceWorkflowsService, invoicedBatchMarksService } from '../services/supabaseServices';
+import RateCardsEditor from '../components/RateCardsEditor';
+import CustomerEmailTemplateEditor from '../components/CustomerEmailTemplateEditor';
+import { DEFAULT_PAYMENT_TERMS_DAYS } from '../utils/receivables';
 
 export default function Customers() {
   const { user, isAdmin } = useAuth();
@@ -35,6 +38,7 @@ export default function Customers() {
     rate_travel: '',
     invoice_date_grouping: '',
     invoice_workflow_id: '',
+    payment_terms_days: '',
   });
 
   const [showInactive, setShowInactive] = useState(false);
@@ -199,6 +203,7 @@ export default function Customers() {
       rate_travel: '',
       invoice_date_grouping: '',
       invoice_workflow_id: '',
+      payment_terms_days: '',
     });
   };
 
@@ -227,6 +232,7 @@ export default function Customers() {
       rate_travel: customer.rate_travel || '',
       invoice_date_grouping: customer.invoice_date_grouping || '',
       invoice_workflow_id: customer.invoice_workflow_id || '',
+      payment_terms_days: customer.payment_terms_days != null ? String(customer.payment_terms_days) : '',
     });
     setShowModal(true);
   };
@@ -237,6 +243,7 @@ export default function Customers() {
       ...formData,
       invoice_date_grouping: formData.invoice_date_grouping || null,
       invoice_workflow_id: formData.invoice_workflow_id || null,
+      payment_terms_days: formData.payment_terms_days.trim() === '' ? null : Math.max(0, Math.round(Number(formData.payment_terms_days) || 0)),
     };
     if (editingCustomer) {
       const prevWorkflowId: string | null = editingCustomer.invoice_workflow_id ?? null;
@@ -488,6 +495,18 @@ export default function Customers() {
               </select>
             </div>
 
+            <div className="form-group">
+              <label className="label">Payment Terms (days)</label>
+              <input
+                type="number"
+                min={0}
+                className="input"
+                placeholder={`${DEFAULT_PAYMENT_TERMS_DAYS} (default)`}
+                value={formData.payment_terms_days}
+                onChange={(e) => setFormData({ ...formData, payment_terms_days: e.target.value })}
+              />
+            </div>
+
             <div className="form-group">
               <label className="label">Invoice Workflow</label>
               <select
@@ -604,6 +623,9 @@ export default function Customers() {
               <div></div>
             </div>
 
+            {isAdmin && editingCustomer?.id && <RateCardsEditor customerId={editingCustomer.id} />}
+            {isAdmin && editingCustomer?.id && <CustomerEmailTemplateEditor customerId={editingCustomer.id} customerEmail={editingCustomer.email} />}
+
               <button type="submit" className="button button-primary" disabled={createMutation.isPending || updateMutation.isPending}>
                 Update Customer
               </button>
@@ -754,6 +776,18 @@ export default function Customers() {
               </select>
             </div>
 
+            <div className="form-group">
+              <label className="label">Payment Terms (days)</label>
+              <input
+                type="number"
+                min={0}
+                className="input"
+                placeholder={`${DEFAULT_PAYMENT_TERMS_DAYS} (default)`}
+                value={formData.payment_terms_days}
+                onChange={(e) => setFormData({ ...formData, payment_terms_days: e.target.value })}
+              />
+            </div>
+
             <div className="form-group">
               <label className="label">Invoice Workflow</label>
               <select
@@ -4,7 +4,7 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { useDemoMode } from '../context/DemoModeContext';
 import { supabase } from '../lib/supabaseClient';
-import { timeEntriesService, employeesService, payRateHistoryService } from '../services/supabaseServices';
+import { timeEntriesService, employeesService, payRateHistoryService, receivablesService } from '../services/supabaseServices';
 import { laborCostByTicketServiceWeek } from '../utils/dashboardChartLabor';
 import {
   BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, Legend,
@@ -12,6 +12,7 @@ import {
 import DashboardWeeklyInsights from '../components/DashboardWeeklyInsights';
 import { buildDashboardWeeklyInsights } from '../utils/dashboardWeeklyInsights';
 import { localMondayWeekStartKey } from '../utils/localMondayWeek';
+import { cashCollected, invoiceBalance, invoiceStatus } from '../utils/receivables';
 
 const fmt = (n: number) =>
   n.toLocaleString('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0, maximumFractionDigits: 0 });
@@ -312,6 +313,30 @@ export default function Dashboard() {
     };
   }, [ticketsRaw, chartUserExpensesRaw, laborCostByTicketWeek, calendarDayKey]);
 
+  // ─── Receivables: payments this month vs the same days last month, and overdue balances (live data only) ───
+  const { data: receivables } = useQuery({
+    queryKey: ['dash-receivables', calendarDayKey],
+    queryFn: async () => {
+      const today = new Date(`${calendarDayKey}T12:00:00`);
+      const fmtYmd = (d: Date) =>
+        `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+      const monthStart = fmtYmd(new Date(today.getFullYear(), today.getMonth(), 1));
+      const lastMonthStart = fmtYmd(new Date(today.getFullYear(), today.getMonth() - 1, 1));
+      const lastMonthEndD = new Date(today.getFullYear(), today.getMonth(), 0);
+      const priorPartialEnd = fmtYmd(new Date(today.getFullYear(), today.getMonth() - 1, Math.min(today.getDate(), lastMonthEndD.getDate())));
+      const [payments, invoices] = await Promise.all([receivablesService.getPaymentsSince(lastMonthStart), receivablesService.getInvoices()]);
+      return {
+        cashCollectedMtd: cashCollected(payments, monthStart, calendarDayKey),
+        cashCollectedPriorSamePeriod: cashCollected(payments, lastMonthStart, priorPartialEnd),
+        receivablesOverdue: Math.round(
+          invoices.filter((i) => invoiceStatus(i, calendarDayKey) === 'overdue').reduce((sum, i) => sum + invoiceBalance(i), 0)
+        ),
+      };
+    },
+    enabled: isAdmin && !isDemoMode,
+    retry: false,
+  });
+
   // ─── Action items (with search params to open Employee Overview on target page) ───
   const actionItems = [
     { label: 'Tickets Awaiting Review', count: awaitingReviewCount, path: '/service-tickets?overview=open&tab=submitted', color: '#3b82f6' },
@@ -338,6 +363,9 @@ export default function Dashboard() {
         lastMonthLabel,
         monthBeforeLastLabel,
         currentMonthLabel,
+        cashCollectedMtd: receivables?.cashCollectedMtd,
+        cashCollectedPriorSamePeriod: receivables?.cashCollectedPriorSamePeriod,
+        receivablesOverdue: receivables?.receivablesOverdue,
       }),
     [
       revenueByWeek,
@@ -352,6 +380,7 @@ export default function Dashboard() {
       lastMonthLabel,
       monthBeforeLastLabel,
       currentMonthLabel,
+      receivables,
     ],
   );
 
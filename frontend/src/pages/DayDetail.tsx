@@ -3,13 +3,17 @@ import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '../context/AuthContext';
 import { useDemoMode } from '../context/DemoModeContext';
-import { timeEntriesService, projectsService, serviceTicketsService } from '../services/supabaseServices';
+import { timeEntriesService, projectsService, serviceTicketsService, costCodesService } from '../services/supabaseServices';
+import { offlineTimeEntriesService } from '../services/offlineQueue';
 import { getEntryHoursOnDate } from '../utils/timeEntryUtils';
+import { costCodeRequired } from '../utils/costCodes';
+import CostCodeSelect from '../components/CostCodeSelect';
 
 interface TimeEntry {
   id: string;
   date?: string;
   project_id?: string;
+  cost_code_id?: string | null;
   start_time?: string;
   end_time?: string;
   hours: number;
@@ -66,6 +70,7 @@ export default function DayDetail() {
   const entryRefs = useRef<Map<string, HTMLDivElement>>(new Map());
   const [formData, setFormData] = useState({
     project_id: '',
+    cost_code_id: '',
     hours: '1',
     description: '',
     start_time: '',
@@ -86,6 +91,13 @@ export default function DayDetail() {
     );
   }, [projects, editingEntry?.project_id]);
 
+  const { data: costCodes = [] } = useQuery({
+    queryKey: ['projectCostCodes'],
+    queryFn: () => costCodesService.getAll(),
+  });
+  const selectedProjectCodes = costCodes.filter((c) => c.project_id === formData.project_id);
+  const costCodeIsRequired = costCodeRequired(projects?.find((p: any) => p.id === formData.project_id), selectedProjectCodes);
+
   const { data: timeEntries } = useQuery({
     queryKey: ['timeEntries', 'day', date, user?.id],
     enabled: !!user?.id && !!date,
@@ -104,6 +116,7 @@ export default function DayDetail() {
       const entryData: any = {
         user_id: user.id,
         project_id: data.project_id || null,
+        cost_code_id: (data.project_id && data.cost_code_id) || null,
         date: date,
         start_time: data.start_time || null,
         end_time: data.end_time || null,
@@ -120,7 +133,7 @@ export default function DayDetail() {
         if (project) entryData.rate = project.rate;
       }
       
-      return await timeEntriesService.create(entryData);
+      return await offlineTimeEntriesService.create(entryData);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['timeEntries'] });
@@ -131,7 +144,7 @@ export default function DayDetail() {
 
   const updateEntryMutation = useMutation({
     mutationFn: async ({ id, data }: { id: string; data: any }) => {
-      return await timeEntriesService.update(id, data);
+      return await offlineTimeEntriesService.update(id, data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['timeEntries'] });
@@ -143,8 +156,8 @@ export default function DayDetail() {
   const deleteEntryMutation = useMutation({
     mutationFn: async (payload: { id: string; entry?: any }) => {
       const { id, entry } = payload;
-      await timeEntriesService.delete(id);
-      if (entry?.project_id && entry?.project?.customer?.id) {
+      const queued = await offlineTimeEntriesService.delete(id);
+      if (!queued && entry?.project_id && entry?.project?.customer?.id) {
         const dateStr = typeof entry.date === 'string' ? entry.date : new Date(entry.date).toISOString().split('T')[0];
         await serviceTicketsService.deleteTicketIfNoTimeEntriesFor({
           date: dateStr,
@@ -187,7 +200,7 @@ export default function DayDetail() {
         }
         
         if (Object.keys(updateData).length > 0) {
-          updates.push(timeEntriesService.update(entryId, updateData));
+          updates.push(offlineTimeEntriesService.update(entryId, updateData));
         }
       }
       return Promise.all(updates);
@@ -201,6 +214,7 @@ export default function DayDetail() {
   const resetForm = () => {
     setFormData({
       project_id: '',
+      cost_code_id: '',
       hours: '1',
       description: '',
       start_time: '',
@@ -222,8 +236,8 @@ export default function DayDetail() {
     
     for (const entry of entriesToDelete) {
       try {
-        await timeEntriesService.delete(entry.id);
-        if (entry?.project_id && entry?.project?.customer?.id) {
+        const queued = await offlineTimeEntriesService.delete(entry.id);
+        if (!queued && entry?.project_id && entry?.project?.customer?.id) {
           const dateStr = typeof entry.date === 'string' ? entry.date : new Date(entry.date).toISOString().split('T')[0];
           await serviceTicketsService.deleteTicketIfNoTimeEntriesFor({
             date: dateStr,
@@ -419,6 +433,7 @@ export default function DayDetail() {
 
     setFormData({
       project_id: entry.project_id || '',
+      cost_code_id: entry.cost_code_id || '',
       hours: entry.hours.toString(),
       description: entry.description || '',
       start_time: startTime ? startTime.toTimeString().slice(0, 5) : '',
@@ -429,6 +444,10 @@ export default function DayDetail() {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (costCodeIsRequired && !formData.cost_code_id) {
+      alert('This project requires a phase / cost code');
+      return;
+    }
     
     // Construct ISO strings for start/end times if provided
     let startTimeISO = null;
@@ -450,6 +469,7 @@ export default function DayDetail() {
 
     const data: any = {
       project_id: formData.project_id,
+      cost_code_id: (formData.project_id && formData.cost_code_id) || null,
       hours: formData.hours,
       description: formData.description,
       start_time: startTimeISO,
@@ -726,7 +746,7 @@ export default function DayDetail() {
                 <select
                   className="input"
                   value={formData.project_id}
-                  onChange={(e) => setFormData({ ...formData, project_id: e.target.value })}
+                  onChange={(e) => setFormData({ ...formData, project_id: e.target.value, cost_code_id: '' })}
                 >
                   <option value="">Select Project</option>
                   {projectsForTimePicker.map((project: any) => (
@@ -737,6 +757,15 @@ export default function DayDetail() {
                 </select>
               </div>
 
+              <CostCodeSelect
+                codes={costCodes}
+                projectId={formData.project_id}
+                value={formData.cost_code_id}
+                onChange={(costCodeId) => setFormData({ ...formData, cost_code_id: costCodeId || '' })}
+                required={costCodeIsRequired}
+                style={{ marginBottom: 0 }}
+              />
+
               <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '10px' }}>
                 <div className="form-group">
                   <label className="label">Start</label>
@@ -0,0 +1,270 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '../context/AuthContext';
+import { useDemoMode } from '../context/DemoModeContext';
+import { costCodesService, crewAssignmentsService, customersService, employeesService, leaveDaysService, projectsService } from '../services/supabaseServices';
+import CrewAssignmentModal, { employeeDisplayName } from '../components/CrewAssignmentModal';
+import { CrewAssignment, findAssignmentConflicts, formatAssignmentTime, plannedVsActualByProject } from '../utils/dispatch';
+import { LEAVE_TYPE_LABELS } from '../utils/leave';
+import { getMondaySundayWeekBounds, startOfWeekMonday } from '../utils/localMondayWeek';
+import { formatYmd } from '../utils/payPeriod';
+import { statHolidayOn } from '../utils/statHolidays';
+
+function projectLabel(project: any): string {
+  if (!project) return 'Shop / internal';
+  return project.project_number ? `${project.project_number} – ${project.name}` : project.name;
+}
+
+/**
+ * Dispatch board: who is where each day of the week. Rows are employees, columns are days; each
+ * cell shows approved leave, stat holidays and the day's assignments, with conflicts flagged.
+ * Below the board, planned hours per project are compared with hours logged that week.
+ */
+export default function Dispatch() {
+  const { user } = useAuth();
+  const { isDemoMode } = useDemoMode();
+  const [anchor, setAnchor] = useState(() => startOfWeekMonday(new Date()));
+  const [editing, setEditing] = useState<CrewAssignment | null>(null);
+  const [department, setDepartment] = useState('');
+
+  const bounds = getMondaySundayWeekBounds(anchor);
+  const weekDates = Array.from({ length: 7 }, (_, i) => formatYmd(new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() + i)));
+  const today = formatYmd(new Date());
+
+  const { data: employees = [] } = useQuery({
+    queryKey: ['employees', 'dispatch'],
+    queryFn: () => employeesService.getAll(false),
+  });
+  const { data: projects = [] } = useQuery({
+    queryKey: ['projects'],
+    queryFn: () => projectsService.getAll(),
+  });
+  const { data: customers = [] } = useQuery({
+    queryKey: ['customers'],
+    queryFn: () => customersService.getAll(),
+  });
+  const { data: costCodes = [] } = useQuery({
+    queryKey: ['projectCostCodes'],
+    queryFn: () => costCodesService.getAll(),
+  });
+  const { data: assignments = [] } = useQuery({
+    queryKey: ['crewAssignments', bounds.weekStart, isDemoMode],
+    queryFn: () => crewAssignmentsService.getForRange(bounds.weekStart, bounds.weekEnd, isDemoMode),
+  });
+  const { data: leaveDays = [] } = useQuery({
+    queryKey: ['leaveDays', 'dispatch', bounds.weekStart],
+    queryFn: () => leaveDaysService.getForRange(bounds.weekStart, bounds.weekEnd),
+  });
+  const { data: loggedEntries = [] } = useQuery({
+    queryKey: ['timeEntries', 'dispatch', bounds.weekStart, isDemoMode],
+    queryFn: () => crewAssignmentsService.getLoggedEntries(bounds.weekStart, bounds.weekEnd, isDemoMode),
+  });
+
+  const departments = [...new Set(employees.map((e: any) => e.department).filter(Boolean))].sort() as string[];
+  const crew = employees.filter((e: any) => e.user_id && (!department || e.department === department));
+  const jurisdictionByUser = new Map<string, string | null>(employees.map((e: any) => [e.user_id, e.overtime_jurisdiction ?? null]));
+  const conflicts = findAssignmentConflicts(assignments, leaveDays, jurisdictionByUser);
+  const conflictCount = assignments.filter((a) => a.id && conflicts.has(a.id)).length;
+  const comparison = plannedVsActualByProject(assignments, loggedEntries, weekDates);
+
+  const shiftWeek = (weeks: number) => setAnchor((d) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + weeks * 7));
+
+  const newAssignment = (userId: string, date: string): CrewAssignment => ({
+    user_id: userId,
+    date,
+    customer_id: null,
+    project_id: null,
+    cost_code_id: null,
+    location: null,
+    rate_type: 'Field Time',
+    start_time: '08:00',
+    hours: 8,
+    notes: null,
+    created_by: user?.id ?? null,
+    is_demo: isDemoMode,
+  });
+
+  const navButton: React.CSSProperties = { backgroundColor: 'transparent', color: 'var(--text-primary)', padding: '6px 12px', fontSize: '13px', border: '1px solid var(--border-color)' };
+
+  return (
+    <div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px', flexWrap: 'wrap', gap: '10px' }}>
+        <div>
+          <h2>Dispatch</h2>
+          <div style={{ color: 'var(--text-secondary)', fontSize: '14px' }}>
+            {bounds.label}
+            {conflictCount > 0 && <span style={{ color: 'var(--warning-color)', fontWeight: 600 }}> · ⚠ {conflictCount} assignment{conflictCount === 1 ? '' : 's'} with conflicts</span>}
+          </div>
+        </div>
+        <div style={{ display: 'flex', gap: '6px', alignItems: 'center', flexWrap: 'wrap' }}>
+          {departments.length > 1 && (
+            <select className="input" value={department} onChange={(e) => setDepartment(e.target.value)} style={{ width: 'auto' }}>
+              <option value="">All departments</option>
+              {departments.map((d) => (
+                <option key={d} value={d}>{d}</option>
+              ))}
+            </select>
+          )}
+          <button className="button" style={navButton} onClick={() => shiftWeek(-1)}>‹ Prev</button>
+          <button className="button" style={navButton} onClick={() => setAnchor(startOfWeekMonday(new Date()))}>This week</button>
+          <button className="button" style={navButton} onClick={() => shiftWeek(1)}>Next ›</button>
+        </div>
+      </div>
+
+      <div className="card" style={{ marginBottom: '24px', overflowX: 'auto' }}>
+        <table className="payroll-mini-table" style={{ minWidth: '980px', tableLayout: 'fixed' }}>
+          <thead>
+            <tr>
+              <th style={{ width: '150px' }}>Employee</th>
+              {weekDates.map((date) => (
+                <th key={date} style={date === today ? { color: 'var(--logo-red)' } : undefined}>
+                  {new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                </th>
+              ))}
+              <th style={{ width: '60px' }}>Planned</th>
+            </tr>
+          </thead>
+          <tbody>
+            {crew.length === 0 && (
+              <tr>
+                <td colSpan={9} className="payroll-muted" style={{ fontStyle: 'italic' }}>No employees.</td>
+              </tr>
+            )}
+            {crew.map((emp: any) => {
+              const mine = assignments.filter((a) => a.user_id === emp.user_id);
+              const planned = mine.reduce((sum, a) => sum + Number(a.hours), 0);
+              return (
+                <tr key={emp.id}>
+                  <td>
+                    <div style={{ fontWeight: 600 }}>{employeeDisplayName(emp)}</div>
+                    {emp.department && <div className="payroll-muted" style={{ fontSize: '11px' }}>{emp.department}</div>}
+                  </td>
+                  {weekDates.map((date) => {
+                    const leave = leaveDays.find((d) => d.user_id === emp.user_id && String(d.date).slice(0, 10) === date);
+                    const holiday = statHolidayOn(emp.overtime_jurisdiction ?? null, date);
+                    const dayAssignments = mine.filter((a) => String(a.date).slice(0, 10) === date);
+                    return (
+                      <td
+                        key={date}
+                        style={{
+                          verticalAlign: 'top',
+                          backgroundColor: leave ? 'rgba(78, 205, 196, 0.10)' : holiday ? 'rgba(255, 193, 7, 0.10)' : undefined,
+                        }}
+                      >
+                        {leave && (
+                          <div style={{ fontSize: '11px', color: '#4ecdc4', fontWeight: 600 }}>
+                            🌴 {LEAVE_TYPE_LABELS[leave.leave_type]} {leave.hours}h
+                          </div>
+                        )}
+                        {holiday && <div style={{ fontSize: '11px', color: '#f59e0b', fontWeight: 600 }}>🎉 {holiday.name}</div>}
+                        {dayAssignments.map((a) => {
+                          const project = projects.find((p: any) => p.id === a.project_id);
+                          const problems = (a.id && conflicts.get(a.id)) || [];
+                          return (
+                            <button
+                              key={a.id}
+                              type="button"
+                              onClick={() => setEditing(a)}
+                              title={[a.notes, ...problems].filter(Boolean).join('\n')}
+                              style={{
+                                display: 'block',
+                                width: '100%',
+                                textAlign: 'left',
+                                margin: '2px 0',
+                                padding: '4px 6px',
+                                borderRadius: '4px',
+                                cursor: 'pointer',
+                                fontSize: '11px',
+                                color: 'var(--text-primary)',
+                                backgroundColor: 'var(--bg-secondary)',
+                                border: `1px solid ${problems.length > 0 ? 'var(--warning-color)' : 'var(--border-color)'}`,
+                                borderLeft: `4px solid ${project?.color || 'var(--border-color)'}`,
+                              }}
+                            >
+                              <div style={{ fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                {problems.length > 0 && '⚠ '}
+                                {projectLabel(project)}
+                              </div>
+                              <div className="payroll-muted">
+                                {formatAssignmentTime(a)}
+                                {a.location ? ` · ${a.location}` : ''}
+                              </div>
+                            </button>
+                          );
+                        })}
+                        <button
+                          type="button"
+                          className="payroll-action-btn"
+                          style={{ fontSize: '11px', padding: '1px 6px', marginTop: '2px' }}
+                          onClick={() => setEditing(newAssignment(emp.user_id, date))}
+                          aria-label={`Assign ${employeeDisplayName(emp)} on ${date}`}
+                        >
+                          +
+                        </button>
+                      </td>
+                    );
+                  })}
+                  <td style={{ fontWeight: 600 }}>{planned > 0 ? `${planned}h` : ''}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="card">
+        <h3 style={{ marginBottom: '4px' }}>Planned vs. logged this week</h3>
+        <p style={{ color: 'var(--text-secondary)', fontSize: '13px', marginBottom: '12px' }}>
+          Hours on the board compared with time entries logged for the same days, per project.
+        </p>
+        {comparison.length === 0 ? (
+          <div className="payroll-muted" style={{ fontStyle: 'italic' }}>Nothing planned or logged this week.</div>
+        ) : (
+          <table className="payroll-mini-table">
+            <thead>
+              <tr>
+                <th>Project</th>
+                <th>Planned</th>
+                <th>Logged</th>
+                <th>Difference</th>
+                <th>People</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.map((row) => {
+                const diff = Math.round((row.actual - row.planned) * 100) / 100;
+                return (
+                  <tr key={row.projectId ?? 'internal'}>
+                    <td>{projectLabel(projects.find((p: any) => p.id === row.projectId))}</td>
+                    <td>{row.planned.toFixed(2)}</td>
+                    <td>{row.actual.toFixed(2)}</td>
+                    <td style={{ color: diff > 0 ? 'var(--warning-color)' : diff < 0 ? 'var(--text-secondary)' : undefined, fontWeight: 600 }}>
+                      {diff > 0 ? '+' : ''}
+                      {diff.toFixed(2)}
+                    </td>
+                    <td>{row.userIds.length}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {editing && (
+        <CrewAssignmentModal
+          assignment={editing}
+          weekDates={weekDates}
+          employees={employees}
+          projects={projects}
+          customers={customers}
+          costCodes={costCodes}
+          weekAssignments={assignments}
+          leaveDays={leaveDays}
+          jurisdictionByUser={jurisdictionByUser}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,19 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { employeesService, usersService } from '../services/supabaseServices';
+import { employeesService, payRateAdjustmentsService, usersService } from '../services/supabaseServices';
 import { useAuth } from '../context/AuthContext';
+import { OVERTIME_JURISDICTIONS } from '../utils/overtimeRules';
+import { payRatesDiffer, toPayRates } from '../utils/backPay';
+import { formatYmd } from '../utils/payPeriod';
+import LeavePoliciesEditor from '../components/LeavePoliciesEditor';
 
 export default function Employees() {
   const queryClient = useQueryClient();
   const { user, isAdmin } = useAuth();
   const [showForm, setShowForm] = useState(false);
   const [editingEmployee, setEditingEmployee] = useState<any>(null);
+  /** Pay-rate changes apply from this date; a past date pays back-pay in the next payroll run. */
+  const [rateEffectiveDate, setRateEffectiveDate] = useState(() => formatYmd(new Date()));
   const [formData, setFormData] = useState({
     user_id: '', // Will need to fetch users to link
     employee_id: '',
@@ -30,9 +36,11 @@ export default function Employees() {
     truck_reimb_rate: '1.00',
     per_diem_reimb_rate: '1.00',
     employment_type: 'Employee',
+    overtime_jurisdiction: 'BC',
+    overtime_class: '',
+    supervisor_user_id: '',
     expenses_require_approval: false,
     sick_pay_pct: '0',
-    stat_holiday_pay_pct: '0',
     vacation_pay_pct: '0',
     cell_phone_allowance: '0',
     health_allowance: '0',
@@ -86,9 +94,11 @@ export default function Employees() {
         truck_reimb_rate: data.truck_reimb_rate ? parseFloat(data.truck_reimb_rate) : 1.00,
         per_diem_reimb_rate: data.per_diem_reimb_rate ? parseFloat(data.per_diem_reimb_rate) : 1.00,
         employment_type: data.employment_type || 'Employee',
+        overtime_jurisdiction: data.overtime_jurisdiction || 'BC',
+        overtime_class: data.overtime_class?.trim() || null,
+        supervisor_user_id: data.supervisor_user_id || null,
         expenses_require_approval: !!data.expenses_require_approval,
         sick_pay_pct: data.sick_pay_pct ? parseFloat(data.sick_pay_pct) : 0,
-        stat_holiday_pay_pct: data.stat_holiday_pay_pct ? parseFloat(data.stat_holiday_pay_pct) : 0,
         vacation_pay_pct: data.vacation_pay_pct ? parseFloat(data.vacation_pay_pct) : 0,
         cell_phone_allowance: data.cell_phone_allowance ? parseFloat(data.cell_phone_allowance) : 0,
         health_allowance: data.health_allowance ? parseFloat(data.health_allowance) : 0,
@@ -142,17 +152,33 @@ export default function Employees() {
         truck_reimb_rate: data.truck_reimb_rate ? parseFloat(data.truck_reimb_rate) : 1.00,
         per_diem_reimb_rate: data.per_diem_reimb_rate ? parseFloat(data.per_diem_reimb_rate) : 1.00,
         employment_type: data.employment_type || 'Employee',
+        overtime_jurisdiction: data.overtime_jurisdiction || 'BC',
+        overtime_class: data.overtime_class?.trim() || null,
+        supervisor_user_id: data.supervisor_user_id || null,
         expenses_require_approval: !!data.expenses_require_approval,
         sick_pay_pct: data.sick_pay_pct ? parseFloat(data.sick_pay_pct) : 0,
-        stat_holiday_pay_pct: data.stat_holiday_pay_pct ? parseFloat(data.stat_holiday_pay_pct) : 0,
         vacation_pay_pct: data.vacation_pay_pct ? parseFloat(data.vacation_pay_pct) : 0,
         cell_phone_allowance: data.cell_phone_allowance ? parseFloat(data.cell_phone_allowance) : 0,
         health_allowance: data.health_allowance ? parseFloat(data.health_allowance) : 0,
       };
+      const isRetroactive = isAdmin
+        && rateEffectiveDate < formatYmd(new Date())
+        && payRatesDiffer(toPayRates(existingEmployee), toPayRates(employeeData));
+      if (isRetroactive) {
+        const { adjustment } = await payRateAdjustmentsService.changeRatesRetroactively(existingEmployee, employeeData, rateEffectiveDate);
+        if (adjustment) {
+          alert(
+            `Back-pay of $${adjustment.total_amount.toFixed(2)} across ${adjustment.periods.length} paid pay period(s) ` +
+            `will be added to the ${adjustment.pay_in_period_start} – ${adjustment.pay_in_period_end} payroll run.`
+          );
+        }
+        return;
+      }
       return await employeesService.update(id, employeeData);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['employees'] });
+      queryClient.invalidateQueries({ queryKey: ['payRateAdjustments'] });
       setEditingEmployee(null);
       setShowForm(false);
       resetForm();
@@ -196,9 +222,11 @@ export default function Employees() {
       truck_reimb_rate: '1.00',
       per_diem_reimb_rate: '1.00',
       employment_type: 'Employee',
+      overtime_jurisdiction: 'BC',
+      overtime_class: '',
+      supervisor_user_id: '',
     expenses_require_approval: false,
       sick_pay_pct: '0',
-      stat_holiday_pay_pct: '0',
       vacation_pay_pct: '0',
       cell_phone_allowance: '0',
       health_allowance: '0',
@@ -207,6 +235,7 @@ export default function Employees() {
 
   const handleEdit = (employee: any) => {
     setEditingEmployee(employee);
+    setRateEffectiveDate(formatYmd(new Date()));
     setFormData({
       user_id: employee.user_id || '',
       employee_id: employee.employee_id || '',
@@ -223,9 +252,11 @@ export default function Employees() {
       truck_reimb_rate: employee.truck_reimb_rate?.toString() || '1.00',
       per_diem_reimb_rate: employee.per_diem_reimb_rate?.toString() || '1.00',
       employment_type: employee.employment_type || 'Employee',
+      overtime_jurisdiction: employee.overtime_jurisdiction || 'BC',
+      overtime_class: employee.overtime_class || '',
+      supervisor_user_id: employee.supervisor_user_id || '',
       expenses_require_approval: !!employee.expenses_require_approval,
       sick_pay_pct: employee.sick_pay_pct?.toString() || '0',
-      stat_holiday_pay_pct: employee.stat_holiday_pay_pct?.toString() || '0',
       vacation_pay_pct: employee.vacation_pay_pct?.toString() || '0',
       cell_phone_allowance: employee.cell_phone_allowance?.toString() || '0',
       health_allowance: employee.health_allowance?.toString() || '0',
@@ -384,6 +415,60 @@ export default function Employees() {
                   </div>
                 )}
 
+                <h4 style={{ marginTop: '20px', marginBottom: '10px', borderTop: '1px solid var(--border-color)', paddingTop: '15px' }}>
+                  Overtime Rule
+                </h4>
+                <p style={{ fontSize: '0.9em', color: 'var(--text-secondary)', marginBottom: '10px' }}>
+                  Payroll classifies regular / OT / double time using the rule for this jurisdiction and class (Payroll → Overtime rules)
+                </p>
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '10px', maxWidth: '420px' }}>
+                  <div className="form-group">
+                    <label className="label">Jurisdiction</label>
+                    <select
+                      className="input"
+                      value={formData.overtime_jurisdiction}
+                      onChange={(e) => setFormData({ ...formData, overtime_jurisdiction: e.target.value })}
+                    >
+                      {Array.from(new Set<string>([...OVERTIME_JURISDICTIONS, formData.overtime_jurisdiction])).map((j) => (
+                        <option key={j} value={j}>{j}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="form-group">
+                    <label className="label">Employee class</label>
+                    <input
+                      type="text"
+                      className="input"
+                      value={formData.overtime_class}
+                      onChange={(e) => setFormData({ ...formData, overtime_class: e.target.value })}
+                      placeholder="Default"
+                    />
+                  </div>
+                </div>
+
+                <h4 style={{ marginTop: '20px', marginBottom: '10px', borderTop: '1px solid var(--border-color)', paddingTop: '15px' }}>
+                  Supervisor
+                </h4>
+                <p style={{ fontSize: '0.9em', color: 'var(--text-secondary)', marginBottom: '10px' }}>
+                  Approves this employee's forms (JSAs, equipment checks, time off) before they go to an admin
+                </p>
+                <div className="form-group" style={{ maxWidth: '300px' }}>
+                  <select
+                    className="input"
+                    value={formData.supervisor_user_id}
+                    onChange={(e) => setFormData({ ...formData, supervisor_user_id: e.target.value })}
+                  >
+                    <option value="">None (admins approve)</option>
+                    {(employees || [])
+                      .filter((e: any) => e.user_id && e.user_id !== formData.user_id)
+                      .map((e: any) => (
+                        <option key={e.user_id} value={e.user_id}>
+                          {[e.user?.first_name, e.user?.last_name].filter(Boolean).join(' ') || e.user?.email || e.employee_id}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+
                 <div style={{ marginTop: '12px', padding: '10px 12px', borderRadius: '6px', backgroundColor: 'var(--bg-tertiary)', border: '1px solid var(--border-color)' }}>
                   <label style={{ display: 'flex', alignItems: 'flex-start', gap: '8px', cursor: 'pointer' }}>
                     <input
@@ -531,6 +616,23 @@ export default function Employees() {
             <div style={{ marginTop: '10px', padding: '10px', backgroundColor: 'var(--bg-secondary)', borderRadius: '4px', fontSize: '0.9em', color: 'var(--text-secondary)' }}>
               <strong>Calculated OT Pay Rates:</strong> Shop OT = ${((parseFloat(formData.shop_pay_rate) || 25) * 1.5).toFixed(2)}, Field OT = ${((parseFloat(formData.field_pay_rate) || 30) * 1.5).toFixed(2)}
             </div>
+            {isAdmin && editingEmployee && (
+              <div className="form-group" style={{ marginTop: '10px' }}>
+                <label className="label">Pay Rates Effective From</label>
+                <input
+                  type="date"
+                  className="input"
+                  style={{ maxWidth: '200px' }}
+                  value={rateEffectiveDate}
+                  max={formatYmd(new Date())}
+                  onChange={(e) => setRateEffectiveDate(e.target.value || formatYmd(new Date()))}
+                />
+                <p style={{ fontSize: '0.85em', color: 'var(--text-secondary)', marginTop: '6px' }}>
+                  Pick an earlier date to make a rate change retroactive. Back-pay for pay periods already paid is calculated from the
+                  time entries and added to the next payroll run. A rate change recorded after that date still applies from its own date.
+                </p>
+              </div>
+            )}
 
             {isAdmin && (
             <div style={{ marginTop: '20px' }}>
@@ -582,8 +684,9 @@ export default function Employees() {
               </h4>
               <p style={{ fontSize: '12px', color: 'var(--text-tertiary)', marginBottom: '12px' }}>
                 These percentages are applied to all payroll hours (base pay) and added to compensation. Does not apply to reimbursements.
+                Stat holiday pay is calculated per holiday from the employee's province (Payroll → Stat holidays).
               </p>
-              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '12px' }}>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
                 <div className="form-group" style={{ margin: 0 }}>
                   <label>Sick Pay (%)</label>
                   <input
@@ -595,17 +698,6 @@ export default function Employees() {
                     placeholder="0"
                   />
                 </div>
-                <div className="form-group" style={{ margin: 0 }}>
-                  <label>Stat Holiday Pay (%)</label>
-                  <input
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    value={formData.stat_holiday_pay_pct}
-                    onChange={(e) => setFormData({ ...formData, stat_holiday_pay_pct: e.target.value })}
-                    placeholder="0"
-                  />
-                </div>
                 <div className="form-group" style={{ margin: 0 }}>
                   <label>Vacation Pay (%)</label>
                   <input
@@ -672,6 +764,7 @@ export default function Employees() {
                   : 'Create'} Employee
             </button>
           </form>
+          {isAdmin && editingEmployee && <LeavePoliciesEditor key={editingEmployee.id} employeeId={editingEmployee.id} />}
         </div>
       )}
 
@@ -2,6 +2,7 @@ import React, { useState, useRef, useMemo, Fragment, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { userExpensesService, serviceTicketExpensesService, employeesService } from '../services/supabaseServices';
+import { offlineExpensesService } from '../services/offlineQueue';
 import { supabase } from '../lib/supabaseClient';
 import { optimizeImage } from '../utils/imageOptimizer';
 import { ticketExpenseLineHasAttachedReceipt } from '../utils/ticketExpenseReceiptMatch';
@@ -346,7 +347,7 @@ export default function Expenses() {
   const hasSeededMyExpenseDateCollapse = useRef(false);
   const hasSeededAdminExpenseDateCollapse = useRef(false);
   // Pay-period collapse state — keyed by period index ("0", "-1", "12"…). Pay periods sit
-  // above the per-day groups so the user lands on the current 14-day window first, with
+  // above the per-day groups so the user lands on the current pay-period window first, with
   // older periods folded away. Persisted alongside (not in place of) the date-group state.
   const [collapsedMyExpensePeriodKeys, setCollapsedMyExpensePeriodKeys] = useState<Set<string>>(() => new Set());
   const [collapsedAdminExpensePeriodKeys, setCollapsedAdminExpensePeriodKeys] = useState<Set<string>>(() => new Set());
@@ -1178,7 +1179,7 @@ export default function Expenses() {
     const newAmount = Math.round(qty * rate * 100) / 100;
     setIsSavingEdit(true);
     try {
-      await userExpensesService.updateAndSyncTicket(editingExpense.id, {
+      await offlineExpensesService.update(editingExpense.id, {
         description: editForm.description.trim(),
         amount: newAmount,
         quantity: qty,
@@ -1482,7 +1483,7 @@ export default function Expenses() {
     return groups;
   }, [adminFilteredExpenses]);
 
-  /** Roll the date-grouped lists up by 14-day pay period. Each period carries totals
+  /** Roll the date-grouped lists up by pay period. Each period carries totals
    *  (subtotal, GST, total, line count) so the period header can show what the operator
    *  would key into payroll for that window. The pay-period anchor matches the Payroll
    *  page so windows align with what each employee is actually paid for. */
@@ -1886,30 +1887,36 @@ export default function Expenses() {
       setUploadError('When linking to ticket expenses, the receipt must be a single line item.');
       return;
     }
+    if (isLinking && !navigator.onLine) {
+      setUploadError('Linking a receipt to ticket expenses needs a connection. Save it without linking, or try again when you are back online.');
+      return;
+    }
     setIsUploading(true);
     setUploadError(null);
     try {
-      let storagePath: string | undefined;
-      if (receiptFile) {
-        const optimized = await optimizeImage(receiptFile, { maxWidth: 1024, maxHeight: 1024, quality: 0.8 });
-        storagePath = await userExpensesService.uploadReceipt(optimized);
-      }
+      const toExpense = (item: typeof validItems[number]) => ({
+        description: item.description.trim(),
+        amount: lineItemSubtotal(item),
+        quantity: parseFloat(item.quantity) || 1,
+        expense_date: receiptForm.expense_date,
+        gst: parseFloat(item.gst) || 0,
+        is_billable: item.is_billable,
+        notes: receiptForm.notes.trim() || undefined,
+        status: 'pending' as const,
+      });
+      const optimized = receiptFile
+        ? await optimizeImage(receiptFile, { maxWidth: 1024, maxHeight: 1024, quality: 0.8 })
+        : null;
       let firstCreatedId: string | null = null;
-      for (const item of validItems) {
-        const qty = parseFloat(item.quantity) || 1;
-        const subtotal = lineItemSubtotal(item);
-        const created = await userExpensesService.create({
-          description: item.description.trim(),
-          amount: subtotal,
-          quantity: qty,
-          expense_date: receiptForm.expense_date,
-          receipt_url: storagePath,
-          gst: parseFloat(item.gst) || 0,
-          is_billable: item.is_billable,
-          notes: receiptForm.notes.trim() || undefined,
-          status: 'pending',
-        });
-        if (!firstCreatedId) firstCreatedId = String(created?.id || '');
+      if (!navigator.onLine) {
+        // No signal: keep the lines and the receipt image on this device until the connection is back
+        await offlineExpensesService.queueCreate(validItems.map(toExpense), optimized ? { blob: optimized, name: optimized.name } : null);
+      } else {
+        const storagePath = optimized ? await userExpensesService.uploadReceipt(optimized) : undefined;
+        for (const item of validItems) {
+          const created = await userExpensesService.create({ ...toExpense(item), receipt_url: storagePath });
+          if (!firstCreatedId) firstCreatedId = String(created?.id || '');
+        }
       }
       if (isLinking && firstCreatedId) {
         await serviceTicketExpensesService.linkUserExpense(linkingTicketExpenseIds, firstCreatedId);
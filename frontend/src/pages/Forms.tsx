@@ -0,0 +1,317 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../context/AuthContext';
+import { FormRecord, formsApi } from '../services/backendServices';
+import FormFieldInputs from '../components/FormFieldInputs';
+import {
+  APPROVAL_ROLE_LABELS,
+  FORM_DEFINITIONS,
+  FormDecision,
+  FormDefinition,
+  formatFormValue,
+  getFormDefinition,
+  parseFormContent,
+  validateFormContent,
+} from '../utils/forms';
+
+type Tab = 'inbox' | 'mine' | 'new';
+
+const STATUS_STYLE: Record<FormRecord['status'], { bg: string; color: string }> = {
+  pending: { bg: 'rgba(255, 193, 7, 0.15)', color: '#f0ad4e' },
+  approved: { bg: 'rgba(78, 205, 196, 0.15)', color: '#4ecdc4' },
+  rejected: { bg: 'rgba(255, 71, 87, 0.15)', color: '#ff4757' },
+};
+
+const personName = (u: { first_name: string | null; last_name: string | null; email: string } | null | undefined): string =>
+  u ? [u.first_name, u.last_name].filter(Boolean).join(' ') || u.email : 'Unknown';
+
+const formatWhen = (iso: string): string =>
+  new Date(iso).toLocaleString('en-CA', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+/** "Waiting on Supervisor (1 of 2)" for pending forms; the status otherwise. */
+function stepLabel(form: FormRecord): string {
+  const chain = getFormDefinition(form.form_type)?.approvalChain ?? ['admin'];
+  if (form.status !== 'pending') return form.status;
+  const role = chain[Math.min(form.current_step, chain.length - 1)];
+  return `Waiting on ${APPROVAL_ROLE_LABELS[role].toLowerCase()}${chain.length > 1 ? ` (${form.current_step + 1} of ${chain.length})` : ''}`;
+}
+
+function StatusPill({ form }: { form: FormRecord }) {
+  const s = STATUS_STYLE[form.status];
+  return (
+    <span style={{ padding: '2px 8px', borderRadius: '10px', fontSize: '11px', fontWeight: 600, backgroundColor: s.bg, color: s.color, whiteSpace: 'nowrap' }}>
+      {stepLabel(form)}
+    </span>
+  );
+}
+
+/** Field values and the approval history of one form. */
+function FormDetails({ form }: { form: FormRecord }) {
+  const definition = getFormDefinition(form.form_type);
+  const values = parseFormContent(form.content);
+  const approvals = [...(form.approvals ?? [])].sort((a, b) => a.decided_at.localeCompare(b.decided_at));
+  return (
+    <div style={{ padding: '12px 16px', backgroundColor: 'var(--bg-secondary)', borderRadius: '8px', fontSize: '13px' }}>
+      {definition && values ? (
+        <dl style={{ display: 'grid', gridTemplateColumns: 'minmax(140px, 200px) 1fr', gap: '6px 16px', margin: 0 }}>
+          {definition.fields.map((field) => (
+            <div key={field.name} style={{ display: 'contents' }}>
+              <dt style={{ color: 'var(--text-secondary)' }}>{field.label}</dt>
+              <dd style={{ margin: 0, whiteSpace: 'pre-wrap' }}>{formatFormValue(field, values[field.name])}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <div style={{ whiteSpace: 'pre-wrap' }}>{form.content || '—'}</div>
+      )}
+      {form.notes && <div style={{ marginTop: '8px', color: 'var(--text-secondary)' }}>Notes: {form.notes}</div>}
+      {approvals.length > 0 && (
+        <div style={{ marginTop: '12px' }}>
+          <div style={{ fontSize: '11px', fontWeight: 600, textTransform: 'uppercase', letterSpacing: '0.5px', color: 'var(--text-tertiary)', marginBottom: '4px' }}>
+            Approvals
+          </div>
+          {approvals.map((a) => (
+            <div key={a.id} style={{ color: 'var(--text-secondary)' }}>
+              {formatWhen(a.decided_at)} · {APPROVAL_ROLE_LABELS[a.role]} {personName(a.decider)} <strong>{a.decision}</strong>
+              {a.notes ? ` — ${a.notes}` : ''}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Forms: field crews submit JSAs, equipment checks and time-off requests; supervisors and admins
+ * approve them from the inbox. Field schemas and approval chains come from utils/forms, and the
+ * backend validates every submission against the same definitions.
+ */
+export default function Forms() {
+  const { user, isAdmin } = useAuth();
+  const queryClient = useQueryClient();
+  const [tab, setTab] = useState<Tab>('inbox');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [definition, setDefinition] = useState<FormDefinition>(FORM_DEFINITIONS[0]);
+  const [values, setValues] = useState<Record<string, unknown>>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [decisionNotes, setDecisionNotes] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const { data: inbox = [], error: inboxError } = useQuery({
+    queryKey: ['formsInbox', user?.id],
+    queryFn: () => formsApi.inbox(),
+    enabled: !!user?.id,
+    retry: false,
+  });
+  const { data: forms = [], error: formsError } = useQuery({
+    queryKey: ['forms', user?.id],
+    queryFn: () => formsApi.list(),
+    enabled: !!user?.id,
+    retry: false,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['formsInbox'] });
+    queryClient.invalidateQueries({ queryKey: ['forms'] });
+    queryClient.invalidateQueries({ queryKey: ['timeOffForms'] });
+    queryClient.invalidateQueries({ queryKey: ['leaveBalances'] });
+    queryClient.invalidateQueries({ queryKey: ['leaveDays'] });
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: () => formsApi.submit(definition, values),
+    onSuccess: () => {
+      setMessage({ type: 'success', text: `${definition.title} submitted for approval.` });
+      setValues({});
+      setFieldErrors({});
+      setTab('mine');
+      invalidate();
+    },
+    onError: (err: Error) => setMessage({ type: 'error', text: err.message || 'Failed to submit the form.' }),
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: ({ id, decision }: { id: string; decision: FormDecision }) => formsApi.decide(id, decision, decisionNotes[id]?.trim() || undefined),
+    onSuccess: () => invalidate(),
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: (id: string) => formsApi.remove(id),
+    onSuccess: () => invalidate(),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    const { errors } = validateFormContent(definition, values);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+    submitMutation.mutate();
+  };
+
+  const tabButton = (key: Tab, label: string) => (
+    <button
+      key={key}
+      type="button"
+      className={`button ${tab === key ? 'button-primary' : 'button-secondary'}`}
+      onClick={() => { setTab(key); setMessage(null); }}
+    >
+      {label}
+    </button>
+  );
+
+  const loadError = (inboxError || formsError) as Error | null;
+  const actionError = (decideMutation.error || withdrawMutation.error) as Error | null;
+
+  const renderRow = (form: FormRecord, actions: React.ReactNode) => (
+    <div key={form.id} style={{ borderBottom: '1px solid var(--border-color)', padding: '10px 0' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px', flexWrap: 'wrap' }}>
+        <button
+          type="button"
+          onClick={() => setExpandedId(expandedId === form.id ? null : form.id)}
+          style={{ border: 'none', background: 'none', cursor: 'pointer', color: 'var(--text-primary)', textAlign: 'left', padding: 0, flex: 1, minWidth: '200px' }}
+        >
+          <div style={{ fontWeight: 600 }}>{expandedId === form.id ? '▾' : '▸'} {form.title}</div>
+          <div style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+            {getFormDefinition(form.form_type)?.title ?? form.form_type} · {personName(form.employee?.user)} · {formatWhen(form.submitted_at)}
+          </div>
+        </button>
+        <StatusPill form={form} />
+        {actions}
+      </div>
+      {expandedId === form.id && <div style={{ marginTop: '8px' }}><FormDetails form={form} /></div>}
+    </div>
+  );
+
+  return (
+    <div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px', flexWrap: 'wrap', gap: '10px' }}>
+        <h2>Forms</h2>
+        <div style={{ display: 'flex', gap: '8px' }}>
+          {tabButton('inbox', `Inbox${inbox.length > 0 ? ` (${inbox.length})` : ''}`)}
+          {tabButton('mine', isAdmin ? 'All forms' : 'My forms')}
+          {tabButton('new', 'New form')}
+        </div>
+      </div>
+
+      {message && (
+        <div style={{
+          padding: '12px 16px',
+          borderRadius: '8px',
+          marginBottom: '16px',
+          backgroundColor: message.type === 'success' ? 'rgba(78, 205, 196, 0.1)' : 'rgba(255, 71, 87, 0.1)',
+          border: `1px solid ${message.type === 'success' ? '#4ecdc4' : '#ff4757'}`,
+          color: message.type === 'success' ? '#4ecdc4' : '#ff4757',
+        }}>
+          {message.text}
+        </div>
+      )}
+      {(loadError || actionError) && (
+        <div style={{ marginBottom: '16px', padding: '10px', borderRadius: '6px', backgroundColor: 'rgba(220,53,69,0.10)', color: 'var(--error-color)', fontSize: '12px' }}>
+          {(actionError || loadError)!.message}
+        </div>
+      )}
+
+      {tab === 'inbox' && (
+        <div className="card">
+          <h3 style={{ marginBottom: '4px' }}>Awaiting your approval</h3>
+          <p style={{ fontSize: '13px', color: 'var(--text-secondary)', marginBottom: '12px' }}>
+            {isAdmin
+              ? 'Every pending form. Approving as an admin completes the form, whichever step it is on.'
+              : 'Forms from people you supervise, at the supervisor step.'}
+          </p>
+          {inbox.length === 0 && <div style={{ color: 'var(--text-tertiary)', fontStyle: 'italic' }}>Nothing waiting.</div>}
+          {inbox.map((form) =>
+            renderRow(
+              form,
+              <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                <input
+                  className="input"
+                  placeholder="Note (optional)"
+                  value={decisionNotes[form.id] || ''}
+                  onChange={(e) => setDecisionNotes((prev) => ({ ...prev, [form.id]: e.target.value }))}
+                  style={{ width: '180px' }}
+                />
+                <button
+                  type="button"
+                  className="button button-primary"
+                  disabled={decideMutation.isPending}
+                  onClick={() => decideMutation.mutate({ id: form.id, decision: 'approved' })}
+                >
+                  Approve
+                </button>
+                <button
+                  type="button"
+                  className="button button-secondary"
+                  disabled={decideMutation.isPending}
+                  onClick={() => decideMutation.mutate({ id: form.id, decision: 'rejected' })}
+                >
+                  Reject
+                </button>
+              </div>
+            )
+          )}
+        </div>
+      )}
+
+      {tab === 'mine' && (
+        <div className="card">
+          {forms.length === 0 && <div style={{ color: 'var(--text-tertiary)', fontStyle: 'italic' }}>No forms yet.</div>}
+          {forms.map((form) =>
+            renderRow(
+              form,
+              ((form.status === 'pending' && form.current_step === 0) || isAdmin) && (
+                <button
+                  type="button"
+                  className="button button-secondary"
+                  disabled={withdrawMutation.isPending}
+                  onClick={() => {
+                    if (window.confirm(form.status === 'pending' ? 'Withdraw this form?' : 'Delete this form and its approval history?')) {
+                      withdrawMutation.mutate(form.id);
+                    }
+                  }}
+                >
+                  {form.status === 'pending' ? 'Withdraw' : 'Delete'}
+                </button>
+              )
+            )
+          )}
+        </div>
+      )}
+
+      {tab === 'new' && (
+        <form className="card" onSubmit={handleSubmit}>
+          <div className="form-group">
+            <label className="label">Form</label>
+            <select
+              className="input"
+              value={definition.type}
+              onChange={(e) => {
+                setDefinition(getFormDefinition(e.target.value) ?? FORM_DEFINITIONS[0]);
+                setValues({});
+                setFieldErrors({});
+              }}
+            >
+              {FORM_DEFINITIONS.map((d) => (
+                <option key={d.type} value={d.type}>{d.title}</option>
+              ))}
+            </select>
+            <div style={{ marginTop: '4px', fontSize: '12px', color: 'var(--text-tertiary)' }}>
+              {definition.description} Approval: {definition.approvalChain.map((r) => APPROVAL_ROLE_LABELS[r]).join(' → ')}.
+            </div>
+          </div>
+          <FormFieldInputs
+            definition={definition}
+            values={values}
+            errors={fieldErrors}
+            onChange={(name, value) => setValues((prev) => ({ ...prev, [name]: value }))}
+          />
+          <button type="submit" className="button button-primary" disabled={submitMutation.isPending}>
+            {submitMutation.isPending ? 'Submitting...' : `Submit ${definition.title}`}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import {
   serviceTicketExpensesService,
   customersService,
   employeesService,
+  rateCardsService,
   projectsService,
   invoicedBatchInvoicesService,
   invoicedBatchApprovalsService,
@@ -21,6 +22,9 @@ import {
   type InvoiceWorkflowRow,
   type InvoiceWorkflowStatus,
   invoiceStatusHistoryService,
+  receivablesService,
+  invoiceNumberingService,
+  taxCodesService,
 } from '../services/supabaseServices';
 import {
   groupEntriesIntoTickets,
@@ -31,17 +35,47 @@ import {
   getProjectApproverPoAfe,
   getProjectHeaderFields,
   InvoiceGroupKey,
+  type HeaderOverrides,
   calculateTicketTotalAmount,
   buildBillingKey,
   buildGroupingKey,
   getTicketBillingKey,
+  entryTicketDescription,
 } from '../utils/serviceTickets';
-import { generateAndStorePdf, mergePdfBlobs, generateBatchSummaryPdf } from '../utils/pdfFromHtml';
+import { generateAndStorePdf, mergePdfBlobs, generateBatchSummaryPdf, generateInvoicePdf } from '../utils/pdfFromHtml';
 import { saveAs } from 'file-saver';
 import JSZip from 'jszip';
 import PayPeriodCalendar from '../components/PayPeriodCalendar';
 import SearchableSelect from '../components/SearchableSelect';
 import ServiceTickets from './ServiceTickets';
+import ContractBillingPanel from '../components/ContractBillingPanel';
+import ReceivablesPanel from '../components/ReceivablesPanel';
+import CustomerInvoiceModal, { type CustomerInvoiceDraft } from '../components/CustomerInvoiceModal';
+import { INVOICE_STATUS_LABELS, type CustomerInvoice, customerTermsDays, dueDateFromTerms, invoiceBalance, invoiceStatus } from '../utils/receivables';
+import InvoiceNumberingEditor from '../components/InvoiceNumberingEditor';
+import TaxCodesEditor from '../components/TaxCodesEditor';
+import {
+  type TaxBreakdown,
+  type TaxCode,
+  type TaxSettings,
+  computeTaxBreakdown,
+  describeTaxCode,
+  EMPTY_TAX_SETTINGS,
+  formatTaxLineLabel,
+  qboTaxCodeFor,
+  resolveExpenseTaxCode,
+  resolveTaxCode,
+  resolveTicketTaxCode,
+  ticketTaxableItems,
+} from '../utils/taxCodes';
+import { type InvoiceDocument, combineReferenceValues, customerAddressLines, invoicePdfFilename } from '../utils/invoiceDocument';
+import { labourBilledByContract } from '../utils/projectBilling';
+import { applyRateCards, employeeRateSources } from '../utils/rateCards';
+import { approvalPortalService, mailService, quickbooksService, type BatchEmail, type QuickBooksInvoiceLine } from '../services/backendServices';
+import SendBatchEmailModal, { batchEmailStatusColor, describeBatchEmail } from '../components/SendBatchEmailModal';
+import type { BatchEmailKind, EmailTemplateValues } from '../utils/batchEmail';
+import ApproverLinkModal, { describePortalLink, portalLinkStatusColor } from '../components/ApproverLinkModal';
+import type { PortalBatchSnapshot, PortalLink, PortalSignature } from '../utils/approvalPortal';
 
 const STATUS_COLOR_MAP: Record<string, string> = {
   gray: '#6b7280',
@@ -119,7 +153,7 @@ function mergePdfEntryOverridesIntoRows(
     const hours = entry.hours || 0;
     return {
       id: entry.id || `entry-${index}`,
-      description: entry.description || '',
+      description: entryTicketDescription(entry),
       st: rateType === 'Shop Time' ? hours : 0,
       tt: rateType === 'Travel Time' ? hours : 0,
       ft: rateType === 'Field Time' ? hours : 0,
@@ -1936,64 +1970,54 @@ type InvoiceExpenseLine = {
   gst?: number;
   description?: string;
   expense_type?: string;
+  /** Phase / cost code, shown in front of the label */
+  costCode?: string;
 };
 
 function formatInvoiceExpenseLineLabel(e: InvoiceExpenseLine): string {
   const desc = (e.description || '').trim();
   const typ = (e.expense_type || '').trim();
-  return desc || typ || '—';
+  const label = desc || typ || '—';
+  return e.costCode ? `${e.costCode} · ${label}` : label;
 }
 
-const CA_GST_ON_LABOUR_RATE = 0.05;
-
 /**
- * Subtotal (pre-GST labour + expense amounts), 5% GST on labour, GST on expenses (5% of expense amounts when
- * receipt line GST is not recorded; otherwise sum of receipt GST), and total — invoiced view only.
+ * Subtotal (labour + expense amounts before tax), labour subtotal, tax by component from each
+ * ticket's tax code (see utils/taxCodes.ts), and total — invoiced view, generated invoices and the
+ * batch summary PDF.
  */
-function computeInvoicedGroupTotalsWithGst(
+function computeInvoicedGroupTotalsWithTax(
   groupTickets: (ServiceTicket & { recordId?: string })[],
-  expensesByRecordId: Map<string, InvoiceExpenseLine[]>
+  expensesByRecordId: Map<string, InvoiceExpenseLine[]>,
+  taxSettings: TaxSettings,
+  taxCodeForTicket: (t: ServiceTicket) => TaxCode
 ): {
   subtotal: number;
   labourSubtotal: number;
-  gstOnLabour: number;
-  /** Effective GST on expenses (receipt sum if any line has gst; else 5% of expense subtotal). */
-  expenseGstTotal: number;
-  /** True when expenseGstTotal comes from stored receipt GST on lines (not the 5% default). */
-  expenseGstFromReceipt: boolean;
-  totalInclGst: number;
+  tax: TaxBreakdown;
+  totalInclTax: number;
 } {
   let subtotal = 0;
   let labourSubtotal = 0;
-  let expenseBase = 0;
-  let receiptGstSum = 0;
+  const items: ReturnType<typeof ticketTaxableItems> = [];
   for (const t of groupTickets) {
     const recordId = t.recordId;
     const expenses = recordId ? (expensesByRecordId.get(recordId) ?? []) : [];
+    const labour = calculateTicketTotalAmount(t, []);
     subtotal += calculateTicketTotalAmount(t, expenses);
-    labourSubtotal += calculateTicketTotalAmount(t, []);
-    for (const e of expenses) {
-      expenseBase += e.quantity * e.rate;
-      receiptGstSum += Number(e.gst) || 0;
-    }
+    labourSubtotal += labour;
+    items.push(...ticketTaxableItems(taxSettings, taxCodeForTicket(t), labour, expenses));
   }
   const r2 = (x: number) => Math.round(x * 100) / 100;
   subtotal = r2(subtotal);
   labourSubtotal = r2(labourSubtotal);
-  expenseBase = r2(expenseBase);
-  receiptGstSum = r2(receiptGstSum);
-  const gstOnLabour = r2(labourSubtotal * CA_GST_ON_LABOUR_RATE);
-  const gstOnExpensesFromRate = r2(expenseBase * CA_GST_ON_LABOUR_RATE);
-  const expenseGstFromReceipt = receiptGstSum > 0;
-  const expenseGstTotal = expenseGstFromReceipt ? receiptGstSum : gstOnExpensesFromRate;
-  const totalInclGst = r2(subtotal + gstOnLabour + expenseGstTotal);
+  const firstTicket = groupTickets[0];
+  const tax = computeTaxBreakdown(items, firstTicket ? taxCodeForTicket(firstTicket) : resolveTaxCode(taxSettings, {}));
   return {
     subtotal,
     labourSubtotal,
-    gstOnLabour,
-    expenseGstTotal,
-    expenseGstFromReceipt,
-    totalInclGst,
+    tax,
+    totalInclTax: r2(subtotal + tax.total),
   };
 }
 
@@ -2079,7 +2103,8 @@ function buildPoAfeBreakdown(
 }
 
 /**
- * Splits labour into one line per rate type that has hours > 0. When byDay, further splits by
+ * Splits labour into one line per rate type that has hours > 0, and per phase / cost code when
+ * entries carry one ("Field Time (FT) · 100.10"). When byDay, further splits by
  * ticket service date so each line is a (date, rate-type, rate) tuple — useful when an invoice
  * needs per-day-per-rate granularity. includeExpenses currently only applies when !byDay.
  */
@@ -2097,37 +2122,49 @@ function buildRateTypeBreakdown(
     { key: 'FO', label: 'Field OT (FO)', rateField: 'field_ot' as const },
   ];
 
-  // Map key is `${day}|${rateType}_${rateAmount}` when byDay; else `${rateType}_${rateAmount}`.
+  // Map key is `${day}|${rateType}_${rateAmount}` when byDay; else `${rateType}_${rateAmount}`,
+  // with `_${costCode}` appended for entries on a cost code.
   const hoursMap = new Map<string, number>();
   const numsMap = new Map<string, string[]>();
   const dayMap = new Map<string, string>(); // composite key → day (byDay only)
+  const codeMap = new Map<string, string>(); // composite key → cost code (coded entries only)
 
   for (const t of tickets) {
     const day = byDay ? toDateStr(t.date) : '';
     if (byDay && !day) continue;
-    const { rtHours, ttHours, ftHours, shopOtHours, fieldOtHours } =
-      (() => {
-        const e = t.entries;
-        const rt = e.length > 0 ? e.reduce((s, en) => s + (getRateCodeLocal(en.rate_type) === 'RT' ? roundToNearest025(en.hours || 0) : 0), 0) : roundToNearest025(t.hoursByRateType['Shop Time'] || 0);
-        const tt = e.length > 0 ? e.reduce((s, en) => s + (getRateCodeLocal(en.rate_type) === 'TT' ? roundToNearest025(en.hours || 0) : 0), 0) : roundToNearest025(t.hoursByRateType['Travel Time'] || 0);
-        const ft = e.length > 0 ? e.reduce((s, en) => s + (getRateCodeLocal(en.rate_type) === 'FT' ? roundToNearest025(en.hours || 0) : 0), 0) : roundToNearest025(t.hoursByRateType['Field Time'] || 0);
-        const so = e.length > 0 ? e.reduce((s, en) => s + (en.rate_type === 'Shop Overtime' ? roundToNearest025(en.hours || 0) : 0), 0) : roundToNearest025(t.hoursByRateType['Shop Overtime'] || 0);
-        const fo = e.length > 0 ? e.reduce((s, en) => s + (en.rate_type === 'Field Overtime' ? roundToNearest025(en.hours || 0) : 0), 0) : roundToNearest025(t.hoursByRateType['Field Overtime'] || 0);
-        return { rtHours: rt, ttHours: tt, ftHours: ft, shopOtHours: so, fieldOtHours: fo };
-      })();
-    const hByKey: Record<string, number> = { ST: rtHours, TT: ttHours, FT: ftHours, SO: shopOtHours, FO: fieldOtHours };
-
-    for (const { key, rateField } of RATE_TYPES) {
-      const h = hByKey[key];
-      if (h > 0) {
-        const rate = t.rates[rateField] || 0;
-        const compositeKey = byDay ? `${day}|${key}_${rate}` : `${key}_${rate}`;
-        hoursMap.set(compositeKey, (hoursMap.get(compositeKey) ?? 0) + h);
-        if (byDay) dayMap.set(compositeKey, day);
-        if (t.ticketNumber) {
-          const arr = numsMap.get(compositeKey) ?? [];
-          arr.push(t.ticketNumber);
-          numsMap.set(compositeKey, arr);
+    // Entries on different phases / cost codes become separate lines
+    const entriesByCode = new Map<string, ServiceTicket['entries']>();
+    for (const en of t.entries) {
+      const code = en.cost_code?.code ?? '';
+      entriesByCode.set(code, [...(entriesByCode.get(code) ?? []), en]);
+    }
+    if (entriesByCode.size === 0) entriesByCode.set('', []);
+    for (const [code, e] of entriesByCode) {
+      const { rtHours, ttHours, ftHours, shopOtHours, fieldOtHours } =
+        (() => {
+          const rt = e.length > 0 ? e.reduce((s, en) => s + (getRateCodeLocal(en.rate_type) === 'RT' ? roundToNearest025(en.hours || 0) : 0), 0) : roundToNearest025(t.hoursByRateType['Shop Time'] || 0);
+          const tt = e.length > 0 ? e.reduce((s, en) => s + (getRateCodeLocal(en.rate_type) === 'TT' ? roundToNearest025(en.hours || 0) : 0), 0) : roundToNearest025(t.hoursByRateType['Travel Time'] || 0);
+          const ft = e.length > 0 ? e.reduce((s, en) => s + (getRateCodeLocal(en.rate_type) === 'FT' ? roundToNearest025(en.hours || 0) : 0), 0) : roundToNearest025(t.hoursByRateType['Field Time'] || 0);
+          const so = e.length > 0 ? e.reduce((s, en) => s + (en.rate_type === 'Shop Overtime' ? roundToNearest025(en.hours || 0) : 0), 0) : roundToNearest025(t.hoursByRateType['Shop Overtime'] || 0);
+          const fo = e.length > 0 ? e.reduce((s, en) => s + (en.rate_type === 'Field Overtime' ? roundToNearest025(en.hours || 0) : 0), 0) : roundToNearest025(t.hoursByRateType['Field Overtime'] || 0);
+          return { rtHours: rt, ttHours: tt, ftHours: ft, shopOtHours: so, fieldOtHours: fo };
+        })();
+      const hByKey: Record<string, number> = { ST: rtHours, TT: ttHours, FT: ftHours, SO: shopOtHours, FO: fieldOtHours };
+
+      for (const { key, rateField } of RATE_TYPES) {
+        const h = hByKey[key];
+        if (h > 0) {
+          const rate = t.rates[rateField] || 0;
+          const rateKey = code ? `${key}_${rate}_${code}` : `${key}_${rate}`;
+          const compositeKey = byDay ? `${day}|${rateKey}` : rateKey;
+          hoursMap.set(compositeKey, (hoursMap.get(compositeKey) ?? 0) + h);
+          if (byDay) dayMap.set(compositeKey, day);
+          if (code) codeMap.set(compositeKey, code);
+          if (t.ticketNumber) {
+            const arr = numsMap.get(compositeKey) ?? [];
+            arr.push(t.ticketNumber);
+            numsMap.set(compositeKey, arr);
+          }
         }
       }
     }
@@ -2151,7 +2188,7 @@ function buildRateTypeBreakdown(
       matchingKeys.sort((a, b) => {
         const rateA = Number(rateSegment(a).split('_')[1]);
         const rateB = Number(rateSegment(b).split('_')[1]);
-        return rateB - rateA;
+        return rateB - rateA || (codeMap.get(a) ?? '').localeCompare(codeMap.get(b) ?? '', undefined, { numeric: true });
       });
       for (const compositeKey of matchingKeys) {
         const hrs = hoursMap.get(compositeKey) ?? 0;
@@ -2161,8 +2198,10 @@ function buildRateTypeBreakdown(
         if (amount > 0) {
           const nums = numsMap.get(compositeKey) ?? [];
           const ticketList = formatTicketNumbersWithRanges([...nums].sort((a, b) => ticketNumberSortValue(a) - ticketNumberSortValue(b)));
+          const code = codeMap.get(compositeKey);
+          const lineLabel = code ? `${label} · ${code}` : label;
           lines.push({
-            ticketList: ticketList ? `${label} (${ticketList})` : label,
+            ticketList: ticketList ? `${lineLabel} (${ticketList})` : lineLabel,
             poAfe: '',
             totalAmount: amount,
             splitRate: rate,
@@ -2223,6 +2262,61 @@ function buildDayBreakdown(
     .filter((l) => l.totalAmount > 0);
 }
 
+/** Quantity and unit price rounded the way QBO stores them, with Amount = Qty × UnitPrice exactly. */
+function quickBooksLineAmounts(quantity: number, unitPrice: number): Pick<QuickBooksInvoiceLine, 'quantity' | 'unitPrice' | 'amount'> {
+  const qty = Math.round(quantity * 100) / 100;
+  const price = Math.round(unitPrice * 100) / 100;
+  return { quantity: qty, unitPrice: price, amount: Math.round(qty * price * 100) / 100 };
+}
+
+/**
+ * QuickBooks invoice lines for a batch: one labour line per rate code + rate (same split as the
+ * "By rate" breakdown) and tax code, and one line per billed expense. Each line carries the QBO tax
+ * code of its tax code (the ticket's for labour, the expense type's for expenses).
+ */
+function buildQuickBooksInvoiceLines(
+  tickets: (ServiceTicket & { recordId?: string })[],
+  expensesByRecordId: Map<string, InvoiceExpenseLine[]>,
+  taxSettings: TaxSettings,
+  taxCodeForTicket: (t: ServiceTicket) => TaxCode
+): QuickBooksInvoiceLine[] {
+  const ticketsByTaxCode = new Map<string, { code: TaxCode; tickets: typeof tickets }>();
+  for (const t of tickets) {
+    const code = taxCodeForTicket(t);
+    const group = ticketsByTaxCode.get(code.code) ?? { code, tickets: [] };
+    group.tickets.push(t);
+    ticketsByTaxCode.set(code.code, group);
+  }
+  const labour: QuickBooksInvoiceLine[] = [];
+  for (const { code, tickets: codeTickets } of ticketsByTaxCode.values()) {
+    for (const l of buildRateTypeBreakdown(codeTickets, expensesByRecordId, false, false)) {
+      labour.push({
+        kind: 'labour',
+        description: l.ticketList,
+        ...quickBooksLineAmounts(l.splitHours ?? 1, l.splitRate ?? l.totalAmount),
+        taxCode: qboTaxCodeFor(code),
+      });
+    }
+  }
+  const expenses: QuickBooksInvoiceLine[] = [];
+  for (const t of tickets) {
+    const exps = t.recordId ? (expensesByRecordId.get(t.recordId) ?? []) : [];
+    for (const e of exps) {
+      const amounts = quickBooksLineAmounts(e.quantity, e.rate);
+      if (amounts.amount <= 0) continue;
+      const label = formatInvoiceExpenseLineLabel(e);
+      expenses.push({
+        kind: 'expense',
+        description: t.ticketNumber ? `${label} (${t.ticketNumber})` : label,
+        ...amounts,
+        taxCode: qboTaxCodeFor(resolveExpenseTaxCode(taxSettings, taxCodeForTicket(t), e.expense_type)),
+        serviceDate: toDateStr(t.date) || undefined,
+      });
+    }
+  }
+  return [...labour, ...expenses];
+}
+
 function getRateCodeLocal(rateType?: string): 'RT' | 'TT' | 'FT' | 'OT' {
   const map: Record<string, 'RT' | 'TT' | 'FT' | 'OT'> = {
     'Shop Time': 'RT', 'Travel Time': 'TT', 'Field Time': 'FT', 'Shop Overtime': 'OT', 'Field Overtime': 'OT',
@@ -2369,6 +2463,11 @@ export default function Invoices() {
     queryFn: () => employeesService.getAll(),
   });
 
+  const { data: rateCards = [] } = useQuery({
+    queryKey: ['rateCards'],
+    queryFn: () => rateCardsService.getAll(),
+  });
+
   const loadInvoicedBatchMarks = !!user && !isDemoMode && canAccessInvoices(user);
 
   const { data: invoicedMarkRows = [] } = useQuery({
@@ -2418,7 +2517,7 @@ export default function Invoices() {
   // Build full tickets from billable entries + approved records (same logic as ServiceTickets)
   // approvedRecords is already filtered by date range to match Service Tickets Approved tab
   const tickets = useMemo(() => {
-    const baseTickets = billableEntries ? groupEntriesIntoTickets(billableEntries, employees) : [];
+    const baseTickets = billableEntries ? groupEntriesIntoTickets(billableEntries, employees, rateCards) : [];
     const approved = (approvedRecords || []) as ApprovedRecord[];
     if (approved.length === 0) return [];
 
@@ -2540,7 +2639,7 @@ export default function Invoices() {
         }
         const customer = customers?.find((c: { id: string }) => c.id === rec.customer_id);
         const customerName = customer?.name || 'Unknown Customer';
-        const emp = employees?.find((e: { user_id: string }) => e.user_id === rec.user_id) as { rt_rate?: number; tt_rate?: number; ft_rate?: number; shop_ot_rate?: number; field_ot_rate?: number; user?: { first_name?: string; last_name?: string } } | undefined;
+        const emp = employees?.find((e: { user_id: string }) => e.user_id === rec.user_id) as { position?: string; rt_rate?: number; tt_rate?: number; ft_rate?: number; shop_ot_rate?: number; field_ot_rate?: number; user?: { first_name?: string; last_name?: string } } | undefined;
         const u = emp?.user;
         const firstName = u?.first_name || '';
         const lastName = u?.last_name || '';
@@ -2549,7 +2648,7 @@ export default function Invoices() {
         const proj = projects?.find((p: { id: string }) => p.id === rec.project_id);
         const projFields = proj ? getProjectHeaderFields(proj) : { approver: '', poAfe: '', cc: '', other: '' };
         const DEFAULT_RATES = { rt: 110, tt: 85, ft: 140, shop_ot: 165, field_ot: 165 };
-        const rates = emp
+        const employeeRates = emp
           ? {
               rt: emp.rt_rate ?? DEFAULT_RATES.rt,
               tt: emp.tt_rate ?? DEFAULT_RATES.tt,
@@ -2558,6 +2657,13 @@ export default function Invoices() {
               field_ot: emp.field_ot_rate ?? DEFAULT_RATES.field_ot,
             }
           : DEFAULT_RATES;
+        // Rate cards in effect on the ticket date still apply to tickets with no time entries
+        const { rates, sources: rateSources } = applyRateCards(employeeRates, employeeRateSources(emp), rateCards, {
+          date: rec.date,
+          projectId: rec.project_id,
+          customerId: rec.customer_id,
+          position: emp?.position,
+        });
         const recLocation = rec.location || '';
         const rawStandalone: ServiceTicket & { recordId?: string; headerOverrides?: unknown; recordProjectId?: string } = {
           id: `${rec.date}-${rec.customer_id}-${rec.user_id}-${recLocation}`,
@@ -2587,6 +2693,7 @@ export default function Invoices() {
           entries: standaloneEntries,
           hoursByRateType,
           rates,
+          rateSources,
           recordId: rec.id,
           headerOverrides: rec.header_overrides,
           recordProjectId: rec.project_id ?? undefined,
@@ -2606,8 +2713,13 @@ export default function Invoices() {
       }
     }
 
-    return ticketList;
-  }, [billableEntries, employees, approvedRecords, customers, projects]);
+    // Fixed-price and retainer labour is billed from the Contracts tab, so their batches carry expenses only
+    const NO_LABOUR_RATES: ServiceTicket['rates'] = { rt: 0, tt: 0, ft: 0, shop_ot: 0, field_ot: 0 };
+    return ticketList.map((t) => {
+      const proj = projects?.find((p: { id: string }) => p.id === (t.recordProjectId ?? t.projectId));
+      return labourBilledByContract(proj) ? { ...t, rates: NO_LABOUR_RATES } : t;
+    });
+  }, [billableEntries, employees, rateCards, approvedRecords, customers, projects]);
 
   const ticketsForCustomer = useMemo(() => {
     let list = tickets;
@@ -2683,6 +2795,7 @@ export default function Invoices() {
                 gst: Number((e as { gst?: number }).gst) || 0,
                 description: e.description,
                 expense_type: e.expense_type,
+                costCode: e.cost_code?.code,
               }))
             );
           } catch {
@@ -2695,6 +2808,29 @@ export default function Invoices() {
     enabled: sortedRecordIdsForExpenses.length > 0,
   });
 
+  const { data: taxSettings = EMPTY_TAX_SETTINGS } = useQuery({
+    queryKey: ['taxSettings'],
+    queryFn: () => taxCodesService.getSettings(),
+  });
+
+  /** Resolution order: project.tax_code_id → customer.tax_code_id → the default tax code. */
+  const taxCodeForTicket = useCallback(
+    (t: ServiceTicket): TaxCode => {
+      const projectId = (t as ServiceTicket & { recordProjectId?: string }).recordProjectId ?? t.projectId;
+      const project = projects?.find((p: { id: string }) => p.id === projectId);
+      const customer = customers?.find((c: { id: string }) => c.id === t.customerId);
+      return resolveTicketTaxCode(taxSettings, project, customer);
+    },
+    [taxSettings, projects, customers]
+  );
+
+  /** Tax on a batch (or one ticket, for its PDF) from the tickets' tax codes and loaded expense lines. */
+  const taxForTickets = useCallback(
+    (tickets: ServiceTicket[]): TaxBreakdown =>
+      computeInvoicedGroupTotalsWithTax(tickets as (ServiceTicket & { recordId?: string })[], expensesByRecordId, taxSettings, taxCodeForTicket).tax,
+    [expensesByRecordId, taxSettings, taxCodeForTicket]
+  );
+
   const [exportingGroupIdx, setExportingGroupIdx] = useState<string | null>(null);
 
   /** Pre–DB marks only; entries are removed once present in invoiced_batch_marks */
@@ -2752,7 +2888,7 @@ export default function Invoices() {
     return set;
   }, [legacyMarkedInvoicedIds, dbMarkedIdSet, invoicedGroupIdsFromDb]);
 
-  type InvoiceTab = 'helper' | 'pending' | 'needs_approval' | 'ready' | 'submitted' | 'approved' | 'invoiced' | 'settings';
+  type InvoiceTab = 'helper' | 'pending' | 'needs_approval' | 'ready' | 'submitted' | 'approved' | 'invoiced' | 'contracts' | 'receivables' | 'settings';
   const [activeTab, setActiveTab] = useState<InvoiceTab>('helper');
   const showInvoiced = activeTab === 'invoiced';
   const setShowInvoiced = (v: boolean) => setActiveTab(v ? 'invoiced' : 'pending');
@@ -2788,6 +2924,26 @@ export default function Invoices() {
   const [invoiceFilesByGroupId, setInvoiceFilesByGroupId] = useState<Record<string, File>>({});
   const [downloadingWithInvoiceGroupId, setDownloadingWithInvoiceGroupId] = useState<string | null>(null);
   const [uploadingInvoiceGroupId, setUploadingInvoiceGroupId] = useState<string | null>(null);
+  const [pushingQboGroupId, setPushingQboGroupId] = useState<string | null>(null);
+  /** Batch whose Email dialog is open: the group, its persisted id and what is being sent. */
+  const [emailingBatch, setEmailingBatch] = useState<{
+    group: { key: InvoiceGroupKeyWithPeriod; tickets: ServiceTicket[] };
+    persistId: string;
+    kind: BatchEmailKind;
+    /** Portal Approval batch on the Ready tab: move it to Submitted once the bundle is out. */
+    markSubmittedOnSend?: boolean;
+  } | null>(null);
+  const [batchEmailToast, setBatchEmailToast] = useState<string | null>(null);
+  /** Submitted batch whose Approver link dialog is open. */
+  const [portalLinkBatch, setPortalLinkBatch] = useState<{
+    group: { key: InvoiceGroupKeyWithPeriod; tickets: ServiceTicket[] };
+    persistId: string;
+    approverName: string | null;
+  } | null>(null);
+  const [qboPushToast, setQboPushToast] = useState<string | null>(null);
+  const [generatingInvoiceGroupId, setGeneratingInvoiceGroupId] = useState<string | null>(null);
+  /** Invoiced batch being recorded in (or edited for) Receivables. */
+  const [recordingInvoice, setRecordingInvoice] = useState<{ draft: CustomerInvoiceDraft; subtitle: string } | null>(null);
   /** Customer-supplied timesheet (e.g. for portal customers that require their own format).
    *  When a timesheet is attached for a group, the approval-batch PDF and the combined
    *  invoice-download both skip our summary + service-ticket PDFs and use only this. */
@@ -2995,7 +3151,21 @@ export default function Invoices() {
     },
   });
 
-  const [settingsTab, setSettingsTab] = useState<'customers' | 'projects'>('customers');
+  const updateTaxCodeAssignmentMutation = useMutation({
+    mutationFn: async ({ projectId, customerId, taxCodeId }: { projectId: string | null; customerId: string | null; taxCodeId: string | null }) => {
+      if (projectId) {
+        return projectsService.update(projectId, { tax_code_id: taxCodeId });
+      } else if (customerId) {
+        return customersService.update(customerId, { tax_code_id: taxCodeId });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+    },
+  });
+
+  const [settingsTab, setSettingsTab] = useState<'customers' | 'projects' | 'numbering' | 'taxes'>('customers');
   const [settingsSearch, setSettingsSearch] = useState('');
 
   const markProjectCompletedMutation = useMutation({
@@ -3697,6 +3867,18 @@ export default function Invoices() {
     );
   };
 
+  /** Approver portal links per batch (backend), newest first. Fails quietly when the backend is not deployed. */
+  const { data: portalLinksByGroupId = {} } = useQuery({
+    queryKey: ['approvalPortalLinks'],
+    queryFn: async () => {
+      const byGroup: Record<string, PortalLink[]> = {};
+      for (const row of await approvalPortalService.getLinks()) (byGroup[row.group_id] ??= []).push(row);
+      return byGroup;
+    },
+    enabled: isAdmin && !isDemoMode,
+    retry: false,
+  });
+
   /** Build the merged batch PDF (per-ticket + summary) for one group. Shared by single and bulk approval flows. */
   const buildMergedBatchPdfBlob = useCallback(
     async (group: { key: InvoiceGroupKeyWithPeriod; tickets: ServiceTicket[] }): Promise<Blob> => {
@@ -3716,6 +3898,16 @@ export default function Invoices() {
 
       const exportSnap = invoicedMarkRows.find((r) => r.group_id === persistId)?.key_snapshot as FrozenGroupSnapshot | undefined;
       const exportLabourNotes = exportSnap?.labourNotes ?? pendingLabourNotes[groupId];
+      // Approved in the approver portal: stamp the approver's signature, as on the PDF they signed.
+      let signature: PortalSignature | null = null;
+      const lastCompletedLink = portalLinksByGroupId[persistId]?.find((l) => l.completed_at);
+      if (lastCompletedLink?.outcome === 'approved') {
+        try {
+          signature = (await approvalPortalService.getLink(lastCompletedLink.id)).signature;
+        } catch (err) {
+          console.warn('Could not load the approver signature:', err);
+        }
+      }
       const blobs: Blob[] = [];
       const allExpenses: Array<{ expense_type: string; description: string; quantity: number; rate: number; unit?: string }> = [];
       for (const ticket of group.tickets) {
@@ -3725,11 +3917,11 @@ export default function Invoices() {
           try { expenses = await serviceTicketExpensesService.getByTicketId(t.recordId); allExpenses.push(...expenses); }
           catch { expenses = []; }
         }
-        const result = await generateAndStorePdf(ticket, expenses, { uploadToStorage: false, downloadLocally: false });
+        const result = await generateAndStorePdf(ticket, expenses, { uploadToStorage: false, downloadLocally: false, signature, tax: taxForTickets([ticket]) });
         blobs.push(result.blob);
       }
       try {
-        const summaryPdf = await generateBatchSummaryPdf(group.tickets, allExpenses, exportLabourNotes);
+        const summaryPdf = await generateBatchSummaryPdf(group.tickets, allExpenses, exportLabourNotes, signature, taxForTickets(group.tickets));
         blobs.unshift(summaryPdf);
       } catch (err) {
         console.warn('Failed to generate summary PDF:', err);
@@ -3737,15 +3929,89 @@ export default function Invoices() {
       if (blobs.length === 0) throw new Error('No PDFs generated.');
       return mergePdfBlobs(blobs);
     },
-    [invoicedMarkRows, pendingLabourNotes, savedCustomerTimesheetMetadata]
+    [invoicedMarkRows, pendingLabourNotes, savedCustomerTimesheetMetadata, portalLinksByGroupId, taxForTickets]
   );
 
+  /**
+   * Batches the approver portal moved to Approved get their signed PDF here, built from the link's
+   * snapshot and the stored signature (summary first, then each ticket with the signature in the
+   * Customer Signature box). Only filed when the batch has no approval PDF yet, so a dropped one
+   * is never replaced; each link is tried once per page load.
+   */
+  const signedPortalLinkIdsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const pending = Object.entries(portalLinksByGroupId).flatMap(([groupId, links]) => {
+      const link = links.find((l) => l.completed_at);
+      if (!link || link.outcome !== 'approved' || !link.status_advanced || signedPortalLinkIdsRef.current.has(link.id)) return [];
+      const snap = invoicedMarkRows.find((r) => r.group_id === groupId)?.key_snapshot as FrozenGroupSnapshot | undefined;
+      return snap?.statusId === 'approved' ? [{ groupId, linkId: link.id }] : [];
+    });
+    if (pending.length === 0) return;
+    for (const { linkId } of pending) signedPortalLinkIdsRef.current.add(linkId);
+    void (async () => {
+      let filed = false;
+      for (const { groupId, linkId } of pending) {
+        try {
+          const { signature, snapshot } = await approvalPortalService.getLink(linkId);
+          if (!signature) continue;
+          const blobs: Blob[] = [];
+          for (const { ticket, expenses } of snapshot.tickets) {
+            const { blob } = await generateAndStorePdf(ticket, expenses, { uploadToStorage: false, downloadLocally: false, signature, tax: taxForTickets([ticket]) });
+            blobs.push(blob);
+          }
+          const tickets = snapshot.tickets.map((t) => t.ticket);
+          try {
+            blobs.unshift(await generateBatchSummaryPdf(tickets, snapshot.tickets.flatMap((t) => t.expenses), snapshot.labourNotes, signature, taxForTickets(tickets)));
+          } catch (err) {
+            console.warn('Failed to generate summary PDF:', err);
+          }
+          const file = new File([await mergePdfBlobs(blobs)], `${snapshot.batchLabel || 'Approval'}.pdf`, { type: 'application/pdf' });
+          if (await invoicedBatchApprovalsService.addApprovalIfMissing(groupId, file)) filed = true;
+        } catch (err) {
+          console.warn(`Could not file the signed approval PDF for ${groupId}:`, err);
+        }
+      }
+      if (filed) queryClient.invalidateQueries({ queryKey: ['invoicedBatchApprovals'] });
+    })();
+  }, [portalLinksByGroupId, invoicedMarkRows, taxForTickets, queryClient]);
+
+  /**
+   * The batch as the approver portal shows it: the tickets as they are now (same data the merged
+   * batch PDF is built from), their expenses and the labour notes, frozen into the link.
+   */
+  const buildPortalSnapshot = async (group: { key: InvoiceGroupKeyWithPeriod; tickets: ServiceTicket[] }): Promise<PortalBatchSnapshot> => {
+    const persistId = resolvedPersistGroupId(group, invoicedMarkRows);
+    const snap = invoicedMarkRows.find((r) => r.group_id === persistId)?.key_snapshot as FrozenGroupSnapshot | undefined;
+    const tickets: PortalBatchSnapshot['tickets'] = [];
+    for (const ticket of group.tickets) {
+      const t = ticket as ServiceTicket & { recordId?: string };
+      let expenses: PortalBatchSnapshot['tickets'][number]['expenses'] = [];
+      if (t.recordId) {
+        try { expenses = await serviceTicketExpensesService.getByTicketId(t.recordId); }
+        catch { expenses = []; }
+      }
+      tickets.push({ ticket: t, expenses });
+    }
+    const values = getBatchEmailValues(group);
+    return {
+      customerName: values.customer,
+      projectLabel: values.project,
+      periodLabel: values.period,
+      batchLabel: values.batch,
+      tickets,
+      labourNotes: snap?.labourNotes ?? pendingLabourNotes[getGroupId(group)],
+    };
+  };
+
   /**
    * Portal Approval workflow: from pending, jump straight to the 'submitted_approval'
    * status (skipping 'draft'). Mirrors handleMarkAsInvoiced — same persistence, same
    * snapshot, same history-log call — just a different starting status.
    */
-  const handleMarkAsSubmittedForApproval = async (group: { key: InvoiceGroupKeyWithPeriod; tickets: ServiceTicket[] }) => {
+  const handleMarkAsSubmittedForApproval = async (
+    group: { key: InvoiceGroupKeyWithPeriod; tickets: ServiceTicket[] },
+    options?: { skipDownload?: boolean }
+  ) => {
     const persistId = resolvedPersistGroupId(group, invoicedMarkRows);
     const isCombined = combinedExpenseGroupIds.has(getGroupId(group));
     const customerName = group.tickets[0]?.customerName;
@@ -3756,15 +4022,17 @@ export default function Invoices() {
       return;
     }
     // Generate + download merged batch PDF first so user has the file to send to approver.
-    // If generation fails, abort before marking as sent.
-    try {
-      const merged = await buildMergedBatchPdfBlob(group);
-      const filename = getApprovalBatchFilename(group.key, group.tickets, projects);
-      saveAs(merged, filename);
-    } catch (err) {
-      console.error('Approval batch download error:', err);
-      setExportError(err instanceof Error ? err.message : 'Could not generate approval batch PDF — not marked as sent.');
-      return;
+    // If generation fails, abort before marking as sent. Skipped when the batch was just emailed.
+    if (!options?.skipDownload) {
+      try {
+        const merged = await buildMergedBatchPdfBlob(group);
+        const filename = getApprovalBatchFilename(group.key, group.tickets, projects);
+        saveAs(merged, filename);
+      } catch (err) {
+        console.error('Approval batch download error:', err);
+        setExportError(err instanceof Error ? err.message : 'Could not generate approval batch PDF — not marked as sent.');
+        return;
+      }
     }
     const now = new Date().toISOString();
     const snapshot = getMergedMarkSnapshot(group, isCombined || undefined, submittedStatus.id);
@@ -4949,6 +5217,37 @@ export default function Invoices() {
     enabled: invoicedGroupIdsFromDb.length > 0,
   });
 
+  /** Batches already pushed to QuickBooks Online (backend). Fails quietly when the backend is not deployed. */
+  const { data: qboPushesByGroupId = {} } = useQuery({
+    queryKey: ['qboInvoicePushes'],
+    queryFn: async () => {
+      const rows = await quickbooksService.getPushedInvoices();
+      return Object.fromEntries(rows.map((r) => [r.group_id, r]));
+    },
+    enabled: isAdmin && !isDemoMode,
+    retry: false,
+  });
+
+  /** Email send history per batch (backend), newest first. Fails quietly when the backend is not deployed. */
+  const { data: batchEmailsByGroupId = {} } = useQuery({
+    queryKey: ['batchEmails'],
+    queryFn: async () => {
+      const byGroup: Record<string, BatchEmail[]> = {};
+      for (const row of await mailService.getBatchEmails()) (byGroup[row.group_id] ??= []).push(row);
+      return byGroup;
+    },
+    enabled: isAdmin && !isDemoMode,
+    retry: false,
+  });
+
+  /** Receivables invoices recorded from invoiced batches, by batch. */
+  const { data: customerInvoicesByGroupId = {} } = useQuery({
+    queryKey: ['customerInvoices'],
+    queryFn: () => receivablesService.getInvoices(),
+    select: (rows) => Object.fromEntries(rows.filter((r) => r.group_id).map((r) => [r.group_id!, r])) as Record<string, CustomerInvoice>,
+    enabled: isAdmin && !isDemoMode,
+  });
+
   /** Approval (signed batch) PDF metadata for marked batches. Used by the Submitted-for-approval and Approved sections. */
   const { data: savedApprovalMetadata } = useQuery({
     queryKey: ['invoicedBatchApprovals', [...invoicedGroupIdsFromDb].sort().join(',')],
@@ -5084,12 +5383,13 @@ export default function Invoices() {
         const result = await generateAndStorePdf(ticket, expenses, {
           uploadToStorage: false,
           downloadLocally: false,
+          tax: taxForTickets([ticket]),
         });
         blobs.push(result.blob);
       }
 
       try {
-        const summaryPdf = await generateBatchSummaryPdf(groupTickets, allExpenses, exportLabourNotes);
+        const summaryPdf = await generateBatchSummaryPdf(groupTickets, allExpenses, exportLabourNotes, null, taxForTickets(groupTickets));
         blobs.unshift(summaryPdf);
       } catch (err) {
         console.warn('Failed to generate summary PDF:', err);
@@ -5110,11 +5410,202 @@ export default function Invoices() {
 
   const isExportingGroup = (groupId: string) => exportingGroupIdx === groupId;
 
-  const handleDownloadBatchWithInvoice = async (
+  /** Placeholder values for the customer's email template (Customers → Edit → Batch Emails). */
+  const getBatchEmailValues = (group: { key: InvoiceGroupKeyWithPeriod; tickets: ServiceTicket[] }): EmailTemplateValues => ({
+    customer: group.tickets[0]?.customerName || 'Customer',
+    project: [group.key.projectNumber, group.key.projectName].filter(Boolean).join(' ') || 'your project',
+    period: group.key.periodLabel?.trim() || getTicketDateRangeStr(group.tickets),
+    batch: getApprovalBatchFilename(group.key, group.tickets, projects).replace(/\.pdf$/i, ''),
+    sender: `${user?.firstName ?? ''} ${user?.lastName ?? ''}`.trim() || user?.email || 'IONEX',
+  });
+
+  /** Builds the PDF the Email dialog attaches: the approval bundle, or the invoice merged with the batch. */
+  const buildBatchEmailPdf = async (batch: NonNullable<typeof emailingBatch>): Promise<{ blob: Blob; filename: string }> => {
+    if (batch.kind === 'invoice') {
+      const built = await buildBatchWithInvoiceBlob(batch.group, batch.persistId);
+      if (!built) throw new Error('Attach the invoice PDF to this batch first.');
+      return built;
+    }
+    return { blob: await buildMergedBatchPdfBlob(batch.group), filename: getApprovalBatchFilename(batch.group.key, batch.group.tickets, projects) };
+  };
+
+  /** Opens Record invoice for an invoiced batch, filled in from the batch totals and its QuickBooks invoice number. */
+  const openRecordInvoice = (
     group: { key: InvoiceGroupKeyWithPeriod; tickets: ServiceTicket[] },
     groupId: string,
-    fileOverride?: File
+    totals: { subtotal: number; tax: TaxBreakdown }
+  ) => {
+    const values = getBatchEmailValues(group);
+    const subtitle = `${values.customer} · ${values.project} · ${values.period}`;
+    const existing = customerInvoicesByGroupId[groupId];
+    if (existing) {
+      const { payments: _payments, ...fields } = existing;
+      setRecordingInvoice({ draft: fields, subtitle });
+      return;
+    }
+    const customerId = group.tickets[0]?.customerId ?? null;
+    const qboPush = qboPushesByGroupId[groupId];
+    setRecordingInvoice({
+      subtitle,
+      draft: {
+        group_id: groupId,
+        customer_id: customerId,
+        customer_name: group.tickets[0]?.customerName ?? '',
+        project_number: group.key.projectNumber || null,
+        invoice_number: qboPush?.qbo_doc_number ?? '',
+        terms_days: customerTermsDays(customers?.find((c: any) => c.id === customerId)),
+        subtotal: totals.subtotal,
+        tax_amount: totals.tax.total,
+        tax_lines: totals.tax.lines,
+      },
+    });
+  };
+
+  /**
+   * Generate the batch's invoice PDF in the app: the number reserved for the batch (the next one the
+   * first time, kept even if generating fails), the QuickBooks line split, tax from the batch's tax codes and the PO/AFE/CC reference. The PDF replaces any uploaded
+   * invoice, is recorded in Receivables, and downloads.
+   */
+  const handleGenerateInvoice = async (
+    group: { key: InvoiceGroupKeyWithPeriod; tickets: ServiceTicket[] },
+    groupId: string,
+    totals: { subtotal: number; tax: TaxBreakdown; totalInclTax: number }
   ) => {
+    const tickets = group.tickets as (ServiceTicket & { recordId?: string; headerOverrides?: HeaderOverrides | null })[];
+    const lines = buildQuickBooksInvoiceLines(tickets, expensesByRecordId, taxSettings, taxCodeForTicket);
+    if (lines.length === 0) {
+      setExportError('Nothing to invoice: this batch has no billable hours or expenses.');
+      return;
+    }
+    const uploaded = savedInvoiceMetadata?.[groupId];
+    if (uploaded && !uploaded.invoiceNumber && !window.confirm(`This batch already has an uploaded invoice (${uploaded.filename}). Replace it with a generated one?`)) return;
+    setGeneratingInvoiceGroupId(groupId);
+    setExportError(null);
+    try {
+      const settings = await invoiceNumberingService.get();
+      const invoiceNumber = await invoiceNumberingService.reserveForBatch(groupId);
+      const customerId = tickets[0]?.customerId ?? null;
+      const customer = customers?.find((c: any) => c.id === customerId);
+      const recorded = customerInvoicesByGroupId[groupId];
+      const invoiceDate = recorded?.invoice_date ?? ymdTodayLocal();
+      const termsDays = recorded?.terms_days ?? customerTermsDays(customer);
+      const dueDate = recorded?.due_date ?? dueDateFromTerms(invoiceDate, termsDays);
+      const keys = tickets.map((t) => getInvoiceGroupKey(t, t.headerOverrides));
+      const values = getBatchEmailValues(group);
+      const doc: InvoiceDocument = {
+        invoiceNumber,
+        invoiceDate,
+        dueDate,
+        termsDays,
+        billTo: {
+          name: customer?.name ?? tickets[0]?.customerName ?? 'Customer',
+          contact: customer?.contact_name ?? null,
+          addressLines: customerAddressLines(customer),
+        },
+        reference: {
+          project: [group.key.projectNumber, group.key.projectName].filter(Boolean).join(' – '),
+          poAfe: combineReferenceValues(keys.map((k) => k.poAfe)),
+          cc: combineReferenceValues(keys.map((k) => k.cc)),
+          approver: combineReferenceValues(keys.map((k) => k.approver)),
+          location: combineReferenceValues(keys.map((k) => k.location)),
+          other: combineReferenceValues(keys.map((k) => k.other)),
+          period: values.period,
+          tickets: formatTicketNumbersWithRanges(
+            tickets.map((t) => t.ticketNumber).filter((n): n is string => !!n).sort((a, b) => ticketNumberSortValue(a) - ticketNumberSortValue(b))
+          ),
+        },
+        lines,
+        subtotal: totals.subtotal,
+        tax: totals.tax,
+        total: totals.totalInclTax,
+        gstRegistration: settings?.gst_registration ?? null,
+        footerNote: settings?.footer_note ?? null,
+      };
+      const blob = await generateInvoicePdf(doc);
+      const filename = invoicePdfFilename(doc);
+      await invoicedBatchInvoicesService.storeGeneratedInvoice(groupId, blob, filename, invoiceNumber);
+      setInvoiceFileForGroup(groupId, new File([blob], filename, { type: 'application/pdf' }));
+
+      if (recorded && recorded.invoice_number !== invoiceNumber) {
+        const { payments: _payments, ...fields } = recorded;
+        await receivablesService.upsertInvoice({ ...fields, invoice_number: invoiceNumber });
+      } else if (!recorded) {
+        await receivablesService.upsertInvoice({
+          group_id: groupId,
+          customer_id: customerId,
+          customer_name: doc.billTo.name,
+          project_number: group.key.projectNumber || null,
+          invoice_date: invoiceDate,
+          terms_days: termsDays,
+          due_date: dueDate,
+          subtotal: doc.subtotal,
+          tax_amount: doc.tax.total,
+          tax_lines: doc.tax.lines,
+          total: doc.total,
+          invoice_number: invoiceNumber,
+          notes: null,
+          created_by: user?.id ?? null,
+        });
+      }
+      queryClient.invalidateQueries({ queryKey: ['invoicedBatchInvoices'] });
+      queryClient.invalidateQueries({ queryKey: ['customerInvoices'] });
+      saveAs(blob, filename);
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : String((err as any)?.message ?? 'Could not generate the invoice'));
+    } finally {
+      setGeneratingInvoiceGroupId(null);
+    }
+  };
+
+  const handlePushToQuickBooks = async (
+    group: { key: InvoiceGroupKeyWithPeriod; tickets: ServiceTicket[] },
+    groupId: string
+  ) => {
+    const tickets = group.tickets as (ServiceTicket & { recordId?: string })[];
+    const lines = buildQuickBooksInvoiceLines(tickets, expensesByRecordId, taxSettings, taxCodeForTicket);
+    if (lines.length === 0) {
+      setExportError('Nothing to invoice: this batch has no billable hours or expenses.');
+      return;
+    }
+    const existing = qboPushesByGroupId[groupId];
+    const confirmMessage =
+      existing?.status === 'pending'
+        ? "An earlier push of this batch didn't finish. Check QuickBooks for the invoice first. Push again?"
+        : `This batch was already pushed as QuickBooks invoice ${existing?.qbo_doc_number || existing?.qbo_invoice_id}. Push a second invoice anyway?`;
+    if (existing && !window.confirm(confirmMessage)) {
+      return;
+    }
+    const ticketDates = tickets.map((t) => toDateStr(t.date)).filter(Boolean).sort();
+    const ticketNumbers = tickets.map((t) => t.ticketNumber).filter(Boolean) as string[];
+    setPushingQboGroupId(groupId);
+    setExportError(null);
+    try {
+      const { invoice } = await quickbooksService.pushInvoice({
+        groupId,
+        customerName: tickets[0]?.customerName ?? '',
+        lines,
+        txnDate: ticketDates[ticketDates.length - 1],
+        privateNote: [group.key.projectNumber, group.key.poAfe, formatTicketNumbersWithRanges(ticketNumbers)].filter(Boolean).join(' · '),
+        force: !!existing,
+      });
+      await queryClient.invalidateQueries({ queryKey: ['qboInvoicePushes'] });
+      setQboPushToast(`Created QuickBooks invoice ${invoice.DocNumber ?? invoice.Id} (${lines.length} line${lines.length === 1 ? '' : 's'})`);
+    } catch (err) {
+      setExportError(describeError(err, 'QuickBooks push failed'));
+    } finally {
+      setPushingQboGroupId(null);
+    }
+  };
+
+  /**
+   * Invoice PDF (first) merged with the batch: the customer's own timesheet when they supply one,
+   * otherwise the summary and per-ticket PDFs. Null when the batch has no invoice PDF yet.
+   */
+  const buildBatchWithInvoiceBlob = async (
+    group: { key: InvoiceGroupKeyWithPeriod; tickets: ServiceTicket[] },
+    groupId: string,
+    fileOverride?: File
+  ): Promise<{ blob: Blob; filename: string } | null> => {
     const invoiceFile = fileOverride ?? invoiceFilesByGroupId[groupId];
     const saved = savedInvoiceMetadata?.[groupId];
     let invoiceBlob: Blob;
@@ -5125,63 +5616,71 @@ export default function Invoices() {
     } else if (saved?.storagePath) {
       invoiceBlob = await invoicedBatchInvoicesService.downloadInvoice(saved.storagePath);
       sourceInvoiceName = saved.filename || 'invoice.pdf';
-    } else return;
+    } else return null;
 
-    const downloadFilename = mergedInvoiceBatchDownloadFilename(sourceInvoiceName);
+    const filename = mergedInvoiceBatchDownloadFilename(sourceInvoiceName);
     const dlSnap = invoicedMarkRows.find((r) => r.group_id === groupId)?.key_snapshot as FrozenGroupSnapshot | undefined;
     const dlLabourNotes = dlSnap?.labourNotes ?? pendingLabourNotes[groupId];
     const dlLocalGroupId = getGroupId(group);
 
     const { tickets: groupTickets } = group;
-    setDownloadingWithInvoiceGroupId(groupId);
-    setExportError(null);
-    try {
-      // Customer-supplied timesheet short-circuit: when the customer requires their own
-      // format, the combined package is just our invoice + their timesheet. No IONEX
-      // summary, no IONEX per-ticket PDFs. Check both persistId (the groupId passed in)
-      // and the local groupId, since the timesheet may have been uploaded before the
-      // batch was marked.
-      const customerTimesheet =
-        savedCustomerTimesheetMetadata?.[groupId] ??
-        savedCustomerTimesheetMetadata?.[dlLocalGroupId];
-      if (customerTimesheet) {
-        const timesheetBlob = await invoicedBatchCustomerTimesheetsService.downloadTimesheet(customerTimesheet.storagePath);
-        const merged = await mergePdfBlobs([invoiceBlob, timesheetBlob]);
-        saveAs(merged, downloadFilename);
-        return;
-      }
+    // Customer-supplied timesheet short-circuit: when the customer requires their own
+    // format, the combined package is just our invoice + their timesheet. No IONEX
+    // summary, no IONEX per-ticket PDFs. Check both persistId (the groupId passed in)
+    // and the local groupId, since the timesheet may have been uploaded before the
+    // batch was marked.
+    const customerTimesheet =
+      savedCustomerTimesheetMetadata?.[groupId] ??
+      savedCustomerTimesheetMetadata?.[dlLocalGroupId];
+    if (customerTimesheet) {
+      const timesheetBlob = await invoicedBatchCustomerTimesheetsService.downloadTimesheet(customerTimesheet.storagePath);
+      return { blob: await mergePdfBlobs([invoiceBlob, timesheetBlob]), filename };
+    }
 
-      const blobs: Blob[] = [invoiceBlob];
-      const allExpenses: Array<{ expense_type: string; description: string; quantity: number; rate: number; unit?: string }> = [];
+    const blobs: Blob[] = [invoiceBlob];
+    const allExpenses: Array<{ expense_type: string; description: string; quantity: number; rate: number; unit?: string }> = [];
 
-      for (const ticket of groupTickets) {
-        const t = ticket as ServiceTicket & { recordId?: string; headerOverrides?: unknown };
-        const recordId = t.recordId;
-        let expenses: Array<{ expense_type: string; description: string; quantity: number; rate: number; unit?: string }> = [];
-        if (recordId) {
-          try {
-            expenses = await serviceTicketExpensesService.getByTicketId(recordId);
-            allExpenses.push(...expenses);
-          } catch {
-            expenses = [];
-          }
+    for (const ticket of groupTickets) {
+      const t = ticket as ServiceTicket & { recordId?: string; headerOverrides?: unknown };
+      const recordId = t.recordId;
+      let expenses: Array<{ expense_type: string; description: string; quantity: number; rate: number; unit?: string }> = [];
+      if (recordId) {
+        try {
+          expenses = await serviceTicketExpensesService.getByTicketId(recordId);
+          allExpenses.push(...expenses);
+        } catch {
+          expenses = [];
         }
-        const result = await generateAndStorePdf(ticket, expenses, {
-          uploadToStorage: false,
-          downloadLocally: false,
-        });
-        blobs.push(result.blob);
       }
+      const result = await generateAndStorePdf(ticket, expenses, {
+        uploadToStorage: false,
+        downloadLocally: false,
+        tax: taxForTickets([ticket]),
+      });
+      blobs.push(result.blob);
+    }
 
-      try {
-        const summaryPdf = await generateBatchSummaryPdf(groupTickets, allExpenses, dlLabourNotes);
-        blobs.splice(1, 0, summaryPdf); // Insert after invoice PDF
-      } catch (err) {
-        console.warn('Failed to generate summary PDF:', err);
-      }
+    try {
+      const summaryPdf = await generateBatchSummaryPdf(groupTickets, allExpenses, dlLabourNotes, null, taxForTickets(groupTickets));
+      blobs.splice(1, 0, summaryPdf); // Insert after invoice PDF
+    } catch (err) {
+      console.warn('Failed to generate summary PDF:', err);
+    }
+
+    return { blob: await mergePdfBlobs(blobs), filename };
+  };
 
-      const merged = await mergePdfBlobs(blobs);
-      saveAs(merged, downloadFilename);
+  const handleDownloadBatchWithInvoice = async (
+    group: { key: InvoiceGroupKeyWithPeriod; tickets: ServiceTicket[] },
+    groupId: string,
+    fileOverride?: File
+  ) => {
+    if (!(fileOverride ?? invoiceFilesByGroupId[groupId]) && !savedInvoiceMetadata?.[groupId]?.storagePath) return;
+    setDownloadingWithInvoiceGroupId(groupId);
+    setExportError(null);
+    try {
+      const built = await buildBatchWithInvoiceBlob(group, groupId, fileOverride);
+      if (built) saveAs(built.blob, built.filename);
     } catch (err) {
       console.error('Export with invoice error:', err);
       setExportError(err instanceof Error ? err.message : 'Export failed');
@@ -5239,6 +5738,7 @@ export default function Invoices() {
         const result = await generateAndStorePdf(ticket, expenses, {
           uploadToStorage: false,
           downloadLocally: false,
+          tax: taxForTickets([ticket]),
         });
         blobs.push(result.blob);
         processed++;
@@ -5293,6 +5793,7 @@ export default function Invoices() {
           const result = await generateAndStorePdf(ticket, expenses, {
             uploadToStorage: false,
             downloadLocally: false,
+            tax: taxForTickets([ticket]),
           });
           blobs.push(result.blob);
           processed++;
@@ -5301,7 +5802,7 @@ export default function Invoices() {
 
         try {
           const groupId = getGroupId(uninvoicedGroups[i]);
-          const summaryPdf = await generateBatchSummaryPdf(groupTickets, allExpenses, pendingLabourNotes[groupId]);
+          const summaryPdf = await generateBatchSummaryPdf(groupTickets, allExpenses, pendingLabourNotes[groupId], null, taxForTickets(groupTickets));
           blobs.unshift(summaryPdf);
         } catch (err) {
           console.warn('Failed to generate summary PDF:', err);
@@ -5357,6 +5858,8 @@ export default function Invoices() {
           { id: 'approved' as const, label: 'Approved', count: approvedGroups.length, kind: 'lifecycle' as const },
           { id: 'ready' as const, label: 'Ready', count: readyStdGroups.length, kind: 'lifecycle' as const },
           { id: 'invoiced' as const, label: 'Invoiced', count: finalInvoicedGroups.length, kind: 'lifecycle' as const },
+          { id: 'contracts' as const, label: 'Contracts', count: null as number | null, kind: 'terminal' as const },
+          ...(isAdmin ? [{ id: 'receivables' as const, label: 'Receivables', count: null as number | null, kind: 'terminal' as const }] : []),
           { id: 'settings' as const, label: 'Settings', count: null as number | null, kind: 'terminal' as const },
         ]).map((tab) => {
           const isActive = activeTab === tab.id;
@@ -5631,6 +6134,62 @@ export default function Invoices() {
         position="bottom-center"
         durationMs={4000}
       />
+      <Toast
+        message={batchEmailToast}
+        onDismiss={() => setBatchEmailToast(null)}
+        variant="success"
+        position="bottom-center"
+        durationMs={6000}
+      />
+      {emailingBatch && (
+        <SendBatchEmailModal
+          groupId={emailingBatch.persistId}
+          kind={emailingBatch.kind}
+          customerId={emailingBatch.group.tickets[0]?.customerId}
+          customerEmail={customers?.find((c: any) => c.id === emailingBatch.group.tickets[0]?.customerId)?.email}
+          values={getBatchEmailValues(emailingBatch.group)}
+          history={batchEmailsByGroupId[emailingBatch.persistId] ?? []}
+          buildPdf={() => buildBatchEmailPdf(emailingBatch)}
+          onSent={(send) => {
+            setBatchEmailToast(describeBatchEmail(send));
+            if (emailingBatch.markSubmittedOnSend) void handleMarkAsSubmittedForApproval(emailingBatch.group, { skipDownload: true });
+          }}
+          onClose={() => setEmailingBatch(null)}
+        />
+      )}
+      {portalLinkBatch && (
+        <ApproverLinkModal
+          groupId={portalLinkBatch.persistId}
+          title={(() => {
+            const v = getBatchEmailValues(portalLinkBatch.group);
+            return `${v.customer} · ${v.project} · ${v.period}`;
+          })()}
+          defaultApproverName={portalLinkBatch.approverName ?? undefined}
+          defaultApproverEmail={customers?.find((c: any) => c.id === portalLinkBatch.group.tickets[0]?.customerId)?.email ?? undefined}
+          links={portalLinksByGroupId[portalLinkBatch.persistId] ?? []}
+          buildSnapshot={() => buildPortalSnapshot(portalLinkBatch.group)}
+          createPayload={{
+            customerName: portalLinkBatch.group.tickets[0]?.customerName ?? '',
+            projectNumber: portalLinkBatch.group.key.projectNumber || null,
+            workflowId: getWorkflowForCustomer(portalLinkBatch.group.tickets[0]?.customerName, portalLinkBatch.group.key.projectNumber)?.id ?? null,
+          }}
+          onClose={() => setPortalLinkBatch(null)}
+        />
+      )}
+      {recordingInvoice && (
+        <CustomerInvoiceModal
+          initial={recordingInvoice.draft}
+          subtitle={recordingInvoice.subtitle}
+          onClose={() => setRecordingInvoice(null)}
+        />
+      )}
+      <Toast
+        message={qboPushToast}
+        onDismiss={() => setQboPushToast(null)}
+        variant="success"
+        position="bottom-center"
+        durationMs={6000}
+      />
 
       {groupedTickets.length === 0 && invoicedGroups.length === 0 && (activeTab === 'pending' || activeTab === 'ready' || activeTab === 'needs_approval') ? (
         <div className="ionex-empty">
@@ -5801,9 +6360,11 @@ export default function Invoices() {
                     expensesByRecordId,
                     isCombined
                   );
-              const gstTotals = computeInvoicedGroupTotalsWithGst(
+              const taxTotals = computeInvoicedGroupTotalsWithTax(
                 groupTickets as (ServiceTicket & { recordId?: string })[],
-                expensesByRecordId
+                expensesByRecordId,
+                taxSettings,
+                taxCodeForTicket
               );
               const hasMissingPoAfe =
                 isCnrlPeriodGroup &&
@@ -6084,7 +6645,7 @@ export default function Invoices() {
                       );
                     })()}
                     <span style={{ fontWeight: 700, color: 'var(--primary-color)', flexShrink: 0, fontSize: '14px' }}>
-                      ${gstTotals.totalInclGst.toLocaleString('en-CA', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                      ${taxTotals.totalInclTax.toLocaleString('en-CA', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                     </span>
                   </button>
 
@@ -6242,8 +6803,8 @@ export default function Invoices() {
                         <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: '12px' }}>
                           <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', minWidth: 0 }}>
                             <span style={{ fontSize: '20px', fontWeight: 700, color: 'var(--primary-color)' }}>
-                              Total (incl. GST): $
-                              {gstTotals.totalInclGst.toLocaleString('en-CA', {
+                              Total (incl. tax): $
+                              {taxTotals.totalInclTax.toLocaleString('en-CA', {
                                 minimumFractionDigits: 2,
                                 maximumFractionDigits: 2,
                               })}
@@ -6251,17 +6812,16 @@ export default function Invoices() {
                             <span style={{ fontSize: '12px', color: 'var(--text-tertiary)', lineHeight: 1.4 }}>
                               {(() => {
                                 const fmt = (n: number) => n.toLocaleString('en-CA', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
-                                const expSubtotal = Math.round((gstTotals.subtotal - gstTotals.labourSubtotal) * 100) / 100;
+                                const expSubtotal = Math.round((taxTotals.subtotal - taxTotals.labourSubtotal) * 100) / 100;
                                 const parts: string[] = [];
-                                if (gstTotals.labourSubtotal > 0) parts.push(`Labour $${fmt(gstTotals.labourSubtotal)}`);
+                                if (taxTotals.labourSubtotal > 0) parts.push(`Labour $${fmt(taxTotals.labourSubtotal)}`);
                                 if (expSubtotal > 0) parts.push(`Expenses $${fmt(expSubtotal)}`);
-                                if (parts.length === 0) parts.push(`Subtotal $${fmt(gstTotals.subtotal)}`);
-                                else parts.unshift(`Subtotal $${fmt(gstTotals.subtotal)}`);
-                                if (gstTotals.gstOnLabour > 0) parts.push(`GST on labour (5%) $${fmt(gstTotals.gstOnLabour)}`);
-                                if (gstTotals.expenseGstTotal > 0) {
-                                  const label = gstTotals.expenseGstFromReceipt ? 'Receipt GST (expenses)' : 'GST on expenses (5%)';
-                                  parts.push(`${label} $${fmt(gstTotals.expenseGstTotal)}`);
+                                if (parts.length === 0) parts.push(`Subtotal $${fmt(taxTotals.subtotal)}`);
+                                else parts.unshift(`Subtotal $${fmt(taxTotals.subtotal)}`);
+                                for (const line of taxTotals.tax.lines) {
+                                  parts.push(`${formatTaxLineLabel(line)}${line.fromReceipts ? ' incl. receipt GST' : ''} $${fmt(line.amount)}`);
                                 }
+                                if (taxTotals.tax.lines.length === 0 && taxTotals.tax.exemptNote) parts.push('Tax exempt');
                                 return parts.join(' · ');
                               })()}
                             </span>
@@ -6599,6 +7159,128 @@ export default function Invoices() {
                         >
                           {downloadingWithInvoiceGroupId === persistId ? 'Generating…' : 'Download batch with invoice'}
                         </button>
+                        {isAdmin && !isDemoMode && (
+                          <span style={{ display: 'inline-flex', alignItems: 'center', gap: '8px', marginLeft: '8px' }}>
+                            <button
+                              type="button"
+                              onClick={() => handleGenerateInvoice(group, persistId, taxTotals)}
+                              disabled={generatingInvoiceGroupId === persistId || !!exportProgress}
+                              style={{
+                                padding: '6px 12px',
+                                backgroundColor: 'var(--bg-tertiary)',
+                                color: 'var(--text-primary)',
+                                border: '1px solid var(--border-color)',
+                                borderRadius: '6px',
+                                fontSize: '12px',
+                                fontWeight: 600,
+                                cursor: generatingInvoiceGroupId === persistId ? 'wait' : 'pointer',
+                              }}
+                              title="Create this batch's invoice PDF with the next invoice number and save it as the batch invoice"
+                            >
+                              {generatingInvoiceGroupId === persistId
+                                ? 'Generating…'
+                                : savedInvoiceMetadata?.[persistId]?.invoiceNumber
+                                  ? `Regenerate invoice ${savedInvoiceMetadata[persistId].invoiceNumber}`
+                                  : 'Generate invoice'}
+                            </button>
+                          </span>
+                        )}
+                        {isAdmin && !isDemoMode && (
+                          <span style={{ display: 'inline-flex', alignItems: 'center', gap: '8px', marginLeft: '8px' }}>
+                            <button
+                              type="button"
+                              onClick={() => setEmailingBatch({ group, persistId, kind: 'invoice' })}
+                              disabled={!(invoiceFilesByGroupId[persistId] || savedInvoiceMetadata?.[persistId]) || !!exportProgress}
+                              style={{
+                                padding: '6px 12px',
+                                backgroundColor: 'var(--bg-tertiary)',
+                                color: (invoiceFilesByGroupId[persistId] || savedInvoiceMetadata?.[persistId]) ? 'var(--text-primary)' : 'var(--text-tertiary)',
+                                border: '1px solid var(--border-color)',
+                                borderRadius: '6px',
+                                fontSize: '12px',
+                                fontWeight: 600,
+                                cursor: (invoiceFilesByGroupId[persistId] || savedInvoiceMetadata?.[persistId]) && !exportProgress ? 'pointer' : 'not-allowed',
+                              }}
+                              title="Email the invoice PDF merged with this batch to the customer (recipients and wording from Customers → Edit)"
+                            >
+                              Email invoice
+                            </button>
+                            {batchEmailsByGroupId[persistId]?.[0] && (
+                              <span
+                                style={{ fontSize: '12px', color: batchEmailStatusColor(batchEmailsByGroupId[persistId][0]) }}
+                                title={batchEmailsByGroupId[persistId][0].error ?? undefined}
+                              >
+                                {describeBatchEmail(batchEmailsByGroupId[persistId][0])}
+                              </span>
+                            )}
+                          </span>
+                        )}
+                        {isAdmin && !isDemoMode && (
+                          <span style={{ display: 'inline-flex', alignItems: 'center', gap: '8px', marginLeft: '8px' }}>
+                            <button
+                              type="button"
+                              onClick={() => handlePushToQuickBooks(group, persistId)}
+                              disabled={pushingQboGroupId === persistId}
+                              style={{
+                                padding: '6px 12px',
+                                backgroundColor: 'var(--bg-tertiary)',
+                                color: 'var(--text-primary)',
+                                border: '1px solid var(--border-color)',
+                                borderRadius: '6px',
+                                fontSize: '12px',
+                                fontWeight: 600,
+                                cursor: pushingQboGroupId === persistId ? 'wait' : 'pointer',
+                              }}
+                              title="Create a QuickBooks Online invoice with one line per rate code and expense"
+                            >
+                              {pushingQboGroupId === persistId ? 'Pushing…' : qboPushesByGroupId[persistId] ? 'Push to QuickBooks again' : 'Push to QuickBooks'}
+                            </button>
+                            {qboPushesByGroupId[persistId] && (
+                              <span style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+                                {qboPushesByGroupId[persistId].status === 'pending'
+                                  ? 'QBO push not confirmed'
+                                  : `QBO invoice ${qboPushesByGroupId[persistId].qbo_doc_number || qboPushesByGroupId[persistId].qbo_invoice_id}`}{' '}
+                                · {new Date(qboPushesByGroupId[persistId].pushed_at).toLocaleDateString()}
+                              </span>
+                            )}
+                          </span>
+                        )}
+                        {isAdmin && !isDemoMode && (() => {
+                          const recorded = customerInvoicesByGroupId[persistId];
+                          const arStatus = recorded ? invoiceStatus(recorded, ymdTodayLocal()) : null;
+                          return (
+                            <span style={{ display: 'inline-flex', alignItems: 'center', gap: '8px', marginLeft: '8px' }}>
+                              <button
+                                type="button"
+                                onClick={() => openRecordInvoice(group, persistId, taxTotals)}
+                                style={{
+                                  padding: '6px 12px',
+                                  backgroundColor: 'var(--bg-tertiary)',
+                                  color: 'var(--text-primary)',
+                                  border: '1px solid var(--border-color)',
+                                  borderRadius: '6px',
+                                  fontSize: '12px',
+                                  fontWeight: 600,
+                                  cursor: 'pointer',
+                                }}
+                                title="Record the issued invoice in Receivables to track its due date and payments"
+                              >
+                                {recorded ? 'Edit invoice record' : 'Record invoice'}
+                              </button>
+                              {recorded && arStatus && (
+                                <span
+                                  style={{
+                                    fontSize: '12px',
+                                    color: arStatus === 'overdue' ? 'var(--error-color)' : arStatus === 'paid' ? 'var(--success-color)' : 'var(--text-secondary)',
+                                  }}
+                                >
+                                  Invoice {recorded.invoice_number} · {INVOICE_STATUS_LABELS[arStatus]}
+                                  {invoiceBalance(recorded) > 0 ? ` · $${invoiceBalance(recorded).toFixed(2)} due ${recorded.due_date}` : ''}
+                                </span>
+                              )}
+                            </span>
+                          );
+                        })()}
                       </div>
                       {/* Line item breakdown */}
                       {hasMissingPoAfe && (
@@ -8157,7 +8839,7 @@ export default function Invoices() {
                       type="button"
                       disabled={!!bulkSendProgress}
                       onClick={() => handleBulkSendForApproval(customer, groups)}
-                      title={`Generates one merged PDF per batch (Approver_Period.pdf), zips them as ${customer}_for-approval_<date>.zip, downloads the zip, then marks each batch as ready to send. Period(s) included: ${periodSummary || '(none listed)'}. Nothing is sent automatically — you email/submit the zip to the approver yourself.`}
+                      title={`Generates one merged PDF per batch (Approver_Period.pdf), zips them as ${customer}_for-approval_<date>.zip, downloads the zip, then marks each batch as ready to send. Period(s) included: ${periodSummary || '(none listed)'}. Nothing is sent automatically — you email/submit the zip to the approver yourself, or use Email on each batch to send it from the app.`}
                       className="ionex-banner-button"
                     >
                       <span aria-hidden style={{ fontSize: '13px' }}>📥</span>
@@ -8628,6 +9310,50 @@ export default function Invoices() {
                             <span aria-hidden style={{ fontSize: '13px' }}>📝</span>
                             Rate notes
                           </button>
+                          {isAdmin && !isDemoMode && (
+                            <button
+                              type="button"
+                              onClick={() =>
+                                setEmailingBatch({
+                                  group,
+                                  persistId: resolvedPersistGroupId(group, invoicedMarkRows),
+                                  kind: 'approval',
+                                  markSubmittedOnSend: groupIsPortalApproval,
+                                })
+                              }
+                              disabled={!!exportProgress || markInvoicedMutation.isPending}
+                              style={{
+                                padding: '6px 12px',
+                                backgroundColor: 'var(--bg-tertiary)',
+                                color: 'var(--text-secondary)',
+                                border: '1px solid var(--border-color)',
+                                borderRadius: '6px',
+                                fontSize: '12px',
+                                fontWeight: 600,
+                                cursor: exportProgress || markInvoicedMutation.isPending ? 'not-allowed' : 'pointer',
+                                whiteSpace: 'normal',
+                                display: 'inline-flex',
+                                alignItems: 'center',
+                                gap: '6px',
+                              }}
+                              title={
+                                groupIsPortalApproval
+                                  ? "Email this batch's merged PDF to the approver (recipients and wording from Customers → Edit), then move it to Submitted"
+                                  : "Email this batch's merged PDF to the approver (recipients and wording from Customers → Edit)"
+                              }
+                            >
+                              <span aria-hidden style={{ fontSize: '13px' }}>✉️</span>
+                              Email
+                            </button>
+                          )}
+                          {(() => {
+                            const lastEmail = batchEmailsByGroupId[resolvedPersistGroupId(group, invoicedMarkRows)]?.[0];
+                            return lastEmail ? (
+                              <span style={{ flexBasis: '100%', textAlign: 'right', fontSize: '11px', color: batchEmailStatusColor(lastEmail) }} title={lastEmail.error ?? undefined}>
+                                {describeBatchEmail(lastEmail)}
+                              </span>
+                            ) : null;
+                          })()}
                           {groupIsPortalApproval ? (
                             <button
                               type="button"
@@ -8650,7 +9376,7 @@ export default function Invoices() {
                                 gap: '6px',
                                 whiteSpace: 'normal',
                               }}
-                              title="Portal Approval flow: downloads the batch PDF for you to email/submit to the approver, then marks the batch as ready-to-send so it moves to the Submitted tab. Nothing is sent automatically. When the signed PDF comes back, drop it on the card under Submitted to advance to Approved."
+                              title="Portal Approval flow: downloads the batch PDF for you to submit to the approver yourself, then marks the batch as ready-to-send so it moves to the Submitted tab. Use Email instead to have the app send it. When the signed PDF comes back, drop it on the card under Submitted to advance to Approved."
                             >
                               <span aria-hidden style={{ fontSize: '13px' }}>📤</span>
                               {markInvoicedMutation.isPending ? 'Saving…' : 'Mark as sent for approval'}
@@ -9139,7 +9865,7 @@ export default function Invoices() {
                     <strong>{submittedApprovalGroups.length}</strong> {submittedApprovalGroups.length === 1 ? 'batch' : 'batches'}
                   </span>
                 </div>
-                <p>Waiting for the customer to approve. When the signed batch comes back, drop the PDF on the card to advance to Approved.</p>
+                <p>Waiting for the customer to approve. Send an Approver link so they can approve and sign online, or when the signed batch comes back, drop the PDF on the card to advance to Approved.</p>
               </div>
               <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
                 {submittedApprovalSections.map((section) => {
@@ -9382,6 +10108,29 @@ export default function Invoices() {
                             <span aria-hidden>📥</span>
                             {redownloadingApprovalId === persistId ? 'Building…' : 'Download batch again'}
                           </button>
+                          {isAdmin && !isDemoMode && !isNeedsAdjustment && (
+                            <button
+                              type="button"
+                              onClick={() => setPortalLinkBatch({ group, persistId, approverName: approverDisplay })}
+                              title="Create a login-free link where the approver reviews the tickets, approves or rejects each one and signs. Approving moves the batch to Approved with the signed PDF; a rejection moves it to Needs adjustment."
+                              style={{
+                                padding: '6px 12px',
+                                fontSize: '12px',
+                                fontWeight: 600,
+                                borderRadius: '6px',
+                                border: '1px solid var(--border-color)',
+                                backgroundColor: 'var(--bg-tertiary)',
+                                color: 'var(--text-primary)',
+                                cursor: 'pointer',
+                                display: 'inline-flex',
+                                alignItems: 'center',
+                                gap: '6px',
+                              }}
+                            >
+                              <span aria-hidden>✍️</span>
+                              Approver link
+                            </button>
+                          )}
                           {isNeedsAdjustment ? (
                             <button
                               type="button"
@@ -9468,6 +10217,11 @@ export default function Invoices() {
                             ↺ Undo
                           </button>
                         </div>
+                        {portalLinksByGroupId[persistId]?.[0] && (
+                          <div style={{ fontSize: '12px', marginTop: '8px', color: portalLinkStatusColor(portalLinksByGroupId[persistId][0]) }}>
+                            {describePortalLink(portalLinksByGroupId[persistId][0])}
+                          </div>
+                        )}
                       </div>
                     );
                   };
@@ -10147,6 +10901,10 @@ export default function Invoices() {
             )
           )}
 
+          {/* Contracts tab — fixed-price milestones / progress and monthly retainers */}
+          {activeTab === 'contracts' && <ContractBillingPanel projectId={selectedProjectId || undefined} />}
+          {activeTab === 'receivables' && <ReceivablesPanel customerId={selectedCustomerId || undefined} />}
+
           {/* Settings tab — per-customer / per-project workflow + grouping editors */}
           {activeTab === 'settings' && (() => {
             const groupingOptions = [
@@ -10158,6 +10916,11 @@ export default function Invoices() {
               { value: 'progress', label: 'Progress' },
             ];
             const workflowOptions = allWorkflows.map((w) => ({ value: w.id, label: w.name + (w.is_default ? ' (default)' : '') }));
+            // Inactive codes only while someone still has them, so the select shows their current value.
+            const taxCodeOptions = (currentId: string | null | undefined) =>
+              taxSettings.codes
+                .filter((c) => c.active || c.id === currentId)
+                .map((c) => ({ value: c.id, label: `${c.code} – ${describeTaxCode(c)}` }));
             const defaultWorkflowName = defaultWorkflow?.name ?? '—';
             const q = settingsSearch.trim().toLowerCase();
             const filteredCustomers = (customers ?? []).filter((c: any) => !q || (c.name ?? '').toLowerCase().includes(q));
@@ -10195,7 +10958,7 @@ export default function Invoices() {
                 </div>
                 <div style={{ display: 'flex', gap: '12px', alignItems: 'flex-end', flexWrap: 'wrap', marginBottom: '14px' }}>
                   <div className="ionex-subtabs-rail" style={{ marginBottom: 0 }}>
-                    {(['customers', 'projects'] as const).map((sub) => {
+                    {(['customers', 'projects', ...(isAdmin ? (['numbering', 'taxes'] as const) : [])] as const).map((sub) => {
                       const isActive = settingsTab === sub;
                       return (
                         <button
@@ -10204,22 +10967,28 @@ export default function Invoices() {
                           onClick={() => setSettingsTab(sub)}
                           className={`ionex-subtab-chip${isActive ? ' is-active' : ''}`}
                         >
-                          {sub}
+                          {sub === 'numbering' ? 'invoice numbers' : sub === 'taxes' ? 'tax codes' : sub}
                         </button>
                       );
                     })}
                   </div>
-                  <div className="ionex-search" style={{ maxWidth: 280, marginLeft: 'auto' }}>
-                    <input
-                      type="text"
-                      value={settingsSearch}
-                      onChange={(e) => setSettingsSearch(e.target.value)}
-                      placeholder={`Search ${settingsTab}…`}
-                    />
-                  </div>
+                  {settingsTab !== 'numbering' && settingsTab !== 'taxes' && (
+                    <div className="ionex-search" style={{ maxWidth: 280, marginLeft: 'auto' }}>
+                      <input
+                        type="text"
+                        value={settingsSearch}
+                        onChange={(e) => setSettingsSearch(e.target.value)}
+                        placeholder={`Search ${settingsTab}…`}
+                      />
+                    </div>
+                  )}
                 </div>
 
-                {settingsTab === 'customers' ? (
+                {settingsTab === 'numbering' ? (
+                  <InvoiceNumberingEditor />
+                ) : settingsTab === 'taxes' ? (
+                  <TaxCodesEditor />
+                ) : settingsTab === 'customers' ? (
                   <div className="ionex-settings-card">
                     <table className="ionex-settings-table">
                       <thead>
@@ -10227,11 +10996,12 @@ export default function Invoices() {
                           <th>Customer</th>
                           <th>Invoice workflow</th>
                           <th>Invoice grouping</th>
+                          <th>Tax code</th>
                         </tr>
                       </thead>
                       <tbody>
                         {filteredCustomers.length === 0 ? (
-                          <tr><td colSpan={3} style={{ padding: '24px', textAlign: 'center', color: 'var(--text-tertiary)', fontStyle: 'italic' }}>No customers match.</td></tr>
+                          <tr><td colSpan={4} style={{ padding: '24px', textAlign: 'center', color: 'var(--text-tertiary)', fontStyle: 'italic' }}>No customers match.</td></tr>
                         ) : filteredCustomers.map((c: any) => (
                           <tr key={c.id}>
                             <td className="name-cell">{c.name}</td>
@@ -10257,6 +11027,17 @@ export default function Invoices() {
                                 ))}
                               </select>
                             </td>
+                            <td>
+                              <select
+                                value={c.tax_code_id ?? ''}
+                                onChange={(e) => updateTaxCodeAssignmentMutation.mutate({ customerId: c.id, projectId: null, taxCodeId: e.target.value || null })}
+                              >
+                                <option value="">Default ({describeTaxCode(resolveTaxCode(taxSettings, {}))})</option>
+                                {taxCodeOptions(c.tax_code_id).map((opt) => (
+                                  <option key={opt.value} value={opt.value}>{opt.label}</option>
+                                ))}
+                              </select>
+                            </td>
                           </tr>
                         ))}
                       </tbody>
@@ -10271,11 +11052,12 @@ export default function Invoices() {
                           <th>Customer</th>
                           <th>Workflow override</th>
                           <th>Grouping override</th>
+                          <th>Tax code override</th>
                         </tr>
                       </thead>
                       <tbody>
                         {filteredProjects.length === 0 ? (
-                          <tr><td colSpan={4} style={{ padding: '24px', textAlign: 'center', color: 'var(--text-tertiary)', fontStyle: 'italic' }}>No projects match.</td></tr>
+                          <tr><td colSpan={5} style={{ padding: '24px', textAlign: 'center', color: 'var(--text-tertiary)', fontStyle: 'italic' }}>No projects match.</td></tr>
                         ) : filteredProjects.map((p: any) => {
                           const inheritedWf = customerWorkflowName(p.customer_id);
                           const wfFallback = inheritedWf ? `Inherit from customer (${inheritedWf})` : `Inherit from customer (${defaultWorkflowName})`;
@@ -10360,6 +11142,19 @@ export default function Invoices() {
                                   </select>
                                 </div>
                               </td>
+                              <td>
+                                <select
+                                  value={p.tax_code_id ?? ''}
+                                  onChange={(e) => updateTaxCodeAssignmentMutation.mutate({ projectId: p.id, customerId: null, taxCodeId: e.target.value || null })}
+                                >
+                                  <option value="">
+                                    Inherit from customer ({describeTaxCode(resolveTaxCode(taxSettings, { customerTaxCodeId: inheritedCust?.tax_code_id }))})
+                                  </option>
+                                  {taxCodeOptions(p.tax_code_id).map((opt) => (
+                                    <option key={opt.value} value={opt.value}>{opt.label}</option>
+                                  ))}
+                                </select>
+                              </td>
                             </tr>
                           );
                         })}
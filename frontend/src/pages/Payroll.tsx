@@ -4,17 +4,65 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '../context/AuthContext';
 import { useDemoMode } from '../context/DemoModeContext';
 import { supabase } from '../lib/supabaseClient';
-import { employeesService, serviceTicketExpensesService, userExpensesService } from '../services/supabaseServices';
+import {
+  employeesService,
+  overtimeRulesService,
+  PayPeriodClosure,
+  payPeriodClosuresService,
+  payrollRegistersService,
+  payRateAdjustmentsService,
+  leaveDaysService,
+  serviceTicketExpensesService,
+  userExpensesService,
+} from '../services/supabaseServices';
 import { saveAs } from 'file-saver';
 import { ticketExpenseReimbursementBase } from '../utils/ticketExpenseReimbursement';
 import { linkedUserExpenseRedundantWithTicketExpenseLine } from '../utils/ticketExpenseReceiptMatch';
 import PayPeriodCalendar from '../components/PayPeriodCalendar';
+import {
+  currentPayrollPeriod,
+  formatPayPeriodRangeLabel,
+  formatYmd,
+  parseYmdAtNoon,
+  paydayForRange,
+  previousPayrollPeriod,
+} from '../utils/payPeriod';
+import OvertimeRulesModal from '../components/OvertimeRulesModal';
+import PaySchedulesModal from '../components/PaySchedulesModal';
+import PayPeriodClosureModal from '../components/PayPeriodClosureModal';
+import PayrollRegisterModal from '../components/PayrollRegisterModal';
+import StatHolidaysModal from '../components/StatHolidaysModal';
+import { PayRateAdjustment, payRateForEntry, toPayRates } from '../utils/backPay';
+import { LEAVE_TYPE_LABELS, LeaveDay } from '../utils/leave';
+import { diffPayrollRegisters, keyReimbursementLines, PayrollRegisterData, RegisterEmployee } from '../utils/payrollRegister';
+import { usePaySchedules } from '../hooks/usePaySchedules';
+import { useStatHolidays } from '../hooks/useStatHolidays';
+import {
+  computeStatHolidayPay,
+  StatHolidayPayLine,
+  statHolidayBurdenPct,
+  statHolidaysInRange,
+  statPayLookbackDays,
+  statPayRuleFor,
+} from '../utils/statHolidays';
 import {
   ticketExpenseRequiresLinkedReceiptForPayroll,
   ticketExpenseHasPayrollEligibleLinkedReceipt,
 } from '../utils/ticketExpensePayrollEligibility';
 import { startOfWeekMonday } from '../utils/localMondayWeek';
 import { useBackdropClose } from '../hooks/useBackdropClose';
+import {
+  autoAllocateOvertime,
+  classifyOvertimeHours,
+  DEFAULT_OVERTIME_RULE,
+  describeOvertimeRule,
+  DOUBLE_TIME_MULTIPLIER,
+  findOvertimeRule,
+  OVERTIME_MULTIPLIER,
+  OvertimeRule,
+  overtimeWeekKey,
+  resolveOvertimeRule,
+} from '../utils/overtimeRules';
 
 interface TimeEntry {
   id: string;
@@ -23,6 +71,8 @@ interface TimeEntry {
   hours: number;
   rate: number;
   rate_type?: string;
+  start_time?: string | null;
+  created_at?: string | null;
   billable: boolean;
   approved: boolean;
   project_id?: string;
@@ -62,81 +112,34 @@ interface EmployeeHours {
   entries: TimeEntry[];
 }
 
+/** Entry before the pay period, for stat holiday average day's pay. */
+type StatLookbackEntry = Pick<TimeEntry, 'user_id' | 'date' | 'hours' | 'rate_type' | 'billable'>;
+
 // Round UP to nearest 0.25 hour (quarter hour, never round down)
 const roundToQuarterHour = (hours: number): number => {
   return Math.ceil(hours * 4) / 4;
 };
 
-// Fallback period: 19 Jan 2026 to 1 Feb 2026 (payday Friday 6 Feb 2026)
-const FALLBACK_PERIOD = { start: '2026-01-19', end: '2026-02-01' };
-
-const formatPeriodDate = (d: Date): string => {
-  const year = d.getFullYear();
-  const month = String(d.getMonth() + 1).padStart(2, '0');
-  const day = String(d.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
-};
-
-// "Current" pay period for payroll purposes = the period whose payday is the
-// soonest upcoming Friday (or today, if today IS payday). This is the one the
-// admin is about to run payroll for. After the payday passes, "current" rolls
-// forward to the next period.
-//
-// Reference: period 0 = 19 Jan–1 Feb 2026 → payday Friday 6 Feb 2026.
+// "Current" pay period for payroll purposes = the period whose payday is the soonest upcoming
+// payday (or today, if today IS payday). This is the one the admin is about to run payroll for.
+// After the payday passes, "current" rolls forward. Periods come from the stored pay schedules.
 const getCurrentPayPeriod = (): { start: string; end: string } => {
-  try {
-    const referenceStart = new Date(2026, 0, 19); // Jan 19, 2026 = period 0 start
-    const periodLengthDays = 14;
-    const daysUntilPayday = 5;
-    const msPerDay = 1000 * 60 * 60 * 24;
-
-    // Period 0's payday = referenceStart + (14-1) + 5 = + 18 days.
-    const referencePayday = new Date(referenceStart.getTime() + (periodLengthDays - 1 + daysUntilPayday) * msPerDay);
-
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    // Smallest N such that payday(N) ≥ today, where payday(N) = referencePayday + N*14.
-    const daysSincePayday0 = (today.getTime() - referencePayday.getTime()) / msPerDay;
-    const periodNumber = daysSincePayday0 <= 0 ? 0 : Math.ceil(daysSincePayday0 / periodLengthDays);
-
-    const periodStart = new Date(referenceStart.getTime() + periodNumber * periodLengthDays * msPerDay);
-    const periodEnd = new Date(periodStart.getTime() + (periodLengthDays - 1) * msPerDay);
-
-    const start = formatPeriodDate(periodStart);
-    const end = formatPeriodDate(periodEnd);
-    if (!start || !end || start.length !== 10 || end.length !== 10) return FALLBACK_PERIOD;
-    return { start, end };
-  } catch {
-    return FALLBACK_PERIOD;
-  }
+  const period = currentPayrollPeriod();
+  return { start: formatYmd(period.start), end: formatYmd(period.end) };
 };
 
-/** Return the end date (YYYY-MM-DD) of the 14-day pay period that contains the given date. */
-const getPeriodEndForDate = (dateStr: string): string => {
-  const referenceStart = new Date(2026, 0, 19);
-  const periodLengthDays = 14;
-  const msPerDay = 1000 * 60 * 60 * 24;
-  const d = new Date(dateStr + 'T12:00:00');
-  const daysSinceRef = Math.floor((d.getTime() - referenceStart.getTime()) / msPerDay);
-  const periodIndex = daysSinceRef >= 0 ? Math.floor(daysSinceRef / periodLengthDays) : Math.ceil(daysSinceRef / periodLengthDays) - 1;
-  const periodEnd = new Date(referenceStart.getTime() + (periodIndex + 1) * periodLengthDays * msPerDay);
-  periodEnd.setDate(periodEnd.getDate() - 1);
-  const y = periodEnd.getFullYear();
-  const m = String(periodEnd.getMonth() + 1).padStart(2, '0');
-  const day = String(periodEnd.getDate()).padStart(2, '0');
-  return `${y}-${m}-${day}`;
-};
+const formatPayday = (d: Date): string =>
+  d.toLocaleDateString('en-AU', { weekday: 'long', day: 'numeric', month: 'short', year: 'numeric' });
 
-// Payday is Friday, 5 days after period end. For selected range, show its payday when it's a 14-day period.
+// For the selected range, show its payday when it is exactly one pay period.
 const getPaydayForRange = (start: string, end: string): string | null => {
-  const startD = new Date(start + 'T12:00:00');
-  const endD = new Date(end + 'T12:00:00');
-  const days = Math.round((endD.getTime() - startD.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-  if (days !== 14) return null;
-  const payday = new Date(endD);
-  payday.setDate(payday.getDate() + 5);
-  return payday.toLocaleDateString('en-AU', { weekday: 'long', day: 'numeric', month: 'short', year: 'numeric' });
+  const payday = paydayForRange(start, end);
+  return payday ? formatPayday(payday) : null;
+};
+
+// BOM so Excel opens the export as UTF-8. Used for live exports and closed-period snapshots.
+const downloadPayrollCsv = (csv: string, filename: string) => {
+  saveAs(new Blob(['﻿' + csv], { type: 'text/csv;charset=utf-8;' }), filename);
 };
 
 /** Get start/end date strings for a preset (for comparing to current range) */
@@ -157,12 +160,8 @@ const getPresetRange = (preset: string): { start: string; end: string } | null =
       return period;
     }
     case 'previousPayPeriod': {
-      const period = getCurrentPayPeriod();
-      start = new Date(period.start + 'T12:00:00');
-      end = new Date(period.end + 'T12:00:00');
-      start.setDate(start.getDate() - 14);
-      end.setDate(end.getDate() - 14);
-      return { start: formatDate(start), end: formatDate(end) };
+      const period = previousPayrollPeriod();
+      return { start: formatDate(period.start), end: formatDate(period.end) };
     }
     case 'thisWeek':
       start = startOfWeekMonday(today);
@@ -194,23 +193,30 @@ const getPresetRange = (preset: string): { start: string; end: string } | null =
 
 const PRESET_KEYS = ['currentPayPeriod', 'previousPayPeriod', 'thisWeek', 'lastWeek', 'last2Weeks', 'thisMonth', 'lastMonth'] as const;
 
-/** Daily-hours threshold above which a day is flagged as potential overtime (BC standard: 8h/day). */
-const OVERTIME_DAILY_THRESHOLD = 8;
-/** Weekly-hours threshold above which the week is flagged (BC standard: 40h/week). */
-const OVERTIME_WEEKLY_THRESHOLD = 40;
+type OtConvertArgs = { userId: string; userName: string; date: string; dayEntries: TimeEntry[]; owedHours: number };
 
 function EmployeeProjectsAndDailyBreakdown({
   employeeName,
   userId,
   entries,
+  weekLeadEntries,
   isContractor,
+  overtimeRule,
   onConvertOt,
+  onReclassifyAll,
+  isReclassifying,
 }: {
   employeeName: string;
   userId: string;
   entries: TimeEntry[];
+  /** Hours earlier in the first week than the range, counted toward weekly OT but not listed. */
+  weekLeadEntries?: Array<{ date: string; hours: number }>;
   isContractor: boolean;
-  onConvertOt?: (args: { userId: string; userName: string; date: string; dayEntries: TimeEntry[]; owedHours: number }) => void;
+  overtimeRule: OvertimeRule;
+  onConvertOt?: (args: OtConvertArgs) => void;
+  /** One-click: convert every owed day using autoAllocateOvertime. */
+  onReclassifyAll?: (days: OtConvertArgs[]) => void;
+  isReclassifying?: boolean;
 }) {
   // Click-to-copy support local to this breakdown card
   const [copiedKey, setCopiedKey] = useState<string | null>(null);
@@ -229,19 +235,9 @@ function EmployeeProjectsAndDailyBreakdown({
   const byProject = new Map<string, { name: string; customer: string; hours: number; byRateType: Map<string, number> }>();
   // Group by date for daily overtime check
   const byDate = new Map<string, { total: number; byRateType: Map<string, number>; entries: TimeEntry[] }>();
-  // Group by ISO week for weekly overtime check
+  // Group by ISO week for the weekly total shown in tooltips
   const byWeek = new Map<string, { total: number; days: Set<string> }>();
 
-  const isoWeekKey = (dateStr: string): string => {
-    const d = new Date(dateStr + 'T12:00:00');
-    const day = d.getDay() || 7; // Mon=1..Sun=7
-    d.setDate(d.getDate() - day + 1); // Monday of that week
-    const y = d.getFullYear();
-    const m = String(d.getMonth() + 1).padStart(2, '0');
-    const dd = String(d.getDate()).padStart(2, '0');
-    return `${y}-${m}-${dd}`;
-  };
-
   for (const e of entries) {
     const hrs = Number(e.hours) || 0;
     const projKey = e.project_id || '__none__';
@@ -261,7 +257,7 @@ function EmployeeProjectsAndDailyBreakdown({
     d.byRateType.set(rt, (d.byRateType.get(rt) || 0) + hrs);
     d.entries.push(e);
 
-    const wk = isoWeekKey(e.date);
+    const wk = overtimeWeekKey(e.date);
     if (!byWeek.has(wk)) byWeek.set(wk, { total: 0, days: new Set() });
     const w = byWeek.get(wk)!;
     w.total += hrs;
@@ -270,6 +266,9 @@ function EmployeeProjectsAndDailyBreakdown({
 
   const sortedProjects = Array.from(byProject.entries()).sort((a, b) => b[1].hours - a[1].hours);
   const sortedDates = Array.from(byDate.entries()).sort((a, b) => a[0].localeCompare(b[0]));
+  // Regular / OT / DT split per day from the employee's overtime rule
+  // Only dates in the range are looked up; weekLeadEntries just fill in the start of the first week.
+  const classificationByDate = new Map(classifyOvertimeHours([...(weekLeadEntries || []), ...entries], overtimeRule).map((c) => [c.date, c]));
   const fmtDate = (s: string) => {
     try {
       return new Date(s + 'T12:00:00').toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
@@ -279,6 +278,19 @@ function EmployeeProjectsAndDailyBreakdown({
   // Per-rate-type totals for daily row "OT?" check — Shop OT and Field OT counted as paid OT already.
   const isPaidOvertimeRateType = (rt: string) => rt === 'Shop Overtime' || rt === 'Field Overtime';
 
+  const dailyRows = sortedDates.map(([date, d]) => {
+    const c = classificationByDate.get(date);
+    const paidOt = Array.from(d.byRateType.entries())
+      .filter(([rt]) => isPaidOvertimeRateType(rt))
+      .reduce((s, [, h]) => s + h, 0);
+    // OT entitlement from the rule (OT + DT hours); outstanding = entitled minus what's already booked at an OT rate.
+    const otEntitled = (c?.overtime || 0) + (c?.doubleTime || 0);
+    const owedHours = Math.max(0, +(otEntitled - paidOt).toFixed(2));
+    return { date, d, c, paidOt, otEntitled, owedHours };
+  });
+  const owedDays = dailyRows.filter((r) => r.owedHours > 0);
+  const totalOwed = owedDays.reduce((s, r) => s + r.owedHours, 0);
+
   return (
     <div className="payroll-breakdown">
       <div className="payroll-breakdown-title">
@@ -331,8 +343,27 @@ function EmployeeProjectsAndDailyBreakdown({
 
       {/* Daily hours */}
       <div className="payroll-breakdown-section">
-        <div className="payroll-breakdown-eyebrow">
-          Daily hours — flagged when day &gt; {OVERTIME_DAILY_THRESHOLD}h or week &gt; {OVERTIME_WEEKLY_THRESHOLD}h
+        <div className="payroll-breakdown-eyebrow" style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+          <span title={overtimeRule.name}>
+            Daily hours — {overtimeRule.jurisdiction}
+            {overtimeRule.employee_class ? ` (${overtimeRule.employee_class})` : ''}: {describeOvertimeRule(overtimeRule)}
+          </span>
+          {owedDays.length > 0 && onReclassifyAll && (
+            <button
+              type="button"
+              className="payroll-pill is-owed"
+              style={{ marginLeft: 'auto' }}
+              disabled={isReclassifying}
+              onClick={() =>
+                onReclassifyAll(
+                  owedDays.map((r) => ({ userId, userName: employeeName, date: r.date, dayEntries: r.d.entries, owedHours: r.owedHours }))
+                )
+              }
+              title="Convert the latest entries on each flagged day to the matching OT rate type"
+            >
+              {isReclassifying ? 'Reclassifying…' : `Reclassify all (${totalOwed.toFixed(2)}h on ${owedDays.length} day${owedDays.length === 1 ? '' : 's'})`}
+            </button>
+          )}
         </div>
         {sortedDates.length === 0 ? (
           <div className="payroll-muted" style={{ fontSize: '12px', fontStyle: 'italic' }}>No daily entries.</div>
@@ -347,18 +378,11 @@ function EmployeeProjectsAndDailyBreakdown({
               </tr>
             </thead>
             <tbody>
-              {sortedDates.map(([date, d]) => {
-                const wk = isoWeekKey(date);
-                const weekTotal = byWeek.get(wk)?.total || 0;
-                const paidOt = Array.from(d.byRateType.entries())
-                  .filter(([rt]) => isPaidOvertimeRateType(rt))
-                  .reduce((s, [, h]) => s + h, 0);
-                // Daily OT entitlement: anything over 8h in the day.
-                const dailyOtEntitled = Math.max(0, d.total - OVERTIME_DAILY_THRESHOLD);
-                // Outstanding = entitled minus what's already booked at an OT rate today.
-                const owedHours = Math.max(0, dailyOtEntitled - paidOt);
-                const dayOver = dailyOtEntitled > 0;
-                const weekOver = weekTotal > OVERTIME_WEEKLY_THRESHOLD;
+              {dailyRows.map(({ date, d, c, paidOt, otEntitled, owedHours }) => {
+                const weekTotal = byWeek.get(overtimeWeekKey(date))?.total || 0;
+                const dayOver = otEntitled > 0;
+                const dtHours = c?.doubleTime || 0;
+                const ruleNote = c && c.reasons.length > 0 ? ` (${c.reasons.join(', ')})` : '';
                 return (
                   <tr key={date} className={owedHours > 0 ? 'is-flagged' : ''}>
                     <td>{fmtDate(date)}</td>
@@ -387,13 +411,13 @@ function EmployeeProjectsAndDailyBreakdown({
                           className="payroll-pill is-owed"
                           onClick={() => onConvertOt?.({ userId, userName: employeeName, date, dayEntries: d.entries, owedHours })}
                           disabled={!onConvertOt}
-                          title={`Day ${d.total.toFixed(2)}h, entitled ${dailyOtEntitled.toFixed(2)}h OT, ${paidOt.toFixed(2)}h already booked at OT rate${weekOver ? ` · Week total ${weekTotal.toFixed(2)}h` : ''} — click to allocate`}
+                          title={`Day ${d.total.toFixed(2)}h, entitled ${otEntitled.toFixed(2)}h OT${dtHours > 0 ? ` incl. ${dtHours.toFixed(2)}h double time` : ''}${ruleNote}, ${paidOt.toFixed(2)}h already booked at OT rate · Week total ${weekTotal.toFixed(2)}h — click to allocate`}
                         >
-                          Owed {owedHours.toFixed(2)}h ⇢
+                          Owed {owedHours.toFixed(2)}h{dtHours > 0 ? ` (DT ${dtHours.toFixed(2)})` : ''} ⇢
                         </button>
                       ) : paidOt > 0 ? (
-                        <span className="payroll-pill is-paid" title={`${paidOt.toFixed(2)}h booked at OT rate`}>
-                          Paid {paidOt.toFixed(2)}h
+                        <span className="payroll-pill is-paid" title={`${paidOt.toFixed(2)}h booked at OT rate${dtHours > 0 ? `, ${dtHours.toFixed(2)}h paid as double time` : ''}`}>
+                          Paid {paidOt.toFixed(2)}h{dtHours > 0 ? ` (DT ${dtHours.toFixed(2)})` : ''}
                         </span>
                       ) : (
                         <span className="payroll-pill is-muted">—</span>
@@ -415,15 +439,9 @@ export default function Payroll() {
   const { isDemoMode } = useDemoMode();
   const navigate = useNavigate();
   
-  // Default to current pay period (19 Jan–1 Feb 2026 until payday 6 Feb, then next period)
-  const [startDate, setStartDate] = useState(() => {
-    const period = getCurrentPayPeriod();
-    return period?.start || FALLBACK_PERIOD.start;
-  });
-  const [endDate, setEndDate] = useState(() => {
-    const period = getCurrentPayPeriod();
-    return period?.end || FALLBACK_PERIOD.end;
-  });
+  // Default to the current pay period (rolls forward once its payday passes)
+  const [startDate, setStartDate] = useState(() => getCurrentPayPeriod().start);
+  const [endDate, setEndDate] = useState(() => getCurrentPayPeriod().end);
 
   // Fetch all employees (admin only) so payroll shows everyone, including those with zero hours
   const { data: allEmployees, isLoading: isLoadingEmployees } = useQuery({
@@ -432,6 +450,13 @@ export default function Payroll() {
     enabled: !!isAdmin,
   });
 
+  // Overtime rules (jurisdiction / employee class). Falls back to DEFAULT_OVERTIME_RULE when empty.
+  const { data: overtimeRules } = useQuery({
+    queryKey: ['overtimeRules'],
+    queryFn: () => overtimeRulesService.getAll(),
+    enabled: !!isAdmin,
+  });
+
   // Fetch time entries for the date range (filtered by demo mode, and by user for non-admins)
   const { data: timeEntries, isLoading: isLoadingTimeEntries, error } = useQuery({
     queryKey: ['payrollReport', startDate, endDate, isDemoMode, isAdmin, user?.id],
@@ -490,6 +515,79 @@ export default function Payroll() {
     },
   });
 
+  // Stat holidays: when one falls in the range, fetch the entries before the range that average
+  // day's pay (and AB's usual-work-day test) look back over. Entries in the range come from above.
+  // Weekly overtime counts the whole Mon–Sun week, so a range starting mid-week also needs the
+  // hours worked earlier that week. Those days only feed classifyOvertimeHours; nothing else reports them.
+  const overtimeWeekStart = useMemo(() => formatYmd(startOfWeekMonday(parseYmdAtNoon(startDate))), [startDate]);
+  const { data: overtimeWeekLeadEntries = [] } = useQuery({
+    queryKey: ['payrollOvertimeWeekLead', overtimeWeekStart, startDate, isDemoMode, isAdmin, user?.id],
+    queryFn: async () => {
+      const dayBefore = parseYmdAtNoon(startDate);
+      dayBefore.setDate(dayBefore.getDate() - 1);
+      const rows: Array<{ user_id: string; date: string; hours: number }> = [];
+      for (let offset = 0; ; offset += 1000) {
+        let query = supabase
+          .from('time_entries')
+          .select('user_id, date, hours')
+          .gte('date', overtimeWeekStart)
+          .lte('date', formatYmd(dayBefore))
+          .eq('is_demo', isDemoMode);
+        if (!isAdmin && user?.id) {
+          query = query.eq('user_id', user.id);
+        }
+        const { data, error } = await query.order('date', { ascending: true }).range(offset, offset + 999);
+        if (error) throw error;
+        rows.push(...((data || []) as Array<{ user_id: string; date: string; hours: number }>));
+        if (!data || data.length < 1000) break;
+      }
+      return rows;
+    },
+    enabled: overtimeWeekStart < startDate,
+  });
+  const overtimeWeekLeadByUser = useMemo(() => {
+    const map = new Map<string, Array<{ date: string; hours: number }>>();
+    if (overtimeWeekStart >= startDate) return map;
+    for (const e of overtimeWeekLeadEntries) {
+      if (!map.has(e.user_id)) map.set(e.user_id, []);
+      map.get(e.user_id)!.push(e);
+    }
+    return map;
+  }, [overtimeWeekLeadEntries, overtimeWeekStart, startDate]);
+
+  const { data: statHolidayRows } = useStatHolidays();
+  const statLookbackStart = useMemo(() => {
+    if (!isAdmin || !allEmployees) return null;
+    const jurisdictions = new Set<string | null>((allEmployees as any[]).map((e) => e.overtime_jurisdiction || null));
+    const withHolidays = [...jurisdictions].filter((j) => statHolidaysInRange(j, startDate, endDate).length > 0);
+    if (withHolidays.length === 0) return null;
+    const d = parseYmdAtNoon(startDate);
+    d.setDate(d.getDate() - Math.max(...withHolidays.map((j) => statPayLookbackDays(statPayRuleFor(j)))));
+    return formatYmd(d);
+  }, [isAdmin, allEmployees, startDate, endDate, statHolidayRows]);
+
+  const { data: statLookbackEntries = [] } = useQuery({
+    queryKey: ['payrollStatLookback', statLookbackStart, ytdEndDate, isDemoMode],
+    queryFn: async () => {
+      const rows: StatLookbackEntry[] = [];
+      for (let offset = 0; ; offset += 1000) {
+        const { data, error } = await supabase
+          .from('time_entries')
+          .select('user_id, date, hours, rate_type, billable')
+          .gte('date', statLookbackStart!)
+          .lte('date', ytdEndDate)
+          .eq('is_demo', isDemoMode)
+          .order('date', { ascending: true })
+          .range(offset, offset + 999);
+        if (error) throw error;
+        rows.push(...((data || []) as StatLookbackEntry[]));
+        if (!data || data.length < 1000) break;
+      }
+      return rows;
+    },
+    enabled: !!statLookbackStart,
+  });
+
   // Group entries by employee and calculate totals by rate type
   // Payroll is based ONLY on time entries (calendar hours) - not service tickets
   // For admins: include all employees (from employees list) so new hires with no time show with 0 hours
@@ -647,6 +745,21 @@ export default function Payroll() {
   /** When true, hide contractors from the employee list (and grand totals). Default on — admins
    * usually run payroll for W2 employees only, contractors are paid separately. */
   const [excludeContractors, setExcludeContractors] = useState<boolean>(true);
+  const [overtimeRulesOpen, setOvertimeRulesOpen] = useState<boolean>(false);
+  const [paySchedulesOpen, setPaySchedulesOpen] = useState<boolean>(false);
+  const [statHolidaysOpen, setStatHolidaysOpen] = useState<boolean>(false);
+  const { data: paySchedules } = usePaySchedules();
+  const [closureModalOpen, setClosureModalOpen] = useState<boolean>(false);
+
+  // Closed pay periods overlapping the range: entries and expenses in them are read-only (DB trigger).
+  // Admin-only, like the closures table itself.
+  const { data: payPeriodClosures = [] } = useQuery({
+    queryKey: ['payPeriodClosures', startDate, endDate],
+    queryFn: () => payPeriodClosuresService.getForRange(startDate, endDate),
+    enabled: isAdmin,
+  });
+  const activeClosure = payPeriodClosures.find((c) => c.status === 'closed') || null;
+  const rangeIsOnePayPeriod = paydayForRange(startDate, endDate) !== null;
   /** 'hours' shows quarter-hour decimals; 'dollars' multiplies each cell by its rate. */
   const [displayMode, setDisplayMode] = useState<'hours' | 'dollars'>('hours');
   const [calendarOpen, setCalendarOpen] = useState<boolean>(false);
@@ -663,6 +776,30 @@ export default function Payroll() {
     return map;
   }, [allEmployees]);
 
+  /** Map user_id → overtime rule resolved from the employee's jurisdiction and class. */
+  const overtimeRuleByUserId = useMemo(() => {
+    const map = new Map<string, OvertimeRule>();
+    for (const e of (allEmployees || []) as any[]) {
+      if (!e.user_id) continue;
+      map.set(e.user_id, resolveOvertimeRule(overtimeRules, e.overtime_jurisdiction, e.overtime_class));
+    }
+    return map;
+  }, [allEmployees, overtimeRules]);
+  const overtimeRuleFor = (userId: string) => overtimeRuleByUserId.get(userId) ?? resolveOvertimeRule(overtimeRules, null, null);
+
+  /** Jurisdictions (with employee count) that have no active overtime rule, so their employees get the BC default. */
+  const jurisdictionsWithoutOvertimeRule = useMemo(() => {
+    const map = new Map<string, number>();
+    if (!overtimeRules) return map;
+    for (const e of (allEmployees || []) as any[]) {
+      if (!e.user_id) continue;
+      if (findOvertimeRule(overtimeRules, e.overtime_jurisdiction, e.overtime_class)) continue;
+      const jur = (e.overtime_jurisdiction || DEFAULT_OVERTIME_RULE.jurisdiction).trim();
+      map.set(jur, (map.get(jur) || 0) + 1);
+    }
+    return map;
+  }, [allEmployees, overtimeRules]);
+
   /** Per-rate-type pay rates per user, used to render the table in dollars instead of hours. */
   const empRatesByUserId = useMemo(() => {
     const map = new Map<string, { shopRate: number; shopOtRate: number; ftRate: number; foRate: number }>();
@@ -997,84 +1134,109 @@ export default function Payroll() {
   };
 
   // OT conversion modal: admin picks which entries on a flagged day flip rate_type → OT.
-  const [otModalState, setOtModalState] = useState<{
-    userId: string;
-    userName: string;
-    date: string;
-    dayEntries: TimeEntry[];
-    owedHours: number;
-  } | null>(null);
+  const [otModalState, setOtModalState] = useState<OtConvertArgs | null>(null);
 
   // Per-entry allocation chosen by admin in the modal (entryId → hours to convert to OT)
   const [otAllocations, setOtAllocations] = useState<Record<string, number>>({});
   // Reset allocations whenever a different modal is opened
   useEffect(() => { setOtAllocations({}); }, [otModalState?.userId, otModalState?.date]);
 
+  /** Flip the allocated hours of each entry to the matching OT rate type, splitting entries when only part converts. */
+  const convertEntriesToOvertime = async (userId: string, allocations: { entry: TimeEntry; hoursToConvert: number }[]) => {
+    const emp = empRatesByUserId.get(userId);
+    const otRateFor = (regularRateType: string): { otRateType: string; otRate: number } => {
+      switch (regularRateType) {
+        case 'Field Time':
+          return { otRateType: 'Field Overtime', otRate: emp?.foRate || 0 };
+        case 'Shop Time':
+        case 'Travel Time':
+        default:
+          return { otRateType: 'Shop Overtime', otRate: emp?.shopOtRate || 0 };
+      }
+    };
+
+    for (const { entry, hoursToConvert } of allocations) {
+      if (hoursToConvert <= 0) continue;
+      const origHours = Number(entry.hours) || 0;
+      if (hoursToConvert > origHours + 0.0001) {
+        throw new Error(`Cannot convert ${hoursToConvert}h from a ${origHours}h entry`);
+      }
+      const remaining = +(origHours - hoursToConvert).toFixed(2);
+      const { otRateType, otRate } = otRateFor(entry.rate_type || 'Shop Time');
+
+      if (remaining <= 0.0001) {
+        // Entire entry flips to OT — update in place.
+        const { error: updErr } = await supabase
+          .from('time_entries')
+          .update({ rate_type: otRateType, rate: otRate })
+          .eq('id', entry.id);
+        if (updErr) throw updErr;
+      } else {
+        // Split: insert the new OT row, then shrink the original. If the shrink fails the OT row is
+        // removed again so the day's hours never end up counted twice.
+        const { data: src, error: fetchErr } = await supabase
+          .from('time_entries')
+          .select('*')
+          .eq('id', entry.id)
+          .single();
+        if (fetchErr) throw fetchErr;
+
+        const insertPayload: any = { ...src };
+        delete insertPayload.id;
+        delete insertPayload.created_at;
+        delete insertPayload.updated_at;
+        insertPayload.hours = +hoursToConvert.toFixed(2);
+        insertPayload.rate_type = otRateType;
+        insertPayload.rate = otRate;
+        const { data: inserted, error: insErr } = await supabase.from('time_entries').insert(insertPayload).select('id').single();
+        if (insErr) throw insErr;
+
+        const { error: updErr } = await supabase
+          .from('time_entries')
+          .update({ hours: remaining })
+          .eq('id', entry.id);
+        if (updErr) {
+          const { error: undoErr } = await supabase.from('time_entries').delete().eq('id', inserted.id);
+          if (undoErr) throw new Error(`${updErr.message} (the ${insertPayload.hours}h OT entry on ${entry.date} could not be removed: ${undoErr.message})`);
+          throw updErr;
+        }
+      }
+    }
+  };
+
+  const invalidateAfterOtConversion = () => {
+    queryClient.invalidateQueries({ queryKey: ['payrollReport'] });
+    queryClient.invalidateQueries({ queryKey: ['payrollYtdEntries'] });
+    queryClient.invalidateQueries({ queryKey: ['allTimeEntries'] });
+    queryClient.invalidateQueries({ queryKey: ['timeEntries'] });
+  };
+
   const otConvertMutation = useMutation({
     mutationFn: async (args: {
       userId: string;
       date: string;
       allocations: { entry: TimeEntry; hoursToConvert: number }[];
-    }) => {
-      const emp = empRatesByUserId.get(args.userId);
-      const otRateFor = (regularRateType: string): { otRateType: string; otRate: number } => {
-        switch (regularRateType) {
-          case 'Field Time':
-            return { otRateType: 'Field Overtime', otRate: emp?.foRate || 0 };
-          case 'Shop Time':
-          case 'Travel Time':
-          default:
-            return { otRateType: 'Shop Overtime', otRate: emp?.shopOtRate || 0 };
-        }
-      };
+    }) => convertEntriesToOvertime(args.userId, args.allocations),
+    onSuccess: () => {
+      invalidateAfterOtConversion();
+      setOtModalState(null);
+    },
+  });
 
-      for (const { entry, hoursToConvert } of args.allocations) {
-        if (hoursToConvert <= 0) continue;
-        const origHours = Number(entry.hours) || 0;
-        if (hoursToConvert > origHours + 0.0001) {
-          throw new Error(`Cannot convert ${hoursToConvert}h from a ${origHours}h entry`);
-        }
-        const remaining = +(origHours - hoursToConvert).toFixed(2);
-        const { otRateType, otRate } = otRateFor(entry.rate_type || 'Shop Time');
-
-        if (remaining <= 0.0001) {
-          // Entire entry flips to OT — update in place.
-          await supabase
-            .from('time_entries')
-            .update({ rate_type: otRateType, rate: otRate })
-            .eq('id', entry.id);
-        } else {
-          // Split: shrink original, insert new OT row.
-          await supabase
-            .from('time_entries')
-            .update({ hours: remaining })
-            .eq('id', entry.id);
-
-          const { data: src, error: fetchErr } = await supabase
-            .from('time_entries')
-            .select('*')
-            .eq('id', entry.id)
-            .single();
-          if (fetchErr) throw fetchErr;
-
-          const insertPayload: any = { ...src };
-          delete insertPayload.id;
-          delete insertPayload.created_at;
-          delete insertPayload.updated_at;
-          insertPayload.hours = +hoursToConvert.toFixed(2);
-          insertPayload.rate_type = otRateType;
-          insertPayload.rate = otRate;
-          const { error: insErr } = await supabase.from('time_entries').insert(insertPayload);
-          if (insErr) throw insErr;
-        }
+  // One-click reclassification: every owed day for an employee, allocated to the latest entries of the day.
+  const [otReclassifyError, setOtReclassifyError] = useState<string | null>(null);
+  const otReclassifyMutation = useMutation({
+    mutationFn: async (days: OtConvertArgs[]) => {
+      for (const day of days) {
+        await convertEntriesToOvertime(day.userId, autoAllocateOvertime(day.dayEntries, day.owedHours));
       }
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['payrollReport'] });
-      queryClient.invalidateQueries({ queryKey: ['payrollYtdEntries'] });
-      queryClient.invalidateQueries({ queryKey: ['allTimeEntries'] });
-      queryClient.invalidateQueries({ queryKey: ['timeEntries'] });
-      setOtModalState(null);
+    onMutate: () => setOtReclassifyError(null),
+    onSuccess: invalidateAfterOtConversion,
+    onError: (err: Error) => {
+      // Earlier days may already be converted — refresh so the table shows what's left.
+      invalidateAfterOtConversion();
+      setOtReclassifyError(err?.message || 'Failed to reclassify overtime.');
     },
   });
 
@@ -1333,8 +1495,15 @@ export default function Payroll() {
 
   // --- Payroll Breakdown (base pay, benefits, GST, allowances, total payout) ---
   interface PayrollBreakdown {
+    /** Includes doubleTimePremium, backPay and leavePay. */
     basePay: number;
+    doubleTimePremium: number;
+    /** Retroactive rate-change back-pay paid in this run (pay_rate_adjustments). */
+    backPay: number;
+    /** Approved paid leave in the range (leave_days) at the shop rate. */
+    leavePay: number;
     sickPay: number;
+    /** Sum of statHolidays[].total. */
     statHolidayPay: number;
     vacationPay: number;
     cellPhoneAllowance: number;
@@ -1352,7 +1521,8 @@ export default function Payroll() {
     totalPayout: number;
     isContractor: boolean;
     sickPct: number;
-    statPct: number;
+    /** Average day's pay and worked-on-holiday premium per stat holiday in the range (employees only). */
+    statHolidays: StatHolidayPayLine[];
     vacationPct: number;
   }
 
@@ -1401,7 +1571,8 @@ export default function Payroll() {
 
       const basePay = h.internal * shopRate + h.shop * shopRate + h.shopOt * shopOtRate + h.travel * shopRate + h.field * ftRate + h.fieldOt * foRate;
       const sickPct = Number(employee.sick_pay_pct) || 0;
-      const statPct = Number(employee.stat_holiday_pay_pct) || 0;
+      // YTD estimate only (for the CPP/EI caps): stat pay as the province's burden share.
+      const statPct = statHolidayBurdenPct(employee.overtime_jurisdiction, Number(startDate.slice(0, 4))) * 100;
       const vacPct = Number(employee.vacation_pay_pct) || 0;
       const benefits = basePay * (sickPct + statPct + vacPct) / 100
         + (Number(employee.cell_phone_allowance) || 0)
@@ -1409,7 +1580,59 @@ export default function Payroll() {
       map.set(uid, basePay + benefits);
     }
     return map;
-  }, [ytdTimeEntries, allEmployees]);
+  }, [ytdTimeEntries, allEmployees, startDate, statHolidayRows]);
+
+  // Back-pay from retroactive rate changes, paid as an adjustment in this run.
+  const { data: payRateAdjustments = [] } = useQuery({
+    queryKey: ['payRateAdjustments', startDate, endDate],
+    queryFn: () => payRateAdjustmentsService.getForPayPeriod(startDate, endDate),
+    enabled: isAdmin && !isDemoMode,
+  });
+  const payRateAdjustmentsByUser = useMemo(() => {
+    const map = new Map<string, PayRateAdjustment[]>();
+    for (const a of payRateAdjustments) {
+      if (!a.user_id) continue;
+      map.set(a.user_id, [...(map.get(a.user_id) || []), a]);
+    }
+    return map;
+  }, [payRateAdjustments]);
+
+  // Approved time off in the range (leave_days); paid leave is paid at the shop rate.
+  const { data: leaveDays = [] } = useQuery({
+    queryKey: ['leaveDays', 'payroll', startDate, endDate],
+    queryFn: () => leaveDaysService.getForRange(startDate, endDate),
+    enabled: !isDemoMode,
+  });
+  const leaveByUser = useMemo(() => {
+    const map = new Map<string, { paidHours: number; unpaidHours: number; days: LeaveDay[] }>();
+    for (const d of leaveDays) {
+      if (!d.user_id) continue;
+      const agg = map.get(d.user_id) || { paidHours: 0, unpaidHours: 0, days: [] };
+      if (d.is_paid) agg.paidHours += d.hours; else agg.unpaidHours += d.hours;
+      agg.days.push(d);
+      map.set(d.user_id, agg);
+    }
+    return map;
+  }, [leaveDays]);
+
+  const leaveHoursTotals = useMemo(() => {
+    let paid = 0, unpaid = 0;
+    for (const emp of displayedEmployeeHours) {
+      paid += leaveByUser.get(emp.userId)?.paidHours || 0;
+      unpaid += leaveByUser.get(emp.userId)?.unpaidHours || 0;
+    }
+    return { paid, unpaid };
+  }, [displayedEmployeeHours, leaveByUser]);
+
+  const statLookbackByUser = useMemo(() => {
+    const map = new Map<string, StatLookbackEntry[]>();
+    if (!statLookbackStart) return map;
+    for (const e of statLookbackEntries) {
+      const list = map.get(e.user_id);
+      if (list) list.push(e); else map.set(e.user_id, [e]);
+    }
+    return map;
+  }, [statLookbackEntries, statLookbackStart]);
 
   const payrollBreakdownByUser = useMemo(() => {
     const map = new Map<string, PayrollBreakdown>();
@@ -1430,26 +1653,63 @@ export default function Payroll() {
       const ftRate = isPanelShop ? (fieldRate || shopRate) : fieldRate;
       const foRate = isPanelShop ? (fieldOtRate || shopOtRate) : fieldOtRate;
 
-      const basePay =
+      // Double time: OT rate types pay 1.5x, so DT hours already booked at an OT rate get the
+      // extra 0.5x of their base rate (field base when the day's OT was booked as Field Overtime).
+      let doubleTimePremium = 0;
+      const dtDays = classifyOvertimeHours([...(overtimeWeekLeadByUser.get(emp.userId) || []), ...emp.entries], overtimeRuleFor(emp.userId))
+        .filter((c) => c.date >= startDate && c.doubleTime > 0);
+      for (const c of dtDays) {
+        let shopOtBooked = 0, fieldOtBooked = 0;
+        for (const e of emp.entries) {
+          if (e.date !== c.date) continue;
+          if (e.rate_type === 'Shop Overtime') shopOtBooked += Number(e.hours) || 0;
+          else if (e.rate_type === 'Field Overtime') fieldOtBooked += Number(e.hours) || 0;
+        }
+        const dtBooked = Math.min(c.doubleTime, shopOtBooked + fieldOtBooked);
+        const dtBaseRate = fieldOtBooked > 0 ? ftRate : shopRate;
+        doubleTimePremium += dtBooked * dtBaseRate * (DOUBLE_TIME_MULTIPLIER - OVERTIME_MULTIPLIER);
+      }
+
+      const hourlyPay =
         emp.internalHours * shopRate +
         emp.shopTime * shopRate +
         emp.shopOvertime * shopOtRate +
         emp.travelTime * shopRate +
         emp.fieldTime * ftRate +
-        emp.fieldOvertime * foRate;
+        emp.fieldOvertime * foRate +
+        doubleTimePremium;
+      const backPay = (payRateAdjustmentsByUser.get(emp.userId) || []).reduce((sum, a) => sum + a.total_amount, 0);
+      const leavePay = (leaveByUser.get(emp.userId)?.paidHours || 0) * shopRate;
+      const basePay = hourlyPay + backPay + leavePay;
 
       const isContractor = (employee?.employment_type || 'Employee') === 'Contractor';
       const sickPct = Number(employee?.sick_pay_pct) || 0;
-      const statPct = Number(employee?.stat_holiday_pay_pct) || 0;
       const vacationPct = Number(employee?.vacation_pay_pct) || 0;
 
       let sickPay = 0, statHolidayPay = 0, vacationPay = 0, cellPhone = 0, health = 0, gst = 0;
+      let statHolidays: StatHolidayPayLine[] = [];
 
       if (isContractor) {
         gst = basePay * 0.05;
       } else {
+        const holidays = employee ? statHolidaysInRange(employee.overtime_jurisdiction, startDate, endDate) : [];
+        if (holidays.length > 0) {
+          const rates = toPayRates(employee);
+          const priced = [...(statLookbackByUser.get(emp.userId) || []), ...emp.entries].map((e) => ({
+            date: e.date,
+            hours: Number(e.hours) || 0,
+            pay: (Number(e.hours) || 0) * payRateForEntry(rates, { id: '', ...e }, isPanelShop),
+            overtime: !!e.billable && (e.rate_type === 'Shop Overtime' || e.rate_type === 'Field Overtime'),
+          }));
+          statHolidays = computeStatHolidayPay({
+            holidays,
+            entries: priced,
+            hireDate: employee.hire_date,
+            rule: statPayRuleFor(employee.overtime_jurisdiction),
+          });
+          statHolidayPay = statHolidays.reduce((sum, h) => sum + h.total, 0);
+        }
         sickPay = basePay * (sickPct / 100);
-        statHolidayPay = basePay * (statPct / 100);
         vacationPay = basePay * (vacationPct / 100);
         cellPhone = Number(employee?.cell_phone_allowance) || 0;
         health = Number(employee?.health_allowance) || 0;
@@ -1473,6 +1733,9 @@ export default function Payroll() {
 
       map.set(emp.userId, {
         basePay,
+        doubleTimePremium,
+        backPay,
+        leavePay,
         sickPay,
         statHolidayPay,
         vacationPay,
@@ -1491,13 +1754,13 @@ export default function Payroll() {
         totalPayout,
         isContractor,
         sickPct,
-        statPct,
+        statHolidays,
         vacationPct,
       });
     }
 
     return map;
-  }, [allEmployees, employeeHours, reimbursementsByUser, ytdGrossPayByUser]);
+  }, [allEmployees, employeeHours, reimbursementsByUser, ytdGrossPayByUser, overtimeRuleByUserId, overtimeRules, payRateAdjustmentsByUser, leaveByUser, statLookbackByUser, overtimeWeekLeadByUser, startDate, endDate, statHolidayRows]);
 
   // Total Cost = Gross Pay + Employer CPP (matches employee) + Employer EI (1.4x employee) + Reimbursements
   const EMPLOYER_EI_MULTIPLIER = 1.4;
@@ -1538,13 +1801,9 @@ export default function Payroll() {
         return;
       }
       case 'previousPayPeriod': {
-        const period = getCurrentPayPeriod();
-        const start = new Date(period.start + 'T12:00:00');
-        const end = new Date(period.end + 'T12:00:00');
-        start.setDate(start.getDate() - 14);
-        end.setDate(end.getDate() - 14);
-        setStartDate(start.toISOString().split('T')[0]);
-        setEndDate(end.toISOString().split('T')[0]);
+        const period = previousPayrollPeriod();
+        setStartDate(formatYmd(period.start));
+        setEndDate(formatYmd(period.end));
         return;
       }
       case 'thisWeek':
@@ -1699,7 +1958,8 @@ export default function Payroll() {
   // --- CSV export for QuickBooks ---
   // Builds a friendly multi-section sheet: project allocations per employee, then a payroll summary
   // (gross, deductions, net, reimbursements, total payout, allowances) ready for QuickBooks input.
-  const handleExportCsv = () => {
+  // Also captured verbatim as the snapshot when a pay period is closed.
+  const buildPayrollCsv = (): string => {
     const empByUserId = new Map<string, any>();
     if (allEmployees) {
       for (const e of allEmployees as any[]) {
@@ -1762,6 +2022,7 @@ export default function Payroll() {
     pushRow([
       'Employee', 'Email', 'Employment Type',
       'Internal Hrs', 'Shop Hrs', 'Shop OT Hrs', 'Travel Hrs', 'Field Hrs', 'Field OT Hrs', 'Total Hrs',
+      'Paid Leave Hrs', 'Unpaid Leave Hrs',
     ]);
 
     for (const emp of displayedEmployeeHours) {
@@ -1769,6 +2030,7 @@ export default function Payroll() {
       pushRow([
         emp.name, emp.email, employee?.employment_type || 'Employee',
         emp.internalHours, emp.shopTime, emp.shopOvertime, emp.travelTime, emp.fieldTime, emp.fieldOvertime, emp.totalHours,
+        leaveByUser.get(emp.userId)?.paidHours || 0, leaveByUser.get(emp.userId)?.unpaidHours || 0,
       ]);
     }
 
@@ -1788,26 +2050,119 @@ export default function Payroll() {
       }
     }
 
-    const csv = rows.map((r) => r.map(csvEscape).join(',')).join('\r\n');
-    const blob = new Blob(['﻿' + csv], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `payroll_${startDate}_to_${endDate}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    // Section 4: retroactive pay-rate adjustments paid in this run
+    const adjustmentRows = displayedEmployeeHours.flatMap((emp) =>
+      (payRateAdjustmentsByUser.get(emp.userId) || []).flatMap((a) =>
+        a.periods.map((p) => [emp.name, emp.email, a.effective_date, `${p.period_start} to ${p.period_end}`, p.hours, p.paid, p.owed, p.amount] as (string | number)[])
+      )
+    );
+    if (adjustmentRows.length > 0) {
+      blank();
+      pushRow(['Adjustments (retroactive pay-rate changes)']);
+      pushRow(['Employee', 'Email', 'Rate Effective', 'Pay Period', 'Hours', 'Paid', 'Owed', 'Back Pay']);
+      adjustmentRows.forEach(pushRow);
+    }
+
+    // Section 5: stat holiday pay (average day's pay + premium for hours worked on the holiday)
+    const statRows = displayedEmployeeHours.flatMap((emp) =>
+      (payrollBreakdownByUser.get(emp.userId)?.statHolidays || []).map((h) =>
+        [emp.name, emp.email, h.date, h.name, h.eligible ? 'Yes' : h.reason || 'No', h.daysWorked, h.averageDayPay, h.hoursWorked, h.premiumPay, h.total] as (string | number)[]
+      )
+    );
+    if (statRows.length > 0) {
+      blank();
+      pushRow(['Stat Holiday Pay']);
+      pushRow(['Employee', 'Email', 'Date', 'Holiday', 'Eligible', 'Days Worked', 'Avg Day Pay', 'Hrs Worked On Holiday', 'Premium', 'Stat Pay']);
+      statRows.forEach(pushRow);
+    }
+
+    return rows.map((r) => r.map(csvEscape).join(',')).join('\r\n');
   };
 
-  // Payday for selected range (if it's a 14-day period) or current pay period's payday
-  const paydayLabel = getPaydayForRange(startDate, endDate)
-    ?? (() => {
-        const period = getCurrentPayPeriod();
-        const end = new Date(period.end + 'T12:00:00');
-        end.setDate(end.getDate() + 5);
-        return end.toLocaleDateString('en-AU', { weekday: 'long', day: 'numeric', month: 'short', year: 'numeric' });
-      })();
+  // --- Payroll register (versioned record of each export) ---
+  /** Per-employee register for the range; `excludeContractorsFlag` lets a diff match the saved export's filter. */
+  const buildPayrollRegister = useCallback((excludeContractorsFlag: boolean): PayrollRegisterData => {
+    const empByUserId = new Map<string, any>();
+    for (const e of (allEmployees || []) as any[]) {
+      if (e.user_id) empByUserId.set(e.user_id, e);
+    }
+    const employees = employeeHours
+      .filter((emp) => !excludeContractorsFlag || !contractorByUserId.get(emp.userId))
+      .map((emp): RegisterEmployee => {
+        const b = payrollBreakdownByUser.get(emp.userId);
+        const reimb = reimbursementsByUser.get(emp.userId);
+        return {
+          userId: emp.userId,
+          name: emp.name,
+          email: emp.email,
+          employmentType: empByUserId.get(emp.userId)?.employment_type || 'Employee',
+          hours: {
+            internal: emp.internalHours,
+            shop: emp.shopTime,
+            shopOt: emp.shopOvertime,
+            travel: emp.travelTime,
+            field: emp.fieldTime,
+            fieldOt: emp.fieldOvertime,
+            total: emp.totalHours,
+            leave: leaveByUser.get(emp.userId)?.paidHours || 0,
+          },
+          amounts: {
+            basePay: b?.basePay || 0,
+            allowances: (b?.cellPhoneAllowance || 0) + (b?.healthAllowance || 0),
+            grossPay: b?.grossPay || 0,
+            netPay: b?.netPay || 0,
+            reimbursements: b?.reimbursements ?? reimb?.total ?? 0,
+            totalPayout: b?.totalPayout || 0,
+          },
+          entries: emp.entries.map((entry) => ({
+            id: entry.id,
+            date: entry.date,
+            hours: Number(entry.hours) || 0,
+            rateType: entry.rate_type || 'Shop Time',
+            billable: !!entry.billable,
+            project: formatProjectLabel(entry.project),
+          })),
+          reimbursementLines: keyReimbursementLines(reimb?.lines || []),
+        };
+      });
+    return { excludesContractors: excludeContractorsFlag, employees };
+  }, [allEmployees, employeeHours, contractorByUserId, payrollBreakdownByUser, reimbursementsByUser, leaveByUser]);
+
+  const { data: payrollRegisters = [] } = useQuery({
+    queryKey: ['payrollRegisters', startDate, endDate],
+    queryFn: () => payrollRegistersService.getForPeriod(startDate, endDate),
+    enabled: isAdmin,
+  });
+  const [registerModalOpen, setRegisterModalOpen] = useState<boolean>(false);
+
+  /** Employees whose payroll moved since the latest saved export of this range. */
+  const changesSinceLastExport = useMemo(() => {
+    const latest = payrollRegisters[0];
+    if (!latest || isLoading) return null;
+    return diffPayrollRegisters(latest.register, buildPayrollRegister(latest.register.excludesContractors));
+  }, [payrollRegisters, buildPayrollRegister, isLoading]);
+
+  // Every export is saved as the next register version first, so the file handed to QuickBooks
+  // always matches a stored record.
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const csv = buildPayrollCsv();
+      await payrollRegistersService.create(startDate, endDate, buildPayrollRegister(excludeContractors), csv);
+      return csv;
+    },
+    onSuccess: (csv) => {
+      queryClient.invalidateQueries({ queryKey: ['payrollRegisters'] });
+      downloadPayrollCsv(csv, `payroll_${startDate}_to_${endDate}.csv`);
+    },
+  });
+
+  const handleExportCsv = () => exportMutation.mutate();
+
+  const handleDownloadClosureSnapshot = (c: PayPeriodClosure) =>
+    downloadPayrollCsv(c.csv_snapshot, `payroll_${c.period_start}_to_${c.period_end}_closed_${c.closed_at.slice(0, 10)}.csv`);
+
+  // Payday for selected range (if it's exactly one pay period) or current pay period's payday
+  const paydayLabel = getPaydayForRange(startDate, endDate) ?? formatPayday(currentPayrollPeriod().payday);
 
   return (
     <div className="payroll-page">
@@ -1887,14 +2242,9 @@ export default function Payroll() {
             {(() => {
               // Compute payday dates for the two pay-period presets so the buttons read
               // "Pay 1 May" / "Pay 15 May" instead of the abstract "Previous/Current Pay Period".
-              const period = getCurrentPayPeriod();
-              const fmtPay = (offsetDays: number) => {
-                const d = new Date(period.end + 'T12:00:00');
-                d.setDate(d.getDate() + offsetDays + 5);
-                return d.toLocaleDateString('en-AU', { day: 'numeric', month: 'short' });
-              };
-              const upcomingPayday = fmtPay(0);    // current period's payday = next payroll
-              const lastPaidPayday = fmtPay(-14);  // previous period's payday = already paid
+              const fmtPay = (d: Date) => d.toLocaleDateString('en-AU', { day: 'numeric', month: 'short' });
+              const upcomingPayday = fmtPay(currentPayrollPeriod().payday); // current period's payday = next payroll
+              const lastPaidPayday = fmtPay(previousPayrollPeriod().payday);    // previous period's payday = already paid
               return PRESET_KEYS.map((key) => {
               const label =
                 key === 'currentPayPeriod' ? `Pay ${upcomingPayday}` :
@@ -1950,20 +2300,108 @@ export default function Payroll() {
               Exclude contractors
             </label>
 
+            {/* Pay schedule and overtime rules editors */}
+            <button
+              type="button"
+              onClick={() => setPaySchedulesOpen(true)}
+              className="payroll-action-btn payroll-action-spacer"
+              title="Pay frequency, payday and schedule history"
+            >
+              Pay schedule
+            </button>
+            <button
+              type="button"
+              onClick={() => setOvertimeRulesOpen(true)}
+              className="payroll-action-btn"
+              title="Overtime thresholds per jurisdiction and employee class"
+            >
+              Overtime rules
+            </button>
+            <button
+              type="button"
+              onClick={() => setStatHolidaysOpen(true)}
+              className="payroll-action-btn"
+              title="Provincial stat holiday calendar used for stat pay"
+            >
+              Stat holidays
+            </button>
+
             {/* Export to QuickBooks-friendly CSV */}
             <button
               type="button"
               onClick={handleExportCsv}
-              className="payroll-action-btn payroll-action-spacer"
-              title="Download a CSV with project allocations, rates, and payroll inputs for QuickBooks"
-              disabled={displayedEmployeeHours.length === 0}
+              className="payroll-action-btn"
+              title="Download a CSV with project allocations, rates, and payroll inputs for QuickBooks (saved as a new register version)"
+              disabled={displayedEmployeeHours.length === 0 || exportMutation.isPending}
             >
-              <span aria-hidden>⬇</span> Export CSV
+              <span aria-hidden>⬇</span> {exportMutation.isPending ? 'Saving…' : 'Export CSV'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setRegisterModalOpen(true)}
+              className="payroll-action-btn"
+              title="Saved exports for this range and what changed since the last one"
+              disabled={payrollRegisters.length === 0}
+            >
+              Register{payrollRegisters.length > 0 ? ` v${payrollRegisters[0].version}` : ''}
+              {changesSinceLastExport && changesSinceLastExport.length > 0 && (
+                <span className="payroll-pill is-owed" style={{ marginLeft: '6px' }}>
+                  {changesSinceLastExport.length} changed
+                </span>
+              )}
+            </button>
+
+            {/* Close-out: snapshot the export and lock the period's entries and expenses */}
+            <button
+              type="button"
+              onClick={() => setClosureModalOpen(true)}
+              className={`payroll-action-btn${activeClosure ? '' : ' is-primary'}`}
+              title={rangeIsOnePayPeriod ? 'Lock this pay period and keep a snapshot of the payroll export' : 'Select a single pay period to close it'}
+              disabled={!rangeIsOnePayPeriod}
+            >
+              {activeClosure && activeClosure.period_start === startDate && activeClosure.period_end === endDate ? '🔓 Reopen period' : '🔒 Close period'}
             </button>
           </div>
         )}
       </div>
 
+      {activeClosure && (
+        <div className="ionex-banner is-warning">
+          <div className="ionex-banner-title">
+            <span aria-hidden>🔒</span> Pay period closed
+          </div>
+          <div style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>
+            {formatPayPeriodRangeLabel(parseYmdAtNoon(activeClosure.period_start), parseYmdAtNoon(activeClosure.period_end))} was closed
+            {activeClosure.closer ? ` by ${[activeClosure.closer.first_name, activeClosure.closer.last_name].filter(Boolean).join(' ') || activeClosure.closer.email}` : ''}.
+            Time entries and expenses in it are read-only until the period is reopened.
+          </div>
+          <button type="button" className="ionex-banner-button" onClick={() => handleDownloadClosureSnapshot(activeClosure)}>
+            <span aria-hidden>⬇</span> Download snapshot CSV
+          </button>
+        </div>
+      )}
+
+      {jurisdictionsWithoutOvertimeRule.size > 0 && (
+        <div className="ionex-banner is-warning">
+          <div className="ionex-banner-title">
+            <span aria-hidden>⚠</span> No overtime rule for {[...jurisdictionsWithoutOvertimeRule.keys()].join(', ')}
+          </div>
+          <div style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>
+            {[...jurisdictionsWithoutOvertimeRule.entries()].map(([jur, count]) => `${count} employee${count === 1 ? '' : 's'} in ${jur}`).join(', ')}
+            {' '}{[...jurisdictionsWithoutOvertimeRule.values()].reduce((a, b) => a + b, 0) === 1 ? 'is' : 'are'} paid overtime under the {DEFAULT_OVERTIME_RULE.name} default until a rule is added.
+          </div>
+          <button type="button" className="ionex-banner-button" onClick={() => setOvertimeRulesOpen(true)}>
+            Overtime rules
+          </button>
+        </div>
+      )}
+
+      {exportMutation.error && (
+        <div style={{ marginBottom: '16px', padding: '10px', borderRadius: '6px', backgroundColor: 'rgba(220,53,69,0.10)', color: 'var(--error-color)', fontSize: '12px' }}>
+          Export not saved: {(exportMutation.error as Error).message || 'failed to save the payroll register.'} Nothing was downloaded.
+        </div>
+      )}
+
       {/* Loading / Error States */}
       {error ? (
         <div className="ionex-status-card is-error">
@@ -2001,6 +2439,15 @@ export default function Payroll() {
               <div className="payroll-summary-value">${grandTotalReimbursements.toFixed(2)}</div>
               <div className="payroll-summary-hint">Receipts + ticket expenses for this period</div>
             </div>
+            {leaveHoursTotals.paid + leaveHoursTotals.unpaid > 0 && (
+              <div className="payroll-summary-card" style={{ ['--accent' as string]: '#4ecdc4' } as React.CSSProperties}>
+                <div className="payroll-summary-eyebrow">Leave</div>
+                <div className="payroll-summary-value">{(leaveHoursTotals.paid + leaveHoursTotals.unpaid).toFixed(2)}h</div>
+                <div className="payroll-summary-hint">
+                  {leaveHoursTotals.paid.toFixed(2)}h paid · {leaveHoursTotals.unpaid.toFixed(2)}h unpaid
+                </div>
+              </div>
+            )}
             {isAdmin && (
               <div className="payroll-summary-card" style={{ ['--accent' as string]: '#0ea5e9' } as React.CSSProperties}>
                 <div className="payroll-summary-eyebrow">Employees on payroll</div>
@@ -2131,7 +2578,9 @@ export default function Payroll() {
                           className={`is-numeric${canCopy ? ' payroll-copyable' : ''}${isCopied ? ' is-copied' : ''}`}
                           style={{ fontWeight: 700 }}
                           onClick={canCopy ? () => copyCell(totalVal, totalKey) : undefined}
-                          title={canCopy ? `Click to copy ${totalVal}` : undefined}
+                          title={canCopy
+                            ? `Click to copy ${totalVal}${(breakdown?.doubleTimePremium ?? 0) > 0 ? ` · includes $${breakdown!.doubleTimePremium.toFixed(2)} double-time premium` : ''}${(breakdown?.backPay ?? 0) !== 0 ? ` · includes $${breakdown!.backPay.toFixed(2)} retro pay` : ''}${(breakdown?.leavePay ?? 0) > 0 ? ` · includes $${breakdown!.leavePay.toFixed(2)} paid leave` : ''}`
+                            : undefined}
                         >
                           {totalVal}
                         </td>
@@ -2145,9 +2594,80 @@ export default function Payroll() {
                           employeeName={emp.name}
                           userId={emp.userId}
                           entries={emp.entries}
+                          weekLeadEntries={overtimeWeekLeadByUser.get(emp.userId)}
                           isContractor={!!breakdown?.isContractor}
+                          overtimeRule={overtimeRuleFor(emp.userId)}
                           onConvertOt={(args) => setOtModalState(args)}
+                          onReclassifyAll={(days) => otReclassifyMutation.mutate(days)}
+                          isReclassifying={otReclassifyMutation.isPending && otReclassifyMutation.variables?.[0]?.userId === emp.userId}
                         />
+                        {otReclassifyError && otReclassifyMutation.variables?.[0]?.userId === emp.userId && (
+                          <div style={{ margin: '0 12px 12px', padding: '10px', borderRadius: '6px', backgroundColor: 'rgba(220,53,69,0.10)', color: 'var(--error-color)', fontSize: '12px' }}>
+                            {otReclassifyError}
+                          </div>
+                        )}
+                        {(payRateAdjustmentsByUser.get(emp.userId) || []).length > 0 && (
+                          <div style={{ margin: '0 12px 12px' }}>
+                            <div className="payroll-breakdown-eyebrow">Adjustments · retro pay</div>
+                            <table className="payroll-mini-table">
+                              <tbody>
+                                {(payRateAdjustmentsByUser.get(emp.userId) || []).flatMap((a) =>
+                                  a.periods.map((p) => (
+                                    <tr key={`${a.id}-${p.period_start}`}>
+                                      <td>Rate change effective {a.effective_date}</td>
+                                      <td className="payroll-muted">{p.period_start} – {p.period_end} · {p.hours.toFixed(2)}h</td>
+                                      <td className="payroll-muted" style={{ textAlign: 'right' }}>${p.paid.toFixed(2)} paid → ${p.owed.toFixed(2)}</td>
+                                      <td style={{ textAlign: 'right', fontWeight: 600 }}>{p.amount < 0 ? '−' : '+'}${Math.abs(p.amount).toFixed(2)}</td>
+                                    </tr>
+                                  ))
+                                )}
+                              </tbody>
+                            </table>
+                          </div>
+                        )}
+                        {(breakdown?.statHolidays || []).length > 0 && (
+                          <div style={{ margin: '0 12px 12px' }}>
+                            <div className="payroll-breakdown-eyebrow">Stat holidays · average day's pay</div>
+                            <table className="payroll-mini-table">
+                              <tbody>
+                                {breakdown!.statHolidays.map((h) => (
+                                  <tr key={h.date}>
+                                    <td>{h.date} · {h.name}</td>
+                                    <td className="payroll-muted">
+                                      {h.eligible
+                                        ? `$${h.averageDayPay.toFixed(2)} avg day (${h.daysWorked} days worked)${h.hoursWorked > 0 ? ` · ${h.hoursWorked.toFixed(2)}h worked, +$${h.premiumPay.toFixed(2)} premium` : ''}`
+                                        : h.reason}
+                                    </td>
+                                    <td style={{ textAlign: 'right' }}>
+                                      {h.eligible
+                                        ? <span style={{ fontWeight: 600 }}>${h.total.toFixed(2)}</span>
+                                        : <span className="payroll-pill is-muted">Not eligible</span>}
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </div>
+                        )}
+                        {(leaveByUser.get(emp.userId)?.days || []).length > 0 && (
+                          <div style={{ margin: '0 12px 12px' }}>
+                            <div className="payroll-breakdown-eyebrow">Leave · approved time off</div>
+                            <table className="payroll-mini-table">
+                              <tbody>
+                                {leaveByUser.get(emp.userId)!.days.map((d) => (
+                                  <tr key={d.id}>
+                                    <td>{d.date}</td>
+                                    <td>{LEAVE_TYPE_LABELS[d.leave_type]}</td>
+                                    <td style={{ textAlign: 'right' }}>{d.hours.toFixed(2)}h</td>
+                                    <td style={{ textAlign: 'right' }}>
+                                      <span className={d.is_paid ? 'payroll-pill is-owed' : 'payroll-pill is-muted'}>{d.is_paid ? 'Paid' : 'Unpaid'}</span>
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </div>
+                        )}
                       </td>
                     </tr>
                   )}
@@ -2306,6 +2826,36 @@ export default function Payroll() {
         </div>
       )}
 
+      {paySchedulesOpen && (
+        <PaySchedulesModal schedules={paySchedules || []} onClose={() => setPaySchedulesOpen(false)} />
+      )}
+
+      {statHolidaysOpen && <StatHolidaysModal onClose={() => setStatHolidaysOpen(false)} />}
+
+      {registerModalOpen && (
+        <PayrollRegisterModal
+          registers={payrollRegisters}
+          buildLiveRegister={buildPayrollRegister}
+          onDownload={(r) => downloadPayrollCsv(r.csv, `payroll_${r.period_start}_to_${r.period_end}_v${r.version}.csv`)}
+          onClose={() => setRegisterModalOpen(false)}
+        />
+      )}
+
+      {closureModalOpen && (
+        <PayPeriodClosureModal
+          periodStart={startDate}
+          periodEnd={endDate}
+          closures={payPeriodClosures}
+          buildCsv={buildPayrollCsv}
+          onDownloadSnapshot={handleDownloadClosureSnapshot}
+          onClose={() => setClosureModalOpen(false)}
+        />
+      )}
+
+      {overtimeRulesOpen && (
+        <OvertimeRulesModal rules={overtimeRules || []} onClose={() => setOvertimeRulesOpen(false)} />
+      )}
+
       {/* OT Allocation Modal — admin picks which entries on a flagged day flip to OT rate_type */}
       {otModalState && (() => {
         const allocated = Object.values(otAllocations).reduce((s, v) => s + (Number(v) || 0), 0);
@@ -2414,6 +2964,21 @@ export default function Payroll() {
                   )}
                 </div>
                 <div style={{ display: 'flex', gap: '8px' }}>
+                  <button
+                    type="button"
+                    className="payroll-action-btn"
+                    onClick={() =>
+                      setOtAllocations(
+                        Object.fromEntries(
+                          autoAllocateOvertime(otModalState.dayEntries, target).map((a) => [a.entry.id, a.hoursToConvert])
+                        )
+                      )
+                    }
+                    disabled={otConvertMutation.isPending}
+                    title="Allocate the owed hours to the latest entries of the day"
+                  >
+                    Auto-fill
+                  </button>
                   <button
                     type="button"
                     className="payroll-action-btn"
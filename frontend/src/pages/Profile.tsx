@@ -5,6 +5,8 @@ import { useAuth } from '../context/AuthContext';
 import { useDemoMode } from '../context/DemoModeContext';
 import { useQueryClient } from '@tanstack/react-query';
 import { usersService, employeesService, serviceTicketsService } from '../services/supabaseServices';
+import { quickbooksService } from '../services/backendServices';
+import TimeOffSection from '../components/TimeOffSection';
 
 // Common timezone options
 const TIMEZONE_OPTIONS = [
@@ -35,6 +37,9 @@ interface ProfileData {
   timezone: string;
   dateFormat: string;
   timeFormat: string;
+  /** Hours before a running timer prompts; '' = never. */
+  timerMaxHours: string;
+  timerMidnightCheck: boolean;
   createdAt?: string;
 }
 
@@ -58,6 +63,8 @@ export default function Profile() {
     timezone: 'America/Edmonton',
     dateFormat: 'MM/DD/YYYY',
     timeFormat: '12h',
+    timerMaxHours: '10',
+    timerMidnightCheck: true,
   });
   
   // Password form state
@@ -86,6 +93,44 @@ export default function Profile() {
     enabled: isAdmin === true,
   });
 
+  // QuickBooks Online connection (backend-held tokens). ?qbo=connected|error is set by the OAuth callback redirect.
+  const [qboMessage, setQboMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [qboBusy, setQboBusy] = useState(false);
+  const { data: qboStatus, error: qboStatusError, refetch: refetchQboStatus } = useQuery({
+    queryKey: ['quickbooksStatus'],
+    queryFn: () => quickbooksService.getStatus(),
+    enabled: isAdmin === true,
+    retry: false,
+  });
+
+  useEffect(() => {
+    const qbo = searchParams.get('qbo');
+    if (!qbo) return;
+    if (qbo === 'connected') {
+      setQboMessage({ type: 'success', text: 'QuickBooks Online connected.' });
+    } else {
+      setQboMessage({ type: 'error', text: searchParams.get('message') || 'QuickBooks connection failed.' });
+    }
+    const next = new URLSearchParams(searchParams);
+    next.delete('qbo');
+    next.delete('message');
+    setSearchParams(next, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  const runQboAction = async (action: () => Promise<unknown>, successText?: string) => {
+    setQboMessage(null);
+    setQboBusy(true);
+    try {
+      await action();
+      if (successText) setQboMessage({ type: 'success', text: successText });
+      await refetchQboStatus();
+    } catch (err) {
+      setQboMessage({ type: 'error', text: err instanceof Error ? err.message : 'QuickBooks request failed.' });
+    } finally {
+      setQboBusy(false);
+    }
+  };
+
   // Load user profile data
   useEffect(() => {
     const loadProfile = async () => {
@@ -100,6 +145,8 @@ export default function Profile() {
           timezone: data.timezone || 'America/Edmonton',
           dateFormat: data.date_format || 'MM/DD/YYYY',
           timeFormat: data.time_format || '12h',
+          timerMaxHours: data.timer_max_hours == null ? '' : String(Number(data.timer_max_hours)),
+          timerMidnightCheck: data.timer_midnight_check !== false,
           createdAt: data.created_at,
         });
       } catch (error) {
@@ -112,6 +159,8 @@ export default function Profile() {
           timezone: 'America/Edmonton',
           dateFormat: 'MM/DD/YYYY',
           timeFormat: '12h',
+          timerMaxHours: '10',
+          timerMidnightCheck: true,
         });
       } finally {
         setIsLoadingProfile(false);
@@ -133,11 +182,14 @@ export default function Profile() {
         timezone: data.timezone,
         date_format: data.dateFormat,
         time_format: data.timeFormat,
+        timer_max_hours: data.timerMaxHours.trim() === '' ? null : Number(data.timerMaxHours),
+        timer_midnight_check: data.timerMidnightCheck,
       });
 
       return data;
     },
     onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['userProfile'] });
       updateUser({
         firstName: data.firstName,
         lastName: data.lastName,
@@ -187,6 +239,11 @@ export default function Profile() {
     if (!profileData.lastName.trim()) {
       errors.lastName = 'Last name is required';
     }
+
+    const maxHours = Number(profileData.timerMaxHours);
+    if (profileData.timerMaxHours.trim() !== '' && (!Number.isFinite(maxHours) || maxHours <= 0 || maxHours > 24)) {
+      errors.timerMaxHours = 'Enter hours between 0 and 24, or leave blank';
+    }
     
     setProfileErrors(errors);
     return Object.keys(errors).length === 0;
@@ -433,6 +490,38 @@ export default function Profile() {
               </div>
             </div>
           </div>
+
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '16px', marginBottom: '20px' }}>
+            <div>
+              <label style={labelStyle}>Ask About Timers Running Longer Than (hours)</label>
+              <input
+                type="number"
+                min="0.5"
+                max="24"
+                step="0.5"
+                value={profileData.timerMaxHours}
+                onChange={(e) => setProfileData({ ...profileData, timerMaxHours: e.target.value })}
+                style={profileErrors.timerMaxHours ? errorInputStyle : inputStyle}
+                placeholder="Never"
+              />
+              {profileErrors.timerMaxHours && <div style={errorTextStyle}>{profileErrors.timerMaxHours}</div>}
+            </div>
+
+            <div style={{ gridColumn: 'span 2' }}>
+              <label style={labelStyle}>Timers Left Running Overnight</label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer', marginTop: '8px' }}>
+                <input
+                  type="checkbox"
+                  checked={profileData.timerMidnightCheck}
+                  onChange={(e) => setProfileData({ ...profileData, timerMidnightCheck: e.target.checked })}
+                  style={{ accentColor: '#4ecdc4' }}
+                />
+                <span style={{ fontSize: '14px', color: 'var(--text-primary)' }}>
+                  Ask me to trim or split a timer that is still running after midnight
+                </span>
+              </label>
+            </div>
+          </div>
           
           <button
             type="submit"
@@ -599,6 +688,84 @@ export default function Profile() {
         </div>
       </div>
 
+      {/* Time off: balances, requests and (admins) approvals */}
+      {!isDemoMode && (
+        <TimeOffSection
+          isAdmin={isAdmin}
+          cardStyle={cardStyle}
+          sectionTitleStyle={sectionTitleStyle}
+          labelStyle={labelStyle}
+          inputStyle={inputStyle}
+        />
+      )}
+
+      {/* QuickBooks Online connection - Admin only */}
+      {isAdmin && (
+        <div style={cardStyle}>
+          <h3 style={sectionTitleStyle}>
+            <span style={{ fontSize: '20px' }}>📗</span>
+            QuickBooks Online
+          </h3>
+          <p style={{ color: 'var(--text-secondary)', fontSize: '14px', marginBottom: '16px' }}>
+            Connect the company QuickBooks file so invoiced batches on the Invoices page can be pushed as QuickBooks invoices (one line per rate code and expense).
+          </p>
+          {qboMessage && (
+            <div style={{
+              padding: '12px 16px',
+              borderRadius: '8px',
+              marginBottom: '16px',
+              backgroundColor: qboMessage.type === 'success' ? 'rgba(78, 205, 196, 0.1)' : 'rgba(255, 71, 87, 0.1)',
+              border: `1px solid ${qboMessage.type === 'success' ? '#4ecdc4' : '#ff4757'}`,
+              color: qboMessage.type === 'success' ? '#4ecdc4' : '#ff4757',
+            }}>
+              {qboMessage.text}
+            </div>
+          )}
+          <div style={{ fontSize: '14px', marginBottom: '16px', color: 'var(--text-primary)' }}>
+            {qboStatusError
+              ? <span style={{ color: '#ff4757' }}>{qboStatusError instanceof Error ? qboStatusError.message : 'Cannot load QuickBooks status.'}</span>
+              : !qboStatus
+              ? <span style={{ color: 'var(--text-secondary)' }}>Checking connection…</span>
+              : qboStatus.connected
+              ? <>Connected to company <strong>{qboStatus.realmId}</strong>{qboStatus.expiresAt && <span style={{ color: 'var(--text-secondary)' }}> · access token valid until {new Date(qboStatus.expiresAt).toLocaleString()}</span>}</>
+              : <span style={{ color: 'var(--text-secondary)' }}>Not connected.</span>}
+          </div>
+          <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap' }}>
+            <button
+              type="button"
+              className="button button-primary"
+              disabled={qboBusy}
+              onClick={() => runQboAction(() => quickbooksService.connect())}
+            >
+              {qboStatus?.connected ? 'Reconnect QuickBooks' : 'Connect QuickBooks'}
+            </button>
+            {qboStatus?.connected && (
+              <>
+                <button
+                  type="button"
+                  className="button button-secondary"
+                  disabled={qboBusy}
+                  onClick={() => runQboAction(() => quickbooksService.refresh(), 'QuickBooks token refreshed.')}
+                >
+                  Refresh token
+                </button>
+                <button
+                  type="button"
+                  className="button button-secondary"
+                  disabled={qboBusy}
+                  onClick={() => {
+                    if (!window.confirm('Disconnect QuickBooks? Invoices can no longer be pushed until it is reconnected.')) return;
+                    runQboAction(() => quickbooksService.disconnect(), 'QuickBooks disconnected.');
+                  }}
+                >
+                  Disconnect
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Clear stuck rejected notification - Admin only */}
       {isAdmin && (
         <div style={cardStyle}>
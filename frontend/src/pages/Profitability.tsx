@@ -2,9 +2,10 @@ import { useState, useMemo, useRef, useEffect, useCallback } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '../context/AuthContext';
 import { useDemoMode } from '../context/DemoModeContext';
-import { projectsService, employeesService, timeEntriesService, payRateHistoryService } from '../services/supabaseServices';
+import { projectsService, employeesService, timeEntriesService, payRateHistoryService, projectBudgetAlertsService, costCodesService, projectBillingService, taxCodesService } from '../services/supabaseServices';
 import { supabase } from '../lib/supabaseClient';
 import { calculateBurden, applyGst } from '../utils/employeeReports';
+import { EMPTY_TAX_SETTINGS, resolveExpenseTaxCode, resolveTicketTaxCode, TaxCode, taxCodeRate } from '../utils/taxCodes';
 import { ticketExpenseCostForMargin } from '../utils/ticketExpenseReimbursement';
 import {
   buildSharedFieldsMapForProject,
@@ -12,6 +13,21 @@ import {
   dbServiceTicketMatchKeys,
 } from '../utils/serviceTickets';
 import { ReportMethodologyCollapsible } from '../components/ReportMethodologyCollapsible';
+import { phaseBreakdown } from '../utils/costCodes';
+import { BILLING_TYPE_LABELS, BillingType, billingTypeOf, contractLabourRevenue } from '../utils/projectBilling';
+import {
+  emptyHoursByCategory,
+  forecastHours,
+  HOUR_CATEGORIES,
+  HOUR_CATEGORY_LABELS,
+  HourBudget,
+  hourBudgetFromProject,
+  hourBurnDown,
+  hourCategoryForRateType,
+  HoursByCategory,
+  pendingHourBudgetAlerts,
+} from '../utils/hourBudgets';
+import { ComposedChart, Bar, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, Legend, ReferenceLine } from 'recharts';
 
 interface ProjectFinancials {
   projectId: string;
@@ -23,10 +39,12 @@ interface ProjectFinancials {
   isCompleted: boolean;
   budget: number | null;
   revenue: number;
-  /** Labor-only revenue (service ticket total_amount), before expense billouts */
+  /** Labor-only revenue (service ticket total_amount, or the contract for fixed-price / retainer), before expense billouts */
   laborRevenuePreGst: number;
   /** Customer-billed expense lines (qty × rate) on included tickets, pre-GST */
   expenseBilledPreGst: number;
+  /** Tax on expenseBilledPreGst from the project's (or expense type's) tax code */
+  expenseTax: number;
   /** Revenue from approved/exported tickets only */
   revenueApproved: number;
   /** Revenue from all tickets including draft/submitted/rejected */
@@ -37,11 +55,18 @@ interface ProjectFinancials {
   profit: number;
   margin: number;
   totalHours: number;
+  /** Hour budget from projects.budget_hours*; null when the project has none */
+  hourBudget: HourBudget | null;
+  /** Logged hours by rate category (Field / Travel / Shop) */
+  hoursByCategory: HoursByCategory;
+  /** Project end date, for the forecast at completion */
+  endDate: string | null;
   ticketCount: number;
+  billingType: BillingType;
 }
 
 export default function Profitability() {
-  const { isAdmin } = useAuth();
+  const { user, isAdmin } = useAuth();
   const { isDemoMode } = useDemoMode();
   const [expandedProjectId, setExpandedProjectId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
@@ -80,6 +105,18 @@ export default function Profitability() {
     queryFn: () => projectsService.getAll(showInactive),
   });
 
+  const { data: taxSettings = EMPTY_TAX_SETTINGS } = useQuery({
+    queryKey: ['taxSettings'],
+    queryFn: () => taxCodesService.getSettings(),
+    enabled: isAdmin,
+  });
+
+  /** Tax code per project (project → customer → default), for GST-inclusive revenue. */
+  const taxCodeByProjectId = useMemo(
+    () => new Map<string, TaxCode>((projects as any[]).map((p: any) => [p.id, resolveTicketTaxCode(taxSettings, p, p.customer)])),
+    [projects, taxSettings]
+  );
+
   const { data: employees = [] } = useQuery({
     queryKey: ['employees'],
     queryFn: () => employeesService.getAll(),
@@ -114,7 +151,7 @@ export default function Profitability() {
       const { data, error } = await supabase
         .from(expTable)
         .select(`
-          id, service_ticket_id, expense_type, description, quantity, rate, actual_cost, needs_reimbursement,
+          id, service_ticket_id, expense_type, description, quantity, rate, actual_cost, needs_reimbursement, cost_code_id,
           service_tickets!inner(id, project_id, user_id, workflow_status, is_discarded)
         `);
       if (error) throw error;
@@ -135,6 +172,18 @@ export default function Profitability() {
     enabled: isAdmin,
   });
 
+  const { data: costCodes = [] } = useQuery({
+    queryKey: ['projectCostCodes'],
+    queryFn: () => costCodesService.getAll(),
+    enabled: isAdmin,
+  });
+
+  const { data: billingClaims = [] } = useQuery({
+    queryKey: ['projectBillingClaims'],
+    queryFn: () => projectBillingService.getClaims(),
+    enabled: isAdmin,
+  });
+
   const empByUserId = useMemo(() => {
     const map = new Map<string, any>();
     for (const emp of employees as any[]) {
@@ -183,6 +232,22 @@ export default function Profitability() {
     return match;
   };
 
+  // Burdened hourly pay for a time entry, at the rates in effect on its date
+  const loadedPayRate = (entry: any): number => {
+    const emp = empByUserId.get(entry.user_id);
+    if (!emp) return 0;
+    const rates = getRatesForDate(emp, entry.date);
+    const rateType = entry.rate_type || 'Shop Time';
+    let payRate = 0;
+    if (rateType === 'Internal') payRate = Number(rates.internal_rate) || Number(rates.shop_pay_rate) || 0;
+    else if (rateType === 'Shop Time') payRate = Number(rates.shop_pay_rate) || 0;
+    else if (rateType === 'Field Time') payRate = Number(rates.field_pay_rate) || 0;
+    else if (rateType === 'Travel Time') payRate = Number(rates.shop_pay_rate) || 0;
+    else if (rateType === 'Shop Overtime') payRate = Number(rates.shop_ot_pay_rate) || 0;
+    else if (rateType === 'Field Overtime') payRate = Number(rates.field_ot_pay_rate) || 0;
+    return payRate * (1 + calculateBurden(emp));
+  };
+
   const projectFinancials: ProjectFinancials[] = useMemo(() => {
     if (!projects.length) return [];
 
@@ -190,6 +255,7 @@ export default function Profitability() {
     const revenueAllTicketsByProject = new Map<string, number>();
     const ticketCountByProject = new Map<string, number>();
     const NON_REVENUE_STATUSES = new Set(['draft', 'submitted', 'rejected']);
+    const revenueTickets: any[] = [];
     for (const t of serviceTickets as any[]) {
       if (!t.project_id) continue;
       // Skip empty placeholder records (auto-created drafts with no data)
@@ -200,15 +266,20 @@ export default function Profitability() {
       const amt = Number(t.total_amount) || 0;
       revenueAllTicketsByProject.set(t.project_id, (revenueAllTicketsByProject.get(t.project_id) || 0) + amt);
       if (NON_REVENUE_STATUSES.has(t.workflow_status)) continue;
+      revenueTickets.push(t);
       revenueByProject.set(t.project_id, (revenueByProject.get(t.project_id) || 0) + amt);
     }
 
     const laborByProject = new Map<string, number>();
     const hoursByProject = new Map<string, number>();
+    const hoursByCategoryByProject = new Map<string, HoursByCategory>();
     for (const entry of allTimeEntries as any[]) {
       if (!entry.project_id || !entry.hours) continue;
       const hours = Number(entry.hours) || 0;
       hoursByProject.set(entry.project_id, (hoursByProject.get(entry.project_id) || 0) + hours);
+      const byCategory = hoursByCategoryByProject.get(entry.project_id) || emptyHoursByCategory();
+      byCategory[hourCategoryForRateType(entry.rate_type)] += hours;
+      hoursByCategoryByProject.set(entry.project_id, byCategory);
 
       const emp = empByUserId.get(entry.user_id);
       let payRate = 0;
@@ -230,21 +301,30 @@ export default function Profitability() {
     const expenseByProject = new Map<string, number>();
     /** Customer-billed totals from ticket expense lines (same tickets as ticketExpenses query). */
     const expenseBilledByProject = new Map<string, number>();
+    const expenseTaxByProject = new Map<string, number>();
     for (const exp of ticketExpenses as any[]) {
       const ticket = exp.service_tickets;
       if (!ticket?.project_id) continue;
       const billed = (Number(exp.quantity) || 0) * (Number(exp.rate) || 0);
+      const projectCode = taxCodeByProjectId.get(ticket.project_id) ?? resolveTicketTaxCode(taxSettings, null, null);
+      const expenseRate = taxCodeRate(resolveExpenseTaxCode(taxSettings, projectCode, exp.expense_type));
       expenseByProject.set(ticket.project_id, (expenseByProject.get(ticket.project_id) || 0) + ticketExpenseLineCost(exp));
       expenseBilledByProject.set(ticket.project_id, (expenseBilledByProject.get(ticket.project_id) || 0) + billed);
+      expenseTaxByProject.set(ticket.project_id, (expenseTaxByProject.get(ticket.project_id) || 0) + billed * expenseRate);
     }
 
     return (projects as any[]).map((p: any) => {
-      const laborRevenuePreGst = revenueByProject.get(p.id) || 0;
+      // Fixed-price and retainer labour is earned by contract, not ticket hours × rate
+      const contractRevenue = contractLabourRevenue(p, revenueTickets, billingClaims);
+      const laborRevenuePreGst = contractRevenue ?? (revenueByProject.get(p.id) || 0);
       const expenseBilledPreGst = expenseBilledByProject.get(p.id) || 0;
       const revenuePreGst = laborRevenuePreGst + expenseBilledPreGst;
-      const revenueAllTicketsPreGst = revenueAllTicketsByProject.get(p.id) || 0;
-      const revenue = includeGst ? applyGst(revenuePreGst) : revenuePreGst;
-      const revenueAllTickets = includeGst ? applyGst(revenueAllTicketsPreGst) : revenueAllTicketsPreGst;
+      const revenueAllTicketsPreGst = contractRevenue != null ? revenuePreGst : revenueAllTicketsByProject.get(p.id) || 0;
+      // Labour at the project's tax code; expenses at theirs (an expense type can have its own code).
+      const labourTaxRate = taxCodeRate(taxCodeByProjectId.get(p.id) ?? resolveTicketTaxCode(taxSettings, p, p.customer));
+      const expenseTax = expenseTaxByProject.get(p.id) || 0;
+      const revenue = includeGst ? applyGst(laborRevenuePreGst, labourTaxRate) + expenseBilledPreGst + expenseTax : revenuePreGst;
+      const revenueAllTickets = includeGst ? applyGst(revenueAllTicketsPreGst, labourTaxRate) : revenueAllTicketsPreGst;
       const laborCost = laborByProject.get(p.id) || 0;
       const expenseCost = expenseByProject.get(p.id) || 0;
       const totalCost = laborCost + expenseCost;
@@ -262,6 +342,7 @@ export default function Profitability() {
         revenue,
         laborRevenuePreGst,
         expenseBilledPreGst,
+        expenseTax,
         revenueApproved: revenue,
         revenueAllTickets,
         laborCost,
@@ -270,10 +351,14 @@ export default function Profitability() {
         profit,
         margin,
         totalHours: hoursByProject.get(p.id) || 0,
+        hourBudget: hourBudgetFromProject(p),
+        hoursByCategory: hoursByCategoryByProject.get(p.id) || emptyHoursByCategory(),
+        endDate: p.end_date || null,
         ticketCount: ticketCountByProject.get(p.id) || 0,
+        billingType: billingTypeOf(p),
       };
     });
-  }, [projects, serviceTickets, allTimeEntries, ticketExpenses, empByUserId, rateHistoryByEmpId, includeGst, ticketExpenseLineCost]);
+  }, [projects, serviceTickets, allTimeEntries, ticketExpenses, empByUserId, rateHistoryByEmpId, includeGst, ticketExpenseLineCost, billingClaims, taxCodeByProjectId, taxSettings]);
 
   const filtered = useMemo(() => {
     let list = projectFinancials;
@@ -400,7 +485,8 @@ export default function Profitability() {
         }
 
         const ticketRevenue = isDraftOrSubmitted && savedAmount === 0 ? estimatedRevenue : savedAmount;
-        const revenueWithGst = includeGst ? applyGst(ticketRevenue) : ticketRevenue;
+        const ticketTaxCode = taxCodeByProjectId.get(t.project_id) ?? resolveTicketTaxCode(taxSettings, null, null);
+        const revenueWithGst = includeGst ? applyGst(ticketRevenue, taxCodeRate(ticketTaxCode)) : ticketRevenue;
         return {
           ...t,
           payrollCost,
@@ -417,7 +503,7 @@ export default function Profitability() {
         return true;
       })
       .sort((a: any, b: any) => b.date.localeCompare(a.date));
-  }, [expandedProjectId, serviceTickets, allTimeEntries, empByUserId, rateHistoryByEmpId, includeGst, projects]);
+  }, [expandedProjectId, serviceTickets, allTimeEntries, empByUserId, rateHistoryByEmpId, includeGst, projects, taxCodeByProjectId, taxSettings]);
 
   const expandedLaborByEmployee = useMemo(() => {
     if (!expandedProjectId) return [];
@@ -430,28 +516,35 @@ export default function Profitability() {
         ? `${emp.user.first_name || ''} ${emp.user.last_name || ''}`.trim()
         : 'Unknown';
 
-      let payRate = 0;
-      const rateType = entry.rate_type || 'Shop Time';
-      if (emp) {
-        const rates = getRatesForDate(emp, entry.date);
-        if (rateType === 'Internal') payRate = Number(rates.internal_rate) || Number(rates.shop_pay_rate) || 0;
-        else if (rateType === 'Shop Time') payRate = Number(rates.shop_pay_rate) || 0;
-        else if (rateType === 'Field Time') payRate = Number(rates.field_pay_rate) || 0;
-        else if (rateType === 'Travel Time') payRate = Number(rates.shop_pay_rate) || 0;
-        else if (rateType === 'Shop Overtime') payRate = Number(rates.shop_ot_pay_rate) || 0;
-        else if (rateType === 'Field Overtime') payRate = Number(rates.field_ot_pay_rate) || 0;
-
-        payRate = payRate * (1 + calculateBurden(emp));
-      }
-
       const existing = map.get(entry.user_id) || { name: empName, hours: 0, cost: 0 };
       existing.hours += hours;
-      existing.cost += hours * payRate;
+      existing.cost += hours * loadedPayRate(entry);
       map.set(entry.user_id, existing);
     }
     return Array.from(map.values()).sort((a, b) => b.cost - a.cost);
   }, [expandedProjectId, allTimeEntries, empByUserId, rateHistoryByEmpId]);
 
+  /** Hours, loaded labour and expenses per top-level phase; empty when the project has no cost codes. */
+  const expandedPhaseBreakdown = useMemo(() => {
+    if (!expandedProjectId) return [];
+    const projectCodes = costCodes.filter((c) => c.project_id === expandedProjectId);
+    if (projectCodes.length === 0) return [];
+    const entries = (allTimeEntries as any[])
+      .filter((entry) => entry.project_id === expandedProjectId && entry.hours)
+      .map((entry) => {
+        const hours = Number(entry.hours) || 0;
+        return { cost_code_id: entry.cost_code_id, hours, cost: hours * loadedPayRate(entry) };
+      });
+    const expenses = (ticketExpenses as any[])
+      .filter((exp) => exp.service_tickets?.project_id === expandedProjectId)
+      .map((exp) => ({
+        cost_code_id: exp.cost_code_id,
+        cost: ticketExpenseLineCost(exp),
+        billed: (Number(exp.quantity) || 0) * (Number(exp.rate) || 0),
+      }));
+    return phaseBreakdown(projectCodes, entries, expenses);
+  }, [expandedProjectId, costCodes, allTimeEntries, ticketExpenses, empByUserId, rateHistoryByEmpId, ticketExpenseLineCost]);
+
   const expandedExpenses = useMemo(() => {
     if (!expandedProjectId) return [];
     return (ticketExpenses as any[])
@@ -478,6 +571,42 @@ export default function Profitability() {
     [expandedExpenses]
   );
 
+  const { data: acknowledgedAlerts = [] } = useQuery({
+    queryKey: ['projectBudgetAlerts'],
+    queryFn: () => projectBudgetAlertsService.getAcknowledged(),
+    enabled: isAdmin,
+  });
+
+  const hourAlerts = useMemo(
+    () =>
+      pendingHourBudgetAlerts(
+        projects as any[],
+        new Map(projectFinancials.map((p) => [p.projectId, p.totalHours])),
+        acknowledgedAlerts
+      ),
+    [projects, projectFinancials, acknowledgedAlerts]
+  );
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: (alert: (typeof hourAlerts)[number]) => projectBudgetAlertsService.acknowledge(alert, user!.id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['projectBudgetAlerts'] }),
+    onError: (err) => alert(`Failed to dismiss alert: ${err instanceof Error ? err.message : 'Unknown error'}`),
+  });
+
+  /** Weekly burn-down and trailing-rate forecast for the open project's hour budget. */
+  const expandedHourTracking = useMemo(() => {
+    if (!expandedProject?.hourBudget) return null;
+    const entries = (allTimeEntries as any[]).filter((e: any) => e.project_id === expandedProject.projectId);
+    const budget = expandedProject.hourBudget.total;
+    return {
+      burnDown: hourBurnDown(entries, budget).map((pt) => ({
+        ...pt,
+        label: new Date(`${pt.week}T12:00:00`).toLocaleDateString('en-CA', { month: 'short', day: 'numeric' }),
+      })),
+      forecast: forecastHours(entries, budget, { endDate: expandedProject.endDate }),
+    };
+  }, [expandedProject, allTimeEntries]);
+
   const fmt = (n: number) => n.toLocaleString('en-CA', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
 
   const handleSort = (field: typeof sortBy) => {
@@ -497,7 +626,7 @@ export default function Profitability() {
     );
   }
 
-  // Derived: overall margin for header KPI (revenue is GST-aware via includeGst).
+  // Derived: overall margin for header KPI (revenue is tax-aware via includeGst).
   const overallMargin = totals.revenue > 0 ? (totals.profit / totals.revenue) * 100 : 0;
 
   return (
@@ -541,21 +670,21 @@ export default function Profitability() {
             </div>
           </div>
           <div className="ionex-field">
-            <span className="ionex-field-label">GST</span>
-            <div className="ionex-toggle-rail" role="group" aria-label="Toggle GST">
+            <span className="ionex-field-label">Tax</span>
+            <div className="ionex-toggle-rail" role="group" aria-label="Toggle sales tax">
               <button
                 type="button"
                 className={`ionex-toggle-button${includeGst ? ' is-active' : ''}`}
                 onClick={() => setIncludeGst(true)}
               >
-                Inclusive (+5%)
+                Inclusive (tax codes)
               </button>
               <button
                 type="button"
                 className={`ionex-toggle-button${!includeGst ? ' is-active' : ''}`}
                 onClick={() => setIncludeGst(false)}
               >
-                Pre-GST
+                Pre-tax
               </button>
             </div>
           </div>
@@ -588,6 +717,41 @@ export default function Profitability() {
         ))}
       </div>
 
+      {hourAlerts.length > 0 && (
+        <div className="ionex-banner is-warning">
+          <div className="ionex-banner-title">
+            <span aria-hidden>⏱</span> Hour budget alerts
+          </div>
+          {hourAlerts.map((a) => {
+            const p = projectFinancials.find((f) => f.projectId === a.projectId);
+            return (
+              <div key={a.projectId} style={{ display: 'flex', alignItems: 'center', gap: '12px', fontSize: '13px', color: 'var(--text-secondary)' }}>
+                <span style={{ flex: 1, minWidth: 0 }}>
+                  <button
+                    type="button"
+                    onClick={() => setExpandedProjectId(a.projectId)}
+                    style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', font: 'inherit', color: 'var(--text-primary)', fontWeight: 600 }}
+                  >
+                    {p?.projectNumber ? `${p.projectNumber} · ` : ''}{p?.name}
+                  </button>{' '}
+                  {a.threshold >= 100 ? 'is over' : `passed ${a.threshold}% of`} its hour budget: {a.hoursUsed.toFixed(1)} of {a.budgetHours.toFixed(1)}h (
+                  {((a.hoursUsed / a.budgetHours) * 100).toFixed(0)}%).
+                </span>
+                <button
+                  type="button"
+                  className="ionex-banner-button"
+                  disabled={acknowledgeMutation.isPending}
+                  onClick={() => acknowledgeMutation.mutate(a)}
+                  title={a.threshold < 100 ? 'Hide until the next threshold is reached' : 'Hide this alert'}
+                >
+                  Dismiss
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       <div className="ionex-section-heading">
         <div className="ionex-section-heading-title-row">
           <h2>Projects</h2>
@@ -766,6 +930,11 @@ export default function Profitability() {
                   </td>
                   <td className="align-right is-mono" style={{ color: 'var(--text-secondary)' }}>
                     {p.totalHours.toFixed(1)}
+                    {p.hourBudget && (
+                      <div style={{ fontSize: '11px', color: hourUsageColor(p.totalHours, p.hourBudget.total) }}>
+                        of {p.hourBudget.total.toFixed(0)}h · {((p.totalHours / p.hourBudget.total) * 100).toFixed(0)}%
+                      </div>
+                    )}
                   </td>
                 </tr>
               );
@@ -855,7 +1024,7 @@ export default function Profitability() {
                 <span className="ionex-pl-cell-value">${fmt(expandedProject.revenue)}</span>
                 {expandedProject.expenseBilledPreGst > 0 && (
                   <span className="ionex-pl-cell-sub">
-                    incl. ${fmt(includeGst ? expandedProject.expenseBilledPreGst * 1.05 : expandedProject.expenseBilledPreGst)} expense billout
+                    incl. ${fmt(includeGst ? expandedProject.expenseBilledPreGst + expandedProject.expenseTax : expandedProject.expenseBilledPreGst)} expense billout
                   </span>
                 )}
               </div>
@@ -920,6 +1089,92 @@ export default function Profitability() {
               </div>
             )}
 
+            {/* Hour budget — per category, burn-down and forecast */}
+            {expandedProject.hourBudget && expandedHourTracking && (
+              <div className="ionex-modal-section">
+                <div className="ionex-modal-section-head">
+                  <span className="ionex-modal-section-title">Hour budget</span>
+                  <span className="ionex-modal-section-meta">
+                    <strong>{expandedProject.totalHours.toFixed(1)}h</strong> of {expandedProject.hourBudget.total.toFixed(1)}h
+                  </span>
+                </div>
+                <table className="ionex-compact-table">
+                  <thead>
+                    <tr>
+                      <th>Category</th>
+                      <th className="align-right">Budget</th>
+                      <th className="align-right">Logged</th>
+                      <th className="align-right">Used</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {HOUR_CATEGORIES.map((c) => {
+                      const budget = expandedProject.hourBudget!.byCategory[c];
+                      const used = expandedProject.hoursByCategory[c];
+                      if (budget === null && used === 0) return null;
+                      return (
+                        <tr key={c}>
+                          <td>{HOUR_CATEGORY_LABELS[c]}</td>
+                          <td className="align-right">{budget !== null ? budget.toFixed(1) : '—'}</td>
+                          <td className="align-right">{used.toFixed(1)}</td>
+                          <td className="align-right" style={{ color: budget ? hourUsageColor(used, budget) : undefined, fontWeight: 600 }}>
+                            {budget ? `${((used / budget) * 100).toFixed(0)}%` : '—'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                  <tfoot>
+                    <tr>
+                      <td>Total</td>
+                      <td className="align-right">{expandedProject.hourBudget.total.toFixed(1)}</td>
+                      <td className="align-right">{expandedProject.totalHours.toFixed(1)}</td>
+                      <td className="align-right" style={{ color: hourUsageColor(expandedProject.totalHours, expandedProject.hourBudget.total) }}>
+                        {((expandedProject.totalHours / expandedProject.hourBudget.total) * 100).toFixed(0)}%
+                      </td>
+                    </tr>
+                  </tfoot>
+                </table>
+
+                {expandedHourTracking.burnDown.length > 0 && (
+                  <div style={{ marginTop: '16px' }}>
+                    <ResponsiveContainer width="100%" height={240}>
+                      <ComposedChart data={expandedHourTracking.burnDown} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="var(--border-color)" />
+                        <XAxis dataKey="label" tick={{ fontSize: 11, fill: 'var(--text-secondary)' }} />
+                        <YAxis tick={{ fontSize: 11, fill: 'var(--text-secondary)' }} />
+                        <Tooltip
+                          contentStyle={{ backgroundColor: 'var(--bg-primary)', border: '1px solid var(--border-color)', borderRadius: '8px', fontSize: '12px' }}
+                          formatter={(value) => `${Number(value).toFixed(1)}h`}
+                        />
+                        <Bar dataKey="hours" name="Logged that week" fill="#94a3b8" radius={[3, 3, 0, 0]} />
+                        <Line dataKey="remaining" name="Budget left" stroke="#f59e0b" strokeWidth={2} dot={false} />
+                        <Line dataKey="cumulative" name="Logged to date" stroke={expandedProject.color} strokeWidth={2} dot={false} />
+                        <ReferenceLine y={0} stroke="var(--error-color)" strokeDasharray="4 4" />
+                        <Legend formatter={(value) => <span style={{ color: 'var(--text-primary)', fontSize: '12px' }}>{value}</span>} />
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+
+                <p style={{ fontSize: '12px', color: 'var(--text-secondary)', marginTop: '8px', marginBottom: 0 }}>
+                  Burning <strong>{expandedHourTracking.forecast.weeklyBurn.toFixed(1)}h/week</strong> over the last 4 weeks.
+                  {expandedHourTracking.forecast.atCompletion !== null && (
+                    <>
+                      {' '}Forecast at completion ({expandedProject.endDate}):{' '}
+                      <strong style={{ color: hourUsageColor(expandedHourTracking.forecast.atCompletion, expandedProject.hourBudget.total) }}>
+                        {expandedHourTracking.forecast.atCompletion.toFixed(1)}h
+                      </strong>{' '}
+                      ({expandedHourTracking.forecast.atCompletion > expandedProject.hourBudget.total ? 'over' : 'within'} budget).
+                    </>
+                  )}
+                  {expandedHourTracking.forecast.exhaustedOn && (
+                    <> At this pace the budget runs out around <strong>{expandedHourTracking.forecast.exhaustedOn}</strong>.</>
+                  )}
+                </p>
+              </div>
+            )}
+
             {/* Labour Breakdown \u2014 per-employee loaded cost */}
             <div className="ionex-modal-section">
               <div className="ionex-modal-section-head">
@@ -968,6 +1223,53 @@ export default function Profitability() {
               )}
             </div>
 
+            {/* By phase — hours and cost per top-level cost code */}
+            {expandedPhaseBreakdown.length > 0 && (
+              <div className="ionex-modal-section">
+                <div className="ionex-modal-section-head">
+                  <span className="ionex-modal-section-title">By phase</span>
+                  <span className="ionex-modal-section-meta">
+                    {expandedPhaseBreakdown.filter((r) => r.phaseId).length} phase{expandedPhaseBreakdown.filter((r) => r.phaseId).length === 1 ? '' : 's'}
+                  </span>
+                </div>
+                <table className="ionex-compact-table">
+                  <thead>
+                    <tr>
+                      <th>Phase</th>
+                      <th className="align-right">Hours</th>
+                      <th className="align-right">Loaded Labour</th>
+                      <th className="align-right">Expense Cost</th>
+                      <th className="align-right">Total Cost</th>
+                      <th className="align-right">Expenses Billed</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {expandedPhaseBreakdown.map((row) => (
+                      <tr key={row.phaseId ?? 'none'}>
+                        <td style={row.phaseId ? undefined : { fontStyle: 'italic', color: 'var(--text-tertiary)' }}>{row.label}</td>
+                        <td className="align-right">{row.hours.toFixed(1)}</td>
+                        <td className="align-right">
+                          <span className="ionex-money is-warn">${fmt(row.laborCost)}</span>
+                        </td>
+                        <td className="align-right">
+                          <span className={row.expenseCost > 0 ? 'ionex-money is-warn' : 'ionex-money is-muted'}>${fmt(row.expenseCost)}</span>
+                        </td>
+                        <td className="align-right">
+                          <span className="ionex-money is-warn">${fmt(row.laborCost + row.expenseCost)}</span>
+                        </td>
+                        <td className="align-right">
+                          <span className="ionex-money">${fmt(row.expenseBilled)}</span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p style={{ fontSize: '11px', color: 'var(--text-tertiary)', fontStyle: 'italic', marginTop: '8px', marginBottom: 0 }}>
+                  Tasks and cost codes roll up to their phase. Labour revenue stays per ticket, so only expense billouts are split here.
+                </p>
+              </div>
+            )}
+
             {/* Expense billout — billed vs cost */}
             <div className="ionex-modal-section">
               <div className="ionex-modal-section-head">
@@ -1053,6 +1355,12 @@ export default function Profitability() {
                   <strong>{expandedTickets.length}</strong> {expandedTickets.length === 1 ? 'ticket' : 'tickets'}
                 </span>
               </div>
+              {expandedProject.billingType !== 'hourly' && (
+                <p style={{ fontSize: '11px', color: 'var(--text-tertiary)', fontStyle: 'italic', marginTop: 0 }}>
+                  {BILLING_TYPE_LABELS[expandedProject.billingType]} project: ticket amounts below are labour at the usual rates
+                  {expandedProject.billingType === 'retainer' ? ', which draws down the retainer' : ''}. Project revenue comes from the contract.
+                </p>
+              )}
               {expandedTickets.length === 0 ? (
                 <div className="ionex-mini-empty">No tickets recorded for this project.</div>
               ) : (
@@ -1255,6 +1563,15 @@ function BudgetBar({
   );
 }
 
+/** Colour for hours used against a budget: over = error, 75%+ = warning. */
+function hourUsageColor(used: number, budget: number): string {
+  if (budget <= 0) return 'var(--text-secondary)';
+  const pct = (used / budget) * 100;
+  if (pct >= 100) return 'var(--error-color)';
+  if (pct >= 75) return 'var(--warning-color)';
+  return 'var(--text-secondary)';
+}
+
 function KpiCard({ label, value, accent }: { label: string; value: string; accent?: string }) {
   return (
     <div
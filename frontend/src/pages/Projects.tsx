@@ -3,9 +3,16 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { useDemoMode } from '../context/DemoModeContext';
-import { projectsService, customersService, timeEntriesService, invoiceWorkflowsService } from '../services/supabaseServices';
+import { projectsService, customersService, timeEntriesService, invoiceWorkflowsService, projectBudgetAlertsService } from '../services/supabaseServices';
 import { supabase } from '../lib/supabaseClient';
 import SearchableSelect from '../components/SearchableSelect';
+import ProjectCostCodesEditor from '../components/ProjectCostCodesEditor';
+import ProjectMilestonesEditor from '../components/ProjectMilestonesEditor';
+import RateCardsEditor from '../components/RateCardsEditor';
+import { HOUR_BUDGET_THRESHOLDS, HOUR_CATEGORIES, HOUR_CATEGORY_LABELS } from '../utils/hourBudgets';
+import { BILLING_TYPE_LABELS, BILLING_TYPES, billingTypeOf } from '../utils/projectBilling';
+
+const HOUR_BUDGET_KEYS = ['budget_hours', 'budget_hours_field', 'budget_hours_travel', 'budget_hours_shop'] as const;
 export default function Projects() {
   const { user, isAdmin } = useAuth();
   const { isDemoMode } = useDemoMode();
@@ -34,6 +41,14 @@ export default function Projects() {
     cc: '',
     other: '',
     budget: '',
+    budget_hours: '',
+    budget_hours_field: '',
+    budget_hours_travel: '',
+    budget_hours_shop: '',
+    require_cost_code: false,
+    billing_type: 'hourly',
+    contract_amount: '',
+    retainer_amount: '',
     shop_junior_rate: '',
     shop_senior_rate: '',
     ft_junior_rate: '',
@@ -235,6 +250,14 @@ export default function Projects() {
         cc: data.cc?.trim() || null,
         other: data.other || null,
         budget: data.budget ? parseFloat(data.budget) : null,
+        budget_hours: data.budget_hours ? parseFloat(data.budget_hours) : null,
+        budget_hours_field: data.budget_hours_field ? parseFloat(data.budget_hours_field) : null,
+        budget_hours_travel: data.budget_hours_travel ? parseFloat(data.budget_hours_travel) : null,
+        budget_hours_shop: data.budget_hours_shop ? parseFloat(data.budget_hours_shop) : null,
+        require_cost_code: !!data.require_cost_code,
+        billing_type: data.billing_type || 'hourly',
+        contract_amount: data.contract_amount ? parseFloat(data.contract_amount) : null,
+        retainer_amount: data.retainer_amount ? parseFloat(data.retainer_amount) : null,
         shop_junior_rate: data.shop_junior_rate ? parseFloat(data.shop_junior_rate) : null,
         shop_senior_rate: data.shop_senior_rate ? parseFloat(data.shop_senior_rate) : null,
         ft_junior_rate: data.ft_junior_rate ? parseFloat(data.ft_junior_rate) : null,
@@ -273,6 +296,13 @@ export default function Projects() {
       }
       if (data.other !== undefined) projectData.other = data.other || null;
       if (data.budget !== undefined) projectData.budget = data.budget ? parseFloat(data.budget) : null;
+      for (const key of HOUR_BUDGET_KEYS) {
+        if (data[key] !== undefined) projectData[key] = data[key] ? parseFloat(data[key]) : null;
+      }
+      if (data.require_cost_code !== undefined) projectData.require_cost_code = !!data.require_cost_code;
+      if (data.billing_type !== undefined) projectData.billing_type = data.billing_type || 'hourly';
+      if (data.contract_amount !== undefined) projectData.contract_amount = data.contract_amount ? parseFloat(data.contract_amount) : null;
+      if (data.retainer_amount !== undefined) projectData.retainer_amount = data.retainer_amount ? parseFloat(data.retainer_amount) : null;
       if (data.shop_junior_rate !== undefined) projectData.shop_junior_rate = data.shop_junior_rate ? parseFloat(data.shop_junior_rate) : null;
       if (data.shop_senior_rate !== undefined) projectData.shop_senior_rate = data.shop_senior_rate ? parseFloat(data.shop_senior_rate) : null;
       if (data.ft_junior_rate !== undefined) projectData.ft_junior_rate = data.ft_junior_rate ? parseFloat(data.ft_junior_rate) : null;
@@ -281,7 +311,12 @@ export default function Projects() {
       if (data.invoice_date_grouping !== undefined) projectData.invoice_date_grouping = data.invoice_date_grouping || null;
       if (data.invoice_workflow_id !== undefined) projectData.invoice_workflow_id = data.invoice_workflow_id || null;
 
-      return await projectsService.update(id, projectData);
+      const updated = await projectsService.update(id, projectData);
+      // A new hour budget starts its 75/90/100% alerts over
+      if (isAdmin && HOUR_BUDGET_KEYS.some((key) => key in projectData && Number(projectData[key] ?? 0) !== Number(editingProject?.[key] ?? 0))) {
+        await projectBudgetAlertsService.resetForProject(id);
+      }
+      return updated;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['projects'] });
@@ -354,6 +389,14 @@ export default function Projects() {
       cc: '',
       other: '',
       budget: '',
+      budget_hours: '',
+      budget_hours_field: '',
+      budget_hours_travel: '',
+      budget_hours_shop: '',
+      require_cost_code: false,
+      billing_type: 'hourly',
+      contract_amount: '',
+      retainer_amount: '',
       shop_junior_rate: '',
       shop_senior_rate: '',
       ft_junior_rate: '',
@@ -380,6 +423,14 @@ export default function Projects() {
       cc: project.cc || '',
       other: project.other || '',
       budget: project.budget != null ? String(project.budget) : '',
+      budget_hours: project.budget_hours != null ? String(project.budget_hours) : '',
+      budget_hours_field: project.budget_hours_field != null ? String(project.budget_hours_field) : '',
+      budget_hours_travel: project.budget_hours_travel != null ? String(project.budget_hours_travel) : '',
+      budget_hours_shop: project.budget_hours_shop != null ? String(project.budget_hours_shop) : '',
+      require_cost_code: project.require_cost_code === true,
+      billing_type: billingTypeOf(project),
+      contract_amount: project.contract_amount != null ? String(project.contract_amount) : '',
+      retainer_amount: project.retainer_amount != null ? String(project.retainer_amount) : '',
       shop_junior_rate: project.shop_junior_rate?.toString() || '',
       shop_senior_rate: project.shop_senior_rate?.toString() || '',
       ft_junior_rate: project.ft_junior_rate?.toString() || '',
@@ -749,9 +800,16 @@ export default function Projects() {
                     placeholder="Leave empty if no budget set"
                   />
                 </div>
+                <HourBudgetFields formData={formData} onChange={(updates) => setFormData({ ...formData, ...updates })} />
+                <RequireCostCodeField checked={formData.require_cost_code} onChange={(require_cost_code) => setFormData({ ...formData, require_cost_code })} />
+                <BillingFields formData={formData} onChange={(updates) => setFormData({ ...formData, ...updates })} />
               </div>
             )}
 
+            {isAdmin && editingProject?.id && formData.billing_type === 'fixed' && <ProjectMilestonesEditor projectId={editingProject.id} contractAmount={parseFloat(formData.contract_amount) || 0} />}
+            {isAdmin && editingProject?.id && <RateCardsEditor projectId={editingProject.id} />}
+            {isAdmin && editingProject?.id && <ProjectCostCodesEditor projectId={editingProject.id} />}
+
             {/* Project-Specific Rate Overrides */}
             <div style={{ marginTop: '20px', paddingTop: '20px', borderTop: '1px solid var(--border-color)' }}>
               <h4 style={{ marginBottom: '15px', fontSize: '14px', color: 'var(--text-secondary)' }}>
@@ -1173,6 +1231,9 @@ export default function Projects() {
                     placeholder="Leave empty if no budget set"
                   />
                 </div>
+                <HourBudgetFields formData={formData} onChange={(updates) => setFormData({ ...formData, ...updates })} />
+                <RequireCostCodeField checked={formData.require_cost_code} onChange={(require_cost_code) => setFormData({ ...formData, require_cost_code })} />
+                <BillingFields formData={formData} onChange={(updates) => setFormData({ ...formData, ...updates })} />
               </div>
             )}
 
@@ -1609,3 +1670,101 @@ export default function Projects() {
     </div>
   );
 }
+
+/** Hour budget inputs (per rate category, plus an optional overall total) for the project forms. */
+function HourBudgetFields({ formData, onChange }: { formData: any; onChange: (updates: Record<string, string>) => void }) {
+  const categorySum = HOUR_CATEGORIES.reduce((sum, c) => sum + (parseFloat(formData[`budget_hours_${c}`]) || 0), 0);
+  return (
+    <div className="form-group" style={{ marginBottom: 0 }}>
+      <label className="label">Hour Budget</label>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '10px' }}>
+        {HOUR_CATEGORIES.map((c) => (
+          <div key={c}>
+            <div style={{ fontSize: '12px', color: 'var(--text-secondary)', marginBottom: '4px' }}>{HOUR_CATEGORY_LABELS[c]} hours</div>
+            <input
+              type="number"
+              step="0.5"
+              min="0"
+              className="input"
+              value={formData[`budget_hours_${c}`]}
+              onChange={(e) => onChange({ [`budget_hours_${c}`]: e.target.value })}
+            />
+          </div>
+        ))}
+        <div>
+          <div style={{ fontSize: '12px', color: 'var(--text-secondary)', marginBottom: '4px' }}>Total hours</div>
+          <input
+            type="number"
+            step="0.5"
+            min="0"
+            className="input"
+            value={formData.budget_hours}
+            onChange={(e) => onChange({ budget_hours: e.target.value })}
+            placeholder={categorySum > 0 ? String(categorySum) : ''}
+          />
+        </div>
+      </div>
+      <div style={{ fontSize: '12px', color: 'var(--text-tertiary)', marginTop: '6px' }}>
+        Leave total empty to use the sum of the categories. Profitability alerts at {HOUR_BUDGET_THRESHOLDS.join('/')}% of the total.
+      </div>
+    </div>
+  );
+}
+
+function RequireCostCodeField({ checked, onChange }: { checked: boolean; onChange: (checked: boolean) => void }) {
+  return (
+    <label style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '12px', fontSize: '14px' }}>
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} />
+      Require a phase / cost code on time entries and ticket expenses
+    </label>
+  );
+}
+
+/** Billing mode for the project forms; fixed-price and retainer projects are billed from Invoices → Contracts. */
+function BillingFields({ formData, onChange }: { formData: any; onChange: (updates: Record<string, string>) => void }) {
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '10px', marginTop: '16px' }}>
+      <div className="form-group" style={{ marginBottom: 0 }}>
+        <label className="label">Billing</label>
+        <select className="input" value={formData.billing_type} onChange={(e) => onChange({ billing_type: e.target.value })}>
+          {BILLING_TYPES.map((t) => (
+            <option key={t} value={t}>{BILLING_TYPE_LABELS[t]}</option>
+          ))}
+        </select>
+      </div>
+      {formData.billing_type === 'fixed' && (
+        <div className="form-group" style={{ marginBottom: 0 }}>
+          <label className="label">Contract Amount ($)</label>
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            className="input"
+            value={formData.contract_amount}
+            onChange={(e) => onChange({ contract_amount: e.target.value })}
+          />
+        </div>
+      )}
+      {formData.billing_type === 'retainer' && (
+        <div className="form-group" style={{ marginBottom: 0 }}>
+          <label className="label">Monthly Retainer ($)</label>
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            className="input"
+            value={formData.retainer_amount}
+            onChange={(e) => onChange({ retainer_amount: e.target.value })}
+          />
+        </div>
+      )}
+      {formData.billing_type !== 'hourly' && (
+        <div style={{ gridColumn: '1 / -1', fontSize: '12px', color: 'var(--text-tertiary)' }}>
+          {formData.billing_type === 'fixed'
+            ? 'Labour is billed by milestone or percent complete from Invoices → Contracts, not per ticket. Ticket expenses are still invoiced with their batches.'
+            : 'The retainer is billed monthly from Invoices → Contracts. Ticket labour at the usual rates draws it down and anything above it is billed as overage. Ticket expenses are still invoiced with their batches.'}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import {
   serviceTicketsService,
   customersService,
   employeesService,
+  rateCardsService,
   serviceTicketExpensesService,
   projectsService,
   timeEntriesService,
@@ -13,15 +14,21 @@ import {
   invoicedBatchMarksService,
   collectLockedServiceTicketIdsFromMarks,
   fetchLockedServiceTicketIdsForCurrentUser,
+  costCodesService,
+  taxCodesService,
   type ServiceTicketExpenseRow,
 } from '../services/supabaseServices';
 import { optimizeImage } from '../utils/imageOptimizer';
-import { groupEntriesIntoTickets, formatTicketDate, generateTicketDisplayId, ServiceTicket, getRateTypeSortOrder, applyHeaderOverridesToTicket, buildApproverPoAfe, getProjectHeaderFields, getTicketBillingKey, buildBillingKey, buildGroupingKey } from '../utils/serviceTickets';
+import { groupEntriesIntoTickets, formatTicketDate, generateTicketDisplayId, ServiceTicket, getRateTypeSortOrder, applyHeaderOverridesToTicket, buildApproverPoAfe, getProjectHeaderFields, getTicketBillingKey, buildBillingKey, buildGroupingKey, entryTicketDescription, calculateTicketTotalAmount } from '../utils/serviceTickets';
+import { RATE_KEY_LABELS, RATE_KEYS, TicketRateSources } from '../utils/rateCards';
 import { Link, useSearchParams } from 'react-router-dom';
 import { downloadExcelServiceTicket } from '../utils/serviceTicketXlsx';
 import { downloadPdfFromHtml } from '../utils/pdfFromHtml';
+import { computeTaxBreakdown, EMPTY_TAX_SETTINGS, resolveTicketTaxCode, ticketTaxableItems } from '../utils/taxCodes';
 import { supabase } from '../lib/supabaseClient';
 import SearchableSelect from '../components/SearchableSelect';
+import CostCodeSelect from '../components/CostCodeSelect';
+import { costCodeLabel, costCodeRequired } from '../utils/costCodes';
 import {
   receiptHasMatchingTicketExpenseLine,
   ticketExpenseLineHasAttachedReceipt,
@@ -90,7 +97,7 @@ function entriesToPreviewRows(entries: ServiceTicket['entries']): PreviewService
     const hours = Number(entry.hours) || 0;
     return {
       id: entry.id || `entry-${index}`,
-      description: entry.description || '',
+      description: entryTicketDescription(entry),
       st: rateType === 'Shop Time' ? hours : 0,
       tt: rateType === 'Travel Time' ? hours : 0,
       ft: rateType === 'Field Time' ? hours : 0,
@@ -516,6 +523,7 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
     unit?: string;
     needs_reimbursement?: boolean;
     user_expense_id?: string | null;
+    cost_code_id?: string | null;
   }>>([]);
   const [editingExpense, setEditingExpense] = useState<{
     id?: string;
@@ -526,6 +534,7 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
     actual_cost?: number;
     unit?: string;
     needs_reimbursement?: boolean;
+    cost_code_id?: string | null;
   } | null>(null);
   const [pendingDeleteExpenseIds, setPendingDeleteExpenseIds] = useState<Set<string>>(new Set());
   const [pendingAddExpenses, setPendingAddExpenses] = useState<Array<{
@@ -537,6 +546,7 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
     unit?: string;
     tempId?: string;
     needs_reimbursement?: boolean;
+    cost_code_id?: string | null;
     /** When this line came from a receipt (modal or suggested), unlink this user_expense if removed from ticket */
     linkedUserExpenseId?: string;
   }>>([]);
@@ -910,6 +920,7 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
     rate: number;
     unit?: string;
     needs_reimbursement?: boolean;
+    cost_code_id?: string | null;
   }>>([]);
   const [createEditingExpense, setCreateEditingExpense] = useState<{
     expense_type: 'Travel' | 'Subsistence' | 'Hotel' | 'Expenses' | 'Equipment';
@@ -918,6 +929,7 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
     rate: number;
     unit?: string;
     needs_reimbursement?: boolean;
+    cost_code_id?: string | null;
   } | null>(null);
   const [showInlineCreateCustomer, setShowInlineCreateCustomer] = useState(false);
   const [inlineCustomerName, setInlineCustomerName] = useState('');
@@ -1102,6 +1114,7 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
             // Carry the linked-receipt id through so payroll dedup never has to fall back
             // to description matching for these ticket lines.
             user_expense_id: exp.linkedUserExpenseId ?? null,
+            cost_code_id: exp.cost_code_id ?? null,
           });
         }
         setPendingAddExpenses([]);
@@ -1145,7 +1158,7 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
     }
   };
 
-  const buildApprovalHeaderOverrides = (ticket: ServiceTicket): Record<string, string | number | string[]> => {
+  const buildApprovalHeaderOverrides = (ticket: ServiceTicket): Record<string, string | number | string[] | TicketRateSources> => {
     // If the ticket already has header overrides, use them directly to preserve manual edits
     const existingOv = (ticket as any).headerOverrides as Record<string, any> | undefined;
     if (existingOv && Object.keys(existingOv).length > 0) {
@@ -1201,6 +1214,7 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
       rate_ft: ticket.rates.ft,
       rate_shop_ot: ticket.rates.shop_ot,
       rate_field_ot: ticket.rates.field_ot,
+      ...(ticket.rateSources ? { rate_sources: ticket.rateSources } : {}),
       _grouping_key: groupingKey,
       _billing_key: buildBillingKey(approverPoAfeCc.approver, approverPoAfeCc.po_afe, approverPoAfeCc.cc),
       _manual_customer_info_fields: existingManualFields,
@@ -1278,7 +1292,7 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
       const hours = Number(entry.hours) || 0;
       return {
         id: entry.id || `entry-${index}`,
-        description: entry.description || '',
+        description: entryTicketDescription(entry),
         st: rateType === 'Shop Time' ? hours : 0,
         tt: rateType === 'Travel Time' ? hours : 0,
         ft: rateType === 'Field Time' ? hours : 0,
@@ -1435,7 +1449,16 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
           ticketExpenses = [];
         }
       }
-      await downloadPdfFromHtml(ticketWithNumber, ticketExpenses);
+      const taxCode = resolveTicketTaxCode(
+        taxSettings,
+        allProjects?.find((p: { id: string }) => p.id === ticket.projectId),
+        customers?.find((c: { id: string }) => c.id === ticket.customerId)
+      );
+      const tax = computeTaxBreakdown(
+        ticketTaxableItems(taxSettings, taxCode, calculateTicketTotalAmount(ticketWithNumber, []), ticketExpenses),
+        taxCode
+      );
+      await downloadPdfFromHtml(ticketWithNumber, ticketExpenses, tax);
 
       // (Legacy workflow status mark removed — invoice-side tracking lives on the Invoices page.)
       await queryClient.invalidateQueries({ queryKey: ['existingServiceTickets'] });
@@ -2010,12 +2033,41 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
     queryFn: () => employeesService.getAll(),
   });
 
+  const { data: rateCards = [] } = useQuery({
+    queryKey: ['rateCards'],
+    queryFn: () => rateCardsService.getAll(),
+  });
+
   // Fetch projects for create ticket panel
   const { data: allProjects } = useQuery({
     queryKey: ['projects'],
     queryFn: () => projectsService.getAll(),
   });
 
+  // Tax codes for the tax rows on exported ticket PDFs
+  const { data: taxSettings = EMPTY_TAX_SETTINGS } = useQuery({
+    queryKey: ['taxSettings'],
+    queryFn: () => taxCodesService.getSettings(),
+  });
+
+  // Phase / cost codes for ticket expense lines
+  const { data: costCodes = [] } = useQuery({
+    queryKey: ['projectCostCodes'],
+    queryFn: () => costCodesService.getAll(),
+  });
+  const ticketExpenseCostCodeRequired = costCodeRequired(
+    allProjects?.find((p: any) => p.id === selectedTicket?.projectId),
+    costCodes.filter((c) => c.project_id === selectedTicket?.projectId)
+  );
+  const createExpenseCostCodeRequired = costCodeRequired(
+    allProjects?.find((p: any) => p.id === createProjectId),
+    costCodes.filter((c) => c.project_id === createProjectId)
+  );
+  const costCodeLabelById = (id: string) => {
+    const code = costCodes.find((c) => c.id === id);
+    return code ? costCodeLabel(code) : '';
+  };
+
   // Fetch current user's employee record to check department
   const { data: currentEmployee } = useQuery({
     queryKey: ['currentEmployee', user?.id],
@@ -2179,7 +2231,7 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
    * Locked records claim their matching base ticket so it doesn't also appear as a draft.
    */
   const tickets = useMemo(() => {
-    const baseTickets = billableEntries ? groupEntriesIntoTickets(billableEntries, employees) : [];
+    const baseTickets = billableEntries ? groupEntriesIntoTickets(billableEntries, employees, rateCards) : [];
     const existing = existingTickets ?? [];
 
     // --- Helpers ---
@@ -2464,7 +2516,7 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
     const discardedTickets = discardedRecords.map(rec => buildLockedTicketFromRecord(rec));
 
     return [...draftTickets, ...lockedTickets, ...discardedTickets];
-  }, [billableEntries, employees, existingTickets, customers, allProjects, currentTicketRecordId]);
+  }, [billableEntries, employees, rateCards, existingTickets, customers, allProjects, currentTicketRecordId]);
 
   // Live hours computed from serviceRows when a ticket is selected
   const selectedTicketId = selectedTicket?.id;
@@ -2491,6 +2543,7 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
       actual_cost?: number;
       needs_reimbursement?: boolean;
       reimbursement_status?: string;
+      cost_code_id?: string | null;
     }) => serviceTicketExpensesService.create(expense),
     onSuccess: () => {
       if (currentTicketRecordId) {
@@ -3427,9 +3480,16 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
     }
   };
 
+  // Codes belong to one project, so expenses added so far lose theirs when the project changes
+  const clearCreateExpenseCostCodes = () => {
+    setCreateExpenses((prev) => prev.map((exp) => ({ ...exp, cost_code_id: null })));
+    setCreateEditingExpense((prev) => (prev ? { ...prev, cost_code_id: null } : prev));
+  };
+
   // Handle project selection in create panel - auto-populate project fields
   const handleCreateProjectSelect = (projectId: string) => {
     setCreateProjectId(projectId);
+    clearCreateExpenseCostCodes();
     if (!projectId) {
       setCreateData(prev => ({ ...prev, projectNumber: '', serviceLocation: prev.serviceLocation, approver: prev.approver, poAfe: prev.poAfe, cc: prev.cc, other: '' }));
       return;
@@ -3483,6 +3543,7 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
       await queryClient.invalidateQueries({ queryKey: ['projects'] });
       await queryClient.refetchQueries({ queryKey: ['projects'] });
       setCreateProjectId(newProject.id);
+      clearCreateExpenseCostCodes();
       const fields = getProjectHeaderFields(newProject);
       setCreateData(prev => ({
         ...prev,
@@ -3606,6 +3667,7 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
             quantity: exp.quantity,
             rate: exp.rate,
             unit: exp.unit || '',
+            cost_code_id: exp.cost_code_id ?? null,
             needs_reimbursement: nr,
             reimbursement_status: initialReimbursementStatusForTicketExpense({
               needs_reimbursement: nr,
@@ -5685,12 +5747,13 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
               role={effectiveLockedForEditing ? 'button' : undefined}
               aria-label={effectiveLockedForEditing ? 'Ticket is locked; click to see why' : undefined}
             >
-              {/* Rejection note at top when user opens a rejected ticket in Drafts */}
+              {/* Rejection note at top when user opens a rejected ticket in Drafts, or one the
+                  customer's approver rejected in the approver portal (the ticket stays in its batch) */}
               {selectedTicket && (() => {
                 const rec = findMatchingTicketRecord(selectedTicket);
                 const isRejected = rec?.workflow_status === 'rejected';
                 const notes = (rec as { rejection_notes?: string | null })?.rejection_notes;
-                if (!isRejected || !(notes && String(notes).trim())) return null;
+                if (!(notes && String(notes).trim())) return null;
                 return (
                   <div
                     style={{
@@ -5706,7 +5769,7 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
                   >
                     <span style={{ fontSize: '18px' }}>⚠️</span>
                     <div style={{ flex: 1 }}>
-                      <div style={{ fontWeight: '700', color: '#ef5350', marginBottom: '4px' }}>Rejection reason</div>
+                      <div style={{ fontWeight: '700', color: '#ef5350', marginBottom: '4px' }}>{isRejected ? 'Rejection reason' : 'Rejected by the customer approver'}</div>
                       <div style={{ fontSize: '14px', color: 'var(--text-primary)', whiteSpace: 'pre-wrap' }}>
                         {String(notes).trim()}
                       </div>
@@ -6385,6 +6448,22 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
                           <span style={{ color: '#ff9800' }}>SO = Shop Overtime</span>
                           <span style={{ color: '#ff9800' }}>FO = Field Overtime</span>
                         </div>
+
+                        {/* Billing rates and where each came from (rate card, special rate, employee, default) */}
+                        {isAdmin && selectedTicket.rateSources && (
+                          <div style={{ marginTop: '12px', fontSize: '11px', color: 'var(--text-secondary)' }}>
+                            <div style={{ fontWeight: 600, marginBottom: '4px' }}>Rates</div>
+                            <div style={{ display: 'grid', gridTemplateColumns: 'auto auto 1fr', columnGap: '12px', rowGap: '2px' }}>
+                              {RATE_KEYS.map((key) => (
+                                <Fragment key={key}>
+                                  <span>{RATE_KEY_LABELS[key]}</span>
+                                  <span style={{ textAlign: 'right', color: 'var(--text-primary)' }}>${(selectedTicket.rates[key] ?? 0).toFixed(2)}</span>
+                                  <span style={{ color: 'var(--text-tertiary)' }}>{selectedTicket.rateSources![key].label}</span>
+                                </Fragment>
+                              ))}
+                            </div>
+                          </div>
+                        )}
                         
                         {/* EDITED notice - below legend. Only show when entries actually differ from time entries and ticket is editable (not locked) */}
                         {!effectiveLockedForEditing && isTicketEdited && Object.keys(editedEntryOverrides).length > 0 && (
@@ -6618,6 +6697,14 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
                               </div>
                             )}
                           </div>
+                          <CostCodeSelect
+                            codes={costCodes}
+                            projectId={selectedTicket?.projectId}
+                            value={editingExpense.cost_code_id}
+                            onChange={(costCodeId) => setEditingExpense({ ...editingExpense, cost_code_id: costCodeId })}
+                            required={ticketExpenseCostCodeRequired}
+                            style={{ marginBottom: '12px' }}
+                          />
                           {(
                             <div
                               style={{
@@ -6845,6 +6932,10 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
                                   });
                                   return;
                                 }
+                                if (ticketExpenseCostCodeRequired && !editingExpense.cost_code_id) {
+                                  setTicketExpenseFormIssues({ save: 'This project requires a phase / cost code.' });
+                                  return;
+                                }
                                 if (!currentTicketRecordId) {
                                   setTicketExpenseFormIssues({
                                     ticketRecord:
@@ -6888,6 +6979,7 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
                                       unit: isHotelFixed ? undefined : editingExpense.unit?.trim() || undefined,
                                       actual_cost: Number(editingExpense.actual_cost) || 0,
                                       needs_reimbursement: true,
+                                      cost_code_id: editingExpense.cost_code_id ?? null,
                                       reimbursement_status: initialReimbursementStatusForTicketExpense({
                                         needs_reimbursement: true,
                                         expense_type: editingExpense.expense_type,
@@ -6932,6 +7024,7 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
                                       actual_cost: Number(editingExpense.actual_cost) || 0,
                                       unit: saveUnit,
                                       needs_reimbursement: editingExpense.needs_reimbursement,
+                                      cost_code_id: editingExpense.cost_code_id ?? null,
                                     });
                                     clearTicketExpenseFormIssues();
                                     setEditingExpense(null);
@@ -6947,6 +7040,7 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
                                         unit: saveUnit,
                                         tempId: `pending-${Date.now()}-${prev.length}`,
                                         needs_reimbursement: editingExpense.needs_reimbursement || false,
+                                        cost_code_id: editingExpense.cost_code_id ?? null,
                                       },
                                     ]);
                                     clearTicketExpenseFormIssues();
@@ -7060,6 +7154,11 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
                               {expense.description}
                               {expense.unit && <span style={{ color: 'var(--text-tertiary)', marginLeft: '4px' }}>({expense.unit})</span>}
                             </div>
+                            {expense.cost_code_id && (
+                              <div style={{ color: 'var(--text-tertiary)', fontSize: '11px', marginTop: '2px' }}>
+                                {costCodeLabelById(expense.cost_code_id)}
+                              </div>
+                            )}
                           </div>
                           <div style={{ textAlign: 'right', color: 'rgba(255,255,255,0.7)' }}>
                             {expense.quantity.toFixed(2)}
@@ -7085,6 +7184,7 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
                                     actual_cost: expense.actual_cost,
                                     unit: expense.unit,
                                     needs_reimbursement: expense.needs_reimbursement,
+                                    cost_code_id: expense.cost_code_id,
                                   });
                                 } else {
                                   setEditingExpense({ ...expense });
@@ -9047,6 +9147,14 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
                     </div>
                       );
                     })()}
+                    <CostCodeSelect
+                      codes={costCodes}
+                      projectId={createProjectId}
+                      value={createEditingExpense.cost_code_id}
+                      onChange={(costCodeId) => setCreateEditingExpense((prev) => (prev ? { ...prev, cost_code_id: costCodeId } : null))}
+                      required={createExpenseCostCodeRequired}
+                      style={{ marginTop: '10px', marginBottom: 0 }}
+                    />
                     {createEditingExpense.expense_type !== 'Subsistence' && (
                       <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '10px' }}>
                         <input
@@ -9092,6 +9200,10 @@ export default function ServiceTickets({ modalOnlyMode, pendingOpenRecord }: { m
                       <button
                         onClick={() => {
                           if (!createEditingExpense.description) return;
+                          if (createExpenseCostCodeRequired && !createEditingExpense.cost_code_id) {
+                            alert('This project requires a phase / cost code');
+                            return;
+                          }
                           if (
                             createEditingExpense.expense_type === 'Expenses' &&
                             createEditingExpense.needs_reimbursement
@@ -2,7 +2,9 @@ import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '../context/AuthContext';
 import { useDemoMode } from '../context/DemoModeContext';
-import { timeEntriesService, projectsService, serviceTicketsService } from '../services/supabaseServices';
+import { timeEntriesService, projectsService, serviceTicketsService, costCodesService } from '../services/supabaseServices';
+import { costCodeRequired } from '../utils/costCodes';
+import CostCodeSelect from '../components/CostCodeSelect';
 
 export default function TimeEntries() {
   const { user } = useAuth();
@@ -12,6 +14,7 @@ export default function TimeEntries() {
   const [editingEntry, setEditingEntry] = useState<any>(null);
   const [formData, setFormData] = useState({
     project_id: '',
+    cost_code_id: '',
     date: new Date().toISOString().split('T')[0],
     start_time: '',
     end_time: '',
@@ -32,6 +35,15 @@ export default function TimeEntries() {
     queryFn: () => projectsService.getAll(),
   });
 
+  const { data: costCodes = [] } = useQuery({
+    queryKey: ['projectCostCodes'],
+    queryFn: () => costCodesService.getAll(),
+  });
+  const costCodeIsRequired = costCodeRequired(
+    projects?.find((p: any) => p.id === formData.project_id),
+    costCodes.filter((c) => c.project_id === formData.project_id)
+  );
+
   const createMutation = useMutation({
     mutationFn: async (data: any) => {
       if (!user) throw new Error('Not authenticated');
@@ -40,6 +52,7 @@ export default function TimeEntries() {
       const entryData = {
         user_id: user.id,
         project_id: data.project_id || null,
+        cost_code_id: (data.project_id && data.cost_code_id) || null,
         date: data.date,
         start_time: data.start_time || null,
         end_time: data.end_time || null,
@@ -63,6 +76,7 @@ export default function TimeEntries() {
     mutationFn: async ({ id, data }: { id: string; data: any }) => {
       const entryData: any = {};
       if (data.project_id !== undefined) entryData.project_id = data.project_id || null;
+      if (data.cost_code_id !== undefined) entryData.cost_code_id = (data.project_id && data.cost_code_id) || null;
       if (data.date !== undefined) entryData.date = data.date;
       if (data.start_time !== undefined) entryData.start_time = data.start_time || null;
       if (data.end_time !== undefined) entryData.end_time = data.end_time || null;
@@ -101,6 +115,7 @@ export default function TimeEntries() {
   const resetForm = () => {
     setFormData({
       project_id: '',
+      cost_code_id: '',
       date: new Date().toISOString().split('T')[0],
       start_time: '',
       end_time: '',
@@ -115,6 +130,7 @@ export default function TimeEntries() {
     setEditingEntry(entry);
     setFormData({
       project_id: entry.project_id || '',
+      cost_code_id: entry.cost_code_id || '',
       date: entry.date ? new Date(entry.date).toISOString().split('T')[0] : '',
       start_time: entry.start_time ? new Date(entry.start_time).toISOString().slice(0, 16) : '',
       end_time: entry.end_time ? new Date(entry.end_time).toISOString().slice(0, 16) : '',
@@ -128,6 +144,10 @@ export default function TimeEntries() {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (costCodeIsRequired && !formData.cost_code_id) {
+      alert('This project requires a phase / cost code');
+      return;
+    }
     if (editingEntry) {
       updateMutation.mutate({ id: editingEntry.id, data: formData });
     } else {
@@ -177,7 +197,7 @@ export default function TimeEntries() {
               <select
                 className="input"
                 value={formData.project_id}
-                onChange={(e) => setFormData({ ...formData, project_id: e.target.value })}
+                onChange={(e) => setFormData({ ...formData, project_id: e.target.value, cost_code_id: '' })}
               >
                 <option value="">Select Project</option>
                 {projects?.map((project: any) => (
@@ -188,6 +208,14 @@ export default function TimeEntries() {
               </select>
             </div>
 
+            <CostCodeSelect
+              codes={costCodes}
+              projectId={formData.project_id}
+              value={formData.cost_code_id}
+              onChange={(costCodeId) => setFormData({ ...formData, cost_code_id: costCodeId || '' })}
+              required={costCodeIsRequired}
+            />
+
             <div className="form-group">
               <label className="label">Date</label>
               <input
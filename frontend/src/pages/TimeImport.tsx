@@ -0,0 +1,401 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useDemoMode } from '../context/DemoModeContext';
+import { costCodesService, customersService, employeesService, projectsService, timeEntryImportsService } from '../services/supabaseServices';
+import {
+  buildImportRows,
+  ColumnMapping,
+  DateOrder,
+  guessColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportRow,
+  markImportDuplicates,
+  MAX_IMPORT_ROWS,
+  ParsedSheet,
+  readImportFile,
+} from '../utils/timeEntryImport';
+
+type Step = 'upload' | 'map' | 'preview';
+
+function formatTime(iso: string | null | undefined): string {
+  return iso ? new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' }) : '';
+}
+
+/**
+ * Import hours from a CSV/XLSX file (subcontractor timesheets, exports from other systems):
+ * upload, map columns, check every row, then save the batch. Each batch can be rolled back.
+ */
+export default function TimeImport() {
+  const { isDemoMode } = useDemoMode();
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [dateOrder, setDateOrder] = useState<DateOrder>('YMD');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const { data: employees = [] } = useQuery({
+    queryKey: ['employees', 'time-import'],
+    queryFn: () => employeesService.getAll(true),
+  });
+  const { data: projects = [] } = useQuery({
+    queryKey: ['projects', 'time-import'],
+    queryFn: () => projectsService.getAll(true),
+  });
+  const { data: customers = [] } = useQuery({
+    queryKey: ['customers', 'time-import'],
+    queryFn: () => customersService.getAll(true),
+  });
+  const { data: costCodes = [] } = useQuery({
+    queryKey: ['projectCostCodes'],
+    queryFn: () => costCodesService.getAll(),
+  });
+  const { data: history = [] } = useQuery({
+    queryKey: ['timeEntryImports', isDemoMode],
+    queryFn: () => timeEntryImportsService.getAll(isDemoMode),
+  });
+
+  const invalidateEntries = () => {
+    queryClient.invalidateQueries({ queryKey: ['timeEntries'] });
+    queryClient.invalidateQueries({ queryKey: ['billableEntries'] });
+    queryClient.invalidateQueries({ queryKey: ['existingServiceTickets'] });
+    queryClient.invalidateQueries({ queryKey: ['timeEntryImports'] });
+  };
+
+  const toImport = rows.filter((r) => r.entry && (includeDuplicates || !r.duplicate));
+  const errorCount = rows.filter((r) => r.errors.length > 0).length;
+  const duplicateCount = rows.filter((r) => r.duplicate).length;
+  const warningCount = rows.filter((r) => r.entry && r.warnings.length > 0).length;
+  const importHours = toImport.reduce((sum, r) => sum + Number(r.entry!.hours), 0);
+
+  const commitMutation = useMutation({
+    mutationFn: () => timeEntryImportsService.commit(fileName, toImport.map((r) => r.entry!), isDemoMode),
+    onSuccess: (batch) => {
+      invalidateEntries();
+      setMessage({ type: 'success', text: `Imported ${batch.entry_count} entries (${Number(batch.total_hours).toFixed(2)}h) from ${fileName}.` });
+      reset();
+    },
+    onError: (error: any) => {
+      setMessage({ type: 'error', text: `Nothing was imported: ${error?.message || 'Unknown error'}` });
+    },
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (id: string) => timeEntryImportsService.rollback(id),
+    onSuccess: (removed) => {
+      invalidateEntries();
+      setMessage({ type: 'success', text: `Rolled back: ${removed} ${removed === 1 ? 'entry' : 'entries'} deleted.` });
+    },
+    onError: (error: any) => {
+      setMessage({ type: 'error', text: `Roll back failed: ${error?.message || 'Unknown error'}` });
+    },
+  });
+
+  const reset = () => {
+    setStep('upload');
+    setSheet(null);
+    setFileName('');
+    setRows([]);
+    setMapping({});
+    setIncludeDuplicates(false);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setMessage(null);
+    try {
+      const parsed = await readImportFile(file);
+      if (parsed.rows.length > MAX_IMPORT_ROWS) {
+        setMessage({ type: 'error', text: `The file has ${parsed.rows.length} rows; import at most ${MAX_IMPORT_ROWS} at a time.` });
+        return;
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setStep('map');
+    } catch (error: any) {
+      setMessage({ type: 'error', text: `Couldn't read ${file.name}: ${error?.message || 'Unknown error'}` });
+    }
+  };
+
+  const checkRows = async () => {
+    if (!sheet) return;
+    setChecking(true);
+    setMessage(null);
+    try {
+      const built = buildImportRows(sheet, mapping, { employees, projects, customers, costCodes }, { dateOrder, isDemo: isDemoMode });
+      const valid = built.filter((r) => r.entry).map((r) => r.entry!);
+      const dates = valid.map((e) => e.date as string).sort();
+      const existing = dates.length
+        ? await timeEntryImportsService.getExistingEntries([...new Set(valid.map((e) => e.user_id as string))], dates[0], dates[dates.length - 1], isDemoMode)
+        : [];
+      setRows(markImportDuplicates(built, existing));
+      setStep('preview');
+    } catch (error: any) {
+      setMessage({ type: 'error', text: `Couldn't check the rows: ${error?.message || 'Unknown error'}` });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const missingRequired = IMPORT_FIELDS.filter((f) => f.required && mapping[f.key] === undefined);
+  const hasHoursSource = mapping.hours !== undefined || (mapping.start_time !== undefined && mapping.end_time !== undefined);
+
+  return (
+    <div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px', flexWrap: 'wrap', gap: '10px' }}>
+        <h2>Import Hours</h2>
+        {step !== 'upload' && (
+          <button className="button button-secondary" onClick={reset}>
+            Start over
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <div
+          style={{
+            padding: '12px 16px',
+            borderRadius: '8px',
+            marginBottom: '16px',
+            backgroundColor: message.type === 'success' ? 'rgba(78, 205, 196, 0.1)' : 'rgba(255, 71, 87, 0.1)',
+            border: `1px solid ${message.type === 'success' ? '#4ecdc4' : '#ff4757'}`,
+            color: message.type === 'success' ? '#4ecdc4' : '#ff4757',
+          }}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {step === 'upload' && (
+        <div className="card" style={{ marginBottom: '24px' }}>
+          <h3 style={{ marginBottom: '8px' }}>1. Choose a file</h3>
+          <p style={{ color: 'var(--text-secondary)', fontSize: '14px', marginBottom: '16px' }}>
+            A CSV or Excel sheet with a header row and one row per entry. You'll need an employee (name, email or
+            employee ID), a date, and either hours or start and end times. Customer, project (number or name), rate type,
+            description and ticket fields are optional.
+          </p>
+          <input type="file" accept=".csv,.txt,.xlsx,.xls" onChange={(e) => void handleFile(e.target.files?.[0])} />
+        </div>
+      )}
+
+      {step === 'map' && sheet && (
+        <div className="card" style={{ marginBottom: '24px' }}>
+          <h3 style={{ marginBottom: '8px' }}>2. Match columns</h3>
+          <p style={{ color: 'var(--text-secondary)', fontSize: '14px', marginBottom: '16px' }}>
+            {fileName} · {sheet.rows.length} rows. Columns with usual names are matched already; check them and pick the rest.
+          </p>
+          <table className="payroll-mini-table">
+            <thead>
+              <tr>
+                <th>Field</th>
+                <th>Column in file</th>
+                <th>First values</th>
+              </tr>
+            </thead>
+            <tbody>
+              {IMPORT_FIELDS.map((field) => {
+                const index = mapping[field.key];
+                return (
+                  <tr key={field.key}>
+                    <td>
+                      {field.label}
+                      {field.required && <span style={{ color: 'var(--error-color)' }}> *</span>}
+                      {field.hint && <div className="payroll-muted" style={{ fontSize: '11px' }}>{field.hint}</div>}
+                    </td>
+                    <td>
+                      <select
+                        className="input"
+                        value={index === undefined ? '' : String(index)}
+                        onChange={(e) =>
+                          setMapping((m) => {
+                            const next = { ...m };
+                            if (e.target.value === '') delete next[field.key as ImportField];
+                            else next[field.key as ImportField] = Number(e.target.value);
+                            return next;
+                          })
+                        }
+                      >
+                        <option value="">— Not in file —</option>
+                        {sheet.headers.map((h, i) => (
+                          <option key={i} value={i}>{h || `Column ${i + 1}`}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="payroll-muted" style={{ fontSize: '12px' }}>
+                      {index === undefined ? '' : sheet.rows.slice(0, 3).map((r) => String(r[index] ?? '')).filter(Boolean).join(' · ')}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="form-group" style={{ marginTop: '16px', maxWidth: '320px' }}>
+            <label className="label">Dates written as</label>
+            <select className="input" value={dateOrder} onChange={(e) => setDateOrder(e.target.value as DateOrder)}>
+              <option value="YMD">2026-03-31 (year first)</option>
+              <option value="MDY">03/31/2026 (month first)</option>
+              <option value="DMY">31/03/2026 (day first)</option>
+            </select>
+          </div>
+
+          {(missingRequired.length > 0 || !hasHoursSource) && (
+            <div style={{ color: 'var(--error-color)', fontSize: '13px', marginBottom: '12px' }}>
+              {missingRequired.length > 0 && `Pick a column for ${missingRequired.map((f) => f.label).join(' and ')}. `}
+              {!hasHoursSource && 'Pick an hours column, or both start and end time columns.'}
+            </div>
+          )}
+
+          <button
+            className="button button-primary"
+            disabled={checking || missingRequired.length > 0 || !hasHoursSource}
+            onClick={() => void checkRows()}
+          >
+            {checking ? 'Checking…' : 'Check rows'}
+          </button>
+        </div>
+      )}
+
+      {step === 'preview' && (
+        <div className="card" style={{ marginBottom: '24px' }}>
+          <h3 style={{ marginBottom: '8px' }}>3. Review and import</h3>
+          <p style={{ color: 'var(--text-secondary)', fontSize: '14px', marginBottom: '12px' }}>
+            {rows.length} rows · <strong>{toImport.length} ready</strong> ({importHours.toFixed(2)}h)
+            {errorCount > 0 && <> · <span style={{ color: 'var(--error-color)' }}>{errorCount} with errors (skipped)</span></>}
+            {duplicateCount > 0 && <> · {duplicateCount} duplicates</>}
+            {warningCount > 0 && <> · {warningCount} with warnings</>}
+          </p>
+          {duplicateCount > 0 && (
+            <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '14px', marginBottom: '12px', cursor: 'pointer' }}>
+              <input type="checkbox" checked={includeDuplicates} onChange={(e) => setIncludeDuplicates(e.target.checked)} />
+              Import duplicates anyway
+            </label>
+          )}
+
+          <div style={{ maxHeight: '55vh', overflow: 'auto', marginBottom: '16px' }}>
+            <table className="payroll-mini-table">
+              <thead>
+                <tr>
+                  <th>Row</th>
+                  <th>Status</th>
+                  <th>Employee</th>
+                  <th>Date</th>
+                  <th>Time</th>
+                  <th>Hours</th>
+                  <th>Project</th>
+                  <th>Description</th>
+                  <th>Notes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => {
+                  const skipped = !row.entry || (!!row.duplicate && !includeDuplicates);
+                  const status = row.errors.length > 0 ? 'Error' : row.duplicate ? (row.duplicate === 'existing' ? 'Already saved' : 'Repeated in file') : 'Ready';
+                  const color = row.errors.length > 0 ? 'var(--error-color)' : row.duplicate ? 'var(--warning-color)' : 'var(--success-color, #22c55e)';
+                  return (
+                    <tr key={row.rowNumber} style={skipped ? { opacity: 0.6 } : undefined}>
+                      <td>{row.rowNumber}</td>
+                      <td style={{ color, fontWeight: 600, whiteSpace: 'nowrap' }}>{status}</td>
+                      <td>{row.employeeName}</td>
+                      <td style={{ whiteSpace: 'nowrap' }}>{row.entry?.date ?? ''}</td>
+                      <td style={{ whiteSpace: 'nowrap' }}>
+                        {row.entry?.start_time ? `${formatTime(row.entry.start_time)}–${formatTime(row.entry.end_time)}` : ''}
+                      </td>
+                      <td>{row.entry ? Number(row.entry.hours).toFixed(2) : ''}</td>
+                      <td className="payroll-muted">{row.projectLabel}{row.entry ? ` · ${row.entry.rate_type}` : ''}</td>
+                      <td className="payroll-muted">{row.entry?.description ?? ''}</td>
+                      <td style={{ fontSize: '12px' }}>
+                        {row.errors.map((e) => (
+                          <div key={e} style={{ color: 'var(--error-color)' }}>{e}</div>
+                        ))}
+                        {row.warnings.map((w) => (
+                          <div key={w} style={{ color: 'var(--text-secondary)' }}>{w}</div>
+                        ))}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div style={{ display: 'flex', gap: '10px' }}>
+            <button className="button button-secondary" onClick={() => setStep('map')} disabled={commitMutation.isPending}>
+              Back to columns
+            </button>
+            <button
+              className="button button-primary"
+              disabled={commitMutation.isPending || toImport.length === 0}
+              onClick={() => {
+                if (window.confirm(`Import ${toImport.length} entries (${importHours.toFixed(2)}h)? You can roll the whole batch back later.`)) {
+                  commitMutation.mutate();
+                }
+              }}
+            >
+              {commitMutation.isPending ? 'Importing…' : `Import ${toImport.length} ${toImport.length === 1 ? 'entry' : 'entries'}`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="card">
+        <h3 style={{ marginBottom: '12px' }}>Recent imports</h3>
+        {history.length === 0 ? (
+          <div className="payroll-muted" style={{ fontStyle: 'italic' }}>No imports yet.</div>
+        ) : (
+          <table className="payroll-mini-table">
+            <thead>
+              <tr>
+                <th>When</th>
+                <th>File</th>
+                <th>By</th>
+                <th>Entries</th>
+                <th>Hours</th>
+                <th>Status</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {history.map((batch: any) => (
+                <tr key={batch.id} style={batch.status === 'rolled_back' ? { opacity: 0.6 } : undefined}>
+                  <td style={{ whiteSpace: 'nowrap' }}>{new Date(batch.created_at).toLocaleString()}</td>
+                  <td>{batch.file_name}</td>
+                  <td className="payroll-muted">{batch.importer ? `${batch.importer.first_name ?? ''} ${batch.importer.last_name ?? ''}`.trim() : '—'}</td>
+                  <td>{batch.entry_count}</td>
+                  <td>{Number(batch.total_hours).toFixed(2)}</td>
+                  <td>
+                    {batch.status === 'rolled_back'
+                      ? `Rolled back ${batch.rolled_back_at ? new Date(batch.rolled_back_at).toLocaleDateString() : ''}`
+                      : 'Imported'}
+                  </td>
+                  <td style={{ textAlign: 'right' }}>
+                    {batch.status === 'committed' && (
+                      <button
+                        type="button"
+                        className="payroll-action-btn"
+                        disabled={rollbackMutation.isPending}
+                        onClick={() => {
+                          if (window.confirm(`Delete all ${batch.entry_count} entries imported from ${batch.file_name}, including any edited since?`)) {
+                            rollbackMutation.mutate(batch.id);
+                          }
+                        }}
+                      >
+                        Roll back
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,11 +4,21 @@ import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { useTimer } from '../context/TimerContext';
 import { useDemoMode } from '../context/DemoModeContext';
-import { timeEntriesService, projectsService, employeesService, customersService, serviceTicketsService } from '../services/supabaseServices';
+import { timeEntriesService, projectsService, employeesService, customersService, serviceTicketsService, leaveDaysService, entryTemplatesService, crewAssignmentsService, costCodesService } from '../services/supabaseServices';
+import { offlineTimeEntriesService } from '../services/offlineQueue';
 import SearchableSelect, { SearchableSelectRef } from '../components/SearchableSelect';
 import { supabase } from '../lib/supabaseClient';
 import { getEntryHoursOnDate, getEntryOverlapSecondsOnDate } from '../utils/timeEntryUtils';
 import { getProjectApproverPoAfe, getProjectHeaderFields } from '../utils/serviceTickets';
+import { formatYmd } from '../utils/payPeriod';
+import { LEAVE_TYPE_LABELS, LeaveDay } from '../utils/leave';
+import { statHolidayOn } from '../utils/statHolidays';
+import { DraftEntry, draftsFromPreviousWeek, draftsFromTemplates, EntryTemplate } from '../utils/entryTemplates';
+import EntryTemplatesModal, { emptyEntryTemplate } from '../components/EntryTemplatesModal';
+import WeekFillModal from '../components/WeekFillModal';
+import { draftsFromAssignments, formatAssignmentTime } from '../utils/dispatch';
+import { costCodeRequired } from '../utils/costCodes';
+import CostCodeSelect from '../components/CostCodeSelect';
 
 interface TimeEntry {
   id: string;
@@ -30,7 +40,7 @@ interface Project {
 
 export default function WeekView() {
   const { user, isAdmin } = useAuth();
-  const { timerRunning, timerStartTime, currentEntry, updateStartTime, updateTimerEntry, stopTimer } = useTimer();
+  const { timerRunning, timerStartTime, currentEntry, updateStartTime, updateTimerEntry, updateTimerDetails, discardTimer } = useTimer();
   const { isDemoMode } = useDemoMode();
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
@@ -68,6 +78,7 @@ export default function WeekView() {
     description: '',
     customer_id: '', // No customer = Internal time
     project_id: '',
+    cost_code_id: '',
     hours: 0.25,
     billable: false, // Determined by rate_type (Internal = not billable)
     rate_type: 'Internal', // Default to Internal since no customer is default
@@ -91,6 +102,7 @@ export default function WeekView() {
     description: '',
     customer_id: '', // For filtering projects
     project_id: '',
+    cost_code_id: '',
     start_time: '',
     end_time: '',
     hours: 0,
@@ -160,6 +172,12 @@ export default function WeekView() {
 
   // Header visibility state (hide on scroll down, show on scroll up)
   const [headerVisible, setHeaderVisible] = useState(true);
+
+  // Entry templates: the editor (optionally opened on a new template from an entry) and the review step for
+  // "Apply templates" / "Copy last week"
+  const [templatesModal, setTemplatesModal] = useState<{ initialDraft: EntryTemplate | null } | null>(null);
+  const [weekFill, setWeekFill] = useState<{ title: string; drafts: DraftEntry[] } | null>(null);
+  const [weekFillLoading, setWeekFillLoading] = useState(false);
   const lastScrollTop = useRef(0);
 
   // Ref for scrollable calendar container
@@ -358,6 +376,21 @@ export default function WeekView() {
     },
   });
 
+  // Approved time off for the week (leave_days), shown in the day headers.
+  const { data: weekLeaveDays = [] } = useQuery({
+    queryKey: ['leaveDays', 'week', formatYmd(weekStart), effectiveUserId],
+    queryFn: () => leaveDaysService.getForRange(formatYmd(weekStart), formatYmd(weekEnd), effectiveUserId),
+    enabled: !!effectiveUserId && !isDemoMode,
+  });
+  const leaveByDate = new Map<string, LeaveDay>(weekLeaveDays.map((d) => [String(d.date).slice(0, 10), d]));
+
+  // Province of the viewed employee, for marking stat holidays (BC when unset).
+  const { data: statJurisdiction = null } = useQuery({
+    queryKey: ['statJurisdiction', effectiveUserId],
+    queryFn: () => employeesService.getJurisdictionForUser(effectiveUserId!),
+    enabled: !!effectiveUserId,
+  });
+
   const { data: projects } = useQuery({
     queryKey: ['projects'],
     queryFn: () => projectsService.getAll(),
@@ -368,6 +401,14 @@ export default function WeekView() {
     queryFn: () => customersService.getAll(),
   });
 
+  const { data: costCodes = [] } = useQuery({
+    queryKey: ['projectCostCodes'],
+    queryFn: () => costCodesService.getAll(),
+  });
+
+  const isCostCodeMissing = (projectId: string, costCodeId: string) =>
+    !costCodeId && costCodeRequired(projects?.find((p: any) => p.id === projectId), costCodes.filter((c) => c.project_id === projectId));
+
   // Fetch current user's employee record to check department
   const { data: currentEmployee } = useQuery({
     queryKey: ['currentEmployee', user?.id],
@@ -381,20 +422,94 @@ export default function WeekView() {
 
   const isPanelShop = currentEmployee?.department === 'Panel Shop';
 
+  const { data: entryTemplates = [] } = useQuery({
+    queryKey: ['entryTemplates', effectiveUserId, isDemoMode],
+    queryFn: () => entryTemplatesService.getForUser(effectiveUserId!, isDemoMode),
+    enabled: !!effectiveUserId,
+  });
+
+  // Dispatch board assignments for the week (Dispatch page), shown above the grid.
+  const { data: weekAssignments = [] } = useQuery({
+    queryKey: ['crewAssignments', formatYmd(weekStart), isDemoMode, effectiveUserId],
+    queryFn: () => crewAssignmentsService.getForRange(formatYmd(weekStart), formatYmd(weekEnd), isDemoMode, effectiveUserId),
+    enabled: !!effectiveUserId,
+  });
+
+  const draftOptions = () => ({ userId: effectiveUserId!, isDemo: isDemoMode, isPanelShop });
+
+  const openFromSchedule = () => {
+    if (!effectiveUserId) return;
+    setWeekFill({ title: 'Log time from schedule', drafts: draftsFromAssignments(weekAssignments, timeEntries || [], projects || [], draftOptions()) });
+  };
+
+  const openApplyTemplates = () => {
+    if (!effectiveUserId) return;
+    const scheduled = entryTemplates.filter((t) => t.repeat_weekdays.length > 0 || t.repeat_dates.length > 0);
+    if (scheduled.length === 0) {
+      alert('None of your templates repeat on any days yet. Set repeat days under Templates.');
+      return;
+    }
+    setWeekFill({ title: 'Apply templates to this week', drafts: draftsFromTemplates(scheduled, weekStart, timeEntries || [], draftOptions()) });
+  };
+
+  const openCopyLastWeek = async () => {
+    if (!effectiveUserId) return;
+    setWeekFillLoading(true);
+    try {
+      const prevStart = new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() - 7);
+      const prevEnd = new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() - 1);
+      const [from, to] = [formatYmd(prevStart), formatYmd(prevEnd)];
+      const allEntries = await timeEntriesService.getAll(isDemoMode, effectiveUserId);
+      const lastWeek = (allEntries || []).filter((e: any) => {
+        const date = String(e.date).slice(0, 10);
+        return date >= from && date <= to;
+      });
+      setWeekFill({ title: 'Copy last week', drafts: draftsFromPreviousWeek(lastWeek, timeEntries || [], draftOptions()) });
+    } catch (error: any) {
+      alert('Could not load last week: ' + (error?.message || 'Unknown error'));
+    } finally {
+      setWeekFillLoading(false);
+    }
+  };
+
+  const saveEntryAsTemplate = (entry: any) => {
+    if (!effectiveUserId) return;
+    const start = entry.start_time ? new Date(entry.start_time) : null;
+    const project = projects?.find((p: any) => p.id === entry.project_id);
+    setTemplatesModal({
+      initialDraft: {
+        ...emptyEntryTemplate(effectiveUserId, isDemoMode),
+        name: entry.description?.trim() || project?.name || '',
+        description: entry.description || '',
+        customer_id: entry.customer_id ?? project?.customer_id ?? null,
+        project_id: entry.project_id || null,
+        cost_code_id: (entry.project_id && entry.cost_code_id) || null,
+        rate_type: entry.rate_type || 'Shop Time',
+        start_time: start ? `${String(start.getHours()).padStart(2, '0')}:${String(start.getMinutes()).padStart(2, '0')}` : '08:00',
+        hours: Math.round((Number(entry.hours) || 1) * 100) / 100,
+        location: entry.location || null,
+        approver: entry.approver || null,
+        po_afe: entry.po_afe || null,
+        cc: entry.cc || null,
+        other: entry.other || null,
+      },
+    });
+  };
+
   // For Panel Shop employees, billable is always false (they only have Shop Time)
   // For other employees, billable is determined by rate_type (Internal = not billable)
 
   const createTimeEntryMutation = useMutation({
     mutationFn: async (data: any) => {
       console.log('Creating time entry:', data);
-      const result = await timeEntriesService.create(data);
+      const result = await offlineTimeEntriesService.create(data);
       console.log('Time entry created:', result);
       return result;
     },
     onSuccess: async (data) => {
       console.log('Time entry saved successfully:', data);
-      // Sync approver/po_afe/cc to draft service ticket
-      if (data?.customer_id) {
+      // Sync approver/po_afe/cc to draft service ticket (entries saved offline sync theirs when they're sent)
+      if (data?.customer_id && !data._offline) {
         await serviceTicketsService.syncTicketHeaderFromTimeEntry({
           date: data.date,
           userId: data.user_id,
@@ -413,7 +528,7 @@ export default function WeekView() {
       await queryClient.invalidateQueries({ queryKey: ['existingServiceTickets'] });
       await refetchTimeEntries();
       setShowTimeEntryModal(false);
-      setNewEntry({ description: '', customer_id: '', project_id: '', hours: 0.25, billable: false, rate_type: 'Internal', location: '', approver: '', poAfe: '', cc: '', other: '' });
+      setNewEntry({ description: '', customer_id: '', project_id: '', cost_code_id: '', hours: 0.25, billable: false, rate_type: 'Internal', location: '', approver: '', poAfe: '', cc: '', other: '' });
       setSelectedSlot(null);
     },
     onError: (error: any) => {
@@ -440,7 +555,7 @@ export default function WeekView() {
   const updateTimeEntryMutation = useMutation<any, any, UpdateTimeEntryVariables>({
     mutationFn: async ({ id, data }) => {
       console.log('Updating time entry:', id, data);
-      const result = await timeEntriesService.update(id, data);
+      const result = await offlineTimeEntriesService.update(id, data);
       console.log('Time entry updated:', result);
       return result;
     },
@@ -449,6 +564,14 @@ export default function WeekView() {
       const dateStr = typeof data.date === 'string' ? data.date : new Date(data.date).toISOString().split('T')[0];
       const { oldGroup } = variables;
 
+      // Saved offline: service tickets are brought up to date when the change is sent
+      if (data?._offline) {
+        await queryClient.invalidateQueries({ queryKey: ['timeEntries'], exact: false });
+        setShowEditModal(false);
+        setEditingEntry(null);
+        return;
+      }
+
       // If entry's project/customer was changed, remove the old draft ticket (it no longer has any time entries)
       if (oldGroup && data?.project_id !== oldGroup.projectId && oldGroup.customerId) {
         await serviceTicketsService.deleteTicketIfNoTimeEntriesFor({
@@ -516,7 +639,8 @@ export default function WeekView() {
     }) => {
       const { id, date, userId, customerId, projectId, location, approver, po_afe, cc } = payload;
       console.log('Deleting time entry:', id);
-      await timeEntriesService.delete(id);
+      const queued = await offlineTimeEntriesService.delete(id);
+      if (queued) return;
       await serviceTicketsService.deleteTicketIfNoTimeEntriesFor({
         date, userId, customerId, projectId, location, approver, po_afe, cc,
       }, isDemoMode);
@@ -745,6 +869,7 @@ export default function WeekView() {
       description: '',
       customer_id: '',
       project_id: '',
+      cost_code_id: '',
       hours: initialHours,
       billable: false, // No customer = Internal = not billable
       rate_type: 'Internal',
@@ -764,6 +889,10 @@ export default function WeekView() {
       alert('Please select both a customer and a project');
       return;
     }
+    if (isCostCodeMissing(newEntry.project_id, newEntry.cost_code_id)) {
+      alert('This project requires a phase / cost code');
+      return;
+    }
     
     // Validate hours are within reasonable range (0 to 24)
     if (newEntry.hours <= 0 || newEntry.hours > 24) {
@@ -810,6 +939,7 @@ export default function WeekView() {
       location: newEntry.location || null,
       customer_id: newEntry.customer_id || null,
       project_id: newEntry.project_id || null,
+      cost_code_id: (newEntry.project_id && newEntry.cost_code_id) || null,
       approver: newEntry.approver?.trim() || null,
       po_afe: newEntry.poAfe?.trim() || null,
       cc: newEntry.cc?.trim() || null,
@@ -891,6 +1021,7 @@ export default function WeekView() {
       description: entry.description || '',
       customer_id: customerId,
       project_id: entry.project_id || '',
+      cost_code_id: entry.cost_code_id || '',
       start_time: parseTime(entry.start_time),
       end_time: parseTime(entry.end_time),
       hours: entry.hours || 0,
@@ -967,6 +1098,7 @@ export default function WeekView() {
       location: entry.location ?? null,
       customer_id: customerId,
       project_id: entry.project_id || null,
+      cost_code_id: entry.project_id ? entry.cost_code_id ?? null : null,
       approver: entry.approver?.trim() || null,
       po_afe: entry.po_afe?.trim() || null,
       cc: entry.cc?.trim() || null,
@@ -1028,11 +1160,11 @@ export default function WeekView() {
       hours: hours,
       date: dateStr,
       billable: true,
-      rate_type: 'Shop Time',
+      rate_type: currentEntry.rateType || 'Shop Time',
     };
     
     setEditingEntry(timerEntry);
-    // Look up customer_id and project defaults (timer doesn't store location/approver/po/cc)
+    // Look up customer_id; project defaults fill any details the timer doesn't have
     const timerProject = projects?.find((p: any) => p.id === currentEntry.projectId);
     const fields = getProjectHeaderFields(timerProject);
     const timerCustomerId = timerProject?.customer_id || '';
@@ -1042,16 +1174,17 @@ export default function WeekView() {
       description: currentEntry.description || '',
       customer_id: timerCustomerId,
       project_id: currentEntry.projectId || '',
+      cost_code_id: currentEntry.costCodeId || '',
       start_time: formatTime(startDate),
       end_time: formatTime(now),
       hours: hours,
       billable: !timerIsIonexSystems,
-      rate_type: timerIsIonexSystems ? 'Internal' : 'Shop Time',
-      location: (currentEntry as any).location || timerProject?.location || '',
-      approver: fields.approver,
-      poAfe: fields.poAfe,
-      cc: fields.cc,
-      other: fields.other,
+      rate_type: timerIsIonexSystems ? 'Internal' : currentEntry.rateType || 'Shop Time',
+      location: currentEntry.location || timerProject?.location || '',
+      approver: currentEntry.approver || fields.approver,
+      poAfe: currentEntry.poAfe || fields.poAfe,
+      cc: currentEntry.cc || fields.cc,
+      other: currentEntry.other || fields.other,
     });
     setEditDurationInputRaw(null);
     setShowEditModal(true);
@@ -1091,6 +1224,15 @@ export default function WeekView() {
         editedEntry.project_id || undefined,
         selectedProject?.name
       );
+      updateTimerDetails({
+        costCodeId: (editedEntry.project_id && editedEntry.cost_code_id) || null,
+        rateType: editedEntry.rate_type,
+        location: editedEntry.location,
+        approver: editedEntry.approver,
+        poAfe: editedEntry.poAfe,
+        cc: editedEntry.cc,
+        other: editedEntry.other,
+      });
       
       // If start time was changed, update it
       if (timerStartTime) {
@@ -1114,6 +1256,11 @@ export default function WeekView() {
       return;
     }
     
+    if (isCostCodeMissing(editedEntry.project_id, editedEntry.cost_code_id)) {
+      alert('This project requires a phase / cost code');
+      return;
+    }
+
     // Parse the date from the original entry - handle both string and Date formats
     // If it's a string like "2024-01-15", parse it carefully to avoid timezone issues
     let entryDate: Date;
@@ -1153,6 +1300,7 @@ export default function WeekView() {
       location: editedEntry.location || null,
       customer_id: editedEntry.customer_id || null,
       project_id: editedEntry.project_id || null,
+      cost_code_id: (editedEntry.project_id && editedEntry.cost_code_id) || null,
       approver: editedEntry.approver?.trim() || null,
       po_afe: editedEntry.poAfe?.trim() || null,
       cc: editedEntry.cc?.trim() || null,
@@ -1205,7 +1353,7 @@ export default function WeekView() {
     // If it's a running timer, stop it instead of deleting
     if (editingEntry.isRunningTimer || !editingEntry.id) {
       if (window.confirm('Are you sure you want to stop and discard this timer?')) {
-        stopTimer();
+        discardTimer().catch((error) => alert(error instanceof Error ? error.message : 'Failed to discard timer'));
         setShowEditModal(false);
         setEditingEntry(null);
       }
@@ -1889,6 +2037,35 @@ export default function WeekView() {
       </div>
 
         <div style={{ display: 'flex', alignItems: 'center', gap: '15px' }}>
+          {/* Templates and week fill */}
+          <div style={{ display: 'flex', gap: '5px' }}>
+            <button
+              className="button"
+              onClick={() => setTemplatesModal({ initialDraft: null })}
+              style={{ backgroundColor: 'transparent', color: 'var(--text-primary)', padding: '6px 12px', fontSize: '13px', border: '1px solid var(--border-color)' }}
+              title="Saved entries you log often, and the days they repeat on"
+            >
+              Templates
+            </button>
+            <button
+              className="button"
+              onClick={openApplyTemplates}
+              style={{ backgroundColor: 'transparent', color: 'var(--text-primary)', padding: '6px 12px', fontSize: '13px', border: '1px solid var(--border-color)' }}
+              title="Propose entries for this week from your repeating templates"
+            >
+              Apply templates
+            </button>
+            <button
+              className="button"
+              onClick={() => void openCopyLastWeek()}
+              disabled={weekFillLoading}
+              style={{ backgroundColor: 'transparent', color: 'var(--text-primary)', padding: '6px 12px', fontSize: '13px', border: '1px solid var(--border-color)', opacity: weekFillLoading ? 0.6 : 1 }}
+              title="Propose last week's entries again for this week"
+            >
+              {weekFillLoading ? 'Loading…' : 'Copy last week'}
+            </button>
+          </div>
+
           {/* View toggles */}
           <div style={{ display: 'flex', gap: '5px' }}>
             <button
@@ -1979,6 +2156,47 @@ export default function WeekView() {
           </div>
         </div>
 
+      {/* Crew schedule from the dispatch board */}
+      {weekAssignments.length > 0 && (
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '12px',
+          padding: '10px 20px',
+          borderBottom: '1px solid var(--border-color)',
+          backgroundColor: 'var(--bg-secondary)',
+          overflowX: 'auto',
+        }}>
+          <span style={{ fontSize: '11px', fontWeight: 600, textTransform: 'uppercase', letterSpacing: '0.5px', color: 'var(--text-secondary)', flexShrink: 0 }}>
+            Schedule
+          </span>
+          {weekAssignments.map((a) => {
+            const project = projects?.find((p: any) => p.id === a.project_id);
+            return (
+              <span
+                key={a.id}
+                title={a.notes || undefined}
+                style={{ fontSize: '12px', whiteSpace: 'nowrap', flexShrink: 0, paddingLeft: '6px', borderLeft: `3px solid ${project?.color || 'var(--border-color)'}` }}
+              >
+                <strong>{new Date(`${String(a.date).slice(0, 10)}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short' })}</strong>{' '}
+                {project ? (project.project_number ? `${project.project_number} – ${project.name}` : project.name) : 'Shop / internal'}
+                {' · '}{formatAssignmentTime(a)}
+                {a.location ? ` · ${a.location}` : ''}
+                {a.notes ? ' 📝' : ''}
+              </span>
+            );
+          })}
+          <button
+            className="button"
+            onClick={openFromSchedule}
+            style={{ marginLeft: 'auto', flexShrink: 0, backgroundColor: 'transparent', color: 'var(--text-primary)', padding: '4px 10px', fontSize: '12px', border: '1px solid var(--border-color)' }}
+            title="Propose time entries for this week from your scheduled assignments"
+          >
+            From schedule
+          </button>
+        </div>
+      )}
+
       {/* List View */}
       {viewMode === 'list' && (
         <div style={{ flex: 1, overflow: 'auto', backgroundColor: 'var(--bg-primary)' }}>
@@ -2298,6 +2516,8 @@ export default function WeekView() {
             const dayNum = String(day.date.getDate()).padStart(2, '0');
             const dateStr = `${year}-${month}-${dayNum}`;
             const dayEntries = timeEntries?.filter((e: any) => getEntryHoursOnDate(e, dateStr) > 0) || [];
+            const leave = leaveByDate.get(dateStr);
+            const holiday = statHolidayOn(statJurisdiction, dateStr);
 
             return (
               <div
@@ -2316,7 +2536,7 @@ export default function WeekView() {
                 <div style={{
                   height: '50px',
                   borderBottom: '1px solid var(--border-color)',
-                  backgroundColor: day.isToday ? '#dc262650' : 'var(--bg-secondary)',
+                  backgroundColor: day.isToday ? '#dc262650' : leave ? 'rgba(78, 205, 196, 0.15)' : holiday ? 'rgba(255, 193, 7, 0.15)' : 'var(--bg-secondary)',
                   padding: '8px 12px',
                   display: 'flex',
                   flexDirection: 'column',
@@ -2354,6 +2574,19 @@ export default function WeekView() {
                   </div>
                   <div style={{ fontSize: '11px', color: 'var(--text-secondary)' }}>
                     {getDayTotal(day.date)}
+                    {leave && (
+                      <span
+                        style={{ color: '#4ecdc4', fontWeight: 600 }}
+                        title={`${LEAVE_TYPE_LABELS[leave.leave_type]} leave (${leave.is_paid ? 'paid' : 'unpaid'})`}
+                      >
+                        {' · '}🌴 {LEAVE_TYPE_LABELS[leave.leave_type]} {leave.hours}h
+                      </span>
+                    )}
+                    {holiday && (
+                      <span style={{ color: '#f59e0b', fontWeight: 600 }} title={`Stat holiday: ${holiday.name}`}>
+                        {' · '}🎉 {holiday.name}
+                      </span>
+                    )}
                   </div>
                 </div>
 
@@ -2870,6 +3103,28 @@ export default function WeekView() {
               Duplicate
             </button>
           )}
+          {canDuplicate && (
+            <button
+              type="button"
+              role="menuitem"
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                setContextMenuEntry(null);
+                saveEntryAsTemplate(entry);
+              }}
+              style={contextMenuRowStyle}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.backgroundColor = 'var(--bg-tertiary)';
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.backgroundColor = 'transparent';
+              }}
+            >
+              <span style={{ opacity: 0.8 }}>☆</span>
+              Save as template
+            </button>
+          )}
           <div
             style={{
               height: 1,
@@ -3303,7 +3558,7 @@ export default function WeekView() {
                           })) || []}
                         value={newEntry.project_id}
                         onChange={async (projectId) => {
-                          setNewEntry(prev => ({ ...prev, project_id: projectId }));
+                          setNewEntry(prev => ({ ...prev, project_id: projectId, cost_code_id: '' }));
                           
                           if (!projectId) {
                             setNewEntry(prev => ({ ...prev, location: '', approver: '', poAfe: '', cc: '', other: '' }));
@@ -3330,6 +3585,14 @@ export default function WeekView() {
                 </div>
               )}
 
+              <CostCodeSelect
+                codes={costCodes}
+                projectId={newEntry.project_id}
+                value={newEntry.cost_code_id}
+                onChange={(costCodeId) => setNewEntry(prev => ({ ...prev, cost_code_id: costCodeId || '' }))}
+                required={costCodeRequired(projects?.find((p: any) => p.id === newEntry.project_id), costCodes.filter((c) => c.project_id === newEntry.project_id))}
+              />
+
               {/* 5. Location, PO/AFE, Rate Type, Description - only when project is selected */}
               {newEntry.project_id && (
                 <>
@@ -3751,7 +4014,7 @@ export default function WeekView() {
                           })) || []}
                         value={editedEntry.project_id}
                         onChange={async (projectId) => {
-                          setEditedEntry(prev => ({ ...prev, project_id: projectId }));
+                          setEditedEntry(prev => ({ ...prev, project_id: projectId, cost_code_id: '' }));
                           
                           if (!projectId) {
                             setEditedEntry(prev => ({ ...prev, location: '', approver: '', poAfe: '', cc: '', other: '' }));
@@ -3778,6 +4041,16 @@ export default function WeekView() {
                 </div>
               )}
 
+              {!editingEntry?.isRunningTimer && (
+                <CostCodeSelect
+                  codes={costCodes}
+                  projectId={editedEntry.project_id}
+                  value={editedEntry.cost_code_id}
+                  onChange={(costCodeId) => setEditedEntry(prev => ({ ...prev, cost_code_id: costCodeId || '' }))}
+                  required={costCodeRequired(projects?.find((p: any) => p.id === editedEntry.project_id), costCodes.filter((c) => c.project_id === editedEntry.project_id))}
+                />
+              )}
+
               {/* 5. Location input - only when customer selected */}
               {editedEntry.customer_id && (
                 <div className="form-group" style={{ marginBottom: '20px' }}>
@@ -4169,6 +4442,34 @@ export default function WeekView() {
           </div>
         </div>
       )}
+
+      {templatesModal && effectiveUserId && (
+        <EntryTemplatesModal
+          userId={effectiveUserId}
+          isDemo={isDemoMode}
+          templates={entryTemplates}
+          projects={projects || []}
+          customers={customers || []}
+          costCodes={costCodes}
+          isPanelShop={isPanelShop}
+          initialDraft={templatesModal.initialDraft}
+          onClose={() => setTemplatesModal(null)}
+        />
+      )}
+
+      {weekFill && (
+        <WeekFillModal
+          title={weekFill.title}
+          drafts={weekFill.drafts}
+          projects={projects || []}
+          onSaved={() => {
+            queryClient.invalidateQueries({ queryKey: ['timeEntries'], exact: false });
+            queryClient.invalidateQueries({ queryKey: ['billableEntries'] });
+            queryClient.invalidateQueries({ queryKey: ['existingServiceTickets'] });
+          }}
+          onClose={() => setWeekFill(null)}
+        />
+      )}
     </div>
   );
 }
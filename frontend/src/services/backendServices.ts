@@ -0,0 +1,280 @@
+import { apiFetch } from '../lib/apiClient';
+import {
+  PortalBatchSnapshot,
+  PortalLink,
+  PortalOutcome,
+  PortalSignature,
+  PortalTicketDecision,
+} from '../utils/approvalPortal';
+import { ApprovalRole, FormDecision, FormDefinition, FormStatus } from '../utils/forms';
+import { LEAVE_TYPE_LABELS, LeaveBalance, TIME_OFF_FORM_TYPE, TimeOffRequest } from '../utils/leave';
+
+// Service functions for the Express backend (routes that need server-side secrets)
+
+export type QuickBooksStatus = {
+  connected: boolean;
+  realmId: string | null;
+  expiresAt: string | null;
+  updatedAt: string | null;
+};
+
+export type QuickBooksInvoiceLine = {
+  kind: 'labour' | 'expense';
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  /** QuickBooks TaxCode name or Id (TaxCodeRef). */
+  taxCode: string;
+  serviceDate?: string;
+};
+
+export type QuickBooksInvoicePush = {
+  group_id: string;
+  /** 'pending' while a push runs, or when one stopped before the invoice was recorded. */
+  status: 'pending' | 'pushed';
+  /** Null until the batch's first push has created its invoice. */
+  qbo_invoice_id: string | null;
+  qbo_doc_number: string | null;
+  total_amount: number | null;
+  line_count: number | null;
+  pushed_at: string;
+  pushed_by: string | null;
+};
+
+export const quickbooksService = {
+  async getStatus(): Promise<QuickBooksStatus> {
+    return apiFetch<QuickBooksStatus>('/api/quickbooks/status');
+  },
+
+  /** Navigates the browser to Intuit's consent screen; the backend callback redirects back to /profile. */
+  async connect(): Promise<void> {
+    const { url } = await apiFetch<{ url: string }>('/api/quickbooks/connect');
+    window.location.href = url;
+  },
+
+  async refresh(): Promise<QuickBooksStatus> {
+    return apiFetch<QuickBooksStatus>('/api/quickbooks/refresh', { method: 'POST' });
+  },
+
+  async disconnect(): Promise<void> {
+    await apiFetch('/api/quickbooks/connection', { method: 'DELETE' });
+  },
+
+  async getPushedInvoices(): Promise<QuickBooksInvoicePush[]> {
+    return apiFetch<QuickBooksInvoicePush[]>('/api/quickbooks/invoices');
+  },
+
+  async pushInvoice(payload: {
+    groupId: string;
+    customerName: string;
+    lines: QuickBooksInvoiceLine[];
+    txnDate?: string;
+    privateNote?: string;
+    force?: boolean;
+  }): Promise<{ invoice: { Id: string; DocNumber?: string; TotalAmt?: number }; push: QuickBooksInvoicePush }> {
+    return apiFetch('/api/quickbooks/invoices', { method: 'POST', body: JSON.stringify(payload) });
+  },
+};
+
+export type MailStatus = {
+  configured: boolean;
+  host: string | null;
+  from: string | null;
+};
+
+/** Row from `invoiced_batch_emails`: one attempt to email a batch. */
+export type BatchEmail = {
+  id: string;
+  group_id: string;
+  customer_name: string | null;
+  kind: 'approval' | 'invoice';
+  to_addresses: string[];
+  cc_addresses: string[];
+  subject: string;
+  attachment_name: string | null;
+  attachment_bytes: number | null;
+  status: 'sent' | 'failed' | 'bounced';
+  error: string | null;
+  rejected_addresses: string[];
+  message_id: string | null;
+  sent_by: string | null;
+  sent_at: string;
+  bounced_at: string | null;
+};
+
+export const mailService = {
+  async getStatus(): Promise<MailStatus> {
+    return apiFetch<MailStatus>('/api/mail/status');
+  },
+
+  async getBatchEmails(groupId?: string): Promise<BatchEmail[]> {
+    return apiFetch<BatchEmail[]>(`/api/mail/batch-emails${groupId ? `?groupId=${encodeURIComponent(groupId)}` : ''}`);
+  },
+
+  /** Sends the batch PDF; rejects (with the recorded attempt in the log) when nothing was delivered. */
+  async sendBatch(payload: {
+    groupId: string;
+    customerName: string;
+    kind: 'approval' | 'invoice';
+    to: string[];
+    cc: string[];
+    subject: string;
+    body: string;
+    attachment: { filename: string; contentBase64: string };
+  }): Promise<{ send: BatchEmail }> {
+    return apiFetch('/api/mail/batch-emails', { method: 'POST', body: JSON.stringify(payload) });
+  },
+};
+
+/** A completed link with what the approver decided and the batch they signed, for the Invoices page. */
+export type PortalLinkDetail = PortalLink & {
+  signature: PortalSignature | null;
+  snapshot: PortalBatchSnapshot;
+  decisions: Array<PortalTicketDecision & { ticket_number: string | null; decided_at: string }>;
+};
+
+/** What the public portal page gets for a token. */
+export type PortalSession = {
+  customerName: string | null;
+  projectNumber: string | null;
+  approverName: string | null;
+  expiresAt: string;
+  completedAt: string | null;
+  outcome: PortalOutcome | null;
+  signerName: string | null;
+  signedAt: string | null;
+  snapshot: PortalBatchSnapshot;
+  decisions: PortalTicketDecision[];
+};
+
+export const approvalPortalService = {
+  async getLinks(groupId?: string): Promise<PortalLink[]> {
+    return apiFetch<PortalLink[]>(`/api/approval-portal/links${groupId ? `?groupId=${encodeURIComponent(groupId)}` : ''}`);
+  },
+
+  async getLink(id: string): Promise<PortalLinkDetail> {
+    return apiFetch<PortalLinkDetail>(`/api/approval-portal/links/${encodeURIComponent(id)}`);
+  },
+
+  /** The returned url holds the token; it is not stored and can't be fetched again. */
+  async createLink(payload: {
+    groupId: string;
+    customerName: string;
+    projectNumber?: string | null;
+    workflowId?: string | null;
+    approverName?: string;
+    approverEmail?: string;
+    expiresInDays: number;
+    notify: boolean;
+    snapshot: PortalBatchSnapshot;
+  }): Promise<{ link: PortalLink; url: string; email: { status: BatchEmail['status']; error: string | null } | null }> {
+    return apiFetch('/api/approval-portal/links', { method: 'POST', body: JSON.stringify(payload) });
+  },
+
+  async revokeLink(id: string): Promise<void> {
+    await apiFetch(`/api/approval-portal/links/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  },
+
+  async openSession(token: string): Promise<PortalSession> {
+    return apiFetch<PortalSession>(`/api/approval-portal/session/${encodeURIComponent(token)}`);
+  },
+
+  async submit(
+    token: string,
+    payload: {
+      decisions: PortalTicketDecision[];
+      signature: Omit<PortalSignature, 'signedAt'>;
+    }
+  ): Promise<{ outcome: PortalOutcome; statusAdvanced: boolean }> {
+    return apiFetch(`/api/approval-portal/session/${encodeURIComponent(token)}/submit`, { method: 'POST', body: JSON.stringify(payload) });
+  },
+};
+
+type FormPerson = { id: string; first_name: string | null; last_name: string | null; email: string };
+
+/** Row from `form_approvals`: one decision on one step of a form's approval chain. */
+export type FormApproval = {
+  id: string;
+  step: number;
+  role: ApprovalRole;
+  decision: FormDecision | 'reopened';
+  decided_at: string;
+  notes: string | null;
+  decider: FormPerson | null;
+};
+
+export type FormRecord = {
+  id: string;
+  employee_id: string;
+  form_type: string;
+  title: string;
+  content: string | null;
+  status: FormStatus;
+  /** Index into the form type's approval chain while pending. */
+  current_step: number;
+  submitted_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  notes: string | null;
+  employee?: {
+    id: string;
+    supervisor_user_id: string | null;
+    user: FormPerson | null;
+  } | null;
+  approvals?: FormApproval[];
+};
+
+export type LeaveBalanceSummary = LeaveBalance & { pending: number };
+
+/**
+ * /api/forms — submissions are validated against the form type's definition and move through its
+ * approval chain. Time-off requests are checked against leave balances and book leave days on approval.
+ */
+export const formsApi = {
+  async list(filters: { status?: string; formType?: string; employeeId?: string } = {}): Promise<FormRecord[]> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([k, v]) => { if (v) params.set(k, v); });
+    const qs = params.toString();
+    return apiFetch<FormRecord[]>(`/api/forms${qs ? `?${qs}` : ''}`);
+  },
+
+  /** Pending forms waiting on the caller's decision. */
+  async inbox(): Promise<FormRecord[]> {
+    return apiFetch<FormRecord[]>('/api/forms/inbox');
+  },
+
+  async submit(definition: FormDefinition, content: Record<string, unknown>, title?: string): Promise<FormRecord> {
+    return apiFetch<FormRecord>('/api/forms', {
+      method: 'POST',
+      body: JSON.stringify({ formType: definition.type, title: title || undefined, content }),
+    });
+  },
+
+  async requestTimeOff(request: TimeOffRequest): Promise<FormRecord> {
+    const title = `${LEAVE_TYPE_LABELS[request.leaveType]} leave ${request.startDate}${request.endDate !== request.startDate ? ` to ${request.endDate}` : ''}`;
+    return apiFetch<FormRecord>('/api/forms', {
+      method: 'POST',
+      body: JSON.stringify({ formType: TIME_OFF_FORM_TYPE, title, content: request }),
+    });
+  },
+
+  /** Approve or reject the form's current step (its supervisor, or an admin — which completes the chain). */
+  async decide(id: string, decision: FormDecision, notes?: string): Promise<FormRecord> {
+    return apiFetch<FormRecord>(`/api/forms/${id}/decision`, { method: 'POST', body: JSON.stringify({ decision, notes }) });
+  },
+
+  /** Admin override: set the status outright (a decided form is reopened first). */
+  async review(id: string, status: FormRecord['status'], notes?: string): Promise<FormRecord> {
+    return apiFetch<FormRecord>(`/api/forms/${id}`, { method: 'PUT', body: JSON.stringify({ status, notes }) });
+  },
+
+  async remove(id: string): Promise<void> {
+    await apiFetch(`/api/forms/${id}`, { method: 'DELETE' });
+  },
+
+  /** Caller's balances, or any employee's for admins. */
+  async getLeaveBalances(employeeId?: string): Promise<LeaveBalanceSummary[]> {
+    return apiFetch<LeaveBalanceSummary[]>(`/api/forms/leave-balances${employeeId ? `?employeeId=${encodeURIComponent(employeeId)}` : ''}`);
+  },
+};
@@ -0,0 +1,317 @@
+import { supabase } from '../lib/supabaseClient';
+import {
+  addQueuedChange,
+  findCachedRow,
+  isNetworkError,
+  listQueuedChanges,
+  putQueuedChange,
+  QueuedChange,
+  QueuedTable,
+  removeQueuedChange,
+} from '../lib/offlineDb';
+import { serviceTicketsService, timeEntriesService, userExpensesService } from './supabaseServices';
+
+/**
+ * Offline-aware writes for the field pages (week view, day view, expenses). Each write goes to
+ * Supabase when there is a connection; without one it is queued in IndexedDB and the page gets
+ * the row back marked `_offline`. `syncQueuedChanges` replays the queue in order on reconnect.
+ * An update or delete whose row changed on the server since this device last saw it (`updated_at`)
+ * is held as a conflict for the user to resolve instead of overwriting the newer copy.
+ * Changes are tagged with the signed-in user: another user signing in on the same device neither
+ * sees nor replays them, and they sync when their owner signs in again.
+ */
+
+export type { QueuedChange } from '../lib/offlineDb';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+export function subscribeOfflineQueue(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notify() {
+  listeners.forEach((l) => l());
+}
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/** UUID generated on the device so a row created offline keeps its id when it reaches the server. */
+export function newRecordId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/** Signed-in user from the stored session (available offline). */
+async function currentUserId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user?.id ?? null;
+}
+
+/** The signed-in user's queued changes. */
+export async function listMyQueuedChanges(): Promise<QueuedChange[]> {
+  return listQueuedChanges(await currentUserId());
+}
+
+async function hasQueuedChanges(table: QueuedTable, recordId: string) {
+  return (await listMyQueuedChanges()).some((c) => c.table === table && c.recordId === recordId);
+}
+
+/**
+ * Try `online` unless the device is offline or earlier changes to the same row are still queued
+ * (they must reach the server first). Returns undefined when the write should be queued.
+ */
+async function tryOnline<T>(table: QueuedTable, recordId: string, online: () => Promise<T>): Promise<T | undefined> {
+  if (isOffline() || (await hasQueuedChanges(table, recordId))) return undefined;
+  try {
+    return await online();
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    return undefined;
+  }
+}
+
+async function queue(change: Omit<QueuedChange, 'seq' | 'queuedAt' | 'status' | 'userId'>) {
+  const userId = await currentUserId();
+  if (!userId) throw new Error('Not authenticated');
+  await addQueuedChange({ ...change, userId });
+  notify();
+}
+
+export const offlineTimeEntriesService = {
+  async create(entry: Record<string, any>): Promise<any> {
+    const row = { ...entry, id: entry.id ?? newRecordId() };
+    const saved = await tryOnline('time_entries', row.id, () => timeEntriesService.create(row));
+    if (saved !== undefined) return saved;
+    await queue({ table: 'time_entries', op: 'create', recordId: row.id, payload: row, baseUpdatedAt: null });
+    return { ...row, _offline: true };
+  },
+
+  async update(id: string, updates: Record<string, any>): Promise<any> {
+    const saved = await tryOnline('time_entries', id, () => timeEntriesService.update(id, updates));
+    if (saved !== undefined) return saved;
+    const cached = await findCachedRow('time_entries', id);
+    await queue({
+      table: 'time_entries',
+      op: 'update',
+      recordId: id,
+      payload: updates,
+      baseUpdatedAt: cached?.updated_at ?? null,
+      snapshot: cached,
+    });
+    return { ...(cached ?? {}), ...updates, id, _offline: true };
+  },
+
+  /** Resolves to true when the delete was queued (service ticket clean-up then runs on sync). */
+  async delete(id: string): Promise<boolean> {
+    const deleted = await tryOnline('time_entries', id, () => timeEntriesService.delete(id).then(() => true));
+    if (deleted !== undefined) return false;
+    const cached = await findCachedRow('time_entries', id);
+    await queue({
+      table: 'time_entries',
+      op: 'delete',
+      recordId: id,
+      payload: {},
+      baseUpdatedAt: cached?.updated_at ?? null,
+      snapshot: cached,
+    });
+    return true;
+  },
+};
+
+export const offlineExpensesService = {
+  /**
+   * Queue receipt expenses entered offline. Lines from one receipt share the image; it is uploaded
+   * once on sync and its storage path is set on every line.
+   */
+  async queueCreate(expenses: Record<string, any>[], receipt?: { blob: Blob; name: string } | null): Promise<any[]> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user) throw new Error('Not authenticated');
+    const receiptGroup = receipt ? newRecordId() : undefined;
+    const rows = expenses.map((e) => ({ ...e, id: newRecordId(), user_id: session.user.id }));
+    for (const row of rows) {
+      await addQueuedChange({
+        userId: session.user.id,
+        table: 'user_expenses',
+        op: 'create',
+        recordId: row.id,
+        payload: { ...row, ...(receiptGroup ? { _receiptGroup: receiptGroup } : {}) },
+        baseUpdatedAt: null,
+        receipt: receipt?.blob ?? null,
+        receiptName: receipt?.name,
+      });
+    }
+    notify();
+    return rows.map((r) => ({ ...r, _offline: true }));
+  },
+
+  async update(id: string, updates: Parameters<typeof userExpensesService.updateAndSyncTicket>[1]): Promise<any> {
+    const saved = await tryOnline('user_expenses', id, () => userExpensesService.updateAndSyncTicket(id, updates));
+    if (saved !== undefined) return saved;
+    const cached = await findCachedRow('user_expenses', id);
+    await queue({
+      table: 'user_expenses',
+      op: 'update',
+      recordId: id,
+      payload: updates,
+      baseUpdatedAt: cached?.updated_at ?? null,
+      snapshot: cached,
+    });
+    return { ...(cached ?? {}), ...updates, id, _offline: true };
+  },
+};
+
+async function fetchServerRow(table: QueuedTable, id: string) {
+  const { data, error } = await supabase.from(table).select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data as Record<string, any> | null;
+}
+
+async function syncTicketHeader(row: Record<string, any>) {
+  if (!row?.customer_id || row.billable === false) return;
+  await serviceTicketsService.syncTicketHeaderFromTimeEntry({
+    date: row.date,
+    userId: row.user_id,
+    customerId: row.customer_id,
+    projectId: row.project_id,
+    location: row.location,
+    approver: row.approver,
+    po_afe: row.po_afe,
+    cc: row.cc,
+    other: row.other,
+    isDemo: !!row.is_demo,
+  });
+}
+
+async function uploadQueuedReceipt(change: QueuedChange, pending: QueuedChange[]): Promise<string> {
+  const file = new File([change.receipt!], change.receiptName || 'receipt.jpg', { type: change.receipt!.type });
+  const storagePath = await userExpensesService.uploadReceipt(file);
+  // Other lines of the same receipt reuse the upload
+  const group = change.payload._receiptGroup;
+  for (const other of pending) {
+    if (other !== change && group && other.payload._receiptGroup === group) {
+      other.payload = { ...other.payload, receipt_url: storagePath };
+      other.receipt = null;
+      await putQueuedChange(other);
+    }
+  }
+  return storagePath;
+}
+
+/** Replay one change. Returns the row's new updated_at, or 'conflict' with the server row. */
+async function replay(change: QueuedChange, baseUpdatedAt: string | null, pending: QueuedChange[]): Promise<{ updatedAt?: string | null; conflict?: Record<string, any> | null }> {
+  const { table, op, recordId } = change;
+
+  if (op === 'create') {
+    const { _receiptGroup, ...payload } = change.payload;
+    if (change.receipt) payload.receipt_url = await uploadQueuedReceipt(change, pending);
+    const { data, error } = await supabase.from(table).insert(payload).select('*').single();
+    if (error) {
+      // Inserted on an earlier attempt whose response was lost
+      if (error.code === '23505') return { updatedAt: (await fetchServerRow(table, recordId))?.updated_at ?? null };
+      throw error;
+    }
+    if (table === 'time_entries') await syncTicketHeader(data);
+    return { updatedAt: data.updated_at ?? null };
+  }
+
+  const server = await fetchServerRow(table, recordId);
+  if (op === 'delete') {
+    if (!server) return {};
+    if (baseUpdatedAt && server.updated_at !== baseUpdatedAt) return { conflict: server };
+    await timeEntriesService.delete(recordId);
+    if (server.customer_id) {
+      await serviceTicketsService.deleteTicketIfNoTimeEntriesFor({
+        date: server.date,
+        userId: server.user_id,
+        customerId: server.customer_id,
+        projectId: server.project_id,
+        location: server.location,
+        approver: server.approver,
+        po_afe: server.po_afe,
+        cc: server.cc,
+      }, !!server.is_demo);
+    }
+    return {};
+  }
+
+  if (!server) return { conflict: null };
+  if (baseUpdatedAt && server.updated_at !== baseUpdatedAt) return { conflict: server };
+  if (table === 'user_expenses') {
+    const data = await userExpensesService.updateAndSyncTicket(recordId, change.payload);
+    return { updatedAt: data?.updated_at ?? null };
+  }
+  const data = await timeEntriesService.update(recordId, change.payload);
+  await syncTicketHeader(data);
+  return { updatedAt: data?.updated_at ?? null };
+}
+
+let syncInFlight: Promise<{ synced: number }> | null = null;
+
+/**
+ * Send queued changes to the server in the order they were made. Stops at the first lost
+ * connection and leaves the rest queued. Rejected changes are kept as failed; changes that
+ * collide with a newer server copy are kept as conflicts.
+ */
+export function syncQueuedChanges(): Promise<{ synced: number }> {
+  if (syncInFlight) return syncInFlight;
+  syncInFlight = (async () => {
+    let synced = 0;
+    const pending = (await listMyQueuedChanges()).filter((c) => c.status === 'pending');
+    // updated_at each row has after this device's own earlier changes reached the server
+    const replayedUpdatedAt = new Map<string, string | null>();
+    const blocked = new Set<string>();
+    for (const change of pending) {
+      const key = `${change.table}:${change.recordId}`;
+      // Later changes to a row wait behind its conflict or failure
+      if (blocked.has(key)) continue;
+      const base = replayedUpdatedAt.has(key) ? replayedUpdatedAt.get(key)! : change.baseUpdatedAt;
+      try {
+        const result = await replay(change, base, pending);
+        if ('conflict' in result) {
+          await putQueuedChange({ ...change, baseUpdatedAt: base, status: 'conflict', serverRow: result.conflict });
+          blocked.add(key);
+        } else {
+          await removeQueuedChange(change.seq!);
+          replayedUpdatedAt.set(key, result.updatedAt ?? null);
+          synced++;
+        }
+      } catch (error) {
+        if (isNetworkError(error)) break;
+        const message = error instanceof Error ? error.message : String((error as any)?.message ?? error);
+        await putQueuedChange({ ...change, status: 'failed', error: message });
+        blocked.add(key);
+      }
+      notify();
+    }
+    return { synced };
+  })().finally(() => {
+    syncInFlight = null;
+    notify();
+  });
+  return syncInFlight;
+}
+
+/** Conflict or failure: 'mine' sends this device's change again over the server copy, 'theirs' drops it. */
+export async function resolveQueuedChange(change: QueuedChange, keep: 'mine' | 'theirs'): Promise<void> {
+  if (keep === 'theirs') {
+    await removeQueuedChange(change.seq!);
+  } else if (change.op !== 'create' && change.status === 'conflict' && !change.serverRow) {
+    // Deleted on the server: an edit can't be applied, so it is dropped too
+    await removeQueuedChange(change.seq!);
+  } else {
+    await putQueuedChange({
+      ...change,
+      baseUpdatedAt: change.serverRow?.updated_at ?? change.baseUpdatedAt,
+      status: 'pending',
+      serverRow: null,
+      error: undefined,
+    });
+  }
+  notify();
+}
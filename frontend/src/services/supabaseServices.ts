@@ -1,5 +1,23 @@
 import { supabase } from '../lib/supabaseClient';
 import { buildApproverPoAfe, buildBillingKey, buildGroupingKey } from '../utils/serviceTickets';
+import type { OvertimeRule } from '../utils/overtimeRules';
+import type { EntryTemplate } from '../utils/entryTemplates';
+import type { CrewAssignment } from '../utils/dispatch';
+import type { CostCode } from '../utils/costCodes';
+import type { BillingClaim, BillingMilestone, BillingTicket } from '../utils/projectBilling';
+import type { CustomerInvoice, ReceivablePayment } from '../utils/receivables';
+import type { InvoiceNumbering } from '../utils/invoiceDocument';
+import type { TaxCode, TaxSettings } from '../utils/taxCodes';
+import type { RateCard, TicketRateSources } from '../utils/rateCards';
+import type { CustomerEmailTemplate } from '../utils/batchEmail';
+import type { PayrollRegister, PayrollRegisterData } from '../utils/payrollRegister';
+import { currentPayrollPeriod, formatYmd, lastPaidPayPeriod, parseYmdAtNoon, PaySchedule, setPaySchedules } from '../utils/payPeriod';
+import { BackPayPeriod, computeBackPay, dayBefore, nextRateChangeAfter, PayRateAdjustment, toPayRates } from '../utils/backPay';
+import type { PayRateHistory } from '../utils/employeeReports';
+import type { LeaveDay, LeavePolicy, LeaveType } from '../utils/leave';
+import { setStatHolidays, StatHoliday } from '../utils/statHolidays';
+import { startOfLocalDay, TimerRow, timerElapsedMs, timerToTimeEntries } from '../utils/timers';
+import { overlayQueuedChanges, withOfflineCache } from '../lib/offlineDb';
 
 // Service functions for interacting with Supabase tables
 
@@ -37,10 +55,15 @@ export const timeEntriesService = {
       query = query.eq('user_id', userId);
     }
 
-    const { data, error } = await query;
-
-    if (error) throw error;
-    return data;
+    const fetchEntries = async () => {
+      const { data, error } = await query;
+      if (error) throw error;
+      return data || [];
+    };
+    // A user's own entries are kept for offline use, with changes made offline applied on top
+    if (!userId) return fetchEntries();
+    const rows = await withOfflineCache(`time_entries:${userId}:${isDemoMode ?? 'all'}`, fetchEntries);
+    return overlayQueuedChanges('time_entries', rows, userId);
   },
 
   async getById(id: string) {
@@ -165,6 +188,362 @@ export const timeEntriesService = {
   },
 };
 
+export const timersService = {
+  async getForUser(userId: string): Promise<TimerRow[]> {
+    const { data, error } = await supabase
+      .from('timers')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data || []) as TimerRow[];
+  },
+
+  async create(timer: Partial<TimerRow> & { user_id: string }): Promise<TimerRow> {
+    const { data, error } = await supabase.from('timers').insert(timer).select('*').single();
+    if (error) throw error;
+    return data as TimerRow;
+  },
+
+  async update(id: string, updates: Partial<Pick<TimerRow, 'description' | 'project_id' | 'cost_code_id' | 'rate_type' | 'location' | 'approver' | 'po_afe' | 'cc' | 'other' | 'status' | 'started_at' | 'paused_elapsed_ms'>>): Promise<TimerRow> {
+    const { data, error } = await supabase
+      .from('timers')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select('*')
+      .single();
+    if (error) throw error;
+    return data as TimerRow;
+  },
+
+  async pause(timer: TimerRow): Promise<TimerRow> {
+    if (timer.status === 'paused') return timer;
+    return this.update(timer.id, { status: 'paused', paused_elapsed_ms: timerElapsedMs(timer) });
+  },
+
+  async resume(timer: TimerRow): Promise<TimerRow> {
+    if (timer.status === 'running') return timer;
+    return this.update(timer.id, {
+      status: 'running',
+      started_at: new Date(Date.now() - timerElapsedMs(timer)).toISOString(),
+      paused_elapsed_ms: 0,
+    });
+  },
+
+  async discard(id: string): Promise<void> {
+    const { error } = await supabase.from('timers').delete().eq('id', id);
+    if (error) throw error;
+  },
+
+  /**
+   * Stop a timer and save its time entries (one per day when it ran past midnight). The row is
+   * deleted first so a second device stopping the same timer gets an error instead of duplicate
+   * entries; if the entries can't be saved the timer is put back. `endedAt` earlier than now trims
+   * a forgotten timer. Returns [] (and saves nothing) for a timer stopped within a second of starting.
+   */
+  async stop(id: string, endedAt: Date = new Date()): Promise<any[]> {
+    const { data: removed, error } = await supabase.from('timers').delete().eq('id', id).select('*');
+    if (error) throw error;
+    const timer = removed?.[0] as TimerRow | undefined;
+    if (!timer) throw new Error('This timer was already stopped on another device.');
+    if (timerElapsedMs(timer, endedAt.getTime()) < 1000) return [];
+
+    try {
+      return await saveTimerEntries(timer, endedAt);
+    } catch (err) {
+      const { error: restoreError } = await supabase.from('timers').insert(timer);
+      if (restoreError) console.error('Error restoring timer after failed save:', restoreError);
+      throw err;
+    }
+  },
+
+  /**
+   * Save the days before today of a running timer that was left on overnight, and keep the timer
+   * running from this morning's midnight. Matching on started_at stops two devices saving the same
+   * days twice. Returns the updated timer and the saved entries.
+   */
+  async splitAtMidnight(timer: TimerRow): Promise<{ timer: TimerRow; entries: any[] }> {
+    const midnight = startOfLocalDay(new Date());
+    if (timer.status !== 'running' || new Date(timer.started_at) >= midnight) return { timer, entries: [] };
+
+    const { data: moved, error } = await supabase
+      .from('timers')
+      .update({ started_at: midnight.toISOString(), updated_at: new Date().toISOString() })
+      .eq('id', timer.id)
+      .eq('started_at', timer.started_at)
+      .select('*');
+    if (error) throw error;
+    if (!moved?.[0]) throw new Error('This timer was changed on another device. Refresh and try again.');
+
+    try {
+      const entries = await saveTimerEntries(timer, midnight);
+      return { timer: moved[0] as TimerRow, entries };
+    } catch (err) {
+      const { error: restoreError } = await supabase
+        .from('timers')
+        .update({ started_at: timer.started_at })
+        .eq('id', timer.id);
+      if (restoreError) console.error('Error restoring timer after failed split:', restoreError);
+      throw err;
+    }
+  },
+};
+
+/**
+ * Create the time entries for a timer ending at `endedAt` and sync their service ticket headers.
+ * Entries already created are removed again if a later day fails, so the caller can restore the timer.
+ */
+async function saveTimerEntries(timer: TimerRow, endedAt: Date): Promise<any[]> {
+  let project: any = null;
+  if (timer.project_id) {
+    try {
+      project = await projectsService.getById(timer.project_id);
+    } catch {
+      // Project removed since the timer started: save at rate 0
+    }
+  }
+
+  const entries: any[] = [];
+  try {
+    for (const row of timerToTimeEntries(timer, project, endedAt)) {
+      entries.push(await timeEntriesService.create(row));
+    }
+  } catch (err) {
+    for (const entry of entries) {
+      await timeEntriesService.delete(entry.id).catch((e) => console.error('Error removing partial timer entry:', e));
+    }
+    throw err;
+  }
+
+  for (const entry of entries) {
+    if (!entry?.customer_id) continue;
+    await serviceTicketsService.syncTicketHeaderFromTimeEntry({
+      date: entry.date,
+      userId: entry.user_id,
+      customerId: entry.customer_id,
+      projectId: entry.project_id,
+      location: entry.location,
+      approver: entry.approver,
+      po_afe: entry.po_afe,
+      cc: entry.cc,
+      other: entry.other,
+      isDemo: timer.is_demo,
+    });
+  }
+  return entries;
+}
+
+/** Saved time entry templates with recurrence (see utils/entryTemplates.ts). */
+export const entryTemplatesService = {
+  async getForUser(userId: string, isDemo: boolean): Promise<EntryTemplate[]> {
+    const { data, error } = await supabase
+      .from('time_entry_templates')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_demo', isDemo)
+      .order('name');
+    if (error) throw error;
+    return (data || []).map((t: any) => ({ ...t, hours: Number(t.hours) })) as EntryTemplate[];
+  },
+
+  async upsert(template: EntryTemplate): Promise<EntryTemplate> {
+    const { id, ...fields } = template;
+    const payload = { ...fields, updated_at: new Date().toISOString() };
+    const query = id
+      ? supabase.from('time_entry_templates').update(payload).eq('id', id)
+      : supabase.from('time_entry_templates').insert(payload);
+    const { data, error } = await query.select().single();
+    if (error) throw error;
+    return { ...data, hours: Number(data.hours) } as EntryTemplate;
+  },
+
+  async delete(id: string): Promise<void> {
+    const { error } = await supabase.from('time_entry_templates').delete().eq('id', id);
+    if (error) throw error;
+  },
+};
+
+/** CSV/XLSX time entry imports (see utils/timeEntryImport.ts). Admins only. */
+export const timeEntryImportsService = {
+  async getAll(isDemo: boolean) {
+    const { data, error } = await supabase
+      .from('time_entry_imports')
+      .select('*, importer:users!time_entry_imports_imported_by_fkey(first_name, last_name)')
+      .eq('is_demo', isDemo)
+      .order('created_at', { ascending: false })
+      .limit(50);
+    if (error) throw error;
+    return data || [];
+  },
+
+  /** Saved entries for the employees and dates of a file, for duplicate detection. */
+  async getExistingEntries(userIds: string[], from: string, to: string, isDemo: boolean) {
+    if (userIds.length === 0) return [];
+    const { data, error } = await supabase
+      .from('time_entries')
+      .select('user_id, date, start_time, hours, project_id')
+      .in('user_id', userIds)
+      .gte('date', from)
+      .lte('date', to)
+      .eq('is_demo', isDemo);
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Save a batch: the import row, then every entry in one insert so the batch lands whole or not
+   * at all. Service ticket headers are synced afterwards; a failure there is logged, not thrown.
+   */
+  async commit(fileName: string, entries: Record<string, any>[], isDemo: boolean) {
+    const { data: { user: authUser } } = await supabase.auth.getUser();
+    const totalHours = entries.reduce((sum, e) => sum + (Number(e.hours) || 0), 0);
+    const { data: batch, error } = await supabase
+      .from('time_entry_imports')
+      .insert({
+        file_name: fileName,
+        entry_count: entries.length,
+        total_hours: Math.round(totalHours * 100) / 100,
+        imported_by: authUser?.id ?? null,
+        is_demo: isDemo,
+      })
+      .select()
+      .single();
+    if (error) throw error;
+
+    const { data: saved, error: insertError } = await supabase
+      .from('time_entries')
+      .insert(entries.map((e) => ({ ...e, import_id: batch.id })))
+      .select('id, date, user_id, customer_id, project_id, billable, location, approver, po_afe, cc, other');
+    if (insertError) {
+      await supabase.from('time_entry_imports').delete().eq('id', batch.id);
+      throw insertError;
+    }
+
+    const synced = new Set<string>();
+    for (const entry of saved || []) {
+      if (!entry.customer_id || entry.billable === false) continue;
+      const key = [entry.date, entry.user_id, entry.customer_id, entry.project_id, entry.location, entry.po_afe].join('|');
+      if (synced.has(key)) continue;
+      synced.add(key);
+      try {
+        await serviceTicketsService.syncTicketHeaderFromTimeEntry({
+          date: entry.date,
+          userId: entry.user_id,
+          customerId: entry.customer_id,
+          projectId: entry.project_id,
+          location: entry.location,
+          approver: entry.approver,
+          po_afe: entry.po_afe,
+          cc: entry.cc,
+          other: entry.other,
+          isDemo,
+        });
+      } catch (err) {
+        console.error('Error syncing service ticket header for imported entry:', err);
+      }
+    }
+    return batch;
+  },
+
+  /** Delete every entry of a batch (one statement) and drop draft tickets left without hours. */
+  async rollback(importId: string) {
+    const { data: removed, error } = await supabase
+      .from('time_entries')
+      .delete()
+      .eq('import_id', importId)
+      .select('date, user_id, customer_id, project_id, location, approver, po_afe, cc, is_demo');
+    if (error) throw error;
+
+    const { data: { user: authUser } } = await supabase.auth.getUser();
+    const { error: updateError } = await supabase
+      .from('time_entry_imports')
+      .update({ status: 'rolled_back', rolled_back_by: authUser?.id ?? null, rolled_back_at: new Date().toISOString() })
+      .eq('id', importId);
+    if (updateError) throw updateError;
+
+    const cleaned = new Set<string>();
+    for (const entry of removed || []) {
+      if (!entry.customer_id) continue;
+      const key = [entry.date, entry.user_id, entry.customer_id, entry.project_id, entry.po_afe].join('|');
+      if (cleaned.has(key)) continue;
+      cleaned.add(key);
+      try {
+        await serviceTicketsService.deleteTicketIfNoTimeEntriesFor({
+          date: entry.date,
+          userId: entry.user_id,
+          customerId: entry.customer_id,
+          projectId: entry.project_id,
+          location: entry.location,
+          approver: entry.approver,
+          po_afe: entry.po_afe,
+          cc: entry.cc,
+        }, !!entry.is_demo);
+      } catch (err) {
+        console.error('Error cleaning up service ticket after import rollback:', err);
+      }
+    }
+    return (removed || []).length;
+  },
+};
+
+/** Dispatch board assignments (see utils/dispatch.ts). Admins edit; employees read their own. */
+export const crewAssignmentsService = {
+  async getForRange(from: string, to: string, isDemo: boolean, userId?: string): Promise<CrewAssignment[]> {
+    const fetchRows = async () => {
+      let query = supabase
+        .from('crew_assignments')
+        .select('*')
+        .gte('date', from)
+        .lte('date', to)
+        .eq('is_demo', isDemo)
+        .order('date')
+        .order('start_time');
+      if (userId) query = query.eq('user_id', userId);
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []).map((a: any) => ({ ...a, hours: Number(a.hours) })) as CrewAssignment[];
+    };
+    // Crews check their schedule from site, so a user's own week is kept for offline use
+    return userId ? withOfflineCache(`crew_assignments:${userId}:${from}:${isDemo}`, fetchRows) : fetchRows();
+  },
+
+  async upsert(assignment: CrewAssignment): Promise<CrewAssignment> {
+    const { id, ...fields } = assignment;
+    const payload = { ...fields, updated_at: new Date().toISOString() };
+    const query = id
+      ? supabase.from('crew_assignments').update(payload).eq('id', id)
+      : supabase.from('crew_assignments').insert(payload);
+    const { data, error } = await query.select().single();
+    if (error) throw error;
+    return { ...data, hours: Number(data.hours) } as CrewAssignment;
+  },
+
+  /** Same assignment on several dates (e.g. the rest of the week). */
+  async createForDates(assignment: CrewAssignment, dates: string[]): Promise<void> {
+    const { id: _id, ...fields } = assignment;
+    const { error } = await supabase.from('crew_assignments').insert(dates.map((date) => ({ ...fields, date })));
+    if (error) throw error;
+  },
+
+  async delete(id: string): Promise<void> {
+    const { error } = await supabase.from('crew_assignments').delete().eq('id', id);
+    if (error) throw error;
+  },
+
+  /** Everyone's logged hours touching the range (from the day before, for overnight entries). */
+  async getLoggedEntries(from: string, to: string, isDemo: boolean) {
+    const dayBeforeFrom = formatYmd(new Date(parseYmdAtNoon(from).getTime() - 24 * 60 * 60 * 1000));
+    const { data, error } = await supabase
+      .from('time_entries')
+      .select('id, user_id, project_id, date, start_time, end_time, hours')
+      .gte('date', dayBeforeFrom)
+      .lte('date', to)
+      .eq('is_demo', isDemo);
+    if (error) throw error;
+    return data || [];
+  },
+};
+
 export const customersService = {
   async getAll(includeInactive: boolean = false) {
     let query = supabase
@@ -174,9 +553,11 @@ export const customersService = {
     if (!includeInactive) {
       query = query.or('active.eq.true,active.is.null');
     }
-    const { data, error } = await query;
-    if (error) throw error;
-    return data || [];
+    return withOfflineCache(`customers:${includeInactive}`, async () => {
+      const { data, error } = await query;
+      if (error) throw error;
+      return data || [];
+    });
   },
 
   async getById(id: string) {
@@ -283,9 +664,11 @@ export const projectsService = {
     if (!includeInactive) {
       query = query.or('active.eq.true,active.is.null');
     }
-    const { data, error } = await query;
-    if (error) throw error;
-    return data || [];
+    return withOfflineCache(`projects:${includeInactive}`, async () => {
+      const { data, error } = await query;
+      if (error) throw error;
+      return data || [];
+    });
   },
 
   async getById(id: string) {
@@ -334,19 +717,389 @@ export const projectsService = {
       .single();
 
     if (error) throw error;
-    return data;
+    return data;
+  },
+
+  /** Hard delete a project. FK behaviour:
+   *  - project_user_assignments: ON DELETE CASCADE (auto-cleaned)
+   *  - time_entries:             ON DELETE SET NULL (entries lose project link)
+   *  - service_tickets / _demo:  NO ACTION (caller must ensure zero rows or this throws)
+   *  Caller is expected to gate this with a zero-tickets check. */
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('projects')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  },
+};
+
+/** Hour budget alerts (see utils/hourBudgets.ts). Admins only. */
+export const projectBudgetAlertsService = {
+  /** Logged hours per project with an hour budget. */
+  async getHoursUsed(isDemo: boolean): Promise<Map<string, number>> {
+    const { data, error } = await supabase.rpc('project_hours_used', { p_is_demo: isDemo });
+    if (error) throw error;
+    return new Map((data || []).map((r: { project_id: string; hours_used: number | string }) => [r.project_id, Number(r.hours_used) || 0]));
+  },
+
+  async getAcknowledged(): Promise<{ project_id: string; threshold: number }[]> {
+    const { data, error } = await supabase.from('project_budget_alerts').select('project_id, threshold');
+    if (error) throw error;
+    return data || [];
+  },
+
+  async acknowledge(alert: { projectId: string; threshold: number; hoursUsed: number; budgetHours: number }, userId: string): Promise<void> {
+    const { error } = await supabase.from('project_budget_alerts').upsert(
+      {
+        project_id: alert.projectId,
+        threshold: alert.threshold,
+        hours_used: Math.round(alert.hoursUsed * 100) / 100,
+        budget_hours: alert.budgetHours,
+        acknowledged_by: userId,
+        acknowledged_at: new Date().toISOString(),
+      },
+      { onConflict: 'project_id,threshold' }
+    );
+    if (error) throw error;
+  },
+
+  /** Clear acknowledgements so a project alerts again (after its hour budget changes). */
+  async resetForProject(projectId: string): Promise<void> {
+    const { error } = await supabase.from('project_budget_alerts').delete().eq('project_id', projectId);
+    if (error) throw error;
+  },
+};
+
+/** Phase / task / cost code hierarchy per project (see utils/costCodes.ts). */
+export const costCodesService = {
+  /** Every project's codes; small enough to load once for the time entry forms. */
+  async getAll(): Promise<CostCode[]> {
+    return withOfflineCache('project_cost_codes', async () => {
+      const { data, error } = await supabase
+        .from('project_cost_codes')
+        .select('id, project_id, parent_id, code, name, active, sort_order')
+        .order('sort_order')
+        .order('code');
+      if (error) throw error;
+      return data || [];
+    });
+  },
+
+  async upsert(costCode: CostCode): Promise<CostCode> {
+    const { id, ...fields } = costCode;
+    const payload = { ...fields, code: fields.code.trim(), name: fields.name.trim(), updated_at: new Date().toISOString() };
+    const query = id
+      ? supabase.from('project_cost_codes').update(payload).eq('id', id)
+      : supabase.from('project_cost_codes').insert(payload);
+    const { data, error } = await query.select('id, project_id, parent_id, code, name, active, sort_order').single();
+    if (error) throw error;
+    return data;
+  },
+
+  /** Deletes the code and everything under it; entries using them keep their hours with no code. */
+  async delete(id: string): Promise<void> {
+    const { error } = await supabase.from('project_cost_codes').delete().eq('id', id);
+    if (error) throw error;
+  },
+};
+
+const RATE_CARD_FIELDS = 'id, customer_id, project_id, position, effective_from, effective_to, rt_rate, tt_rate, ft_rate, shop_ot_rate, field_ot_rate, notes';
+
+const numericOrNull = (v: unknown) => (v == null ? null : Number(v));
+
+function toRateCard(row: any): RateCard {
+  return {
+    ...row,
+    rt_rate: numericOrNull(row.rt_rate),
+    tt_rate: numericOrNull(row.tt_rate),
+    ft_rate: numericOrNull(row.ft_rate),
+    shop_ot_rate: numericOrNull(row.shop_ot_rate),
+    field_ot_rate: numericOrNull(row.field_ot_rate),
+  };
+}
+
+export const rateCardsService = {
+  async getAll(): Promise<RateCard[]> {
+    return withOfflineCache('rate_cards', async () => {
+      const { data, error } = await supabase
+        .from('rate_cards')
+        .select(RATE_CARD_FIELDS)
+        .order('effective_from', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(toRateCard);
+    });
+  },
+
+  async upsert(card: RateCard): Promise<RateCard> {
+    const { id, ...fields } = card;
+    const payload = {
+      ...fields,
+      position: fields.position?.trim() || null,
+      notes: fields.notes?.trim() || null,
+      updated_at: new Date().toISOString(),
+    };
+    const query = id
+      ? supabase.from('rate_cards').update(payload).eq('id', id)
+      : supabase.from('rate_cards').insert(payload);
+    const { data, error } = await query.select(RATE_CARD_FIELDS).single();
+    if (error) throw error;
+    return toRateCard(data);
+  },
+
+  async delete(id: string): Promise<void> {
+    const { error } = await supabase.from('rate_cards').delete().eq('id', id);
+    if (error) throw error;
+  },
+};
+
+export const customerEmailTemplatesService = {
+  async getAll(): Promise<CustomerEmailTemplate[]> {
+    const { data, error } = await supabase
+      .from('customer_email_templates')
+      .select('customer_id, to_addresses, cc_addresses, subject, body');
+    if (error) throw error;
+    return data || [];
+  },
+
+  async upsert(template: CustomerEmailTemplate): Promise<CustomerEmailTemplate> {
+    const payload = {
+      ...template,
+      subject: template.subject?.trim() || null,
+      body: template.body?.trim() ? template.body : null,
+      updated_at: new Date().toISOString(),
+    };
+    const { data, error } = await supabase
+      .from('customer_email_templates')
+      .upsert(payload, { onConflict: 'customer_id' })
+      .select('customer_id, to_addresses, cc_addresses, subject, body')
+      .single();
+    if (error) throw error;
+    return data;
+  },
+};
+
+export const projectBillingService = {
+  async getMilestones(): Promise<BillingMilestone[]> {
+    const { data, error } = await supabase
+      .from('project_billing_milestones')
+      .select('id, project_id, name, amount, due_date, sort_order')
+      .order('sort_order')
+      .order('due_date', { nullsFirst: false });
+    if (error) throw error;
+    return (data || []).map((m: any) => ({ ...m, amount: Number(m.amount) || 0 }));
+  },
+
+  async upsertMilestone(milestone: BillingMilestone): Promise<BillingMilestone> {
+    const { id, ...fields } = milestone;
+    const payload = { ...fields, name: fields.name.trim(), updated_at: new Date().toISOString() };
+    const query = id
+      ? supabase.from('project_billing_milestones').update(payload).eq('id', id)
+      : supabase.from('project_billing_milestones').insert(payload);
+    const { data, error } = await query.select('id, project_id, name, amount, due_date, sort_order').single();
+    if (error) throw error;
+    return { ...data, amount: Number(data.amount) || 0 };
+  },
+
+  async deleteMilestone(id: string): Promise<void> {
+    const { error } = await supabase.from('project_billing_milestones').delete().eq('id', id);
+    if (error) throw error;
+  },
+
+  async getClaims(): Promise<BillingClaim[]> {
+    const { data, error } = await supabase
+      .from('project_billing_claims')
+      .select('id, project_id, kind, milestone_id, period_month, percent_complete, description, amount, claim_date, created_by')
+      .order('claim_date', { ascending: false });
+    if (error) throw error;
+    return (data || []).map((c: any) => ({
+      ...c,
+      amount: Number(c.amount) || 0,
+      percent_complete: c.percent_complete == null ? null : Number(c.percent_complete),
+    }));
+  },
+
+  async createClaim(claim: BillingClaim): Promise<void> {
+    const { error } = await supabase.from('project_billing_claims').insert(claim);
+    if (error) throw error;
+  },
+
+  async deleteClaim(id: string): Promise<void> {
+    const { error } = await supabase.from('project_billing_claims').delete().eq('id', id);
+    if (error) throw error;
+  },
+
+  /** Approved (or later) service tickets on the given projects, for retainer drawdown. */
+  async getContractTickets(projectIds: string[], isDemo: boolean): Promise<BillingTicket[]> {
+    if (projectIds.length === 0) return [];
+    const { data, error } = await supabase
+      .from(isDemo ? 'service_tickets_demo' : 'service_tickets')
+      .select('project_id, date, total_hours, total_amount')
+      .in('project_id', projectIds)
+      .not('workflow_status', 'in', '("draft","submitted","rejected")')
+      .or('is_discarded.is.null,is_discarded.eq.false');
+    if (error) throw error;
+    return data || [];
+  },
+};
+
+const CUSTOMER_INVOICE_FIELDS =
+  'id, group_id, customer_id, customer_name, project_number, invoice_number, invoice_date, terms_days, due_date, subtotal, tax_amount, tax_lines, total, notes, created_by';
+const RECEIVABLE_PAYMENT_FIELDS = 'id, invoice_id, kind, amount, received_on, reference, notes, created_by';
+
+const toReceivablePayment = (p: any): ReceivablePayment => ({ ...p, amount: Number(p.amount) || 0 });
+
+/** Accounts receivable: issued invoices with their payments and credit notes (Invoices → Receivables). */
+export const receivablesService = {
+  async getInvoices(): Promise<CustomerInvoice[]> {
+    const { data, error } = await supabase
+      .from('customer_invoices')
+      .select(`${CUSTOMER_INVOICE_FIELDS}, payments:customer_invoice_payments(${RECEIVABLE_PAYMENT_FIELDS})`)
+      .order('invoice_date', { ascending: false });
+    if (error) throw error;
+    return (data || []).map((i: any) => ({
+      ...i,
+      subtotal: Number(i.subtotal) || 0,
+      tax_amount: Number(i.tax_amount) || 0,
+      tax_lines: Array.isArray(i.tax_lines)
+        ? (i.tax_lines as any[]).map((l) => ({ name: String(l.name ?? ''), rate: Number(l.rate) || 0, base: Number(l.base) || 0, amount: Number(l.amount) || 0 }))
+        : null,
+      total: Number(i.total) || 0,
+      payments: ((i.payments || []) as any[]).map(toReceivablePayment).sort((a, b) => a.received_on.localeCompare(b.received_on)),
+    }));
+  },
+
+  async upsertInvoice(invoice: Omit<CustomerInvoice, 'payments'>): Promise<void> {
+    const { id, ...fields } = invoice;
+    const payload = { ...fields, invoice_number: fields.invoice_number.trim(), updated_at: new Date().toISOString() };
+    const query = id
+      ? supabase.from('customer_invoices').update(payload).eq('id', id)
+      : supabase.from('customer_invoices').insert(payload);
+    const { error } = await query;
+    if (error) {
+      if (error.code === '23505') throw new Error('This batch already has an invoice recorded.');
+      throw error;
+    }
+  },
+
+  async deleteInvoice(id: string): Promise<void> {
+    const { error } = await supabase.from('customer_invoices').delete().eq('id', id);
+    if (error) throw error;
+  },
+
+  async addPayment(payment: ReceivablePayment): Promise<void> {
+    const { error } = await supabase.from('customer_invoice_payments').insert({
+      ...payment,
+      reference: payment.reference?.trim() || null,
+      notes: payment.notes?.trim() || null,
+    });
+    if (error) throw error;
+  },
+
+  async deletePayment(id: string): Promise<void> {
+    const { error } = await supabase.from('customer_invoice_payments').delete().eq('id', id);
+    if (error) throw error;
+  },
+
+  /** Payments (not credit notes) received on or after a date, for the dashboard's cash-collected line. */
+  async getPaymentsSince(since: string): Promise<ReceivablePayment[]> {
+    const { data, error } = await supabase
+      .from('customer_invoice_payments')
+      .select(RECEIVABLE_PAYMENT_FIELDS)
+      .eq('kind', 'payment')
+      .gte('received_on', since);
+    if (error) throw error;
+    return (data || []).map(toReceivablePayment);
+  },
+};
+
+/** Invoice number format and counter for invoices generated in the app (see utils/invoiceDocument.ts). Admins only. */
+export const invoiceNumberingService = {
+  async get(): Promise<InvoiceNumbering | null> {
+    const { data, error } = await supabase
+      .from('invoice_numbering')
+      .select('prefix, next_number, min_digits, gst_registration, footer_note')
+      .maybeSingle();
+    if (error) throw error;
+    return data ? { ...data, next_number: Number(data.next_number) || 1, min_digits: Number(data.min_digits) || 1 } : null;
+  },
+
+  async save(settings: InvoiceNumbering): Promise<void> {
+    const { error } = await supabase
+      .from('invoice_numbering')
+      .upsert({
+        id: true,
+        prefix: settings.prefix,
+        next_number: settings.next_number,
+        min_digits: settings.min_digits,
+        gst_registration: settings.gst_registration?.trim() || null,
+        footer_note: settings.footer_note?.trim() || null,
+        updated_at: new Date().toISOString(),
+      });
+    if (error) throw error;
   },
 
-  /** Hard delete a project. FK behaviour:
-   *  - project_user_assignments: ON DELETE CASCADE (auto-cleaned)
-   *  - time_entries:             ON DELETE SET NULL (entries lose project link)
-   *  - service_tickets / _demo:  NO ACTION (caller must ensure zero rows or this throws)
-   *  Caller is expected to gate this with a zero-tickets check. */
-  async delete(id: string) {
-    const { error } = await supabase
-      .from('projects')
-      .delete()
-      .eq('id', id);
+  /**
+   * The batch's invoice number: the one it already has, else the next number, recorded against
+   * the batch before anything is rendered so a failed generate keeps it for the retry.
+   */
+  async reserveForBatch(groupId: string): Promise<string> {
+    const { data, error } = await supabase.rpc('reserve_invoice_number', { p_group_id: groupId });
+    if (error) throw error;
+    return data as string;
+  },
+};
+
+/** Sales tax codes and per-expense-type overrides (see utils/taxCodes.ts). Everyone reads; admins edit. */
+export const taxCodesService = {
+  async getSettings(): Promise<TaxSettings> {
+    const [codesRes, typesRes] = await Promise.all([
+      supabase.from('tax_codes').select('*').order('sort_order').order('code'),
+      supabase.from('expense_type_tax_codes').select('expense_type, tax_code_id'),
+    ]);
+    if (codesRes.error) throw codesRes.error;
+    if (typesRes.error) throw typesRes.error;
+    return {
+      codes: (codesRes.data || []).map((c: any) => ({
+        ...c,
+        components: ((c.components || []) as any[]).map((x) => ({ name: String(x.name ?? ''), rate: Number(x.rate) || 0 })),
+        sort_order: Number(c.sort_order) || 0,
+      })),
+      expenseTypeCodes: Object.fromEntries((typesRes.data || []).map((r: any) => [r.expense_type, r.tax_code_id])),
+    };
+  },
+
+  async upsert(code: Omit<TaxCode, 'id'> & { id?: string }): Promise<void> {
+    const { id, ...fields } = code;
+    // Only one default: clear the old one first so the unique index doesn't reject the save.
+    if (fields.is_default) {
+      const clear = supabase.from('tax_codes').update({ is_default: false }).eq('is_default', true);
+      const { error } = id ? await clear.neq('id', id) : await clear;
+      if (error) throw error;
+    }
+    const payload = {
+      ...fields,
+      code: fields.code.trim().toUpperCase(),
+      name: fields.name.trim(),
+      components: fields.is_exempt ? [] : fields.components,
+      exempt_note: fields.exempt_note?.trim() || null,
+      qbo_tax_code: fields.qbo_tax_code?.trim() || null,
+      updated_at: new Date().toISOString(),
+    };
+    const query = id ? supabase.from('tax_codes').update(payload).eq('id', id) : supabase.from('tax_codes').insert(payload);
+    const { error } = await query;
+    if (error) {
+      if (error.code === '23505') throw new Error(`There is already a tax code ${payload.code}.`);
+      throw error;
+    }
+  },
+
+  async setExpenseTypeCode(expenseType: string, taxCodeId: string | null): Promise<void> {
+    const { error } = taxCodeId
+      ? await supabase
+          .from('expense_type_tax_codes')
+          .upsert({ expense_type: expenseType, tax_code_id: taxCodeId, updated_at: new Date().toISOString() })
+      : await supabase.from('expense_type_tax_codes').delete().eq('expense_type', expenseType);
     if (error) throw error;
   },
 };
@@ -378,12 +1131,23 @@ export const employeesService = {
     return data;
   },
 
+  /** Province (overtime_jurisdiction) of a user's employee record, for stat holidays; null when unset. */
+  async getJurisdictionForUser(userId: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('employees')
+      .select('overtime_jurisdiction')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return data?.overtime_jurisdiction ?? null;
+  },
+
   async getById(id: string) {
     const { data, error } = await supabase
       .from('employees')
       .select(`
         *,
-        user:users(id, email, first_name, last_name)
+        user:users!employees_user_id_fkey(id, email, first_name, last_name)
       `)
       .eq('id', id)
       .single();
@@ -403,32 +1167,98 @@ export const employeesService = {
     return data;
   },
 
-  async update(id: string, updates: any) {
+  /**
+   * `rateEffectiveDate` (YYYY-MM-DD, default today) dates the pay_rate_history row for a rate change.
+   * A past date keeps the previous rates as the baseline before it and leaves later rows alone: the
+   * new rates apply until the next recorded change, and the employee keeps that later change's rates.
+   */
+  async update(id: string, updates: any, rateEffectiveDate?: string) {
     const rateFields = ['shop_pay_rate', 'field_pay_rate', 'shop_ot_pay_rate', 'field_ot_pay_rate', 'internal_rate'];
     const hasRateChange = rateFields.some((f) => updates[f] !== undefined);
+    const today = new Date().toISOString().split('T')[0];
+    const effectiveDate = rateEffectiveDate && rateEffectiveDate < today ? rateEffectiveDate : today;
+
+    let previous: any = null;
+    let latestLater: any = null;
+    if (hasRateChange && effectiveDate < today) {
+      const { data: before, error: beforeError } = await supabase
+        .from('employees')
+        .select('shop_pay_rate, field_pay_rate, shop_ot_pay_rate, field_ot_pay_rate, internal_rate, hire_date')
+        .eq('id', id)
+        .single();
+      if (beforeError) throw beforeError;
+      previous = before;
+
+      const { data: later, error: laterError } = await supabase
+        .from('pay_rate_history')
+        .select('*')
+        .eq('employee_id', id)
+        .gt('effective_date', effectiveDate)
+        .order('effective_date', { ascending: false })
+        .limit(1);
+      if (laterError) throw laterError;
+      latestLater = later?.[0] ?? null;
+    }
+
+    // The dated row gets the rates as entered; the employee row keeps a later change's rates if there is one.
+    const newRates = Object.fromEntries(rateFields.map((f) => [f, updates[f] !== undefined ? updates[f] : previous?.[f]]));
+    const rowUpdates = latestLater
+      ? { ...updates, ...Object.fromEntries(rateFields.map((f) => [f, latestLater[f] ?? 0])) }
+      : updates;
 
     const { data, error } = await supabase
       .from('employees')
-      .update(updates)
+      .update(rowUpdates)
       .eq('id', id)
       .select()
       .single();
 
     if (error) throw error;
 
+    if (hasRateChange && data && previous) {
+      // Retroactive: keep the old rates as the baseline before the effective date.
+      const { data: earlier, error: earlierError } = await supabase
+        .from('pay_rate_history')
+        .select('id')
+        .eq('employee_id', id)
+        .lt('effective_date', effectiveDate)
+        .limit(1);
+      if (earlierError) throw earlierError;
+      if (!earlier || earlier.length === 0) {
+        const baselineDate = previous.hire_date && previous.hire_date < effectiveDate
+          ? previous.hire_date
+          : formatYmd(new Date(parseYmdAtNoon(effectiveDate).getTime() - 24 * 60 * 60 * 1000));
+        const { error: baselineError } = await supabase.from('pay_rate_history').upsert(
+          {
+            employee_id: id,
+            effective_date: baselineDate,
+            shop_pay_rate: previous.shop_pay_rate ?? 0,
+            field_pay_rate: previous.field_pay_rate ?? 0,
+            shop_ot_pay_rate: previous.shop_ot_pay_rate ?? 0,
+            field_ot_pay_rate: previous.field_ot_pay_rate ?? 0,
+            internal_rate: previous.internal_rate ?? 0,
+          },
+          { onConflict: 'employee_id,effective_date' }
+        );
+        if (baselineError) throw baselineError;
+      }
+    }
+
     if (hasRateChange && data) {
-      await supabase.from('pay_rate_history').upsert(
+      const rates = previous ? newRates : data;
+      const { error: historyError } = await supabase.from('pay_rate_history').upsert(
         {
           employee_id: id,
-          effective_date: new Date().toISOString().split('T')[0],
-          shop_pay_rate: data.shop_pay_rate ?? 0,
-          field_pay_rate: data.field_pay_rate ?? 0,
-          shop_ot_pay_rate: data.shop_ot_pay_rate ?? 0,
-          field_ot_pay_rate: data.field_ot_pay_rate ?? 0,
-          internal_rate: data.internal_rate ?? 0,
+          effective_date: effectiveDate,
+          shop_pay_rate: rates.shop_pay_rate ?? 0,
+          field_pay_rate: rates.field_pay_rate ?? 0,
+          shop_ot_pay_rate: rates.shop_ot_pay_rate ?? 0,
+          field_ot_pay_rate: rates.field_ot_pay_rate ?? 0,
+          internal_rate: rates.internal_rate ?? 0,
         },
         { onConflict: 'employee_id,effective_date' }
       );
+      if (historyError) throw historyError;
     }
 
     return data;
@@ -455,70 +1285,380 @@ export const payRateHistoryService = {
   },
 };
 
-export const formsService = {
-  async getAll() {
+/** Back-pay from retroactive rate changes (see utils/backPay.ts). */
+export const payRateAdjustmentsService = {
+  /** Adjustments paid in a payroll run overlapping [startDate, endDate]. */
+  async getForPayPeriod(startDate: string, endDate: string): Promise<PayRateAdjustment[]> {
     const { data, error } = await supabase
-      .from('forms')
-      .select(`
-        *,
-        employee:employees(
-          id,
-          user:users(first_name, last_name)
-        )
-      `)
-      .order('created_at', { ascending: false });
-
+      .from('pay_rate_adjustments')
+      .select('*')
+      .lte('pay_in_period_start', endDate)
+      .gte('pay_in_period_end', startDate)
+      .order('created_at', { ascending: true });
     if (error) throw error;
-    return data;
+    return (data || []).map((r: any) => ({ ...r, total_amount: Number(r.total_amount) || 0 })) as PayRateAdjustment[];
   },
 
-  async getById(id: string) {
+  /**
+   * Change an employee's pay rates from a past date. Entries in pay periods already paid (before the
+   * current payroll period) are re-priced against the rate history as it was, and the difference
+   * is recorded as back-pay for the current payroll run. Returns null when nothing is owed.
+   */
+  async changeRatesRetroactively(
+    employee: { id: string; user_id?: string | null; department?: string | null },
+    updates: any,
+    effectiveDate: string
+  ): Promise<{ employee: any; adjustment: PayRateAdjustment | null }> {
+    await paySchedulesService.load();
+    const payIn = currentPayrollPeriod();
+    const through = dayBefore(payIn.start);
+
+    const { data: before, error: beforeError } = await supabase.from('employees').select('*').eq('id', employee.id).single();
+    if (beforeError) throw beforeError;
+    const previousRates = toPayRates(before);
+
+    let periods: BackPayPeriod[] = [];
+    if (employee.user_id && effectiveDate <= through) {
+      const { data: history, error: historyError } = await supabase
+        .from('pay_rate_history')
+        .select('*')
+        .eq('employee_id', employee.id);
+      if (historyError) throw historyError;
+      const { data: entries, error: entriesError } = await supabase
+        .from('time_entries')
+        .select('id, date, hours, rate_type, billable')
+        .eq('user_id', employee.user_id)
+        .eq('is_demo', false)
+        .gte('date', effectiveDate)
+        .lte('date', through);
+      if (entriesError) throw entriesError;
+      // The new rates only run until the next recorded change; later hours were already paid at that one.
+      const nextChange = nextRateChangeAfter((history || []) as PayRateHistory[], effectiveDate);
+      periods = computeBackPay({
+        entries: entries || [],
+        history: (history || []) as PayRateHistory[],
+        previousRates,
+        newRates: toPayRates({ ...before, ...updates }),
+        isPanelShop: (updates.department ?? employee.department) === 'Panel Shop',
+        from: effectiveDate,
+        through: nextChange && dayBefore(parseYmdAtNoon(nextChange)) < through ? dayBefore(parseYmdAtNoon(nextChange)) : through,
+      });
+    }
+
+    const updated = await employeesService.update(employee.id, updates, effectiveDate);
+    if (periods.length === 0) return { employee: updated, adjustment: null };
+
+    const { data: { user } } = await supabase.auth.getUser();
     const { data, error } = await supabase
-      .from('forms')
-      .select(`
-        *,
-        employee:employees(
-          id,
-          user:users(first_name, last_name)
-        )
-      `)
-      .eq('id', id)
+      .from('pay_rate_adjustments')
+      .insert({
+        employee_id: employee.id,
+        user_id: employee.user_id,
+        effective_date: effectiveDate,
+        previous_rates: previousRates,
+        new_rates: toPayRates({ ...before, ...updates }),
+        periods,
+        total_amount: periods.reduce((sum, p) => sum + p.amount, 0),
+        pay_in_period_start: formatYmd(payIn.start),
+        pay_in_period_end: formatYmd(payIn.end),
+        created_by: user?.id ?? null,
+      })
+      .select()
       .single();
+    if (error) throw error;
+    return { employee: updated, adjustment: { ...data, total_amount: Number(data.total_amount) || 0 } as PayRateAdjustment };
+  },
+};
 
+/** Leave accrual policies (see utils/leave.ts). Admins edit; employees read their own. */
+export const leavePoliciesService = {
+  async getForEmployee(employeeId: string): Promise<LeavePolicy[]> {
+    const { data, error } = await supabase
+      .from('leave_policies')
+      .select('*')
+      .eq('employee_id', employeeId)
+      .order('leave_type', { ascending: true });
     if (error) throw error;
-    return data;
+    return (data || []) as LeavePolicy[];
   },
 
-  async create(form: any) {
+  async upsert(policy: Omit<LeavePolicy, 'id'>): Promise<LeavePolicy> {
     const { data, error } = await supabase
-      .from('forms')
-      .insert(form)
+      .from('leave_policies')
+      .upsert(policy, { onConflict: 'employee_id,leave_type' })
       .select()
       .single();
+    if (error) throw error;
+    return data as LeavePolicy;
+  },
 
+  async remove(employeeId: string, leaveType: LeaveType): Promise<void> {
+    const { error } = await supabase
+      .from('leave_policies')
+      .delete()
+      .eq('employee_id', employeeId)
+      .eq('leave_type', leaveType);
     if (error) throw error;
-    return data;
   },
+};
 
-  async update(id: string, updates: any) {
+/** Approved leave, one row per day. Written by the backend when a time-off form is approved. */
+export const leaveDaysService = {
+  async getForRange(startDate: string, endDate: string, userId?: string): Promise<LeaveDay[]> {
+    let query = supabase
+      .from('leave_days')
+      .select('*')
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('date', { ascending: true });
+    if (userId) query = query.eq('user_id', userId);
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map((d: any) => ({ ...d, hours: Number(d.hours) || 0 })) as LeaveDay[];
+  },
+};
+
+/** Payroll overtime rules (see utils/overtimeRules.ts). Admins edit; everyone can read. */
+export const overtimeRulesService = {
+  async getAll(): Promise<OvertimeRule[]> {
     const { data, error } = await supabase
-      .from('forms')
-      .update(updates)
-      .eq('id', id)
+      .from('overtime_rules')
+      .select('*')
+      .order('jurisdiction', { ascending: true })
+      .order('employee_class', { ascending: true, nullsFirst: true });
+    if (error) throw error;
+    return (data || []).map((r: any) => ({
+      ...r,
+      daily_ot_after: r.daily_ot_after == null ? null : Number(r.daily_ot_after),
+      daily_dt_after: r.daily_dt_after == null ? null : Number(r.daily_dt_after),
+      weekly_ot_after: r.weekly_ot_after == null ? null : Number(r.weekly_ot_after),
+      consecutive_day_dt_after: r.consecutive_day_dt_after == null ? null : Number(r.consecutive_day_dt_after),
+    })) as OvertimeRule[];
+  },
+
+  async upsert(rule: OvertimeRule): Promise<OvertimeRule> {
+    const { id, ...fields } = rule;
+    const payload = { ...fields, employee_class: fields.employee_class?.trim() || null, updated_at: new Date().toISOString() };
+    const query = id
+      ? supabase.from('overtime_rules').update(payload).eq('id', id)
+      : supabase.from('overtime_rules').insert(payload);
+    const { data, error } = await query.select().single();
+    if (error) throw error;
+    return data as OvertimeRule;
+  },
+
+  async delete(id: string): Promise<void> {
+    const { error } = await supabase.from('overtime_rules').delete().eq('id', id);
+    if (error) throw error;
+  },
+};
+
+/** Stored pay-period calendar (see utils/payPeriod.ts). */
+export const paySchedulesService = {
+  async getAll(): Promise<PaySchedule[]> {
+    const { data, error } = await supabase
+      .from('pay_schedules')
+      .select('*')
+      .order('effective_from', { ascending: true });
+    if (error) throw error;
+    return (data || []) as PaySchedule[];
+  },
+
+  /**
+   * Fetch and register the schedules with the pay-period helpers. Falls back to the built-in
+   * schedule (and logs) when the table can't be read, so pay periods still resolve.
+   */
+  async load(): Promise<PaySchedule[]> {
+    try {
+      const rows = await this.getAll();
+      setPaySchedules(rows);
+      return rows;
+    } catch (err) {
+      console.error('Error loading pay schedules, using default:', err);
+      setPaySchedules([]);
+      return [];
+    }
+  },
+
+  /** Add a schedule taking effect on `effective_from`; earlier periods keep the previous schedule. */
+  async create(schedule: PaySchedule): Promise<PaySchedule> {
+    const { data: { user } } = await supabase.auth.getUser();
+    const { data, error } = await supabase
+      .from('pay_schedules')
+      .insert({
+        frequency: schedule.frequency,
+        anchor_date: schedule.anchor_date,
+        payday_offset_days: schedule.payday_offset_days,
+        semimonthly_split_day: schedule.frequency === 'semimonthly' ? schedule.semimonthly_split_day ?? 15 : null,
+        effective_from: schedule.effective_from,
+        notes: schedule.notes?.trim() || null,
+        created_by: user?.id ?? null,
+      })
       .select()
       .single();
+    if (error) throw error;
+    return data as PaySchedule;
+  },
 
+  async delete(id: string): Promise<void> {
+    const { error } = await supabase.from('pay_schedules').delete().eq('id', id);
     if (error) throw error;
-    return data;
   },
+};
 
-  async delete(id: string) {
-    const { error } = await supabase
-      .from('forms')
+/** Statutory holidays (see utils/statHolidays.ts). Admins edit; everyone can read. */
+export const statHolidaysService = {
+  async getAll(): Promise<StatHoliday[]> {
+    const { data, error } = await supabase
+      .from('stat_holidays')
+      .select('id, jurisdiction, date, name')
+      .order('date', { ascending: true });
+    if (error) throw error;
+    return (data || []) as StatHoliday[];
+  },
+
+  /** Fetch and register the holidays with utils/statHolidays; built-in calendars apply on failure. */
+  async load(): Promise<StatHoliday[]> {
+    try {
+      const rows = await this.getAll();
+      setStatHolidays(rows);
+      return rows;
+    } catch (err) {
+      console.error('Error loading stat holidays, using built-in calendars:', err);
+      setStatHolidays([]);
+      return [];
+    }
+  },
+
+  /** Replace a jurisdiction's holidays for one year. An empty list reverts the year to the built-in calendar. */
+  async saveYear(jurisdiction: string, year: number, holidays: { date: string; name: string }[]): Promise<void> {
+    const { error: deleteError } = await supabase
+      .from('stat_holidays')
       .delete()
-      .eq('id', id);
+      .eq('jurisdiction', jurisdiction)
+      .gte('date', `${year}-01-01`)
+      .lte('date', `${year}-12-31`);
+    if (deleteError) throw deleteError;
+    if (holidays.length === 0) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase.from('stat_holidays').insert(
+      holidays.map((h) => ({ jurisdiction, date: h.date, name: h.name.trim(), created_by: user?.id ?? null }))
+    );
+    if (error) throw error;
+  },
+};
+
+/** Row from `pay_period_closures` (Payroll close-out). */
+export type PayPeriodClosure = {
+  id: string;
+  period_start: string;
+  period_end: string;
+  status: 'closed' | 'reopened';
+  closed_by: string | null;
+  closed_at: string;
+  csv_snapshot: string;
+  reopened_by: string | null;
+  reopened_at: string | null;
+  reopen_reason: string | null;
+  closer?: { first_name: string | null; last_name: string | null; email: string } | null;
+  reopener?: { first_name: string | null; last_name: string | null; email: string } | null;
+};
+
+export const payPeriodClosuresService = {
+  /** Closures (active and reopened) overlapping [startDate, endDate], newest first. */
+  async getForRange(startDate: string, endDate: string): Promise<PayPeriodClosure[]> {
+    const { data, error } = await supabase
+      .from('pay_period_closures')
+      .select(`
+        *,
+        closer:users!pay_period_closures_closed_by_fkey(first_name, last_name, email),
+        reopener:users!pay_period_closures_reopened_by_fkey(first_name, last_name, email)
+      `)
+      .lte('period_start', endDate)
+      .gte('period_end', startDate)
+      .order('closed_at', { ascending: false });
+    if (error) throw error;
+    return (data || []) as PayPeriodClosure[];
+  },
+
+  /** Close a period: time entries and expenses dated inside it become read-only (DB-enforced). */
+  async close(periodStart: string, periodEnd: string, csvSnapshot: string): Promise<PayPeriodClosure> {
+    const { data: { user } } = await supabase.auth.getUser();
+    const { data, error } = await supabase
+      .from('pay_period_closures')
+      .insert({
+        period_start: periodStart,
+        period_end: periodEnd,
+        csv_snapshot: csvSnapshot,
+        closed_by: user?.id ?? null,
+      })
+      .select()
+      .single();
+    if (error) throw error;
+    return data as PayPeriodClosure;
+  },
+
+  /** Reopen a closed period. The closure row is kept with who reopened it and why. */
+  async reopen(id: string, reason: string): Promise<void> {
+    const trimmed = reason.trim();
+    if (!trimmed) throw new Error('A reason is required to reopen a pay period.');
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from('pay_period_closures')
+      .update({
+        status: 'reopened',
+        reopened_by: user?.id ?? null,
+        reopened_at: new Date().toISOString(),
+        reopen_reason: trimmed,
+      })
+      .eq('id', id)
+      .eq('status', 'closed');
+    if (error) throw error;
+  },
+};
+
+export const payrollRegistersService = {
+  /** Saved registers for exactly this period, latest version first. */
+  async getForPeriod(periodStart: string, periodEnd: string): Promise<PayrollRegister[]> {
+    const { data, error } = await supabase
+      .from('payroll_registers')
+      .select(`
+        *,
+        exporter:users!payroll_registers_exported_by_fkey(first_name, last_name, email)
+      `)
+      .eq('period_start', periodStart)
+      .eq('period_end', periodEnd)
+      .order('version', { ascending: false });
+    if (error) throw error;
+    return (data || []) as PayrollRegister[];
+  },
 
+  /** Save an export as the next version for its period. */
+  async create(periodStart: string, periodEnd: string, register: PayrollRegisterData, csv: string): Promise<PayrollRegister> {
+    const { data: { user } } = await supabase.auth.getUser();
+    const { data: latest, error: latestError } = await supabase
+      .from('payroll_registers')
+      .select('version')
+      .eq('period_start', periodStart)
+      .eq('period_end', periodEnd)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (latestError) throw latestError;
+    const { data, error } = await supabase
+      .from('payroll_registers')
+      .insert({
+        period_start: periodStart,
+        period_end: periodEnd,
+        version: (Number(latest?.version) || 0) + 1,
+        exported_by: user?.id ?? null,
+        register,
+        csv,
+      })
+      .select()
+      .single();
     if (error) throw error;
+    return data as PayrollRegister;
   },
 };
 
@@ -586,6 +1726,8 @@ export const usersService = {
     timezone?: string;
     date_format?: string;
     time_format?: string;
+    timer_max_hours?: number | null;
+    timer_midnight_check?: boolean;
   }) {
     const { data, error } = await supabase
       .from('users')
@@ -888,6 +2030,7 @@ export const serviceTicketsService = {
       .select(`
         *,
         user:users!time_entries_user_id_fkey(id, email, first_name, last_name),
+        cost_code:project_cost_codes(id, code, name),
         project:projects!time_entries_project_id_fkey(
           id,
           name,
@@ -1019,7 +2162,7 @@ export const serviceTicketsService = {
     totalAmount: number;
     isDemo?: boolean;
     approvedByAdminId?: string;
-    headerOverrides?: Record<string, string | number | string[]>;
+    headerOverrides?: Record<string, string | number | string[] | TicketRateSources>;
   }) {
     const isDemo = ticket.isDemo || false;
     const tableName = isDemo ? 'service_tickets_demo' : 'service_tickets';
@@ -1182,7 +2325,7 @@ export const serviceTicketsService = {
     ticketNumber: string | null,
     isDemo: boolean = false,
     approvedByAdminId?: string,
-    headerOverrides?: Record<string, string | number | string[]>,
+    headerOverrides?: Record<string, string | number | string[] | TicketRateSources>,
     approvalHours?: {
       totalHours: number;
       totalAmount: number;
@@ -1341,7 +2484,7 @@ export const serviceTicketsService = {
     location?: string;
     billingKey?: string;
     /** When creating a new record, use these values for header_overrides instead of parsing from billingKey (which only has po_afe) */
-    headerOverrides?: Record<string, string | number | string[]>;
+    headerOverrides?: Record<string, string | number | string[] | TicketRateSources>;
   }, isDemo: boolean = false): Promise<{ id: string }> {
     // Don't create tickets without a customer - they need a project/customer to be valid
     if (!params.customerId) {
@@ -1945,6 +3088,9 @@ export type ServiceTicketExpenseRow = {
   reimbursement_status?: string;
   reimbursement_approved_at?: string;
   user_expense_id?: string | null;
+  /** Phase / cost code on the ticket's project */
+  cost_code_id?: string | null;
+  cost_code?: { code: string; name: string } | null;
   created_at?: string;
   updated_at?: string;
 };
@@ -1988,7 +3134,7 @@ export const serviceTicketExpensesService = {
   async getByTicketId(ticketId: string): Promise<ServiceTicketExpenseRow[]> {
     const { data, error } = await supabase
       .from('service_ticket_expenses')
-      .select('*')
+      .select('*, cost_code:project_cost_codes(code, name)')
       .eq('service_ticket_id', ticketId)
       .order('created_at', { ascending: true });
 
@@ -2012,6 +3158,10 @@ export const serviceTicketExpensesService = {
       if (r.reimbursement_status != null) out.reimbursement_status = String(r.reimbursement_status);
       if (r.reimbursement_approved_at != null) out.reimbursement_approved_at = String(r.reimbursement_approved_at);
       if (r.user_expense_id != null) out.user_expense_id = String(r.user_expense_id);
+      if (r.cost_code_id != null) {
+        out.cost_code_id = String(r.cost_code_id);
+        out.cost_code = (r.cost_code as ServiceTicketExpenseRow['cost_code']) ?? null;
+      }
       if (r.created_at != null) out.created_at = String(r.created_at);
       if (r.updated_at != null) out.updated_at = String(r.updated_at);
       return out;
@@ -2264,26 +3414,16 @@ export const serviceTicketExpensesService = {
    * Auto-sweep: mark reimbursable ticket expenses as paid when the pay period
    * that included them has fully passed. Approval workflow currently bypassed —
    * every needs_reimbursement row whose status is not 'paid' flips to paid past
-   * the cutoff. Pay periods are 14-day stripes anchored on 2026-01-19; payday
-   * is 5 days after the period end.
+   * the cutoff. Pay periods and paydays come from pay_schedules (utils/payPeriod).
    *
    * For receipt-required types (Hotel, Other) we additionally require the line
    * to have a receipt attached: either actual_cost set OR user_expense_id linked.
    * This matches the payroll inclusion rule.
    */
   async autoMarkPastPaydaysPaid(): Promise<{ count: number; cutoff: string | null }> {
-    const ANCHOR_MS = new Date(2026, 0, 19).getTime();
-    const PAYDAY_OFFSET_DAYS = 18;
-    const MS_PER_DAY = 86400000;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const refPaydayMs = ANCHOR_MS + PAYDAY_OFFSET_DAYS * MS_PER_DAY;
-    const periodsSince = (today.getTime() - refPaydayMs) / MS_PER_DAY / 14;
-    if (periodsSince < 0) return { count: 0, cutoff: null };
-    const idx = Math.floor(periodsSince);
-    const periodEndMs = ANCHOR_MS + (idx * 14 + 13) * MS_PER_DAY;
-    const cutoffDate = new Date(periodEndMs);
-    const cutoff = `${cutoffDate.getFullYear()}-${String(cutoffDate.getMonth() + 1).padStart(2, '0')}-${String(cutoffDate.getDate()).padStart(2, '0')}`;
+    // Cutoff = end of the latest period whose payday has arrived, per the stored pay schedules.
+    await paySchedulesService.load();
+    const cutoff = formatYmd(lastPaidPayPeriod().end);
 
     // Identify employees opted-in to approval, plus contractors (who never need receipts).
     const { data: emps } = await supabase
@@ -2399,6 +3539,7 @@ export const serviceTicketExpensesService = {
      *  receipt is applied to a ticket so the payroll dedup never has to fall back to description
      *  matching to figure out the two rows represent the same charge. */
     user_expense_id?: string | null;
+    cost_code_id?: string | null;
   }) {
     const { data, error } = await supabase
       .from('service_ticket_expenses')
@@ -2429,6 +3570,7 @@ export const serviceTicketExpensesService = {
     /** Backlink to the receipt this ticket line is paid from. Setting this keeps payroll
      *  dedup honest without falling back to description matching. */
     user_expense_id?: string | null;
+    cost_code_id?: string | null;
   }) {
     const payload =
       updates.expense_type !== undefined
@@ -2553,23 +3695,27 @@ const RECEIPTS_BUCKET = 'receipts';
 
 export const userExpensesService = {
   async getAll() {
-    const { data, error } = await supabase
-      .from('user_expenses')
-      .select(`
-        *,
-        service_tickets (
-          ticket_number
-        ),
-        users (
-          first_name,
-          last_name,
-          email
-        )
-      `)
-      .order('expense_date', { ascending: false });
+    const rows = await withOfflineCache('user_expenses:all', async () => {
+      const { data, error } = await supabase
+        .from('user_expenses')
+        .select(`
+          *,
+          service_tickets (
+            ticket_number
+          ),
+          users (
+            first_name,
+            last_name,
+            email
+          )
+        `)
+        .order('expense_date', { ascending: false });
 
-    if (error) throw error;
-    return data;
+      if (error) throw error;
+      return data || [];
+    });
+    const { data: { session } } = await supabase.auth.getSession();
+    return overlayQueuedChanges('user_expenses', rows, session?.user?.id);
   },
 
   async getByServiceTicketId(ticketId: string) {
@@ -2667,18 +3813,9 @@ export const userExpensesService = {
    * requiring approval, only status='approved' rows are flipped.
    */
   async autoMarkPastPaydaysPaid(): Promise<{ count: number; cutoff: string | null }> {
-    const ANCHOR_MS = new Date(2026, 0, 19).getTime();
-    const PAYDAY_OFFSET_DAYS = 18;
-    const MS_PER_DAY = 86400000;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const refPaydayMs = ANCHOR_MS + PAYDAY_OFFSET_DAYS * MS_PER_DAY;
-    const periodsSince = (today.getTime() - refPaydayMs) / MS_PER_DAY / 14;
-    if (periodsSince < 0) return { count: 0, cutoff: null };
-    const idx = Math.floor(periodsSince);
-    const periodEndMs = ANCHOR_MS + (idx * 14 + 13) * MS_PER_DAY;
-    const cutoffDate = new Date(periodEndMs);
-    const cutoff = `${cutoffDate.getFullYear()}-${String(cutoffDate.getMonth() + 1).padStart(2, '0')}-${String(cutoffDate.getDate()).padStart(2, '0')}`;
+    // Cutoff = end of the latest period whose payday has arrived, per the stored pay schedules.
+    await paySchedulesService.load();
+    const cutoff = formatYmd(lastPaidPayPeriod().end);
 
     // Identify employees opted-in to the approval workflow.
     const { data: approvalEmps } = await supabase
@@ -3152,6 +4289,52 @@ export const invoicedBatchInvoicesService = {
     return { storagePath, filename: label };
   },
 
+  /**
+   * Store an invoice generated in the app as the batch's invoice, replacing any uploaded one.
+   * invoice_number stays on the row so regenerating the PDF keeps the same number.
+   */
+  async storeGeneratedInvoice(groupId: string, blob: Blob, filename: string, invoiceNumber: string): Promise<{ storagePath: string; filename: string }> {
+    const safeId = sanitizeStoragePathSegment(groupId);
+    const storagePath = `${safeId}/${Date.now()}_${sanitizeStoragePathSegment(filename)}`;
+
+    const { data: previous } = await supabase
+      .from('invoiced_batch_invoices')
+      .select('storage_path')
+      .eq('group_id', groupId)
+      .limit(1);
+
+    const { error: uploadError } = await supabase.storage
+      .from(INVOICED_BATCH_BUCKET)
+      .upload(storagePath, blob, { contentType: 'application/pdf', upsert: true });
+    if (uploadError) throw uploadError;
+
+    const now = new Date().toISOString();
+    const { error: upsertError } = await supabase
+      .from('invoiced_batch_invoices')
+      .upsert(
+        {
+          group_id: groupId,
+          invoice_filename: filename,
+          storage_path: storagePath,
+          invoice_number: invoiceNumber,
+          generated_at: now,
+          updated_at: now,
+        },
+        { onConflict: 'group_id' }
+      );
+    if (upsertError) {
+      await supabase.storage.from(INVOICED_BATCH_BUCKET).remove([storagePath]);
+      if (upsertError.code === '23505') {
+        throw new Error(`Invoice number ${invoiceNumber} is already used by another batch. Raise the next number under Settings → Invoice numbers.`);
+      }
+      throw upsertError;
+    }
+
+    const oldPath = previous?.[0]?.storage_path;
+    if (oldPath && oldPath !== storagePath) await supabase.storage.from(INVOICED_BATCH_BUCKET).remove([oldPath]);
+    return { storagePath, filename };
+  },
+
   async getAllInvoicedGroupIds(): Promise<string[]> {
     const { data, error } = await supabase
       .from('invoiced_batch_invoices')
@@ -3160,19 +4343,20 @@ export const invoicedBatchInvoicesService = {
     return (data || []).map((row) => row.group_id);
   },
 
-  async getMetadataByGroupIds(groupIds: string[]): Promise<Record<string, { filename: string; storagePath: string }>> {
+  async getMetadataByGroupIds(groupIds: string[]): Promise<Record<string, { filename: string; storagePath: string; invoiceNumber: string | null }>> {
     if (groupIds.length === 0) return {};
     const { data, error } = await supabase
       .from('invoiced_batch_invoices')
-      .select('group_id, invoice_filename, storage_path')
+      .select('group_id, invoice_filename, storage_path, invoice_number')
       .in('group_id', groupIds);
 
     if (error) throw error;
-    const out: Record<string, { filename: string; storagePath: string }> = {};
+    const out: Record<string, { filename: string; storagePath: string; invoiceNumber: string | null }> = {};
     for (const row of data || []) {
       out[row.group_id] = {
         filename: displayInvoiceFilename(row.invoice_filename),
         storagePath: row.storage_path,
+        invoiceNumber: row.invoice_number ?? null,
       };
     }
     return out;
@@ -3238,6 +4422,46 @@ export const invoicedBatchApprovalsService = {
     return { storagePath, filename: label };
   },
 
+  /**
+   * Files a PDF as the batch's approval only when it has none yet (the signed PDF built from an
+   * approver portal link). Returns false, and leaves the existing approval alone, when one was there.
+   */
+  async addApprovalIfMissing(groupId: string, file: File): Promise<boolean> {
+    const { data: existing, error: existingError } = await supabase
+      .from('invoiced_batch_approvals')
+      .select('group_id')
+      .eq('group_id', groupId)
+      .maybeSingle();
+    if (existingError) throw existingError;
+    if (existing) return false;
+
+    const safeId = sanitizeStoragePathSegment(groupId);
+    const { label, storageFileSegment } = normalizeInvoiceUploadLabel(file.name || 'approval.pdf');
+    const storagePath = `_approvals/${safeId}/${Date.now()}_${sanitizeStoragePathSegment(storageFileSegment)}`;
+    const { error: uploadError } = await supabase.storage
+      .from(INVOICED_BATCH_BUCKET)
+      .upload(storagePath, file, { contentType: 'application/pdf' });
+    if (uploadError) throw uploadError;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const now = new Date().toISOString();
+    const { error: insertError } = await supabase.from('invoiced_batch_approvals').insert({
+      group_id: groupId,
+      approval_filename: label,
+      storage_path: storagePath,
+      uploaded_by: user?.id ?? null,
+      uploaded_at: now,
+      updated_at: now,
+    });
+    if (insertError) {
+      await supabase.storage.from(INVOICED_BATCH_BUCKET).remove([storagePath]);
+      // Someone dropped an approval in the meantime; keep theirs.
+      if (insertError.code === '23505') return false;
+      throw insertError;
+    }
+    return true;
+  },
+
   async getMetadataByGroupIds(groupIds: string[]): Promise<Record<string, { filename: string; storagePath: string }>> {
     if (groupIds.length === 0) return {};
     const { data, error } = await supabase
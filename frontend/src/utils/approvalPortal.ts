@@ -0,0 +1,3 @@
+// Approver portal types and submission checks live in the repo-level shared module so the backend
+// validates an approver's decisions and signature the same way the portal page does.
+export * from '../../../shared/approvalPortal';
@@ -0,0 +1,157 @@
+/**
+ * Back-pay for retroactive pay-rate changes. When an admin changes an employee's pay rates with an
+ * effective date in the past (Employees page), every entry in the periods already paid is priced
+ * at the rate in force then (pay_rate_history before the change) and at the new rate. The
+ * difference, per pay period, is stored in `pay_rate_adjustments` and paid as an adjustment line
+ * in the next payroll run. Rate selection mirrors Payroll's base pay: non-billable and travel time
+ * at the shop rate, field at the field rate (shop rate for Panel Shop when no field rate is set).
+ */
+
+import type { PayRateHistory } from './employeeReports';
+import { formatYmd, payPeriodBoundsForYmd } from './payPeriod';
+
+export type PayRates = {
+  shop_pay_rate: number;
+  field_pay_rate: number;
+  shop_ot_pay_rate: number;
+  field_ot_pay_rate: number;
+};
+
+export type BackPayEntry = {
+  id: string;
+  date: string;
+  hours: number;
+  rate_type?: string | null;
+  billable?: boolean | null;
+};
+
+export type BackPayPeriod = {
+  period_start: string;
+  period_end: string;
+  hours: number;
+  /** What was paid at the old rates. */
+  paid: number;
+  /** What the same hours cost at the new rates. */
+  owed: number;
+  /** owed − paid (negative when a rate was lowered retroactively). */
+  amount: number;
+};
+
+/** Row from `pay_rate_adjustments`. */
+export type PayRateAdjustment = {
+  id: string;
+  employee_id: string;
+  user_id: string | null;
+  effective_date: string;
+  previous_rates: PayRates;
+  new_rates: PayRates;
+  periods: BackPayPeriod[];
+  total_amount: number;
+  pay_in_period_start: string;
+  pay_in_period_end: string;
+  created_by: string | null;
+  created_at: string;
+};
+
+export const PAY_RATE_FIELDS = ['shop_pay_rate', 'field_pay_rate', 'shop_ot_pay_rate', 'field_ot_pay_rate'] as const;
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+export function toPayRates(src: any): PayRates {
+  return {
+    shop_pay_rate: Number(src?.shop_pay_rate) || 0,
+    field_pay_rate: Number(src?.field_pay_rate) || 0,
+    shop_ot_pay_rate: Number(src?.shop_ot_pay_rate) || 0,
+    field_ot_pay_rate: Number(src?.field_ot_pay_rate) || 0,
+  };
+}
+
+export function payRatesDiffer(a: PayRates, b: PayRates): boolean {
+  return PAY_RATE_FIELDS.some((f) => round2(a[f]) !== round2(b[f]));
+}
+
+/** Hourly pay for one entry, using the same fallbacks as Payroll's base pay. */
+export function payRateForEntry(rates: PayRates, entry: BackPayEntry, isPanelShop: boolean): number {
+  const shopRate = rates.shop_pay_rate;
+  const shopOtRate = rates.shop_ot_pay_rate || shopRate * 1.5;
+  const fieldRate = rates.field_pay_rate || shopRate;
+  const fieldOtRate = rates.field_ot_pay_rate || fieldRate * 1.5;
+  if (!entry.billable) return shopRate;
+  switch (entry.rate_type || 'Shop Time') {
+    case 'Shop Overtime': return shopOtRate;
+    case 'Field Time': return isPanelShop ? (fieldRate || shopRate) : fieldRate;
+    case 'Field Overtime': return isPanelShop ? (fieldOtRate || shopOtRate) : fieldOtRate;
+    default: return shopRate;
+  }
+}
+
+/**
+ * Rates in force on `date` from the employee's history (latest row on or before it; the first row
+ * also covers earlier dates), falling back to `current` when there is no history.
+ */
+export function historicalRatesForDate(history: PayRateHistory[], date: string, current: PayRates): PayRates {
+  const sorted = history.slice().sort((a, b) => a.effective_date.localeCompare(b.effective_date));
+  if (sorted.length === 0) return current;
+  let match = sorted[0];
+  for (const h of sorted) {
+    if (h.effective_date <= date) match = h;
+    else break;
+  }
+  return toPayRates(match);
+}
+
+/** Date of the first history row after `date` (the end of a retroactive change's reach), or null. */
+export function nextRateChangeAfter(history: PayRateHistory[], date: string): string | null {
+  return history
+    .map((h) => h.effective_date)
+    .filter((d) => d > date)
+    .sort()[0] ?? null;
+}
+
+/** Back-pay per pay period for entries dated [from, through]; periods with no difference are dropped. */
+export function computeBackPay({
+  entries,
+  history,
+  previousRates,
+  newRates,
+  isPanelShop,
+  from,
+  through,
+}: {
+  entries: BackPayEntry[];
+  /** pay_rate_history rows as they were before this change. */
+  history: PayRateHistory[];
+  /** Employee's rates before this change (used when history is empty). */
+  previousRates: PayRates;
+  newRates: PayRates;
+  isPanelShop: boolean;
+  from: string;
+  through: string;
+}): BackPayPeriod[] {
+  const byPeriod = new Map<string, BackPayPeriod>();
+  for (const entry of entries) {
+    const date = String(entry.date).split('T')[0];
+    if (date < from || date > through) continue;
+    const hours = Number(entry.hours) || 0;
+    if (hours === 0) continue;
+    const paidRate = payRateForEntry(historicalRatesForDate(history, date, previousRates), entry, isPanelShop);
+    const owedRate = payRateForEntry(newRates, entry, isPanelShop);
+    const { startYmd, endYmd } = payPeriodBoundsForYmd(date);
+    const p = byPeriod.get(startYmd) || { period_start: startYmd, period_end: endYmd, hours: 0, paid: 0, owed: 0, amount: 0 };
+    p.hours += hours;
+    p.paid += hours * paidRate;
+    p.owed += hours * owedRate;
+    byPeriod.set(startYmd, p);
+  }
+  return Array.from(byPeriod.values())
+    .map((p) => ({ ...p, hours: round2(p.hours), paid: round2(p.paid), owed: round2(p.owed), amount: round2(p.owed - p.paid) }))
+    .filter((p) => p.amount !== 0)
+    .sort((a, b) => a.period_start.localeCompare(b.period_start));
+}
+
+/** Last day before `periodStart` (the end of the back-pay window). */
+export function dayBefore(periodStart: Date): string {
+  const d = new Date(periodStart);
+  d.setDate(d.getDate() - 1);
+  return formatYmd(d);
+}
@@ -0,0 +1,65 @@
+/** Row from `customer_email_templates`: how batches are emailed to one customer. */
+export type CustomerEmailTemplate = {
+  customer_id: string;
+  /** Empty = send to the customer's own email. */
+  to_addresses: string[];
+  cc_addresses: string[];
+  /** Null = DEFAULT_EMAIL_SUBJECTS / DEFAULT_EMAIL_BODIES. */
+  subject: string | null;
+  body: string | null;
+};
+
+export type BatchEmailKind = 'approval' | 'invoice';
+
+export type EmailTemplateValues = {
+  customer: string;
+  project: string;
+  period: string;
+  batch: string;
+  sender: string;
+};
+
+export const EMAIL_TEMPLATE_PLACEHOLDERS: Array<keyof EmailTemplateValues> = ['customer', 'project', 'period', 'batch', 'sender'];
+
+export const DEFAULT_EMAIL_SUBJECTS: Record<BatchEmailKind, string> = {
+  approval: 'Service tickets for approval: {project} ({period})',
+  invoice: 'Invoice: {project} ({period})',
+};
+
+export const DEFAULT_EMAIL_BODIES: Record<BatchEmailKind, string> = {
+  approval:
+    'Hello,\n\nAttached are the service tickets for {project}, {period}, for your review and approval ({batch}).\n\nPlease reply with any questions.\n\nThank you,\n{sender}',
+  invoice:
+    'Hello,\n\nAttached is our invoice for {project}, {period}, with the supporting service tickets ({batch}).\n\nThank you,\n{sender}',
+};
+
+/** Fills {customer}, {project}, … in a subject or body; unknown placeholders are left as typed. */
+export function renderEmailTemplate(template: string, values: EmailTemplateValues): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name as keyof EmailTemplateValues] : match
+  );
+}
+
+/** Splits a typed recipient list on commas, semicolons and whitespace, dropping duplicates. */
+export function parseAddressList(value: string): string[] {
+  return [...new Set(value.split(/[\s,;]+/).map((a) => a.trim()).filter(Boolean))];
+}
+
+/** Same check as the backend mailer, so a bad address is caught before the PDF is built. */
+export function isValidEmail(address: string): boolean {
+  return /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[^\s@<>(),;:"]+$/.test(address.trim());
+}
+
+/** Base64 of a PDF for POST /api/mail/batch-emails (the data: URL prefix stripped). */
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result;
+      if (typeof result === 'string') resolve(result.slice(result.indexOf(',') + 1));
+      else reject(new Error('FileReader result is not a string'));
+    };
+    reader.onerror = () => reject(new Error('Failed to read the PDF'));
+    reader.readAsDataURL(blob);
+  });
+}
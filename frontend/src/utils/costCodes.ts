@@ -0,0 +1,111 @@
+/**
+ * Phases / tasks / cost codes under a project (project_cost_codes). A code with no parent is a
+ * phase; codes nest under it through parent_id. Time entries and ticket expenses carry one
+ * cost_code_id, and Profitability rolls them up to the top-level phase.
+ */
+export type CostCode = {
+  id?: string;
+  project_id: string;
+  parent_id: string | null;
+  code: string;
+  name: string;
+  active: boolean;
+  sort_order: number;
+};
+
+/** "100.10 Cable pull" */
+export function costCodeLabel(c: Pick<CostCode, 'code' | 'name'>): string {
+  return c.name ? `${c.code} ${c.name}` : c.code;
+}
+
+function compareSiblings(a: CostCode, b: CostCode): number {
+  return a.sort_order - b.sort_order || a.code.localeCompare(b.code, undefined, { numeric: true });
+}
+
+/** The project's codes in tree order (each parent followed by its children), with their depth. */
+export function costCodeTree(codes: CostCode[]): { costCode: CostCode; depth: number }[] {
+  const ids = new Set(codes.map((c) => c.id));
+  const children = new Map<string | null, CostCode[]>();
+  for (const c of codes) {
+    // Orphans (parent deleted or on another project) show as phases rather than disappearing
+    const parent = c.parent_id && ids.has(c.parent_id) ? c.parent_id : null;
+    children.set(parent, [...(children.get(parent) ?? []), c]);
+  }
+  const out: { costCode: CostCode; depth: number }[] = [];
+  const seen = new Set<string | undefined>();
+  const walk = (parent: string | null, depth: number) => {
+    for (const c of (children.get(parent) ?? []).sort(compareSiblings)) {
+      if (seen.has(c.id)) continue;
+      seen.add(c.id);
+      out.push({ costCode: c, depth });
+      if (c.id) walk(c.id, depth + 1);
+    }
+  };
+  walk(null, 0);
+  return out;
+}
+
+/** Top-level phase of a code (the code itself when it is a phase); null for an unknown id. */
+export function phaseOf(codes: CostCode[], costCodeId: string | null | undefined): CostCode | null {
+  if (!costCodeId) return null;
+  const byId = new Map(codes.map((c) => [c.id, c]));
+  let current = byId.get(costCodeId);
+  const visited = new Set<string>();
+  while (current?.parent_id && byId.has(current.parent_id) && !visited.has(current.parent_id)) {
+    visited.add(current.parent_id);
+    current = byId.get(current.parent_id);
+  }
+  return current ?? null;
+}
+
+/** True when the project asks for a cost code and has at least one active code to pick. */
+export function costCodeRequired(project: any, projectCodes: CostCode[]): boolean {
+  return project?.require_cost_code === true && projectCodes.some((c) => c.active);
+}
+
+export type PhaseBreakdownRow = {
+  /** Top-level phase id; null for entries and expenses with no cost code. */
+  phaseId: string | null;
+  label: string;
+  hours: number;
+  laborCost: number;
+  expenseCost: number;
+  expenseBilled: number;
+};
+
+/**
+ * Hours and cost per top-level phase. Entries and expenses are pre-costed by the caller (loaded
+ * labour rate, expense cost for margin), so this only does the roll-up. Phases with nothing
+ * logged are left out; uncoded work is the last row.
+ */
+export function phaseBreakdown(
+  codes: CostCode[],
+  entries: { cost_code_id?: string | null; hours: number; cost: number }[],
+  expenses: { cost_code_id?: string | null; cost: number; billed: number }[]
+): PhaseBreakdownRow[] {
+  const rows = new Map<string | null, PhaseBreakdownRow>();
+  const row = (costCodeId: string | null | undefined) => {
+    const phase = phaseOf(codes, costCodeId);
+    const key = phase?.id ?? null;
+    if (!rows.has(key)) {
+      rows.set(key, { phaseId: key, label: phase ? costCodeLabel(phase) : 'No cost code', hours: 0, laborCost: 0, expenseCost: 0, expenseBilled: 0 });
+    }
+    return rows.get(key)!;
+  };
+  for (const e of entries) {
+    const r = row(e.cost_code_id);
+    r.hours += e.hours;
+    r.laborCost += e.cost;
+  }
+  for (const x of expenses) {
+    const r = row(x.cost_code_id);
+    r.expenseCost += x.cost;
+    r.expenseBilled += x.billed;
+  }
+  const order = new Map(costCodeTree(codes).map(({ costCode }, i) => [costCode.id ?? null, i]));
+  return [...rows.values()].sort((a, b) => {
+    if (a.phaseId === null) return 1;
+    if (b.phaseId === null) return -1;
+    return (order.get(a.phaseId) ?? 0) - (order.get(b.phaseId) ?? 0);
+  });
+}
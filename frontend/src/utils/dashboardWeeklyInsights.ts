@@ -1,6 +1,6 @@
 /**
  * Financial dashboard insights: week-over-week chart bars, rolling 4-week invoiced ticket revenue,
- * completed-month MoM, MTD vs same calendar days last month, plus WIP / liability $ signals.
+ * completed-month MoM, MTD vs same calendar days last month, plus WIP / liability / cash collected $ signals.
  */
 
 export type DashboardInsightTone = 'attention' | 'positive' | 'neutral';
@@ -51,6 +51,12 @@ export type BuildDashboardInsightsInput = {
   lastMonthLabel: string;
   monthBeforeLastLabel: string;
   currentMonthLabel: string;
+  /** Customer payments recorded in Receivables this month to date; omitted when receivables aren't loaded. */
+  cashCollectedMtd?: number;
+  /** Payments received on the same calendar days last month. */
+  cashCollectedPriorSamePeriod?: number;
+  /** Open balance on invoices past their due date. */
+  receivablesOverdue?: number;
 };
 
 export function buildDashboardWeeklyInsights(input: BuildDashboardInsightsInput): DashboardInsight[] {
@@ -67,6 +73,9 @@ export function buildDashboardWeeklyInsights(input: BuildDashboardInsightsInput)
     lastMonthLabel,
     monthBeforeLastLabel,
     currentMonthLabel,
+    cashCollectedMtd,
+    cashCollectedPriorSamePeriod = 0,
+    receivablesOverdue = 0,
   } = input;
 
   const insights: DashboardInsight[] = [];
@@ -367,5 +376,30 @@ export function buildDashboardWeeklyInsights(input: BuildDashboardInsightsInput)
     });
   }
 
+  // —— Cash collected (Receivables payments) ——
+  if (cashCollectedMtd != null && (cashCollectedMtd > 0 || cashCollectedPriorSamePeriod > 0)) {
+    const pace = pctChange(cashCollectedMtd, cashCollectedPriorSamePeriod);
+    const behind = pace != null && cashCollectedPriorSamePeriod > 0 && pace <= -25;
+    insights.push({
+      id: 'cash-collected',
+      tone: behind ? 'attention' : 'neutral',
+      title: behind ? `${currentMonthLabel} collections are behind last month` : `Cash collected in ${currentMonthLabel}`,
+      detail: `${fmtMoney(cashCollectedMtd)} received vs ${fmtMoney(cashCollectedPriorSamePeriod)} on the same calendar days in ${lastMonthLabel}${pace != null && cashCollectedPriorSamePeriod > 0 ? ` (${pace >= 0 ? '+' : ''}${pace.toFixed(0)}%).` : '.'}`,
+      actionLabel: 'Receivables',
+      actionPath: '/invoices',
+    });
+  }
+
+  if (receivablesOverdue >= 1_000) {
+    insights.push({
+      id: 'receivables-overdue',
+      tone: 'attention',
+      title: 'Overdue receivables',
+      detail: `${fmtMoney(receivablesOverdue)} on invoices past their due date.`,
+      actionLabel: 'Receivables',
+      actionPath: '/invoices',
+    });
+  }
+
   return sortInsights(insights);
 }
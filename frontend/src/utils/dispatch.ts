@@ -0,0 +1,176 @@
+import { DraftEntry, overlapsExisting, templateToTimeEntry } from './entryTemplates';
+import { LEAVE_TYPE_LABELS, LeaveDay } from './leave';
+import { statHolidayOn } from './statHolidays';
+import { getEntryHoursOnDate } from './timeEntryUtils';
+
+/** Row from `crew_assignments`: one employee planned on a project/location for part of a day. */
+export type CrewAssignment = {
+  id?: string;
+  user_id: string;
+  date: string;
+  customer_id: string | null;
+  project_id: string | null;
+  /** project_cost_codes.id, carried into the time entry. */
+  cost_code_id: string | null;
+  location: string | null;
+  rate_type: string;
+  /** HH:MM (Postgres TIME may add :SS). */
+  start_time: string;
+  hours: number;
+  notes: string | null;
+  created_by?: string | null;
+  is_demo: boolean;
+};
+
+export const DISPATCH_RATE_TYPES = ['Field Time', 'Shop Time', 'Travel Time', 'Field Overtime', 'Shop Overtime'];
+
+/** Planned hours in a day above this are flagged as a long day. */
+export const DISPATCH_LONG_DAY_HOURS = 12;
+
+/** Local start and end of an assignment. */
+export function assignmentWindow(a: Pick<CrewAssignment, 'date' | 'start_time' | 'hours'>): { start: Date; end: Date } {
+  const [y, mo, d] = String(a.date).slice(0, 10).split('-').map(Number);
+  const [h, m] = String(a.start_time || '08:00').split(':').map(Number);
+  const start = new Date(y, mo - 1, d, h || 0, m || 0);
+  return { start, end: new Date(start.getTime() + (Number(a.hours) || 0) * 60 * 60 * 1000) };
+}
+
+/** "8:00 AM–4:30 PM" */
+export function formatAssignmentTime(a: Pick<CrewAssignment, 'date' | 'start_time' | 'hours'>): string {
+  const { start, end } = assignmentWindow(a);
+  const fmt = (d: Date) => d.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  return `${fmt(start)}–${fmt(end)}`;
+}
+
+/**
+ * Problems with each assignment, keyed by assignment id: booked on approved leave or a stat
+ * holiday, overlapping another assignment for the same person, or part of a day planned past
+ * DISPATCH_LONG_DAY_HOURS. `jurisdictionByUser` is the employee's province for stat holidays.
+ */
+export function findAssignmentConflicts(
+  assignments: CrewAssignment[],
+  leaveDays: Pick<LeaveDay, 'user_id' | 'date' | 'leave_type' | 'hours'>[],
+  jurisdictionByUser: Map<string, string | null> = new Map()
+): Map<string, string[]> {
+  const conflicts = new Map<string, string[]>();
+  const add = (id: string | undefined, message: string) => {
+    if (!id) return;
+    const list = conflicts.get(id) ?? [];
+    if (!list.includes(message)) list.push(message);
+    conflicts.set(id, list);
+  };
+
+  const leaveByUserDate = new Map<string, (typeof leaveDays)[number]>();
+  for (const d of leaveDays) {
+    if (d.user_id) leaveByUserDate.set(`${d.user_id}|${String(d.date).slice(0, 10)}`, d);
+  }
+
+  const byUserDate = new Map<string, CrewAssignment[]>();
+  for (const a of assignments) {
+    const key = `${a.user_id}|${String(a.date).slice(0, 10)}`;
+    byUserDate.set(key, [...(byUserDate.get(key) ?? []), a]);
+  }
+
+  for (const [key, dayAssignments] of byUserDate) {
+    const [userId, date] = key.split('|');
+    const leave = leaveByUserDate.get(key);
+    const holiday = statHolidayOn(jurisdictionByUser.get(userId) ?? null, date);
+    const total = dayAssignments.reduce((sum, a) => sum + (Number(a.hours) || 0), 0);
+    const windows = dayAssignments.map((a) => ({ a, ...assignmentWindow(a) }));
+
+    for (const { a, start, end } of windows) {
+      if (leave) add(a.id, `On ${LEAVE_TYPE_LABELS[leave.leave_type].toLowerCase()} leave (${leave.hours}h)`);
+      if (holiday) add(a.id, `Stat holiday: ${holiday.name}`);
+      if (total > DISPATCH_LONG_DAY_HOURS) add(a.id, `${total}h planned this day`);
+      for (const other of windows) {
+        if (other.a === a) continue;
+        if (other.start < end && other.end > start) add(a.id, `Overlaps another assignment (${formatAssignmentTime(other.a)})`);
+      }
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Draft time entries for the assignments, for review in the week view before saving. Uses the
+ * same rules as templates (no project = internal time, Panel Shop logs Shop Time).
+ */
+export function draftsFromAssignments(
+  assignments: CrewAssignment[],
+  existing: any[],
+  projects: any[],
+  opts: { userId: string; isDemo: boolean; isPanelShop: boolean }
+): DraftEntry[] {
+  return assignments
+    .filter((a) => a.user_id === opts.userId)
+    .map((a) => {
+      const { start } = assignmentWindow(a);
+      const project = projects.find((p) => p.id === a.project_id);
+      const entry = templateToTimeEntry(
+        {
+          user_id: a.user_id,
+          name: '',
+          description: '',
+          customer_id: a.customer_id ?? project?.customer_id ?? null,
+          project_id: a.project_id,
+          cost_code_id: a.cost_code_id ?? null,
+          rate_type: a.rate_type,
+          start_time: String(a.start_time),
+          hours: Number(a.hours),
+          location: a.location,
+          approver: null,
+          po_afe: null,
+          cc: null,
+          other: null,
+          repeat_weekdays: [],
+          repeat_dates: [],
+          repeat_until: null,
+          is_demo: a.is_demo,
+        },
+        start,
+        opts
+      );
+      return { key: `dispatch:${a.id}`, source: 'Schedule', entry, overlaps: overlapsExisting(entry, existing) };
+    })
+    .sort((a, b) => a.entry.start_time.localeCompare(b.entry.start_time));
+}
+
+export type PlannedVsActual = {
+  projectId: string | null;
+  planned: number;
+  actual: number;
+  /** Users with planned or logged hours on the project. */
+  userIds: string[];
+};
+
+/**
+ * Planned (assignment) and logged (time entry) hours per project over the dates in `dates`
+ * (YYYY-MM-DD). Logged hours are split across midnight like the calendar totals.
+ */
+export function plannedVsActualByProject(assignments: CrewAssignment[], entries: any[], dates: string[]): PlannedVsActual[] {
+  const rows = new Map<string, PlannedVsActual & { users: Set<string> }>();
+  const row = (projectId: string | null) => {
+    const key = projectId ?? '';
+    if (!rows.has(key)) rows.set(key, { projectId, planned: 0, actual: 0, userIds: [], users: new Set() });
+    return rows.get(key)!;
+  };
+  const inRange = new Set(dates);
+
+  for (const a of assignments) {
+    if (!inRange.has(String(a.date).slice(0, 10))) continue;
+    const r = row(a.project_id);
+    r.planned += Number(a.hours) || 0;
+    r.users.add(a.user_id);
+  }
+  for (const e of entries) {
+    const hours = dates.reduce((sum, d) => sum + getEntryHoursOnDate(e, d), 0);
+    if (hours <= 0) continue;
+    const r = row(e.project_id ?? null);
+    r.actual += hours;
+    if (e.user_id) r.users.add(e.user_id);
+  }
+
+  return [...rows.values()]
+    .map(({ users, ...r }) => ({ ...r, planned: Math.round(r.planned * 100) / 100, actual: Math.round(r.actual * 100) / 100, userIds: [...users] }))
+    .sort((a, b) => b.planned - a.planned || b.actual - a.actual);
+}
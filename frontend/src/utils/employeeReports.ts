@@ -6,6 +6,8 @@ import {
   dbServiceTicketMatchKeys,
 } from './serviceTickets';
 import { ticketExpenseBilledAmount, ticketExpenseCostForMargin } from './ticketExpenseReimbursement';
+import { statHolidayBurdenPct } from './statHolidays';
+import { DEFAULT_TAX_RATE } from './taxCodes';
 
 export interface TimeEntry {
   id: string;
@@ -64,8 +66,9 @@ export interface EmployeeWithRates {
   // Employment type & benefits
   employment_type?: string;
   sick_pay_pct?: number;
-  stat_holiday_pay_pct?: number;
   vacation_pay_pct?: number;
+  /** Province for overtime and stat holidays (BC when unset). */
+  overtime_jurisdiction?: string;
   cell_phone_allowance?: number;
   health_allowance?: number;
   // Reimbursement rate multipliers (0.90 = 90% of billed amount paid to employee)
@@ -222,17 +225,17 @@ function getRatesForDate(emp: EmployeeWithRates, historyMap: Map<string, PayRate
   return match;
 }
 
-/** GST rate for billable amounts (Canada) */
-const GST_RATE = 0.05;
-
-/** Apply GST to a billable amount (returns amount inclusive of GST). Exported for use in Profitability. */
-export function applyGst(amount: number): number {
-  return amount * (1 + GST_RATE);
+/**
+ * Apply sales tax to a billable amount (returns amount inclusive of tax). The rate defaults to 5% GST;
+ * Profitability passes each project's tax code rate (see utils/taxCodes.ts).
+ */
+export function applyGst(amount: number, rate: number = DEFAULT_TAX_RATE): number {
+  return amount * (1 + rate);
 }
 
-/** Apply GST to amount if includeGst is true; otherwise return amount unchanged. */
-export function maybeApplyGst(amount: number, includeGst: boolean): number {
-  return includeGst ? applyGst(amount) : amount;
+/** Apply tax to amount if includeGst is true; otherwise return amount unchanged. */
+export function maybeApplyGst(amount: number, includeGst: boolean, rate: number = DEFAULT_TAX_RATE): number {
+  return includeGst ? applyGst(amount, rate) : amount;
 }
 
 /** Display / aggregation order for Hours by Rate Type → Expenses sub-rows */
@@ -298,7 +301,8 @@ const HOURS_PER_PAY_PERIOD = 80;
 
 /**
  * Calculate burden rate from actual employee data (benefits, CPP, EI, allowances).
- * Contractors: 5% GST. Employees: sick + stat + vacation % + employer CPP + employer EI + flat allowances as % of base.
+ * Contractors: 5% GST. Employees: sick + vacation % + stat holidays (the province's holidays as a share of
+ * a working year) + employer CPP + employer EI + flat allowances as % of base.
  */
 export function calculateBurden(employee?: EmployeeWithRates): number {
   if (!employee) return 0;
@@ -306,7 +310,7 @@ export function calculateBurden(employee?: EmployeeWithRates): number {
   if (isContractor) return 0.05;
 
   const sickPct = (Number(employee.sick_pay_pct) || 0) / 100;
-  const statPct = (Number(employee.stat_holiday_pay_pct) || 0) / 100;
+  const statPct = statHolidayBurdenPct(employee.overtime_jurisdiction);
   const vacPct = (Number(employee.vacation_pay_pct) || 0) / 100;
   const benefitPct = sickPct + statPct + vacPct;
 
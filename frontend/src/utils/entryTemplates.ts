@@ -0,0 +1,173 @@
+import { formatYmd } from './payPeriod';
+
+/** Row from `time_entry_templates`: a saved block of work and the days it recurs on. */
+export type EntryTemplate = {
+  id?: string;
+  user_id: string;
+  name: string;
+  description: string;
+  customer_id: string | null;
+  project_id: string | null;
+  cost_code_id: string | null;
+  rate_type: string;
+  /** Time of day the entry starts, HH:MM (Postgres TIME may add :SS). */
+  start_time: string;
+  hours: number;
+  location: string | null;
+  approver: string | null;
+  po_afe: string | null;
+  cc: string | null;
+  other: string | null;
+  /** ISO weekdays, 1 = Monday … 7 = Sunday. */
+  repeat_weekdays: number[];
+  /** Extra specific dates (YYYY-MM-DD). */
+  repeat_dates: string[];
+  repeat_until: string | null;
+  is_demo: boolean;
+};
+
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'] as const;
+
+/**
+ * A time entry proposed by a template or copied from last week, shown for review before saving.
+ * `entry` is the time_entries insert; `overlaps` is set when the slot already has time logged.
+ */
+export type DraftEntry = {
+  key: string;
+  source: string;
+  entry: Record<string, any>;
+  overlaps: boolean;
+};
+
+function isoWeekday(d: Date): number {
+  return ((d.getDay() + 6) % 7) + 1;
+}
+
+/** True when the template's recurrence includes `date` (local). */
+export function templateOccursOn(template: Pick<EntryTemplate, 'repeat_weekdays' | 'repeat_dates' | 'repeat_until'>, date: Date): boolean {
+  const ymd = formatYmd(date);
+  if (template.repeat_until && ymd > template.repeat_until) return false;
+  if ((template.repeat_dates || []).some((d) => String(d).slice(0, 10) === ymd)) return true;
+  return (template.repeat_weekdays || []).includes(isoWeekday(date));
+}
+
+/** "Weekdays until Dec 19", "Mon, Wed + 2 dates", "Not scheduled". */
+export function describeRecurrence(template: Pick<EntryTemplate, 'repeat_weekdays' | 'repeat_dates' | 'repeat_until'>): string {
+  const days = [...(template.repeat_weekdays || [])].sort((a, b) => a - b);
+  let text = '';
+  if (days.join() === '1,2,3,4,5') text = 'Weekdays';
+  else if (days.length === 7) text = 'Every day';
+  else if (days.length > 0) text = days.map((d) => WEEKDAY_LABELS[d - 1]).join(', ');
+  const dates = template.repeat_dates?.length ?? 0;
+  if (dates > 0) text = text ? `${text} + ${dates} date${dates === 1 ? '' : 's'}` : `${dates} date${dates === 1 ? '' : 's'}`;
+  if (!text) return 'Not scheduled';
+  if (template.repeat_until) {
+    const until = new Date(`${template.repeat_until}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    text += ` until ${until}`;
+  }
+  return text;
+}
+
+/** True when the entry's time range overlaps any of `existing` (entries without times never overlap). */
+export function overlapsExisting(entry: { start_time: string; end_time: string }, existing: any[]): boolean {
+  const start = new Date(entry.start_time).getTime();
+  const end = new Date(entry.end_time).getTime();
+  return existing.some((e) => {
+    if (!e.start_time || !e.end_time) return false;
+    return new Date(e.start_time).getTime() < end && new Date(e.end_time).getTime() > start;
+  });
+}
+
+/**
+ * Time entry insert for a template on one day. Entries without a project are internal time;
+ * Panel Shop staff always log non-billable Shop Time (same rules as the week view's new entry form).
+ */
+export function templateToTimeEntry(template: EntryTemplate, date: Date, opts: { userId: string; isDemo: boolean; isPanelShop: boolean }) {
+  const [h, m] = template.start_time.split(':').map(Number);
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate(), h || 0, m || 0);
+  const hours = Number(template.hours) || 0;
+  const end = new Date(start.getTime() + hours * 60 * 60 * 1000);
+  const rateType = opts.isPanelShop ? 'Shop Time' : template.project_id ? template.rate_type || 'Shop Time' : 'Internal';
+  return {
+    user_id: opts.userId,
+    date: formatYmd(start),
+    start_time: start.toISOString(),
+    end_time: end.toISOString(),
+    hours,
+    rate: 0,
+    description: template.description || '',
+    billable: !opts.isPanelShop && !!template.project_id && rateType !== 'Internal',
+    rate_type: rateType,
+    is_demo: opts.isDemo,
+    location: template.location || null,
+    customer_id: template.customer_id || null,
+    project_id: template.project_id || null,
+    cost_code_id: (template.project_id && template.cost_code_id) || null,
+    approver: template.approver?.trim() || null,
+    po_afe: template.po_afe?.trim() || null,
+    cc: template.cc?.trim() || null,
+    other: template.other?.trim() || null,
+  };
+}
+
+/** Drafts for every template that recurs on a day of the week starting `weekStart` (Monday). */
+export function draftsFromTemplates(
+  templates: EntryTemplate[],
+  weekStart: Date,
+  existing: any[],
+  opts: { userId: string; isDemo: boolean; isPanelShop: boolean }
+): DraftEntry[] {
+  const drafts: DraftEntry[] = [];
+  for (let i = 0; i < 7; i++) {
+    const day = new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + i);
+    for (const template of templates) {
+      if (!templateOccursOn(template, day)) continue;
+      const entry = templateToTimeEntry(template, day, opts);
+      drafts.push({ key: `${template.id}:${entry.date}`, source: template.name, entry, overlaps: overlapsExisting(entry, existing) });
+    }
+  }
+  return drafts;
+}
+
+/** Move an ISO timestamp by whole local days, keeping the wall-clock time across DST changes. */
+function shiftIsoByDays(iso: string, days: number): string {
+  const d = new Date(iso);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + days, d.getHours(), d.getMinutes(), d.getSeconds()).toISOString();
+}
+
+/** Drafts copying last week's entries (dated within it) seven days forward. */
+export function draftsFromPreviousWeek(
+  previousWeekEntries: any[],
+  existing: any[],
+  opts: { userId: string; isDemo: boolean; isPanelShop: boolean }
+): DraftEntry[] {
+  return previousWeekEntries
+    .filter((e) => e.start_time && e.end_time)
+    .map((e) => {
+      const start_time = shiftIsoByDays(e.start_time, 7);
+      const end_time = shiftIsoByDays(e.end_time, 7);
+      const rateType = opts.isPanelShop ? 'Shop Time' : e.project_id ? e.rate_type || 'Shop Time' : 'Internal';
+      const entry = {
+        user_id: opts.userId,
+        date: formatYmd(new Date(start_time)),
+        start_time,
+        end_time,
+        hours: Number(e.hours) || 0,
+        rate: e.rate ?? 0,
+        description: e.description || '',
+        billable: opts.isPanelShop ? false : e.project_id ? e.billable !== false : false,
+        rate_type: rateType,
+        is_demo: opts.isDemo,
+        location: e.location ?? null,
+        customer_id: e.customer_id ?? e.project?.customer_id ?? null,
+        project_id: e.project_id || null,
+        cost_code_id: (e.project_id && e.cost_code_id) || null,
+        approver: e.approver?.trim() || null,
+        po_afe: e.po_afe?.trim() || null,
+        cc: e.cc?.trim() || null,
+        other: e.other?.trim() || null,
+      };
+      return { key: `copy:${e.id}`, source: 'Last week', entry, overlaps: overlapsExisting(entry, existing) };
+    })
+    .sort((a, b) => a.entry.start_time.localeCompare(b.entry.start_time));
+}
@@ -0,0 +1,3 @@
+// Form definitions (fields, validation, approval chains) live in the repo-level shared module so
+// the backend validates submissions against the same schema the Forms page renders.
+export * from '../../../shared/forms';
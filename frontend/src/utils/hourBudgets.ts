@@ -0,0 +1,198 @@
+import { localMondayWeekStartKey } from './localMondayWeek';
+import { formatYmd } from './payPeriod';
+
+/**
+ * Hour budgets per project (projects.budget_hours*). Rate types roll up into three categories:
+ * Field (Field Time/Overtime), Travel, and Shop (Shop Time/Overtime and internal time).
+ */
+export type HourCategory = 'field' | 'travel' | 'shop';
+
+export const HOUR_CATEGORIES: HourCategory[] = ['field', 'travel', 'shop'];
+
+export const HOUR_CATEGORY_LABELS: Record<HourCategory, string> = {
+  field: 'Field',
+  travel: 'Travel',
+  shop: 'Shop',
+};
+
+/** Percent-of-budget thresholds that raise an alert, lowest first. */
+export const HOUR_BUDGET_THRESHOLDS = [75, 90, 100] as const;
+export type HourBudgetThreshold = (typeof HOUR_BUDGET_THRESHOLDS)[number];
+
+export type HourBudget = {
+  total: number;
+  byCategory: Record<HourCategory, number | null>;
+};
+
+export type HoursByCategory = Record<HourCategory, number>;
+
+export function emptyHoursByCategory(): HoursByCategory {
+  return { field: 0, travel: 0, shop: 0 };
+}
+
+export function hourCategoryForRateType(rateType: string | null | undefined): HourCategory {
+  const rt = (rateType || '').toLowerCase();
+  if (rt.includes('field')) return 'field';
+  if (rt.includes('travel')) return 'travel';
+  return 'shop';
+}
+
+function positiveOrNull(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+/** The project's hour budget; null when it has none. Total falls back to the sum of the categories. */
+export function hourBudgetFromProject(project: any): HourBudget | null {
+  const byCategory: Record<HourCategory, number | null> = {
+    field: positiveOrNull(project?.budget_hours_field),
+    travel: positiveOrNull(project?.budget_hours_travel),
+    shop: positiveOrNull(project?.budget_hours_shop),
+  };
+  const explicit = positiveOrNull(project?.budget_hours);
+  const sum = HOUR_CATEGORIES.reduce((s, c) => s + (byCategory[c] ?? 0), 0);
+  const total = explicit && explicit > 0 ? explicit : sum;
+  return total > 0 ? { total, byCategory } : null;
+}
+
+/** Highest threshold `used` has reached, or null below the first. */
+export function hourBudgetThresholdReached(used: number, budget: number): HourBudgetThreshold | null {
+  if (!(budget > 0)) return null;
+  const pct = (used / budget) * 100;
+  let reached: HourBudgetThreshold | null = null;
+  for (const t of HOUR_BUDGET_THRESHOLDS) if (pct >= t) reached = t;
+  return reached;
+}
+
+export type HourBudgetAlert = {
+  projectId: string;
+  threshold: HourBudgetThreshold;
+  hoursUsed: number;
+  budgetHours: number;
+};
+
+/**
+ * Projects past a threshold that hasn't been acknowledged. `acknowledged` holds the
+ * project_budget_alerts rows; acknowledging 90% also covers 75%.
+ */
+export function pendingHourBudgetAlerts(
+  projects: any[],
+  hoursUsedByProject: Map<string, number>,
+  acknowledged: { project_id: string; threshold: number }[]
+): HourBudgetAlert[] {
+  const ackByProject = new Map<string, number>();
+  for (const a of acknowledged) ackByProject.set(a.project_id, Math.max(ackByProject.get(a.project_id) ?? 0, Number(a.threshold)));
+  const alerts: HourBudgetAlert[] = [];
+  for (const p of projects) {
+    const budget = hourBudgetFromProject(p);
+    if (!budget) continue;
+    const used = hoursUsedByProject.get(p.id) ?? 0;
+    const threshold = hourBudgetThresholdReached(used, budget.total);
+    if (threshold && threshold > (ackByProject.get(p.id) ?? 0)) {
+      alerts.push({ projectId: p.id, threshold, hoursUsed: used, budgetHours: budget.total });
+    }
+  }
+  return alerts.sort((a, b) => b.hoursUsed / b.budgetHours - a.hoursUsed / a.budgetHours);
+}
+
+export type BurnDownPoint = {
+  /** Monday of the week, YYYY-MM-DD. */
+  week: string;
+  /** Hours logged that week. */
+  hours: number;
+  /** Hours logged up to the end of that week. */
+  cumulative: number;
+  /** Budget left at the end of that week (negative when over). */
+  remaining: number;
+};
+
+/** Weekly burn-down of a project's hours against `budgetHours`, from the first logged week to `today`'s week. */
+export function hourBurnDown(entries: { date: string; hours: number | string }[], budgetHours: number, today: Date = new Date()): BurnDownPoint[] {
+  const byWeek = new Map<string, number>();
+  for (const e of entries) {
+    const hours = Number(e.hours) || 0;
+    if (!hours || !e.date) continue;
+    const week = localMondayWeekStartKey(String(e.date));
+    byWeek.set(week, (byWeek.get(week) ?? 0) + hours);
+  }
+  if (byWeek.size === 0) return [];
+
+  const weeks = [...byWeek.keys()].sort();
+  const lastWeek = [weeks[weeks.length - 1], localMondayWeekStartKey(formatYmd(today))].sort()[1];
+  const points: BurnDownPoint[] = [];
+  let cumulative = 0;
+  for (let week = weeks[0]; week <= lastWeek; week = addDaysYmd(week, 7)) {
+    const hours = byWeek.get(week) ?? 0;
+    cumulative += hours;
+    points.push({
+      week,
+      hours: round2(hours),
+      cumulative: round2(cumulative),
+      remaining: round2(budgetHours - cumulative),
+    });
+  }
+  return points;
+}
+
+export type HourForecast = {
+  /** Average hours per week over the trailing window. */
+  weeklyBurn: number;
+  /** Projected total hours at the project's end date (null without a future end date). */
+  atCompletion: number | null;
+  /** Date the budget runs out at the current pace (null when not burning, or already over). */
+  exhaustedOn: string | null;
+};
+
+/**
+ * Forecast from the trailing burn rate: hours logged in the last `trailingWeeks` weeks, per week.
+ * With a future `endDate`, forecast-at-completion = hours used + weekly burn × weeks left.
+ */
+export function forecastHours(
+  entries: { date: string; hours: number | string }[],
+  budgetHours: number,
+  opts: { endDate?: string | null; today?: Date; trailingWeeks?: number } = {}
+): HourForecast {
+  const today = opts.today ?? new Date();
+  const trailingWeeks = opts.trailingWeeks ?? 4;
+  const todayYmd = formatYmd(today);
+  const windowStart = addDaysYmd(todayYmd, -7 * trailingWeeks);
+  let used = 0;
+  let recent = 0;
+  for (const e of entries) {
+    const hours = Number(e.hours) || 0;
+    const date = String(e.date).slice(0, 10);
+    if (date > todayYmd) continue;
+    used += hours;
+    if (date > windowStart) recent += hours;
+  }
+  const weeklyBurn = round2(recent / trailingWeeks);
+
+  let atCompletion: number | null = null;
+  const endDate = opts.endDate ? String(opts.endDate).slice(0, 10) : null;
+  if (endDate && endDate > todayYmd) {
+    const weeksLeft = daysBetweenYmd(todayYmd, endDate) / 7;
+    atCompletion = round2(used + weeklyBurn * weeksLeft);
+  }
+
+  let exhaustedOn: string | null = null;
+  const left = budgetHours - used;
+  if (weeklyBurn > 0 && left > 0) exhaustedOn = addDaysYmd(todayYmd, Math.ceil((left / weeklyBurn) * 7));
+
+  return { weeklyBurn, atCompletion, exhaustedOn };
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function addDaysYmd(ymd: string, days: number): string {
+  const [y, m, d] = ymd.split('-').map(Number);
+  return formatYmd(new Date(y, m - 1, d + days));
+}
+
+function daysBetweenYmd(from: string, to: string): number {
+  const [y1, m1, d1] = from.split('-').map(Number);
+  const [y2, m2, d2] = to.split('-').map(Number);
+  return Math.round((Date.UTC(y2, m2 - 1, d2) - Date.UTC(y1, m1 - 1, d1)) / 86_400_000);
+}
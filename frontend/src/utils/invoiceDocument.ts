@@ -0,0 +1,99 @@
+/**
+ * Invoices generated in the app (Invoiced card → Generate invoice) instead of in QuickBooks. The
+ * number comes from the invoice_numbering counter (Invoices → Settings → Invoice numbers); the
+ * lines are the same rate-code labour lines and expense lines a QuickBooks push sends, and the PDF
+ * is stored as the batch's invoice so Download batch with invoice and Email invoice use it.
+ */
+
+import type { TaxBreakdown } from './taxCodes';
+
+export type InvoiceNumbering = {
+  prefix: string;
+  next_number: number;
+  min_digits: number;
+  /** Printed under the company details, e.g. "GST/HST # 123456789 RT0001". */
+  gst_registration: string | null;
+  /** Printed at the foot of every invoice, e.g. payment instructions. */
+  footer_note: string | null;
+};
+
+export const DEFAULT_INVOICE_NUMBERING: InvoiceNumbering = {
+  prefix: 'INV-',
+  next_number: 1001,
+  min_digits: 5,
+  gst_registration: null,
+  footer_note: null,
+};
+
+/** Same format next_invoice_number() returns: prefix + number, zero-padded to min_digits (never cut). */
+export function formatInvoiceNumber(prefix: string, n: number, minDigits: number): string {
+  return `${prefix}${String(Math.max(1, Math.floor(n))).padStart(Math.max(1, minDigits), '0')}`;
+}
+
+export type InvoiceDocumentLine = {
+  kind: 'labour' | 'expense';
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  serviceDate?: string;
+};
+
+export type InvoiceDocument = {
+  invoiceNumber: string;
+  invoiceDate: string;
+  dueDate: string;
+  termsDays: number;
+  billTo: {
+    name: string;
+    contact?: string | null;
+    /** Street, city / province / postal and country lines, blanks dropped. */
+    addressLines: string[];
+  };
+  /** Reference block from the batch's InvoiceGroupKey; empty values are left off the PDF. */
+  reference: {
+    project: string;
+    poAfe: string;
+    cc: string;
+    approver: string;
+    location: string;
+    other: string;
+    period: string;
+    tickets: string;
+  };
+  lines: InvoiceDocumentLine[];
+  subtotal: number;
+  /** Tax by component from the batch's tax codes, or the exemption note. */
+  tax: TaxBreakdown;
+  total: number;
+  gstRegistration: string | null;
+  footerNote: string | null;
+};
+
+/** Bill-to address lines from a customers row. */
+export function customerAddressLines(customer: any): string[] {
+  if (!customer) return [];
+  const cityLine = [customer.city, customer.state].filter((s) => (s ?? '').trim()).join(', ');
+  return [
+    customer.address,
+    [cityLine, customer.zip_code].filter((s) => (s ?? '').trim()).join('  '),
+    customer.country && customer.country !== 'Canada' ? customer.country : '',
+  ]
+    .map((s) => (s ?? '').trim())
+    .filter(Boolean);
+}
+
+/**
+ * One value for a reference field across a batch's tickets: the value when they all agree, the
+ * values joined when there are a few, and "Multiple (see tickets)" past that.
+ */
+export function combineReferenceValues(values: string[]): string {
+  const unique = [...new Set(values.map((v) => v.trim()).filter(Boolean))];
+  if (unique.length <= 3) return unique.join(', ');
+  return 'Multiple (see tickets)';
+}
+
+export function invoicePdfFilename(doc: Pick<InvoiceDocument, 'invoiceNumber' | 'billTo'>): string {
+  const safe = (s: string) => s.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, ' ').trim();
+  return `Invoice ${safe(doc.invoiceNumber)} - ${safe(doc.billTo.name) || 'Customer'}.pdf`;
+}
@@ -0,0 +1,3 @@
+// Leave types, time-off request parsing and accrual balances live in the repo-level shared module
+// so the backend (/api/forms time-off checks) and the pages compute the same numbers.
+export * from '../../../shared/leave';
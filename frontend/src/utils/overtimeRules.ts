@@ -0,0 +1,208 @@
+/**
+ * Overtime rules engine used by Payroll. Rules live in `overtime_rules` (one row per
+ * jurisdiction, optionally narrowed to an employee class) and classify each day's hours into
+ * regular / overtime / double time. Employees pick their rule via
+ * employees.overtime_jurisdiction + employees.overtime_class.
+ */
+
+export type OvertimeRule = {
+  id?: string;
+  name: string;
+  jurisdiction: string;
+  /** null = default rule for the jurisdiction (any class). */
+  employee_class: string | null;
+  /** Hours per day after which time is overtime (null = no daily OT). */
+  daily_ot_after: number | null;
+  /** Hours per day after which time is double time (null = no daily DT). */
+  daily_dt_after: number | null;
+  /** Regular hours per week after which time is overtime (null = no weekly OT). */
+  weekly_ot_after: number | null;
+  /** Nth consecutive working day from which every hour is overtime (null = off). */
+  consecutive_day_ot_from: number | null;
+  /** On those consecutive days, hours after which time is double time (null = no DT). */
+  consecutive_day_dt_after: number | null;
+  is_active?: boolean;
+};
+
+/** BC Employment Standards: OT after 8h/day and 40h/week, DT after 12h/day. Used when no rows match. */
+export const DEFAULT_OVERTIME_RULE: OvertimeRule = {
+  name: 'BC Employment Standards',
+  jurisdiction: 'BC',
+  employee_class: null,
+  daily_ot_after: 8,
+  daily_dt_after: 12,
+  weekly_ot_after: 40,
+  consecutive_day_ot_from: null,
+  consecutive_day_dt_after: null,
+};
+
+export const OVERTIME_JURISDICTIONS = ['BC', 'AB', 'SK', 'MB', 'ON', 'Federal'] as const;
+
+/** Pay multiplier for double time relative to the base rate (OT pay rates are stored at 1.5x). */
+export const DOUBLE_TIME_MULTIPLIER = 2;
+export const OVERTIME_MULTIPLIER = 1.5;
+
+/**
+ * Most specific active rule for an employee: jurisdiction + class, then the jurisdiction
+ * default (employee_class null). Null when the jurisdiction has neither.
+ */
+export function findOvertimeRule(
+  rules: OvertimeRule[] | null | undefined,
+  jurisdiction: string | null | undefined,
+  employeeClass: string | null | undefined
+): OvertimeRule | null {
+  const active = (rules || []).filter((r) => r.is_active !== false);
+  const jur = (jurisdiction || DEFAULT_OVERTIME_RULE.jurisdiction).trim().toLowerCase();
+  const cls = (employeeClass || '').trim().toLowerCase();
+  const forJurisdiction = active.filter((r) => r.jurisdiction.trim().toLowerCase() === jur);
+  return (
+    (cls && forJurisdiction.find((r) => (r.employee_class || '').trim().toLowerCase() === cls)) ||
+    forJurisdiction.find((r) => !r.employee_class) ||
+    null
+  );
+}
+
+/** findOvertimeRule, falling back to DEFAULT_OVERTIME_RULE. Payroll warns about employees that fall back. */
+export function resolveOvertimeRule(
+  rules: OvertimeRule[] | null | undefined,
+  jurisdiction: string | null | undefined,
+  employeeClass: string | null | undefined
+): OvertimeRule {
+  return findOvertimeRule(rules, jurisdiction, employeeClass) ?? DEFAULT_OVERTIME_RULE;
+}
+
+/** Short human description, e.g. "OT > 8h/day, DT > 12h/day, OT > 40h/week". */
+export function describeOvertimeRule(rule: OvertimeRule): string {
+  const parts: string[] = [];
+  if (rule.daily_ot_after != null) parts.push(`OT > ${rule.daily_ot_after}h/day`);
+  if (rule.daily_dt_after != null) parts.push(`DT > ${rule.daily_dt_after}h/day`);
+  if (rule.weekly_ot_after != null) parts.push(`OT > ${rule.weekly_ot_after}h/week`);
+  if (rule.consecutive_day_ot_from != null) {
+    parts.push(
+      `day ${rule.consecutive_day_ot_from}+ in a row all OT` +
+        (rule.consecutive_day_dt_after != null ? ` (DT > ${rule.consecutive_day_dt_after}h)` : '')
+    );
+  }
+  return parts.length > 0 ? parts.join(', ') : 'No overtime';
+}
+
+export type OvertimeDayClassification = {
+  date: string;
+  total: number;
+  regular: number;
+  overtime: number;
+  doubleTime: number;
+  /** Which rules produced the OT/DT, for tooltips ("daily", "weekly", "consecutive day 7"). */
+  reasons: string[];
+};
+
+/** Monday (YYYY-MM-DD) of the week containing the date — weekly thresholds reset on Monday. */
+export function overtimeWeekKey(dateStr: string): string {
+  const d = new Date(dateStr + 'T12:00:00');
+  const day = d.getDay() || 7;
+  d.setDate(d.getDate() - day + 1);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const dd = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${dd}`;
+}
+
+const r2 = (n: number) => Math.round(n * 100) / 100;
+
+function isNextDay(prev: string, next: string): boolean {
+  const a = new Date(prev + 'T12:00:00');
+  a.setDate(a.getDate() + 1);
+  return a.toDateString() === new Date(next + 'T12:00:00').toDateString();
+}
+
+/**
+ * Classify one employee's hours day by day. Daily/consecutive-day rules run first; the weekly
+ * threshold then moves regular hours past the limit into OT (hours already OT don't count
+ * toward the week, matching BC/AB practice). Weeks are only as complete as the entries passed
+ * in, so pass the whole week when the range starts mid-week.
+ */
+export function classifyOvertimeHours(
+  entries: Array<{ date: string; hours: number | string }>,
+  rule: OvertimeRule
+): OvertimeDayClassification[] {
+  const byDate = new Map<string, number>();
+  for (const e of entries) {
+    const hrs = Number(e.hours) || 0;
+    if (hrs <= 0) continue;
+    byDate.set(e.date, (byDate.get(e.date) || 0) + hrs);
+  }
+  const dates = Array.from(byDate.keys()).sort();
+
+  const result: OvertimeDayClassification[] = [];
+  const weekRegular = new Map<string, number>();
+  let streak = 0;
+  let prevDate: string | null = null;
+
+  for (const date of dates) {
+    const total = byDate.get(date)!;
+    streak = prevDate && isNextDay(prevDate, date) ? streak + 1 : 1;
+    prevDate = date;
+
+    const reasons: string[] = [];
+    let overtime = 0;
+    let doubleTime = 0;
+
+    if (rule.consecutive_day_ot_from != null && streak >= rule.consecutive_day_ot_from) {
+      doubleTime = rule.consecutive_day_dt_after != null ? Math.max(0, total - rule.consecutive_day_dt_after) : 0;
+      overtime = total - doubleTime;
+      reasons.push(`consecutive day ${streak}`);
+    } else {
+      if (rule.daily_dt_after != null) doubleTime = Math.max(0, total - rule.daily_dt_after);
+      if (rule.daily_ot_after != null) {
+        overtime = Math.max(0, Math.min(total, rule.daily_dt_after ?? Infinity) - rule.daily_ot_after);
+      }
+      if (overtime > 0 || doubleTime > 0) reasons.push('daily');
+    }
+    let regular = total - overtime - doubleTime;
+
+    if (rule.weekly_ot_after != null && regular > 0) {
+      const wk = overtimeWeekKey(date);
+      const soFar = weekRegular.get(wk) || 0;
+      const excess = Math.min(regular, Math.max(0, soFar + regular - rule.weekly_ot_after));
+      if (excess > 0) {
+        regular -= excess;
+        overtime += excess;
+        reasons.push('weekly');
+      }
+      weekRegular.set(wk, soFar + regular);
+    }
+
+    result.push({ date, total: r2(total), regular: r2(regular), overtime: r2(overtime), doubleTime: r2(doubleTime), reasons });
+  }
+  return result;
+}
+
+/**
+ * Pick which entries absorb `hoursToConvert` of OT on a day: latest entries first (the hours
+ * worked past the threshold), skipping entries already booked at an OT rate type.
+ */
+export function autoAllocateOvertime<
+  T extends { id: string; hours: number | string; rate_type?: string | null; start_time?: string | null; created_at?: string | null }
+>(
+  dayEntries: T[],
+  hoursToConvert: number
+): { entry: T; hoursToConvert: number }[] {
+  const candidates = dayEntries
+    .filter((e) => {
+      const rt = e.rate_type || 'Shop Time';
+      return rt !== 'Shop Overtime' && rt !== 'Field Overtime';
+    })
+    .slice()
+    .sort((a, b) => String(b.start_time || b.created_at || '').localeCompare(String(a.start_time || a.created_at || '')));
+
+  const allocations: { entry: T; hoursToConvert: number }[] = [];
+  let remaining = r2(hoursToConvert);
+  for (const entry of candidates) {
+    if (remaining <= 0) break;
+    const take = r2(Math.min(Number(entry.hours) || 0, remaining));
+    if (take <= 0) continue;
+    allocations.push({ entry, hoursToConvert: take });
+    remaining = r2(remaining - take);
+  }
+  return allocations;
+}
@@ -1,31 +1,45 @@
 /**
- * Pay-period boundaries shared across Payroll, the calendar popup, and any other page
- * that needs to align with the same 14-day cycle. Anchored on Mon Jan 19 2026.
+ * Pay-period boundaries shared across Payroll, the calendar popup, the expense auto-paid sweep
+ * and any other page that needs to align with the same cycle.
+ *
+ * Periods come from the `pay_schedules` table (weekly, bi-weekly, semi-monthly or monthly, with a
+ * payday offset). Each row applies from its effective_from date until the next row's, so schedule
+ * changes don't rewrite history; the period straddling a change is cut short at the change date.
+ * Rows are registered with setPaySchedules() (see usePaySchedules / paySchedulesService.load);
+ * until then DEFAULT_PAY_SCHEDULE — bi-weekly from Mon Jan 19 2026, paid the Friday after — applies.
  */
 
-const REFERENCE_START = new Date(2026, 0, 19); // Jan 19, 2026 — Monday
-const PERIOD_LENGTH = 14;
-const MS_PER_DAY = 1000 * 60 * 60 * 24;
+export type PayFrequency = 'weekly' | 'biweekly' | 'semimonthly' | 'monthly';
 
-export const PAY_PERIOD_LENGTH_DAYS = PERIOD_LENGTH;
+export type PaySchedule = {
+  id?: string;
+  frequency: PayFrequency;
+  /** First day of any one period (weekly / bi-weekly alignment). Ignored for semi-monthly / monthly. */
+  anchor_date: string;
+  /** Payday = period end + this many days. */
+  payday_offset_days: number;
+  /** Semi-monthly: last day of the first half (default 15). */
+  semimonthly_split_day?: number | null;
+  /** YYYY-MM-DD the schedule starts to apply. The earliest row also covers all earlier dates. */
+  effective_from: string;
+  notes?: string | null;
+};
 
-/** 0-based pay-period index containing this date (negative for periods before the anchor). */
-export function payPeriodIndexFor(d: Date): number {
-  const days = Math.floor((d.getTime() - REFERENCE_START.getTime()) / MS_PER_DAY);
-  return days >= 0 ? Math.floor(days / PERIOD_LENGTH) : Math.ceil(days / PERIOD_LENGTH) - 1;
-}
+export const DEFAULT_PAY_SCHEDULE: PaySchedule = {
+  frequency: 'biweekly',
+  anchor_date: '2026-01-19',
+  payday_offset_days: 5,
+  effective_from: '2026-01-19',
+};
 
-export function payPeriodStartForIndex(idx: number): Date {
-  return new Date(REFERENCE_START.getTime() + idx * PERIOD_LENGTH * MS_PER_DAY);
-}
+export const PAY_FREQUENCY_LABELS: Record<PayFrequency, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Bi-weekly',
+  semimonthly: 'Semi-monthly',
+  monthly: 'Monthly',
+};
 
-/** Inclusive bounds (start + end Date objects) and the period index for a given day. */
-export function payPeriodBoundsForDate(d: Date): { start: Date; end: Date; index: number } {
-  const idx = payPeriodIndexFor(d);
-  const start = payPeriodStartForIndex(idx);
-  const end = new Date(start.getTime() + (PERIOD_LENGTH - 1) * MS_PER_DAY);
-  return { start, end, index: idx };
-}
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
 
 /** YYYY-MM-DD formatter for storage / map keys. */
 export function formatYmd(d: Date): string {
@@ -41,8 +55,164 @@ export function parseYmdAtNoon(ymd: string): Date {
   return new Date(`${cleaned}T12:00:00`);
 }
 
+function addDays(d: Date, days: number): Date {
+  const out = new Date(d);
+  out.setDate(out.getDate() + days);
+  out.setHours(12, 0, 0, 0);
+  return out;
+}
+
+const atNoon = (d: Date): Date => new Date(d.getFullYear(), d.getMonth(), d.getDate(), 12);
+const dayNumber = (d: Date): number => Math.round(atNoon(d).getTime() / MS_PER_DAY);
+
+// ---------------------------------------------------------------------------
+// One schedule, unbounded: ordinal ↔ natural period
+// ---------------------------------------------------------------------------
+
+function splitDay(s: PaySchedule): number {
+  return Math.min(27, Math.max(1, Number(s.semimonthly_split_day) || 15));
+}
+
+function fixedLength(s: PaySchedule): number | null {
+  return s.frequency === 'weekly' ? 7 : s.frequency === 'biweekly' ? 14 : null;
+}
+
+/** Monotonic integer identifying the (unclipped) period of `s` that contains `d`. */
+function ordinalFor(s: PaySchedule, d: Date): number {
+  const len = fixedLength(s);
+  if (len) return Math.floor((dayNumber(d) - dayNumber(parseYmdAtNoon(s.anchor_date))) / len);
+  const month = d.getFullYear() * 12 + d.getMonth();
+  if (s.frequency === 'monthly') return month;
+  return month * 2 + (d.getDate() > splitDay(s) ? 1 : 0);
+}
+
+function naturalBounds(s: PaySchedule, ordinal: number): { start: Date; end: Date } {
+  const len = fixedLength(s);
+  if (len) {
+    const start = addDays(parseYmdAtNoon(s.anchor_date), ordinal * len);
+    return { start, end: addDays(start, len - 1) };
+  }
+  const month = s.frequency === 'monthly' ? ordinal : Math.floor(ordinal / 2);
+  const y = Math.floor(month / 12);
+  const m = month - y * 12;
+  const lastDay = new Date(y, m + 1, 0, 12).getDate();
+  if (s.frequency === 'monthly') return { start: new Date(y, m, 1, 12), end: new Date(y, m, lastDay, 12) };
+  const split = splitDay(s);
+  return ordinal % 2 === 0
+    ? { start: new Date(y, m, 1, 12), end: new Date(y, m, split, 12) }
+    : { start: new Date(y, m, split + 1, 12), end: new Date(y, m, lastDay, 12) };
+}
+
+// ---------------------------------------------------------------------------
+// Registered schedules → segments with a continuous global period index
+// ---------------------------------------------------------------------------
+
+type Segment = {
+  schedule: PaySchedule;
+  from: Date;
+  /** Exclusive; null for the latest schedule. */
+  until: Date | null;
+  /** Global index of the segment's first period. */
+  baseIndex: number;
+  /** Ordinal (in this schedule) of the segment's first period. */
+  baseOrdinal: number;
+};
+
+let segments: Segment[] = buildSegments([DEFAULT_PAY_SCHEDULE]);
+
+function buildSegments(rows: PaySchedule[]): Segment[] {
+  const sorted = rows
+    .filter((r) => r && r.frequency && r.effective_from)
+    .slice()
+    .sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+  if (sorted.length === 0) sorted.push(DEFAULT_PAY_SCHEDULE);
+
+  const out: Segment[] = [];
+  sorted.forEach((schedule, i) => {
+    const from = parseYmdAtNoon(schedule.effective_from);
+    const until = i + 1 < sorted.length ? parseYmdAtNoon(sorted[i + 1].effective_from) : null;
+    const baseOrdinal = ordinalFor(schedule, from);
+    let baseIndex = 0;
+    const prev = out[out.length - 1];
+    if (prev) {
+      const prevLastOrdinal = ordinalFor(prev.schedule, addDays(from, -1));
+      baseIndex = prev.baseIndex + (prevLastOrdinal - prev.baseOrdinal) + 1;
+    }
+    out.push({ schedule, from, until, baseIndex, baseOrdinal });
+  });
+  return out;
+}
+
+/**
+ * Register the stored schedules (rows from `pay_schedules`). Every helper in this module
+ * resolves periods against them; passing an empty list restores DEFAULT_PAY_SCHEDULE.
+ */
+export function setPaySchedules(rows: PaySchedule[] | null | undefined): void {
+  segments = buildSegments(rows || []);
+}
+
+export function getPaySchedules(): PaySchedule[] {
+  return segments.map((s) => s.schedule);
+}
+
+/** Schedule in force on the given day. */
+export function payScheduleForDate(d: Date): PaySchedule {
+  return segmentForDate(d).schedule;
+}
+
+function segmentForDate(d: Date): Segment {
+  const n = dayNumber(d);
+  for (let i = segments.length - 1; i > 0; i--) {
+    if (n >= dayNumber(segments[i].from)) return segments[i];
+  }
+  return segments[0];
+}
+
+function segmentForIndex(idx: number): Segment {
+  for (let i = segments.length - 1; i > 0; i--) {
+    if (idx >= segments[i].baseIndex) return segments[i];
+  }
+  return segments[0];
+}
+
+/** Natural period clipped to its segment (only the first segment extends into the past). */
+function clippedBounds(seg: Segment, ordinal: number): { start: Date; end: Date } {
+  const { start, end } = naturalBounds(seg.schedule, ordinal);
+  const isFirst = seg === segments[0];
+  return {
+    start: !isFirst && dayNumber(start) < dayNumber(seg.from) ? atNoon(seg.from) : start,
+    end: seg.until && dayNumber(end) >= dayNumber(seg.until) ? addDays(seg.until, -1) : end,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Public helpers (period index is continuous across schedule changes)
+// ---------------------------------------------------------------------------
+
+/** Pay-period index containing this date (negative for periods before the first schedule). */
+export function payPeriodIndexFor(d: Date): number {
+  const seg = segmentForDate(d);
+  return seg.baseIndex + ordinalFor(seg.schedule, d) - seg.baseOrdinal;
+}
+
+export function payPeriodStartForIndex(idx: number): Date {
+  return payPeriodBoundsForIndex(idx).start;
+}
+
+/** Inclusive bounds, payday and schedule for a period index. */
+export function payPeriodBoundsForIndex(idx: number): { start: Date; end: Date; index: number; payday: Date; schedule: PaySchedule } {
+  const seg = segmentForIndex(idx);
+  const { start, end } = clippedBounds(seg, seg.baseOrdinal + (idx - seg.baseIndex));
+  return { start, end, index: idx, payday: addDays(end, seg.schedule.payday_offset_days), schedule: seg.schedule };
+}
+
+/** Inclusive bounds (start + end Date objects) and the period index for a given day. */
+export function payPeriodBoundsForDate(d: Date): { start: Date; end: Date; index: number; payday: Date; schedule: PaySchedule } {
+  return payPeriodBoundsForIndex(payPeriodIndexFor(d));
+}
+
 /** Bounds for the pay period containing the given YYYY-MM-DD string. */
-export function payPeriodBoundsForYmd(ymd: string): { start: Date; end: Date; index: number; startYmd: string; endYmd: string } {
+export function payPeriodBoundsForYmd(ymd: string): { start: Date; end: Date; index: number; payday: Date; startYmd: string; endYmd: string } {
   const bounds = payPeriodBoundsForDate(parseYmdAtNoon(ymd));
   return {
     ...bounds,
@@ -51,6 +221,44 @@ export function payPeriodBoundsForYmd(ymd: string): { start: Date; end: Date; in
   };
 }
 
+/** Payday for an exact pay-period range, or null when start/end aren't one period. */
+export function paydayForRange(startYmd: string, endYmd: string): Date | null {
+  const b = payPeriodBoundsForYmd(startYmd);
+  return b.startYmd === startYmd && b.endYmd === endYmd ? b.payday : null;
+}
+
+/**
+ * The period payroll is "about to run": the earliest period whose payday is today or later.
+ * After payday passes it rolls forward to the next period.
+ */
+export function currentPayrollPeriod(today: Date = new Date()): ReturnType<typeof payPeriodBoundsForIndex> {
+  const t = dayNumber(today);
+  let idx = payPeriodIndexFor(today);
+  // Paydays fall after period end, so walk back while the previous period is still unpaid…
+  while (dayNumber(payPeriodBoundsForIndex(idx - 1).payday) >= t) idx--;
+  // …or forward if today's own period was already paid (payday offset < 0).
+  while (dayNumber(payPeriodBoundsForIndex(idx).payday) < t) idx++;
+  return payPeriodBoundsForIndex(idx);
+}
+
+/** The period before currentPayrollPeriod: Payroll's "Last paid" preset. On payday it's the one before today's. */
+export function previousPayrollPeriod(today: Date = new Date()): ReturnType<typeof payPeriodBoundsForIndex> {
+  return payPeriodBoundsForIndex(currentPayrollPeriod(today).index - 1);
+}
+
+/**
+ * The latest period whose payday is before or on today — the cutoff for auto-paid sweeps. A period
+ * counts as paid on its payday: with the default schedule, Jan 19 – Feb 1 2026 is paid Fri Feb 6,
+ * so on Feb 6 this returns Jan 19 – Feb 1 (currentPayrollPeriod still returns it too until Feb 7).
+ */
+export function lastPaidPayPeriod(today: Date = new Date()): ReturnType<typeof payPeriodBoundsForIndex> {
+  const t = dayNumber(today);
+  let idx = payPeriodIndexFor(today);
+  while (dayNumber(payPeriodBoundsForIndex(idx).payday) > t) idx--;
+  while (dayNumber(payPeriodBoundsForIndex(idx + 1).payday) <= t) idx++;
+  return payPeriodBoundsForIndex(idx);
+}
+
 /** Friendly date-range label, e.g. "Apr 6 – Apr 19, 2026" (or with year prefix when the range spans Jan-1). */
 export function formatPayPeriodRangeLabel(start: Date, end: Date): string {
   const sameYear = start.getFullYear() === end.getFullYear();
@@ -66,3 +274,11 @@ export function formatPayPeriodRangeLabel(start: Date, end: Date): string {
   });
   return `${startStr} – ${endStr}`;
 }
+
+/** "Bi-weekly, paid 5 days after period end" */
+export function describePaySchedule(s: PaySchedule): string {
+  const offset = s.payday_offset_days;
+  const paid = offset === 0 ? 'paid on the last day' : `paid ${Math.abs(offset)} day${Math.abs(offset) === 1 ? '' : 's'} ${offset > 0 ? 'after' : 'before'} period end`;
+  const split = s.frequency === 'semimonthly' ? ` (1–${splitDay(s)}, ${splitDay(s) + 1}–end)` : '';
+  return `${PAY_FREQUENCY_LABELS[s.frequency]}${split}, ${paid}`;
+}
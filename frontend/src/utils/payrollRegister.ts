@@ -0,0 +1,222 @@
+/**
+ * Payroll register: what a payroll export actually contained, per employee. Saved to
+ * `payroll_registers` on every Payroll → Export CSV (one version per export of a period) and
+ * compared against the next run so changes after export can be paid as adjustments.
+ */
+
+export const REGISTER_HOUR_KEYS = ['internal', 'shop', 'shopOt', 'travel', 'field', 'fieldOt', 'total', 'leave'] as const;
+export type RegisterHourKey = (typeof REGISTER_HOUR_KEYS)[number];
+
+export const REGISTER_HOUR_LABELS: Record<RegisterHourKey, string> = {
+  internal: 'Internal',
+  shop: 'Shop',
+  shopOt: 'Shop OT',
+  travel: 'Travel',
+  field: 'Field',
+  fieldOt: 'Field OT',
+  total: 'Total',
+  leave: 'Paid leave',
+};
+
+export const REGISTER_AMOUNT_KEYS = ['basePay', 'allowances', 'grossPay', 'netPay', 'reimbursements', 'totalPayout'] as const;
+export type RegisterAmountKey = (typeof REGISTER_AMOUNT_KEYS)[number];
+
+export const REGISTER_AMOUNT_LABELS: Record<RegisterAmountKey, string> = {
+  basePay: 'Base pay',
+  allowances: 'Allowances',
+  grossPay: 'Gross',
+  netPay: 'Net',
+  reimbursements: 'Reimbursements',
+  totalPayout: 'Total payout',
+};
+
+export type RegisterEntry = {
+  id: string;
+  date: string;
+  hours: number;
+  rateType: string;
+  billable: boolean;
+  project: string;
+};
+
+export type RegisterReimbursement = {
+  /** Category | description | ticket, suffixed with #n for repeats so keys stay unique. */
+  key: string;
+  category: string;
+  description: string;
+  ticketNumber: string;
+  amount: number;
+};
+
+export type RegisterEmployee = {
+  userId: string;
+  name: string;
+  email: string;
+  employmentType: string;
+  hours: Record<RegisterHourKey, number>;
+  amounts: Record<RegisterAmountKey, number>;
+  entries: RegisterEntry[];
+  reimbursementLines: RegisterReimbursement[];
+};
+
+export type PayrollRegisterData = {
+  excludesContractors: boolean;
+  employees: RegisterEmployee[];
+};
+
+/** Row from `payroll_registers`. */
+export type PayrollRegister = {
+  id: string;
+  period_start: string;
+  period_end: string;
+  version: number;
+  exported_by: string | null;
+  exported_at: string;
+  register: PayrollRegisterData;
+  csv: string;
+  exporter?: { first_name: string | null; last_name: string | null; email: string } | null;
+};
+
+/** Give repeated reimbursement lines distinct keys (same receipt description twice, etc.). */
+export function keyReimbursementLines(
+  lines: { category: string; description: string; ticketNumber?: string; amount: number }[]
+): RegisterReimbursement[] {
+  const seen = new Map<string, number>();
+  return lines.map((l) => {
+    const base = `${l.category}|${l.description}|${l.ticketNumber || ''}`;
+    const n = (seen.get(base) || 0) + 1;
+    seen.set(base, n);
+    return {
+      key: n === 1 ? base : `${base}#${n}`,
+      category: l.category,
+      description: l.description,
+      ticketNumber: l.ticketNumber || '',
+      amount: round2(l.amount),
+    };
+  });
+}
+
+export function registerTotals(data: PayrollRegisterData): { hours: number; totalPayout: number } {
+  return data.employees.reduce(
+    (t, e) => ({ hours: t.hours + e.hours.total, totalPayout: t.totalPayout + e.amounts.totalPayout }),
+    { hours: 0, totalPayout: 0 }
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+export type RegisterChangeKind = 'added' | 'removed' | 'changed';
+
+export type RegisterEntryChange = {
+  kind: RegisterChangeKind;
+  id: string;
+  before: RegisterEntry | null;
+  after: RegisterEntry | null;
+};
+
+export type RegisterReimbursementChange = {
+  kind: RegisterChangeKind;
+  key: string;
+  before: RegisterReimbursement | null;
+  after: RegisterReimbursement | null;
+};
+
+export type RegisterEmployeeDiff = {
+  userId: string;
+  name: string;
+  kind: RegisterChangeKind;
+  /** after − before, only for keys that moved. */
+  hourDeltas: Partial<Record<RegisterHourKey, number>>;
+  amountDeltas: Partial<Record<RegisterAmountKey, number>>;
+  entries: RegisterEntryChange[];
+  reimbursements: RegisterReimbursementChange[];
+};
+
+const round2 = (n: number): number => Math.round((Number(n) || 0) * 100) / 100;
+
+const EMPTY_EMPLOYEE = (userId: string, name: string): RegisterEmployee => ({
+  userId,
+  name,
+  email: '',
+  employmentType: '',
+  hours: { internal: 0, shop: 0, shopOt: 0, travel: 0, field: 0, fieldOt: 0, total: 0, leave: 0 },
+  amounts: { basePay: 0, allowances: 0, grossPay: 0, netPay: 0, reimbursements: 0, totalPayout: 0 },
+  entries: [],
+  reimbursementLines: [],
+});
+
+function sameEntry(a: RegisterEntry, b: RegisterEntry): boolean {
+  return a.date === b.date && round2(a.hours) === round2(b.hours) && a.rateType === b.rateType && a.billable === b.billable && a.project === b.project;
+}
+
+function diffByKey<T, C>(
+  before: T[],
+  after: T[],
+  keyOf: (x: T) => string,
+  same: (a: T, b: T) => boolean,
+  make: (kind: RegisterChangeKind, key: string, b: T | null, a: T | null) => C
+): C[] {
+  const prev = new Map(before.map((x) => [keyOf(x), x]));
+  const next = new Map(after.map((x) => [keyOf(x), x]));
+  const out: C[] = [];
+  for (const [k, b] of prev) {
+    const a = next.get(k);
+    if (!a) out.push(make('removed', k, b, null));
+    else if (!same(b, a)) out.push(make('changed', k, b, a));
+  }
+  for (const [k, a] of next) {
+    if (!prev.has(k)) out.push(make('added', k, null, a));
+  }
+  return out;
+}
+
+/**
+ * Employees whose hours, pay, entries or reimbursements differ between two registers. Employees
+ * with no differences are left out; pass a live register as `after` to see changes since export.
+ */
+export function diffPayrollRegisters(before: PayrollRegisterData, after: PayrollRegisterData): RegisterEmployeeDiff[] {
+  const prevById = new Map(before.employees.map((e) => [e.userId, e]));
+  const nextById = new Map(after.employees.map((e) => [e.userId, e]));
+  const ids = new Set([...prevById.keys(), ...nextById.keys()]);
+  const out: RegisterEmployeeDiff[] = [];
+
+  for (const userId of ids) {
+    const b = prevById.get(userId);
+    const a = nextById.get(userId);
+    const name = a?.name || b?.name || 'Unknown';
+    const prev = b || EMPTY_EMPLOYEE(userId, name);
+    const next = a || EMPTY_EMPLOYEE(userId, name);
+
+    const hourDeltas: Partial<Record<RegisterHourKey, number>> = {};
+    for (const k of REGISTER_HOUR_KEYS) {
+      const d = round2(next.hours[k] - prev.hours[k]);
+      if (d !== 0) hourDeltas[k] = d;
+    }
+    const amountDeltas: Partial<Record<RegisterAmountKey, number>> = {};
+    for (const k of REGISTER_AMOUNT_KEYS) {
+      const d = round2(next.amounts[k] - prev.amounts[k]);
+      if (d !== 0) amountDeltas[k] = d;
+    }
+    const entries = diffByKey(prev.entries, next.entries, (e) => e.id, sameEntry, (kind, id, before, after): RegisterEntryChange => ({ kind, id, before, after }));
+    const reimbursements = diffByKey(
+      prev.reimbursementLines,
+      next.reimbursementLines,
+      (l) => l.key,
+      (x, y) => round2(x.amount) === round2(y.amount),
+      (kind, key, before, after): RegisterReimbursementChange => ({ kind, key, before, after })
+    );
+
+    const kind: RegisterChangeKind = !b ? 'added' : !a ? 'removed' : 'changed';
+    const hasChanges =
+      kind !== 'changed' ||
+      Object.keys(hourDeltas).length > 0 ||
+      Object.keys(amountDeltas).length > 0 ||
+      entries.length > 0 ||
+      reimbursements.length > 0;
+    if (hasChanges) out.push({ userId, name, kind, hourDeltas, amountDeltas, entries, reimbursements });
+  }
+
+  return out.sort((x, y) => x.name.localeCompare(y.name));
+}
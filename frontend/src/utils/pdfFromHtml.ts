@@ -2,6 +2,32 @@ import html2pdf from 'html2pdf.js';
 import { PDFDocument } from 'pdf-lib';
 import { ServiceTicket, getApproverPoAfeCcFromTicket } from './serviceTickets';
 import { supabase } from '../lib/supabaseClient';
+import type { PortalSignature } from './approvalPortal';
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import Logo from '../components/Logo';
+import type { InvoiceDocument } from './invoiceDocument';
+import { formatTaxLineLabel, TaxBreakdown } from './taxCodes';
+
+/**
+ * Summary-table rows for tax: one per component ("GST (5%)", "PST (7%)"), or the exemption note
+ * when the ticket's tax code is exempt. Empty when there's no tax to show.
+ */
+function renderTaxRows(tax: TaxBreakdown | null | undefined, cellStyle: string): string {
+  if (!tax) return '';
+  if (tax.lines.length === 0) {
+    return tax.exemptNote
+      ? `<tr><td colspan="2" style="${cellStyle} font-size: 7.5pt; font-style: italic;">${escapePdfText(tax.exemptNote)}</td></tr>`
+      : '';
+  }
+  return tax.lines
+    .map((l) => `
+            <tr style="border-bottom: 1px solid #ccc;">
+              <td style="${cellStyle}">${escapePdfText(formatTaxLineLabel(l))}${l.fromReceipts ? ' <span style="font-size: 7pt; color: #555;">(receipts)</span>' : ''}</td>
+              <td style="${cellStyle} text-align: right; white-space: nowrap;">$${l.amount.toFixed(2)}</td>
+            </tr>`)
+    .join('');
+}
 
 /** yyyy-mm-dd parses as UTC midnight in JS, which shifts the calendar day west of UTC (e.g. Americas). */
 function parseDateForTicketPdf(dateStr: string): Date {
@@ -175,7 +201,8 @@ export async function downloadPdfFromHtml(
     quantity: number;
     rate: number;
     unit?: string;
-  }> = []
+  }> = [],
+  tax?: TaxBreakdown | null
 ): Promise<void> {
   const { rtHours, ttHours, ftHours, shopOtHours, fieldOtHours, descriptionLines: rawLines } =
     computeServiceTicketPdfHoursAndLines(ticket);
@@ -475,9 +502,10 @@ export async function downloadPdfFromHtml(
               <td style="padding: 3px 6px;">Total Expenses</td>
               <td style="padding: 3px 6px; text-align: right; font-weight: bold;">$${expensesTotal.toFixed(2)}</td>
             </tr>
+            ${renderTaxRows(tax, 'padding: 3px 6px;')}
             <tr style="background: #f0f0f0;">
-              <td style="padding: 4px 6px; font-weight: bold;">TOTAL</td>
-              <td style="padding: 4px 6px; text-align: right; font-weight: bold; font-size: 10pt;">$${grandTotal.toFixed(2)}</td>
+              <td style="padding: 4px 6px; font-weight: bold;">${tax?.lines.length ? 'TOTAL (incl. tax)' : 'TOTAL'}</td>
+              <td style="padding: 4px 6px; text-align: right; font-weight: bold; font-size: 10pt;">$${(grandTotal + (tax?.total ?? 0)).toFixed(2)}</td>
             </tr>
           </table>
         </div>
@@ -546,7 +574,9 @@ export async function downloadPdfFromHtml(
 export async function generateBatchSummaryPdf(
   groupTickets: ServiceTicket[],
   allExpenses: Array<{ expense_type: string; description: string; quantity: number; rate: number; unit?: string }>,
-  labourNotes?: Record<string, string>
+  labourNotes?: Record<string, string>,
+  signature?: PortalSignature | null,
+  tax?: TaxBreakdown | null
 ): Promise<Blob> {
   const firstTicket = groupTickets[0];
   if (!firstTicket) throw new Error('No tickets in batch');
@@ -700,7 +730,9 @@ export async function generateBatchSummaryPdf(
     expensesTotal,
     grandTotal,
     labourNotes,
-    ticketNumbers
+    ticketNumbers,
+    signature,
+    tax
   );
 
   const container = document.createElement('div');
@@ -731,6 +763,27 @@ export async function generateBatchSummaryPdf(
   }
 }
 
+const escapePdfText = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Inside of the Customer Signature box. Blank (a line to sign on) unless the approver signed in
+ * the approver portal, in which case their drawn signature or typed name is stamped with who
+ * signed and when.
+ */
+function renderCustomerSignatureBody(signature?: PortalSignature | null, blankLine = true): string {
+  if (!signature) {
+    return blankLine
+      ? '<div style="border-bottom: 1px solid #000; margin-bottom: 4px; height: 20px;"></div><div>Signature</div>'
+      : '';
+  }
+  const mark = signature.kind === 'drawn'
+    ? `<img src="${escapePdfText(signature.data)}" alt="" style="max-height: 34px; max-width: 100%; display: block;" />`
+    : `<div style="font-family: 'Brush Script MT', 'Segoe Script', cursive; font-size: 16pt; line-height: 34px; white-space: nowrap; overflow: hidden;">${escapePdfText(signature.data)}</div>`;
+  const signedOn = new Date(signature.signedAt).toLocaleString('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+  return `<div style="border-bottom: 1px solid #000; margin-bottom: 4px; height: 34px; overflow: hidden;">${mark}</div><div>Signed electronically by ${escapePdfText(signature.signerName)}, ${signedOn}</div>`;
+}
+
 function buildBatchSummaryPdfHtml(
   ticket: ServiceTicket,
   expenses: Array<{ expense_type: string; description: string; quantity: number; rate: number; unit?: string }>,
@@ -743,7 +796,9 @@ function buildBatchSummaryPdfHtml(
   expensesTotal: number,
   grandTotal: number,
   labourNotes?: Record<string, string>,
-  ticketNumbers: string[] = []
+  ticketNumbers: string[] = [],
+  signature?: PortalSignature | null,
+  tax?: TaxBreakdown | null
 ): string {
   // Customer Info header now defers Service Location / PO/AFE/CC / Coding entirely
   // to the labour summary — only Approver/Other still come from the first ticket.
@@ -912,9 +967,10 @@ function buildBatchSummaryPdfHtml(
               <td style="padding: 6px; vertical-align: middle;">Total Expenses</td>
               <td style="padding: 6px; text-align: right; font-weight: bold; vertical-align: middle; white-space: nowrap;">$${expensesTotal.toFixed(2)}</td>
             </tr>
+            ${renderTaxRows(tax, 'padding: 4px 6px; vertical-align: middle;')}
             <tr style="background: #f0f0f0; height: 34%;">
-              <td style="padding: 6px; font-weight: bold; font-size: 10pt; vertical-align: middle;">TOTAL</td>
-              <td style="padding: 6px; text-align: right; font-weight: bold; font-size: 12pt; vertical-align: middle; white-space: nowrap;">$${grandTotal.toFixed(2)}</td>
+              <td style="padding: 6px; font-weight: bold; font-size: 10pt; vertical-align: middle;">${tax?.lines.length ? 'TOTAL (incl. tax)' : 'TOTAL'}</td>
+              <td style="padding: 6px; text-align: right; font-weight: bold; font-size: 12pt; vertical-align: middle; white-space: nowrap;">$${(grandTotal + (tax?.total ?? 0)).toFixed(2)}</td>
             </tr>
           </table>
         </div>
@@ -928,7 +984,7 @@ function buildBatchSummaryPdfHtml(
         </div>
         <div style="flex: 1; border: 1px solid #000;">
           <div style="background: #e0e0e0; padding: 3px 6px; font-weight: bold; border-bottom: 1px solid #000;">Customer Signature</div>
-          <div style="padding: 20px 6px; font-size: 8pt;"></div>
+          <div style="padding: ${signature ? '6px' : '20px 6px'}; font-size: 8pt;">${renderCustomerSignatureBody(signature, false)}</div>
         </div>
       </div>`;
 
@@ -1062,6 +1118,10 @@ export async function generateAndStorePdf(
   options: {
     uploadToStorage?: boolean;
     downloadLocally?: boolean;
+    /** Approver-portal signature to stamp into the Customer Signature box. */
+    signature?: PortalSignature | null;
+    /** Tax from the ticket's tax code, shown under the totals. Left off when not given. */
+    tax?: TaxBreakdown | null;
   } = { uploadToStorage: false, downloadLocally: true }
 ): Promise<PdfExportResult> {
   const { rtHours, ttHours, ftHours, shopOtHours, fieldOtHours, descriptionLines: rawLines } =
@@ -1107,7 +1167,7 @@ export async function generateAndStorePdf(
 
   // Build the same HTML as downloadPdfFromHtml (abbreviated for space)
   const headerOverrides = (ticket as ServiceTicket & { headerOverrides?: { approver_po_afe?: string } }).headerOverrides;
-  const html = buildPdfHtml(ticket, expenses, descriptionLines, employeeName, employeeEmail, ticketDate, rtHours, ttHours, ftHours, shopOtHours, fieldOtHours, rtRate, ttRate, ftRate, shopOtRate, fieldOtRate, rtAmount, ttAmount, ftAmount, shopOtAmount, fieldOtAmount, expensesTotal, grandTotal, headerOverrides);
+  const html = buildPdfHtml(ticket, expenses, descriptionLines, employeeName, employeeEmail, ticketDate, rtHours, ttHours, ftHours, shopOtHours, fieldOtHours, rtRate, ttRate, ftRate, shopOtRate, fieldOtRate, rtAmount, ttAmount, ftAmount, shopOtAmount, fieldOtAmount, expensesTotal, grandTotal, headerOverrides, options.signature, options.tax);
 
   // Create a temporary container - must be in viewport for html2canvas to capture correctly
   // (off-screen elements at -9999px cause missing/incomplete content in merged PDFs)
@@ -1244,7 +1304,9 @@ function buildPdfHtml(
   fieldOtAmount: number,
   expensesTotal: number,
   grandTotal: number,
-  headerOverrides?: { approver_po_afe?: string; approver?: string; po_afe?: string; cc?: string; other?: string } | null
+  headerOverrides?: { approver_po_afe?: string; approver?: string; po_afe?: string; cc?: string; other?: string } | null,
+  signature?: PortalSignature | null,
+  tax?: TaxBreakdown | null
 ): string {
   // Use per-ticket header overrides when present; fall back to ticket's merged data (from applyHeaderOverridesToTicket)
   // This fixes the bug where only the first ticket had PO/AFE/CC (Cost Center), Approver, Coding, Other filled in merged exports
@@ -1509,9 +1571,10 @@ function buildPdfHtml(
               <td style="padding: 3px 6px;">Total Expenses</td>
               <td style="padding: 3px 6px; text-align: right; font-weight: bold;">$${expensesTotal.toFixed(2)}</td>
             </tr>
+            ${renderTaxRows(tax, 'padding: 3px 6px;')}
             <tr style="background: #f0f0f0;">
-              <td style="padding: 4px 6px; font-weight: bold;">TOTAL</td>
-              <td style="padding: 4px 6px; text-align: right; font-weight: bold; font-size: 10pt;">$${grandTotal.toFixed(2)}</td>
+              <td style="padding: 4px 6px; font-weight: bold;">${tax?.lines.length ? 'TOTAL (incl. tax)' : 'TOTAL'}</td>
+              <td style="padding: 4px 6px; text-align: right; font-weight: bold; font-size: 10pt;">$${(grandTotal + (tax?.total ?? 0)).toFixed(2)}</td>
             </tr>
           </table>
         </div>
@@ -1526,9 +1589,8 @@ function buildPdfHtml(
         </div>
         <div style="flex: 1; border: 1px solid #000;">
           <div style="background: #e0e0e0; padding: 3px 6px; font-weight: bold; border-bottom: 1px solid #000;">Customer Signature</div>
-          <div style="padding: 20px 6px; font-size: 8pt;">
-            <div style="border-bottom: 1px solid #000; margin-bottom: 4px; height: 20px;"></div>
-            <div>Signature</div>
+          <div style="padding: ${signature ? '6px' : '20px 6px'}; font-size: 8pt;">
+            ${renderCustomerSignatureBody(signature)}
           </div>
         </div>
       </div>
@@ -1540,3 +1602,128 @@ function buildPdfHtml(
     </div>
   `;
 }
+
+/**
+ * Customer invoice PDF (Invoiced card → Generate invoice). The letterhead is the app's Logo
+ * component rendered to SVG; the bill-to and reference blocks come from the customer and the
+ * batch's PO/AFE/CC coding, then one line per rate code and expense, and GST on labour and
+ * expenses. Long invoices run onto further pages without splitting a line.
+ */
+export async function generateInvoicePdf(doc: InvoiceDocument): Promise<Blob> {
+  const money = (n: number) => `$${n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  const longDate = (ymd: string) => formatTicketDateMmDdYyyy(ymd);
+  const logo = renderToStaticMarkup(createElement(Logo, { size: 'medium' }));
+  const referenceRows = ([
+    ['Project', doc.reference.project],
+    ['PO / AFE', doc.reference.poAfe],
+    ['CC', doc.reference.cc],
+    ['Approver', doc.reference.approver],
+    ['Location', doc.reference.location],
+    ['Other', doc.reference.other],
+    ['Period', doc.reference.period],
+    ['Tickets', doc.reference.tickets],
+  ] as const).filter(([, value]) => value.trim() !== '');
+
+  const html = `
+    <div id="customer-invoice" style="font-family: Arial, sans-serif; font-size: 9pt; color: #000; padding: 0.5in; box-sizing: border-box; width: 8.5in;">
+      <div style="display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 18px;">
+        <div>
+          ${logo}
+          <div style="margin-top: 6px; font-size: 8pt; line-height: 1.4;">
+            IONEX Systems<br />
+            2-3650 19th Street NE<br />
+            Calgary, AB T2E 6V2<br />
+            accounting@ionexsystems.com
+            ${doc.gstRegistration ? `<br />GST/HST # ${escapePdfText(doc.gstRegistration)}` : ''}
+          </div>
+        </div>
+        <div style="text-align: right;">
+          <div style="font-size: 20pt; font-weight: bold; letter-spacing: 3px;">INVOICE</div>
+          <table style="margin-left: auto; margin-top: 6px; border-collapse: collapse; font-size: 9pt;">
+            <tr><td style="padding: 1px 8px; color: #555;">Invoice #</td><td style="padding: 1px 0; font-weight: bold; text-align: right;">${escapePdfText(doc.invoiceNumber)}</td></tr>
+            <tr><td style="padding: 1px 8px; color: #555;">Date</td><td style="padding: 1px 0; text-align: right;">${longDate(doc.invoiceDate)}</td></tr>
+            <tr><td style="padding: 1px 8px; color: #555;">Terms</td><td style="padding: 1px 0; text-align: right;">Net ${doc.termsDays}</td></tr>
+            <tr><td style="padding: 1px 8px; color: #555;">Due</td><td style="padding: 1px 0; font-weight: bold; text-align: right;">${longDate(doc.dueDate)}</td></tr>
+          </table>
+        </div>
+      </div>
+
+      <div style="display: flex; gap: 10px; margin-bottom: 14px;">
+        <div style="flex: 1; border: 1px solid #000;">
+          <div style="background: #e0e0e0; padding: 3px 6px; font-weight: bold; border-bottom: 1px solid #000;">Bill To</div>
+          <div style="padding: 6px; line-height: 1.4;">
+            <div style="font-weight: bold;">${escapePdfText(doc.billTo.name)}</div>
+            ${doc.billTo.contact ? `<div>Attn: ${escapePdfText(doc.billTo.contact)}</div>` : ''}
+            ${doc.billTo.addressLines.map((l) => `<div>${escapePdfText(l)}</div>`).join('')}
+          </div>
+        </div>
+        <div style="flex: 1; border: 1px solid #000;">
+          <div style="background: #e0e0e0; padding: 3px 6px; font-weight: bold; border-bottom: 1px solid #000;">Reference</div>
+          <table style="width: 100%; border-collapse: collapse; font-size: 8pt;">
+            ${referenceRows.map(([label, value]) => `
+            <tr>
+              <td style="padding: 2px 6px; width: 70px; color: #555; vertical-align: top;">${label}</td>
+              <td style="padding: 2px 6px;">${escapePdfText(value)}</td>
+            </tr>`).join('')}
+          </table>
+        </div>
+      </div>
+
+      <table style="width: 100%; border-collapse: collapse; border: 1px solid #000;">
+        <thead>
+          <tr style="background: #e0e0e0; font-weight: bold; border-bottom: 1px solid #000;">
+            <td style="padding: 4px 6px;">Description</td>
+            <td style="padding: 4px; width: 70px; text-align: right; border-left: 1px solid #000;">Qty / Hrs</td>
+            <td style="padding: 4px; width: 80px; text-align: right; border-left: 1px solid #000;">Rate</td>
+            <td style="padding: 4px 6px; width: 90px; text-align: right; border-left: 1px solid #000;">Amount</td>
+          </tr>
+        </thead>
+        <tbody>
+          ${doc.lines.map((line, i) => `
+          <tr style="border-bottom: 1px solid #ddd;${i === 0 || line.kind === doc.lines[i - 1]?.kind ? '' : ' border-top: 1px solid #000;'}">
+            <td style="padding: 3px 6px; vertical-align: top;">${escapePdfText(line.description)}${line.serviceDate ? ` <span style="color: #555;">(${longDate(line.serviceDate)})</span>` : ''}</td>
+            <td style="padding: 3px 4px; text-align: right; border-left: 1px solid #ccc; vertical-align: top;">${line.quantity.toFixed(2)}</td>
+            <td style="padding: 3px 4px; text-align: right; border-left: 1px solid #ccc; vertical-align: top;">${money(line.unitPrice)}</td>
+            <td style="padding: 3px 6px; text-align: right; border-left: 1px solid #ccc; vertical-align: top;">${money(line.amount)}</td>
+          </tr>`).join('')}
+        </tbody>
+      </table>
+
+      <table style="width: 260px; margin: 10px 0 0 auto; border-collapse: collapse; border: 1px solid #000;">
+        <tr><td style="padding: 3px 6px;">Subtotal</td><td style="padding: 3px 6px; text-align: right;">${money(doc.subtotal)}</td></tr>
+        ${renderTaxRows(doc.tax, 'padding: 3px 6px;')}
+        <tr style="background: #f0f0f0; border-top: 2px solid #000; font-weight: bold;">
+          <td style="padding: 5px 6px; font-size: 10pt;">TOTAL DUE</td>
+          <td style="padding: 5px 6px; text-align: right; font-size: 11pt;">${money(doc.total)}</td>
+        </tr>
+      </table>
+
+      <div style="text-align: center; font-size: 7.5pt; color: #555; margin-top: 24px; border-top: 1px solid #ccc; padding-top: 6px;">
+        ${doc.footerNote ? `<div style="margin-bottom: 4px; white-space: pre-line;">${escapePdfText(doc.footerNote)}</div>` : ''}
+        Please quote invoice ${escapePdfText(doc.invoiceNumber)} with your payment. Payment is due by ${longDate(doc.dueDate)}.
+      </div>
+    </div>
+  `;
+
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  container.style.cssText = 'position:fixed;left:0;top:0;width:8.5in;z-index:-1;pointer-events:none;opacity:0.01';
+  document.body.appendChild(container);
+
+  const element = container.querySelector('#customer-invoice');
+
+  try {
+    await waitForPdfElementReady(element as HTMLElement);
+    const opt = {
+      margin: 0,
+      filename: 'invoice.pdf',
+      image: { type: 'jpeg', quality: 0.9 },
+      html2canvas: { scale: 2, useCORS: true, logging: false },
+      jsPDF: { unit: 'in', format: 'letter', orientation: 'portrait' as const },
+      pagebreak: { mode: ['css', 'legacy'], avoid: 'tr' },
+    };
+    return await html2pdf().set(opt).from(element).outputPdf('blob') as Blob;
+  } finally {
+    document.body.removeChild(container);
+  }
+}
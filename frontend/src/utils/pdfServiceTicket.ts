@@ -1,5 +1,5 @@
 import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
-import { ServiceTicket, roundToHalfHour } from './serviceTickets';
+import { ServiceTicket, entryTicketDescription, roundToHalfHour } from './serviceTickets';
 
 // PDF page dimensions (Letter size)
 const PAGE_WIDTH = 612;
@@ -112,7 +112,7 @@ interface RowItem {
 function prepareRowItems(entries: ServiceTicket['entries']): RowItem[] {
   const merged = new Map<string, { description: string; st: number; tt: number; ft: number; so: number; fo: number }>();
   for (const entry of entries) {
-    const desc = entry.description || 'No description';
+    const desc = entryTicketDescription(entry) || 'No description';
     const rateType = entry.rate_type || 'Shop Time';
     const hours = roundToHalfHour(Number(entry.hours) || 0);
     const existing = merged.get(desc);
@@ -0,0 +1,181 @@
+import { formatYmd } from './payPeriod';
+
+/**
+ * How a project bills (projects.billing_type). Hourly projects bill ticket labour × rate. Fixed-price
+ * projects bill contract_amount through milestones and percent-complete progress claims. Retainers
+ * bill retainer_amount each month, with ticket labour above it billed as overage. Fixed-price and
+ * retainer bills are project_billing_claims rows; their tickets are batched for expenses only.
+ */
+export type BillingType = 'hourly' | 'fixed' | 'retainer';
+
+export const BILLING_TYPES: BillingType[] = ['hourly', 'fixed', 'retainer'];
+
+export const BILLING_TYPE_LABELS: Record<BillingType, string> = {
+  hourly: 'Hourly',
+  fixed: 'Fixed price',
+  retainer: 'Monthly retainer',
+};
+
+export function billingTypeOf(project: any): BillingType {
+  return project?.billing_type === 'fixed' || project?.billing_type === 'retainer' ? project.billing_type : 'hourly';
+}
+
+/** True when the project's labour is billed by contract (fixed price or retainer) rather than per ticket. */
+export function labourBilledByContract(project: any): boolean {
+  return billingTypeOf(project) !== 'hourly';
+}
+
+export type BillingMilestone = {
+  id?: string;
+  project_id: string;
+  name: string;
+  amount: number;
+  due_date: string | null;
+  sort_order: number;
+};
+
+export type BillingClaimKind = 'milestone' | 'progress' | 'retainer';
+
+export type BillingClaim = {
+  id?: string;
+  project_id: string;
+  kind: BillingClaimKind;
+  milestone_id: string | null;
+  /** Retainer claims: first day of the month billed (YYYY-MM-01). */
+  period_month: string | null;
+  /** Progress claims: percent complete billed up to. */
+  percent_complete: number | null;
+  description: string;
+  amount: number;
+  claim_date: string;
+  created_by?: string | null;
+};
+
+export type FixedPriceStatus = {
+  contract: number;
+  percentComplete: number;
+  /** Billed to date across milestone and progress claims. */
+  billed: number;
+  /** Revenue recognised: contract × percent complete, or what has been billed when that is more. */
+  earned: number;
+  /** Earned by percent complete but not billed yet (what a progress claim would bill). */
+  unbilled: number;
+  /** Contract left to bill. */
+  remaining: number;
+};
+
+export function fixedPriceStatus(project: any, claims: BillingClaim[]): FixedPriceStatus {
+  const contract = Number(project?.contract_amount) || 0;
+  const percentComplete = Math.min(100, Math.max(0, Number(project?.percent_complete) || 0));
+  const billed = round2(claims.filter((c) => c.project_id === project?.id).reduce((s, c) => s + Number(c.amount), 0));
+  const byPercent = round2((contract * percentComplete) / 100);
+  return {
+    contract,
+    percentComplete,
+    billed,
+    earned: Math.max(byPercent, billed),
+    unbilled: Math.max(0, round2(byPercent - billed)),
+    remaining: round2(contract - billed),
+  };
+}
+
+/** Milestone ids that already have a claim. */
+export function billedMilestoneIds(claims: BillingClaim[]): Set<string> {
+  return new Set(claims.map((c) => c.milestone_id).filter((id): id is string => !!id));
+}
+
+/** Service ticket record fields retainer drawdown reads; total_amount is ticket labour at the ticket rates. */
+export type BillingTicket = {
+  project_id: string | null;
+  date: string;
+  total_hours: number | string | null;
+  total_amount: number | string | null;
+};
+
+export type RetainerMonth = {
+  /** First day of the month, YYYY-MM-01. */
+  month: string;
+  hours: number;
+  /** Ticket labour at the ticket rates; draws the retainer down. */
+  labourValue: number;
+  retainer: number;
+  /** Labour above the retainer, billed on top of it. */
+  overage: number;
+  /** Retainer + overage, or the claimed amount once the month is billed. */
+  amount: number;
+  claim: BillingClaim | null;
+};
+
+/**
+ * One row per month from the project's start (or its first ticket) to this month, or to the end
+ * date when that is earlier. Unused retainer does not roll over. `tickets` should already be limited
+ * to revenue tickets (approved or later).
+ */
+export function retainerMonths(project: any, tickets: BillingTicket[], claims: BillingClaim[], today: Date = new Date()): RetainerMonth[] {
+  const retainer = Number(project?.retainer_amount) || 0;
+  const mine = tickets.filter((t) => t.project_id === project?.id && t.date);
+  const myClaims = claims.filter((c) => c.project_id === project?.id && c.kind === 'retainer' && c.period_month);
+
+  const starts = [
+    project?.start_date ? monthOf(String(project.start_date)) : null,
+    ...mine.map((t) => monthOf(t.date)),
+    ...myClaims.map((c) => monthOf(c.period_month!)),
+  ].filter((m): m is string => !!m);
+  if (starts.length === 0) return [];
+  const first = starts.sort()[0];
+  let last = monthOf(formatYmd(today));
+  if (project?.end_date && monthOf(String(project.end_date)) < last) last = monthOf(String(project.end_date));
+  for (const m of [...mine.map((t) => monthOf(t.date)), ...myClaims.map((c) => monthOf(c.period_month!))]) {
+    if (m > last) last = m;
+  }
+
+  const months: RetainerMonth[] = [];
+  for (let month = first; month <= last; month = nextMonth(month)) {
+    const inMonth = mine.filter((t) => monthOf(t.date) === month);
+    const hours = round2(inMonth.reduce((s, t) => s + (Number(t.total_hours) || 0), 0));
+    const labourValue = round2(inMonth.reduce((s, t) => s + (Number(t.total_amount) || 0), 0));
+    const overage = Math.max(0, round2(labourValue - retainer));
+    const claim = myClaims.find((c) => monthOf(c.period_month!) === month) ?? null;
+    months.push({
+      month,
+      hours,
+      labourValue,
+      retainer,
+      overage,
+      amount: claim ? Number(claim.amount) : round2(retainer + overage),
+      claim,
+    });
+  }
+  return months;
+}
+
+/**
+ * Pre-tax labour revenue of a fixed-price or retainer project, replacing ticket labour × rate;
+ * null for hourly projects. Fixed price: earned by percent complete (at least what's billed).
+ * Retainer: every month's retainer plus overage.
+ */
+export function contractLabourRevenue(project: any, tickets: BillingTicket[], claims: BillingClaim[], today: Date = new Date()): number | null {
+  const type = billingTypeOf(project);
+  if (type === 'fixed') return fixedPriceStatus(project, claims.filter((c) => c.kind !== 'retainer')).earned;
+  if (type === 'retainer') return round2(retainerMonths(project, tickets, claims, today).reduce((s, m) => s + m.amount, 0));
+  return null;
+}
+
+/** "March 2026" for a YYYY-MM-01 month. */
+export function formatBillingMonth(month: string): string {
+  const [y, m] = month.split('-').map(Number);
+  return new Date(y, m - 1, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+}
+
+function monthOf(ymd: string): string {
+  return `${ymd.slice(0, 7)}-01`;
+}
+
+function nextMonth(month: string): string {
+  const [y, m] = month.split('-').map(Number);
+  return formatYmd(new Date(y, m, 1));
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,3 @@
+// Rate card resolution lives in the repo-level shared module so ticket rates match the backend
+// (GET /api/service-tickets) and the ServiceTickets page.
+export * from '../../../shared/rateCards';
@@ -0,0 +1,235 @@
+import { formatYmd } from './payPeriod';
+import { formatTaxLineLabel, TaxLine } from './taxCodes';
+
+/**
+ * Accounts receivable (Invoices → Receivables). A customer_invoices row is an invoice that was
+ * issued, usually recorded from an invoiced batch: its total, terms and due date. Payments and
+ * credit notes against it are customer_invoice_payments rows; the balance is what's left. Aging
+ * buckets go by days past the due date, so "Current" is everything not yet due.
+ */
+
+export const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+
+export type ReceivableEntryKind = 'payment' | 'credit_note';
+
+export const RECEIVABLE_ENTRY_LABELS: Record<ReceivableEntryKind, string> = {
+  payment: 'Payment',
+  credit_note: 'Credit note',
+};
+
+export type ReceivablePayment = {
+  id?: string;
+  invoice_id: string;
+  kind: ReceivableEntryKind;
+  amount: number;
+  /** Payments: date the money arrived. Credit notes: date issued. */
+  received_on: string;
+  /** Cheque / EFT number, or the credit note number. */
+  reference: string | null;
+  notes: string | null;
+  created_by?: string | null;
+};
+
+export type CustomerInvoice = {
+  id?: string;
+  /** Invoiced batch this invoice was recorded from (invoiced_batch_marks.group_id); null when entered by hand. */
+  group_id: string | null;
+  customer_id: string | null;
+  customer_name: string;
+  project_number: string | null;
+  invoice_number: string;
+  invoice_date: string;
+  terms_days: number;
+  due_date: string;
+  /** Pre-tax amount. */
+  subtotal: number;
+  tax_amount: number;
+  /** tax_amount by component (GST, PST, …); null when only the total is known. */
+  tax_lines: TaxLine[] | null;
+  total: number;
+  notes: string | null;
+  created_by?: string | null;
+  payments: ReceivablePayment[];
+};
+
+export type InvoiceStatus = 'open' | 'partial' | 'overdue' | 'paid' | 'credited';
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  open: 'Open',
+  partial: 'Part paid',
+  overdue: 'Overdue',
+  paid: 'Paid',
+  credited: 'Credited',
+};
+
+export type AgingBucket = 'current' | 'days_1_30' | 'days_31_60' | 'days_61_90' | 'days_90_plus';
+
+export const AGING_BUCKETS: AgingBucket[] = ['current', 'days_1_30', 'days_31_60', 'days_61_90', 'days_90_plus'];
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: 'Current',
+  days_1_30: '1–30',
+  days_31_60: '31–60',
+  days_61_90: '61–90',
+  days_90_plus: '90+',
+};
+
+const r2 = (n: number) => Math.round(n * 100) / 100;
+
+const dayNumber = (ymd: string) => Math.floor(new Date(`${ymd}T12:00:00Z`).getTime() / 86_400_000);
+
+export function dueDateFromTerms(invoiceDate: string, termsDays: number): string {
+  const d = new Date(`${invoiceDate}T12:00:00`);
+  d.setDate(d.getDate() + termsDays);
+  return formatYmd(d);
+}
+
+/** Customer's payment terms (customers.payment_terms_days), or the default. */
+export function customerTermsDays(customer: any): number {
+  if (customer?.payment_terms_days == null) return DEFAULT_PAYMENT_TERMS_DAYS;
+  const days = Number(customer.payment_terms_days);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_PAYMENT_TERMS_DAYS;
+}
+
+export function amountPaid(invoice: Pick<CustomerInvoice, 'payments'>, kind?: ReceivableEntryKind): number {
+  return r2(invoice.payments.filter((p) => !kind || p.kind === kind).reduce((s, p) => s + p.amount, 0));
+}
+
+export function invoiceBalance(invoice: Pick<CustomerInvoice, 'total' | 'payments'>): number {
+  return r2(invoice.total - amountPaid(invoice));
+}
+
+export function daysPastDue(invoice: Pick<CustomerInvoice, 'due_date'>, asOf: string): number {
+  return dayNumber(asOf) - dayNumber(invoice.due_date);
+}
+
+export function invoiceStatus(invoice: CustomerInvoice, asOf: string): InvoiceStatus {
+  if (invoiceBalance(invoice) <= 0) {
+    return amountPaid(invoice, 'payment') > 0 || invoice.total <= 0 ? 'paid' : 'credited';
+  }
+  if (daysPastDue(invoice, asOf) > 0) return 'overdue';
+  return amountPaid(invoice) > 0 ? 'partial' : 'open';
+}
+
+export function agingBucket(daysLate: number): AgingBucket {
+  if (daysLate <= 0) return 'current';
+  if (daysLate <= 30) return 'days_1_30';
+  if (daysLate <= 60) return 'days_31_60';
+  if (daysLate <= 90) return 'days_61_90';
+  return 'days_90_plus';
+}
+
+export type AgingRow = {
+  customerName: string;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+  invoiceCount: number;
+};
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({ current: 0, days_1_30: 0, days_31_60: 0, days_61_90: 0, days_90_plus: 0 });
+
+/**
+ * Open balances by customer and aging bucket as of a date, largest total first, plus a totals row.
+ * Payments and credit notes dated after asOf are ignored so an earlier date shows aging as it was then.
+ */
+export function buildAgingReport(invoices: CustomerInvoice[], asOf: string): { rows: AgingRow[]; totals: AgingRow } {
+  const byCustomer = new Map<string, AgingRow>();
+  const totals: AgingRow = { customerName: 'Total', buckets: emptyBuckets(), total: 0, invoiceCount: 0 };
+  for (const invoice of invoices) {
+    if (invoice.invoice_date > asOf) continue;
+    const balance = invoiceBalance({ total: invoice.total, payments: invoice.payments.filter((p) => p.received_on <= asOf) });
+    if (balance <= 0) continue;
+    const bucket = agingBucket(daysPastDue(invoice, asOf));
+    const row = byCustomer.get(invoice.customer_name) ?? { customerName: invoice.customer_name, buckets: emptyBuckets(), total: 0, invoiceCount: 0 };
+    row.buckets[bucket] = r2(row.buckets[bucket] + balance);
+    row.total = r2(row.total + balance);
+    row.invoiceCount += 1;
+    byCustomer.set(invoice.customer_name, row);
+    totals.buckets[bucket] = r2(totals.buckets[bucket] + balance);
+    totals.total = r2(totals.total + balance);
+    totals.invoiceCount += 1;
+  }
+  const rows = [...byCustomer.values()].sort((a, b) => b.total - a.total || a.customerName.localeCompare(b.customerName));
+  return { rows, totals };
+}
+
+/** Money received (payments only, not credit notes) with received_on between start and end inclusive. */
+export function cashCollected(payments: Pick<ReceivablePayment, 'kind' | 'amount' | 'received_on'>[], start: string, end: string): number {
+  return r2(payments.filter((p) => p.kind === 'payment' && p.received_on >= start && p.received_on <= end).reduce((s, p) => s + p.amount, 0));
+}
+
+/** Problems with an entry before it is saved; empty means it can be recorded. */
+export function validateReceivableEntry(invoice: CustomerInvoice, entry: Pick<ReceivablePayment, 'kind' | 'amount' | 'received_on'>): string[] {
+  const problems: string[] = [];
+  if (!(entry.amount > 0)) problems.push('Enter an amount above zero.');
+  else if (entry.amount > invoiceBalance(invoice) + 0.005) {
+    problems.push(`That's more than the ${invoiceBalance(invoice).toFixed(2)} left on invoice ${invoice.invoice_number}.`);
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(entry.received_on)) problems.push('Enter the date.');
+  else if (entry.received_on < invoice.invoice_date) problems.push('The date is before the invoice date.');
+  return problems;
+}
+
+export type TaxPeriodGrouping = 'month' | 'quarter';
+
+export type TaxCollectedRow = {
+  /** "2026-04" or "2026-Q2" */
+  period: string;
+  invoiceCount: number;
+  /** Pre-tax amount invoiced. */
+  subtotal: number;
+  /** Tax by component label ("GST (5%)"). */
+  byComponent: Record<string, number>;
+  /** Tax on invoices recorded without a breakdown. */
+  notBrokenOut: number;
+  total: number;
+};
+
+/**
+ * Tax charged on invoices dated in a year, per month or quarter and per component, for the GST/HST
+ * and PST returns. Goes by invoice date (accrual), not by when the invoice was paid.
+ */
+export function buildTaxCollectedReport(
+  invoices: Pick<CustomerInvoice, 'invoice_date' | 'subtotal' | 'tax_amount' | 'tax_lines'>[],
+  year: number,
+  grouping: TaxPeriodGrouping
+): { columns: string[]; rows: TaxCollectedRow[]; totals: TaxCollectedRow } {
+  const emptyRow = (period: string): TaxCollectedRow => ({ period, invoiceCount: 0, subtotal: 0, byComponent: {}, notBrokenOut: 0, total: 0 });
+  const byPeriod = new Map<string, TaxCollectedRow>();
+  const totals = emptyRow(String(year));
+  const columns = new Set<string>();
+  const add = (row: TaxCollectedRow, label: string | null, amount: number) => {
+    if (label) row.byComponent[label] = r2((row.byComponent[label] ?? 0) + amount);
+    else row.notBrokenOut = r2(row.notBrokenOut + amount);
+    row.total = r2(row.total + amount);
+  };
+  for (const invoice of invoices) {
+    if (!invoice.invoice_date.startsWith(`${year}-`)) continue;
+    const month = Number(invoice.invoice_date.slice(5, 7));
+    const period = grouping === 'month' ? invoice.invoice_date.slice(0, 7) : `${year}-Q${Math.ceil(month / 3)}`;
+    const row = byPeriod.get(period) ?? emptyRow(period);
+    for (const target of [row, totals]) {
+      target.invoiceCount += 1;
+      target.subtotal = r2(target.subtotal + invoice.subtotal);
+    }
+    let brokenOut = 0;
+    for (const line of invoice.tax_lines ?? []) {
+      const label = formatTaxLineLabel(line);
+      columns.add(label);
+      add(row, label, line.amount);
+      add(totals, label, line.amount);
+      brokenOut += line.amount;
+    }
+    const rest = r2(invoice.tax_amount - brokenOut);
+    if (rest !== 0) {
+      add(row, null, rest);
+      add(totals, null, rest);
+    }
+    byPeriod.set(period, row);
+  }
+  return {
+    columns: [...columns].sort(),
+    rows: [...byPeriod.values()].sort((a, b) => a.period.localeCompare(b.period)),
+    totals,
+  };
+}
@@ -1,6 +1,6 @@
 import ExcelJS from 'exceljs';
 import { saveAs } from 'file-saver';
-import { ServiceTicket, getRateTypeSortOrder } from './serviceTickets';
+import { ServiceTicket, entryTicketDescription, getRateTypeSortOrder } from './serviceTickets';
 import { createCellAddress } from './excelTemplateMapping';
 
 // Maximum characters per description row before wrapping to next row
@@ -65,7 +65,7 @@ interface RowItem {
 function prepareRowItems(entries: ServiceTicket['entries']): RowItem[] {
   const merged = new Map<string, { description: string; st: number; tt: number; ft: number; so: number; fo: number }>();
   for (const entry of entries) {
-    const desc = entry.description || 'No description';
+    const desc = entryTicketDescription(entry) || 'No description';
     const rateType = entry.rate_type || 'Shop Time';
     const hours = roundToHalfHour(Number(entry.hours) || 0);
     const existing = merged.get(desc);
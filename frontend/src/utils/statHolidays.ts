@@ -0,0 +1,278 @@
+/**
+ * Statutory holidays per province and the stat pay owed for them. Holidays come from the
+ * `stat_holidays` table (admin-editable on Payroll → Stat holidays); a jurisdiction/year with no
+ * stored rows uses the built-in BC / AB calendar below. Rows are registered with setStatHolidays()
+ * (see useStatHolidays / statHolidaysService.load), like pay schedules. Employees follow the
+ * province in employees.overtime_jurisdiction.
+ *
+ * Stat pay follows the average-day-pay formula: wages earned in the lookback window before the
+ * holiday divided by the days worked in it, paid to eligible employees. Hours worked on the
+ * holiday are paid at the premium multiplier on top of that.
+ */
+
+import { formatYmd, parseYmdAtNoon } from './payPeriod';
+
+export type StatHoliday = {
+  id?: string;
+  jurisdiction: string;
+  /** YYYY-MM-DD */
+  date: string;
+  name: string;
+};
+
+export const STAT_HOLIDAY_JURISDICTIONS = ['BC', 'AB'] as const;
+
+export type StatPayRule = {
+  jurisdiction: string;
+  /** Calendar days before the holiday that average day's pay is taken over. */
+  lookbackDays: number;
+  /** Days worked in the lookback window needed to qualify (BC: 15 of the 30 days). */
+  minDaysWorked: number;
+  /** Calendar days employed before the holiday needed to qualify. */
+  minDaysEmployed: number;
+  /**
+   * AB only: the holiday must fall on a day the employee normally works — the same weekday worked
+   * in at least `min` of the `of` weeks before it.
+   */
+  usualWorkDay: { of: number; min: number } | null;
+  /** Pay multiplier for hours worked on the holiday (in addition to average day's pay). */
+  premiumMultiplier: number;
+};
+
+export const STAT_PAY_RULES: Record<string, StatPayRule> = {
+  BC: { jurisdiction: 'BC', lookbackDays: 30, minDaysWorked: 15, minDaysEmployed: 30, usualWorkDay: null, premiumMultiplier: 1.5 },
+  AB: { jurisdiction: 'AB', lookbackDays: 28, minDaysWorked: 0, minDaysEmployed: 30, usualWorkDay: { of: 9, min: 5 }, premiumMultiplier: 1.5 },
+};
+
+/** Working days in a year, for spreading stat pay into a burden percentage. */
+const WORKING_DAYS_PER_YEAR = 260;
+
+const DEFAULT_JURISDICTION = 'BC';
+
+const normJurisdiction = (j: string | null | undefined): string => (j || DEFAULT_JURISDICTION).trim().toUpperCase();
+
+export function statPayRuleFor(jurisdiction: string | null | undefined): StatPayRule {
+  return STAT_PAY_RULES[normJurisdiction(jurisdiction)] || STAT_PAY_RULES[DEFAULT_JURISDICTION];
+}
+
+// ---------------------------------------------------------------------------
+// Built-in calendars
+// ---------------------------------------------------------------------------
+
+const ymd = (year: number, month: number, day: number): string =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+/** nth (1-based) weekday (0 = Sun) of a month. */
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  const first = new Date(year, month - 1, 1).getDay();
+  return ymd(year, month, 1 + ((weekday - first + 7) % 7) + (n - 1) * 7);
+}
+
+/** Easter Sunday (anonymous Gregorian algorithm). */
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day, 12);
+}
+
+/** Monday on or before May 24. */
+function victoriaDay(year: number): string {
+  const may24 = new Date(year, 4, 24, 12);
+  may24.setDate(24 - ((may24.getDay() + 6) % 7));
+  return formatYmd(may24);
+}
+
+/** Canada Day moves to July 2 when July 1 is a Sunday. */
+function canadaDay(year: number): string {
+  return new Date(year, 6, 1).getDay() === 0 ? ymd(year, 7, 2) : ymd(year, 7, 1);
+}
+
+/** General holidays under the BC / AB Employment Standards Acts. Empty for other jurisdictions. */
+export function defaultStatHolidays(jurisdiction: string, year: number): StatHoliday[] {
+  const j = normJurisdiction(jurisdiction);
+  if (!(STAT_HOLIDAY_JURISDICTIONS as readonly string[]).includes(j)) return [];
+  const goodFriday = easterSunday(year);
+  goodFriday.setDate(goodFriday.getDate() - 2);
+  const days: [string, string, boolean][] = [
+    [ymd(year, 1, 1), "New Year's Day", true],
+    [nthWeekday(year, 2, 1, 3), 'Family Day', true],
+    [formatYmd(goodFriday), 'Good Friday', true],
+    [victoriaDay(year), 'Victoria Day', true],
+    [canadaDay(year), 'Canada Day', true],
+    [nthWeekday(year, 8, 1, 1), 'British Columbia Day', j === 'BC'],
+    [nthWeekday(year, 9, 1, 1), 'Labour Day', true],
+    [ymd(year, 9, 30), 'National Day for Truth and Reconciliation', j === 'BC'],
+    [nthWeekday(year, 10, 1, 2), 'Thanksgiving Day', true],
+    [ymd(year, 11, 11), 'Remembrance Day', true],
+    [ymd(year, 12, 25), 'Christmas Day', true],
+  ];
+  return days.filter(([, , applies]) => applies).map(([date, name]) => ({ jurisdiction: j, date, name }));
+}
+
+// ---------------------------------------------------------------------------
+// Registry (stored rows)
+// ---------------------------------------------------------------------------
+
+let stored: StatHoliday[] = [];
+
+/** Register rows from `stat_holidays`; an empty list means built-in calendars everywhere. */
+export function setStatHolidays(rows: StatHoliday[] | null | undefined): void {
+  stored = (rows || []).map((r) => ({ ...r, jurisdiction: normJurisdiction(r.jurisdiction), date: String(r.date).slice(0, 10) }));
+}
+
+/** Stored rows for the jurisdiction and year when there are any, otherwise the built-in calendar. */
+export function statHolidaysForYear(jurisdiction: string | null | undefined, year: number): StatHoliday[] {
+  const j = normJurisdiction(jurisdiction);
+  const rows = stored.filter((h) => h.jurisdiction === j && h.date.startsWith(`${year}-`));
+  return (rows.length > 0 ? rows : defaultStatHolidays(j, year)).slice().sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** True when the year's holidays for the jurisdiction are stored rows (not the built-in calendar). */
+export function statHolidaysAreCustom(jurisdiction: string | null | undefined, year: number): boolean {
+  const j = normJurisdiction(jurisdiction);
+  return stored.some((h) => h.jurisdiction === j && h.date.startsWith(`${year}-`));
+}
+
+export function statHolidaysInRange(jurisdiction: string | null | undefined, startYmd: string, endYmd: string): StatHoliday[] {
+  const out: StatHoliday[] = [];
+  for (let y = Number(startYmd.slice(0, 4)); y <= Number(endYmd.slice(0, 4)); y++) {
+    out.push(...statHolidaysForYear(jurisdiction, y).filter((h) => h.date >= startYmd && h.date <= endYmd));
+  }
+  return out;
+}
+
+export function statHolidayOn(jurisdiction: string | null | undefined, dateYmd: string): StatHoliday | null {
+  return statHolidaysForYear(jurisdiction, Number(dateYmd.slice(0, 4))).find((h) => h.date === dateYmd) || null;
+}
+
+/**
+ * Stat pay as a fraction of base pay, for burden estimates: one average day per holiday spread
+ * over a full-time year (BC 11 / 260 ≈ 4.2%).
+ */
+export function statHolidayBurdenPct(jurisdiction: string | null | undefined, year = new Date().getFullYear()): number {
+  return statHolidaysForYear(jurisdiction, year).length / WORKING_DAYS_PER_YEAR;
+}
+
+// ---------------------------------------------------------------------------
+// Stat pay
+// ---------------------------------------------------------------------------
+
+export type StatPayEntry = {
+  date: string;
+  hours: number;
+  /** Pay for the entry at the rate Payroll uses (hours × rate). */
+  pay: number;
+  /** Booked at an overtime rate, which already pays 1.5x — no further premium. */
+  overtime: boolean;
+};
+
+export type StatHolidayPayLine = {
+  date: string;
+  name: string;
+  eligible: boolean;
+  /** Why the employee doesn't qualify (when !eligible). */
+  reason: string | null;
+  daysWorked: number;
+  averageDayPay: number;
+  hoursWorked: number;
+  /** Extra pay for hours worked on the holiday (premium multiplier − 1 on regular-rate hours). */
+  premiumPay: number;
+  /** averageDayPay + premiumPay when eligible, else 0 (AB: premium only off a usual work day). */
+  total: number;
+};
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+function addDays(dateYmd: string, days: number): string {
+  const d = parseYmdAtNoon(dateYmd);
+  d.setDate(d.getDate() + days);
+  return formatYmd(d);
+}
+
+/** Days of lookback any rule needs (average day's pay or the AB usual-work-day test). */
+export function statPayLookbackDays(rule: StatPayRule): number {
+  return Math.max(rule.lookbackDays, rule.usualWorkDay ? rule.usualWorkDay.of * 7 : 0);
+}
+
+/** Stat pay per holiday for one employee. `entries` must cover the lookback before each holiday. */
+export function computeStatHolidayPay({
+  holidays,
+  entries,
+  hireDate,
+  rule,
+}: {
+  holidays: StatHoliday[];
+  entries: StatPayEntry[];
+  hireDate: string | null | undefined;
+  rule: StatPayRule;
+}): StatHolidayPayLine[] {
+  const byDate = new Map<string, { hours: number; pay: number; regularPay: number }>();
+  for (const e of entries) {
+    const date = String(e.date).slice(0, 10);
+    const day = byDate.get(date) || { hours: 0, pay: 0, regularPay: 0 };
+    day.hours += Number(e.hours) || 0;
+    day.pay += Number(e.pay) || 0;
+    if (!e.overtime) day.regularPay += Number(e.pay) || 0;
+    byDate.set(date, day);
+  }
+
+  return holidays.map((h) => {
+    const from = addDays(h.date, -rule.lookbackDays);
+    const through = addDays(h.date, -1);
+    let wages = 0;
+    let daysWorked = 0;
+    for (const [date, day] of byDate) {
+      if (date < from || date > through || day.hours <= 0) continue;
+      wages += day.pay;
+      daysWorked += 1;
+    }
+    const averageDayPay = daysWorked > 0 ? wages / daysWorked : 0;
+    const onHoliday = byDate.get(h.date);
+    const hoursWorked = onHoliday?.hours || 0;
+    const premiumPay = (onHoliday?.regularPay || 0) * (rule.premiumMultiplier - 1);
+
+    let reason: string | null = null;
+    // AB: working a holiday that isn't a usual work day earns the premium but no average day's pay.
+    let paysAverageDay = true;
+    const hire = hireDate ? String(hireDate).slice(0, 10) : null;
+    if (hire && hire > addDays(h.date, -rule.minDaysEmployed)) {
+      reason = `Employed less than ${rule.minDaysEmployed} days`;
+    } else if (daysWorked < Math.max(1, rule.minDaysWorked)) {
+      reason = `Worked ${daysWorked} of the ${rule.lookbackDays} days before (needs ${Math.max(1, rule.minDaysWorked)})`;
+    } else if (rule.usualWorkDay) {
+      let weeksWorked = 0;
+      for (let w = 1; w <= rule.usualWorkDay.of; w++) {
+        if ((byDate.get(addDays(h.date, -7 * w))?.hours || 0) > 0) weeksWorked += 1;
+      }
+      if (weeksWorked < rule.usualWorkDay.min) {
+        paysAverageDay = false;
+        if (hoursWorked <= 0) reason = `Not a usual work day (worked that weekday ${weeksWorked} of ${rule.usualWorkDay.of} weeks)`;
+      }
+    }
+
+    const eligible = reason === null;
+    return {
+      date: h.date,
+      name: h.name,
+      eligible,
+      reason,
+      daysWorked,
+      averageDayPay: round2(averageDayPay),
+      hoursWorked: round2(hoursWorked),
+      premiumPay: round2(premiumPay),
+      total: eligible ? round2((paysAverageDay ? averageDayPay : 0) + premiumPay) : 0,
+    };
+  });
+}
@@ -0,0 +1,187 @@
+/**
+ * Sales tax codes (Invoices → Settings → Tax codes). A code is a list of components (GST 5%,
+ * HST 13%, GST 5% + PST 7%) or exempt. A ticket's code is its project's, else its customer's, else
+ * the default; an expense type can have its own code, except on exempt tickets, which stay exempt.
+ * Receipt GST recorded on expense lines still replaces the rate on GST-only expenses, as before.
+ */
+
+export type TaxComponent = { name: string; rate: number };
+
+export type TaxCode = {
+  id: string;
+  code: string;
+  name: string;
+  components: TaxComponent[];
+  is_exempt: boolean;
+  /** Printed on the invoice in place of tax, e.g. the exemption it's under. */
+  exempt_note: string | null;
+  is_default: boolean;
+  active: boolean;
+  sort_order: number;
+  /** QuickBooks Online TaxCode name or Id for pushed invoice lines; null = a QBO code named like `code`. */
+  qbo_tax_code: string | null;
+};
+
+/** What used to be hard-coded: 5% GST. Used until tax codes are set up (or none is marked default). */
+export const DEFAULT_TAX_RATE = 0.05;
+
+export const FALLBACK_TAX_CODE: TaxCode = {
+  id: '',
+  code: 'GST',
+  name: 'GST 5%',
+  components: [{ name: 'GST', rate: DEFAULT_TAX_RATE }],
+  is_exempt: false,
+  exempt_note: null,
+  is_default: true,
+  active: true,
+  sort_order: 0,
+  qbo_tax_code: 'GST',
+};
+
+/** Ticket expense types that can carry their own tax code (service_ticket_expenses.expense_type). */
+export const TAXABLE_EXPENSE_TYPES = ['Travel', 'Subsistence', 'Hotel', 'Expenses', 'Equipment'] as const;
+
+export type TaxSettings = {
+  codes: TaxCode[];
+  /** expense_type → tax_codes.id */
+  expenseTypeCodes: Record<string, string>;
+};
+
+export const EMPTY_TAX_SETTINGS: TaxSettings = { codes: [], expenseTypeCodes: {} };
+
+/** One component of tax on an invoice or ticket: the amount it applies to and the tax. */
+export type TaxLine = {
+  name: string;
+  rate: number;
+  base: number;
+  amount: number;
+  /** GST taken from receipt GST on expense lines rather than the rate. */
+  fromReceipts?: boolean;
+};
+
+export type TaxBreakdown = {
+  lines: TaxLine[];
+  total: number;
+  /** Set when the ticket's code is exempt; printed instead of tax rows. */
+  exemptNote: string | null;
+};
+
+const r2 = (x: number) => Math.round(x * 100) / 100;
+
+/** Combined rate of a code (0 when exempt), e.g. 0.12 for GST + PST BC. */
+export function taxCodeRate(code: TaxCode): number {
+  if (code.is_exempt) return 0;
+  return code.components.reduce((sum, c) => sum + (Number(c.rate) || 0), 0);
+}
+
+/** "GST (5%)", "PST (7%)" */
+export function formatTaxLineLabel(line: Pick<TaxLine, 'name' | 'rate'>): string {
+  const pct = Math.round(line.rate * 100000) / 1000;
+  return `${line.name} (${pct}%)`;
+}
+
+/** "GST (5%) + PST (7%)", or "Exempt". */
+export function describeTaxCode(code: TaxCode): string {
+  if (code.is_exempt) return 'Exempt';
+  return code.components.map((c) => formatTaxLineLabel(c)).join(' + ') || 'No tax';
+}
+
+export function defaultTaxCode(settings: TaxSettings): TaxCode {
+  return settings.codes.find((c) => c.is_default && c.active) ?? FALLBACK_TAX_CODE;
+}
+
+function codeById(settings: TaxSettings, id: string | null | undefined): TaxCode | undefined {
+  return id ? settings.codes.find((c) => c.id === id) : undefined;
+}
+
+/** Project's code, else the customer's, else the default. Inactive codes still apply where assigned. */
+export function resolveTaxCode(
+  settings: TaxSettings,
+  ids: { projectTaxCodeId?: string | null; customerTaxCodeId?: string | null }
+): TaxCode {
+  return codeById(settings, ids.projectTaxCodeId) ?? codeById(settings, ids.customerTaxCodeId) ?? defaultTaxCode(settings);
+}
+
+/** resolveTaxCode from the ticket's projects row (with its customer) and customers row, either may be missing. */
+export function resolveTicketTaxCode(
+  settings: TaxSettings,
+  project: { tax_code_id?: string | null; customer?: { tax_code_id?: string | null } | null } | null | undefined,
+  customer: { tax_code_id?: string | null } | null | undefined
+): TaxCode {
+  return resolveTaxCode(settings, {
+    projectTaxCodeId: project?.tax_code_id,
+    customerTaxCodeId: customer?.tax_code_id ?? project?.customer?.tax_code_id,
+  });
+}
+
+/** Code for one expense on a ticket: exempt tickets stay exempt, otherwise the expense type's code if set. */
+export function resolveExpenseTaxCode(settings: TaxSettings, ticketCode: TaxCode, expenseType: string | null | undefined): TaxCode {
+  if (ticketCode.is_exempt) return ticketCode;
+  return codeById(settings, expenseType ? settings.expenseTypeCodes[expenseType] : null) ?? ticketCode;
+}
+
+function isGstOnly(code: TaxCode): boolean {
+  return !code.is_exempt && code.components.length === 1 && code.components[0].name.toUpperCase() === 'GST';
+}
+
+/** An amount and the code it's taxed under. Expenses pass receiptGst (0 when none was recorded). */
+export type TaxableItem = { amount: number; code: TaxCode; receiptGst?: number };
+
+/**
+ * Tax by component over a set of labour and expense amounts. When any GST-only expense has receipt
+ * GST recorded, GST on GST-only expenses is the receipt GST rather than the rate.
+ */
+export function computeTaxBreakdown(items: TaxableItem[], ticketCode: TaxCode): TaxBreakdown {
+  const useReceiptGst = items.some((i) => i.receiptGst !== undefined && (Number(i.receiptGst) || 0) > 0 && isGstOnly(i.code));
+  const byKey = new Map<string, TaxLine>();
+  for (const item of items) {
+    if (item.code.is_exempt || !item.amount) continue;
+    for (const c of item.code.components) {
+      const fromReceipts = useReceiptGst && item.receiptGst !== undefined && isGstOnly(item.code);
+      const amount = fromReceipts ? Number(item.receiptGst) || 0 : item.amount * (Number(c.rate) || 0);
+      const key = `${c.name}|${c.rate}`;
+      const line = byKey.get(key) ?? { name: c.name, rate: Number(c.rate) || 0, base: 0, amount: 0 };
+      line.base += item.amount;
+      line.amount += amount;
+      if (fromReceipts) line.fromReceipts = true;
+      byKey.set(key, line);
+    }
+  }
+  const lines = [...byKey.values()]
+    .map((l) => ({ ...l, base: r2(l.base), amount: r2(l.amount) }))
+    .filter((l) => l.amount !== 0 || l.base !== 0);
+  return {
+    lines,
+    total: r2(lines.reduce((sum, l) => sum + l.amount, 0)),
+    exemptNote: ticketCode.is_exempt ? ticketCode.exempt_note?.trim() || `${ticketCode.name}: no tax charged` : null,
+  };
+}
+
+/** Labour plus each expense of one ticket, coded for computeTaxBreakdown. */
+export function ticketTaxableItems(
+  settings: TaxSettings,
+  ticketCode: TaxCode,
+  labourAmount: number,
+  expenses: Array<{ expense_type?: string; quantity: number; rate: number; gst?: number }>
+): TaxableItem[] {
+  return [
+    { amount: labourAmount, code: ticketCode },
+    ...expenses.map((e) => ({
+      amount: (Number(e.quantity) || 0) * (Number(e.rate) || 0),
+      code: resolveExpenseTaxCode(settings, ticketCode, e.expense_type),
+      receiptGst: Number(e.gst) || 0,
+    })),
+  ];
+}
+
+/** TaxCodeRef for a QuickBooks invoice line taxed under this code. */
+export function qboTaxCodeFor(code: TaxCode): string {
+  return code.qbo_tax_code?.trim() || code.code;
+}
+
+/** Components as typed in the editor ("PST", "7") → stored components; blank rows dropped. */
+export function parseTaxComponents(rows: Array<{ name: string; percent: string }>): TaxComponent[] {
+  return rows
+    .map((r) => ({ name: r.name.trim(), rate: Math.round((Number(r.percent) || 0) * 1000) / 100000 }))
+    .filter((c) => c.name && c.rate > 0);
+}
@@ -0,0 +1,386 @@
+import * as XLSX from 'xlsx';
+import { formatYmd } from './payPeriod';
+import { CostCode, costCodeLabel, costCodeRequired } from './costCodes';
+
+/**
+ * Bulk time entry import (Data → Import Hours): read a CSV/XLSX sheet, map its columns to
+ * time_entries fields, resolve employees / customers / projects by name or number, and validate
+ * each row before the batch is committed. Pure functions; saving is timeEntryImportsService.
+ */
+
+export type ImportField =
+  | 'employee'
+  | 'date'
+  | 'start_time'
+  | 'end_time'
+  | 'hours'
+  | 'customer'
+  | 'project'
+  | 'cost_code'
+  | 'description'
+  | 'rate_type'
+  | 'billable'
+  | 'location'
+  | 'approver'
+  | 'po_afe'
+  | 'cc'
+  | 'other';
+
+export const IMPORT_FIELDS: { key: ImportField; label: string; required?: boolean; hint?: string; aliases: string[] }[] = [
+  { key: 'employee', label: 'Employee', required: true, hint: 'Name, email or employee ID', aliases: ['employee', 'name', 'employee name', 'worker', 'technician', 'email', 'employee id', 'employee #', 'emp id'] },
+  { key: 'date', label: 'Date', required: true, aliases: ['date', 'work date', 'day', 'entry date'] },
+  { key: 'start_time', label: 'Start time', aliases: ['start', 'start time', 'time in', 'in', 'from'] },
+  { key: 'end_time', label: 'End time', aliases: ['end', 'end time', 'time out', 'out', 'to', 'finish'] },
+  { key: 'hours', label: 'Hours', hint: 'Needed unless start and end are given', aliases: ['hours', 'hrs', 'duration', 'total hours', 'qty', 'quantity'] },
+  { key: 'customer', label: 'Customer', hint: 'Name; optional when the project is unique', aliases: ['customer', 'client', 'customer name', 'client name'] },
+  { key: 'project', label: 'Project', hint: 'Project number or name', aliases: ['project', 'project number', 'project #', 'job', 'job number', 'job #', 'project name'] },
+  { key: 'cost_code', label: 'Phase / cost code', hint: 'Code or "code name" on the project', aliases: ['phase', 'phase code', 'phase / cost code', 'task code'] },
+  { key: 'description', label: 'Description', aliases: ['description', 'notes', 'work performed', 'details', 'comment', 'comments'] },
+  { key: 'rate_type', label: 'Rate type', aliases: ['rate type', 'type', 'labour type', 'labor type'] },
+  { key: 'billable', label: 'Billable', aliases: ['billable', 'bill'] },
+  { key: 'location', label: 'Location', aliases: ['location', 'site'] },
+  { key: 'approver', label: 'Approver', aliases: ['approver', 'approved by'] },
+  { key: 'po_afe', label: 'PO/AFE', aliases: ['po', 'afe', 'po/afe', 'po afe', 'po number'] },
+  { key: 'cc', label: 'CC', aliases: ['cc', 'cost code', 'cost center'] },
+  { key: 'other', label: 'Other', aliases: ['other'] },
+];
+
+export const IMPORT_RATE_TYPES = ['Internal', 'Shop Time', 'Shop Overtime', 'Travel Time', 'Field Time', 'Field Overtime'];
+
+/** Batches larger than this are refused; split the file instead. */
+export const MAX_IMPORT_ROWS = 2000;
+
+export type ParsedSheet = {
+  headers: string[];
+  rows: unknown[][];
+  /** Spreadsheet row number of each entry in rows (blank rows are skipped, so not always consecutive). */
+  rowNumbers: number[];
+};
+
+/** Column index per field; missing = not in the file. */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type DateOrder = 'YMD' | 'MDY' | 'DMY';
+
+export type ImportLookups = { employees: any[]; projects: any[]; customers: any[]; costCodes: CostCode[] };
+
+export type ImportRow = {
+  /** Row number in the spreadsheet, as Excel shows it. */
+  rowNumber: number;
+  /** time_entries insert, or null when the row has errors. */
+  entry: Record<string, any> | null;
+  employeeName: string;
+  projectLabel: string;
+  errors: string[];
+  warnings: string[];
+  /** Same entry earlier in the file, or already saved for that employee. */
+  duplicate: 'file' | 'existing' | null;
+};
+
+const normalize = (value: unknown) => String(value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** First sheet of a CSV or XLSX file. CSV cells stay text so dates aren't guessed in US order. */
+export async function readImportFile(file: File): Promise<ParsedSheet> {
+  const isCsv = /\.(csv|txt)$/i.test(file.name);
+  const workbook = isCsv
+    ? XLSX.read(await file.text(), { type: 'string', raw: true })
+    : XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: false });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error('The file has no sheets.');
+  const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '', blankrows: true });
+  // The table starts at the sheet's first used row, which isn't always row 1.
+  const firstRow = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s.r + 1 : 1;
+  const nonEmpty = table
+    .map((row, i) => ({ row, rowNumber: firstRow + i }))
+    .filter(({ row }) => row.some((cell) => String(cell ?? '').trim() !== ''));
+  if (nonEmpty.length < 2) throw new Error('The file needs a header row and at least one row of hours.');
+  const [header, ...rows] = nonEmpty;
+  return {
+    headers: header.row.map((h) => String(h ?? '').trim()),
+    rows: rows.map((r) => r.row),
+    rowNumbers: rows.map((r) => r.rowNumber),
+  };
+}
+
+/** Match headers to fields by their usual names. */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const taken = new Set<number>();
+  for (const field of IMPORT_FIELDS) {
+    const index = headers.findIndex((h, i) => !taken.has(i) && field.aliases.includes(normalize(h).replace(/[:.]$/, '')));
+    if (index >= 0) {
+      mapping[field.key] = index;
+      taken.add(index);
+    }
+  }
+  return mapping;
+}
+
+/** YYYY-MM-DD from an Excel serial, a YYYY-MM-DD string or a slashed date in the given order. */
+export function parseImportDate(value: unknown, order: DateOrder): string | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    const parsed = XLSX.SSF.parse_date_code(value);
+    return parsed ? formatYmd(new Date(parsed.y, parsed.m - 1, parsed.d)) : null;
+  }
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+  let y: number, m: number, d: number;
+  const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  const slashed = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+  if (iso) {
+    [y, m, d] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (slashed && order !== 'YMD') {
+    const [a, b] = [Number(slashed[1]), Number(slashed[2])];
+    y = Number(slashed[3]) < 100 ? 2000 + Number(slashed[3]) : Number(slashed[3]);
+    [m, d] = order === 'MDY' ? [a, b] : [b, a];
+  } else {
+    return null;
+  }
+  const date = new Date(y, m - 1, d);
+  if (date.getFullYear() !== y || date.getMonth() !== m - 1 || date.getDate() !== d) return null;
+  return formatYmd(date);
+}
+
+/** Minutes after midnight from a time cell (fraction of a day), "14:30", "2:30 PM" or "1430". */
+export function parseImportTime(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    const fraction = value % 1;
+    return Math.round(fraction * 24 * 60) % (24 * 60);
+  }
+  const text = String(value ?? '').trim().toLowerCase();
+  if (!text) return null;
+  const match = text.match(/^(\d{1,2})(?::?(\d{2}))?(?::\d{2})?\s*(am|pm|a|p)?$/);
+  if (!match) return null;
+  let hour = Number(match[1]);
+  const minute = Number(match[2] ?? 0);
+  const meridiem = match[3];
+  if (minute > 59) return null;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    if (meridiem.startsWith('p') && hour !== 12) hour += 12;
+    if (meridiem.startsWith('a') && hour === 12) hour = 0;
+  } else if (hour > 23) {
+    return null;
+  }
+  return hour * 60 + minute;
+}
+
+/** Hours from a number, "7.5", "7,5" or "7:30". */
+export function parseImportHours(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+  const hm = text.match(/^(\d+):(\d{2})$/);
+  if (hm) return Number(hm[1]) + Number(hm[2]) / 60;
+  const n = Number(text.replace(',', '.').replace(/\s*h(rs?|ours?)?$/i, ''));
+  return Number.isFinite(n) ? n : null;
+}
+
+function parseBillable(value: unknown): boolean | null {
+  const text = normalize(value);
+  if (!text) return null;
+  if (['y', 'yes', 'true', '1', 'billable', 'x'].includes(text)) return true;
+  if (['n', 'no', 'false', '0', 'non-billable', 'internal'].includes(text)) return false;
+  return null;
+}
+
+function employeeKeys(emp: any): string[] {
+  const first = emp.user?.first_name ?? '';
+  const last = emp.user?.last_name ?? '';
+  return [emp.employee_id, emp.user?.email, `${first} ${last}`, `${last}, ${first}`, `${last} ${first}`]
+    .map(normalize)
+    .filter((k) => k && k !== ',');
+}
+
+function projectKeys(project: any): string[] {
+  const number = normalize(project.project_number);
+  const name = normalize(project.name);
+  return [number, name, number && `${number} - ${name}`, number && `${number} ${name}`].filter(Boolean) as string[];
+}
+
+/** Project label as shown in pickers. */
+export function formatImportProject(project: any): string {
+  return project.project_number ? `${project.project_number} – ${project.name}` : project.name;
+}
+
+/**
+ * Turn sheet rows into validated time entry inserts. Rows with errors have `entry: null`.
+ * Duplicates are flagged afterwards by markImportDuplicates.
+ */
+export function buildImportRows(
+  sheet: ParsedSheet,
+  mapping: ColumnMapping,
+  lookups: ImportLookups,
+  opts: { dateOrder: DateOrder; isDemo: boolean }
+): ImportRow[] {
+  const employeesByKey = new Map<string, any[]>();
+  for (const emp of lookups.employees) {
+    if (!emp.user_id) continue;
+    for (const key of employeeKeys(emp)) employeesByKey.set(key, [...(employeesByKey.get(key) ?? []), emp]);
+  }
+  const customersByName = new Map<string, any[]>();
+  for (const c of lookups.customers) {
+    const key = normalize(c.name);
+    customersByName.set(key, [...(customersByName.get(key) ?? []), c]);
+  }
+
+  const cell = (row: unknown[], field: ImportField) => (mapping[field] === undefined ? '' : row[mapping[field]!]);
+  const text = (row: unknown[], field: ImportField) => String(cell(row, field) ?? '').trim();
+
+  return sheet.rows.map((row, i) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    // Employee
+    const employeeText = text(row, 'employee');
+    const employeeMatches = employeeText ? employeesByKey.get(normalize(employeeText)) ?? [] : [];
+    const uniqueEmployees = [...new Set(employeeMatches)];
+    const employee = uniqueEmployees.length === 1 ? uniqueEmployees[0] : null;
+    if (!employeeText) errors.push('Employee is blank');
+    else if (uniqueEmployees.length === 0) errors.push(`No employee matches "${employeeText}"`);
+    else if (uniqueEmployees.length > 1) errors.push(`"${employeeText}" matches ${uniqueEmployees.length} employees; use the email or employee ID`);
+    const employeeName = employee ? `${employee.user?.first_name ?? ''} ${employee.user?.last_name ?? ''}`.trim() || employee.user?.email : employeeText;
+
+    // Customer and project
+    const customerText = text(row, 'customer');
+    let customer: any = null;
+    if (customerText) {
+      const matches = customersByName.get(normalize(customerText)) ?? [];
+      if (matches.length === 1) customer = matches[0];
+      else if (matches.length === 0) errors.push(`No customer named "${customerText}"`);
+      else errors.push(`"${customerText}" matches ${matches.length} customers`);
+    }
+    const projectText = text(row, 'project');
+    let project: any = null;
+    if (projectText) {
+      const key = normalize(projectText).replace(/\s*[–—]\s*/g, ' - ');
+      const pool = customer ? lookups.projects.filter((p) => p.customer_id === customer.id) : lookups.projects;
+      const matches = pool.filter((p) => projectKeys(p).includes(key));
+      if (matches.length === 1) project = matches[0];
+      else if (matches.length === 0) errors.push(`No project matches "${projectText}"${customer ? ` for ${customer.name}` : ''}`);
+      else errors.push(`"${projectText}" matches ${matches.length} projects; add the customer or use the project number`);
+    }
+    if (project && !customer) customer = lookups.customers.find((c) => c.id === project.customer_id) ?? null;
+
+    // Phase / cost code, on the project
+    const costCodeText = text(row, 'cost_code');
+    const projectCodes = project ? lookups.costCodes.filter((c) => c.project_id === project.id) : [];
+    let costCode: CostCode | null = null;
+    if (costCodeText) {
+      const key = normalize(costCodeText);
+      const matches = projectCodes.filter((c) => normalize(c.code) === key || normalize(costCodeLabel(c)) === key);
+      if (!project) warnings.push('Phase / cost code is ignored without a project');
+      else if (matches.length === 1) costCode = matches[0];
+      else errors.push(`No phase / cost code "${costCodeText}" on ${formatImportProject(project)}`);
+    } else if (project && costCodeRequired(project, projectCodes)) {
+      errors.push(`${formatImportProject(project)} requires a phase / cost code`);
+    }
+
+    // Date, times and hours
+    const date = parseImportDate(cell(row, 'date'), opts.dateOrder);
+    if (!date) errors.push(text(row, 'date') || typeof cell(row, 'date') === 'number' ? `Can't read the date "${text(row, 'date')}"` : 'Date is blank');
+    const startText = text(row, 'start_time');
+    const endText = text(row, 'end_time');
+    const startMin = startText ? parseImportTime(cell(row, 'start_time')) : null;
+    const endMin = endText ? parseImportTime(cell(row, 'end_time')) : null;
+    if (startText && startMin === null) errors.push(`Can't read the start time "${startText}"`);
+    if (endText && endMin === null) errors.push(`Can't read the end time "${endText}"`);
+    const hoursText = text(row, 'hours');
+    let hours = hoursText ? parseImportHours(cell(row, 'hours')) : null;
+    if (hoursText && hours === null) errors.push(`Can't read the hours "${hoursText}"`);
+
+    let startTime: string | null = null;
+    let endTime: string | null = null;
+    if (date && startMin !== null) {
+      const [y, m, d] = date.split('-').map(Number);
+      const start = new Date(y, m - 1, d, Math.floor(startMin / 60), startMin % 60);
+      let end: Date | null = null;
+      if (endMin !== null) {
+        // End before start = worked past midnight
+        end = new Date(y, m - 1, d + (endMin <= startMin ? 1 : 0), Math.floor(endMin / 60), endMin % 60);
+        const spanHours = (end.getTime() - start.getTime()) / (60 * 60 * 1000);
+        if (hours !== null && Math.abs(hours - spanHours) > 1 / 60) {
+          warnings.push(`Hours (${hours}) don't match ${startText}–${endText}; using ${spanHours.toFixed(2)}`);
+        }
+        hours = spanHours;
+      } else if (hours !== null) {
+        end = new Date(start.getTime() + hours * 60 * 60 * 1000);
+      }
+      startTime = start.toISOString();
+      endTime = end ? end.toISOString() : null;
+    } else if (endMin !== null && startMin === null) {
+      warnings.push('End time without a start time is ignored');
+    }
+    if (hours === null && !hoursText) errors.push('Hours are blank (and there is no start and end time)');
+    else if (hours !== null && (hours <= 0 || hours > 24)) errors.push(`Hours must be more than 0 and at most 24 (got ${Math.round(hours * 100) / 100})`);
+
+    // Rate type and billable
+    const rateText = text(row, 'rate_type');
+    let rateType = project ? 'Shop Time' : 'Internal';
+    if (rateText) {
+      const match = IMPORT_RATE_TYPES.find((r) => normalize(r) === normalize(rateText));
+      if (match) rateType = match;
+      else warnings.push(`Unknown rate type "${rateText}"; using ${rateType}`);
+    }
+    if (!project && rateType !== 'Internal') {
+      warnings.push('No project, so the entry is saved as Internal time');
+      rateType = 'Internal';
+    }
+    const billableText = text(row, 'billable');
+    const billableValue = parseBillable(cell(row, 'billable'));
+    if (billableText && billableValue === null) warnings.push(`Can't read billable "${billableText}"; using the rate type`);
+    const billable = !!project && (billableValue ?? rateType !== 'Internal');
+
+    const entry =
+      errors.length === 0 && employee && date && hours !== null
+        ? {
+            user_id: employee.user_id,
+            date,
+            start_time: startTime,
+            end_time: endTime,
+            hours: Math.round(hours * 10000) / 10000,
+            rate: 0,
+            description: text(row, 'description') || null,
+            billable,
+            rate_type: rateType,
+            is_demo: opts.isDemo,
+            customer_id: customer?.id ?? null,
+            project_id: project?.id ?? null,
+            cost_code_id: costCode?.id ?? null,
+            location: text(row, 'location') || null,
+            approver: text(row, 'approver') || null,
+            po_afe: text(row, 'po_afe') || null,
+            cc: text(row, 'cc') || null,
+            other: text(row, 'other') || null,
+          }
+        : null;
+
+    return {
+      rowNumber: sheet.rowNumbers[i] ?? i + 2,
+      entry,
+      employeeName,
+      projectLabel: project ? `${formatImportProject(project)}${costCode ? ` · ${costCode.code}` : ''}` : projectText || 'Internal',
+      errors,
+      warnings,
+      duplicate: null,
+    };
+  });
+}
+
+function duplicateKey(entry: Record<string, any>): string {
+  const start = entry.start_time ? new Date(entry.start_time).toISOString().slice(0, 16) : '';
+  return [entry.user_id, String(entry.date).slice(0, 10), start, Number(entry.hours).toFixed(2), entry.project_id ?? ''].join('|');
+}
+
+/** Flag rows that repeat an earlier row of the file or an entry already saved for the employee. */
+export function markImportDuplicates(rows: ImportRow[], existing: any[]): ImportRow[] {
+  const saved = new Set(existing.map(duplicateKey));
+  const seen = new Set<string>();
+  return rows.map((row) => {
+    if (!row.entry) return row;
+    const key = duplicateKey(row.entry);
+    const duplicate = saved.has(key) ? 'existing' : seen.has(key) ? 'file' : null;
+    seen.add(key);
+    return { ...row, duplicate };
+  });
+}
@@ -0,0 +1,153 @@
+import { formatYmd } from './payPeriod';
+import { getEntryHoursOnDate } from './timeEntryUtils';
+
+/** Row from `timers`: one running or paused timer, shared by every device the user is signed in on. */
+export type TimerRow = {
+  id: string;
+  user_id: string;
+  description: string;
+  project_id: string | null;
+  cost_code_id: string | null;
+  rate_type: string;
+  location: string | null;
+  approver: string | null;
+  po_afe: string | null;
+  cc: string | null;
+  other: string | null;
+  status: 'running' | 'paused';
+  started_at: string;
+  paused_elapsed_ms: number;
+  is_demo: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+/** Fields a timer carries into the time entry it creates (header row 2). */
+export type TimerDetails = {
+  costCodeId?: string | null;
+  rateType?: string;
+  location?: string | null;
+  approver?: string | null;
+  poAfe?: string | null;
+  cc?: string | null;
+  other?: string | null;
+};
+
+/** When a running timer is flagged as possibly forgotten (users.timer_max_hours / timer_midnight_check). */
+export type TimerLimits = {
+  /** Hours on the clock before asking; null = never. */
+  maxHours: number | null;
+  /** Ask once a timer started on an earlier day is still running. */
+  midnightCheck: boolean;
+};
+
+export const DEFAULT_TIMER_LIMITS: TimerLimits = { maxHours: 10, midnightCheck: true };
+
+export function timerLimitsFromProfile(profile: { timer_max_hours?: number | string | null; timer_midnight_check?: boolean | null } | null | undefined): TimerLimits {
+  if (!profile) return DEFAULT_TIMER_LIMITS;
+  const maxHours = profile.timer_max_hours == null ? null : Number(profile.timer_max_hours);
+  return {
+    maxHours: maxHours != null && Number.isFinite(maxHours) && maxHours > 0 ? maxHours : null,
+    midnightCheck: profile.timer_midnight_check !== false,
+  };
+}
+
+export type TimerAlert = 'over_limit' | 'past_midnight';
+
+/** Why a running timer looks forgotten, or null. Paused timers aren't adding time and are never flagged. */
+export function timerAlert(timer: TimerRow, limits: TimerLimits, now: number = Date.now()): TimerAlert | null {
+  if (timer.status !== 'running') return null;
+  if (limits.maxHours != null && timerElapsedMs(timer, now) > limits.maxHours * 60 * 60 * 1000) return 'over_limit';
+  if (limits.midnightCheck && formatYmd(new Date(timer.started_at)) !== formatYmd(new Date(now))) return 'past_midnight';
+  return null;
+}
+
+/** Local midnight at the start of the day containing `d`. */
+export function startOfLocalDay(d: Date): Date {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+/** Milliseconds on the clock: now - started_at while running, the frozen value while paused. */
+export function timerElapsedMs(timer: Pick<TimerRow, 'status' | 'started_at' | 'paused_elapsed_ms'>, now: number = Date.now()): number {
+  if (timer.status === 'paused') return Number(timer.paused_elapsed_ms) || 0;
+  return Math.max(0, now - new Date(timer.started_at).getTime());
+}
+
+/** H:MM:SS, as shown in the header. */
+export function formatTimerDisplay(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Time entry for a stopped timer. The entry ends at `endedAt` and starts its elapsed time earlier,
+ * so paused time is left out. No project = internal time, not billable.
+ */
+export function timerToTimeEntry(
+  timer: TimerRow,
+  project: { rate?: number | null; customer_id?: string | null } | null,
+  endedAt: Date
+) {
+  const elapsedMs = timerElapsedMs(timer, endedAt.getTime());
+  const startTime = new Date(endedAt.getTime() - elapsedMs);
+  const billable = !!timer.project_id;
+  return {
+    user_id: timer.user_id,
+    project_id: timer.project_id,
+    cost_code_id: timer.project_id ? timer.cost_code_id ?? null : null,
+    customer_id: project?.customer_id ?? null,
+    date: formatYmd(startTime),
+    start_time: startTime.toISOString(),
+    end_time: endedAt.toISOString(),
+    hours: elapsedMs / (1000 * 60 * 60),
+    rate: Number(project?.rate) || 0,
+    billable,
+    rate_type: billable ? timer.rate_type || 'Shop Time' : 'Internal',
+    description: timer.description || null,
+    location: timer.location || null,
+    approver: timer.approver?.trim() || null,
+    po_afe: timer.po_afe?.trim() || null,
+    cc: timer.cc?.trim() || null,
+    other: timer.other?.trim() || null,
+    is_demo: timer.is_demo,
+  };
+}
+
+/**
+ * Split an entry that crosses midnight into one entry per calendar day, each clipped to its day
+ * with hours from getEntryHoursOnDate. An entry within one day is returned as is.
+ */
+export function splitEntryByDay<T extends { date: string; start_time: string; end_time: string; hours: number }>(entry: T): T[] {
+  const start = new Date(entry.start_time);
+  const end = new Date(entry.end_time);
+  if (formatYmd(start) === formatYmd(end)) return [entry];
+  const parts: T[] = [];
+  for (let day = startOfLocalDay(start); day < end; ) {
+    const next = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+    const date = formatYmd(day);
+    const hours = getEntryHoursOnDate(entry, date);
+    if (hours > 0) {
+      parts.push({
+        ...entry,
+        date,
+        start_time: new Date(Math.max(start.getTime(), day.getTime())).toISOString(),
+        end_time: new Date(Math.min(end.getTime(), next.getTime())).toISOString(),
+        hours,
+      });
+    }
+    day = next;
+  }
+  return parts.length > 0 ? parts : [entry];
+}
+
+/** Time entries for a stopped timer: one per calendar day it ran on. */
+export function timerToTimeEntries(
+  timer: TimerRow,
+  project: { rate?: number | null; customer_id?: string | null } | null,
+  endedAt: Date
+) {
+  return splitEntryByDay(timerToTimeEntry(timer, project, endedAt));
+}
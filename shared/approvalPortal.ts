@@ -0,0 +1,157 @@
+import type { ServiceTicket } from './serviceTickets';
+
+/**
+ * Customer approver portal: a login-free link (/approve/<token>) where the customer's approver
+ * reviews one Portal Approval batch, approves or rejects each ticket and signs. Shared by the
+ * backend (/api/approval-portal) and the pages so both validate a submission the same way.
+ *
+ * The link carries a snapshot of the batch as it was sent (tickets, expenses, rate notes), so the
+ * approver signs exactly what they were shown and their browser can rebuild the same PDFs with
+ * the signature stamped in. Only a SHA-256 of the token is stored.
+ */
+
+export type PortalDecision = 'approved' | 'rejected';
+
+/** Whole-batch result: any rejected ticket sends the batch back for adjustment. */
+export type PortalOutcome = 'approved' | 'changes_requested';
+
+export type PortalLinkStatus = 'open' | 'expired' | 'revoked' | PortalOutcome;
+
+export type PortalSignatureKind = 'drawn' | 'typed';
+
+/** Signature stamped into the Customer Signature box of the ticket and summary PDFs. */
+export interface PortalSignature {
+  kind: PortalSignatureKind;
+  /** PNG data URL for a drawn signature, the typed name otherwise. */
+  data: string;
+  signerName: string;
+  signedAt: string;
+}
+
+export type PortalExpense = { expense_type: string; description: string; quantity: number; rate: number; unit?: string };
+
+/** A ticket as sent for approval; recordId is the service_tickets.id the decision is saved against. */
+export type PortalTicket = ServiceTicket & { recordId?: string; headerOverrides?: unknown };
+
+export interface PortalBatchSnapshot {
+  customerName: string;
+  projectLabel: string;
+  periodLabel: string;
+  /** Approval batch filename without .pdf, e.g. "J Smith - March 2026 (26012)". */
+  batchLabel: string;
+  tickets: Array<{ ticket: PortalTicket; expenses: PortalExpense[] }>;
+  labourNotes?: Record<string, string>;
+}
+
+export interface PortalTicketDecision {
+  /** PortalTicket.recordId, or ticket.id for a ticket that has no saved record. */
+  ticketKey: string;
+  decision: PortalDecision;
+  note?: string | null;
+}
+
+/** Row from `approval_portal_links` as the Invoices page sees it (no token, no snapshot). */
+export interface PortalLink {
+  id: string;
+  group_id: string;
+  customer_name: string | null;
+  project_number: string | null;
+  batch_label: string | null;
+  approver_name: string | null;
+  approver_email: string | null;
+  created_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+  opened_at: string | null;
+  completed_at: string | null;
+  outcome: PortalOutcome | null;
+  signer_name: string | null;
+  signed_at: string | null;
+  status_advanced: boolean;
+}
+
+/** Largest drawn signature accepted (a PNG data URL); a pad-sized signature is well under this. */
+export const PORTAL_SIGNATURE_MAX_CHARS = 400_000;
+
+export const PORTAL_DEFAULT_EXPIRY_DAYS = 14;
+
+export const PORTAL_DECISION_LABELS: Record<PortalDecision, string> = {
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export const PORTAL_LINK_STATUS_LABELS: Record<PortalLinkStatus, string> = {
+  open: 'Waiting for approver',
+  expired: 'Expired',
+  revoked: 'Revoked',
+  approved: 'Approved and signed',
+  changes_requested: 'Changes requested',
+};
+
+export function portalLinkStatus(
+  link: Pick<PortalLink, 'revoked_at' | 'completed_at' | 'outcome' | 'expires_at'>,
+  now: Date = new Date()
+): PortalLinkStatus {
+  if (link.completed_at && link.outcome) return link.outcome;
+  if (link.revoked_at) return 'revoked';
+  if (new Date(link.expires_at).getTime() <= now.getTime()) return 'expired';
+  return 'open';
+}
+
+export function portalTicketKey(ticket: PortalTicket): string {
+  return ticket.recordId || ticket.id;
+}
+
+export function portalTicketLabel(ticket: PortalTicket): string {
+  return `${ticket.ticketNumber || ticket.id.slice(0, 8).toUpperCase()} (${ticket.date}, ${ticket.userName})`;
+}
+
+export function portalOutcome(decisions: PortalTicketDecision[]): PortalOutcome {
+  return decisions.some((d) => d.decision === 'rejected') ? 'changes_requested' : 'approved';
+}
+
+/**
+ * Checks a submission against the snapshot: one decision per ticket, a note on every rejection,
+ * a signer name and a signature. Returns the problems; empty means it can be saved.
+ */
+export function validatePortalSubmission(
+  snapshot: PortalBatchSnapshot,
+  submission: { decisions: PortalTicketDecision[]; signature: Pick<PortalSignature, 'kind' | 'data' | 'signerName'> }
+): string[] {
+  const problems: string[] = [];
+  const keys = new Set(snapshot.tickets.map((t) => portalTicketKey(t.ticket)));
+  const decided = new Set<string>();
+  for (const d of submission.decisions) {
+    if (!keys.has(d.ticketKey)) problems.push(`Unknown ticket ${d.ticketKey}.`);
+    else if (decided.has(d.ticketKey)) problems.push(`Ticket ${d.ticketKey} was decided twice.`);
+    if (d.decision !== 'approved' && d.decision !== 'rejected') problems.push(`Invalid decision for ticket ${d.ticketKey}.`);
+    if (d.decision === 'rejected' && !d.note?.trim()) problems.push('Add a note to every rejected ticket saying what needs to change.');
+    decided.add(d.ticketKey);
+  }
+  if ([...keys].some((k) => !decided.has(k))) problems.push('Approve or reject every ticket.');
+
+  const { kind, data, signerName } = submission.signature;
+  if (!signerName?.trim()) problems.push('Enter your name.');
+  if (kind === 'drawn') {
+    if (!/^data:image\/png;base64,[A-Za-z0-9+/=]+$/.test(data ?? '')) problems.push('Draw your signature.');
+    else if (data.length > PORTAL_SIGNATURE_MAX_CHARS) problems.push('The signature image is too large; clear it and sign again.');
+  } else if (kind === 'typed') {
+    if (!data?.trim()) problems.push('Type your signature.');
+    else if (data.trim().length > 100) problems.push('The typed signature is too long.');
+  } else {
+    problems.push('Invalid signature.');
+  }
+  return [...new Set(problems)];
+}
+
+/** Batch note for a rejection (invoiced_batch_marks snapshot `rejection.note`), one line per rejected ticket. */
+export function portalRejectionNote(snapshot: PortalBatchSnapshot, decisions: PortalTicketDecision[], signerName: string): string {
+  const byKey = new Map(snapshot.tickets.map((t) => [portalTicketKey(t.ticket), t.ticket]));
+  const lines = decisions
+    .filter((d) => d.decision === 'rejected')
+    .map((d) => {
+      const ticket = byKey.get(d.ticketKey);
+      return `${ticket ? portalTicketLabel(ticket) : d.ticketKey}: ${d.note?.trim() ?? ''}`;
+    });
+  return [`Rejected by ${signerName.trim()} in the approver portal.`, ...lines].join('\n');
+}
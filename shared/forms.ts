@@ -0,0 +1,284 @@
+/**
+ * Typed form definitions for /api/forms. Each form type declares its fields (type, required,
+ * limits) and an approval chain; the backend validates submissions against the definition and
+ * walks the chain on each decision, and the frontend renders the same fields in the Forms page.
+ *
+ * `forms.content` holds the validated values as JSON text. Approval steps are recorded in
+ * `form_approvals`; `forms.current_step` indexes the chain while the form is pending.
+ */
+
+import { LEAVE_TYPE_LABELS, LEAVE_TYPES, TIME_OFF_FORM_TYPE } from './leave';
+
+export type FormFieldType = 'text' | 'textarea' | 'number' | 'date' | 'select' | 'multiselect' | 'checkbox' | 'checklist';
+
+export interface FormFieldOption {
+  value: string;
+  label: string;
+}
+
+export interface FormField {
+  name: string;
+  label: string;
+  type: FormFieldType;
+  required?: boolean;
+  /** select / multiselect choices, or checklist items. */
+  options?: FormFieldOption[];
+  min?: number;
+  max?: number;
+  maxLength?: number;
+  help?: string;
+}
+
+/**
+ * Who acts on a step. A supervisor step is for the employee's supervisor (employees.supervisor_user_id);
+ * admins may act on any step, and an admin approval completes the chain.
+ */
+export type ApprovalRole = 'supervisor' | 'admin';
+
+export const APPROVAL_ROLE_LABELS: Record<ApprovalRole, string> = {
+  supervisor: 'Supervisor',
+  admin: 'Admin',
+};
+
+export interface FormDefinition {
+  type: string;
+  title: string;
+  description: string;
+  fields: FormField[];
+  approvalChain: ApprovalRole[];
+}
+
+/** Checklist answers (equipment checks). */
+export const CHECKLIST_RESULTS = ['ok', 'defect', 'na'] as const;
+export type ChecklistResult = (typeof CHECKLIST_RESULTS)[number];
+
+export const CHECKLIST_RESULT_LABELS: Record<ChecklistResult, string> = {
+  ok: 'OK',
+  defect: 'Defect',
+  na: 'N/A',
+};
+
+export type FormValue = string | number | boolean | string[] | Record<string, ChecklistResult>;
+export type FormValues = Record<string, FormValue>;
+
+export const FORM_STATUSES = ['pending', 'approved', 'rejected'] as const;
+export type FormStatus = (typeof FORM_STATUSES)[number];
+
+export const FORM_DECISIONS = ['approved', 'rejected'] as const;
+export type FormDecision = (typeof FORM_DECISIONS)[number];
+
+const opts = (...labels: string[]): FormFieldOption[] =>
+  labels.map((label) => ({ value: label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''), label }));
+
+export const FORM_DEFINITIONS: FormDefinition[] = [
+  {
+    type: 'jsa',
+    title: 'Job Safety Analysis',
+    description: 'Hazards and controls for the job, filled in on site before work starts.',
+    approvalChain: ['supervisor'],
+    fields: [
+      { name: 'date', label: 'Date', type: 'date', required: true },
+      { name: 'location', label: 'Site / location', type: 'text', required: true, maxLength: 200 },
+      { name: 'projectNumber', label: 'Project number', type: 'text', maxLength: 50 },
+      { name: 'jobDescription', label: 'Job description', type: 'textarea', required: true, maxLength: 2000 },
+      { name: 'hazards', label: 'Hazards identified', type: 'textarea', required: true, maxLength: 4000, help: 'One per line.' },
+      { name: 'controls', label: 'Controls in place', type: 'textarea', required: true, maxLength: 4000, help: 'One per line, matching the hazards.' },
+      {
+        name: 'ppe',
+        label: 'PPE required',
+        type: 'multiselect',
+        required: true,
+        options: opts('Hard hat', 'Safety glasses', 'Gloves', 'Hearing protection', 'High-vis vest', 'Safety boots', 'Fall protection', 'Arc flash PPE', 'Respirator'),
+      },
+      {
+        name: 'permits',
+        label: 'Permits',
+        type: 'multiselect',
+        options: opts('Hot work', 'Confined space', 'Lockout / tagout', 'Excavation', 'Working at heights'),
+      },
+      { name: 'crewCount', label: 'Crew on site', type: 'number', required: true, min: 1, max: 100 },
+      { name: 'briefed', label: 'Crew briefed on this JSA', type: 'checkbox', required: true },
+    ],
+  },
+  {
+    type: 'equipment-check',
+    title: 'Equipment Check',
+    description: 'Pre-use inspection of a vehicle, lift or tool. Anything marked Defect goes to the supervisor.',
+    approvalChain: ['supervisor'],
+    fields: [
+      { name: 'date', label: 'Date', type: 'date', required: true },
+      {
+        name: 'equipmentType',
+        label: 'Equipment',
+        type: 'select',
+        required: true,
+        options: opts('Vehicle', 'Scissor lift', 'Boom lift', 'Ladder', 'Power tools', 'Test equipment', 'Other'),
+      },
+      { name: 'unitId', label: 'Unit / asset ID', type: 'text', required: true, maxLength: 100 },
+      { name: 'hours', label: 'Odometer / hour meter', type: 'number', min: 0 },
+      {
+        name: 'checklist',
+        label: 'Inspection',
+        type: 'checklist',
+        required: true,
+        options: opts('Visual damage', 'Fluids and leaks', 'Tires / wheels', 'Lights and alarms', 'Controls and emergency stop', 'Guards and safety devices', 'Cords and plugs', 'Inspection tag current'),
+      },
+      { name: 'defects', label: 'Defect details', type: 'textarea', maxLength: 2000, help: 'Required when anything is marked Defect.' },
+      { name: 'safeToUse', label: 'Safe to use', type: 'checkbox' },
+    ],
+  },
+  {
+    type: TIME_OFF_FORM_TYPE,
+    title: 'Time Off',
+    description: 'Leave request, checked against the leave balance.',
+    approvalChain: ['supervisor', 'admin'],
+    fields: [
+      {
+        name: 'leaveType',
+        label: 'Leave type',
+        type: 'select',
+        required: true,
+        options: LEAVE_TYPES.map((t) => ({ value: t, label: LEAVE_TYPE_LABELS[t] })),
+      },
+      { name: 'startDate', label: 'First day', type: 'date', required: true },
+      { name: 'endDate', label: 'Last day', type: 'date', required: true },
+      { name: 'hoursPerDay', label: 'Hours per day', type: 'number', required: true, min: 0.5, max: 24 },
+      { name: 'reason', label: 'Reason', type: 'textarea', maxLength: 1000 },
+    ],
+  },
+];
+
+export function getFormDefinition(formType: string | null | undefined): FormDefinition | null {
+  return FORM_DEFINITIONS.find((d) => d.type === formType) ?? null;
+}
+
+/** Stored content as an object; null for legacy free-text content. */
+export function parseFormContent(content: unknown): Record<string, unknown> | null {
+  let raw: unknown = content;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  return raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>) : null;
+}
+
+const YMD = /^\d{4}-\d{2}-\d{2}$/;
+
+const isEmpty = (v: unknown): boolean =>
+  v === undefined || v === null || (typeof v === 'string' && v.trim() === '') || (Array.isArray(v) && v.length === 0);
+
+/**
+ * Check content against a definition. Returns the cleaned values (trimmed strings, numbers,
+ * known option values only; unknown keys dropped) and an error per field that failed.
+ */
+export function validateFormContent(
+  definition: FormDefinition,
+  content: unknown
+): { values: FormValues; errors: Record<string, string> } {
+  const values: FormValues = {};
+  const errors: Record<string, string> = {};
+  const raw = parseFormContent(content);
+  if (!raw) {
+    return { values, errors: { _form: 'Form content must be an object of field values.' } };
+  }
+
+  for (const field of definition.fields) {
+    const value = raw[field.name];
+    const allowed = new Set((field.options ?? []).map((o) => o.value));
+
+    if (field.type === 'checkbox') {
+      const checked = value === true || value === 'true';
+      if (field.required && !checked) errors[field.name] = `${field.label} must be checked.`;
+      values[field.name] = checked;
+      continue;
+    }
+
+    if (field.type === 'checklist') {
+      const answers = value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+      const cleaned: Record<string, ChecklistResult> = {};
+      const missing: string[] = [];
+      for (const item of field.options ?? []) {
+        const answer = answers[item.value];
+        if ((CHECKLIST_RESULTS as readonly unknown[]).includes(answer)) cleaned[item.value] = answer as ChecklistResult;
+        else missing.push(item.label);
+      }
+      if (field.required && missing.length > 0) errors[field.name] = `Answer every item (${missing.join(', ')}).`;
+      values[field.name] = cleaned;
+      continue;
+    }
+
+    if (isEmpty(value)) {
+      if (field.required) errors[field.name] = `${field.label} is required.`;
+      continue;
+    }
+
+    switch (field.type) {
+      case 'number': {
+        const n = typeof value === 'number' ? value : Number(value);
+        if (!Number.isFinite(n)) errors[field.name] = `${field.label} must be a number.`;
+        else if (field.min !== undefined && n < field.min) errors[field.name] = `${field.label} must be at least ${field.min}.`;
+        else if (field.max !== undefined && n > field.max) errors[field.name] = `${field.label} must be at most ${field.max}.`;
+        else values[field.name] = n;
+        break;
+      }
+      case 'date': {
+        const s = String(value).slice(0, 10);
+        if (!YMD.test(s) || Number.isNaN(new Date(`${s}T12:00:00`).getTime())) errors[field.name] = `${field.label} must be a date (YYYY-MM-DD).`;
+        else values[field.name] = s;
+        break;
+      }
+      case 'select': {
+        const s = String(value);
+        if (!allowed.has(s)) errors[field.name] = `${field.label} must be one of: ${(field.options ?? []).map((o) => o.label).join(', ')}.`;
+        else values[field.name] = s;
+        break;
+      }
+      case 'multiselect': {
+        const list = (Array.isArray(value) ? value : [value]).map(String);
+        const unknown = list.filter((v) => !allowed.has(v));
+        if (unknown.length > 0) errors[field.name] = `${field.label} has unknown choices: ${unknown.join(', ')}.`;
+        else values[field.name] = Array.from(new Set(list));
+        break;
+      }
+      default: {
+        const s = String(value).trim();
+        if (field.maxLength !== undefined && s.length > field.maxLength) errors[field.name] = `${field.label} is longer than ${field.maxLength} characters.`;
+        else values[field.name] = s;
+      }
+    }
+  }
+
+  // Cross-field rules that the field schema can't express.
+  if (definition.type === 'equipment-check') {
+    const checklist = (values.checklist ?? {}) as Record<string, ChecklistResult>;
+    if (Object.values(checklist).includes('defect') && isEmpty(values.defects)) {
+      errors.defects = 'Describe the defects marked on the inspection.';
+    }
+  }
+
+  return { values, errors };
+}
+
+/** Human-readable value for lists and the inbox. */
+export function formatFormValue(field: FormField, value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  const label = (v: string) => field.options?.find((o) => o.value === v)?.label ?? v;
+  switch (field.type) {
+    case 'checkbox':
+      return value ? 'Yes' : 'No';
+    case 'select':
+      return label(String(value));
+    case 'multiselect':
+      return Array.isArray(value) && value.length > 0 ? value.map((v) => label(String(v))).join(', ') : '—';
+    case 'checklist': {
+      const answers = value as Record<string, ChecklistResult>;
+      const defects = (field.options ?? []).filter((o) => answers[o.value] === 'defect').map((o) => o.label);
+      return defects.length > 0 ? `Defects: ${defects.join(', ')}` : 'All OK';
+    }
+    default:
+      return String(value);
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Leave (time off): request validation and accrual balances. Shared by the backend, which checks
+ * balances when a time-off form is submitted and writes `leave_days` when it is approved, and by
+ * the frontend (Profile balances, Employees policies, Payroll leave pay).
+ *
+ * Balances are in hours. Each employee has one `leave_policies` row per leave type: an opening
+ * balance as of a date, an accrual per hour worked after that date, and an optional cap on the
+ * balance (accrual stops while the balance is at the cap). Approved leave days draw it down.
+ */
+
+export const TIME_OFF_FORM_TYPE = 'time-off';
+
+export const LEAVE_TYPES = ['vacation', 'sick', 'personal', 'unpaid'] as const;
+export type LeaveType = (typeof LEAVE_TYPES)[number];
+
+export const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  vacation: 'Vacation',
+  sick: 'Sick',
+  personal: 'Personal',
+  unpaid: 'Unpaid',
+};
+
+/** Hours booked per leave day when the request doesn't say otherwise. */
+export const DEFAULT_LEAVE_HOURS_PER_DAY = 8;
+
+/** `content` of a time-off form (stored as JSON text in `forms.content`). */
+export interface TimeOffRequest {
+  leaveType: LeaveType;
+  startDate: string;
+  endDate: string;
+  hoursPerDay: number;
+  reason?: string;
+}
+
+/** Row from `leave_policies`. */
+export interface LeavePolicy {
+  id: string;
+  employee_id: string;
+  leave_type: LeaveType;
+  accrual_per_hour: number;
+  max_balance: number | null;
+  opening_balance: number;
+  balance_as_of: string;
+  is_paid: boolean;
+}
+
+/** Row from `leave_days` (one per weekday of an approved time-off form). */
+export interface LeaveDay {
+  id: string;
+  form_id: string;
+  employee_id: string;
+  user_id: string | null;
+  leave_type: LeaveType;
+  date: string;
+  hours: number;
+  is_paid: boolean;
+}
+
+export interface LeaveBalance {
+  leave_type: LeaveType;
+  /** Opening balance plus accrual, after the cap. */
+  earned: number;
+  /** Approved leave taken or booked on/after balance_as_of. */
+  used: number;
+  available: number;
+  max_balance: number | null;
+  is_paid: boolean;
+}
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+const YMD = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isLeaveType(value: unknown): value is LeaveType {
+  return typeof value === 'string' && (LEAVE_TYPES as readonly string[]).includes(value);
+}
+
+/** Parse a time-off form's content; null when it isn't a well-formed request. */
+export function parseTimeOffContent(content: unknown): TimeOffRequest | null {
+  let raw: any = content;
+  if (typeof content === 'string') {
+    try {
+      raw = JSON.parse(content);
+    } catch {
+      return null;
+    }
+  }
+  if (!raw || typeof raw !== 'object' || !isLeaveType(raw.leaveType)) return null;
+  if (!YMD.test(String(raw.startDate)) || !YMD.test(String(raw.endDate))) return null;
+  const hoursPerDay = raw.hoursPerDay === undefined ? DEFAULT_LEAVE_HOURS_PER_DAY : Number(raw.hoursPerDay);
+  return {
+    leaveType: raw.leaveType,
+    startDate: raw.startDate,
+    endDate: raw.endDate,
+    hoursPerDay,
+    reason: typeof raw.reason === 'string' ? raw.reason : undefined,
+  };
+}
+
+/** Problems with a request, as user-facing messages (empty when valid). */
+export function validateTimeOffRequest(request: TimeOffRequest): string[] {
+  const errors: string[] = [];
+  if (request.endDate < request.startDate) errors.push('End date must be on or after the start date.');
+  if (!(request.hoursPerDay > 0 && request.hoursPerDay <= 24)) errors.push('Hours per day must be between 0 and 24.');
+  if (request.endDate >= request.startDate && expandLeaveDays(request.startDate, request.endDate).length === 0) {
+    errors.push('The selected range has no weekdays.');
+  }
+  return errors;
+}
+
+/** Weekdays in [startDate, endDate] as YYYY-MM-DD (weekends are never booked as leave). */
+export function expandLeaveDays(startDate: string, endDate: string): string[] {
+  const days: string[] = [];
+  const d = new Date(`${startDate}T12:00:00Z`);
+  const end = new Date(`${endDate}T12:00:00Z`);
+  while (d <= end) {
+    const dow = d.getUTCDay();
+    if (dow !== 0 && dow !== 6) days.push(d.toISOString().slice(0, 10));
+    d.setUTCDate(d.getUTCDate() + 1);
+  }
+  return days;
+}
+
+/** Total hours a request books. */
+export function requestedLeaveHours(request: TimeOffRequest): number {
+  return round2(expandLeaveDays(request.startDate, request.endDate).length * request.hoursPerDay);
+}
+
+/**
+ * Balance for one policy. Walks the days from balance_as_of in order so the cap applies the way
+ * it does on a pay stub: hours worked accrue until the balance reaches max_balance, and leave
+ * taken frees room to accrue again. Leave booked in the future is subtracted up front.
+ */
+export function computeLeaveBalance(
+  policy: LeavePolicy,
+  /** Hours worked per date (YYYY-MM-DD). Dates before balance_as_of are ignored. */
+  hoursWorkedByDate: Map<string, number>,
+  /** Approved leave days of this policy's type. */
+  leaveDays: Pick<LeaveDay, 'date' | 'hours'>[]
+): LeaveBalance {
+  const asOf = String(policy.balance_as_of).slice(0, 10);
+  const cap = policy.max_balance === null || policy.max_balance === undefined ? Infinity : Number(policy.max_balance);
+  const rate = Number(policy.accrual_per_hour) || 0;
+
+  const usedByDate = new Map<string, number>();
+  for (const d of leaveDays) {
+    const date = String(d.date).slice(0, 10);
+    if (date < asOf) continue;
+    usedByDate.set(date, (usedByDate.get(date) || 0) + (Number(d.hours) || 0));
+  }
+  const dates = new Set<string>(usedByDate.keys());
+  for (const date of hoursWorkedByDate.keys()) if (date >= asOf) dates.add(date);
+
+  let balance = Math.min(Number(policy.opening_balance) || 0, cap);
+  let earned = balance;
+  let used = 0;
+  for (const date of Array.from(dates).sort()) {
+    const accrual = (hoursWorkedByDate.get(date) || 0) * rate;
+    const room = Math.max(0, cap - balance);
+    const credited = Math.min(accrual, room);
+    balance += credited;
+    earned += credited;
+    const taken = usedByDate.get(date) || 0;
+    balance -= taken;
+    used += taken;
+  }
+
+  return {
+    leave_type: policy.leave_type,
+    earned: round2(earned),
+    used: round2(used),
+    available: round2(balance),
+    max_balance: Number.isFinite(cap) ? cap : null,
+    is_paid: policy.is_paid,
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Customer and project rate cards: billing rates with effective dates, optionally for one employee
+ * position. Shared by groupEntriesIntoTickets (frontend pages and GET /api/service-tickets) so a
+ * ticket's rates and the note of where each came from are the same everywhere.
+ *
+ * A card applies to tickets dated effective_from..effective_to (inclusive; no end = open-ended), so
+ * a new card from Jan 1 only reprices work from Jan 1 on. For each rate the first match wins:
+ *   1. project card for the employee's position
+ *   2. project card for all positions
+ *   3. customer card for the employee's position
+ *   4. customer card for all positions
+ *   5. the project / customer Junior–Senior special rates
+ *   6. the employee's own rates
+ *   7. the default rates
+ * A card that sets a base rate but not its overtime rate bills overtime at 1.5× that base.
+ */
+
+export type RateKey = 'rt' | 'tt' | 'ft' | 'shop_ot' | 'field_ot';
+
+export const RATE_KEYS: RateKey[] = ['rt', 'tt', 'ft', 'shop_ot', 'field_ot'];
+
+export const RATE_KEY_LABELS: Record<RateKey, string> = {
+  rt: 'Shop',
+  tt: 'Travel',
+  ft: 'Field',
+  shop_ot: 'Shop OT',
+  field_ot: 'Field OT',
+};
+
+/** Row from `rate_cards`. Exactly one of customer_id / project_id is set. */
+export interface RateCard {
+  id?: string;
+  customer_id: string | null;
+  project_id: string | null;
+  /** Employee position the card applies to (e.g. 'Senior'); null = every position. */
+  position: string | null;
+  effective_from: string;
+  effective_to: string | null;
+  rt_rate: number | null;
+  tt_rate: number | null;
+  ft_rate: number | null;
+  shop_ot_rate: number | null;
+  field_ot_rate: number | null;
+  notes?: string | null;
+}
+
+export type TicketRates = Record<RateKey, number>;
+
+/** Where one ticket rate came from, e.g. "Project rate card from 2026-01-01 (Senior)". */
+export type RateSource = {
+  kind: 'project_card' | 'customer_card' | 'project' | 'customer' | 'employee' | 'default' | 'frozen';
+  label: string;
+  rateCardId?: string;
+};
+
+export type TicketRateSources = Record<RateKey, RateSource>;
+
+export const DEFAULT_RATE_SOURCE: RateSource = { kind: 'default', label: 'Default rate' };
+export const EMPLOYEE_RATE_SOURCE: RateSource = { kind: 'employee', label: 'Employee rate' };
+export const PROJECT_RATE_SOURCE: RateSource = { kind: 'project', label: 'Project special rate' };
+export const CUSTOMER_RATE_SOURCE: RateSource = { kind: 'customer', label: 'Customer special rate' };
+/** Rates frozen on a ticket approved before sources were recorded with them. */
+export const FROZEN_RATE_SOURCE: RateSource = { kind: 'frozen', label: 'Frozen when approved' };
+
+/** Sources of rates taken from the employee record, falling back to the defaults where it has none. */
+export function employeeRateSources(
+  employee?: { rt_rate?: number | null; tt_rate?: number | null; ft_rate?: number | null; shop_ot_rate?: number | null; field_ot_rate?: number | null } | null
+): TicketRateSources {
+  const source = (rate: number | null | undefined) => (rate != null ? EMPLOYEE_RATE_SOURCE : DEFAULT_RATE_SOURCE);
+  return {
+    rt: source(employee?.rt_rate),
+    tt: source(employee?.tt_rate),
+    ft: source(employee?.ft_rate),
+    shop_ot: source(employee?.shop_ot_rate),
+    field_ot: source(employee?.field_ot_rate),
+  };
+}
+
+export function rateCardAppliesOn(card: Pick<RateCard, 'effective_from' | 'effective_to'>, date: string): boolean {
+  return card.effective_from <= date && (!card.effective_to || card.effective_to >= date);
+}
+
+function samePosition(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Cards in effect for a ticket, most specific first. When two cards of the same tier overlap the
+ * date, the one that started later wins.
+ */
+export function applicableRateCards(
+  cards: RateCard[],
+  ticket: { date: string; projectId?: string | null; customerId?: string | null; position?: string | null }
+): RateCard[] {
+  const live = cards
+    .filter((c) => rateCardAppliesOn(c, ticket.date))
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+  const tier = (scope: 'project' | 'customer', positioned: boolean) =>
+    live.filter((c) => {
+      const inScope = scope === 'project' ? !!ticket.projectId && c.project_id === ticket.projectId : !!ticket.customerId && c.customer_id === ticket.customerId && !c.project_id;
+      if (!inScope) return false;
+      return positioned ? samePosition(c.position, ticket.position) : !c.position;
+    });
+  return [...tier('project', true), ...tier('project', false), ...tier('customer', true), ...tier('customer', false)];
+}
+
+/** The rates a card sets, with unset overtime rates at 1.5× the card's base rate. */
+export function rateCardRates(card: RateCard): Partial<TicketRates> {
+  const rates: Partial<TicketRates> = {};
+  if (card.rt_rate != null) rates.rt = Number(card.rt_rate);
+  if (card.tt_rate != null) rates.tt = Number(card.tt_rate);
+  if (card.ft_rate != null) rates.ft = Number(card.ft_rate);
+  if (card.shop_ot_rate != null) rates.shop_ot = Number(card.shop_ot_rate);
+  else if (rates.rt != null) rates.shop_ot = rates.rt * 1.5;
+  if (card.field_ot_rate != null) rates.field_ot = Number(card.field_ot_rate);
+  else if (rates.ft != null) rates.field_ot = rates.ft * 1.5;
+  return rates;
+}
+
+export function rateCardLabel(card: RateCard): string {
+  const scope = card.project_id ? 'Project' : 'Customer';
+  const range = card.effective_to ? `${card.effective_from} to ${card.effective_to}` : `from ${card.effective_from}`;
+  return `${scope} rate card ${range}${card.position ? ` (${card.position})` : ''}`;
+}
+
+/**
+ * Lays the applicable rate cards over rates already resolved from the legacy special rates,
+ * employee rates and defaults (`base` / `baseSources`).
+ */
+export function applyRateCards(
+  base: TicketRates,
+  baseSources: TicketRateSources,
+  cards: RateCard[],
+  ticket: { date: string; projectId?: string | null; customerId?: string | null; position?: string | null }
+): { rates: TicketRates; sources: TicketRateSources } {
+  const rates = { ...base };
+  const sources = { ...baseSources };
+  const settled = new Set<RateKey>();
+  for (const card of applicableRateCards(cards, ticket)) {
+    const cardRates = rateCardRates(card);
+    for (const key of RATE_KEYS) {
+      if (settled.has(key) || cardRates[key] == null) continue;
+      rates[key] = cardRates[key]!;
+      sources[key] = { kind: card.project_id ? 'project_card' : 'customer_card', label: rateCardLabel(card), rateCardId: card.id };
+      settled.add(key);
+    }
+  }
+  return { rates, sources };
+}
@@ -0,0 +1,141 @@
+-- Typed forms with approval chains (Forms page, /api/forms).
+-- Form types and their fields are defined in shared/forms.ts; the backend validates content
+-- against them and walks each type's approval chain (supervisor → admin). A supervisor step acts
+-- on forms from employees whose employees.supervisor_user_id is the reviewer. Admins can act on
+-- any step (so forms from employees without a supervisor go to them), and an admin approval
+-- completes the chain.
+
+ALTER TABLE public.employees
+  ADD COLUMN IF NOT EXISTS supervisor_user_id UUID REFERENCES public.users (id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.employees.supervisor_user_id IS
+  'User who approves this employee''s forms at the supervisor step. NULL = admins only.';
+
+CREATE INDEX IF NOT EXISTS idx_employees_supervisor_user_id ON public.employees (supervisor_user_id);
+
+ALTER TABLE public.forms
+  ADD COLUMN IF NOT EXISTS current_step INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.forms.current_step IS
+  'Index into the form type''s approval chain while pending; chain length once approved.';
+COMMENT ON COLUMN public.forms.content IS
+  'Field values as JSON text, validated against the form type''s definition (shared/forms.ts).';
+
+CREATE TABLE IF NOT EXISTS public.form_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id UUID NOT NULL REFERENCES public.forms (id) ON DELETE CASCADE,
+  step INTEGER NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('supervisor', 'admin')),
+  decision TEXT NOT NULL CHECK (decision IN ('approved', 'rejected', 'reopened')),
+  decided_by UUID REFERENCES public.users (id) ON DELETE SET NULL,
+  decided_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  notes TEXT
+);
+
+COMMENT ON TABLE public.form_approvals IS
+  'One row per decision on a form: which chain step, who decided and what. Written by the backend.';
+
+CREATE INDEX IF NOT EXISTS idx_form_approvals_form_id ON public.form_approvals (form_id, decided_at);
+
+ALTER TABLE public.form_approvals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage form_approvals"
+  ON public.form_approvals
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Employees can view approvals on own forms"
+  ON public.form_approvals
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.forms f
+    JOIN public.employees e ON e.id = f.employee_id
+    WHERE f.id = form_id AND e.user_id = auth.uid()
+  ));
+
+-- Submissions and decisions go through the backend (validation, approval chain, leave balances),
+-- so employees keep read access to their own forms but no longer write them directly.
+DROP POLICY IF EXISTS "Users can manage own forms" ON public.forms;
+DROP POLICY IF EXISTS "Employees can view own forms" ON public.forms;
+CREATE POLICY "Employees can view own forms"
+  ON public.forms
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.employees e
+    WHERE e.id = employee_id AND e.user_id = (select auth.uid())
+  ));
+
+-- One decision (or an admin's reopen, optionally followed by a new decision) applied in a single
+-- transaction: the approval rows, the time-off form's leave_days and the form's status all change
+-- together or not at all. The backend works out the new status, step and leave days; the form row
+-- is locked and must still be at p_expected_status / p_expected_step, so two reviewers deciding the
+-- same step can't both succeed. Closed-pay-period lock violations on leave_days roll it all back.
+CREATE OR REPLACE FUNCTION public.apply_form_decision(
+  p_form_id UUID,
+  p_expected_status TEXT,
+  p_expected_step INTEGER,
+  p_reopen BOOLEAN,
+  p_role TEXT,
+  p_decision TEXT,
+  p_decided_by UUID,
+  p_notes TEXT,
+  p_status TEXT,
+  p_current_step INTEGER,
+  p_leave_days JSONB
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+  v_step INTEGER;
+BEGIN
+  SELECT status, current_step INTO v_status, v_step
+  FROM public.forms
+  WHERE id = p_form_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Form not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_status IS DISTINCT FROM p_expected_status OR v_step IS DISTINCT FROM p_expected_step THEN
+    RAISE EXCEPTION 'This form was changed by someone else. Reload it and try again.' USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  IF p_reopen THEN
+    INSERT INTO public.form_approvals (form_id, step, role, decision, decided_by)
+    VALUES (p_form_id, v_step, 'admin', 'reopened', p_decided_by);
+    v_step := 0;
+  END IF;
+
+  IF p_reopen OR p_leave_days IS NOT NULL THEN
+    DELETE FROM public.leave_days WHERE form_id = p_form_id;
+  END IF;
+  IF p_leave_days IS NOT NULL THEN
+    INSERT INTO public.leave_days (form_id, employee_id, user_id, leave_type, date, hours, is_paid)
+    SELECT p_form_id, d.employee_id, d.user_id, d.leave_type, d.date, d.hours, d.is_paid
+    FROM jsonb_to_recordset(p_leave_days)
+      AS d(employee_id UUID, user_id UUID, leave_type TEXT, date DATE, hours NUMERIC, is_paid BOOLEAN);
+  END IF;
+
+  IF p_decision IS NOT NULL THEN
+    INSERT INTO public.form_approvals (form_id, step, role, decision, decided_by, notes)
+    VALUES (p_form_id, v_step, p_role, p_decision, p_decided_by, NULLIF(p_notes, ''));
+  END IF;
+
+  UPDATE public.forms
+  SET status = p_status,
+      current_step = p_current_step,
+      reviewed_by = CASE WHEN p_status <> 'pending' THEN p_decided_by WHEN p_reopen THEN NULL ELSE reviewed_by END,
+      reviewed_at = CASE WHEN p_status <> 'pending' THEN NOW() WHEN p_reopen THEN NULL ELSE reviewed_at END
+  WHERE id = p_form_id;
+END;
+$$;
+
+-- Backend only (service role): the approval chain and leave balances are checked there.
+REVOKE EXECUTE ON FUNCTION public.apply_form_decision(UUID, TEXT, INTEGER, BOOLEAN, TEXT, TEXT, UUID, TEXT, TEXT, INTEGER, JSONB)
+  FROM PUBLIC, anon, authenticated;
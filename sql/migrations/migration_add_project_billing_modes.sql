@@ -0,0 +1,86 @@
+-- Fixed-price and retainer billing (Projects → edit → Billing; billed from Invoices → Contracts).
+-- Hourly projects (the default) bill ticket labour at the ticket rates, as before. Fixed-price
+-- projects bill contract_amount through milestones and/or percent-complete progress claims.
+-- Retainers bill retainer_amount every month; ticket labour at the ticket rates draws it down
+-- and anything above it that month is billed as overage. On both, ticket batches on Invoices
+-- still carry expenses but no labour. Each fixed-price or retainer bill is a
+-- project_billing_claims row.
+
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS billing_type TEXT NOT NULL DEFAULT 'hourly';
+
+ALTER TABLE public.projects DROP CONSTRAINT IF EXISTS projects_billing_type_check;
+ALTER TABLE public.projects
+  ADD CONSTRAINT projects_billing_type_check CHECK (billing_type IN ('hourly', 'fixed', 'retainer'));
+
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS contract_amount NUMERIC(12, 2) CHECK (contract_amount IS NULL OR contract_amount >= 0),
+  ADD COLUMN IF NOT EXISTS percent_complete NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (percent_complete >= 0 AND percent_complete <= 100),
+  ADD COLUMN IF NOT EXISTS retainer_amount NUMERIC(12, 2) CHECK (retainer_amount IS NULL OR retainer_amount >= 0);
+
+COMMENT ON COLUMN public.projects.billing_type IS
+  'hourly = ticket labour × rate; fixed = contract_amount by milestone / percent complete; retainer = retainer_amount per month plus overage.';
+COMMENT ON COLUMN public.projects.contract_amount IS 'Fixed-price contract value, pre-tax.';
+COMMENT ON COLUMN public.projects.percent_complete IS
+  'Fixed-price progress (0-100). Profitability recognises contract_amount × percent_complete as revenue.';
+COMMENT ON COLUMN public.projects.retainer_amount IS
+  'Monthly retainer, pre-tax. Ticket labour at the ticket rates draws it down; the excess is billed as overage.';
+
+CREATE TABLE IF NOT EXISTS public.project_billing_milestones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects (id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount >= 0),
+  due_date DATE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.project_billing_milestones IS
+  'Billing schedule of a fixed-price project. A milestone is billed once a project_billing_claims row points at it.';
+
+CREATE INDEX IF NOT EXISTS idx_project_billing_milestones_project_id ON public.project_billing_milestones (project_id);
+
+CREATE TABLE IF NOT EXISTS public.project_billing_claims (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects (id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('milestone', 'progress', 'retainer')),
+  milestone_id UUID REFERENCES public.project_billing_milestones (id) ON DELETE SET NULL,
+  period_month DATE,
+  percent_complete NUMERIC(5, 2),
+  description TEXT NOT NULL DEFAULT '',
+  amount NUMERIC(12, 2) NOT NULL,
+  claim_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_by UUID REFERENCES public.users (id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT project_billing_claims_retainer_month_check CHECK (kind <> 'retainer' OR period_month IS NOT NULL)
+);
+
+COMMENT ON TABLE public.project_billing_claims IS
+  'Bills issued on fixed-price (milestone / progress) and retainer (one per month) projects, pre-tax.';
+COMMENT ON COLUMN public.project_billing_claims.period_month IS 'Retainer claims: first day of the month billed.';
+COMMENT ON COLUMN public.project_billing_claims.percent_complete IS 'Progress claims: percent complete billed up to.';
+
+CREATE INDEX IF NOT EXISTS idx_project_billing_claims_project_id ON public.project_billing_claims (project_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_project_billing_claims_milestone
+  ON public.project_billing_claims (milestone_id) WHERE milestone_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_project_billing_claims_retainer_month
+  ON public.project_billing_claims (project_id, period_month) WHERE kind = 'retainer';
+
+ALTER TABLE public.project_billing_milestones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_billing_claims ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage project_billing_milestones"
+  ON public.project_billing_milestones
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admins manage project_billing_claims"
+  ON public.project_billing_claims
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
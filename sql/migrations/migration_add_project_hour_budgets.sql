@@ -0,0 +1,58 @@
+-- Hour budgets per project (Projects → edit → Budget; tracked on Profitability).
+-- Hours are budgeted per rate category: Field (Field Time/Overtime), Travel, and Shop (Shop
+-- Time/Overtime and internal time). budget_hours is the overall budget; when NULL it is the sum of
+-- the category budgets. Crossing 75/90/100% of it raises an alert on Profitability until an
+-- admin acknowledges it (one project_budget_alerts row per threshold).
+
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS budget_hours NUMERIC(10, 2) CHECK (budget_hours IS NULL OR budget_hours > 0),
+  ADD COLUMN IF NOT EXISTS budget_hours_field NUMERIC(10, 2) CHECK (budget_hours_field IS NULL OR budget_hours_field >= 0),
+  ADD COLUMN IF NOT EXISTS budget_hours_travel NUMERIC(10, 2) CHECK (budget_hours_travel IS NULL OR budget_hours_travel >= 0),
+  ADD COLUMN IF NOT EXISTS budget_hours_shop NUMERIC(10, 2) CHECK (budget_hours_shop IS NULL OR budget_hours_shop >= 0);
+
+COMMENT ON COLUMN public.projects.budget_hours IS
+  'Total budgeted hours. NULL = sum of budget_hours_field/travel/shop (no hour budget when those are NULL too).';
+COMMENT ON COLUMN public.projects.budget_hours_field IS 'Budgeted Field Time + Field Overtime hours.';
+COMMENT ON COLUMN public.projects.budget_hours_travel IS 'Budgeted Travel Time hours.';
+COMMENT ON COLUMN public.projects.budget_hours_shop IS 'Budgeted Shop Time + Shop Overtime (and internal) hours.';
+
+CREATE TABLE IF NOT EXISTS public.project_budget_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects (id) ON DELETE CASCADE,
+  threshold SMALLINT NOT NULL CHECK (threshold IN (75, 90, 100)),
+  hours_used NUMERIC(10, 2) NOT NULL,
+  budget_hours NUMERIC(10, 2) NOT NULL,
+  acknowledged_by UUID REFERENCES public.users (id) ON DELETE SET NULL,
+  acknowledged_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT project_budget_alerts_project_threshold_key UNIQUE (project_id, threshold)
+);
+
+COMMENT ON TABLE public.project_budget_alerts IS
+  'Acknowledged hour budget alerts. A project alerts while it is past a threshold with no row here for it.';
+
+ALTER TABLE public.project_budget_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage project_budget_alerts"
+  ON public.project_budget_alerts
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- Logged hours on projects that have an hour budget, for the sidebar alert badge (which can't
+-- load every time entry). Runs with the caller's rights, so non-admins only count their own rows.
+CREATE OR REPLACE FUNCTION public.project_hours_used(p_is_demo boolean DEFAULT false)
+RETURNS TABLE(project_id uuid, hours_used numeric)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT te.project_id, COALESCE(SUM(te.hours), 0) AS hours_used
+  FROM public.time_entries te
+  INNER JOIN public.projects p ON p.id = te.project_id
+  WHERE te.is_demo = p_is_demo
+    AND (p.budget_hours IS NOT NULL OR p.budget_hours_field IS NOT NULL OR p.budget_hours_travel IS NOT NULL OR p.budget_hours_shop IS NOT NULL)
+  GROUP BY te.project_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.project_hours_used(boolean) TO authenticated;
@@ -0,0 +1,15 @@
+-- Migration: Per-user limits for forgotten timers
+-- A running timer past timer_max_hours, or one still running after midnight, prompts the user to
+-- trim it or split it into one entry per day (see frontend TimerContext / TimerReviewModal).
+
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS timer_max_hours NUMERIC(4, 1) DEFAULT 10,
+ADD COLUMN IF NOT EXISTS timer_midnight_check BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE public.users
+DROP CONSTRAINT IF EXISTS users_timer_max_hours_check;
+ALTER TABLE public.users
+ADD CONSTRAINT users_timer_max_hours_check CHECK (timer_max_hours IS NULL OR (timer_max_hours > 0 AND timer_max_hours <= 24));
+
+COMMENT ON COLUMN public.users.timer_max_hours IS 'Hours a timer may run before the user is asked whether it was left on (NULL = never ask).';
+COMMENT ON COLUMN public.users.timer_midnight_check IS 'When true, a timer still running after midnight prompts the user to trim it or split it by day.';
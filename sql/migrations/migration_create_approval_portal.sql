@@ -0,0 +1,166 @@
+-- Customer approver portal (Invoices → Submitted card → Approver link; public page /approve/<token>).
+-- approval_portal_links: one login-free link per send of a Portal Approval batch (group_id =
+-- invoiced_batch_marks.group_id). Only the SHA-256 of the token is stored; batch_snapshot holds the
+-- tickets as they were sent so the approver signs exactly what they reviewed. The backend (service
+-- role) reads and completes links; the browser never touches these tables with the token.
+-- complete_approval_portal_link claims a link and stores its decisions in one transaction.
+-- approval_portal_decisions: the approver's approve/reject and note per ticket. A rejected ticket's
+-- note is also written to service_tickets.rejection_notes, so the lock on invoiced-batch tickets
+-- now lets rejection_notes / rejected_at change on their own.
+
+CREATE TABLE IF NOT EXISTS public.approval_portal_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  token_hash TEXT NOT NULL UNIQUE,
+  group_id TEXT NOT NULL,
+  customer_name TEXT,
+  project_number TEXT,
+  workflow_id UUID REFERENCES public.invoice_workflows (id) ON DELETE SET NULL,
+  batch_label TEXT,
+  batch_snapshot JSONB NOT NULL,
+  approver_name TEXT,
+  approver_email TEXT,
+  created_by UUID REFERENCES public.users (id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  opened_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  outcome TEXT CHECK (outcome IN ('approved', 'changes_requested')),
+  signer_name TEXT,
+  signature_kind TEXT CHECK (signature_kind IN ('drawn', 'typed')),
+  signature_data TEXT,
+  signed_at TIMESTAMPTZ,
+  signer_ip TEXT,
+  signer_user_agent TEXT,
+  -- False when the batch had already moved on (e.g. marked approved by hand) so only the decisions were recorded.
+  status_advanced BOOLEAN NOT NULL DEFAULT FALSE,
+  CONSTRAINT approval_portal_links_completed_check CHECK (
+    completed_at IS NULL OR (outcome IS NOT NULL AND signer_name IS NOT NULL AND signature_data IS NOT NULL)
+  )
+);
+
+COMMENT ON TABLE public.approval_portal_links IS
+  'Login-free approver portal links for Portal Approval batches. token_hash = SHA-256 of the URL token.';
+COMMENT ON COLUMN public.approval_portal_links.signature_data IS 'PNG data URL (drawn) or the typed name (typed).';
+
+CREATE INDEX IF NOT EXISTS idx_approval_portal_links_group_id ON public.approval_portal_links (group_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.approval_portal_decisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  link_id UUID NOT NULL REFERENCES public.approval_portal_links (id) ON DELETE CASCADE,
+  -- service_tickets.id, or the composite ticket id for a ticket with no saved record
+  ticket_key TEXT NOT NULL,
+  ticket_number TEXT,
+  decision TEXT NOT NULL CHECK (decision IN ('approved', 'rejected')),
+  note TEXT,
+  decided_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (link_id, ticket_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_portal_decisions_ticket_key ON public.approval_portal_decisions (ticket_key);
+
+ALTER TABLE public.approval_portal_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_portal_decisions ENABLE ROW LEVEL SECURITY;
+
+-- Backend writes with the service role; admins can read links and decisions in the app.
+CREATE POLICY "Admins read approval_portal_links"
+  ON public.approval_portal_links
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Admins read approval_portal_decisions"
+  ON public.approval_portal_decisions
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+-- Same lock as migration_lock_invoiced_batch_service_tickets.sql, except an update that only
+-- changes rejection_notes / rejected_at is allowed: the approver's note on a ticket they rejected.
+-- Billed fields stay locked until the batch is unmarked.
+CREATE OR REPLACE FUNCTION public.enforce_invoiced_batch_service_ticket_lock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF public.service_ticket_id_in_invoiced_batch(OLD.id) THEN
+      RAISE EXCEPTION 'Cannot delete: this service ticket is in a batch marked as invoiced. Unmark the batch on the Invoices page first.'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN OLD;
+  END IF;
+  IF TG_OP = 'UPDATE' AND public.service_ticket_id_in_invoiced_batch(OLD.id) THEN
+    IF (to_jsonb(NEW) - 'rejection_notes' - 'rejected_at' - 'updated_at') = (to_jsonb(OLD) - 'rejection_notes' - 'rejected_at' - 'updated_at') THEN
+      RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'Cannot update: this service ticket is in a batch marked as invoiced. Unmark the batch on the Invoices page first.'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Completing a link in one transaction: the link row is locked and must still be open, then the
+-- signature and outcome are written and the per-ticket decisions inserted, so a failed insert
+-- leaves the link unused and a second submit can't record another set of decisions. The backend
+-- validates the decisions against the snapshot first. Returns false when the link was already used;
+-- raises when it was revoked or expired since the backend looked it up.
+CREATE OR REPLACE FUNCTION public.complete_approval_portal_link(
+  p_link_id UUID,
+  p_outcome TEXT,
+  p_signer_name TEXT,
+  p_signature_kind TEXT,
+  p_signature_data TEXT,
+  p_signed_at TIMESTAMPTZ,
+  p_signer_ip TEXT,
+  p_signer_user_agent TEXT,
+  p_decisions JSONB
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_link RECORD;
+BEGIN
+  SELECT completed_at, revoked_at, expires_at INTO v_link
+  FROM public.approval_portal_links
+  WHERE id = p_link_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approver link not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_link.completed_at IS NOT NULL THEN
+    RETURN FALSE;
+  END IF;
+  IF v_link.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This approval link has been withdrawn. Contact IONEX for a new one.' USING ERRCODE = 'check_violation';
+  END IF;
+  IF v_link.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'This approval link has expired. Contact IONEX for a new one.' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.approval_portal_links
+  SET completed_at = p_signed_at,
+      outcome = p_outcome,
+      signer_name = p_signer_name,
+      signature_kind = p_signature_kind,
+      signature_data = p_signature_data,
+      signed_at = p_signed_at,
+      signer_ip = p_signer_ip,
+      signer_user_agent = p_signer_user_agent
+  WHERE id = p_link_id;
+
+  INSERT INTO public.approval_portal_decisions (link_id, ticket_key, ticket_number, decision, note, decided_at)
+  SELECT p_link_id, d.ticket_key, d.ticket_number, d.decision, NULLIF(d.note, ''), p_signed_at
+  FROM jsonb_to_recordset(p_decisions) AS d(ticket_key TEXT, ticket_number TEXT, decision TEXT, note TEXT);
+  RETURN TRUE;
+END;
+$$;
+
+-- Backend only (service role): the token and the submission are checked there.
+REVOKE EXECUTE ON FUNCTION public.complete_approval_portal_link(UUID, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ, TEXT, TEXT, JSONB)
+  FROM PUBLIC, anon, authenticated;
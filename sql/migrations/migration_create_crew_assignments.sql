@@ -0,0 +1,45 @@
+-- Crew dispatch board (Workflow → Dispatch). Admins assign employees to a project/location for a
+-- block of a day; employees see their own assignments on the Calendar and can turn them into time
+-- entries ("From schedule"). Planned hours here are compared with logged hours per project.
+CREATE TABLE IF NOT EXISTS public.crew_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users (id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  customer_id UUID REFERENCES public.customers (id) ON DELETE SET NULL,
+  project_id UUID REFERENCES public.projects (id) ON DELETE SET NULL,
+  location TEXT,
+  rate_type TEXT NOT NULL DEFAULT 'Field Time',
+  start_time TIME NOT NULL DEFAULT '08:00',
+  hours NUMERIC(5, 2) NOT NULL CHECK (hours > 0 AND hours <= 24),
+  notes TEXT,
+  created_by UUID REFERENCES public.users (id) ON DELETE SET NULL,
+  is_demo BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.crew_assignments IS
+  'Planned work: one employee on one project/location for hours starting at start_time on date. Several rows per day are allowed.';
+COMMENT ON COLUMN public.crew_assignments.rate_type IS
+  'Rate type the pre-filled time entry uses (Field Time, Shop Time, Travel Time, ...).';
+COMMENT ON COLUMN public.crew_assignments.notes IS
+  'Instructions for the crew (meet point, equipment). Shown on the Calendar; not copied to time entries.';
+
+CREATE INDEX IF NOT EXISTS idx_crew_assignments_date ON public.crew_assignments (date);
+CREATE INDEX IF NOT EXISTS idx_crew_assignments_user_date ON public.crew_assignments (user_id, date);
+CREATE INDEX IF NOT EXISTS idx_crew_assignments_project_id ON public.crew_assignments (project_id) WHERE project_id IS NOT NULL;
+
+ALTER TABLE public.crew_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage crew_assignments"
+  ON public.crew_assignments
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Employees can view own crew_assignments"
+  ON public.crew_assignments
+  FOR SELECT
+  TO authenticated
+  USING (user_id = (select auth.uid()));
@@ -0,0 +1,132 @@
+-- Native invoice generation (Invoiced card → Generate invoice). invoice_numbering is a single row
+-- holding the number format: prefix + next_number zero-padded to min_digits (e.g. INV-01001).
+-- next_invoice_number() hands out the next number and advances the counter in one statement, so
+-- two admins generating at the same time never get the same number. The generated PDF is stored
+-- like an uploaded one (invoiced_batch_invoices). reserve_invoice_number() ties a number to the
+-- batch (invoice_number_reservations) before the PDF is built, so a failed render or upload leaves
+-- the number with the batch and the retry, or a later regenerate, reuses it instead of burning a new one.
+
+CREATE TABLE IF NOT EXISTS public.invoice_numbering (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  prefix TEXT NOT NULL DEFAULT 'INV-',
+  next_number INTEGER NOT NULL DEFAULT 1001 CHECK (next_number >= 1),
+  min_digits INTEGER NOT NULL DEFAULT 5 CHECK (min_digits BETWEEN 1 AND 10),
+  gst_registration TEXT,
+  footer_note TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO public.invoice_numbering (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE public.invoice_numbering IS
+  'Single row: invoice number format and counter for generated invoices, plus the GST registration number and footer printed on them.';
+
+ALTER TABLE public.invoice_numbering ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage invoice_numbering"
+  ON public.invoice_numbering
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+ALTER TABLE public.invoiced_batch_invoices
+  ADD COLUMN IF NOT EXISTS invoice_number TEXT,
+  ADD COLUMN IF NOT EXISTS generated_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoiced_batch_invoices_invoice_number
+  ON public.invoiced_batch_invoices (invoice_number)
+  WHERE invoice_number IS NOT NULL;
+
+COMMENT ON COLUMN public.invoiced_batch_invoices.invoice_number IS 'Number of the invoice generated in the app; NULL for uploaded invoices.';
+COMMENT ON COLUMN public.invoiced_batch_invoices.generated_at IS 'When the app generated this invoice PDF; NULL for uploaded invoices.';
+
+-- Runs with the caller's rights: the row lock from UPDATE serialises concurrent callers, and RLS
+-- limits it to admins. Numbers already given to a batch are skipped, so lowering next_number (e.g. to
+-- line up with QuickBooks) never hands out an issued number again.
+CREATE OR REPLACE FUNCTION public.next_invoice_number()
+RETURNS TEXT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_number TEXT;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can issue invoice numbers';
+  END IF;
+  LOOP
+    UPDATE public.invoice_numbering
+       SET next_number = next_number + 1,
+           updated_at = NOW()
+     WHERE id
+    -- LPAD alone would cut a number longer than min_digits, so only pad shorter ones.
+    RETURNING prefix || LPAD((next_number - 1)::TEXT, GREATEST(min_digits, LENGTH((next_number - 1)::TEXT)), '0') INTO v_number;
+    IF v_number IS NULL THEN
+      RAISE EXCEPTION 'Invoice numbering is not set up (run migration_create_invoice_numbering.sql)';
+    END IF;
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.invoice_number_reservations r WHERE r.invoice_number = v_number)
+      AND NOT EXISTS (SELECT 1 FROM public.invoiced_batch_invoices i WHERE i.invoice_number = v_number);
+  END LOOP;
+  RETURN v_number;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.next_invoice_number() TO authenticated;
+
+CREATE TABLE IF NOT EXISTS public.invoice_number_reservations (
+  -- invoiced_batch_marks.group_id / invoiced_batch_invoices.group_id
+  group_id TEXT PRIMARY KEY,
+  invoice_number TEXT NOT NULL UNIQUE,
+  reserved_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  reserved_by UUID REFERENCES public.users (id) ON DELETE SET NULL
+);
+
+COMMENT ON TABLE public.invoice_number_reservations IS
+  'Invoice number given to a batch by reserve_invoice_number(), kept even if generating its PDF failed.';
+
+ALTER TABLE public.invoice_number_reservations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage invoice_number_reservations"
+  ON public.invoice_number_reservations
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- The batch's number: the one it was already given (reserved, or on an invoice generated before
+-- reservations existed), else the next number, recorded against the batch in the same transaction.
+-- The advisory lock keeps two admins generating the same batch from taking two numbers.
+CREATE OR REPLACE FUNCTION public.reserve_invoice_number(p_group_id TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_number TEXT;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can issue invoice numbers';
+  END IF;
+  PERFORM pg_advisory_xact_lock(hashtext('reserve_invoice_number:' || p_group_id));
+
+  SELECT invoice_number INTO v_number FROM public.invoice_number_reservations WHERE group_id = p_group_id;
+  IF v_number IS NOT NULL THEN
+    RETURN v_number;
+  END IF;
+
+  SELECT invoice_number INTO v_number
+  FROM public.invoiced_batch_invoices
+  WHERE group_id = p_group_id AND invoice_number IS NOT NULL
+  LIMIT 1;
+  IF v_number IS NULL THEN
+    v_number := public.next_invoice_number();
+  END IF;
+
+  INSERT INTO public.invoice_number_reservations (group_id, invoice_number, reserved_by)
+  VALUES (p_group_id, v_number, auth.uid());
+  RETURN v_number;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reserve_invoice_number(TEXT) TO authenticated;
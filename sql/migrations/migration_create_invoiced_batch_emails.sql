@@ -0,0 +1,63 @@
+-- Outbound email of approval bundles and invoices (Invoices → batch card → Email; backend /api/mail).
+-- customer_email_templates: per-customer recipients, CC list, subject and body, edited on
+-- Customers → Edit. invoiced_batch_emails: every send attempt for a batch (group_id = Invoices page
+-- getGroupId / invoiced_batch_marks.group_id) with its delivery status. The backend records
+-- 'sent' when the SMTP server accepts the message, 'failed' when it can't be delivered right now
+-- (connection errors, 4xx replies) and 'bounced' when a recipient is refused outright (5xx), either
+-- at send time or later through POST /api/mail/bounces.
+
+CREATE TABLE IF NOT EXISTS public.customer_email_templates (
+  customer_id UUID PRIMARY KEY REFERENCES public.customers (id) ON DELETE CASCADE,
+  to_addresses TEXT[] NOT NULL DEFAULT '{}',
+  cc_addresses TEXT[] NOT NULL DEFAULT '{}',
+  subject TEXT,
+  body TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.customer_email_templates IS
+  'How batches are emailed to a customer. Empty to_addresses = the customer''s email; NULL subject/body = the app default. Placeholders: {customer}, {project}, {period}, {batch}, {sender}.';
+
+CREATE TABLE IF NOT EXISTS public.invoiced_batch_emails (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id TEXT NOT NULL,
+  customer_name TEXT,
+  kind TEXT NOT NULL DEFAULT 'approval' CHECK (kind IN ('approval', 'invoice')),
+  to_addresses TEXT[] NOT NULL,
+  cc_addresses TEXT[] NOT NULL DEFAULT '{}',
+  subject TEXT NOT NULL,
+  attachment_name TEXT,
+  attachment_bytes INTEGER,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed', 'bounced')),
+  error TEXT,
+  rejected_addresses TEXT[] NOT NULL DEFAULT '{}',
+  message_id TEXT,
+  sent_by UUID REFERENCES public.users (id) ON DELETE SET NULL,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  bounced_at TIMESTAMPTZ
+);
+
+COMMENT ON TABLE public.invoiced_batch_emails IS
+  'Send history of invoice batches emailed from the app, one row per attempt.';
+COMMENT ON COLUMN public.invoiced_batch_emails.rejected_addresses IS 'Recipients the mail server refused; the rest were delivered.';
+
+CREATE INDEX IF NOT EXISTS idx_invoiced_batch_emails_group_id ON public.invoiced_batch_emails (group_id, sent_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoiced_batch_emails_message_id
+  ON public.invoiced_batch_emails (message_id) WHERE message_id IS NOT NULL;
+
+ALTER TABLE public.customer_email_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoiced_batch_emails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage customer_email_templates"
+  ON public.customer_email_templates
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- Backend writes with the service role; admins can read the history in the app.
+CREATE POLICY "Admins read invoiced_batch_emails"
+  ON public.invoiced_batch_emails
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
@@ -0,0 +1,111 @@
+-- Leave management (time off).
+-- Employees request time off as a 'time-off' form (POST /api/forms); an admin approves or rejects
+-- it (PUT /api/forms/:id). Approval writes one leave_days row per weekday of the request, which
+-- the calendars, Profile balances and Payroll read. Balances come from leave_policies: an opening
+-- balance as of a date plus an accrual per hour worked after it, optionally capped.
+
+CREATE TABLE IF NOT EXISTS public.leave_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id UUID NOT NULL REFERENCES public.employees (id) ON DELETE CASCADE,
+  leave_type TEXT NOT NULL CHECK (leave_type IN ('vacation', 'sick', 'personal', 'unpaid')),
+  accrual_per_hour NUMERIC(8, 5) NOT NULL DEFAULT 0 CHECK (accrual_per_hour >= 0),
+  max_balance NUMERIC(8, 2) CHECK (max_balance IS NULL OR max_balance >= 0),
+  opening_balance NUMERIC(8, 2) NOT NULL DEFAULT 0,
+  balance_as_of DATE NOT NULL DEFAULT CURRENT_DATE,
+  is_paid BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT leave_policies_employee_type_key UNIQUE (employee_id, leave_type)
+);
+
+COMMENT ON TABLE public.leave_policies IS
+  'Per-employee leave accrual: opening_balance hours as of balance_as_of, plus accrual_per_hour for every hour worked after it.';
+COMMENT ON COLUMN public.leave_policies.accrual_per_hour IS
+  'Leave hours earned per hour worked (e.g. 0.04 = 4%, about two weeks a year full time).';
+COMMENT ON COLUMN public.leave_policies.max_balance IS
+  'Accrual stops while the balance is at this many hours. NULL = no cap.';
+COMMENT ON COLUMN public.leave_policies.is_paid IS
+  'Approved days of this type are paid at the shop rate in Payroll.';
+
+DROP TRIGGER IF EXISTS update_leave_policies_updated_at ON public.leave_policies;
+CREATE TRIGGER update_leave_policies_updated_at
+  BEFORE UPDATE ON public.leave_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.leave_days (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id UUID NOT NULL REFERENCES public.forms (id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.employees (id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.users (id) ON DELETE SET NULL,
+  leave_type TEXT NOT NULL CHECK (leave_type IN ('vacation', 'sick', 'personal', 'unpaid')),
+  date DATE NOT NULL,
+  hours NUMERIC(5, 2) NOT NULL CHECK (hours > 0 AND hours <= 24),
+  is_paid BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT leave_days_form_date_key UNIQUE (form_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS leave_days_user_date_idx ON public.leave_days (user_id, date);
+CREATE INDEX IF NOT EXISTS leave_days_date_idx ON public.leave_days (date);
+
+COMMENT ON TABLE public.leave_days IS
+  'One row per weekday of an approved time-off form. Written by the backend on approval; removed when the form is rejected or deleted.';
+
+-- Approved leave inside a closed pay period was paid in that run, so it is locked like time entries.
+CREATE OR REPLACE FUNCTION public.enforce_pay_period_leave_day_lock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND public.date_in_closed_pay_period(OLD.date) THEN
+    RAISE EXCEPTION 'Cannot change leave on %: that pay period is closed. An admin can reopen it on the Payroll page.', OLD.date
+      USING ERRCODE = 'check_violation';
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND public.date_in_closed_pay_period(NEW.date) THEN
+    RAISE EXCEPTION 'Cannot book leave on %: that pay period is closed. An admin can reopen it on the Payroll page.', NEW.date
+      USING ERRCODE = 'check_violation';
+  END IF;
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS a_enforce_pay_period_lock_leave_days ON public.leave_days;
+CREATE TRIGGER a_enforce_pay_period_lock_leave_days
+  BEFORE INSERT OR UPDATE OR DELETE ON public.leave_days
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_pay_period_leave_day_lock();
+
+ALTER TABLE public.leave_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.leave_days ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage leave_policies"
+  ON public.leave_policies
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Employees can view own leave_policies"
+  ON public.leave_policies
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.employees e WHERE e.id = employee_id AND e.user_id = auth.uid()));
+
+CREATE POLICY "Admins manage leave_days"
+  ON public.leave_days
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Employees can view own leave_days"
+  ON public.leave_days
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,66 @@
+-- Overtime rules engine (Payroll): replaces the hard-coded 8h/day, 40h/week thresholds.
+-- One row per jurisdiction (employee_class NULL = jurisdiction default), optionally narrowed
+-- to an employee class. Employees select their rule via overtime_jurisdiction + overtime_class.
+CREATE TABLE IF NOT EXISTS public.overtime_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  jurisdiction TEXT NOT NULL,
+  employee_class TEXT,
+  daily_ot_after NUMERIC(5, 2),
+  daily_dt_after NUMERIC(5, 2),
+  weekly_ot_after NUMERIC(5, 2),
+  consecutive_day_ot_from INTEGER,
+  consecutive_day_dt_after NUMERIC(5, 2),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT overtime_rules_dt_after_ot CHECK (
+    daily_dt_after IS NULL OR daily_ot_after IS NULL OR daily_dt_after >= daily_ot_after
+  ),
+  CONSTRAINT overtime_rules_consecutive_day_check CHECK (
+    consecutive_day_ot_from IS NULL OR consecutive_day_ot_from BETWEEN 2 AND 14
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_overtime_rules_jurisdiction_class
+  ON public.overtime_rules (lower(jurisdiction), lower(COALESCE(employee_class, '')));
+
+COMMENT ON TABLE public.overtime_rules IS
+  'Payroll overtime rules per jurisdiction / employee class. Hours thresholds are NULL when the rule does not apply.';
+COMMENT ON COLUMN public.overtime_rules.consecutive_day_ot_from IS
+  'Nth consecutive working day from which all hours are overtime (NULL = no consecutive-day rule).';
+
+-- Defaults for every jurisdiction employees can pick: BC (8h/day, DT after 12h, 40h/week),
+-- AB (8h/day, 44h/week), SK and MB (8h/day, 40h/week), ON (44h/week, no daily OT) and federally
+-- regulated work under the Canada Labour Code (8h/day, 40h/week). None of the last five has DT.
+INSERT INTO public.overtime_rules (name, jurisdiction, daily_ot_after, daily_dt_after, weekly_ot_after)
+VALUES
+  ('BC Employment Standards', 'BC', 8, 12, 40),
+  ('AB Employment Standards', 'AB', 8, NULL, 44),
+  ('SK Employment Act', 'SK', 8, NULL, 40),
+  ('MB Employment Standards', 'MB', 8, NULL, 40),
+  ('ON Employment Standards', 'ON', NULL, NULL, 44),
+  ('Canada Labour Code', 'Federal', 8, NULL, 40)
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.employees
+  ADD COLUMN IF NOT EXISTS overtime_jurisdiction TEXT DEFAULT 'BC',
+  ADD COLUMN IF NOT EXISTS overtime_class TEXT;
+
+COMMENT ON COLUMN public.employees.overtime_jurisdiction IS 'Jurisdiction whose overtime_rules row applies (e.g. BC, AB).';
+COMMENT ON COLUMN public.employees.overtime_class IS 'Optional employee class matched against overtime_rules.employee_class (e.g. Field, Manager).';
+
+ALTER TABLE public.overtime_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read overtime_rules"
+  ON public.overtime_rules
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins manage overtime_rules"
+  ON public.overtime_rules
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
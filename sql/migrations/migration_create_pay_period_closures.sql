@@ -0,0 +1,270 @@
+-- Pay-period close-out (Payroll → Close pay period).
+-- Closing a period freezes time_entries and user_expenses dated inside it, and
+-- service_ticket_expenses on tickets dated inside it, for all roles including admins, and keeps the payroll CSV exactly as it was exported at close.
+-- A ticket with expenses can't be moved into or out of a closed period either, since its date decides their lock.
+-- Reopening is an explicit step that needs a reason; the closure row is kept as history and
+-- closing the same period again inserts a new row.
+
+CREATE TABLE IF NOT EXISTS public.pay_period_closures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'closed',
+  closed_by UUID REFERENCES public.users (id) ON DELETE SET NULL,
+  closed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  csv_snapshot TEXT NOT NULL,
+  reopened_by UUID REFERENCES public.users (id) ON DELETE SET NULL,
+  reopened_at TIMESTAMPTZ,
+  reopen_reason TEXT,
+  CONSTRAINT pay_period_closures_status_check
+    CHECK (status IN ('closed', 'reopened')),
+  CONSTRAINT pay_period_closures_range_check
+    CHECK (period_end >= period_start),
+  CONSTRAINT pay_period_closures_reopen_reason_check
+    CHECK (status = 'closed' OR (reopened_at IS NOT NULL AND length(btrim(COALESCE(reopen_reason, ''))) > 0))
+);
+
+-- One active closure per period.
+CREATE UNIQUE INDEX IF NOT EXISTS pay_period_closures_active_unique
+  ON public.pay_period_closures (period_start, period_end)
+  WHERE status = 'closed';
+
+CREATE INDEX IF NOT EXISTS pay_period_closures_range_idx
+  ON public.pay_period_closures (period_start, period_end);
+
+COMMENT ON TABLE public.pay_period_closures IS
+  'Closed payroll periods. While status = closed, time_entries, user_expenses and expenses on service tickets dated in [period_start, period_end] are read-only.';
+COMMENT ON COLUMN public.pay_period_closures.csv_snapshot IS
+  'Payroll CSV export captured at the moment the period was closed.';
+COMMENT ON COLUMN public.pay_period_closures.reopen_reason IS
+  'Required when status = reopened; shown in the Payroll closure history.';
+
+CREATE OR REPLACE FUNCTION public.date_in_closed_pay_period(p_date date)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_date IS NOT NULL AND EXISTS (
+    SELECT 1
+    FROM public.pay_period_closures c
+    WHERE c.status = 'closed'
+      AND p_date BETWEEN c.period_start AND c.period_end
+  );
+$$;
+
+COMMENT ON FUNCTION public.date_in_closed_pay_period(date) IS
+  'True if the date falls inside a pay period that is currently closed.';
+
+-- Closures are append-only apart from the reopen step: the period and snapshot never change,
+-- and a reopened row can't be flipped back (close the period again instead).
+CREATE OR REPLACE FUNCTION public.enforce_pay_period_closure_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Pay period closures cannot be deleted. Reopen the period instead.'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  IF NEW.period_start IS DISTINCT FROM OLD.period_start
+     OR NEW.period_end IS DISTINCT FROM OLD.period_end
+     OR NEW.csv_snapshot IS DISTINCT FROM OLD.csv_snapshot
+     OR NEW.closed_by IS DISTINCT FROM OLD.closed_by
+     OR NEW.closed_at IS DISTINCT FROM OLD.closed_at THEN
+    RAISE EXCEPTION 'A pay period closure record cannot be edited.'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  IF OLD.status = 'reopened' THEN
+    RAISE EXCEPTION 'This closure was already reopened. Close the pay period again to lock it.'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS a_enforce_pay_period_closure_history ON public.pay_period_closures;
+CREATE TRIGGER a_enforce_pay_period_closure_history
+  BEFORE UPDATE OR DELETE ON public.pay_period_closures
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_pay_period_closure_history();
+
+-- time_entries: no insert / update / delete on a date inside a closed period. Approval fields
+-- stay editable since they don't change what was paid.
+CREATE OR REPLACE FUNCTION public.enforce_pay_period_time_entry_lock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF public.date_in_closed_pay_period(NEW.date) THEN
+      RAISE EXCEPTION 'Cannot add time on %: that pay period is closed. An admin can reopen it on the Payroll page.', NEW.date
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'DELETE' THEN
+    IF public.date_in_closed_pay_period(OLD.date) THEN
+      RAISE EXCEPTION 'Cannot delete time on %: that pay period is closed. An admin can reopen it on the Payroll page.', OLD.date
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN OLD;
+  END IF;
+  -- UPDATE
+  IF public.date_in_closed_pay_period(OLD.date) OR public.date_in_closed_pay_period(NEW.date) THEN
+    IF (to_jsonb(NEW) - 'approved' - 'approved_by' - 'approved_at' - 'updated_at')
+       = (to_jsonb(OLD) - 'approved' - 'approved_by' - 'approved_at' - 'updated_at') THEN
+      RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'Cannot change time on %: that pay period is closed. An admin can reopen it on the Payroll page.',
+      CASE WHEN public.date_in_closed_pay_period(OLD.date) THEN OLD.date ELSE NEW.date END
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS a_enforce_pay_period_lock_time_entries ON public.time_entries;
+CREATE TRIGGER a_enforce_pay_period_lock_time_entries
+  BEFORE INSERT OR UPDATE OR DELETE ON public.time_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_pay_period_time_entry_lock();
+
+-- user_expenses: same rule on expense_date. Status / approval changes are allowed so receipts
+-- can still be approved and marked paid (catch-up receipts are paid in a later period).
+CREATE OR REPLACE FUNCTION public.enforce_pay_period_user_expense_lock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF public.date_in_closed_pay_period(NEW.expense_date) THEN
+      RAISE EXCEPTION 'Cannot add an expense on %: that pay period is closed. An admin can reopen it on the Payroll page.', NEW.expense_date
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'DELETE' THEN
+    IF public.date_in_closed_pay_period(OLD.expense_date) THEN
+      RAISE EXCEPTION 'Cannot delete an expense on %: that pay period is closed. An admin can reopen it on the Payroll page.', OLD.expense_date
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN OLD;
+  END IF;
+  -- UPDATE
+  IF public.date_in_closed_pay_period(OLD.expense_date) OR public.date_in_closed_pay_period(NEW.expense_date) THEN
+    IF (to_jsonb(NEW) - 'status' - 'approved_at' - 'updated_at')
+       = (to_jsonb(OLD) - 'status' - 'approved_at' - 'updated_at') THEN
+      RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'Cannot change an expense on %: that pay period is closed. An admin can reopen it on the Payroll page.',
+      CASE WHEN public.date_in_closed_pay_period(OLD.expense_date) THEN OLD.expense_date ELSE NEW.expense_date END
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS a_enforce_pay_period_lock_user_expenses ON public.user_expenses;
+CREATE TRIGGER a_enforce_pay_period_lock_user_expenses
+  BEFORE INSERT OR UPDATE OR DELETE ON public.user_expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_pay_period_user_expense_lock();
+
+-- service_ticket_expenses: same rule on the ticket's date, since reimbursable ticket expenses are
+-- paid through payroll. Reimbursement status and receipt links can still change, like user_expenses.
+CREATE OR REPLACE FUNCTION public.service_ticket_in_closed_pay_period(p_ticket_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_ticket_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.service_tickets st
+    WHERE st.id = p_ticket_id AND public.date_in_closed_pay_period(st.date::date)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_pay_period_ticket_expense_lock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF public.service_ticket_in_closed_pay_period(NEW.service_ticket_id) THEN
+      RAISE EXCEPTION 'Cannot add an expense to this service ticket: its pay period is closed. An admin can reopen it on the Payroll page.'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'DELETE' THEN
+    IF public.service_ticket_in_closed_pay_period(OLD.service_ticket_id) THEN
+      RAISE EXCEPTION 'Cannot delete an expense on this service ticket: its pay period is closed. An admin can reopen it on the Payroll page.'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN OLD;
+  END IF;
+  -- UPDATE
+  IF public.service_ticket_in_closed_pay_period(OLD.service_ticket_id) OR public.service_ticket_in_closed_pay_period(NEW.service_ticket_id) THEN
+    IF (to_jsonb(NEW) - 'reimbursement_status' - 'reimbursement_approved_at' - 'user_expense_id' - 'updated_at')
+       = (to_jsonb(OLD) - 'reimbursement_status' - 'reimbursement_approved_at' - 'user_expense_id' - 'updated_at') THEN
+      RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'Cannot change an expense on this service ticket: its pay period is closed. An admin can reopen it on the Payroll page.'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS a_enforce_pay_period_lock_ticket_expenses ON public.service_ticket_expenses;
+CREATE TRIGGER a_enforce_pay_period_lock_ticket_expenses
+  BEFORE INSERT OR UPDATE OR DELETE ON public.service_ticket_expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_pay_period_ticket_expense_lock();
+
+-- The ticket's date decides whether its expenses are locked, so a ticket with expenses can't move into
+-- or out of a closed period: moving out would unlock them, moving in would change what the closed CSV covers.
+CREATE OR REPLACE FUNCTION public.enforce_pay_period_ticket_date_lock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (public.date_in_closed_pay_period(OLD.date::date) OR public.date_in_closed_pay_period(NEW.date::date))
+     AND EXISTS (SELECT 1 FROM public.service_ticket_expenses e WHERE e.service_ticket_id = OLD.id) THEN
+    RAISE EXCEPTION 'Cannot move this service ticket from % to %: its expenses are in a closed pay period. An admin can reopen it on the Payroll page.',
+      OLD.date::date, NEW.date::date
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS a_enforce_pay_period_lock_ticket_date ON public.service_tickets;
+CREATE TRIGGER a_enforce_pay_period_lock_ticket_date
+  BEFORE UPDATE OF date ON public.service_tickets
+  FOR EACH ROW
+  WHEN (OLD.date IS DISTINCT FROM NEW.date)
+  EXECUTE FUNCTION public.enforce_pay_period_ticket_date_lock();
+
+ALTER TABLE public.pay_period_closures ENABLE ROW LEVEL SECURITY;
+
+-- Admin-only: csv_snapshot holds every employee's hours and reimbursements. The lock triggers
+-- run as SECURITY DEFINER, so employees are still blocked (with a readable message).
+CREATE POLICY "Admins manage pay_period_closures"
+  ON public.pay_period_closures
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
@@ -0,0 +1,45 @@
+-- Retroactive pay-rate changes (Employees → Rates effective from a past date).
+-- Each row records one change: the rates before and after, the back-pay owed per pay period
+-- already paid (entries priced at the historical rate vs. the new rate), and the payroll run the
+-- total is paid in. Payroll adds it to that run as an adjustment line.
+CREATE TABLE IF NOT EXISTS public.pay_rate_adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id UUID NOT NULL REFERENCES public.employees (id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.users (id) ON DELETE SET NULL,
+  effective_date DATE NOT NULL,
+  previous_rates JSONB NOT NULL,
+  new_rates JSONB NOT NULL,
+  periods JSONB NOT NULL DEFAULT '[]'::jsonb,
+  total_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  pay_in_period_start DATE NOT NULL,
+  pay_in_period_end DATE NOT NULL,
+  created_by UUID REFERENCES public.users (id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT pay_rate_adjustments_pay_in_range_check
+    CHECK (pay_in_period_end >= pay_in_period_start)
+);
+
+CREATE INDEX IF NOT EXISTS pay_rate_adjustments_pay_in_idx
+  ON public.pay_rate_adjustments (pay_in_period_start, pay_in_period_end);
+CREATE INDEX IF NOT EXISTS pay_rate_adjustments_employee_idx
+  ON public.pay_rate_adjustments (employee_id);
+
+COMMENT ON TABLE public.pay_rate_adjustments IS
+  'Back-pay from retroactive pay-rate changes, paid as an adjustment in the pay_in_period payroll run.';
+COMMENT ON COLUMN public.pay_rate_adjustments.periods IS
+  'Per paid period: [{ period_start, period_end, hours, paid, owed, amount }]; amount = owed - paid.';
+
+ALTER TABLE public.pay_rate_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage pay_rate_adjustments"
+  ON public.pay_rate_adjustments
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Employees can view own pay_rate_adjustments"
+  ON public.pay_rate_adjustments
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
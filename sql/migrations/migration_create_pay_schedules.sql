@@ -0,0 +1,47 @@
+-- Stored pay schedules (replaces the hard-coded 14-day cycle anchored on 2026-01-19).
+-- Each row applies from effective_from until the next row's effective_from, so a schedule
+-- change never moves historical periods. The earliest row also covers all earlier dates.
+CREATE TABLE IF NOT EXISTS public.pay_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  frequency TEXT NOT NULL,
+  anchor_date DATE NOT NULL,
+  payday_offset_days INTEGER NOT NULL DEFAULT 5,
+  semimonthly_split_day INTEGER,
+  effective_from DATE NOT NULL UNIQUE,
+  notes TEXT,
+  created_by UUID REFERENCES public.users (id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT pay_schedules_frequency_check
+    CHECK (frequency IN ('weekly', 'biweekly', 'semimonthly', 'monthly')),
+  CONSTRAINT pay_schedules_payday_offset_check
+    CHECK (payday_offset_days BETWEEN -14 AND 31),
+  CONSTRAINT pay_schedules_split_day_check
+    CHECK (semimonthly_split_day IS NULL OR semimonthly_split_day BETWEEN 1 AND 27)
+);
+
+COMMENT ON TABLE public.pay_schedules IS
+  'Pay-period calendar. Periods for a date come from the row with the latest effective_from on or before it.';
+COMMENT ON COLUMN public.pay_schedules.anchor_date IS
+  'First day of any one period; aligns weekly / biweekly periods. Ignored for semimonthly and monthly.';
+COMMENT ON COLUMN public.pay_schedules.payday_offset_days IS
+  'Payday = period end + this many days (5 = the Friday after a Sunday period end).';
+
+-- Seed the schedule the app used until now: bi-weekly from Mon 19 Jan 2026, paid Friday 6 Feb 2026.
+INSERT INTO public.pay_schedules (frequency, anchor_date, payday_offset_days, effective_from, notes)
+VALUES ('biweekly', '2026-01-19', 5, '2026-01-19', 'Original bi-weekly schedule')
+ON CONFLICT (effective_from) DO NOTHING;
+
+ALTER TABLE public.pay_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read pay_schedules"
+  ON public.pay_schedules
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins manage pay_schedules"
+  ON public.pay_schedules
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
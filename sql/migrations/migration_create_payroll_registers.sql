@@ -0,0 +1,57 @@
+-- Payroll registers: every Payroll → Export CSV is saved as a new version for its period, with
+-- the per-employee register (hours by rate type, reimbursements, allowances, totals, entry ids)
+-- and the exact CSV. Payroll diffs the live numbers against the latest version so changes made
+-- after an export can be paid as adjustments on the next run.
+CREATE TABLE IF NOT EXISTS public.payroll_registers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  version INTEGER NOT NULL,
+  exported_by UUID REFERENCES public.users (id) ON DELETE SET NULL,
+  exported_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  register JSONB NOT NULL,
+  csv TEXT NOT NULL,
+  CONSTRAINT payroll_registers_range_check
+    CHECK (period_end >= period_start),
+  CONSTRAINT payroll_registers_version_check
+    CHECK (version >= 1),
+  CONSTRAINT payroll_registers_period_version_unique
+    UNIQUE (period_start, period_end, version)
+);
+
+COMMENT ON TABLE public.payroll_registers IS
+  'Versioned payroll exports. Version 1 is the first export of a period; each re-export adds the next version.';
+COMMENT ON COLUMN public.payroll_registers.register IS
+  'Per-employee snapshot: { excludesContractors, employees: [{ userId, hours, amounts, entries, reimbursementLines, ... }] }.';
+
+-- Registers are a record of what was exported; they are never edited.
+CREATE OR REPLACE FUNCTION public.enforce_payroll_register_immutable()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Payroll registers cannot be changed once saved. Export again to create a new version.'
+    USING ERRCODE = 'check_violation';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS a_enforce_payroll_register_immutable ON public.payroll_registers;
+CREATE TRIGGER a_enforce_payroll_register_immutable
+  BEFORE UPDATE OR DELETE ON public.payroll_registers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_payroll_register_immutable();
+
+ALTER TABLE public.payroll_registers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins read payroll_registers"
+  ON public.payroll_registers
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Admins insert payroll_registers"
+  ON public.payroll_registers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_admin());
@@ -0,0 +1,180 @@
+-- Phases / tasks / cost codes under a project (Projects → edit → Cost codes). Codes nest through
+-- parent_id: a top-level row is a phase, its children are tasks or cost codes. Time entries and
+-- service ticket expenses point at one code; when projects.require_cost_code is set (and the project
+-- has an active code) they must have one, and a code must belong to the entry's (or the ticket's)
+-- project; triggers below enforce both. Timers, entry templates and dispatch assignments carry a
+-- code into the entries they create. Profitability breaks hours and cost down by top-level phase.
+CREATE TABLE IF NOT EXISTS public.project_cost_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects (id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.project_cost_codes (id) ON DELETE CASCADE,
+  code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT project_cost_codes_project_code_key UNIQUE (project_id, code),
+  CONSTRAINT project_cost_codes_not_own_parent CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+COMMENT ON TABLE public.project_cost_codes IS
+  'Phase / task / cost code hierarchy per project. parent_id NULL = phase.';
+COMMENT ON COLUMN public.project_cost_codes.code IS
+  'Short code shown on tickets and invoices (e.g. 100, 100.10). Unique within the project.';
+COMMENT ON COLUMN public.project_cost_codes.active IS
+  'Inactive codes stay on existing entries but can no longer be picked.';
+
+CREATE INDEX IF NOT EXISTS idx_project_cost_codes_project_id ON public.project_cost_codes (project_id);
+CREATE INDEX IF NOT EXISTS idx_project_cost_codes_parent_id ON public.project_cost_codes (parent_id) WHERE parent_id IS NOT NULL;
+
+ALTER TABLE public.project_cost_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage project_cost_codes"
+  ON public.project_cost_codes
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- Everyone logging time needs to see the codes to pick one.
+CREATE POLICY "Authenticated users can view project_cost_codes"
+  ON public.project_cost_codes
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS require_cost_code BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.projects.require_cost_code IS
+  'When true (and the project has an active code), time entries and ticket expenses on this project must have a cost code.';
+
+ALTER TABLE public.time_entries
+  ADD COLUMN IF NOT EXISTS cost_code_id UUID REFERENCES public.project_cost_codes (id) ON DELETE SET NULL;
+
+ALTER TABLE public.service_ticket_expenses
+  ADD COLUMN IF NOT EXISTS cost_code_id UUID REFERENCES public.project_cost_codes (id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.time_entries.cost_code_id IS 'Phase / cost code on the entry''s project (project_cost_codes).';
+COMMENT ON COLUMN public.service_ticket_expenses.cost_code_id IS 'Phase / cost code on the ticket''s project (project_cost_codes).';
+
+CREATE INDEX IF NOT EXISTS idx_time_entries_cost_code_id ON public.time_entries (cost_code_id) WHERE cost_code_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_service_ticket_expenses_cost_code_id ON public.service_ticket_expenses (cost_code_id) WHERE cost_code_id IS NOT NULL;
+
+ALTER TABLE public.timers
+  ADD COLUMN IF NOT EXISTS cost_code_id UUID REFERENCES public.project_cost_codes (id) ON DELETE SET NULL;
+
+ALTER TABLE public.time_entry_templates
+  ADD COLUMN IF NOT EXISTS cost_code_id UUID REFERENCES public.project_cost_codes (id) ON DELETE SET NULL;
+
+ALTER TABLE public.crew_assignments
+  ADD COLUMN IF NOT EXISTS cost_code_id UUID REFERENCES public.project_cost_codes (id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.timers.cost_code_id IS 'Cost code the stopped timer''s time entry gets.';
+COMMENT ON COLUMN public.time_entry_templates.cost_code_id IS 'Cost code the template''s time entries get.';
+COMMENT ON COLUMN public.crew_assignments.cost_code_id IS 'Cost code the time entry made "From schedule" gets.';
+
+-- Raises check_violation when p_cost_code_id isn't one of p_project_id's codes, or when
+-- p_check_required and the project requires a code but none is set.
+CREATE OR REPLACE FUNCTION public.check_cost_code_for_project(p_project_id uuid, p_cost_code_id uuid, p_check_required boolean)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project_name text;
+BEGIN
+  IF p_cost_code_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.project_cost_codes c
+      WHERE c.id = p_cost_code_id AND c.project_id IS NOT DISTINCT FROM p_project_id
+    ) THEN
+      RAISE EXCEPTION 'That phase / cost code belongs to a different project. Pick one of this project''s codes.'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN;
+  END IF;
+  IF NOT p_check_required OR p_project_id IS NULL THEN
+    RETURN;
+  END IF;
+  SELECT p.name INTO v_project_name
+  FROM public.projects p
+  WHERE p.id = p_project_id
+    AND p.require_cost_code
+    AND EXISTS (SELECT 1 FROM public.project_cost_codes c WHERE c.project_id = p.id AND c.active);
+  IF FOUND THEN
+    RAISE EXCEPTION 'Project % requires a phase / cost code.', v_project_name
+      USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
+
+-- The requirement is checked on insert and when the project or code changes, so approving or
+-- editing entries logged before a project started requiring codes still works. A code cleared
+-- because it was deleted (ON DELETE SET NULL) isn't held to it either.
+CREATE OR REPLACE FUNCTION public.enforce_time_entry_cost_code()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.project_id IS NOT DISTINCT FROM OLD.project_id
+     AND NEW.cost_code_id IS NOT DISTINCT FROM OLD.cost_code_id THEN
+    RETURN NEW;
+  END IF;
+  PERFORM public.check_cost_code_for_project(
+    NEW.project_id,
+    NEW.cost_code_id,
+    TG_OP = 'INSERT'
+      OR NEW.project_id IS DISTINCT FROM OLD.project_id
+      OR EXISTS (SELECT 1 FROM public.project_cost_codes c WHERE c.id = OLD.cost_code_id)
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_cost_code_time_entries ON public.time_entries;
+CREATE TRIGGER enforce_cost_code_time_entries
+  BEFORE INSERT OR UPDATE ON public.time_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_time_entry_cost_code();
+
+-- Ticket expenses take the project from their service ticket.
+CREATE OR REPLACE FUNCTION public.enforce_ticket_expense_cost_code()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project_id uuid;
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.service_ticket_id IS NOT DISTINCT FROM OLD.service_ticket_id
+     AND NEW.cost_code_id IS NOT DISTINCT FROM OLD.cost_code_id THEN
+    RETURN NEW;
+  END IF;
+  SELECT st.project_id INTO v_project_id FROM public.service_tickets st WHERE st.id = NEW.service_ticket_id;
+  PERFORM public.check_cost_code_for_project(
+    v_project_id,
+    NEW.cost_code_id,
+    TG_OP = 'INSERT'
+      OR NEW.service_ticket_id IS DISTINCT FROM OLD.service_ticket_id
+      OR EXISTS (SELECT 1 FROM public.project_cost_codes c WHERE c.id = OLD.cost_code_id)
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_cost_code_ticket_expenses ON public.service_ticket_expenses;
+CREATE TRIGGER enforce_cost_code_ticket_expenses
+  BEFORE INSERT OR UPDATE ON public.service_ticket_expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_ticket_expense_cost_code();
+
+REVOKE EXECUTE ON FUNCTION public.check_cost_code_for_project(uuid, uuid, boolean) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,115 @@
+-- Record which invoice batches were pushed to QuickBooks Online (backend /api/quickbooks/invoices).
+-- One row per Invoices page group_id (same id as invoiced_batch_marks) so a batch is not invoiced twice by accident.
+-- The backend claims the row (status 'pending', claim_id) before creating the QBO invoice and fills in the
+-- invoice afterwards, so two pushes of one batch can't both create one. claim_id is sent as QBO's requestid:
+-- retrying a push that created the invoice but never recorded it gets the same invoice back.
+-- A forced second push keeps the invoice it replaces in qbo_invoice_push_history.
+CREATE TABLE IF NOT EXISTS public.qbo_invoice_pushes (
+  group_id TEXT PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'pushed' CHECK (status IN ('pending', 'pushed')),
+  claim_id UUID NOT NULL DEFAULT gen_random_uuid(),
+  claimed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- NULL until the first push of the batch has created its invoice.
+  qbo_invoice_id TEXT,
+  qbo_doc_number TEXT,
+  total_amount NUMERIC(12,2),
+  line_count INTEGER,
+  pushed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  pushed_by UUID REFERENCES public.users (id) ON DELETE SET NULL,
+  CONSTRAINT qbo_invoice_pushes_pushed_check CHECK (status = 'pending' OR qbo_invoice_id IS NOT NULL)
+);
+
+COMMENT ON TABLE public.qbo_invoice_pushes IS
+  'Invoice batches pushed to QuickBooks Online as Invoices (group_id = Invoices page getGroupId / invoiced_batch_marks.group_id).';
+
+ALTER TABLE public.qbo_invoice_pushes ENABLE ROW LEVEL SECURITY;
+
+-- Backend writes with the service role; admins can read push status in the app.
+CREATE POLICY "Admins read qbo_invoice_pushes"
+  ON public.qbo_invoice_pushes
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE TABLE IF NOT EXISTS public.qbo_invoice_push_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id TEXT NOT NULL,
+  qbo_invoice_id TEXT NOT NULL,
+  qbo_doc_number TEXT,
+  total_amount NUMERIC(12,2),
+  line_count INTEGER,
+  pushed_at TIMESTAMPTZ NOT NULL,
+  pushed_by UUID REFERENCES public.users (id) ON DELETE SET NULL,
+  replaced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  replaced_by UUID REFERENCES public.users (id) ON DELETE SET NULL
+);
+
+COMMENT ON TABLE public.qbo_invoice_push_history IS
+  'QBO invoices a forced push of the same batch replaced in qbo_invoice_pushes; they still exist in QuickBooks.';
+
+CREATE INDEX IF NOT EXISTS idx_qbo_invoice_push_history_group_id ON public.qbo_invoice_push_history (group_id, replaced_at DESC);
+
+ALTER TABLE public.qbo_invoice_push_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins read qbo_invoice_push_history"
+  ON public.qbo_invoice_push_history
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE OR REPLACE FUNCTION public.keep_replaced_qbo_invoice_push()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.qbo_invoice_id IS NOT NULL AND NEW.qbo_invoice_id IS DISTINCT FROM OLD.qbo_invoice_id THEN
+    INSERT INTO public.qbo_invoice_push_history (group_id, qbo_invoice_id, qbo_doc_number, total_amount, line_count, pushed_at, pushed_by, replaced_by)
+    VALUES (OLD.group_id, OLD.qbo_invoice_id, OLD.qbo_doc_number, OLD.total_amount, OLD.line_count, OLD.pushed_at, OLD.pushed_by, NEW.pushed_by);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS keep_replaced_qbo_invoice_push ON public.qbo_invoice_pushes;
+CREATE TRIGGER keep_replaced_qbo_invoice_push
+  BEFORE UPDATE ON public.qbo_invoice_pushes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.keep_replaced_qbo_invoice_push();
+
+-- Claims a batch for one push: a new 'pending' row, or with p_force an existing pushed row (its invoice
+-- stays on the row until the new one is recorded). A pending push is left alone for 10 minutes; after
+-- that a forced push resumes it with the same claim_id, so QuickBooks treats it as the same request.
+-- Returns { claimed, claim_id, resumed } or { claimed: false, push } with the row that blocked it.
+CREATE OR REPLACE FUNCTION public.claim_qbo_invoice_push(p_group_id TEXT, p_force BOOLEAN, p_claimed_by UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_row public.qbo_invoice_pushes;
+  v_claim_id UUID;
+BEGIN
+  INSERT INTO public.qbo_invoice_pushes (group_id, status, pushed_by)
+  VALUES (p_group_id, 'pending', p_claimed_by)
+  ON CONFLICT (group_id) DO NOTHING
+  RETURNING claim_id INTO v_claim_id;
+  IF v_claim_id IS NOT NULL THEN
+    RETURN jsonb_build_object('claimed', TRUE, 'claim_id', v_claim_id, 'resumed', FALSE);
+  END IF;
+
+  SELECT * INTO v_row FROM public.qbo_invoice_pushes WHERE group_id = p_group_id FOR UPDATE;
+  IF NOT p_force OR (v_row.status = 'pending' AND v_row.claimed_at > NOW() - INTERVAL '10 minutes') THEN
+    RETURN jsonb_build_object('claimed', FALSE, 'push', to_jsonb(v_row));
+  END IF;
+
+  v_claim_id := CASE WHEN v_row.status = 'pending' THEN v_row.claim_id ELSE gen_random_uuid() END;
+  UPDATE public.qbo_invoice_pushes
+  SET status = 'pending', claim_id = v_claim_id, claimed_at = NOW()
+  WHERE group_id = p_group_id;
+  RETURN jsonb_build_object('claimed', TRUE, 'claim_id', v_claim_id, 'resumed', v_row.status = 'pending');
+END;
+$$;
+
+-- Backend only (service role).
+REVOKE EXECUTE ON FUNCTION public.claim_qbo_invoice_push(TEXT, BOOLEAN, UUID) FROM PUBLIC, anon, authenticated;
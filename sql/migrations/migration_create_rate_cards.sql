@@ -0,0 +1,49 @@
+-- Customer and project rate cards (Customers / Projects → edit → Rate Cards). A card sets billing
+-- rates for tickets dated effective_from..effective_to (inclusive; NULL end = open-ended), for one
+-- employee position or all of them. Per rate, tickets take the first of: project card for the
+-- position, project card for all positions, customer card for the position, customer card for all
+-- positions, then the existing project/customer Junior–Senior special rates, employee rates and
+-- defaults (shared/rateCards.ts). NULL rates fall through; a NULL overtime rate with its base rate
+-- set bills 1.5× the base. Approved tickets keep the rates frozen on them.
+
+CREATE TABLE IF NOT EXISTS public.rate_cards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id UUID REFERENCES public.customers (id) ON DELETE CASCADE,
+  project_id UUID REFERENCES public.projects (id) ON DELETE CASCADE,
+  position TEXT,
+  effective_from DATE NOT NULL,
+  effective_to DATE,
+  rt_rate NUMERIC(10, 2) CHECK (rt_rate IS NULL OR rt_rate >= 0),
+  tt_rate NUMERIC(10, 2) CHECK (tt_rate IS NULL OR tt_rate >= 0),
+  ft_rate NUMERIC(10, 2) CHECK (ft_rate IS NULL OR ft_rate >= 0),
+  shop_ot_rate NUMERIC(10, 2) CHECK (shop_ot_rate IS NULL OR shop_ot_rate >= 0),
+  field_ot_rate NUMERIC(10, 2) CHECK (field_ot_rate IS NULL OR field_ot_rate >= 0),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT rate_cards_scope_check CHECK ((customer_id IS NULL) <> (project_id IS NULL)),
+  CONSTRAINT rate_cards_dates_check CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+COMMENT ON TABLE public.rate_cards IS
+  'Dated billing rates for one customer or one project, optionally for one employee position. Beat the Junior/Senior special rates and employee rates.';
+COMMENT ON COLUMN public.rate_cards.position IS 'Employee position (employees.position, e.g. Senior) the card applies to; NULL = all positions.';
+
+CREATE INDEX IF NOT EXISTS idx_rate_cards_customer_id ON public.rate_cards (customer_id) WHERE customer_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_rate_cards_project_id ON public.rate_cards (project_id) WHERE project_id IS NOT NULL;
+
+ALTER TABLE public.rate_cards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage rate_cards"
+  ON public.rate_cards
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- Anyone who can open a service ticket needs the cards to price it.
+CREATE POLICY "Authenticated users can view rate_cards"
+  ON public.rate_cards
+  FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,73 @@
+-- Accounts receivable (Invoices → Receivables). customer_invoices: one row per invoice issued,
+-- usually recorded from an invoiced batch (group_id = invoiced_batch_marks.group_id) with the
+-- batch's totals, or entered by hand. due_date = invoice_date + terms_days, where the terms default
+-- from customers.payment_terms_days (NULL = 30 days). customer_invoice_payments: payments received
+-- and credit notes issued against an invoice; the open balance is total minus both. The aging
+-- report and the dashboard's cash-collected line are computed from these in the app.
+
+ALTER TABLE public.customers
+  ADD COLUMN IF NOT EXISTS payment_terms_days INTEGER CHECK (payment_terms_days IS NULL OR payment_terms_days >= 0);
+
+COMMENT ON COLUMN public.customers.payment_terms_days IS 'Days from invoice date to due date (e.g. 30 = net 30). NULL = 30.';
+
+CREATE TABLE IF NOT EXISTS public.customer_invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id TEXT UNIQUE,
+  customer_id UUID REFERENCES public.customers (id) ON DELETE SET NULL,
+  customer_name TEXT NOT NULL,
+  project_number TEXT,
+  invoice_number TEXT NOT NULL,
+  invoice_date DATE NOT NULL,
+  terms_days INTEGER NOT NULL DEFAULT 30 CHECK (terms_days >= 0),
+  due_date DATE NOT NULL,
+  subtotal NUMERIC(12, 2) NOT NULL,
+  tax_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  total NUMERIC(12, 2) NOT NULL,
+  notes TEXT,
+  created_by UUID REFERENCES public.users (id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT customer_invoices_due_date_check CHECK (due_date >= invoice_date)
+);
+
+COMMENT ON TABLE public.customer_invoices IS
+  'Invoices issued to customers, for receivables and aging. group_id links the invoiced batch it was recorded from.';
+
+CREATE INDEX IF NOT EXISTS idx_customer_invoices_customer_id ON public.customer_invoices (customer_id);
+CREATE INDEX IF NOT EXISTS idx_customer_invoices_due_date ON public.customer_invoices (due_date);
+
+CREATE TABLE IF NOT EXISTS public.customer_invoice_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES public.customer_invoices (id) ON DELETE CASCADE,
+  kind TEXT NOT NULL DEFAULT 'payment' CHECK (kind IN ('payment', 'credit_note')),
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  received_on DATE NOT NULL,
+  reference TEXT,
+  notes TEXT,
+  created_by UUID REFERENCES public.users (id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.customer_invoice_payments IS
+  'Payments received (kind = payment) and credit notes issued (kind = credit_note) against a customer invoice.';
+COMMENT ON COLUMN public.customer_invoice_payments.reference IS 'Cheque / EFT number, or the credit note number.';
+
+CREATE INDEX IF NOT EXISTS idx_customer_invoice_payments_invoice_id ON public.customer_invoice_payments (invoice_id);
+CREATE INDEX IF NOT EXISTS idx_customer_invoice_payments_received_on ON public.customer_invoice_payments (received_on);
+
+ALTER TABLE public.customer_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.customer_invoice_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage customer_invoices"
+  ON public.customer_invoices
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admins manage customer_invoice_payments"
+  ON public.customer_invoice_payments
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
@@ -0,0 +1,35 @@
+-- Statutory holiday calendar per province (Payroll → Stat holidays).
+-- A jurisdiction/year with no rows uses the app's built-in BC / AB calendar; the first edit for a
+-- year copies that calendar into rows, which are then used as-is. Payroll pays stat pay per
+-- holiday (average day's pay + premium for hours worked), replacing the flat
+-- employees.stat_holiday_pay_pct.
+CREATE TABLE IF NOT EXISTS public.stat_holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  jurisdiction TEXT NOT NULL,
+  date DATE NOT NULL,
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES public.users (id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT stat_holidays_jurisdiction_date_key UNIQUE (jurisdiction, date)
+);
+
+COMMENT ON TABLE public.stat_holidays IS
+  'Statutory holidays by jurisdiction (matches employees.overtime_jurisdiction). Years without rows use the built-in calendar.';
+
+COMMENT ON COLUMN public.employees.stat_holiday_pay_pct IS
+  'No longer used: stat pay is calculated per holiday from stat_holidays (average day''s pay).';
+
+ALTER TABLE public.stat_holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read stat_holidays"
+  ON public.stat_holidays
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins manage stat_holidays"
+  ON public.stat_holidays
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
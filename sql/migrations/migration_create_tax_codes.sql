@@ -0,0 +1,99 @@
+-- Sales tax codes (Invoices → Settings → Tax codes) instead of a flat 5% GST. A tax code is one or
+-- more components (GST 5%, HST 13%, GST 5% + PST 7%, …) or exempt with a note printed on the
+-- invoice (e.g. First Nations work under s.87 of the Indian Act). A ticket's code is its project's,
+-- else its customer's, else the default code. expense_type_tax_codes overrides the code for one
+-- expense type (e.g. per diem not taxed); an exempt project or customer stays exempt throughout.
+-- customer_invoices.tax_lines keeps each invoice's per-component tax so tax collected can be
+-- reported per period. qbo_tax_code names the QuickBooks Online sales tax code each code maps to
+-- when a batch is pushed to QuickBooks.
+
+CREATE TABLE IF NOT EXISTS public.tax_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  -- [{ "name": "GST", "rate": 0.05 }, { "name": "PST", "rate": 0.07 }]; empty when exempt.
+  components JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(components) = 'array'),
+  is_exempt BOOLEAN NOT NULL DEFAULT FALSE,
+  exempt_note TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  -- QuickBooks Online TaxCode name (or Id) used as TaxCodeRef on pushed invoice lines.
+  qbo_tax_code TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tax_codes_single_default
+  ON public.tax_codes (is_default)
+  WHERE is_default;
+
+COMMENT ON TABLE public.tax_codes IS
+  'Sales tax codes: components (name + rate) or exempt. Assigned per customer, project and expense type; is_default applies when none is set.';
+COMMENT ON COLUMN public.tax_codes.qbo_tax_code IS
+  'QuickBooks Online TaxCode name or Id sent as TaxCodeRef on pushed invoice lines. NULL = a QBO code with the same name as code.';
+
+INSERT INTO public.tax_codes (code, name, components, is_exempt, exempt_note, is_default, sort_order, qbo_tax_code) VALUES
+  ('GST', 'GST 5% (AB, territories)', '[{"name": "GST", "rate": 0.05}]', FALSE, NULL, TRUE, 10, 'GST'),
+  ('HST-ON', 'HST 13% (ON)', '[{"name": "HST", "rate": 0.13}]', FALSE, NULL, FALSE, 20, 'HST ON'),
+  ('HST-ATL', 'HST 15% (NB, NS, NL, PE)', '[{"name": "HST", "rate": 0.15}]', FALSE, NULL, FALSE, 30, 'HST NS'),
+  ('GST-PST-BC', 'GST 5% + PST 7% (BC)', '[{"name": "GST", "rate": 0.05}, {"name": "PST", "rate": 0.07}]', FALSE, NULL, FALSE, 40, 'GST/PST BC'),
+  ('GST-PST-SK', 'GST 5% + PST 6% (SK)', '[{"name": "GST", "rate": 0.05}, {"name": "PST", "rate": 0.06}]', FALSE, NULL, FALSE, 50, 'GST/PST SK'),
+  ('GST-RST-MB', 'GST 5% + RST 7% (MB)', '[{"name": "GST", "rate": 0.05}, {"name": "RST", "rate": 0.07}]', FALSE, NULL, FALSE, 60, 'GST/RST MB'),
+  ('EXEMPT', 'Exempt', '[]', TRUE, 'Tax exempt: services delivered on reserve (Indian Act s.87)', FALSE, 90, 'Exempt')
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE public.tax_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage tax_codes"
+  ON public.tax_codes
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- Ticket PDFs show tax, so everyone who can export a ticket reads the codes.
+CREATE POLICY "Authenticated users can view tax_codes"
+  ON public.tax_codes
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+ALTER TABLE public.customers
+  ADD COLUMN IF NOT EXISTS tax_code_id UUID REFERENCES public.tax_codes (id) ON DELETE SET NULL;
+
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS tax_code_id UUID REFERENCES public.tax_codes (id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.customers.tax_code_id IS 'Sales tax code for this customer''s work. NULL = the default tax code.';
+COMMENT ON COLUMN public.projects.tax_code_id IS 'Sales tax code for this project, overriding the customer''s. NULL = the customer''s code.';
+
+CREATE TABLE IF NOT EXISTS public.expense_type_tax_codes (
+  expense_type TEXT PRIMARY KEY CHECK (expense_type IN ('Travel', 'Subsistence', 'Hotel', 'Expenses', 'Equipment')),
+  tax_code_id UUID NOT NULL REFERENCES public.tax_codes (id) ON DELETE CASCADE,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.expense_type_tax_codes IS
+  'Tax code for one ticket expense type, overriding the ticket''s code (unless the ticket is exempt). No row = the ticket''s code.';
+
+ALTER TABLE public.expense_type_tax_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage expense_type_tax_codes"
+  ON public.expense_type_tax_codes
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Authenticated users can view expense_type_tax_codes"
+  ON public.expense_type_tax_codes
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+ALTER TABLE public.customer_invoices
+  ADD COLUMN IF NOT EXISTS tax_lines JSONB;
+
+COMMENT ON COLUMN public.customer_invoices.tax_lines IS
+  'Tax by component, [{ "name": "GST", "rate": 0.05, "base": 1000, "amount": 50 }]. NULL when only the tax total is known (entered by hand).';
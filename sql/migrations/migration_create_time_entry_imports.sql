@@ -0,0 +1,33 @@
+-- Bulk time entry imports (Data → Import Hours). Each upload is one batch: its rows are inserted
+-- in a single statement tagged with import_id, and rolling back deletes every entry of the batch.
+CREATE TABLE IF NOT EXISTS public.time_entry_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_name TEXT NOT NULL,
+  entry_count INTEGER NOT NULL DEFAULT 0,
+  total_hours NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'committed' CHECK (status IN ('committed', 'rolled_back')),
+  imported_by UUID REFERENCES public.users (id) ON DELETE SET NULL,
+  rolled_back_by UUID REFERENCES public.users (id) ON DELETE SET NULL,
+  rolled_back_at TIMESTAMPTZ,
+  is_demo BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.time_entry_imports IS
+  'One row per CSV/XLSX time entry import. Entries carry import_id so the batch can be rolled back.';
+
+ALTER TABLE public.time_entries
+  ADD COLUMN IF NOT EXISTS import_id UUID REFERENCES public.time_entry_imports (id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.time_entries.import_id IS 'Import batch that created this entry (NULL = entered in the app).';
+
+CREATE INDEX IF NOT EXISTS idx_time_entries_import_id ON public.time_entries (import_id) WHERE import_id IS NOT NULL;
+
+ALTER TABLE public.time_entry_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage time_entry_imports"
+  ON public.time_entry_imports
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
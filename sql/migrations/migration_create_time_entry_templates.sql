@@ -0,0 +1,46 @@
+-- Saved time entry templates (week view → Templates). A template holds what a repeated block of
+-- work is logged as; its optional recurrence (weekdays and/or specific dates, until a date) decides
+-- which days "Apply templates" proposes it on. Proposed entries are reviewed before they are saved.
+CREATE TABLE IF NOT EXISTS public.time_entry_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users (id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  customer_id UUID REFERENCES public.customers (id) ON DELETE SET NULL,
+  project_id UUID REFERENCES public.projects (id) ON DELETE SET NULL,
+  rate_type TEXT NOT NULL DEFAULT 'Shop Time',
+  start_time TIME NOT NULL DEFAULT '08:00',
+  hours NUMERIC(5, 2) NOT NULL CHECK (hours > 0 AND hours <= 24),
+  location TEXT,
+  approver TEXT,
+  po_afe TEXT,
+  cc TEXT,
+  other TEXT,
+  repeat_weekdays SMALLINT[] NOT NULL DEFAULT '{}',
+  repeat_dates DATE[] NOT NULL DEFAULT '{}',
+  repeat_until DATE,
+  is_demo BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT time_entry_templates_weekdays_check CHECK (repeat_weekdays <@ ARRAY[1, 2, 3, 4, 5, 6, 7]::SMALLINT[])
+);
+
+COMMENT ON TABLE public.time_entry_templates IS
+  'Per-user saved time entries with optional recurrence, used to propose entries for a week.';
+COMMENT ON COLUMN public.time_entry_templates.repeat_weekdays IS
+  'ISO weekdays the template recurs on (1 = Monday … 7 = Sunday). Empty = no weekly recurrence.';
+COMMENT ON COLUMN public.time_entry_templates.repeat_dates IS
+  'Specific dates the template also applies on, in addition to repeat_weekdays.';
+COMMENT ON COLUMN public.time_entry_templates.repeat_until IS
+  'Last date the recurrence applies (NULL = no end).';
+
+CREATE INDEX IF NOT EXISTS idx_time_entry_templates_user_id ON public.time_entry_templates (user_id);
+
+ALTER TABLE public.time_entry_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own time_entry_templates"
+  ON public.time_entry_templates
+  FOR ALL
+  TO authenticated
+  USING (user_id = (select auth.uid()) OR public.is_admin())
+  WITH CHECK (user_id = (select auth.uid()) OR public.is_admin());
@@ -0,0 +1,42 @@
+-- Server-side timers (header timer, week view). A user can have several timers at once, running
+-- or paused, and every device signed in as that user sees the same set. Stopping a timer deletes
+-- its row and saves a time_entries row from started_at to the stop time.
+CREATE TABLE IF NOT EXISTS public.timers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users (id) ON DELETE CASCADE,
+  description TEXT NOT NULL DEFAULT '',
+  project_id UUID REFERENCES public.projects (id) ON DELETE SET NULL,
+  rate_type TEXT NOT NULL DEFAULT 'Shop Time',
+  location TEXT,
+  approver TEXT,
+  po_afe TEXT,
+  cc TEXT,
+  other TEXT,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'paused')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  paused_elapsed_ms BIGINT NOT NULL DEFAULT 0 CHECK (paused_elapsed_ms >= 0),
+  is_demo BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.timers IS
+  'Running and paused timers per user, shared across devices. Stopping one creates a time entry and deletes the row.';
+COMMENT ON COLUMN public.timers.started_at IS
+  'While running: when the timer would have started had it never been paused (resume sets it to now - paused_elapsed_ms).';
+COMMENT ON COLUMN public.timers.paused_elapsed_ms IS
+  'Elapsed time frozen at the last pause. Ignored while running.';
+
+CREATE INDEX IF NOT EXISTS idx_timers_user_id ON public.timers (user_id, created_at);
+
+ALTER TABLE public.timers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own timers"
+  ON public.timers
+  FOR ALL
+  TO authenticated
+  USING (user_id = (select auth.uid()))
+  WITH CHECK (user_id = (select auth.uid()));
+
+-- Other devices pick up starts, pauses and stops through Supabase Realtime.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.timers;